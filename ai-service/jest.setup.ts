@@ -0,0 +1,29 @@
+import path from 'path';
+import { config } from 'dotenv';
+
+// Load test environment variables
+config({ path: '.env.test' });
+
+// Set test environment
+process.env.NODE_ENV = 'test';
+
+// Agents answer from the recorded fixtures; see README "Running the Agents Without API Keys"
+process.env.MOCK_AI_MODE = 'replay';
+process.env.MOCK_AI_FIXTURES_DIR = path.join(__dirname, 'fixtures/ai');
+process.env.CACHE_ENABLED = 'false';
+delete process.env.REDIS_URL;
+delete process.env.OPENAI_API_KEY;
+delete process.env.ANTHROPIC_API_KEY;
+delete process.env.GEMINI_API_KEY;
+delete process.env.LOCAL_AI_BASE_URL;
+
+// No network: the MCP server and the Sleeper API are unreachable in tests
+jest.mock('axios', () => {
+  const offline = () => Promise.reject(new Error('Network access is disabled in tests'));
+  const client = Object.assign(offline, {
+    get: offline,
+    post: offline,
+    interceptors: { request: { use: () => 0 }, response: { use: () => 0 } },
+  });
+  return { create: () => client, get: offline, post: offline };
+});
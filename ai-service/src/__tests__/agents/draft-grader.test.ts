@@ -0,0 +1,32 @@
+import { DraftGrader, DraftGradeRequest } from '../../agents/draft-grader';
+import { AIManager } from '../../services/ai-manager';
+import { createAIConfig } from '../../config/ai-config';
+
+describe('DraftGrader', () => {
+  let grader: DraftGrader;
+
+  const request: DraftGradeRequest = {
+    leagueName: 'Replay League',
+    season: '2024',
+    basis: 'adp',
+    weeksPlayed: 0,
+    teams: [
+      { rosterId: 1, teamName: 'Team A', grade: 'A-', score: 0.8, steals: [], reaches: [], bestPick: null, worstPick: null },
+      { rosterId: 2, teamName: 'Team B', grade: 'C', score: -0.4, steals: [], reaches: [], bestPick: null, worstPick: null },
+    ],
+  };
+
+  beforeEach(() => {
+    grader = new DraftGrader(new AIManager(createAIConfig()));
+  });
+
+  it('keeps summaries for the graded teams only', async () => {
+    const narrative = await grader.writeDraftGrades(request);
+
+    expect(narrative.overview).toBe('Team A drafted for value; Team B reached early.');
+    expect(narrative.teams).toEqual([
+      { rosterId: 1, summary: 'Strong value throughout.' },
+      { rosterId: 2, summary: 'Too many early reaches.' }, // rosterId came back as a string; 9 is not in the league
+    ]);
+  });
+});
@@ -0,0 +1,53 @@
+import { LineupOptimizer, LineupOptimizerRequest } from '../../agents/lineup-optimizer';
+import { AIManager } from '../../services/ai-manager';
+import { createAIConfig } from '../../config/ai-config';
+
+describe('LineupOptimizer', () => {
+  let optimizer: LineupOptimizer;
+
+  const request: LineupOptimizerRequest = {
+    userId: 'user-1',
+    leagueId: 'replay-league',
+    week: 6,
+    availablePlayers: ['qb1', 'rb1', 'rb2', 'wr1'],
+    rosterSlots: ['QB', 'RB', 'WR', 'FLEX', 'BN'],
+  };
+
+  beforeEach(() => {
+    optimizer = new LineupOptimizer(new AIManager(createAIConfig()));
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('solves the lineup from recorded projections and keeps the recorded explanation', async () => {
+    const optimization = await optimizer.optimizeLineup(request);
+
+    expect(optimization.isFallback).toBe(false);
+    expect(optimization.playerProjections).toHaveLength(4);
+    // Sleeper is unreachable in tests, so eligibility comes from the projected positions
+    expect(optimization.optimalLineup.lineup).toEqual({ QB: 'qb1', RB: 'rb1', WR: 'wr1', FLEX: 'rb2' });
+    expect(optimization.optimalLineup.projectedTotal.expected).toBe(64);
+    expect(optimization.optimalLineup.reasoning).toContain('highest expected');
+    expect(optimization.benchAnalysis).toEqual([]);
+  });
+
+  it('looks up only the available players in Sleeper', async () => {
+    const callTool = jest.spyOn(AIManager.prototype, 'callTool')
+      .mockResolvedValue({ content: null, isError: true, errorMessage: 'Sleeper unavailable', source: 'sleeper' });
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+
+    await optimizer.optimizeLineup(request);
+
+    expect(callTool).toHaveBeenCalledWith('get_players_nfl', { player_ids: ['qb1', 'rb1', 'rb2', 'wr1'] });
+  });
+
+  it('offers a lineup for each of the other objectives', async () => {
+    const optimization = await optimizer.optimizeLineup({ ...request, userPreferences: { riskTolerance: 'aggressive' } });
+
+    expect(optimization.solverDetails?.objective).toBe('ceiling');
+    expect(optimization.alternativeLineups.map(lineup => lineup.scenarioName)).toEqual(['High Floor', 'Optimal Expected Points']);
+    expect(optimization.alternativeLineups[1].reasoning).toContain('expected');
+  });
+});
@@ -0,0 +1,47 @@
+import { MatchupPreviewAnalyzer, MatchupPreviewRequest } from '../../agents/matchup-preview-analyzer';
+import { AIManager } from '../../services/ai-manager';
+import { createAIConfig } from '../../config/ai-config';
+
+describe('MatchupPreviewAnalyzer', () => {
+  let analyzer: MatchupPreviewAnalyzer;
+
+  const request: MatchupPreviewRequest = {
+    leagueName: 'Replay League',
+    week: 6,
+    teams: [
+      {
+        rosterId: 1,
+        teamName: 'Team A',
+        ownerName: 'owner1',
+        starters: [{ playerId: 'qb1', name: 'QB One', position: 'QB', nflTeam: 'KC', slot: 'QB', projectedPoints: 22 }],
+      },
+      {
+        rosterId: 2,
+        teamName: 'Team B',
+        ownerName: 'owner2',
+        starters: [{ playerId: 'qb2', name: 'QB Two', position: 'QB', nflTeam: 'BUF', slot: 'QB', projectedPoints: 18 }],
+      },
+    ],
+  };
+
+  beforeEach(() => {
+    analyzer = new MatchupPreviewAnalyzer(new AIManager(createAIConfig()));
+  });
+
+  it('keeps the computed numbers and the recorded narrative', async () => {
+    const preview = await analyzer.previewMatchup(request);
+
+    expect(preview.isFallback).toBe(false);
+    expect(preview.favorite).toBe('Team A');
+    expect(preview.provider).toBe('mock');
+    expect(preview.narrative).toBe('Team A is favored by four points behind QB One.');
+    expect(preview.keyFactors).toEqual(['QB One vs QB Two']); // Trimmed, empty factors dropped
+  });
+
+  it('uses the repaired reply when the first one fails validation', async () => {
+    const preview = await analyzer.previewMatchup({ ...request, week: 7 });
+
+    expect(preview.isFallback).toBe(false);
+    expect(preview.narrative).toBe('Team A should edge Team B at quarterback.');
+  });
+});
@@ -0,0 +1,59 @@
+import { SeasonOutlookAnalyzer, SeasonOutlookRequest } from '../../agents/season-outlook-analyzer';
+import { AIManager } from '../../services/ai-manager';
+import { createAIConfig } from '../../config/ai-config';
+
+describe('SeasonOutlookAnalyzer', () => {
+  let analyzer: SeasonOutlookAnalyzer;
+
+  const request: SeasonOutlookRequest = {
+    leagueName: 'Replay League',
+    teamName: 'Team A',
+    week: 8,
+    teamCount: 10,
+    playoffs: {
+      record: { wins: 5, losses: 2, ties: 0 },
+      projectedWins: 9.1,
+      playoffOdds: 0.78,
+      byeOdds: 0.3,
+      champOdds: 0.14,
+      clinched: false,
+      eliminated: false,
+    },
+    positions: [
+      { position: 'RB', starterSlots: 2, starterPoints: 210, leagueRank: 2, players: [{ name: 'RB One', points: 120, starter: true }] },
+      { position: 'TE', starterSlots: 1, starterPoints: 45, leagueRank: 9, players: [{ name: 'TE One', points: 45, starter: true }] },
+    ],
+    schedule: {
+      remainingGames: 7,
+      averageOpponentScore: 112,
+      leagueAverageScore: 108,
+      difficultyRank: 3,
+      games: [{ week: 9, opponent: 'Team B', opponentAverage: 115 }],
+    },
+    byeWeeks: [],
+    strengths: ['RB depth ranks 2nd'],
+    weaknesses: ['TE ranks 9th'],
+    candidateActions: [
+      { type: 'trade', position: 'TE', detail: 'Trade RB depth for a starting TE' },
+      { type: 'waiver', position: 'TE', detail: 'Stream TEs by matchup' },
+    ],
+  };
+
+  beforeEach(() => {
+    analyzer = new SeasonOutlookAnalyzer(new AIManager(createAIConfig()));
+  });
+
+  it('keeps only actions that match a candidate', async () => {
+    const report = await analyzer.writeOutlook(request);
+
+    expect(report.isFallback).toBe(false);
+    expect(report.summary).toContain('78%');
+    // The invented QB trade is dropped; the waiver action keeps its candidate detail
+    expect(report.actions).toEqual([
+      { type: 'trade', position: 'TE', detail: 'Move an RB for a top-8 TE' },
+      { type: 'waiver', position: 'TE', detail: 'Stream TEs by matchup' },
+    ]);
+    expect(report.strengths).toEqual(['Second-best RB room in the league']);
+    expect(report.weaknesses).toEqual(['TE ranks 9th']); // Missing in the reply, taken from the request
+  });
+});
@@ -0,0 +1,62 @@
+import { StartSitAnalyzer, StartSitAnalysis, StartSitRequest } from '../../agents/start-sit-analyzer';
+import { AIManager } from '../../services/ai-manager';
+import { createAIConfig } from '../../config/ai-config';
+
+// Replies come from fixtures/ai; see README "Running the Agents Without API Keys"
+describe('StartSitAnalyzer', () => {
+  let analyzer: StartSitAnalyzer;
+
+  const request: StartSitRequest = {
+    userId: 'user-1',
+    leagueId: 'replay-league',
+    week: 6,
+    playerIds: ['4046', '6794'],
+    rosterSlots: ['QB', 'WR', 'FLEX'],
+  };
+
+  beforeEach(() => {
+    analyzer = new StartSitAnalyzer(new AIManager(createAIConfig()));
+  });
+
+  it('parses a recorded analysis', async () => {
+    const analysis = await analyzer.analyzeStartSit(request);
+
+    expect(analysis.isFallback).toBe(false);
+    expect(analysis.recommendations).toHaveLength(2);
+    expect(analysis.recommendations[0]).toMatchObject({
+      playerId: '4046',
+      recommendation: 'start',
+      confidence: 1, // Clamped from 1.2
+    });
+    // Optional fields get their defaults
+    expect(analysis.recommendations[1].matchupAnalysis).toEqual({ opponent: 'Unknown', difficulty: 'medium', keyFactors: [] });
+    expect(analysis.recommendations[1].riskFactors).toEqual([]);
+    expect(analysis.optimalLineup).toEqual({ QB: '4046', WR: '6794' });
+  });
+
+  it('streams the same analysis', async () => {
+    const events = [];
+    for await (const event of analyzer.streamStartSit(request)) {
+      events.push(event);
+    }
+
+    const result = events[events.length - 1];
+    expect(events.filter(event => event.type === 'delta').length).toBeGreaterThan(1);
+    expect(result.type).toBe('result');
+    expect((result as { data: StartSitAnalysis }).data.recommendations[0].playerId).toBe('4046');
+  });
+
+  it('flags the fallback when the reply stays invalid after a repair', async () => {
+    const analysis = await analyzer.analyzeStartSit({ ...request, week: 7 });
+
+    expect(analysis.isFallback).toBe(true);
+    expect(analysis.fallbackReason).toContain('failed validation after 1 repair attempt');
+    expect(analysis.recommendations.map(rec => rec.recommendation)).toEqual(['sit', 'sit']);
+  });
+
+  it('parses a quick recommendation', async () => {
+    const recommendation = await analyzer.getQuickRecommendation('4046', 'replay-league', 6);
+
+    expect(recommendation).toMatchObject({ playerId: '4046', recommendation: 'start', isFallback: false });
+  });
+});
@@ -0,0 +1,40 @@
+import { TradeAnalyzer, TradeRequest } from '../../agents/trade-analyzer';
+import { AIManager } from '../../services/ai-manager';
+import { createAIConfig } from '../../config/ai-config';
+
+describe('TradeAnalyzer', () => {
+  let analyzer: TradeAnalyzer;
+
+  const request: TradeRequest = {
+    leagueId: 'replay-league',
+    team1UserId: 'user-1',
+    team2UserId: 'user-2',
+    team1Players: ['4046'],
+    team2Players: ['6794'],
+    requestingUserId: 'user-1',
+  };
+
+  beforeEach(() => {
+    analyzer = new TradeAnalyzer(new AIManager(createAIConfig()));
+  });
+
+  it('parses a recorded analysis', async () => {
+    const analysis = await analyzer.analyzeTrade(request);
+
+    expect(analysis.isFallback).toBe(false);
+    expect(analysis.fairnessScore).toBe(6);
+    expect(analysis.team1Analysis.grade).toBe('B+');
+    expect(analysis.team1Analysis.recommendation.decision).toBe('accept');
+    expect(analysis.marketValue.valueVerdict).toBe('team1_wins');
+    expect(analysis.summary).toContain('slight edge');
+  });
+
+  it('fills players the model left out of a value comparison', async () => {
+    const values = await analyzer.getTradeValueComparison(['4046', '6794'], 'replay-league');
+
+    expect(values).toEqual([
+      { playerId: '4046', value: 100, tier: 'Tier 1' }, // Clamped from 104
+      { playerId: '6794', value: 50, tier: 'Tier 3', isFallback: true },
+    ]);
+  });
+});
@@ -0,0 +1,43 @@
+import { WaiverWireAnalyzer, WaiverWireRequest } from '../../agents/waiver-wire-analyzer';
+import { AIManager } from '../../services/ai-manager';
+import { createAIConfig } from '../../config/ai-config';
+
+describe('WaiverWireAnalyzer', () => {
+  let analyzer: WaiverWireAnalyzer;
+
+  const request: WaiverWireRequest = {
+    userId: 'user-1',
+    leagueId: 'replay-league',
+    week: 6,
+    budget: 80,
+    currentRoster: ['4046', '6794'],
+  };
+
+  beforeEach(() => {
+    analyzer = new WaiverWireAnalyzer(new AIManager(createAIConfig()));
+  });
+
+  it('parses a recorded analysis', async () => {
+    const analysis = await analyzer.analyzeWaiverWire(request);
+
+    expect(analysis.isFallback).toBe(false);
+    expect(analysis.topPickups).toHaveLength(1);
+    expect(analysis.topPickups[0]).toMatchObject({
+      playerId: '9509',
+      team: 'FA', // Defaulted
+      priority: 1,
+      targetWeeks: [6],
+      recentTrends: { usage: 'increasing', opportunity: 'stable', production: 'stable' }, // Unknown trend values become stable
+    });
+    expect(analysis.dropCandidates[0].safetyLevel).toBe('safe');
+    expect(analysis.budgetStrategy).toMatchObject({ remainingBudget: 80, aggressiveTargets: ['9509'] });
+  });
+
+  it('parses recorded streaming options', async () => {
+    const streaming = await analyzer.getStreamingRecommendations('DEF', 'replay-league', 6);
+
+    expect(streaming.isFallback).toBe(false);
+    expect(streaming.recommendations.map(option => option.playerId)).toEqual(['PIT', 'SF']);
+    expect(streaming.recommendations[1].upside).toBe('Good streaming option');
+  });
+});
@@ -0,0 +1,42 @@
+import { WeeklyRecapWriter, WeeklyRecapRequest } from '../../agents/weekly-recap-writer';
+import { AIManager } from '../../services/ai-manager';
+import { createAIConfig } from '../../config/ai-config';
+
+describe('WeeklyRecapWriter', () => {
+  let writer: WeeklyRecapWriter;
+
+  const request: WeeklyRecapRequest = {
+    leagueName: 'Replay League',
+    week: 6,
+    matchups: [{ winner: { teamName: 'Team A', points: 121.4 }, loser: { teamName: 'Team B', points: 98.2 }, margin: 23.2, tie: false }],
+    topPerformers: [{ playerName: 'RB One', position: 'RB', nflTeam: 'SF', teamName: 'Team A', points: 31.2 }],
+    benchReports: [],
+    biggestUpset: null,
+    standings: [
+      { teamName: 'Team A', rank: 1, previousRank: 2, record: '5-1', pointsFor: 701.3 },
+      { teamName: 'Team B', rank: 2, previousRank: 1, record: '4-2', pointsFor: 688 },
+    ],
+    tone: 'playful',
+  };
+
+  beforeEach(() => {
+    writer = new WeeklyRecapWriter(new AIManager(createAIConfig()));
+  });
+
+  it('parses a recorded recap', async () => {
+    const recap = await writer.writeRecap(request);
+
+    expect(recap.isFallback).toBe(false);
+    expect(recap.headline).toBe('Team A Runs Away With Week 6');
+    expect(recap.sections).toEqual([{ title: 'Game of the Week', body: 'Team A rolled Team B 121.4-98.2.' }]);
+    expect(recap.awards).toEqual([{ title: 'MVP', teamName: 'Team A', reason: '' }]);
+  });
+
+  it('builds the recap from the numbers when the reply stays invalid', async () => {
+    const recap = await writer.writeRecap({ ...request, week: 7 });
+
+    expect(recap.isFallback).toBe(true);
+    expect(recap.provider).toBeNull();
+    expect(recap.sections[0]).toEqual({ title: 'Matchup Results', body: 'Team A beat Team B 121.4-98.2.' });
+  });
+});
@@ -0,0 +1,232 @@
+import { AIManager } from '../../services/ai-manager';
+import { MCPClient } from '../../services/mcp-client';
+import { MockProvider } from '../../providers/mock-provider';
+import { AIProvider, AIRequest, AIResponse, AIStreamChunk, MCPTool, ProviderConfigs } from '../../types/ai-providers';
+
+const tools: MCPTool[] = [
+  {
+    name: 'get_league',
+    description: 'Get league settings',
+    inputSchema: { type: 'object', properties: { league_id: { type: 'string' } }, required: ['league_id'] },
+  },
+  {
+    name: 'get_rosters',
+    description: 'Get league rosters',
+    inputSchema: { type: 'object', properties: { league_id: { type: 'string' } }, required: ['league_id'] },
+  },
+];
+
+const reply = (content: string, extra: Partial<AIResponse> = {}): AIResponse => ({
+  content,
+  usage: { promptTokens: 100, completionTokens: 20, totalTokens: 120 },
+  provider: AIProvider.MOCK,
+  model: 'mock',
+  ...extra,
+});
+
+const newRequest = (): AIRequest => ({
+  messages: [
+    { role: 'system', content: 'You are a fantasy analyst' },
+    { role: 'user', content: 'Summarize league 123' },
+  ],
+});
+
+function createManager(toolLoop = { maxIterations: 3, maxTokens: 20000 }): AIManager {
+  return new AIManager({
+    providers: {
+      [AIProvider.MOCK]: { apiKey: '', model: 'mock', fixturesDir: '/nonexistent', mode: 'replay' },
+    } as ProviderConfigs,
+    defaultProvider: AIProvider.MOCK,
+    fallbackProviders: [],
+    mcpConfig: { baseURL: 'http://localhost:3001' },
+    toolLoop,
+  });
+}
+
+describe('AIManager tool loop', () => {
+  let chat: jest.SpyInstance;
+  let callTool: jest.SpyInstance;
+
+  beforeEach(() => {
+    jest.spyOn(MCPClient.prototype, 'getAvailableTools').mockReturnValue(tools);
+    callTool = jest.spyOn(MCPClient.prototype, 'callTool').mockImplementation(async toolCall => ({
+      content: { tool: toolCall.name, league_id: toolCall.arguments.league_id },
+      isError: false,
+      source: 'sleeper',
+    }));
+    chat = jest.spyOn(MockProvider.prototype, 'chat');
+  });
+
+  it('sends tool results back as tool messages and stores the trace', async () => {
+    chat
+      .mockResolvedValueOnce(reply('Checking the league.', {
+        toolCalls: [
+          { id: 'toolu_1', name: 'get_league', parameters: { league_id: '123' } },
+          { name: 'get_rosters', parameters: { league_id: '123' } },
+        ],
+      }))
+      .mockResolvedValueOnce(reply('League 123 is a 12-team dynasty league.'));
+
+    const response = await createManager().chat(newRequest());
+
+    expect(callTool).toHaveBeenCalledWith({ name: 'get_league', arguments: { league_id: '123' } });
+    expect(callTool).toHaveBeenCalledWith({ name: 'get_rosters', arguments: { league_id: '123' } });
+
+    const secondTurn: AIRequest = chat.mock.calls[1][0];
+    expect(secondTurn.tools?.map(tool => tool.name)).toEqual(['get_league', 'get_rosters']);
+    expect(secondTurn.messages.slice(2)).toEqual([
+      {
+        role: 'assistant',
+        content: 'Checking the league.',
+        toolCalls: [
+          { id: 'toolu_1', name: 'get_league', parameters: { league_id: '123' } },
+          { id: 'call_1_2', name: 'get_rosters', parameters: { league_id: '123' } },
+        ],
+      },
+      {
+        role: 'tool',
+        content: '{"tool":"get_league","league_id":"123"}',
+        toolCallId: 'toolu_1',
+        toolName: 'get_league',
+        isError: false,
+      },
+      {
+        role: 'tool',
+        content: '{"tool":"get_rosters","league_id":"123"}',
+        toolCallId: 'call_1_2',
+        toolName: 'get_rosters',
+        isError: false,
+      },
+    ]);
+
+    expect(response.content).toBe('League 123 is a 12-team dynasty league.');
+    expect(response.usage).toEqual({ promptTokens: 200, completionTokens: 40, totalTokens: 240 });
+    expect(response.toolCalls?.map(toolCall => toolCall.name)).toEqual(['get_league', 'get_rosters']);
+    expect(response.toolTrace).toEqual({
+      iterations: 2,
+      totalTokens: 240,
+      stopReason: 'completed',
+      calls: [
+        expect.objectContaining({ iteration: 1, name: 'get_league', parameters: { league_id: '123' }, source: 'sleeper', isError: false }),
+        expect.objectContaining({ iteration: 1, name: 'get_rosters', parameters: { league_id: '123' }, source: 'sleeper', isError: false }),
+      ],
+    });
+  });
+
+  it('answers unknown tools with an error result instead of calling them', async () => {
+    chat
+      .mockResolvedValueOnce(reply('', { toolCalls: [{ id: 'call_a', name: 'drop_player', parameters: {} }] }))
+      .mockResolvedValueOnce(reply('I cannot drop players.'));
+
+    const response = await createManager().chat(newRequest());
+
+    expect(callTool).not.toHaveBeenCalled();
+    expect(chat.mock.calls[1][0].messages[3]).toEqual({
+      role: 'tool',
+      content: 'Error - Unknown tool: drop_player',
+      toolCallId: 'call_a',
+      toolName: 'drop_player',
+      isError: true,
+    });
+    expect(response.toolTrace?.calls[0]).toEqual(expect.objectContaining({
+      name: 'drop_player',
+      isError: true,
+      errorMessage: 'Unknown tool: drop_player',
+    }));
+  });
+
+  it('stops offering tools once the iteration limit is reached', async () => {
+    chat.mockImplementation(async (request: AIRequest) => request.tools
+      ? reply('', { toolCalls: [{ id: `call_${chat.mock.calls.length}`, name: 'get_league', parameters: { league_id: '123' } }] })
+      : reply('Final answer from the data so far.'));
+
+    const response = await createManager({ maxIterations: 3, maxTokens: 20000 }).chat(newRequest());
+
+    expect(chat).toHaveBeenCalledTimes(3);
+    expect(callTool).toHaveBeenCalledTimes(2);
+
+    // The last turn offers no tools, so the tool turns go as plain text
+    const lastTurn: AIRequest = chat.mock.calls[2][0];
+    expect(lastTurn.tools).toBeUndefined();
+    expect(lastTurn.messages.every(message => message.role !== 'tool' && !message.toolCalls)).toBe(true);
+    expect(lastTurn.messages[lastTurn.messages.length - 1]).toEqual({
+      role: 'user',
+      content: expect.stringMatching(/^Tool execution results:\nget_league: .*\n\nThe tool budget for this request is used up\./s),
+    });
+
+    expect(response.content).toBe('Final answer from the data so far.');
+    expect(response.toolTrace).toEqual(expect.objectContaining({
+      iterations: 3,
+      totalTokens: 360,
+      stopReason: 'max_iterations',
+    }));
+    expect(response.toolTrace?.calls.map(call => call.iteration)).toEqual([1, 2]);
+  });
+
+  it('stops offering tools once the token budget is spent', async () => {
+    chat.mockImplementation(async (request: AIRequest) => request.tools
+      ? reply('', { toolCalls: [{ id: 'call_1', name: 'get_league', parameters: { league_id: '123' } }] })
+      : reply('Final answer.'));
+
+    const response = await createManager({ maxIterations: 5, maxTokens: 100 }).chat(newRequest());
+
+    expect(chat).toHaveBeenCalledTimes(2);
+    expect(response.toolTrace).toEqual(expect.objectContaining({ iterations: 2, stopReason: 'max_tokens' }));
+  });
+
+  it('skips the loop when MCP is disabled', async () => {
+    chat.mockResolvedValueOnce(reply('Plain answer.'));
+
+    const response = await createManager().chat(newRequest(), undefined, false);
+
+    expect(chat.mock.calls[0][0].tools).toBeUndefined();
+    expect(response.content).toBe('Plain answer.');
+    expect(response.toolTrace).toBeUndefined();
+  });
+
+  it('answers with the mock in mock mode even when another provider is preferred', async () => {
+    const manager = new AIManager({
+      providers: {
+        [AIProvider.OPENAI]: { apiKey: 'test-key', model: 'gpt-4o' },
+        [AIProvider.MOCK]: {
+          apiKey: '',
+          model: 'mock',
+          fixturesDir: '/nonexistent',
+          mode: 'record',
+          recordProvider: AIProvider.OPENAI,
+        },
+      } as ProviderConfigs,
+      defaultProvider: AIProvider.MOCK,
+      fallbackProviders: [],
+      mcpConfig: { baseURL: 'http://localhost:3001' },
+    });
+    chat.mockResolvedValue(reply('From the mock.'));
+
+    const response = await manager.chat(newRequest(), AIProvider.OPENAI, false);
+
+    expect(chat).toHaveBeenCalledTimes(1);
+    expect(response.content).toBe('From the mock.');
+  });
+
+  it('streams the text of every turn', async () => {
+    const turns = [
+      reply('Looking it up. ', { toolCalls: [{ id: 'call_1', name: 'get_league', parameters: { league_id: '123' } }] }),
+      reply('Dynasty league.'),
+    ];
+    jest.spyOn(MockProvider.prototype, 'chatStream').mockImplementation(async function* (): AsyncGenerator<AIStreamChunk> {
+      const response = turns.shift()!;
+      yield { type: 'delta', content: response.content };
+      yield { type: 'done', response };
+    });
+
+    const deltas: string[] = [];
+    let final: AIResponse | undefined;
+    for await (const chunk of createManager().chat({ ...newRequest(), stream: true })) {
+      if (chunk.type === 'delta') deltas.push(chunk.content);
+      else final = chunk.response;
+    }
+
+    expect(deltas).toEqual(['Looking it up. ', 'Dynasty league.']);
+    expect(final?.toolTrace).toEqual(expect.objectContaining({ iterations: 2, stopReason: 'completed' }));
+  });
+});
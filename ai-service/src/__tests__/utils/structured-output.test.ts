@@ -0,0 +1,193 @@
+import { z } from 'zod';
+import { AIManager } from '../../services/ai-manager';
+import { AIProvider, AIRequest, AIResponse, AIStreamChunk, AnalysisStreamEvent } from '../../types/ai-providers';
+import {
+  chatStructured,
+  extractJson,
+  streamStructured,
+  StructuredChatResult,
+  StructuredOutputError,
+  validateOutput,
+} from '../../utils/structured-output';
+
+const Schema = z.object({
+  name: z.string(),
+  score: z.number(),
+});
+
+const reply = (content: string, extra: Partial<AIResponse> = {}): AIResponse => ({
+  content,
+  provider: AIProvider.MOCK,
+  model: 'mock',
+  ...extra,
+});
+
+async function* streamOf(response: AIResponse): AsyncGenerator<AIStreamChunk> {
+  for (const word of response.content.match(/\S+\s*/g) || []) {
+    yield { type: 'delta', content: word };
+  }
+  yield { type: 'done', response };
+}
+
+describe('structured output', () => {
+  const request: AIRequest = {
+    messages: [
+      { role: 'system', content: 'Respond with JSON' },
+      { role: 'user', content: 'Score the player' },
+    ],
+    maxTokens: 500,
+    temperature: 0.1,
+  };
+
+  let chat: jest.Mock;
+  let aiManager: AIManager;
+
+  beforeEach(() => {
+    chat = jest.fn();
+    aiManager = { chat } as unknown as AIManager;
+  });
+
+  describe('extractJson', () => {
+    it('prefers a fenced json block', () => {
+      expect(extractJson('Here you go:\n```json\n{"name": "A", "score": 1}\n```\nThanks {not json}')).toEqual({ name: 'A', score: 1 });
+    });
+
+    it('takes the outermost braces of an unfenced reply', () => {
+      expect(extractJson('Sure! {"name": "A", "nested": {"score": 1}} Hope that helps.')).toEqual({ name: 'A', nested: { score: 1 } });
+    });
+
+    it('throws when there is no object', () => {
+      expect(() => extractJson('No data available')).toThrow('No JSON object found in the reply');
+    });
+  });
+
+  describe('validateOutput', () => {
+    it('reports every issue with its path', () => {
+      const result = validateOutput('{"name": 3}', Schema);
+
+      expect(result.success).toBe(false);
+      expect(!result.success && result.issues).toEqual([
+        'name: Expected string, received number',
+        'score: Required',
+      ]);
+    });
+
+    it('reports unparseable JSON as an issue', () => {
+      const result = validateOutput('{"name": }', Schema);
+
+      expect(result.success).toBe(false);
+      expect(!result.success && result.issues).toHaveLength(1);
+    });
+  });
+
+  describe('chatStructured', () => {
+    it('returns the first reply when it validates', async () => {
+      chat.mockResolvedValueOnce(reply('{"name": "A", "score": 7}'));
+
+      const result = await chatStructured(aiManager, request, Schema, { enableMCP: false });
+
+      expect(result).toMatchObject({ data: { name: 'A', score: 7 }, repairs: 0 });
+      expect(chat).toHaveBeenCalledTimes(1);
+      expect(chat).toHaveBeenCalledWith(expect.objectContaining({ responseFormat: 'json' }), undefined, false);
+    });
+
+    it('sends an invalid reply back with its issues and keeps the first reply\'s tool trace', async () => {
+      const toolTrace = { iterations: 2, totalTokens: 120, stopReason: 'completed' as const, calls: [] };
+      chat
+        .mockResolvedValueOnce(reply('{"name": "A"}', { toolTrace }))
+        .mockResolvedValueOnce(reply('{"name": "A", "score": 7}'));
+
+      const result = await chatStructured(aiManager, request, Schema, { preferredProvider: AIProvider.CLAUDE });
+
+      expect(result.repairs).toBe(1);
+      expect(result.data).toEqual({ name: 'A', score: 7 });
+      expect(result.response.toolTrace).toBe(toolTrace);
+
+      const [repairRequest, provider, enableMCP] = chat.mock.calls[1];
+      expect(provider).toBe(AIProvider.CLAUDE);
+      expect(enableMCP).toBe(false);
+      expect(repairRequest.messages.slice(0, 2)).toEqual(request.messages);
+      expect(repairRequest.messages[2]).toEqual({ role: 'assistant', content: '{"name": "A"}' });
+      expect(repairRequest.messages[3].content).toContain('- score: Required');
+    });
+
+    it('throws a StructuredOutputError once the repairs run out', async () => {
+      chat.mockResolvedValue(reply('not json'));
+
+      const error = await chatStructured(aiManager, request, Schema, { repairAttempts: 2 }).catch(e => e);
+
+      expect(error).toBeInstanceOf(StructuredOutputError);
+      expect(error.message).toContain('after 2 repair attempt(s)');
+      expect(error.issues).toEqual(['No JSON object found in the reply']);
+      expect(chat).toHaveBeenCalledTimes(3);
+    });
+
+    it('does not repair when repairAttempts is 0', async () => {
+      chat.mockResolvedValue(reply('{}'));
+
+      await expect(chatStructured(aiManager, request, Schema, { repairAttempts: 0 })).rejects.toThrow(StructuredOutputError);
+      expect(chat).toHaveBeenCalledTimes(1);
+    });
+
+    it('only lets replies that validate into the cache', async () => {
+      chat.mockResolvedValueOnce(reply('{"name": "A", "score": 7}'));
+
+      await chatStructured(aiManager, request, Schema);
+
+      const { cacheIf } = chat.mock.calls[0][0] as AIRequest;
+      expect(cacheIf?.(reply('{"name": "A", "score": 7}'))).toBe(true);
+      expect(cacheIf?.(reply('{"name": "A"}'))).toBe(false);
+    });
+
+    it('leaves the caller\'s request untouched', async () => {
+      chat.mockResolvedValueOnce(reply('{"name": "A", "score": 7}'));
+
+      await chatStructured(aiManager, request, Schema);
+
+      expect(request).not.toHaveProperty('responseFormat');
+      expect(request).not.toHaveProperty('cacheIf');
+    });
+  });
+
+  describe('streamStructured', () => {
+    const collect = async <T>(generator: AsyncGenerator<AnalysisStreamEvent<never>, StructuredChatResult<T>>) => {
+      const events: AnalysisStreamEvent<never>[] = [];
+      let next = await generator.next();
+      while (!next.done) {
+        events.push(next.value);
+        next = await generator.next();
+      }
+      return { events, result: next.value };
+    };
+
+    it('relays the first reply\'s deltas and returns the validated data', async () => {
+      chat.mockReturnValueOnce(streamOf(reply('{"name": "A", "score": 7}')));
+
+      const { events, result } = await collect(streamStructured(aiManager, request, Schema));
+
+      expect(events.map(event => event.type === 'delta' && event.content).join('')).toBe('{"name": "A", "score": 7}');
+      expect(result).toMatchObject({ data: { name: 'A', score: 7 }, repairs: 0 });
+      expect(chat).toHaveBeenCalledWith(expect.objectContaining({ stream: true, responseFormat: 'json' }), undefined, true);
+    });
+
+    it('repairs without streaming the repair turn', async () => {
+      chat
+        .mockReturnValueOnce(streamOf(reply('{"name": "A"}')))
+        .mockResolvedValueOnce(reply('{"name": "A", "score": 7}'));
+
+      const { events, result } = await collect(streamStructured(aiManager, request, Schema));
+
+      expect(events.map(event => event.type === 'delta' && event.content).join('')).toBe('{"name": "A"}');
+      expect(result.repairs).toBe(1);
+      expect(chat.mock.calls[1][0]).not.toHaveProperty('stream');
+    });
+
+    it('throws a StructuredOutputError after the stream when the reply stays invalid', async () => {
+      chat
+        .mockReturnValueOnce(streamOf(reply('{"name": "A"}')))
+        .mockResolvedValueOnce(reply('{"name": "A"}'));
+
+      await expect(collect(streamStructured(aiManager, request, Schema))).rejects.toThrow(StructuredOutputError);
+    });
+  });
+});
@@ -0,0 +1,80 @@
+import { AIMessage } from '../../types/ai-providers';
+import { flattenToolMessages, parseToolArguments } from '../../utils/tool-calls';
+
+describe('tool calls', () => {
+  describe('parseToolArguments', () => {
+    it('parses a JSON object', () => {
+      expect(parseToolArguments('{"league_id": "123", "week": 6}')).toEqual({ league_id: '123', week: 6 });
+    });
+
+    it('treats empty, malformed and non-object arguments as no arguments', () => {
+      expect(parseToolArguments(undefined)).toEqual({});
+      expect(parseToolArguments('')).toEqual({});
+      expect(parseToolArguments('{"league_id": ')).toEqual({});
+      expect(parseToolArguments('["123"]')).toEqual({});
+      expect(parseToolArguments('null')).toEqual({});
+    });
+  });
+
+  describe('flattenToolMessages', () => {
+    const toolTurn: AIMessage[] = [
+      { role: 'system', content: 'You are a fantasy analyst' },
+      { role: 'user', content: 'Who should I start?' },
+      {
+        role: 'assistant',
+        content: 'Let me check the league.',
+        toolCalls: [
+          { id: 'call_1', name: 'get_league', parameters: { league_id: '123' } },
+          { id: 'call_2', name: 'get_rosters', parameters: {} },
+        ],
+      },
+      { role: 'tool', content: '{"name":"Dynasty"}', toolCallId: 'call_1', toolName: 'get_league' },
+      { role: 'tool', content: 'Error - timeout', toolCallId: 'call_2', toolName: 'get_rosters', isError: true },
+    ];
+
+    it('writes tool calls and their results as plain text', () => {
+      expect(flattenToolMessages(toolTurn)).toEqual([
+        { role: 'system', content: 'You are a fantasy analyst' },
+        { role: 'user', content: 'Who should I start?' },
+        {
+          role: 'assistant',
+          content: 'Let me check the league.\n\nCalling tools: get_league({"league_id":"123"}), get_rosters({})',
+        },
+        {
+          role: 'user',
+          content: 'Tool execution results:\nget_league: {"name":"Dynasty"}\n\nget_rosters: Error - timeout',
+        },
+      ]);
+    });
+
+    it('folds a user message that follows the results into the same message', () => {
+      const flattened = flattenToolMessages([...toolTurn, { role: 'user', content: 'Answer now.' }]);
+
+      expect(flattened).toHaveLength(4);
+      expect(flattened[3].content).toMatch(/get_rosters: Error - timeout\n\nAnswer now\.$/);
+    });
+
+    it('keeps the turns of separate iterations apart', () => {
+      const flattened = flattenToolMessages([
+        ...toolTurn,
+        { role: 'assistant', content: '', toolCalls: [{ id: 'call_3', name: 'get_matchups', parameters: { week: 6 } }] },
+        { role: 'tool', content: '[]', toolCallId: 'call_3', toolName: 'get_matchups' },
+      ]);
+
+      expect(flattened.slice(4)).toEqual([
+        { role: 'assistant', content: 'Calling tools: get_matchups({"week":6})' },
+        { role: 'user', content: 'Tool execution results:\nget_matchups: []' },
+      ]);
+    });
+
+    it('leaves a conversation without tool turns unchanged', () => {
+      const messages: AIMessage[] = [
+        { role: 'user', content: 'Hi' },
+        { role: 'assistant', content: 'Hello' },
+        { role: 'user', content: 'Rank my players' },
+      ];
+
+      expect(flattenToolMessages(messages)).toEqual(messages);
+    });
+  });
+});
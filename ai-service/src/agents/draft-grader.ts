@@ -0,0 +1,139 @@
+import { z } from 'zod';
+import { AIManager } from '../services/ai-manager';
+import { AIProvider, AIMessage } from '../types/ai-providers';
+import { chatStructured } from '../utils/structured-output';
+
+export interface DraftGradePickSummary {
+  round: number;
+  pickNo: number;
+  playerName: string;
+  position: string | null;
+  expectedPick: number;
+  value: number; // Rounds of value gained (positive) or given up (negative)
+  points: number | null;
+}
+
+export interface DraftGradeTeam {
+  rosterId: number;
+  teamName: string;
+  grade: string;
+  score: number;
+  steals: DraftGradePickSummary[];
+  reaches: DraftGradePickSummary[];
+  bestPick: DraftGradePickSummary | null;
+  worstPick: DraftGradePickSummary | null;
+}
+
+export interface DraftGradeRequest {
+  leagueName: string;
+  season: string;
+  basis: 'adp' | 'points';
+  weeksPlayed: number;
+  teams: DraftGradeTeam[];
+}
+
+export interface DraftGradeNarrative {
+  overview: string;
+  teams: { rosterId: number; summary: string }[];
+  provider: AIProvider;
+  model: string;
+  lastUpdated: Date;
+}
+
+const DraftGradeResponseSchema = z.object({
+  overview: z.string().trim().default(''),
+  teams: z.array(z.object({
+    rosterId: z.coerce.number(),
+    summary: z.string().trim().min(1),
+  })),
+});
+
+/**
+ * Writes the draft report card around grades the caller has already
+ * computed. The model explains each grade; it never changes one.
+ */
+export class DraftGrader {
+  constructor(private aiManager: AIManager) {}
+
+  async writeDraftGrades(
+    request: DraftGradeRequest,
+    preferredProvider?: AIProvider
+  ): Promise<DraftGradeNarrative> {
+    console.log(`Writing ${request.season} draft grades for ${request.leagueName}`);
+
+    const messages: AIMessage[] = [
+      { role: 'system', content: this.buildSystemPrompt(request) },
+      { role: 'user', content: this.buildUserPrompt(request) },
+    ];
+
+    try {
+      const { data, response } = await chatStructured(
+        this.aiManager,
+        {
+          messages,
+          maxTokens: 2000,
+          temperature: 0.6,
+        },
+        DraftGradeResponseSchema,
+        { preferredProvider, enableMCP: false } // The graded picks are already in the prompt
+      );
+
+      // No fallback here: the backend keeps its computed grades and writes plain summaries
+      const rosterIds = new Set(request.teams.map(team => team.rosterId));
+      return {
+        overview: data.overview,
+        teams: data.teams.filter(team => rosterIds.has(team.rosterId)),
+        provider: response.provider,
+        model: response.model,
+        lastUpdated: new Date(),
+      };
+    } catch (error) {
+      console.error('Draft grading failed:', error);
+      throw new Error(`Draft grading failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  private buildSystemPrompt(request: DraftGradeRequest): string {
+    const basis = request.basis === 'points'
+      ? `These grades are a retroactive re-grade on fantasy points over positional replacement through week ${request.weeksPlayed}, not on pre-draft value.`
+      : 'These grades compare each pick with consensus rankings, so they measure draft value, not results.';
+
+    return `You are a fantasy football analyst writing a draft report card for a league.
+
+${basis}
+
+RULES:
+1. Never change a grade. Explain the grade you were given.
+2. Use only the picks provided. Never invent players or numbers.
+3. Name the team's best value and biggest reach when there is one.
+4. Write one or two sentences per team (max 45 words).
+
+OUTPUT REQUIREMENTS:
+You must respond with a valid JSON object containing:
+{
+  "overview": "two sentences on the draft as a whole",
+  "teams": [
+    { "rosterId": number, "summary": "string" }
+  ]
+}`;
+  }
+
+  private buildUserPrompt(request: DraftGradeRequest): string {
+    const describePick = (pick: DraftGradePickSummary) =>
+      `${pick.playerName} (${pick.position || '?'}, round ${pick.round}, pick ${pick.pickNo}, value says pick ${pick.expectedPick}` +
+      `${pick.points !== null ? `, ${pick.points} points` : ''})`;
+
+    const teams = request.teams.map(team => [
+      `${team.teamName} (rosterId ${team.rosterId}): ${team.grade}, ${team.score >= 0 ? '+' : ''}${team.score} rounds of value per pick`,
+      team.steals.length > 0 ? `  Steals: ${team.steals.map(describePick).join('; ')}` : '  Steals: none',
+      team.reaches.length > 0 ? `  Reaches: ${team.reaches.map(describePick).join('; ')}` : '  Reaches: none',
+      team.bestPick ? `  Best pick: ${describePick(team.bestPick)}` : '',
+      team.worstPick ? `  Worst pick: ${describePick(team.worstPick)}` : '',
+    ].filter(Boolean).join('\n')).join('\n\n');
+
+    return `Write the ${request.season} draft report card for "${request.leagueName}".
+
+GRADES, best first:
+${teams}`;
+  }
+}
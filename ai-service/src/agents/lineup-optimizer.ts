@@ -1,5 +1,16 @@
+import { z } from 'zod';
 import { AIManager } from '../services/ai-manager';
-import { AIProvider, AIMessage } from '../types/ai-providers';
+import { AIProvider, AIMessage, AIToolLoopTrace, AnalysisStreamEvent } from '../types/ai-providers';
+import {
+  describeScoringSettings,
+  ScoringSettings,
+  solveLineup,
+  selectObjective,
+  LineupObjective,
+  LineupSolution,
+  SolverPlayer,
+} from '@fantasy-app/shared';
+import { chatStructured, streamStructured } from '../utils/structured-output';
 
 export interface LineupOptimizerRequest {
   userId: string;
@@ -7,6 +18,7 @@ export interface LineupOptimizerRequest {
   week: number;
   availablePlayers: string[]; // Player IDs available to start
   rosterSlots: string[]; // Required lineup slots (QB, RB1, RB2, WR1, WR2, TE, FLEX, DST, K)
+  scoringSettings?: ScoringSettings; // Sleeper scoring_settings, when the caller already has them
   userPreferences?: {
     riskTolerance?: 'conservative' | 'moderate' | 'aggressive';
     prioritizeFloor?: boolean; // vs. prioritize ceiling
@@ -99,9 +111,117 @@ export interface LineupOptimization {
     upside: string;
     risk: string;
   }[];
+  solverDetails?: {
+    objective: LineupObjective;
+    unfilledSlots: string[];
+    nodesExplored: number;
+  };
   lastUpdated: Date;
+  isFallback: boolean; // True when the solver lineup is returned without the model's explanation
+  fallbackReason?: string;
+  toolTrace?: AIToolLoopTrace; // Tools the model called while projecting players
+}
+
+export interface PlayerProjectionResult {
+  projections: PlayerProjection[];
+  isFallback: boolean;
+  fallbackReason?: string;
 }
 
+// The fields of a Sleeper /players/nfl entry the solver reads
+interface SleeperPlayerInfo {
+  full_name?: string;
+  first_name?: string;
+  last_name?: string;
+  position?: string;
+  fantasy_positions?: string[] | null;
+  team?: string | null;
+}
+
+const clamp = (min: number, max: number) => (value: number) => Math.max(min, Math.min(max, value));
+
+const PlayerProjectionSchema = z.object({
+  playerId: z.string(),
+  playerName: z.string(),
+  position: z.string(),
+  team: z.string().default('UNKNOWN'),
+  opponent: z.string().default('UNKNOWN'),
+  projectedPoints: z.object({
+    floor: z.number(),
+    expected: z.number(),
+    ceiling: z.number(),
+  }),
+  confidence: z.number().transform(clamp(0, 1)).default(0.5),
+  startProbability: z.number().transform(clamp(0, 100)).default(50),
+  variance: z.number().transform(value => Math.max(0, value)).default(3),
+  matchupRating: z.enum(['excellent', 'good', 'average', 'poor', 'terrible']).catch('average'),
+  factors: z.object({
+    recentForm: z.number().transform(clamp(-2, 2)).default(0),
+    matchupAdvantage: z.number().transform(clamp(-2, 2)).default(0),
+    weatherImpact: z.number().transform(clamp(-2, 2)).default(0),
+    injuryRisk: z.number().transform(clamp(0, 2)).default(0),
+    gameScript: z.number().transform(clamp(-2, 2)).default(0),
+  }).default({}),
+  reasoning: z.string(),
+});
+
+const PlayerProjectionsResponseSchema = z.object({
+  playerProjections: z.array(PlayerProjectionSchema).min(1),
+});
+
+// The model only narrates lineups; players and totals come from the solver
+const LineupNarrativeSchema = z.object({
+  confidence: z.number().transform(clamp(0, 1)),
+  riskLevel: z.enum(['low', 'medium', 'high']).catch('medium'),
+  reasoning: z.string(),
+  advantages: z.array(z.string()).default([]),
+  concerns: z.array(z.string()).default([]),
+  winProbability: z.number().transform(clamp(0, 100)).optional(),
+});
+
+type LineupNarrative = z.infer<typeof LineupNarrativeSchema>;
+
+const LineupExplanationSchema = z.object({
+  optimalLineup: LineupNarrativeSchema,
+  alternativeLineups: z.array(LineupNarrativeSchema.extend({ objective: z.string().optional() })).default([]),
+  benchAnalysis: z.array(z.object({
+    playerId: z.string(),
+    playerName: z.string(),
+    position: z.string(),
+    benchReason: z.string(),
+    alternativeScenarios: z.array(z.string()).default([]),
+    keepOrDrop: z.enum(['keep', 'consider_dropping', 'drop_candidate']).catch('keep'),
+    upcomingValue: z.object({
+      nextWeek: z.number().transform(clamp(1, 10)).default(5),
+      restOfSeason: z.number().transform(clamp(1, 10)).default(5),
+      playoffSchedule: z.number().transform(clamp(1, 10)).default(5),
+    }).default({}),
+  })).default([]),
+  keyDecisions: z.array(z.object({
+    position: z.string(),
+    options: z.array(z.object({
+      playerId: z.string(),
+      playerName: z.string(),
+      pros: z.array(z.string()).default([]),
+      cons: z.array(z.string()).default([]),
+      recommendation: z.enum(['start', 'bench', 'consider']).catch('consider'),
+    })).default([]),
+    recommendation: z.string(),
+  })).default([]),
+  stackingOpportunities: z.array(z.object({
+    players: z.array(z.string()),
+    correlation: z.number().transform(clamp(0, 1)),
+    upside: z.string(),
+    risk: z.string(),
+  })).default([]),
+});
+
+const SCENARIO_NAMES: Record<LineupObjective, string> = {
+  floor: 'High Floor',
+  expected: 'Optimal Expected Points',
+  ceiling: 'High Ceiling',
+};
+
 export class LineupOptimizer {
   constructor(private aiManager: AIManager) {}
 
@@ -111,45 +231,192 @@ export class LineupOptimizer {
   ): Promise<LineupOptimization> {
     console.log(`Optimizing lineup for user ${request.userId}, week ${request.week}`);
 
-    const systemPrompt = this.buildSystemPrompt(request);
-    const userPrompt = this.buildUserPrompt(request);
+    try {
+      // 1. The model (with MCP data) only supplies projections
+      const { projections, toolTrace } = await this.getLineupProjections(request, preferredProvider);
 
-    const messages: AIMessage[] = [
-      { role: 'system', content: systemPrompt },
-      { role: 'user', content: userPrompt },
-    ];
+      // 2. The solver picks legal, optimal lineups for each objective
+      const { players, optimal, alternatives } = await this.solveLineups(request, projections);
+
+      // 3. The model explains the chosen lineups but cannot change them
+      const optimization = await this.explainLineups(request, players, projections, optimal, alternatives, preferredProvider);
+      return { ...optimization, toolTrace };
+    } catch (error) {
+      console.error('Lineup optimization failed:', error);
+      throw new Error(`Lineup optimization failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Same optimization as optimizeLineup, streaming the projection and
+   * explanation text as the model writes it and finishing with the result.
+   */
+  async *streamLineup(
+    request: LineupOptimizerRequest,
+    preferredProvider?: AIProvider
+  ): AsyncGenerator<AnalysisStreamEvent<LineupOptimization>> {
+    console.log(`Streaming lineup optimization for user ${request.userId}, week ${request.week}`);
 
     try {
-      const response = await this.aiManager.chat(
+      const { data: projectionData, response: projectionResponse } = yield* streamStructured(
+        this.aiManager,
         {
-          messages,
-          maxTokens: 8000,
+          messages: this.buildProjectionMessages(request),
+          maxTokens: 6000,
           temperature: 0.1,
         },
-        preferredProvider,
-        true // Enable MCP for data fetching
+        PlayerProjectionsResponseSchema,
+        { preferredProvider, enableMCP: true } // Enable MCP for data fetching
       );
 
-      return this.parseLineupResponse(response.content, request);
+      const projections = projectionData.playerProjections;
+      const { players, optimal, alternatives } = await this.solveLineups(request, projections);
+
+      let optimization: LineupOptimization;
+      try {
+        const { data } = yield* streamStructured(
+          this.aiManager,
+          {
+            messages: this.buildExplanationMessages(request, players, optimal, alternatives),
+            maxTokens: 4000,
+            temperature: 0.1,
+          },
+          LineupExplanationSchema,
+          { preferredProvider, enableMCP: false }
+        );
+        optimization = this.toLineupOptimization(data, request, projections, optimal, alternatives);
+      } catch (error) {
+        console.error('Lineup explanation failed, returning solver lineup without narrative:', error);
+        optimization = this.createFallbackOptimization(request, projections, optimal, alternatives, error);
+      }
+
+      yield { type: 'result', data: { ...optimization, toolTrace: projectionResponse.toolTrace } };
     } catch (error) {
       console.error('Lineup optimization failed:', error);
       throw new Error(`Lineup optimization failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
 
+  private async solveLineups(
+    request: LineupOptimizerRequest,
+    projections: PlayerProjection[]
+  ): Promise<{ players: SolverPlayer[]; optimal: LineupSolution; alternatives: LineupSolution[] }> {
+    const players = await this.buildSolverPlayers(request, projections);
+
+    const objective = selectObjective(
+      request.userPreferences?.riskTolerance,
+      request.userPreferences?.prioritizeFloor
+    );
+    const solverOptions = {
+      mustStart: request.constraints?.mustStart,
+      cannotStart: request.constraints?.cannotStart,
+      maxPlayersPerTeam: request.constraints?.maxPlayersPerTeam,
+    };
+
+    const optimal = solveLineup(players, request.rosterSlots, { ...solverOptions, objective });
+    const alternatives = (['floor', 'expected', 'ceiling'] as LineupObjective[])
+      .filter(alternative => alternative !== objective)
+      .map(alternative => solveLineup(players, request.rosterSlots, { ...solverOptions, objective: alternative }));
+
+    console.log(`Lineup solver maximized ${objective} (${optimal.nodesExplored} nodes explored)`);
+
+    return { players, optimal, alternatives };
+  }
+
+  private async getLineupProjections(
+    request: LineupOptimizerRequest,
+    preferredProvider?: AIProvider
+  ): Promise<{ projections: PlayerProjection[]; toolTrace?: AIToolLoopTrace }> {
+    const { data, response } = await chatStructured(
+      this.aiManager,
+      {
+        messages: this.buildProjectionMessages(request),
+        maxTokens: 6000,
+        temperature: 0.1,
+      },
+      PlayerProjectionsResponseSchema,
+      { preferredProvider, enableMCP: true } // Enable MCP for data fetching
+    );
+
+    // Without projections there is nothing to solve, so a failed reply is an error rather than a fallback
+    return { projections: data.playerProjections, toolTrace: response.toolTrace };
+  }
+
+  private buildProjectionMessages(request: LineupOptimizerRequest): AIMessage[] {
+    return [
+      { role: 'system', content: this.buildSystemPrompt(request) },
+      { role: 'user', content: this.buildProjectionPrompt(request) },
+    ];
+  }
+
+  private buildExplanationMessages(
+    request: LineupOptimizerRequest,
+    players: SolverPlayer[],
+    optimal: LineupSolution,
+    alternatives: LineupSolution[]
+  ): AIMessage[] {
+    return [
+      { role: 'system', content: this.buildSystemPrompt(request) },
+      { role: 'user', content: this.buildExplanationPrompt(request, players, optimal, alternatives) },
+    ];
+  }
+
+  private async buildSolverPlayers(
+    request: LineupOptimizerRequest,
+    projections: PlayerProjection[]
+  ): Promise<SolverPlayer[]> {
+    // Eligibility must come from Sleeper's fantasy_positions, never from the model
+    let sleeperPlayers: Record<string, SleeperPlayerInfo> = {};
+    try {
+      const result = await this.aiManager.callTool('get_players_nfl', { player_ids: request.availablePlayers });
+      if (!result.isError && result.content && typeof result.content === 'object') {
+        sleeperPlayers = result.content;
+      } else {
+        console.warn('get_players_nfl returned no data, using projected positions:', result.errorMessage);
+      }
+    } catch (error) {
+      console.warn('Failed to load Sleeper players for lineup solver, using projected positions:', error);
+    }
+
+    const projectionsById = new Map(projections.map(projection => [projection.playerId, projection]));
+
+    return request.availablePlayers.map(playerId => {
+      const sleeperPlayer = sleeperPlayers[playerId];
+      const projection = projectionsById.get(playerId);
+
+      const fantasyPositions: string[] = Array.isArray(sleeperPlayer?.fantasy_positions) && sleeperPlayer.fantasy_positions.length > 0
+        ? sleeperPlayer.fantasy_positions
+        : [sleeperPlayer?.position || projection?.position].filter((position): position is string =>
+          !!position && position !== 'UNKNOWN'
+        );
+
+      const playerName = sleeperPlayer
+        ? sleeperPlayer.full_name || `${sleeperPlayer.first_name || ''} ${sleeperPlayer.last_name || ''}`.trim()
+        : projection?.playerName;
+
+      return {
+        playerId,
+        playerName: playerName || playerId,
+        fantasyPositions,
+        team: sleeperPlayer?.team || projection?.team || '',
+        projectedPoints: projection?.projectedPoints || { floor: 0, expected: 0, ceiling: 0 },
+      };
+    });
+  }
+
   private buildSystemPrompt(request: LineupOptimizerRequest): string {
     const riskProfile: 'conservative' | 'moderate' | 'aggressive' = request.userPreferences?.riskTolerance || 'moderate';
     const floorFocus = request.userPreferences?.prioritizeFloor || false;
 
-    return `You are an expert fantasy football lineup optimizer with deep statistical knowledge and game theory expertise. Your goal is to construct the optimal lineup for maximizing points while considering risk tolerance.
+    return `You are an expert fantasy football lineup analyst with deep statistical knowledge and game theory expertise. Lineups are built by a deterministic constraint solver from your projections; your job is to project players accurately and explain the solver's decisions.
 
-OPTIMIZATION FRAMEWORK:
+ANALYSIS FRAMEWORK:
 1. Use MCP tools to gather comprehensive player data, projections, and matchup information
 2. Calculate floor, expected, and ceiling projections for each player
 3. Consider correlations between players (stacking opportunities and conflicts)
 4. Factor in game script, weather, and injury risks
-5. Optimize for the user's specific risk tolerance and preferences
-6. Provide multiple lineup scenarios for different strategic approaches
+5. Frame explanations around the user's ${riskProfile} risk tolerance and preferences
+6. Never propose a different lineup than the one you are given
 
 RISK TOLERANCE GUIDELINES:
 - Conservative: Prioritize high-floor players, avoid volatile options, minimize bust potential
@@ -170,108 +437,29 @@ CEILING-FOCUSED STRATEGY:
 - Look for correlation opportunities (stacking)
 `}
 
-LINEUP CONSTRUCTION PRINCIPLES:
-1. Position Scarcity: Consider positional depth and replacement level
-2. Game Stacking: Identify games with high scoring potential
-3. Contrarian Plays: Find low-owned high-upside players
-4. Matchup Exploitation: Target favorable defensive matchups
-5. Weather Impact: Account for outdoor games in poor conditions
-6. Injury Situations: Monitor snap counts and target shares
-
 OUTPUT REQUIREMENTS:
 You must respond with a valid JSON object following the exact schema. Provide detailed analysis and clear reasoning for all recommendations.`;
   }
 
-  private buildUserPrompt(request: LineupOptimizerRequest): string {
-    const preferences = request.userPreferences;
-    const constraints = request.constraints;
-
-    const preferencesText = preferences ? `
-User Preferences:
-- Risk Tolerance: ${preferences.riskTolerance}
-- Prioritize Floor: ${preferences.prioritizeFloor ? 'Yes' : 'No'}
-- Stacking Preference: ${preferences.stackPreference || 'None specified'}
-- Avoid Opponents: ${preferences.avoidOpponents ? 'Yes' : 'No'}
-- Weather Concerns: ${preferences.weatherConcerns ? 'Yes' : 'No'}
-` : '';
-
-    const constraintsText = constraints ? `
-Lineup Constraints:
-${constraints.mustStart?.length ? `- Must Start: ${constraints.mustStart.join(', ')}` : ''}
-${constraints.cannotStart?.length ? `- Cannot Start: ${constraints.cannotStart.join(', ')}` : ''}
-${constraints.maxPlayersPerTeam ? `- Max Players Per Team: ${constraints.maxPlayersPerTeam}` : ''}
-${constraints.minProjectedPoints ? `- Minimum Projected Points: ${constraints.minProjectedPoints}` : ''}
-` : '';
-
-    return `Please optimize my fantasy football lineup for maximum expected points while considering my preferences and constraints.
+  private buildProjectionPrompt(request: LineupOptimizerRequest): string {
+    return `Project every available player for my fantasy football lineup decision.
 
 LINEUP DETAILS:
 - League ID: ${request.leagueId} (Use this ID for all MCP tool calls)
 - Week: ${request.week}
 - User ID: ${request.userId}
 - Available Players: ${request.availablePlayers.join(', ')}
-- Roster Slots: ${request.rosterSlots.join(', ')}
-
-${preferencesText}${constraintsText}
-
+${request.scoringSettings ? `- Scoring: ${describeScoringSettings(request.scoringSettings)} (project points in this scoring)\n` : ''}
 REQUIRED ANALYSIS STEPS:
-1. Use get_league with the League ID to understand scoring settings and roster requirements
-2. Use get_league_rosters with the League ID to get current roster and opponent information
-3. Use get_players_nfl to get detailed player information
-4. Use get_projections for rest-of-season and weekly projections
-5. Use get_player_stats for recent performance trends
-6. Use get_matchups to understand opponent context and game environment
-7. Use get_nfl_state for current week context and bye weeks
-
-COMPREHENSIVE LINEUP OPTIMIZATION NEEDED:
+1. Use get_league with the League ID to understand scoring settings
+2. Use get_players_nfl with player_ids set to the available players to get detailed player information
+3. Use get_projections with the same player_ids for weekly projections
+4. Use get_player_stats with the same player_ids for recent performance trends
+5. Use get_matchups to understand opponent context and game environment
+6. Use get_nfl_state for current week context and bye weeks (players on bye project to 0)
+
+Respond with one projection per available player:
 {
-  "optimalLineup": {
-    "scenarioName": "Optimal Expected Points",
-    "lineup": {
-      "QB": "playerId",
-      "RB1": "playerId", 
-      "RB2": "playerId",
-      "WR1": "playerId",
-      "WR2": "playerId",
-      "TE": "playerId",
-      "FLEX": "playerId",
-      "DST": "playerId",
-      "K": "playerId"
-    },
-    "projectedTotal": {
-      "floor": number,
-      "expected": number,
-      "ceiling": number
-    },
-    "confidence": 0.0-1.0,
-    "riskLevel": "low|medium|high",
-    "reasoning": "explanation of lineup construction",
-    "advantages": ["array of advantages"],
-    "concerns": ["array of concerns"],
-    "winProbability": 0-100
-  },
-  "alternativeLineups": [
-    {
-      "scenarioName": "High Floor",
-      "lineup": {...},
-      "projectedTotal": {...},
-      "confidence": 0.0-1.0,
-      "riskLevel": "low|medium|high", 
-      "reasoning": "explanation",
-      "advantages": ["advantages"],
-      "concerns": ["concerns"]
-    },
-    {
-      "scenarioName": "High Ceiling",
-      "lineup": {...},
-      "projectedTotal": {...},
-      "confidence": 0.0-1.0,
-      "riskLevel": "low|medium|high",
-      "reasoning": "explanation", 
-      "advantages": ["advantages"],
-      "concerns": ["concerns"]
-    }
-  ],
   "playerProjections": [
     {
       "playerId": "string",
@@ -297,11 +485,69 @@ COMPREHENSIVE LINEUP OPTIMIZATION NEEDED:
       },
       "reasoning": "detailed explanation"
     }
+  ]
+}`;
+  }
+
+  private buildExplanationPrompt(
+    request: LineupOptimizerRequest,
+    players: SolverPlayer[],
+    optimal: LineupSolution,
+    alternatives: LineupSolution[]
+  ): string {
+    const playersById = new Map(players.map(player => [player.playerId, player]));
+    const describeLineup = (solution: LineupSolution) => Object.entries(solution.lineup)
+      .map(([slot, playerId]) => {
+        const player = playersById.get(playerId);
+        const points = player?.projectedPoints;
+        return `  ${slot}: ${player?.playerName || playerId} (${playerId}, ${player?.team || 'FA'}) - floor ${points?.floor}, expected ${points?.expected}, ceiling ${points?.ceiling}`;
+      })
+      .join('\n');
+
+    const preferences = request.userPreferences;
+    const preferencesText = preferences ? `
+User Preferences:
+- Risk Tolerance: ${preferences.riskTolerance}
+- Prioritize Floor: ${preferences.prioritizeFloor ? 'Yes' : 'No'}
+- Stacking Preference: ${preferences.stackPreference || 'None specified'}
+- Avoid Opponents: ${preferences.avoidOpponents ? 'Yes' : 'No'}
+- Weather Concerns: ${preferences.weatherConcerns ? 'Yes' : 'No'}
+` : '';
+
+    return `A constraint solver has already chosen these lineups for week ${request.week}. They are final: explain them, do not change them.
+${preferencesText}
+OPTIMAL LINEUP (maximizes ${optimal.objective} points, total expected ${optimal.projectedTotal.expected}):
+${describeLineup(optimal)}
+${optimal.unfilledSlots.length ? `Unfilled slots: ${optimal.unfilledSlots.join(', ')}\n` : ''}
+${alternatives.map(alternative => `ALTERNATIVE LINEUP (maximizes ${alternative.objective} points):
+${describeLineup(alternative)}`).join('\n\n')}
+
+BENCH: ${optimal.bench.map(playerId => playersById.get(playerId)?.playerName || playerId).join(', ') || 'None'}
+
+Respond with a JSON object:
+{
+  "optimalLineup": {
+    "confidence": 0.0-1.0,
+    "riskLevel": "low|medium|high",
+    "reasoning": "why this lineup maximizes the user's goal",
+    "advantages": ["array of advantages"],
+    "concerns": ["array of concerns"],
+    "winProbability": 0-100
+  },
+  "alternativeLineups": [
+    {
+      "objective": "floor|expected|ceiling",
+      "confidence": 0.0-1.0,
+      "riskLevel": "low|medium|high",
+      "reasoning": "when to prefer this lineup",
+      "advantages": ["advantages"],
+      "concerns": ["concerns"]
+    }
   ],
   "benchAnalysis": [
     {
       "playerId": "string",
-      "playerName": "string", 
+      "playerName": "string",
       "position": "string",
       "benchReason": "why not starting",
       "alternativeScenarios": ["when to consider starting"],
@@ -315,13 +561,13 @@ COMPREHENSIVE LINEUP OPTIMIZATION NEEDED:
   ],
   "keyDecisions": [
     {
-      "position": "FLEX",
+      "position": "slot name",
       "options": [
         {
           "playerId": "string",
           "playerName": "string",
           "pros": ["advantages"],
-          "cons": ["disadvantages"], 
+          "cons": ["disadvantages"],
           "recommendation": "start|bench|consider"
         }
       ],
@@ -336,163 +582,126 @@ COMPREHENSIVE LINEUP OPTIMIZATION NEEDED:
       "risk": "stacking risk explanation"
     }
   ]
-}
-
-Focus on providing:
-- Detailed projections with floor/ceiling ranges
-- Clear reasoning for each lineup decision
-- Multiple strategic approaches (conservative vs. aggressive)
-- Specific advice for close decisions
-- Stack identification and correlation analysis
-- Bench player value assessment for future weeks
-
-Be thorough but actionable in your recommendations.`;
+}`;
   }
 
-  private parseLineupResponse(aiResponse: string, request: LineupOptimizerRequest): LineupOptimization {
+  private async explainLineups(
+    request: LineupOptimizerRequest,
+    players: SolverPlayer[],
+    projections: PlayerProjection[],
+    optimal: LineupSolution,
+    alternatives: LineupSolution[],
+    preferredProvider?: AIProvider
+  ): Promise<LineupOptimization> {
     try {
-      const jsonMatch = aiResponse.match(/\{[\s\S]*\}/);
-      if (!jsonMatch) {
-        throw new Error('No JSON found in AI response');
-      }
+      const { data } = await chatStructured(
+        this.aiManager,
+        {
+          messages: this.buildExplanationMessages(request, players, optimal, alternatives),
+          maxTokens: 4000,
+          temperature: 0.1,
+        },
+        LineupExplanationSchema,
+        { preferredProvider, enableMCP: false }
+      );
 
-      const parsed = JSON.parse(jsonMatch[0]);
-      
-      return {
-        optimalLineup: this.validateLineupScenario(parsed.optimalLineup),
-        alternativeLineups: Array.isArray(parsed.alternativeLineups) 
-          ? parsed.alternativeLineups.map((lineup: any) => this.validateLineupScenario(lineup))
-          : [],
-        playerProjections: this.validatePlayerProjections(parsed.playerProjections || []),
-        benchAnalysis: this.validateBenchAnalysis(parsed.benchAnalysis || []),
-        keyDecisions: this.validateKeyDecisions(parsed.keyDecisions || []),
-        stackingOpportunities: this.validateStackingOpportunities(parsed.stackingOpportunities || []),
-        lastUpdated: new Date(),
-      };
+      return this.toLineupOptimization(data, request, projections, optimal, alternatives);
     } catch (error) {
-      console.error('Failed to parse lineup response:', error);
-      return this.createFallbackOptimization(request);
+      console.error('Lineup explanation failed, returning solver lineup without narrative:', error);
+      return this.createFallbackOptimization(request, projections, optimal, alternatives, error);
     }
   }
 
-  private validateLineupScenario(scenario: any): LineupScenario {
+  private toLineupOptimization(
+    parsed: z.infer<typeof LineupExplanationSchema>,
+    request: LineupOptimizerRequest,
+    projections: PlayerProjection[],
+    optimal: LineupSolution,
+    alternatives: LineupSolution[]
+  ): LineupOptimization {
     return {
-      scenarioName: scenario?.scenarioName || 'Unknown Scenario',
-      lineup: scenario?.lineup || {},
-      projectedTotal: {
-        floor: scenario?.projectedTotal?.floor || 0,
-        expected: scenario?.projectedTotal?.expected || 0,
-        ceiling: scenario?.projectedTotal?.ceiling || 0,
-      },
-      confidence: Math.max(0, Math.min(1, scenario?.confidence || 0.5)),
-      riskLevel: ['low', 'medium', 'high'].includes(scenario?.riskLevel) ? scenario.riskLevel : 'medium',
-      reasoning: scenario?.reasoning || 'No reasoning provided',
-      advantages: Array.isArray(scenario?.advantages) ? scenario.advantages : [],
-      concerns: Array.isArray(scenario?.concerns) ? scenario.concerns : [],
-      winProbability: scenario?.winProbability ? Math.max(0, Math.min(100, scenario.winProbability)) : undefined,
+      optimalLineup: this.toLineupScenario(optimal, parsed.optimalLineup, request),
+      alternativeLineups: alternatives.map((alternative, index) => {
+        const narrative = parsed.alternativeLineups.find(item => item.objective === alternative.objective)
+          || parsed.alternativeLineups[index];
+        return this.toLineupScenario(alternative, narrative || this.missingNarrative(alternative.objective), request);
+      }),
+      playerProjections: projections,
+      benchAnalysis: parsed.benchAnalysis,
+      keyDecisions: parsed.keyDecisions,
+      stackingOpportunities: parsed.stackingOpportunities,
+      solverDetails: this.toSolverDetails(optimal),
+      lastUpdated: new Date(),
+      isFallback: false,
     };
   }
 
-  private validatePlayerProjections(projections: any[]): PlayerProjection[] {
-    if (!Array.isArray(projections)) return [];
-
-    return projections.map(proj => ({
-      playerId: proj.playerId || 'unknown',
-      playerName: proj.playerName || 'Unknown Player',
-      position: proj.position || 'UNKNOWN',
-      team: proj.team || 'FA',
-      opponent: proj.opponent || 'BYE',
-      projectedPoints: {
-        floor: proj.projectedPoints?.floor || 0,
-        expected: proj.projectedPoints?.expected || 0,
-        ceiling: proj.projectedPoints?.ceiling || 0,
-      },
-      confidence: Math.max(0, Math.min(1, proj.confidence || 0.5)),
-      startProbability: Math.max(0, Math.min(100, proj.startProbability || 50)),
-      variance: proj.variance || 0,
-      matchupRating: ['excellent', 'good', 'average', 'poor', 'terrible'].includes(proj.matchupRating)
-        ? proj.matchupRating : 'average',
-      factors: {
-        recentForm: Math.max(-2, Math.min(2, proj.factors?.recentForm || 0)),
-        matchupAdvantage: Math.max(-2, Math.min(2, proj.factors?.matchupAdvantage || 0)),
-        weatherImpact: Math.max(-2, Math.min(2, proj.factors?.weatherImpact || 0)),
-        injuryRisk: Math.max(0, Math.min(2, proj.factors?.injuryRisk || 0)),
-        gameScript: Math.max(-2, Math.min(2, proj.factors?.gameScript || 0)),
-      },
-      reasoning: proj.reasoning || 'No analysis provided',
-    }));
-  }
+  // Lineup and totals always come from the solver; the model only contributes narrative
+  private toLineupScenario(
+    solution: LineupSolution,
+    narrative: LineupNarrative,
+    request: LineupOptimizerRequest
+  ): LineupScenario {
+    const concerns = [...narrative.concerns];
+    if (solution.unfilledSlots.length > 0) {
+      concerns.push(`No eligible player available for: ${solution.unfilledSlots.join(', ')}`);
+    }
+    const minProjectedPoints = request.constraints?.minProjectedPoints;
+    if (minProjectedPoints && solution.projectedTotal.expected < minProjectedPoints) {
+      concerns.push(`Projected total ${solution.projectedTotal.expected} is below the ${minProjectedPoints} point target`);
+    }
 
-  private validateBenchAnalysis(bench: any[]): BenchAnalysis[] {
-    if (!Array.isArray(bench)) return [];
-
-    return bench.map(player => ({
-      playerId: player.playerId || 'unknown',
-      playerName: player.playerName || 'Unknown Player',
-      position: player.position || 'UNKNOWN',
-      benchReason: player.benchReason || 'Lower projected points',
-      alternativeScenarios: Array.isArray(player.alternativeScenarios) ? player.alternativeScenarios : [],
-      keepOrDrop: ['keep', 'consider_dropping', 'drop_candidate'].includes(player.keepOrDrop)
-        ? player.keepOrDrop : 'keep',
-      upcomingValue: {
-        nextWeek: Math.max(1, Math.min(10, player.upcomingValue?.nextWeek || 5)),
-        restOfSeason: Math.max(1, Math.min(10, player.upcomingValue?.restOfSeason || 5)),
-        playoffSchedule: Math.max(1, Math.min(10, player.upcomingValue?.playoffSchedule || 5)),
-      },
-    }));
+    return {
+      confidence: narrative.confidence,
+      riskLevel: narrative.riskLevel,
+      reasoning: narrative.reasoning,
+      advantages: narrative.advantages,
+      winProbability: narrative.winProbability,
+      scenarioName: SCENARIO_NAMES[solution.objective],
+      lineup: solution.lineup,
+      projectedTotal: solution.projectedTotal,
+      concerns,
+    };
   }
 
-  private validateKeyDecisions(decisions: any[]): LineupOptimization['keyDecisions'] {
-    if (!Array.isArray(decisions)) return [];
-
-    return decisions.map(decision => ({
-      position: decision.position || 'FLEX',
-      options: Array.isArray(decision.options) ? decision.options.map((option: any) => ({
-        playerId: option.playerId || 'unknown',
-        playerName: option.playerName || 'Unknown Player',
-        pros: Array.isArray(option.pros) ? option.pros : [],
-        cons: Array.isArray(option.cons) ? option.cons : [],
-        recommendation: ['start', 'bench', 'consider'].includes(option.recommendation)
-          ? option.recommendation : 'consider',
-      })) : [],
-      recommendation: decision.recommendation || 'No recommendation provided',
-    }));
+  private toSolverDetails(optimal: LineupSolution): LineupOptimization['solverDetails'] {
+    return {
+      objective: optimal.objective,
+      unfilledSlots: optimal.unfilledSlots,
+      nodesExplored: optimal.nodesExplored,
+    };
   }
 
-  private validateStackingOpportunities(stacks: any[]): LineupOptimization['stackingOpportunities'] {
-    if (!Array.isArray(stacks)) return [];
-
-    return stacks.map(stack => ({
-      players: Array.isArray(stack.players) ? stack.players : [],
-      correlation: Math.max(0, Math.min(1, stack.correlation || 0)),
-      upside: stack.upside || 'Moderate correlation upside',
-      risk: stack.risk || 'Standard correlation risk',
-    }));
+  private missingNarrative(objective: LineupObjective, detail: string = 'AI explanation unavailable'): LineupNarrative {
+    return {
+      confidence: 0.5,
+      riskLevel: objective === 'floor' ? 'low' : objective === 'ceiling' ? 'high' : 'medium',
+      reasoning: `Lineup chosen by the solver to maximize ${objective} projected points - ${detail}`,
+      advantages: [],
+      concerns: [detail],
+    };
   }
 
-  private createFallbackOptimization(request: LineupOptimizerRequest): LineupOptimization {
-    const fallbackLineup: { [position: string]: string } = {};
-    request.rosterSlots.forEach((slot, index) => {
-      fallbackLineup[slot] = request.availablePlayers[index] || 'unknown';
-    });
-
+  private createFallbackOptimization(
+    request: LineupOptimizerRequest,
+    projections: PlayerProjection[],
+    optimal: LineupSolution,
+    alternatives: LineupSolution[],
+    error: unknown
+  ): LineupOptimization {
     return {
-      optimalLineup: {
-        scenarioName: 'Fallback Lineup',
-        lineup: fallbackLineup,
-        projectedTotal: { floor: 0, expected: 0, ceiling: 0 },
-        confidence: 0.1,
-        riskLevel: 'medium',
-        reasoning: 'Lineup optimization failed - manual review required',
-        advantages: [],
-        concerns: ['AI analysis unavailable'],
-      },
-      alternativeLineups: [],
-      playerProjections: [],
+      optimalLineup: this.toLineupScenario(optimal, this.missingNarrative(optimal.objective), request),
+      alternativeLineups: alternatives.map(alternative =>
+        this.toLineupScenario(alternative, this.missingNarrative(alternative.objective), request)
+      ),
+      playerProjections: projections,
       benchAnalysis: [],
       keyDecisions: [],
       stackingOpportunities: [],
+      solverDetails: this.toSolverDetails(optimal),
       lastUpdated: new Date(),
+      isFallback: true,
+      fallbackReason: error instanceof Error ? error.message : 'Unknown error',
     };
   }
 
@@ -502,7 +711,7 @@ Be thorough but actionable in your recommendations.`;
     week: number,
     leagueId: string,
     preferredProvider?: AIProvider
-  ): Promise<PlayerProjection[]> {
+  ): Promise<PlayerProjectionResult> {
     const messages: AIMessage[] = [
       {
         role: 'system',
@@ -560,17 +769,20 @@ Rank by expected fantasy points for week ${week}.`,
     ];
 
     try {
-      const response = await this.aiManager.chat(
+      const { data } = await chatStructured(
+        this.aiManager,
         { messages, maxTokens: 3000, temperature: 0.1 },
-        preferredProvider,
-        true
+        PlayerProjectionsResponseSchema,
+        { preferredProvider, enableMCP: true }
       );
-
-      const parsed = this.parsePlayerProjectionsResponse(response.content, playerIds);
-      return this.validatePlayerProjections(parsed);
+      return { projections: data.playerProjections, isFallback: false };
     } catch (error) {
       console.error('Error getting player comparison:', error);
-      return this.validatePlayerProjections([]);
+      return {
+        projections: [],
+        isFallback: true,
+        fallbackReason: error instanceof Error ? error.message : 'Unknown error',
+      };
     }
   }
 
@@ -579,7 +791,7 @@ Rank by expected fantasy points for week ${week}.`,
     week: number,
     leagueId: string,
     preferredProvider?: AIProvider
-  ): Promise<PlayerProjection[]> {
+  ): Promise<PlayerProjectionResult> {
     const messages: AIMessage[] = [
       {
         role: 'system',
@@ -637,67 +849,20 @@ Rank by expected fantasy points for week ${week}.`,
     ];
 
     try {
-      const response = await this.aiManager.chat(
+      const { data } = await chatStructured(
+        this.aiManager,
         { messages, maxTokens: 4000, temperature: 0.1 },
-        preferredProvider,
-        true
+        PlayerProjectionsResponseSchema,
+        { preferredProvider, enableMCP: true }
       );
-
-      const parsed = this.parsePlayerProjectionsResponse(response.content, []);
-      return this.validatePlayerProjections(parsed);
+      return { projections: data.playerProjections, isFallback: false };
     } catch (error) {
       console.error('Error getting positional rankings:', error);
-      return this.validatePlayerProjections([]);
-    }
-  }
-
-  private parsePlayerProjectionsResponse(
-    aiResponse: string, 
-    expectedPlayerIds: string[]
-  ): PlayerProjection[] {
-    try {
-      // Try to extract JSON from the response
-      const jsonMatch = aiResponse.match(/\{[\s\S]*\}/);
-      if (!jsonMatch) {
-        throw new Error('No JSON found in AI response');
-      }
-
-      const parsed = JSON.parse(jsonMatch[0]);
-      
-      // Validate required fields
-      if (!parsed.playerProjections || !Array.isArray(parsed.playerProjections)) {
-        throw new Error('Invalid playerProjections format');
-      }
-
-      // Map and validate each projection
-      return parsed.playerProjections.map((proj: any) => ({
-        playerId: proj.playerId || 'unknown',
-        playerName: proj.playerName || 'Unknown Player',
-        position: proj.position || 'UNKNOWN',
-        team: proj.team || 'UNKNOWN',
-        opponent: proj.opponent || 'UNKNOWN',
-        projectedPoints: {
-          floor: typeof proj.projectedPoints?.floor === 'number' ? proj.projectedPoints.floor : 5,
-          expected: typeof proj.projectedPoints?.expected === 'number' ? proj.projectedPoints.expected : 10,
-          ceiling: typeof proj.projectedPoints?.ceiling === 'number' ? proj.projectedPoints.ceiling : 15,
-        },
-        confidence: typeof proj.confidence === 'number' ? Math.max(0, Math.min(1, proj.confidence)) : 0.5,
-        startProbability: typeof proj.startProbability === 'number' ? Math.max(0, Math.min(100, proj.startProbability)) : 50,
-        variance: typeof proj.variance === 'number' ? Math.max(0, proj.variance) : 3,
-        matchupRating: ['excellent', 'good', 'average', 'poor', 'terrible'].includes(proj.matchupRating) 
-          ? proj.matchupRating : 'average',
-        factors: {
-          recentForm: typeof proj.factors?.recentForm === 'number' ? Math.max(-2, Math.min(2, proj.factors.recentForm)) : 0,
-          matchupAdvantage: typeof proj.factors?.matchupAdvantage === 'number' ? Math.max(-2, Math.min(2, proj.factors.matchupAdvantage)) : 0,
-          weatherImpact: typeof proj.factors?.weatherImpact === 'number' ? Math.max(-2, Math.min(2, proj.factors.weatherImpact)) : 0,
-          injuryRisk: typeof proj.factors?.injuryRisk === 'number' ? Math.max(0, Math.min(2, proj.factors.injuryRisk)) : 0,
-          gameScript: typeof proj.factors?.gameScript === 'number' ? Math.max(-2, Math.min(2, proj.factors.gameScript)) : 0,
-        },
-        reasoning: proj.reasoning || 'Projection analysis completed',
-      }));
-    } catch (error) {
-      console.error('Error parsing player projections response:', error);
-      return [];
+      return {
+        projections: [],
+        isFallback: true,
+        fallbackReason: error instanceof Error ? error.message : 'Unknown error',
+      };
     }
   }
-}
\ No newline at end of file
+}
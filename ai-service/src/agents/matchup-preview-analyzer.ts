@@ -0,0 +1,312 @@
+import { z } from 'zod';
+import { AIManager } from '../services/ai-manager';
+import { AIProvider, AIMessage } from '../types/ai-providers';
+import { chatStructured, StructuredOutputError } from '../utils/structured-output';
+
+export interface MatchupPreviewStarter {
+  playerId: string;
+  name: string;
+  position: string | null;
+  nflTeam: string | null;
+  slot: string;
+  projectedPoints: number;
+  injuryStatus?: string | null;
+}
+
+export interface MatchupPreviewTeam {
+  rosterId: number;
+  teamName: string;
+  ownerName: string;
+  starters: MatchupPreviewStarter[];
+}
+
+export interface MatchupPreviewRequest {
+  leagueName: string;
+  week: number;
+  teams: [MatchupPreviewTeam, MatchupPreviewTeam];
+}
+
+export interface MatchupPreviewTeamOutlook {
+  rosterId: number;
+  teamName: string;
+  projectedTotal: number;
+  stdDev: number;
+  winProbability: number; // 0-1
+}
+
+export interface PositionBattle {
+  slot: string;
+  players: { name: string; position: string | null; projectedPoints: number }[][]; // Same order as teams
+  projectedPoints: [number, number];
+  edge: string | null; // Team name of the favorite, null when even
+  margin: number;
+  stdDev: number;
+  decisive: boolean;
+}
+
+export interface MatchupPreview {
+  week: number;
+  teams: [MatchupPreviewTeamOutlook, MatchupPreviewTeamOutlook];
+  favorite: string | null;
+  projectedMargin: number;
+  positionBattles: PositionBattle[];
+  narrative: string;
+  keyFactors: string[];
+  provider: AIProvider | null; // null when the narrative was built from the numbers alone
+  model: string | null;
+  lastUpdated: Date;
+  isFallback: boolean; // True when the model's reply was unusable and the narrative was built from the numbers
+  fallbackReason?: string;
+}
+
+type MatchupPreviewNumbers = Omit<
+  MatchupPreview,
+  'narrative' | 'keyFactors' | 'provider' | 'model' | 'lastUpdated' | 'isFallback' | 'fallbackReason'
+>;
+
+const MatchupPreviewResponseSchema = z.object({
+  narrative: z.string().trim().min(1),
+  keyFactors: z.array(z.string().trim()).default([]),
+});
+
+// Weekly fantasy scores spread roughly in proportion to projection; these are
+// standard deviations as a share of the projection
+const POSITION_VOLATILITY: { [position: string]: number } = {
+  QB: 0.35,
+  RB: 0.5,
+  WR: 0.55,
+  TE: 0.6,
+  K: 0.45,
+  DEF: 0.65,
+};
+const DEFAULT_VOLATILITY = 0.55;
+const MIN_PLAYER_STD_DEV = 2;
+const DECISIVE_BATTLES = 3;
+
+// Game-time decisions play with a wider range of outcomes
+const INJURY_VOLATILITY: { [status: string]: number } = {
+  Questionable: 1.25,
+  Doubtful: 1.5,
+};
+const RULED_OUT = new Set(['Out', 'IR', 'PUP', 'Sus']);
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+// Abramowitz and Stegun 7.1.26, accurate to about 1e-7
+function normalCdf(z: number): number {
+  const x = Math.abs(z) / Math.SQRT2;
+  const t = 1 / (1 + 0.3275911 * x);
+  const erf = 1 - ((((1.061405429 * t - 1.453152027) * t + 1.421413741) * t - 0.284496736) * t + 0.254829592) * t * Math.exp(-x * x);
+  return z >= 0 ? (1 + erf) / 2 : (1 - erf) / 2;
+}
+
+/**
+ * Previews a head-to-head matchup. Totals, win probability and position
+ * battles are computed from the starters' projections; the model only writes
+ * the narrative around them.
+ */
+export class MatchupPreviewAnalyzer {
+  constructor(private aiManager: AIManager) {}
+
+  async previewMatchup(
+    request: MatchupPreviewRequest,
+    preferredProvider?: AIProvider
+  ): Promise<MatchupPreview> {
+    console.log(`Previewing week ${request.week} matchup ${request.teams[0].teamName} vs ${request.teams[1].teamName}`);
+
+    const numbers = this.computePreview(request);
+
+    const messages: AIMessage[] = [
+      { role: 'system', content: this.buildSystemPrompt() },
+      { role: 'user', content: this.buildUserPrompt(request, numbers) },
+    ];
+
+    try {
+      const { data, response } = await chatStructured(
+        this.aiManager,
+        {
+          messages,
+          maxTokens: 800,
+          temperature: 0.5,
+        },
+        MatchupPreviewResponseSchema,
+        { preferredProvider, enableMCP: false } // The projections are already in the prompt
+      );
+
+      return {
+        ...numbers,
+        narrative: data.narrative,
+        keyFactors: data.keyFactors.filter(factor => factor),
+        provider: response.provider,
+        model: response.model,
+        lastUpdated: new Date(),
+        isFallback: false,
+      };
+    } catch (error) {
+      if (error instanceof StructuredOutputError) {
+        console.error('Matchup preview reply unusable, building preview from the numbers:', error.message);
+        return this.buildFallbackPreview(numbers, error.message);
+      }
+      console.error('Matchup preview failed:', error);
+      throw new Error(`Matchup preview failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  computePreview(request: MatchupPreviewRequest): MatchupPreviewNumbers {
+    const [teamA, teamB] = request.teams;
+    const totals = request.teams.map(team => this.sumStarters(team.starters));
+
+    const margin = totals[0].expected - totals[1].expected;
+    const combinedStdDev = Math.sqrt(totals[0].variance + totals[1].variance);
+    // Difference of two independent normals; an empty matchup is a coin flip
+    const probabilityA = combinedStdDev > 0 ? normalCdf(margin / combinedStdDev) : margin > 0 ? 1 : margin < 0 ? 0 : 0.5;
+
+    const teams: MatchupPreview['teams'] = [
+      {
+        rosterId: teamA.rosterId,
+        teamName: teamA.teamName,
+        projectedTotal: round(totals[0].expected),
+        stdDev: round(Math.sqrt(totals[0].variance)),
+        winProbability: round(probabilityA),
+      },
+      {
+        rosterId: teamB.rosterId,
+        teamName: teamB.teamName,
+        projectedTotal: round(totals[1].expected),
+        stdDev: round(Math.sqrt(totals[1].variance)),
+        winProbability: round(1 - probabilityA),
+      },
+    ];
+
+    return {
+      week: request.week,
+      teams,
+      favorite: margin > 0 ? teamA.teamName : margin < 0 ? teamB.teamName : null,
+      projectedMargin: round(Math.abs(margin)),
+      positionBattles: this.getPositionBattles(request),
+    };
+  }
+
+  private sumStarters(starters: MatchupPreviewStarter[]): { expected: number; variance: number } {
+    return starters.reduce((total, starter) => {
+      const { expected, stdDev } = this.projectStarter(starter);
+      return { expected: total.expected + expected, variance: total.variance + stdDev * stdDev };
+    }, { expected: 0, variance: 0 });
+  }
+
+  private projectStarter(starter: MatchupPreviewStarter): { expected: number; stdDev: number } {
+    const expected = starter.injuryStatus && RULED_OUT.has(starter.injuryStatus) ? 0 : Math.max(starter.projectedPoints, 0);
+    if (expected === 0) {
+      return { expected: 0, stdDev: 0 };
+    }
+
+    const volatility = POSITION_VOLATILITY[starter.position || ''] ?? DEFAULT_VOLATILITY;
+    const injuryFactor = INJURY_VOLATILITY[starter.injuryStatus || ''] ?? 1;
+    return { expected, stdDev: Math.max(expected * volatility, MIN_PLAYER_STD_DEV) * injuryFactor };
+  }
+
+  /**
+   * Pairs the starters slot by slot. The battles that decide the matchup are
+   * the ones with the widest projected gap plus the most variance, since
+   * either can swing the result.
+   */
+  private getPositionBattles(request: MatchupPreviewRequest): PositionBattle[] {
+    const slots = Array.from(new Set(request.teams.flatMap(team => team.starters.map(starter => starter.slot))));
+
+    const battles = slots.map(slot => {
+      const sides = request.teams.map(team => team.starters.filter(starter => starter.slot === slot));
+      const totals = sides.map(starters => this.sumStarters(starters));
+      const margin = totals[0].expected - totals[1].expected;
+
+      return {
+        slot,
+        players: sides.map(starters => starters.map(starter => ({
+          name: starter.name,
+          position: starter.position,
+          projectedPoints: round(this.projectStarter(starter).expected),
+        }))),
+        projectedPoints: [round(totals[0].expected), round(totals[1].expected)] as [number, number],
+        edge: margin > 0 ? request.teams[0].teamName : margin < 0 ? request.teams[1].teamName : null,
+        margin: round(Math.abs(margin)),
+        stdDev: round(Math.sqrt(totals[0].variance + totals[1].variance)),
+        decisive: false,
+      };
+    });
+
+    [...battles]
+      .sort((a, b) => (b.margin + b.stdDev) - (a.margin + a.stdDev))
+      .slice(0, DECISIVE_BATTLES)
+      .forEach(battle => { battle.decisive = true; });
+
+    return battles;
+  }
+
+  private buildSystemPrompt(): string {
+    return `You are a fantasy football analyst writing a short preview of a head-to-head matchup for the two managers involved.
+
+RULES:
+1. Use only the projections and probabilities provided. Never invent players, injuries or numbers.
+2. Lead with who is favored and by how much.
+3. Focus on the position battles marked as deciding the matchup.
+4. Mention any injured starters.
+5. Stay even-handed: both managers will read this.
+
+OUTPUT REQUIREMENTS:
+You must respond with a valid JSON object containing:
+{
+  "narrative": "one paragraph, max 120 words",
+  "keyFactors": ["two to four short factors that will decide the matchup"]
+}`;
+  }
+
+  private buildUserPrompt(request: MatchupPreviewRequest, numbers: MatchupPreviewNumbers): string {
+    const lineups = request.teams.map(team => {
+      const starters = team.starters.map(starter =>
+        `  - ${starter.slot}: ${starter.name} (${starter.position || '?'}${starter.nflTeam ? `, ${starter.nflTeam}` : ''}) ` +
+        `${starter.projectedPoints} projected${starter.injuryStatus ? `, ${starter.injuryStatus}` : ''}`
+      ).join('\n');
+      return `${team.teamName} (${team.ownerName}):\n${starters || '  No starters set'}`;
+    }).join('\n\n');
+
+    const outlook = numbers.teams.map(team =>
+      `- ${team.teamName}: ${team.projectedTotal} projected (±${team.stdDev}), ${Math.round(team.winProbability * 100)}% to win`
+    ).join('\n');
+
+    const battles = numbers.positionBattles
+      .filter(battle => battle.decisive)
+      .map(battle => `- ${battle.slot}: ${battle.projectedPoints[0]} vs ${battle.projectedPoints[1]}` +
+        (battle.edge ? `, edge ${battle.edge} by ${battle.margin}` : ', even') + ` (±${battle.stdDev})`)
+      .join('\n');
+
+    return `Preview the week ${request.week} matchup in "${request.leagueName}".
+
+OUTLOOK:
+${outlook}
+
+DECIDING POSITION BATTLES:
+${battles || 'None'}
+
+STARTING LINEUPS:
+${lineups}`;
+  }
+
+  private buildFallbackPreview(numbers: MatchupPreviewNumbers, reason: string): MatchupPreview {
+    const favorite = numbers.teams.find(team => team.teamName === numbers.favorite);
+    const decisive = numbers.positionBattles.filter(battle => battle.decisive);
+
+    return {
+      ...numbers,
+      narrative: favorite
+        ? `${favorite.teamName} is projected to win by ${numbers.projectedMargin} and is ${Math.round(favorite.winProbability * 100)}% to take the matchup.`
+        : 'The projections have this matchup dead even.',
+      keyFactors: decisive.map(battle => battle.edge
+        ? `${battle.slot}: ${battle.edge} projected ${battle.margin} points better`
+        : `${battle.slot}: projected even`),
+      provider: null,
+      model: null,
+      lastUpdated: new Date(),
+      isFallback: true,
+      fallbackReason: reason,
+    };
+  }
+}
@@ -0,0 +1,251 @@
+import { z } from 'zod';
+import { AIManager } from '../services/ai-manager';
+import { AIProvider, AIMessage } from '../types/ai-providers';
+import { chatStructured, StructuredOutputError } from '../utils/structured-output';
+
+export type SeasonOutlookActionType = 'trade' | 'waiver';
+
+export interface SeasonOutlookPosition {
+  position: string;
+  starterSlots: number;
+  starterPoints: number; // Rest-of-season projection of the best `starterSlots` players
+  leagueRank: number; // 1 = best starters at the position
+  players: { name: string; points: number; starter: boolean }[];
+}
+
+export interface SeasonOutlookSchedule {
+  remainingGames: number;
+  averageOpponentScore: number;
+  leagueAverageScore: number;
+  difficultyRank: number; // 1 = hardest remaining schedule
+  games: { week: number; opponent: string; opponentAverage: number }[];
+}
+
+export interface SeasonOutlookByeWeek {
+  week: number;
+  starters: { name: string; position: string }[];
+}
+
+export interface SeasonOutlookAction {
+  type: SeasonOutlookActionType;
+  position: string;
+  detail: string;
+}
+
+export interface SeasonOutlookRequest {
+  leagueName: string;
+  teamName: string;
+  week: number;
+  teamCount: number;
+  playoffs: {
+    record: { wins: number; losses: number; ties: number };
+    projectedWins: number;
+    playoffOdds: number; // 0-1
+    byeOdds: number;
+    champOdds: number;
+    clinched: boolean;
+    eliminated: boolean;
+  };
+  positions: SeasonOutlookPosition[];
+  schedule: SeasonOutlookSchedule;
+  byeWeeks: SeasonOutlookByeWeek[];
+  strengths: string[];
+  weaknesses: string[];
+  candidateActions: SeasonOutlookAction[];
+}
+
+export interface SeasonOutlookReport {
+  summary: string;
+  strengths: string[];
+  weaknesses: string[];
+  actions: SeasonOutlookAction[];
+  provider: AIProvider | null; // null when the report was built from the numbers alone
+  model: string | null;
+  lastUpdated: Date;
+  isFallback: boolean; // True when the model's reply was unusable and the report was built from the numbers
+  fallbackReason?: string;
+}
+
+const MAX_ACTIONS = 3;
+
+const SeasonOutlookResponseSchema = z.object({
+  summary: z.string().trim().min(1),
+  strengths: z.array(z.string().trim()).optional(),
+  weaknesses: z.array(z.string().trim()).optional(),
+  actions: z.array(z.object({
+    type: z.string(),
+    position: z.string(),
+    detail: z.string().trim().optional(),
+  })).default([]),
+});
+
+type SeasonOutlookResponseAction = z.infer<typeof SeasonOutlookResponseSchema>['actions'][number];
+
+/**
+ * Turns a team's depth, schedule, bye and playoff numbers into a season
+ * outlook. Actions are picked from the candidates the caller computed, so
+ * the model can reword and reorder them but never invent one.
+ */
+export class SeasonOutlookAnalyzer {
+  constructor(private aiManager: AIManager) {}
+
+  async writeOutlook(
+    request: SeasonOutlookRequest,
+    preferredProvider?: AIProvider
+  ): Promise<SeasonOutlookReport> {
+    console.log(`Writing week ${request.week} season outlook for ${request.teamName}`);
+
+    const messages: AIMessage[] = [
+      { role: 'system', content: this.buildSystemPrompt() },
+      { role: 'user', content: this.buildUserPrompt(request) },
+    ];
+
+    try {
+      const { data, response } = await chatStructured(
+        this.aiManager,
+        {
+          messages,
+          maxTokens: 1200,
+          temperature: 0.4,
+        },
+        SeasonOutlookResponseSchema,
+        { preferredProvider, enableMCP: false } // The team's numbers are already in the prompt
+      );
+
+      const strings = (items: string[] | undefined, fallback: string[]) => items ? items.filter(item => item) : fallback;
+
+      return {
+        summary: data.summary,
+        strengths: strings(data.strengths, request.strengths),
+        weaknesses: strings(data.weaknesses, request.weaknesses),
+        actions: this.pickActions(data.actions, request.candidateActions),
+        provider: response.provider,
+        model: response.model,
+        lastUpdated: new Date(),
+        isFallback: false,
+      };
+    } catch (error) {
+      if (error instanceof StructuredOutputError) {
+        console.error('Season outlook reply unusable, building report from the numbers:', error.message);
+        return this.buildFallbackOutlook(request, error.message);
+      }
+      console.error('Season outlook failed:', error);
+      throw new Error(`Season outlook failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  private buildSystemPrompt(): string {
+    return `You are a fantasy football analyst writing a rest-of-season outlook for one manager.
+
+RULES:
+1. Use only the numbers provided. Never invent players, projections or odds.
+2. Strengths and weaknesses must come from the lists you are given; reword them, keep the numbers.
+3. Pick exactly ${MAX_ACTIONS} actions (fewer only when fewer candidates exist) from the candidate actions, most urgent first.
+   Keep each action's "type" and "position" exactly as given; you may rewrite "detail" (max 25 words).
+4. The summary is two or three sentences and leads with the team's playoff picture.
+
+OUTPUT REQUIREMENTS:
+You must respond with a valid JSON object containing:
+{
+  "summary": "string",
+  "strengths": ["string"],
+  "weaknesses": ["string"],
+  "actions": [
+    { "type": "trade" | "waiver", "position": "string", "detail": "string" }
+  ]
+}`;
+  }
+
+  private buildUserPrompt(request: SeasonOutlookRequest): string {
+    const { playoffs, schedule } = request;
+    const percent = (value: number) => `${Math.round(value * 100)}%`;
+    const record = `${playoffs.record.wins}-${playoffs.record.losses}${playoffs.record.ties ? `-${playoffs.record.ties}` : ''}`;
+
+    const positions = request.positions.map(position => {
+      const players = position.players
+        .map(player => `${player.name} ${player.points}${player.starter ? '' : ' (bench)'}`)
+        .join(', ');
+      return `- ${position.position} (${position.starterSlots} starting): ${position.starterPoints} projected, ` +
+        `rank ${position.leagueRank} of ${request.teamCount}. ${players || 'No players'}`;
+    }).join('\n');
+
+    const games = schedule.games
+      .map(game => `week ${game.week} vs ${game.opponent} (${game.opponentAverage} avg)`)
+      .join('; ');
+
+    const byes = request.byeWeeks
+      .map(bye => `- Week ${bye.week}: ${bye.starters.map(starter => `${starter.name} (${starter.position})`).join(', ')}`)
+      .join('\n');
+
+    const list = (items: string[]) => items.length > 0 ? items.map(item => `- ${item}`).join('\n') : 'None';
+    const candidates = request.candidateActions
+      .map(action => `- ${action.type} / ${action.position}: ${action.detail}`)
+      .join('\n');
+
+    return `Write the week ${request.week} season outlook for ${request.teamName} in "${request.leagueName}" (${request.teamCount} teams).
+
+PLAYOFF PICTURE:
+Record ${record}, ${playoffs.projectedWins} projected wins, ${percent(playoffs.playoffOdds)} playoff odds, ${percent(playoffs.byeOdds)} bye odds, ${percent(playoffs.champOdds)} title odds${playoffs.clinched ? ', clinched' : ''}${playoffs.eliminated ? ', eliminated' : ''}
+
+POSITIONAL DEPTH (rest-of-season projected points):
+${positions}
+
+REMAINING SCHEDULE:
+${schedule.remainingGames} games, opponents average ${schedule.averageOpponentScore} vs league ${schedule.leagueAverageScore}; difficulty rank ${schedule.difficultyRank} of ${request.teamCount} (1 = hardest)
+${games || 'No games left'}
+
+STARTERS ON BYE:
+${byes || 'No starters on bye in the remaining weeks'}
+
+STRENGTHS:
+${list(request.strengths)}
+
+WEAKNESSES:
+${list(request.weaknesses)}
+
+CANDIDATE ACTIONS:
+${candidates || 'None'}`;
+  }
+
+  /**
+   * Keeps the model's actions that match a candidate and tops the list up
+   * from the remaining candidates in their original priority order.
+   */
+  private pickActions(actions: SeasonOutlookResponseAction[], candidates: SeasonOutlookAction[]): SeasonOutlookAction[] {
+    const key = (action: { type: string; position: string }) => `${action.type}:${action.position}`;
+    const remaining = new Map(candidates.map(candidate => [key(candidate), candidate]));
+    const picked: SeasonOutlookAction[] = [];
+
+    actions.forEach(action => {
+      const candidate = remaining.get(key(action));
+      if (!candidate || picked.length >= MAX_ACTIONS) return;
+
+      remaining.delete(key(candidate));
+      picked.push({ ...candidate, detail: action.detail || candidate.detail });
+    });
+
+    return [...picked, ...Array.from(remaining.values())].slice(0, MAX_ACTIONS);
+  }
+
+  private buildFallbackOutlook(request: SeasonOutlookRequest, reason: string): SeasonOutlookReport {
+    const { playoffs, schedule } = request;
+    const picture = playoffs.clinched
+      ? `${request.teamName} has clinched a playoff spot`
+      : playoffs.eliminated
+        ? `${request.teamName} has been eliminated from playoff contention`
+        : `${request.teamName} makes the playoffs in ${Math.round(playoffs.playoffOdds * 100)}% of simulations`;
+
+    return {
+      summary: `${picture}, with ${playoffs.projectedWins} projected wins. ` +
+        `The remaining schedule ranks ${schedule.difficultyRank} of ${request.teamCount} in difficulty.`,
+      strengths: request.strengths,
+      weaknesses: request.weaknesses,
+      actions: request.candidateActions.slice(0, MAX_ACTIONS),
+      provider: null,
+      model: null,
+      lastUpdated: new Date(),
+      isFallback: true,
+      fallbackReason: reason,
+    };
+  }
+}
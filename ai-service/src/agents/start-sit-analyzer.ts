@@ -1,5 +1,8 @@
+import { z } from 'zod';
 import { AIManager } from '../services/ai-manager';
-import { AIProvider, AIMessage } from '../types/ai-providers';
+import { AIProvider, AIMessage, AIToolLoopTrace, AnalysisStreamEvent } from '../types/ai-providers';
+import { chatStructured, streamStructured, StructuredOutputError } from '../utils/structured-output';
+import { describeScoringSettings, ScoringSettings } from '@fantasy-app/shared';
 
 export interface StartSitRequest {
   userId: string;
@@ -7,6 +10,7 @@ export interface StartSitRequest {
   week: number;
   playerIds: string[];
   rosterSlots: string[];
+  scoringSettings?: ScoringSettings; // Sleeper scoring_settings, when the caller already has them
   userPreferences?: {
     riskTolerance?: 'conservative' | 'moderate' | 'aggressive';
     prioritizeUpside?: boolean;
@@ -45,8 +49,44 @@ export interface StartSitAnalysis {
   weeklyOutlook: string;
   keyInsights: string[];
   lastUpdated: Date;
+  isFallback: boolean; // True when the model's reply was unusable and this is placeholder analysis
+  fallbackReason?: string;
+  toolTrace?: AIToolLoopTrace; // Tools the model called while gathering data
 }
 
+// What the model must return; confidences are clamped afterwards rather than rejected
+const StartSitRecommendationSchema = z.object({
+  playerId: z.string(),
+  playerName: z.string(),
+  position: z.string(),
+  recommendation: z.enum(['start', 'sit', 'flex']),
+  confidence: z.number(),
+  reasoning: z.string(),
+  projectedPoints: z.object({
+    floor: z.number(),
+    ceiling: z.number(),
+    expected: z.number(),
+  }),
+  matchupAnalysis: z.object({
+    opponent: z.string(),
+    difficulty: z.enum(['easy', 'medium', 'hard']),
+    keyFactors: z.array(z.string()),
+  }).optional(),
+  riskFactors: z.array(z.string()).optional(),
+  alternativeOptions: z.array(z.string()).optional(),
+});
+
+const StartSitResponseSchema = z.object({
+  recommendations: z.array(StartSitRecommendationSchema).min(1),
+  optimalLineup: z.record(z.string()),
+  benchPlayers: z.array(z.string()),
+  confidenceScore: z.number(),
+  weeklyOutlook: z.string(),
+  keyInsights: z.array(z.string()),
+});
+
+type StartSitResponse = z.infer<typeof StartSitResponseSchema>;
+
 export class StartSitAnalyzer {
   constructor(private aiManager: AIManager) {}
 
@@ -56,32 +96,72 @@ export class StartSitAnalyzer {
   ): Promise<StartSitAnalysis> {
     console.log(`Analyzing start/sit for user ${request.userId}, week ${request.week}`);
 
-    const systemPrompt = this.buildSystemPrompt(request);
-    const userPrompt = this.buildUserPrompt(request);
-
-    const messages: AIMessage[] = [
-      { role: 'system', content: systemPrompt },
-      { role: 'user', content: userPrompt },
-    ];
+    const messages = this.buildMessages(request);
 
     try {
-      const response = await this.aiManager.chat(
+      const { data, response } = await chatStructured(
+        this.aiManager,
         {
           messages,
           maxTokens: 4000,
           temperature: 0.1,
         },
-        preferredProvider,
-        true // Enable MCP for data fetching
+        StartSitResponseSchema,
+        { preferredProvider, enableMCP: true } // Enable MCP for data fetching
+      );
+
+      return { ...this.toStartSitAnalysis(data), toolTrace: response.toolTrace };
+    } catch (error) {
+      if (error instanceof StructuredOutputError) {
+        console.error('Start/Sit reply unusable, returning fallback:', error.message);
+        return this.createFallbackAnalysis(request, error.message);
+      }
+      console.error('Start/Sit analysis failed:', error);
+      throw new Error(`Start/Sit analysis failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Same analysis as analyzeStartSit, streaming the model's reasoning as it is
+   * written and finishing with the parsed analysis.
+   */
+  async *streamStartSit(
+    request: StartSitRequest,
+    preferredProvider?: AIProvider
+  ): AsyncGenerator<AnalysisStreamEvent<StartSitAnalysis>> {
+    console.log(`Streaming start/sit analysis for user ${request.userId}, week ${request.week}`);
+
+    try {
+      const { data, response } = yield* streamStructured(
+        this.aiManager,
+        {
+          messages: this.buildMessages(request),
+          maxTokens: 4000,
+          temperature: 0.1,
+        },
+        StartSitResponseSchema,
+        { preferredProvider, enableMCP: true } // Enable MCP for data fetching
       );
 
-      return this.parseStartSitResponse(response.content, request);
+      yield { type: 'result', data: { ...this.toStartSitAnalysis(data), toolTrace: response.toolTrace } };
     } catch (error) {
+      if (error instanceof StructuredOutputError) {
+        console.error('Start/Sit reply unusable, returning fallback:', error.message);
+        yield { type: 'result', data: this.createFallbackAnalysis(request, error.message) };
+        return;
+      }
       console.error('Start/Sit analysis failed:', error);
       throw new Error(`Start/Sit analysis failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
 
+  private buildMessages(request: StartSitRequest): AIMessage[] {
+    return [
+      { role: 'system', content: this.buildSystemPrompt(request) },
+      { role: 'user', content: this.buildUserPrompt(request) },
+    ];
+  }
+
   private buildSystemPrompt(request: StartSitRequest): string {
     const riskProfile = request.userPreferences?.riskTolerance || 'moderate';
     
@@ -159,7 +239,7 @@ LEAGUE DETAILS:
 - League ID: ${request.leagueId}
 - Week: ${request.week}
 - User ID: ${request.userId}
-
+${request.scoringSettings ? `- Scoring: ${describeScoringSettings(request.scoringSettings)} (project points in this scoring)\n` : ''}
 ROSTER ANALYSIS NEEDED:
 - Player IDs to analyze: ${request.playerIds.join(', ')}
 - Available roster slots: ${request.rosterSlots.join(', ')}
@@ -169,10 +249,10 @@ ${preferencesText}
 REQUIRED ANALYSIS STEPS:
 1. Use get_league to understand scoring settings and roster requirements
 2. Use get_league_rosters to get my current roster
-3. Use get_players_nfl to get player information
-4. Use get_projections for current week projections
+3. Use get_players_nfl with player_ids set to the players above to get player information
+4. Use get_projections with the same player_ids for current week projections
 5. Use get_league_matchups to understand opponent matchups
-6. Use get_player_stats for recent performance trends
+6. Use get_player_stats with the same player_ids for recent performance trends
 
 Please provide detailed start/sit recommendations with optimal lineup construction. Consider:
 - Projected points vs. actual scoring potential
@@ -185,86 +265,58 @@ Please provide detailed start/sit recommendations with optimal lineup constructi
 Focus on maximizing my team's scoring potential for this specific week.`;
   }
 
-  private parseStartSitResponse(aiResponse: string, request: StartSitRequest): StartSitAnalysis {
-    try {
-      // Try to extract JSON from the response
-      const jsonMatch = aiResponse.match(/\{[\s\S]*\}/);
-      if (!jsonMatch) {
-        throw new Error('No JSON found in AI response');
-      }
-
-      const parsed = JSON.parse(jsonMatch[0]);
-      
-      // Validate required fields
-      if (!parsed.recommendations || !Array.isArray(parsed.recommendations)) {
-        throw new Error('Invalid recommendations format');
-      }
+  private toStartSitAnalysis(parsed: StartSitResponse): StartSitAnalysis {
+    return {
+      recommendations: parsed.recommendations.map(rec => this.toRecommendation(rec)),
+      optimalLineup: parsed.optimalLineup,
+      benchPlayers: parsed.benchPlayers,
+      confidenceScore: Math.max(0, Math.min(1, parsed.confidenceScore)),
+      weeklyOutlook: parsed.weeklyOutlook,
+      keyInsights: parsed.keyInsights,
+      lastUpdated: new Date(),
+      isFallback: false,
+    };
+  }
 
-      if (!parsed.optimalLineup || typeof parsed.optimalLineup !== 'object') {
-        throw new Error('Invalid optimal lineup format');
-      }
+  private toRecommendation(rec: z.infer<typeof StartSitRecommendationSchema>): StartSitRecommendation {
+    return {
+      ...rec,
+      confidence: Math.max(0, Math.min(1, rec.confidence)),
+      matchupAnalysis: rec.matchupAnalysis || {
+        opponent: 'Unknown',
+        difficulty: 'medium',
+        keyFactors: [],
+      },
+      riskFactors: rec.riskFactors || [],
+    };
+  }
 
-      // Ensure all recommendations have required fields
-      const validatedRecommendations: StartSitRecommendation[] = parsed.recommendations.map((rec: any) => ({
-        playerId: rec.playerId || 'unknown',
-        playerName: rec.playerName || 'Unknown Player',
-        position: rec.position || 'UNKNOWN',
-        recommendation: ['start', 'sit', 'flex'].includes(rec.recommendation) ? rec.recommendation : 'sit',
-        confidence: Math.max(0, Math.min(1, rec.confidence || 0.5)),
-        reasoning: rec.reasoning || 'No reasoning provided',
-        projectedPoints: {
-          floor: rec.projectedPoints?.floor || 0,
-          ceiling: rec.projectedPoints?.ceiling || 0,
-          expected: rec.projectedPoints?.expected || 0,
-        },
+  private createFallbackAnalysis(request: StartSitRequest, reason: string): StartSitAnalysis {
+    return {
+      recommendations: request.playerIds.map(playerId => ({
+        playerId,
+        playerName: 'Unknown Player',
+        position: 'UNKNOWN',
+        recommendation: 'sit' as const,
+        confidence: 0.1,
+        reasoning: 'Analysis failed - manual review required',
+        projectedPoints: { floor: 0, ceiling: 0, expected: 0 },
         matchupAnalysis: {
-          opponent: rec.matchupAnalysis?.opponent || 'Unknown',
-          difficulty: ['easy', 'medium', 'hard'].includes(rec.matchupAnalysis?.difficulty) 
-            ? rec.matchupAnalysis.difficulty : 'medium',
-          keyFactors: Array.isArray(rec.matchupAnalysis?.keyFactors) 
-            ? rec.matchupAnalysis.keyFactors : [],
+          opponent: 'Unknown',
+          difficulty: 'medium' as const,
+          keyFactors: ['Analysis failed'],
         },
-        riskFactors: Array.isArray(rec.riskFactors) ? rec.riskFactors : [],
-        alternativeOptions: Array.isArray(rec.alternativeOptions) ? rec.alternativeOptions : undefined,
-      }));
-
-      return {
-        recommendations: validatedRecommendations,
-        optimalLineup: parsed.optimalLineup,
-        benchPlayers: Array.isArray(parsed.benchPlayers) ? parsed.benchPlayers : [],
-        confidenceScore: Math.max(0, Math.min(1, parsed.confidenceScore || 0.7)),
-        weeklyOutlook: parsed.weeklyOutlook || 'Analysis completed',
-        keyInsights: Array.isArray(parsed.keyInsights) ? parsed.keyInsights : [],
-        lastUpdated: new Date(),
-      };
-    } catch (error) {
-      console.error('Failed to parse start/sit response:', error);
-      
-      // Return fallback analysis
-      return {
-        recommendations: request.playerIds.map(playerId => ({
-          playerId,
-          playerName: 'Unknown Player',
-          position: 'UNKNOWN',
-          recommendation: 'sit' as const,
-          confidence: 0.1,
-          reasoning: 'Analysis failed - manual review required',
-          projectedPoints: { floor: 0, ceiling: 0, expected: 0 },
-          matchupAnalysis: {
-            opponent: 'Unknown',
-            difficulty: 'medium' as const,
-            keyFactors: ['Analysis failed'],
-          },
-          riskFactors: ['AI analysis unavailable'],
-        })),
-        optimalLineup: {},
-        benchPlayers: request.playerIds,
-        confidenceScore: 0.1,
-        weeklyOutlook: 'Analysis failed - please try again',
-        keyInsights: ['AI analysis is currently unavailable'],
-        lastUpdated: new Date(),
-      };
-    }
+        riskFactors: ['AI analysis unavailable'],
+      })),
+      optimalLineup: {},
+      benchPlayers: request.playerIds,
+      confidenceScore: 0.1,
+      weeklyOutlook: 'Analysis failed - please try again',
+      keyInsights: ['AI analysis is currently unavailable'],
+      lastUpdated: new Date(),
+      isFallback: true,
+      fallbackReason: reason,
+    };
   }
 
   async getQuickRecommendation(
@@ -272,7 +324,7 @@ Focus on maximizing my team's scoring potential for this specific week.`;
     leagueId: string,
     week: number,
     preferredProvider?: AIProvider
-  ): Promise<StartSitRecommendation> {
+  ): Promise<StartSitRecommendation & { isFallback: boolean }> {
     const messages: AIMessage[] = [
       {
         role: 'system',
@@ -284,35 +336,17 @@ Focus on maximizing my team's scoring potential for this specific week.`;
       },
     ];
 
-    const response = await this.aiManager.chat(
-      { messages, maxTokens: 1000, temperature: 0.1 },
-      preferredProvider,
-      true
-    );
-
-    // Parse single recommendation from response
-    const jsonMatch = response.content.match(/\{[\s\S]*\}/);
-    if (jsonMatch) {
-      try {
-        const parsed = JSON.parse(jsonMatch[0]);
-        return {
-          playerId: parsed.playerId || playerId,
-          playerName: parsed.playerName || 'Unknown Player',
-          position: parsed.position || 'UNKNOWN',
-          recommendation: parsed.recommendation || 'sit',
-          confidence: parsed.confidence || 0.5,
-          reasoning: parsed.reasoning || 'Quick analysis',
-          projectedPoints: parsed.projectedPoints || { floor: 0, ceiling: 0, expected: 0 },
-          matchupAnalysis: parsed.matchupAnalysis || {
-            opponent: 'Unknown',
-            difficulty: 'medium',
-            keyFactors: [],
-          },
-          riskFactors: parsed.riskFactors || [],
-        };
-      } catch (error) {
-        console.error('Failed to parse quick recommendation:', error);
-      }
+    try {
+      const { data } = await chatStructured(
+        this.aiManager,
+        { messages, maxTokens: 1000, temperature: 0.1 },
+        StartSitRecommendationSchema,
+        { preferredProvider, enableMCP: true }
+      );
+      return { ...this.toRecommendation(data), isFallback: false };
+    } catch (error) {
+      if (!(error instanceof StructuredOutputError)) throw error;
+      console.error('Failed to parse quick recommendation:', error.message);
     }
 
     // Fallback recommendation
@@ -330,6 +364,7 @@ Focus on maximizing my team's scoring potential for this specific week.`;
         keyFactors: [],
       },
       riskFactors: ['Analysis unavailable'],
+      isFallback: true,
     };
   }
 }
\ No newline at end of file
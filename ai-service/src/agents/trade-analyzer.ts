@@ -1,5 +1,7 @@
+import { z } from 'zod';
 import { AIManager } from '../services/ai-manager';
-import { AIProvider, AIMessage } from '../types/ai-providers';
+import { AIProvider, AIMessage, AIToolLoopTrace, AnalysisStreamEvent } from '../types/ai-providers';
+import { chatStructured, streamStructured, StructuredOutputError } from '../utils/structured-output';
 
 export interface TradeRequest {
   leagueId: string;
@@ -74,8 +76,82 @@ export interface TradeAnalysis {
   keyInsights: string[];
   similarTrades?: string[];
   lastUpdated: Date;
+  isFallback: boolean; // True when the model's reply was unusable and this is placeholder analysis
+  fallbackReason?: string;
+  toolTrace?: AIToolLoopTrace; // Tools the model called while gathering data
 }
 
+export interface TradeValue {
+  playerId: string;
+  value: number;
+  tier: string;
+  isFallback?: boolean; // The model gave no value for this player
+}
+
+// What the model must return; ranges are clamped afterwards rather than rejected
+const TradeTeamAnalysisSchema = z.object({
+  grade: z.enum(['A+', 'A', 'A-', 'B+', 'B', 'B-', 'C+', 'C', 'C-', 'D+', 'D', 'F']),
+  impact: z.object({
+    positionalChange: z.record(z.object({
+      before: z.number(),
+      after: z.number(),
+      change: z.number(),
+    })).optional(),
+    startingLineupImpact: z.number(),
+    depthChartImpact: z.number(),
+    byeWeekHelp: z.boolean().optional(),
+    playoffImplications: z.string().optional(),
+  }),
+  recommendation: z.object({
+    decision: z.enum(['accept', 'reject', 'counter', 'consider']),
+    confidence: z.number(),
+    reasoning: z.string(),
+    pros: z.array(z.string()),
+    cons: z.array(z.string()),
+    counterOfferSuggestion: z.object({
+      description: z.string(),
+      adjustments: z.array(z.string()),
+    }).optional(),
+  }),
+});
+
+const TradeResponseSchema = z.object({
+  fairnessScore: z.number(),
+  team1Analysis: TradeTeamAnalysisSchema,
+  team2Analysis: TradeTeamAnalysisSchema,
+  marketValue: z.object({
+    team1Total: z.number(),
+    team2Total: z.number(),
+    difference: z.number(),
+    valueVerdict: z.enum(['fair', 'team1_wins', 'team2_wins']),
+  }),
+  riskAssessment: z.object({
+    team1Risk: z.enum(['low', 'medium', 'high']),
+    team2Risk: z.enum(['low', 'medium', 'high']),
+    riskFactors: z.array(z.string()),
+  }),
+  timing: z.object({
+    optimalTiming: z.boolean(),
+    seasonContext: z.string(),
+    urgency: z.enum(['low', 'medium', 'high']),
+  }).optional(),
+  summary: z.string(),
+  keyInsights: z.array(z.string()),
+  similarTrades: z.array(z.string()).optional(),
+});
+
+type TradeResponse = z.infer<typeof TradeResponseSchema>;
+
+const TradeValueResponseSchema = z.object({
+  playerValues: z.array(z.object({
+    playerId: z.string(),
+    playerName: z.string().optional(),
+    value: z.number(),
+    tier: z.string(),
+    reasoning: z.string().optional(),
+  })),
+});
+
 export class TradeAnalyzer {
   constructor(private aiManager: AIManager) {}
 
@@ -85,32 +161,72 @@ export class TradeAnalyzer {
   ): Promise<TradeAnalysis> {
     console.log(`Analyzing trade between teams ${request.team1UserId} and ${request.team2UserId}`);
 
-    const systemPrompt = this.buildSystemPrompt(request);
-    const userPrompt = this.buildUserPrompt(request);
-
-    const messages: AIMessage[] = [
-      { role: 'system', content: systemPrompt },
-      { role: 'user', content: userPrompt },
-    ];
+    const messages = this.buildMessages(request);
 
     try {
-      const response = await this.aiManager.chat(
+      const { data, response } = await chatStructured(
+        this.aiManager,
         {
           messages,
           maxTokens: 5000,
           temperature: 0.1,
         },
-        preferredProvider,
-        true // Enable MCP for data fetching
+        TradeResponseSchema,
+        { preferredProvider, enableMCP: true } // Enable MCP for data fetching
+      );
+
+      return { ...this.toTradeAnalysis(data), toolTrace: response.toolTrace };
+    } catch (error) {
+      if (error instanceof StructuredOutputError) {
+        console.error('Trade analysis reply unusable, returning fallback:', error.message);
+        return this.createFallbackAnalysis(error.message);
+      }
+      console.error('Trade analysis failed:', error);
+      throw new Error(`Trade analysis failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Same analysis as analyzeTrade, streaming the model's reasoning as it is
+   * written and finishing with the parsed analysis.
+   */
+  async *streamTrade(
+    request: TradeRequest,
+    preferredProvider?: AIProvider
+  ): AsyncGenerator<AnalysisStreamEvent<TradeAnalysis>> {
+    console.log(`Streaming trade analysis between teams ${request.team1UserId} and ${request.team2UserId}`);
+
+    try {
+      const { data, response } = yield* streamStructured(
+        this.aiManager,
+        {
+          messages: this.buildMessages(request),
+          maxTokens: 5000,
+          temperature: 0.1,
+        },
+        TradeResponseSchema,
+        { preferredProvider, enableMCP: true } // Enable MCP for data fetching
       );
 
-      return this.parseTradeResponse(response.content, request);
+      yield { type: 'result', data: { ...this.toTradeAnalysis(data), toolTrace: response.toolTrace } };
     } catch (error) {
+      if (error instanceof StructuredOutputError) {
+        console.error('Trade analysis reply unusable, returning fallback:', error.message);
+        yield { type: 'result', data: this.createFallbackAnalysis(error.message) };
+        return;
+      }
       console.error('Trade analysis failed:', error);
       throw new Error(`Trade analysis failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
 
+  private buildMessages(request: TradeRequest): AIMessage[] {
+    return [
+      { role: 'system', content: this.buildSystemPrompt(request) },
+      { role: 'user', content: this.buildUserPrompt(request) },
+    ];
+  }
+
   private buildSystemPrompt(request: TradeRequest): string {
     return `You are an expert fantasy football trade analyst with deep knowledge of player values, market trends, and roster construction. Your goal is to provide comprehensive, unbiased trade analysis.
 
@@ -165,9 +281,9 @@ REQUIRED ANALYSIS STEPS:
 1. Use get_league to understand scoring settings and roster requirements
 2. Use get_league_rosters to get both teams' current rosters  
 3. Use get_league_users to get team information
-4. Use get_players_nfl to get detailed player information for all involved players
-5. Use get_projections for rest-of-season outlook
-6. Use get_player_stats for recent performance and trends
+4. Use get_players_nfl with player_ids set to all involved players to get detailed player information
+5. Use get_projections with the same player_ids for rest-of-season outlook
+6. Use get_player_stats with the same player_ids for recent performance and trends
 7. Use get_league_matchups to understand current standings context
 
 COMPREHENSIVE ANALYSIS NEEDED:
@@ -224,74 +340,39 @@ COMPREHENSIVE ANALYSIS NEEDED:
 Provide detailed, actionable analysis that helps users make informed decisions.`;
   }
 
-  private parseTradeResponse(aiResponse: string, request: TradeRequest): TradeAnalysis {
-    try {
-      const jsonMatch = aiResponse.match(/\{[\s\S]*\}/);
-      if (!jsonMatch) {
-        throw new Error('No JSON found in AI response');
-      }
-
-      const parsed = JSON.parse(jsonMatch[0]);
-      
-      // Validate and construct the response with fallbacks
-      return {
-        fairnessScore: this.clamp(parsed.fairnessScore || 5, 0, 10),
-        team1Analysis: this.validateTeamAnalysis(parsed.team1Analysis),
-        team2Analysis: this.validateTeamAnalysis(parsed.team2Analysis),
-        marketValue: {
-          team1Total: parsed.marketValue?.team1Total || 0,
-          team2Total: parsed.marketValue?.team2Total || 0,
-          difference: parsed.marketValue?.difference || 0,
-          valueVerdict: ['fair', 'team1_wins', 'team2_wins'].includes(parsed.marketValue?.valueVerdict) 
-            ? parsed.marketValue.valueVerdict : 'fair',
-        },
-        riskAssessment: {
-          team1Risk: ['low', 'medium', 'high'].includes(parsed.riskAssessment?.team1Risk) 
-            ? parsed.riskAssessment.team1Risk : 'medium',
-          team2Risk: ['low', 'medium', 'high'].includes(parsed.riskAssessment?.team2Risk)
-            ? parsed.riskAssessment.team2Risk : 'medium',
-          riskFactors: Array.isArray(parsed.riskAssessment?.riskFactors) 
-            ? parsed.riskAssessment.riskFactors : [],
-        },
-        timing: {
-          optimalTiming: parsed.timing?.optimalTiming || false,
-          seasonContext: parsed.timing?.seasonContext || 'Unknown timing',
-          urgency: ['low', 'medium', 'high'].includes(parsed.timing?.urgency)
-            ? parsed.timing.urgency : 'medium',
-        },
-        summary: parsed.summary || 'Trade analysis completed',
-        keyInsights: Array.isArray(parsed.keyInsights) ? parsed.keyInsights : [],
-        similarTrades: Array.isArray(parsed.similarTrades) ? parsed.similarTrades : undefined,
-        lastUpdated: new Date(),
-      };
-    } catch (error) {
-      console.error('Failed to parse trade response:', error);
-      
-      // Return fallback analysis
-      return this.createFallbackAnalysis(request);
-    }
+  private toTradeAnalysis(parsed: TradeResponse): TradeAnalysis {
+    return {
+      fairnessScore: this.clamp(parsed.fairnessScore, 0, 10),
+      team1Analysis: this.validateTeamAnalysis(parsed.team1Analysis),
+      team2Analysis: this.validateTeamAnalysis(parsed.team2Analysis),
+      marketValue: parsed.marketValue,
+      riskAssessment: parsed.riskAssessment,
+      timing: {
+        optimalTiming: parsed.timing?.optimalTiming || false,
+        seasonContext: parsed.timing?.seasonContext || 'Unknown timing',
+        urgency: parsed.timing?.urgency || 'medium',
+      },
+      summary: parsed.summary,
+      keyInsights: parsed.keyInsights,
+      similarTrades: parsed.similarTrades,
+      lastUpdated: new Date(),
+      isFallback: false,
+    };
   }
 
-  private validateTeamAnalysis(teamData: any): TradeAnalysis['team1Analysis'] {
-    const validGrades = ['A+', 'A', 'A-', 'B+', 'B', 'B-', 'C+', 'C', 'C-', 'D+', 'D', 'F'];
-    
+  private validateTeamAnalysis(teamData: TradeResponse['team1Analysis']): TradeAnalysis['team1Analysis'] {
     return {
-      grade: validGrades.includes(teamData?.grade) ? teamData.grade : 'C',
+      grade: teamData.grade,
       impact: {
-        positionalChange: this.validatePositionalChange(teamData?.impact?.positionalChange),
-        startingLineupImpact: this.clamp(teamData?.impact?.startingLineupImpact || 0, -5, 5),
-        depthChartImpact: this.clamp(teamData?.impact?.depthChartImpact || 0, -5, 5),
-        byeWeekHelp: teamData?.impact?.byeWeekHelp || false,
-        playoffImplications: teamData?.impact?.playoffImplications || 'Minimal impact',
+        positionalChange: this.validatePositionalChange(teamData.impact.positionalChange),
+        startingLineupImpact: this.clamp(teamData.impact.startingLineupImpact, -5, 5),
+        depthChartImpact: this.clamp(teamData.impact.depthChartImpact, -5, 5),
+        byeWeekHelp: teamData.impact.byeWeekHelp || false,
+        playoffImplications: teamData.impact.playoffImplications || 'Minimal impact',
       },
       recommendation: {
-        decision: ['accept', 'reject', 'counter', 'consider'].includes(teamData?.recommendation?.decision)
-          ? teamData.recommendation.decision : 'consider',
-        confidence: this.clamp(teamData?.recommendation?.confidence || 0.5, 0, 1),
-        reasoning: teamData?.recommendation?.reasoning || 'Analysis incomplete',
-        pros: Array.isArray(teamData?.recommendation?.pros) ? teamData.recommendation.pros : [],
-        cons: Array.isArray(teamData?.recommendation?.cons) ? teamData.recommendation.cons : [],
-        counterOfferSuggestion: teamData?.recommendation?.counterOfferSuggestion,
+        ...teamData.recommendation,
+        confidence: this.clamp(teamData.recommendation.confidence, 0, 1),
       },
     };
   }
@@ -316,7 +397,7 @@ Provide detailed, actionable analysis that helps users make informed decisions.`
     return Math.max(min, Math.min(max, value));
   }
 
-  private createFallbackAnalysis(request: TradeRequest): TradeAnalysis {
+  private createFallbackAnalysis(reason: string): TradeAnalysis {
     const fallbackTeamAnalysis = {
       grade: 'C' as const,
       impact: {
@@ -363,6 +444,8 @@ Provide detailed, actionable analysis that helps users make informed decisions.`
       summary: 'Trade analysis failed - please try again',
       keyInsights: ['AI analysis is currently unavailable'],
       lastUpdated: new Date(),
+      isFallback: true,
+      fallbackReason: reason,
     };
   }
 
@@ -370,7 +453,7 @@ Provide detailed, actionable analysis that helps users make informed decisions.`
     playerIds: string[],
     leagueId: string,
     preferredProvider?: AIProvider
-  ): Promise<{ playerId: string; value: number; tier: string }[]> {
+  ): Promise<TradeValue[]> {
     const messages: AIMessage[] = [
       {
         role: 'system',
@@ -404,70 +487,42 @@ Use current stats, projections, and recent performance. Rate each player on a 0-
     ];
 
     try {
-      const response = await this.aiManager.chat(
+      const { data } = await chatStructured(
+        this.aiManager,
         { messages, maxTokens: 2000, temperature: 0.1 },
-        preferredProvider,
-        true
+        TradeValueResponseSchema,
+        { preferredProvider, enableMCP: true }
       );
 
-      return this.parseTradeValueResponse(response.content, playerIds);
+      return this.toTradeValues(data.playerValues, playerIds);
     } catch (error) {
       console.error('Error getting trade value comparison:', error);
       // Return fallback values
-      return playerIds.map(playerId => ({
-        playerId,
-        value: 50,
-        tier: 'Tier 3',
-      }));
+      return this.toTradeValues([], playerIds);
     }
   }
 
-  private parseTradeValueResponse(
-    aiResponse: string, 
+  private toTradeValues(
+    playerValues: z.infer<typeof TradeValueResponseSchema>['playerValues'],
     playerIds: string[]
-  ): { playerId: string; value: number; tier: string }[] {
-    try {
-      // Try to extract JSON from the response
-      const jsonMatch = aiResponse.match(/\{[\s\S]*\}/);
-      if (!jsonMatch) {
-        throw new Error('No JSON found in AI response');
-      }
-
-      const parsed = JSON.parse(jsonMatch[0]);
-      
-      // Validate required fields
-      if (!parsed.playerValues || !Array.isArray(parsed.playerValues)) {
-        throw new Error('Invalid playerValues format');
-      }
-
-      // Map the response to expected format
-      const result = parsed.playerValues.map((player: any) => ({
-        playerId: player.playerId || 'unknown',
-        value: typeof player.value === 'number' ? Math.max(0, Math.min(100, player.value)) : 50,
-        tier: player.tier || 'Tier 3',
-      }));
-
-      // Ensure we have values for all requested players
-      const resultPlayerIds = result.map((r: any) => r.playerId);
-      const missingPlayers = playerIds.filter(id => !resultPlayerIds.includes(id));
-      
-      for (const playerId of missingPlayers) {
-        result.push({
-          playerId,
-          value: 50,
-          tier: 'Tier 3',
-        });
-      }
-
-      return result;
-    } catch (error) {
-      console.error('Error parsing trade value response:', error);
-      // Return fallback values for all players
-      return playerIds.map(playerId => ({
+  ): TradeValue[] {
+    const result: TradeValue[] = playerValues.map(player => ({
+      playerId: player.playerId,
+      value: Math.max(0, Math.min(100, player.value)),
+      tier: player.tier,
+    }));
+
+    // Ensure we have values for all requested players
+    const resultPlayerIds = result.map(r => r.playerId);
+    for (const playerId of playerIds.filter(id => !resultPlayerIds.includes(id))) {
+      result.push({
         playerId,
         value: 50,
         tier: 'Tier 3',
-      }));
+        isFallback: true,
+      });
     }
+
+    return result;
   }
-}
\ No newline at end of file
+}
@@ -1,5 +1,7 @@
+import { z } from 'zod';
 import { AIManager } from '../services/ai-manager';
-import { AIProvider, AIMessage } from '../types/ai-providers';
+import { AIProvider, AIMessage, AIToolLoopTrace } from '../types/ai-providers';
+import { chatStructured, StructuredOutputError } from '../utils/structured-output';
 
 export interface WaiverWireRequest {
   userId: string;
@@ -70,8 +72,81 @@ export interface WaiverWireAnalysis {
   weeklyOutlook: string;
   keyTrends: string[];
   lastUpdated: Date;
+  isFallback: boolean; // True when the model's reply was unusable and this is placeholder analysis
+  fallbackReason?: string;
+  toolTrace?: AIToolLoopTrace; // Tools the model called while gathering data
 }
 
+export interface StreamingRecommendations {
+  recommendations: WaiverWirePickup[];
+  isFallback: boolean;
+  fallbackReason?: string;
+}
+
+const TrendSchema = z.enum(['increasing', 'stable', 'decreasing']).catch('stable');
+
+// Identity and reasoning are required; the rest is defaulted when missing
+const WaiverPickupSchema = z.object({
+  playerId: z.string(),
+  playerName: z.string(),
+  position: z.string(),
+  team: z.string().optional(),
+  priority: z.number().optional(),
+  confidence: z.number(),
+  reasoning: z.string(),
+  projectedImpact: z.object({
+    immediateStarter: z.boolean().optional(),
+    flexConsideration: z.boolean().optional(),
+    depthUpgrade: z.boolean().optional(),
+    futureUpside: z.boolean().optional(),
+  }).optional(),
+  bidRecommendation: z.object({
+    suggested: z.number(),
+    minimum: z.number(),
+    maximum: z.number(),
+    reasoning: z.string().optional(),
+  }).optional(),
+  targetWeeks: z.array(z.number()).optional(),
+  dropCandidates: z.array(z.string()).optional(),
+  riskFactors: z.array(z.string()).optional(),
+  upside: z.string().optional(),
+  recentTrends: z.object({
+    usage: TrendSchema,
+    opportunity: TrendSchema,
+    production: TrendSchema,
+  }).optional(),
+});
+
+type WaiverPickupResponse = z.infer<typeof WaiverPickupSchema>;
+
+const WaiverWireResponseSchema = z.object({
+  topPickups: z.array(WaiverPickupSchema),
+  sleepers: z.array(WaiverPickupSchema).default([]),
+  streamingOptions: z.object({
+    defense: z.array(WaiverPickupSchema).default([]),
+    kicker: z.array(WaiverPickupSchema).default([]),
+    qb: z.array(WaiverPickupSchema).default([]),
+  }).default({}),
+  dropCandidates: z.array(z.object({
+    playerId: z.string(),
+    playerName: z.string(),
+    reasoning: z.string(),
+    safetyLevel: z.enum(['safe', 'moderate_risk', 'risky']).catch('moderate_risk'),
+  })).default([]),
+  budgetStrategy: z.object({
+    aggressiveTargets: z.array(z.string()).default([]),
+    conservativeTargets: z.array(z.string()).default([]),
+    remainingBudget: z.number().optional(),
+    allocationAdvice: z.string().optional(),
+  }).optional(),
+  weeklyOutlook: z.string(),
+  keyTrends: z.array(z.string()).default([]),
+});
+
+const QuickPickupResponseSchema = z.object({ pickup: WaiverPickupSchema });
+
+const StreamingResponseSchema = z.object({ streamingOptions: z.array(WaiverPickupSchema) });
+
 export class WaiverWireAnalyzer {
   constructor(private aiManager: AIManager) {}
 
@@ -90,18 +165,23 @@ export class WaiverWireAnalyzer {
     ];
 
     try {
-      const response = await this.aiManager.chat(
+      const { data, response } = await chatStructured(
+        this.aiManager,
         {
           messages,
           maxTokens: 6000,
           temperature: 0.1,
         },
-        preferredProvider,
-        true // Enable MCP for data fetching
+        WaiverWireResponseSchema,
+        { preferredProvider, enableMCP: true } // Enable MCP for data fetching
       );
 
-      return this.parseWaiverWireResponse(response.content, request);
+      return { ...this.toWaiverWireAnalysis(data, request), toolTrace: response.toolTrace };
     } catch (error) {
+      if (error instanceof StructuredOutputError) {
+        console.error('Waiver wire reply unusable, returning fallback:', error.message);
+        return this.createFallbackAnalysis(request, error.message);
+      }
       console.error('Waiver wire analysis failed:', error);
       throw new Error(`Waiver wire analysis failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
@@ -252,53 +332,45 @@ Focus on:
 Provide actionable recommendations with specific bid amounts and drop suggestions.`;
   }
 
-  private parseWaiverWireResponse(aiResponse: string, request: WaiverWireRequest): WaiverWireAnalysis {
-    try {
-      const jsonMatch = aiResponse.match(/\{[\s\S]*\}/);
-      if (!jsonMatch) {
-        throw new Error('No JSON found in AI response');
-      }
-
-      const parsed = JSON.parse(jsonMatch[0]);
-      
-      return {
-        topPickups: this.validatePickups(parsed.topPickups || []),
-        sleepers: this.validatePickups(parsed.sleepers || []),
-        streamingOptions: {
-          defense: this.validatePickups(parsed.streamingOptions?.defense || []),
-          kicker: this.validatePickups(parsed.streamingOptions?.kicker || []),
-          qb: this.validatePickups(parsed.streamingOptions?.qb || []),
-        },
-        dropCandidates: this.validateDropCandidates(parsed.dropCandidates || []),
-        budgetStrategy: request.budget ? {
-          aggressiveTargets: Array.isArray(parsed.budgetStrategy?.aggressiveTargets) 
-            ? parsed.budgetStrategy.aggressiveTargets : [],
-          conservativeTargets: Array.isArray(parsed.budgetStrategy?.conservativeTargets)
-            ? parsed.budgetStrategy.conservativeTargets : [],
-          remainingBudget: parsed.budgetStrategy?.remainingBudget || request.budget,
-          allocationAdvice: parsed.budgetStrategy?.allocationAdvice || 'Budget strategy not available',
-        } : undefined,
-        weeklyOutlook: parsed.weeklyOutlook || 'Waiver wire analysis completed',
-        keyTrends: Array.isArray(parsed.keyTrends) ? parsed.keyTrends : [],
-        lastUpdated: new Date(),
-      };
-    } catch (error) {
-      console.error('Failed to parse waiver wire response:', error);
-      return this.createFallbackAnalysis(request);
-    }
+  private toWaiverWireAnalysis(
+    parsed: z.infer<typeof WaiverWireResponseSchema>,
+    request: WaiverWireRequest
+  ): WaiverWireAnalysis {
+    return {
+      topPickups: this.toPickups(parsed.topPickups, request.week),
+      sleepers: this.toPickups(parsed.sleepers, request.week),
+      streamingOptions: {
+        defense: this.toPickups(parsed.streamingOptions.defense, request.week),
+        kicker: this.toPickups(parsed.streamingOptions.kicker, request.week),
+        qb: this.toPickups(parsed.streamingOptions.qb, request.week),
+      },
+      dropCandidates: parsed.dropCandidates,
+      budgetStrategy: request.budget ? {
+        aggressiveTargets: parsed.budgetStrategy?.aggressiveTargets || [],
+        conservativeTargets: parsed.budgetStrategy?.conservativeTargets || [],
+        remainingBudget: parsed.budgetStrategy?.remainingBudget || request.budget,
+        allocationAdvice: parsed.budgetStrategy?.allocationAdvice || 'Budget strategy not available',
+      } : undefined,
+      weeklyOutlook: parsed.weeklyOutlook,
+      keyTrends: parsed.keyTrends,
+      lastUpdated: new Date(),
+      isFallback: false,
+    };
   }
 
-  private validatePickups(pickups: any[]): WaiverWirePickup[] {
-    if (!Array.isArray(pickups)) return [];
+  private toPickups(pickups: WaiverPickupResponse[], week: number): WaiverWirePickup[] {
+    return pickups.map((pickup, index) => this.toPickup(pickup, week, index + 1));
+  }
 
-    return pickups.map((pickup, index) => ({
-      playerId: pickup.playerId || 'unknown',
-      playerName: pickup.playerName || 'Unknown Player',
-      position: pickup.position || 'UNKNOWN',
+  private toPickup(pickup: WaiverPickupResponse, week: number, defaultPriority: number = 5): WaiverWirePickup {
+    return {
+      playerId: pickup.playerId,
+      playerName: pickup.playerName,
+      position: pickup.position,
       team: pickup.team || 'FA',
-      priority: pickup.priority || index + 1,
-      confidence: Math.max(0, Math.min(1, pickup.confidence || 0.5)),
-      reasoning: pickup.reasoning || 'No reasoning provided',
+      priority: Math.max(1, Math.min(10, pickup.priority ?? defaultPriority)),
+      confidence: Math.max(0, Math.min(1, pickup.confidence)),
+      reasoning: pickup.reasoning,
       projectedImpact: {
         immediateStarter: pickup.projectedImpact?.immediateStarter || false,
         flexConsideration: pickup.projectedImpact?.flexConsideration || false,
@@ -306,39 +378,22 @@ Provide actionable recommendations with specific bid amounts and drop suggestion
         futureUpside: pickup.projectedImpact?.futureUpside || false,
       },
       bidRecommendation: pickup.bidRecommendation ? {
-        suggested: pickup.bidRecommendation.suggested || 1,
-        minimum: pickup.bidRecommendation.minimum || 1,
-        maximum: pickup.bidRecommendation.maximum || 5,
+        ...pickup.bidRecommendation,
         reasoning: pickup.bidRecommendation.reasoning || 'Standard bid',
       } : undefined,
-      targetWeeks: Array.isArray(pickup.targetWeeks) ? pickup.targetWeeks : [],
-      dropCandidates: Array.isArray(pickup.dropCandidates) ? pickup.dropCandidates : [],
-      riskFactors: Array.isArray(pickup.riskFactors) ? pickup.riskFactors : [],
+      targetWeeks: pickup.targetWeeks?.length ? pickup.targetWeeks : [week],
+      dropCandidates: pickup.dropCandidates || [],
+      riskFactors: pickup.riskFactors || [],
       upside: pickup.upside || 'Moderate upside potential',
-      recentTrends: {
-        usage: ['increasing', 'stable', 'decreasing'].includes(pickup.recentTrends?.usage)
-          ? pickup.recentTrends.usage : 'stable',
-        opportunity: ['increasing', 'stable', 'decreasing'].includes(pickup.recentTrends?.opportunity)
-          ? pickup.recentTrends.opportunity : 'stable',
-        production: ['increasing', 'stable', 'decreasing'].includes(pickup.recentTrends?.production)
-          ? pickup.recentTrends.production : 'stable',
+      recentTrends: pickup.recentTrends || {
+        usage: 'stable',
+        opportunity: 'stable',
+        production: 'stable',
       },
-    }));
-  }
-
-  private validateDropCandidates(candidates: any[]): WaiverWireAnalysis['dropCandidates'] {
-    if (!Array.isArray(candidates)) return [];
-
-    return candidates.map(candidate => ({
-      playerId: candidate.playerId || 'unknown',
-      playerName: candidate.playerName || 'Unknown Player',
-      reasoning: candidate.reasoning || 'Safe to drop',
-      safetyLevel: ['safe', 'moderate_risk', 'risky'].includes(candidate.safetyLevel)
-        ? candidate.safetyLevel : 'moderate_risk',
-    }));
+    };
   }
 
-  private createFallbackAnalysis(request: WaiverWireRequest): WaiverWireAnalysis {
+  private createFallbackAnalysis(request: WaiverWireRequest, reason: string): WaiverWireAnalysis {
     return {
       topPickups: [],
       sleepers: [],
@@ -357,6 +412,8 @@ Provide actionable recommendations with specific bid amounts and drop suggestion
       weeklyOutlook: 'Waiver wire analysis failed - please try again',
       keyTrends: ['AI analysis is currently unavailable'],
       lastUpdated: new Date(),
+      isFallback: true,
+      fallbackReason: reason,
     };
   }
 
@@ -365,7 +422,7 @@ Provide actionable recommendations with specific bid amounts and drop suggestion
     leagueId: string,
     week: number,
     preferredProvider?: AIProvider
-  ): Promise<WaiverWirePickup> {
+  ): Promise<WaiverWirePickup & { isFallback: boolean; fallbackReason?: string }> {
     const messages: AIMessage[] = [
       {
         role: 'system',
@@ -419,72 +476,22 @@ Provide specific pickup recommendation with priority ranking.`,
     ];
 
     try {
-      const response = await this.aiManager.chat(
+      const { data } = await chatStructured(
+        this.aiManager,
         { messages, maxTokens: 1000, temperature: 0.1 },
-        preferredProvider,
-        true
+        QuickPickupResponseSchema,
+        { preferredProvider, enableMCP: true }
       );
 
-      return this.parseQuickPickupResponse(response.content, playerId, week);
+      return { ...this.toPickup(data.pickup, week), isFallback: false };
     } catch (error) {
       console.error('Error getting quick pickup recommendation:', error);
       // Return fallback values
-      return this.getFallbackPickupRecommendation(playerId, week);
-    }
-  }
-
-  private parseQuickPickupResponse(
-    aiResponse: string, 
-    playerId: string, 
-    week: number
-  ): WaiverWirePickup {
-    try {
-      // Try to extract JSON from the response
-      const jsonMatch = aiResponse.match(/\{[\s\S]*\}/);
-      if (!jsonMatch) {
-        throw new Error('No JSON found in AI response');
-      }
-
-      const parsed = JSON.parse(jsonMatch[0]);
-      
-      // Validate required fields
-      if (!parsed.pickup || typeof parsed.pickup !== 'object') {
-        throw new Error('Invalid pickup format');
-      }
-
-      const pickup = parsed.pickup;
-      
-      // Return validated pickup recommendation
       return {
-        playerId: pickup.playerId || playerId,
-        playerName: pickup.playerName || 'Unknown Player',
-        position: pickup.position || 'UNKNOWN',
-        team: pickup.team || 'FA',
-        priority: typeof pickup.priority === 'number' ? Math.max(1, Math.min(10, pickup.priority)) : 5,
-        confidence: typeof pickup.confidence === 'number' ? Math.max(0, Math.min(1, pickup.confidence)) : 0.5,
-        reasoning: pickup.reasoning || 'Quick analysis completed',
-        projectedImpact: {
-          immediateStarter: Boolean(pickup.projectedImpact?.immediateStarter),
-          flexConsideration: Boolean(pickup.projectedImpact?.flexConsideration),
-          depthUpgrade: Boolean(pickup.projectedImpact?.depthUpgrade),
-          futureUpside: Boolean(pickup.projectedImpact?.futureUpside),
-        },
-        targetWeeks: Array.isArray(pickup.targetWeeks) ? pickup.targetWeeks : [week],
-        dropCandidates: Array.isArray(pickup.dropCandidates) ? pickup.dropCandidates : [],
-        riskFactors: Array.isArray(pickup.riskFactors) ? pickup.riskFactors : [],
-        upside: pickup.upside || 'Moderate upside potential',
-        recentTrends: {
-          usage: ['increasing', 'stable', 'decreasing'].includes(pickup.recentTrends?.usage) 
-            ? pickup.recentTrends.usage : 'stable',
-          opportunity: ['increasing', 'stable', 'decreasing'].includes(pickup.recentTrends?.opportunity) 
-            ? pickup.recentTrends.opportunity : 'stable',
-          production: ['increasing', 'stable', 'decreasing'].includes(pickup.recentTrends?.production) 
-            ? pickup.recentTrends.production : 'stable',
-        },
+        ...this.getFallbackPickupRecommendation(playerId, week),
+        isFallback: true,
+        fallbackReason: error instanceof Error ? error.message : 'Unknown error',
       };
-    } catch (error) {
-      console.error('Error parsing quick pickup response:', error);
-      return this.getFallbackPickupRecommendation(playerId, week);
     }
   }
 
@@ -520,7 +527,7 @@ Provide specific pickup recommendation with priority ranking.`,
     leagueId: string,
     week: number,
     preferredProvider?: AIProvider
-  ): Promise<WaiverWirePickup[]> {
+  ): Promise<StreamingRecommendations> {
     const messages: AIMessage[] = [
       {
         role: 'system',
@@ -577,71 +584,28 @@ Rank by expected weekly performance for this position.`,
     ];
 
     try {
-      const response = await this.aiManager.chat(
+      const { data } = await chatStructured(
+        this.aiManager,
         { messages, maxTokens: 2000, temperature: 0.1 },
-        preferredProvider,
-        true
+        StreamingResponseSchema,
+        { preferredProvider, enableMCP: true }
       );
 
-      return this.parseStreamingResponse(response.content, position, week);
+      return {
+        recommendations: data.streamingOptions.map(option => ({
+          ...this.toPickup(option, week),
+          upside: option.upside || 'Good streaming option',
+        })),
+        isFallback: false,
+      };
     } catch (error) {
       console.error('Error getting streaming recommendations:', error);
-      // Return empty array as fallback
-      return [];
-    }
-  }
-
-  private parseStreamingResponse(
-    aiResponse: string, 
-    position: 'DEF' | 'K' | 'QB',
-    week: number
-  ): WaiverWirePickup[] {
-    try {
-      // Try to extract JSON from the response
-      const jsonMatch = aiResponse.match(/\{[\s\S]*\}/);
-      if (!jsonMatch) {
-        throw new Error('No JSON found in AI response');
-      }
-
-      const parsed = JSON.parse(jsonMatch[0]);
-      
-      // Validate required fields
-      if (!parsed.streamingOptions || !Array.isArray(parsed.streamingOptions)) {
-        throw new Error('Invalid streamingOptions format');
-      }
-
-      // Map and validate each recommendation
-      return parsed.streamingOptions.map((option: any) => ({
-        playerId: option.playerId || 'unknown',
-        playerName: option.playerName || 'Unknown Player',
-        position: option.position || position,
-        team: option.team || 'FA',
-        priority: typeof option.priority === 'number' ? Math.max(1, Math.min(10, option.priority)) : 5,
-        confidence: typeof option.confidence === 'number' ? Math.max(0, Math.min(1, option.confidence)) : 0.5,
-        reasoning: option.reasoning || 'Streaming recommendation',
-        projectedImpact: {
-          immediateStarter: Boolean(option.projectedImpact?.immediateStarter),
-          flexConsideration: Boolean(option.projectedImpact?.flexConsideration),
-          depthUpgrade: Boolean(option.projectedImpact?.depthUpgrade),
-          futureUpside: Boolean(option.projectedImpact?.futureUpside),
-        },
-        targetWeeks: Array.isArray(option.targetWeeks) ? option.targetWeeks : [week],
-        dropCandidates: Array.isArray(option.dropCandidates) ? option.dropCandidates : [],
-        riskFactors: Array.isArray(option.riskFactors) ? option.riskFactors : [],
-        upside: option.upside || 'Good streaming option',
-        recentTrends: {
-          usage: ['increasing', 'stable', 'decreasing'].includes(option.recentTrends?.usage) 
-            ? option.recentTrends.usage : 'stable',
-          opportunity: ['increasing', 'stable', 'decreasing'].includes(option.recentTrends?.opportunity) 
-            ? option.recentTrends.opportunity : 'stable',
-          production: ['increasing', 'stable', 'decreasing'].includes(option.recentTrends?.production) 
-            ? option.recentTrends.production : 'stable',
-        },
-      }));
-    } catch (error) {
-      console.error('Error parsing streaming response:', error);
-      // Return empty array as fallback
-      return [];
+      // Return an empty list as fallback
+      return {
+        recommendations: [],
+        isFallback: true,
+        fallbackReason: error instanceof Error ? error.message : 'Unknown error',
+      };
     }
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,286 @@
+import { z } from 'zod';
+import { AIManager } from '../services/ai-manager';
+import { AIProvider, AIMessage } from '../types/ai-providers';
+import { chatStructured, StructuredOutputError } from '../utils/structured-output';
+
+export interface RecapTeamScore {
+  teamName: string;
+  points: number;
+}
+
+export interface RecapMatchup {
+  winner: RecapTeamScore;
+  loser: RecapTeamScore;
+  margin: number;
+  tie: boolean;
+}
+
+export interface RecapPerformer {
+  playerName: string;
+  position: string;
+  nflTeam: string | null;
+  teamName: string; // Fantasy team that started the player
+  points: number;
+}
+
+export interface RecapBenchReport {
+  teamName: string;
+  benchPoints: number;
+  pointsLeftOnBench: number; // Optimal lineup points minus actual points
+  bestBenchPlayer: { playerName: string; position: string; points: number } | null;
+}
+
+export interface RecapUpset {
+  winner: RecapTeamScore & { recordBefore: string };
+  loser: RecapTeamScore & { recordBefore: string };
+  margin: number;
+}
+
+export interface RecapStanding {
+  teamName: string;
+  rank: number;
+  previousRank: number | null;
+  record: string;
+  pointsFor: number;
+}
+
+export interface WeeklyRecapRequest {
+  leagueName: string;
+  week: number;
+  matchups: RecapMatchup[];
+  topPerformers: RecapPerformer[];
+  benchReports: RecapBenchReport[];
+  biggestUpset: RecapUpset | null;
+  standings: RecapStanding[];
+  tone?: 'professional' | 'playful' | 'roast';
+}
+
+export interface WeeklyRecapSection {
+  title: string;
+  body: string;
+}
+
+export interface WeeklyRecap {
+  headline: string;
+  intro: string;
+  sections: WeeklyRecapSection[];
+  awards: { title: string; teamName: string; reason: string }[];
+  provider: AIProvider | null; // null when the model failed and the recap was built from the numbers alone
+  model: string | null;
+  lastUpdated: Date;
+  isFallback: boolean;
+  fallbackReason?: string;
+}
+
+const WeeklyRecapResponseSchema = z.object({
+  headline: z.string().trim().min(1),
+  intro: z.string().trim().default(''),
+  sections: z.array(z.object({
+    title: z.string().trim(),
+    body: z.string().trim().min(1),
+  })).min(1),
+  awards: z.array(z.object({
+    title: z.string(),
+    teamName: z.string(),
+    reason: z.string().default(''),
+  })).default([]),
+});
+
+const TONE_GUIDELINES: Record<NonNullable<WeeklyRecapRequest['tone']>, string> = {
+  professional: 'Write like a sports section columnist: sharp, factual, lightly witty.',
+  playful: 'Write like a friendly league commissioner: fun, punny, never mean.',
+  roast: 'Write like a trash-talking league commissioner: roast bad decisions, but keep it good-natured and never personal.',
+};
+
+/**
+ * Writes the weekly league newsletter from results the caller has already
+ * computed. The model only narrates; every number comes from the request.
+ */
+export class WeeklyRecapWriter {
+  constructor(private aiManager: AIManager) {}
+
+  async writeRecap(
+    request: WeeklyRecapRequest,
+    preferredProvider?: AIProvider
+  ): Promise<WeeklyRecap> {
+    console.log(`Writing week ${request.week} recap for ${request.leagueName}`);
+
+    const messages: AIMessage[] = [
+      { role: 'system', content: this.buildSystemPrompt(request) },
+      { role: 'user', content: this.buildUserPrompt(request) },
+    ];
+
+    try {
+      const { data, response } = await chatStructured(
+        this.aiManager,
+        {
+          messages,
+          maxTokens: 2500,
+          temperature: 0.7,
+        },
+        WeeklyRecapResponseSchema,
+        { preferredProvider, enableMCP: false } // Everything the recap needs is in the prompt
+      );
+
+      return {
+        ...data,
+        provider: response.provider,
+        model: response.model,
+        lastUpdated: new Date(),
+        isFallback: false,
+      };
+    } catch (error) {
+      if (error instanceof StructuredOutputError) {
+        console.error('Weekly recap reply unusable, building recap from the numbers:', error.message);
+        return this.buildFallbackRecap(request, error.message);
+      }
+      console.error('Weekly recap failed:', error);
+      throw new Error(`Weekly recap failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  private buildSystemPrompt(request: WeeklyRecapRequest): string {
+    return `You are the editor of a fantasy football league newsletter. Each week you write a recap of the league's results.
+
+STYLE:
+${TONE_GUIDELINES[request.tone || 'playful']}
+
+RULES:
+1. Use only the results provided. Never invent scores, players, injuries or trades.
+2. Mention every matchup at least once.
+3. Call out the points left on the bench and the biggest upset when there is one.
+4. Cover movement in the standings.
+5. Refer to teams by their team names.
+
+OUTPUT REQUIREMENTS:
+You must respond with a valid JSON object containing:
+{
+  "headline": "catchy headline, max 12 words",
+  "intro": "two or three sentence summary of the week",
+  "sections": [
+    { "title": "Matchup Results", "body": "one short paragraph per matchup, separated by blank lines" },
+    { "title": "Top Performers", "body": "paragraph" },
+    { "title": "Left on the Bench", "body": "paragraph" },
+    { "title": "Upset of the Week", "body": "paragraph, omit this section when there is no upset" },
+    { "title": "Standings Watch", "body": "paragraph" }
+  ],
+  "awards": [
+    { "title": "award name", "teamName": "team", "reason": "one sentence" }
+  ]
+}
+
+Keep the whole newsletter under 600 words.`;
+  }
+
+  private buildUserPrompt(request: WeeklyRecapRequest): string {
+    const matchups = request.matchups.map(matchup => matchup.tie
+      ? `- ${matchup.winner.teamName} ${matchup.winner.points} tied ${matchup.loser.teamName} ${matchup.loser.points}`
+      : `- ${matchup.winner.teamName} ${matchup.winner.points} beat ${matchup.loser.teamName} ${matchup.loser.points} (by ${matchup.margin})`
+    ).join('\n');
+
+    const performers = request.topPerformers.map(player =>
+      `- ${player.playerName} (${player.position}${player.nflTeam ? `, ${player.nflTeam}` : ''}) scored ${player.points} for ${player.teamName}`
+    ).join('\n');
+
+    const bench = request.benchReports.map(report =>
+      `- ${report.teamName}: ${report.pointsLeftOnBench} points left on the bench (${report.benchPoints} total bench points)` +
+      (report.bestBenchPlayer ? `; best benched player ${report.bestBenchPlayer.playerName} (${report.bestBenchPlayer.position}) with ${report.bestBenchPlayer.points}` : '')
+    ).join('\n');
+
+    const upset = request.biggestUpset
+      ? `${request.biggestUpset.winner.teamName} (${request.biggestUpset.winner.recordBefore} before the week) beat ` +
+        `${request.biggestUpset.loser.teamName} (${request.biggestUpset.loser.recordBefore}) ` +
+        `${request.biggestUpset.winner.points}-${request.biggestUpset.loser.points}`
+      : 'None this week';
+
+    const standings = request.standings.map(team => {
+      const movement = team.previousRank === null || team.previousRank === team.rank
+        ? ''
+        : team.previousRank > team.rank ? ` (up from ${team.previousRank})` : ` (down from ${team.previousRank})`;
+      return `${team.rank}. ${team.teamName} ${team.record}, ${team.pointsFor} points for${movement}`;
+    }).join('\n');
+
+    return `Write the week ${request.week} recap for the league "${request.leagueName}".
+
+FINAL SCORES:
+${matchups || 'No matchups were played'}
+
+TOP PERFORMERS (starters only):
+${performers || 'No player scores available'}
+
+POINTS LEFT ON THE BENCH:
+${bench || 'No bench data available'}
+
+BIGGEST UPSET:
+${upset}
+
+STANDINGS AFTER WEEK ${request.week}:
+${standings}`;
+  }
+
+  // A plain recap from the numbers, so the week is still covered when the model misbehaves
+  private buildFallbackRecap(request: WeeklyRecapRequest, reason: string): WeeklyRecap {
+    const closest = [...request.matchups].filter(matchup => !matchup.tie).sort((a, b) => a.margin - b.margin)[0];
+    const leader = request.standings.find(team => team.rank === 1);
+    const topScorer = [...request.matchups]
+      .flatMap(matchup => [matchup.winner, matchup.loser])
+      .sort((a, b) => b.points - a.points)[0];
+    const benchLeader = request.benchReports[0];
+
+    const sections: WeeklyRecapSection[] = [
+      {
+        title: 'Matchup Results',
+        body: request.matchups.map(matchup => matchup.tie
+          ? `${matchup.winner.teamName} and ${matchup.loser.teamName} tied at ${matchup.winner.points}.`
+          : `${matchup.winner.teamName} beat ${matchup.loser.teamName} ${matchup.winner.points}-${matchup.loser.points}.`
+        ).join('\n\n'),
+      },
+    ];
+
+    if (request.topPerformers.length > 0) {
+      sections.push({
+        title: 'Top Performers',
+        body: request.topPerformers
+          .map(player => `${player.playerName} scored ${player.points} for ${player.teamName}.`)
+          .join(' '),
+      });
+    }
+
+    if (benchLeader && benchLeader.pointsLeftOnBench > 0) {
+      sections.push({
+        title: 'Left on the Bench',
+        body: `${benchLeader.teamName} left ${benchLeader.pointsLeftOnBench} points on the bench` +
+          (benchLeader.bestBenchPlayer ? `, including ${benchLeader.bestBenchPlayer.playerName} with ${benchLeader.bestBenchPlayer.points}.` : '.'),
+      });
+    }
+
+    if (request.biggestUpset) {
+      const { winner, loser } = request.biggestUpset;
+      sections.push({
+        title: 'Upset of the Week',
+        body: `${winner.teamName} (${winner.recordBefore}) knocked off ${loser.teamName} (${loser.recordBefore}) ${winner.points}-${loser.points}.`,
+      });
+    }
+
+    sections.push({
+      title: 'Standings Watch',
+      body: request.standings.map(team => `${team.rank}. ${team.teamName} (${team.record})`).join('\n'),
+    });
+
+    return {
+      headline: topScorer ? `${topScorer.teamName} leads the way in week ${request.week}` : `Week ${request.week} in the books`,
+      intro: [
+        topScorer && `${topScorer.teamName} posted the top score with ${topScorer.points}.`,
+        closest && `The closest game was decided by ${closest.margin}.`,
+        leader && `${leader.teamName} sits atop the standings at ${leader.record}.`,
+      ].filter(Boolean).join(' '),
+      sections,
+      awards: [],
+      provider: null,
+      model: null,
+      lastUpdated: new Date(),
+      isFallback: true,
+      fallbackReason: reason,
+    };
+  }
+}
@@ -1,3 +1,4 @@
+import path from 'path';
 import { AIProvider } from '../types/ai-providers';
 import { AIManagerConfig } from '../services/ai-manager';
 
@@ -44,15 +45,58 @@ export function createAIConfig(): AIManagerConfig {
     };
   }
 
+  // Local OpenAI-compatible model server configuration
+  if (process.env.LOCAL_AI_BASE_URL) {
+    providers[AIProvider.LOCAL] = {
+      apiKey: process.env.LOCAL_AI_API_KEY || '',
+      model: process.env.LOCAL_AI_MODEL || 'llama3.1:8b',
+      baseURL: process.env.LOCAL_AI_BASE_URL,
+      contextWindow: parseInt(process.env.LOCAL_AI_CONTEXT_WINDOW || '8192'),
+      supportsJsonMode: process.env.LOCAL_AI_JSON_MODE === 'true',
+      supportsTools: process.env.LOCAL_AI_TOOLS === 'true',
+      maxRetries: parseInt(process.env.LOCAL_AI_MAX_RETRIES || '1'),
+      timeout: parseInt(process.env.LOCAL_AI_TIMEOUT || '120000'),
+    };
+  }
+
+  // Mock configuration (offline development and deterministic runs)
+  const mockMode = process.env.MOCK_AI_MODE;
+  if (mockMode) {
+    if (mockMode !== 'replay' && mockMode !== 'record') {
+      throw new Error(`MOCK_AI_MODE must be "replay" or "record", got "${mockMode}"`);
+    }
+
+    const recordProvider = mockMode === 'record'
+      ? (process.env.MOCK_AI_RECORD_PROVIDER as AIProvider) || getDefaultProvider(Object.keys(providers))
+      : undefined;
+    if (mockMode === 'record' && (!recordProvider || !providers[recordProvider])) {
+      throw new Error('MOCK_AI_MODE=record needs the provider to record from (MOCK_AI_RECORD_PROVIDER) to be configured');
+    }
+
+    // Only the mock answers in mock mode; record mode keeps the provider it records from
+    Object.keys(providers)
+      .filter(provider => provider !== recordProvider)
+      .forEach(provider => delete providers[provider]);
+
+    providers[AIProvider.MOCK] = {
+      apiKey: '',
+      model: 'mock',
+      fixturesDir: path.resolve(process.env.MOCK_AI_FIXTURES_DIR || 'fixtures/ai'),
+      mode: mockMode,
+      recordProvider,
+    };
+  }
+
   // Ensure at least one provider is configured
   const availableProviders = Object.keys(providers);
   if (availableProviders.length === 0) {
-    throw new Error('At least one AI provider must be configured (OpenAI, Claude, or Gemini)');
+    throw new Error('At least one AI provider must be configured (OpenAI, Claude, Gemini, LOCAL_AI_BASE_URL, or MOCK_AI_MODE)');
   }
 
-  // Determine default and fallback providers
-  const defaultProvider = getDefaultProvider(availableProviders);
-  const fallbackProviders = availableProviders
+  // Determine default and fallback providers. The mock answers everything on its own:
+  // a missing fixture should fail the request rather than fall through to a real provider
+  const defaultProvider = mockMode ? AIProvider.MOCK : getDefaultProvider(availableProviders);
+  const fallbackProviders = mockMode ? [] : availableProviders
     .filter(p => p !== defaultProvider)
     .map(p => p as AIProvider);
 
@@ -67,6 +111,10 @@ export function createAIConfig(): AIManagerConfig {
       timeout: parseInt(process.env.MCP_SERVER_TIMEOUT || '30000'),
       retries: parseInt(process.env.MCP_SERVER_RETRIES || '3'),
     },
+    toolLoop: {
+      maxIterations: parseInt(process.env.AI_TOOL_MAX_ITERATIONS || '5'),
+      maxTokens: parseInt(process.env.AI_TOOL_MAX_TOKENS || '20000'),
+    },
     redis: process.env.REDIS_URL ? {
       host: getRedisHost(),
       port: getRedisPort(),
@@ -1,5 +1,5 @@
 import Anthropic from '@anthropic-ai/sdk';
-import { BaseAIProvider, AIProvider, AIRequest, AIResponse, AIProviderConfig } from '../types/ai-providers';
+import { BaseAIProvider, AIProvider, AIRequest, AIResponse, AIProviderConfig, AIStreamChunk, AIToolCall } from '../types/ai-providers';
 
 export class ClaudeProvider extends BaseAIProvider {
   private client: Anthropic;
@@ -17,64 +17,136 @@ export class ClaudeProvider extends BaseAIProvider {
 
   async chat(request: AIRequest): Promise<AIResponse> {
     try {
-      // Separate system messages from user/assistant messages
-      const systemMessages = request.messages.filter(msg => msg.role === 'system');
-      const conversationMessages = request.messages.filter(msg => msg.role !== 'system');
-
-      const systemPrompt = systemMessages.map(msg => msg.content).join('\n');
-
-      const messages: Anthropic.Messages.MessageParam[] = conversationMessages.map(msg => ({
-        role: msg.role === 'user' ? 'user' : 'assistant',
-        content: msg.content,
-      }));
-
-      const tools: Anthropic.Tool[] | undefined = request.tools?.map(tool => ({
-        name: tool.name,
-        description: tool.description,
-        input_schema: tool.parameters,
-      }));
+      const response = await this.client.messages.create(this.buildParams(request));
+      return this.toResponse(response, this.jsonPrefill(request));
+    } catch (error) {
+      console.error('Claude API error:', error);
+      throw new Error(`Claude API error: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
 
-      const response = await this.client.messages.create({
-        model: this.config.model,
-        system: systemPrompt || undefined,
-        messages,
-        tools: tools?.length ? tools : undefined,
-        max_tokens: request.maxTokens || 4000,
-        temperature: request.temperature || 0.1,
-      });
+  async *chatStream(request: AIRequest): AsyncGenerator<AIStreamChunk> {
+    try {
+      const stream = this.client.messages.stream(this.buildParams(request));
+      const prefill = this.jsonPrefill(request);
+      if (prefill) {
+        yield { type: 'delta', content: prefill };
+      }
 
-      let content = '';
-      const toolCalls: any[] = [];
-
-      for (const block of response.content) {
-        if (block.type === 'text') {
-          content += block.text;
-        } else if (block.type === 'tool_use') {
-          toolCalls.push({
-            name: block.name,
-            parameters: block.input,
-          });
+      for await (const event of stream) {
+        if (event.type === 'content_block_delta' && event.delta.type === 'text_delta') {
+          yield { type: 'delta', content: event.delta.text };
         }
       }
 
-      return {
-        content,
-        toolCalls: toolCalls.length > 0 ? toolCalls : undefined,
-        usage: response.usage ? {
-          promptTokens: response.usage.input_tokens,
-          completionTokens: response.usage.output_tokens,
-          totalTokens: response.usage.input_tokens + response.usage.output_tokens,
-        } : undefined,
-        finishReason: response.stop_reason || undefined,
-        provider: this.provider,
-        model: this.config.model,
-      };
+      yield { type: 'done', response: this.toResponse(await stream.finalMessage(), prefill) };
     } catch (error) {
       console.error('Claude API error:', error);
       throw new Error(`Claude API error: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
 
+  private buildParams(request: AIRequest): Anthropic.Messages.MessageCreateParamsNonStreaming {
+    // Separate system messages from user/assistant messages
+    const systemMessages = request.messages.filter(msg => msg.role === 'system');
+    const conversationMessages = request.messages.filter(msg => msg.role !== 'system');
+
+    const systemPrompt = systemMessages.map(msg => msg.content).join('\n');
+
+    const messages: Anthropic.Messages.MessageParam[] = [];
+    for (const msg of conversationMessages) {
+      if (msg.role === 'tool') {
+        const result: Anthropic.Messages.ToolResultBlockParam = {
+          type: 'tool_result',
+          tool_use_id: msg.toolCallId || '',
+          content: msg.content,
+          is_error: msg.isError || undefined,
+        };
+        // The results of one turn's calls all go back in a single user message
+        const previous = messages[messages.length - 1];
+        if (previous?.role === 'user' && Array.isArray(previous.content)) {
+          previous.content.push(result);
+        } else {
+          messages.push({ role: 'user', content: [result] });
+        }
+      } else if (msg.role === 'assistant' && msg.toolCalls?.length) {
+        messages.push({
+          role: 'assistant',
+          content: [
+            ...(msg.content ? [{ type: 'text' as const, text: msg.content }] : []),
+            ...msg.toolCalls.map(toolCall => ({
+              type: 'tool_use' as const,
+              id: toolCall.id || '',
+              name: toolCall.name,
+              input: toolCall.parameters || {},
+            })),
+          ],
+        });
+      } else {
+        messages.push({
+          role: msg.role === 'user' ? 'user' : 'assistant',
+          content: msg.content,
+        });
+      }
+    }
+
+    const prefill = this.jsonPrefill(request);
+    if (prefill) {
+      messages.push({ role: 'assistant', content: prefill });
+    }
+
+    const tools: Anthropic.Tool[] | undefined = request.tools?.map(tool => ({
+      name: tool.name,
+      description: tool.description,
+      input_schema: tool.parameters,
+    }));
+
+    return {
+      model: this.config.model,
+      system: systemPrompt || undefined,
+      messages,
+      tools: tools?.length ? tools : undefined,
+      max_tokens: request.maxTokens || 4000,
+      temperature: request.temperature || 0.1,
+    };
+  }
+
+  // Claude has no JSON mode; starting its reply with "{" has the same effect.
+  // Not done while tools are offered, since the reply must be free to be a tool call
+  private jsonPrefill(request: AIRequest): string {
+    return request.responseFormat === 'json' && !request.tools?.length ? '{' : '';
+  }
+
+  private toResponse(response: Anthropic.Message, prefill: string = ''): AIResponse {
+    let content = prefill;
+    const toolCalls: AIToolCall[] = [];
+
+    for (const block of response.content) {
+      if (block.type === 'text') {
+        content += block.text;
+      } else if (block.type === 'tool_use') {
+        toolCalls.push({
+          id: block.id,
+          name: block.name,
+          parameters: (block.input || {}) as Record<string, any>,
+        });
+      }
+    }
+
+    return {
+      content,
+      toolCalls: toolCalls.length > 0 ? toolCalls : undefined,
+      usage: response.usage ? {
+        promptTokens: response.usage.input_tokens,
+        completionTokens: response.usage.output_tokens,
+        totalTokens: response.usage.input_tokens + response.usage.output_tokens,
+      } : undefined,
+      finishReason: response.stop_reason || undefined,
+      provider: this.provider,
+      model: this.config.model,
+    };
+  }
+
   async isHealthy(): Promise<boolean> {
     try {
       const response = await this.client.messages.create({
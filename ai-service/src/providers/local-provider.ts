@@ -0,0 +1,48 @@
+import OpenAI from 'openai';
+import { AIProvider, AIRequest, LocalProviderConfig } from '../types/ai-providers';
+import { OpenAIProvider } from './openai-provider';
+
+// Room left for the reply when the caller's maxTokens would overflow the context window
+const MIN_COMPLETION_TOKENS = 256;
+
+/**
+ * A self-hosted model behind an OpenAI-compatible /v1/chat/completions
+ * endpoint. Requests are fitted to the model's context window, and tools and
+ * JSON mode are only sent when the server is configured as supporting them.
+ */
+export class LocalProvider extends OpenAIProvider {
+  private localConfig: LocalProviderConfig;
+
+  constructor(config: LocalProviderConfig) {
+    super({ ...config, apiKey: config.apiKey || 'not-needed' }, AIProvider.LOCAL);
+    this.localConfig = config;
+  }
+
+  protected get label(): string {
+    return 'Local model';
+  }
+
+  protected buildParams(request: AIRequest): Omit<OpenAI.Chat.Completions.ChatCompletionCreateParamsNonStreaming, 'stream'> {
+    const { contextWindow, supportsJsonMode, supportsTools } = this.localConfig;
+    const params = super.buildParams({
+      ...request,
+      tools: supportsTools ? request.tools : undefined,
+    });
+
+    // Approximate: 1 token ≈ 4 characters
+    const promptTokens = Math.ceil(JSON.stringify({ messages: params.messages, tools: params.tools }).length / 4);
+    const available = contextWindow - promptTokens;
+    if (available < MIN_COMPLETION_TOKENS) {
+      // Thrown inside chat/chatStream, so the manager falls back to the next provider
+      throw new Error(`prompt of ~${promptTokens} tokens does not fit the ${contextWindow}-token context window`);
+    }
+
+    return {
+      ...params,
+      max_tokens: Math.min(params.max_tokens || 4000, available),
+      response_format: supportsJsonMode && request.responseFormat === 'json'
+        ? { type: 'json_object' as const }
+        : undefined,
+    };
+  }
+}
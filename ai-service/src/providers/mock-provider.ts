@@ -0,0 +1,176 @@
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { BaseAIProvider, AIProvider, AIRequest, AIResponse, AIStreamChunk, MockProviderConfig } from '../types/ai-providers';
+
+/**
+ * A fixture file. Recorded fixtures are looked up by `hash`; hand-written
+ * (scripted) ones can use `match` instead, a substring of the prompt.
+ */
+export interface MockFixture {
+  hash?: string;
+  match?: string;
+  prompt?: string; // start of the last user message, to tell fixtures apart
+  response: Pick<AIResponse, 'content' | 'toolCalls' | 'usage' | 'finishReason'>;
+  recordedFrom?: { provider: AIProvider; model: string };
+  recordedAt?: string;
+}
+
+/**
+ * Hash of everything the model sees: the messages and the names of the tools
+ * on offer, so each turn of a tool loop gets its own fixture.
+ */
+export function hashPrompt(request: AIRequest): string {
+  return createHash('sha256')
+    .update(JSON.stringify({
+      messages: request.messages,
+      tools: request.tools?.map(tool => tool.name) || [],
+    }))
+    .digest('hex')
+    .substring(0, 16);
+}
+
+export class MockProvider extends BaseAIProvider {
+  private fixturesDir: string;
+  private mode: 'replay' | 'record';
+  private recorder?: BaseAIProvider;
+
+  constructor(config: MockProviderConfig, recorder?: BaseAIProvider) {
+    super(config, AIProvider.MOCK);
+
+    this.fixturesDir = config.fixturesDir;
+    this.mode = config.mode;
+    this.recorder = recorder;
+
+    if (this.mode === 'record' && !recorder) {
+      throw new Error('Mock provider record mode needs a configured provider to record from');
+    }
+  }
+
+  async chat(request: AIRequest): Promise<AIResponse> {
+    if (this.recorder && this.mode === 'record') {
+      const response = await this.recorder.chat(request);
+      await this.saveFixture(request, response);
+      return response;
+    }
+
+    const fixture = await this.findFixture(request);
+    return this.toResponse(fixture);
+  }
+
+  async *chatStream(request: AIRequest): AsyncGenerator<AIStreamChunk> {
+    if (this.recorder && this.mode === 'record') {
+      for await (const chunk of this.recorder.chatStream(request)) {
+        if (chunk.type === 'done') {
+          await this.saveFixture(request, chunk.response);
+        }
+        yield chunk;
+      }
+      return;
+    }
+
+    const response = this.toResponse(await this.findFixture(request));
+
+    // Replay word by word so streaming consumers see several deltas
+    for (const word of response.content.match(/\S+\s*/g) || []) {
+      yield { type: 'delta', content: word };
+    }
+    yield { type: 'done', response };
+  }
+
+  async isHealthy(): Promise<boolean> {
+    if (this.recorder && this.mode === 'record') {
+      return this.recorder.isHealthy();
+    }
+
+    try {
+      await fs.access(this.fixturesDir);
+      return true;
+    } catch {
+      console.error(`Mock provider fixtures directory not found: ${this.fixturesDir}`);
+      return false;
+    }
+  }
+
+  private async findFixture(request: AIRequest): Promise<MockFixture> {
+    const hash = hashPrompt(request);
+
+    try {
+      return JSON.parse(await fs.readFile(this.fixturePath(hash), 'utf-8'));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        throw new Error(`Mock API error: unreadable fixture ${hash}.json: ${error instanceof Error ? error.message : error}`);
+      }
+    }
+
+    // No recording for this exact prompt; try the scripted fixtures
+    const prompt = request.messages.map(message => message.content).join('\n');
+    for (const fixture of await this.loadScriptedFixtures()) {
+      if (fixture.match && prompt.includes(fixture.match)) {
+        return fixture;
+      }
+    }
+
+    throw new Error(
+      `Mock API error: no fixture for prompt ${hash} in ${this.fixturesDir} (record one with MOCK_AI_MODE=record)`
+    );
+  }
+
+  private async loadScriptedFixtures(): Promise<MockFixture[]> {
+    let files: string[];
+    try {
+      files = (await fs.readdir(this.fixturesDir)).filter(file => file.endsWith('.json')).sort();
+    } catch {
+      return [];
+    }
+
+    const fixtures: MockFixture[] = [];
+    for (const file of files) {
+      try {
+        const fixture: MockFixture = JSON.parse(await fs.readFile(path.join(this.fixturesDir, file), 'utf-8'));
+        if (fixture.match) fixtures.push(fixture);
+      } catch (error) {
+        console.warn(`Skipping unreadable mock fixture ${file}:`, error instanceof Error ? error.message : error);
+      }
+    }
+    return fixtures;
+  }
+
+  private async saveFixture(request: AIRequest, response: AIResponse): Promise<void> {
+    const hash = hashPrompt(request);
+    const lastUserMessage = [...request.messages].reverse().find(message => message.role === 'user');
+    const fixture: MockFixture = {
+      hash,
+      prompt: lastUserMessage?.content.substring(0, 200),
+      response: {
+        content: response.content,
+        toolCalls: response.toolCalls,
+        usage: response.usage,
+        finishReason: response.finishReason,
+      },
+      recordedFrom: { provider: response.provider, model: response.model },
+      recordedAt: new Date().toISOString(),
+    };
+
+    try {
+      await fs.mkdir(this.fixturesDir, { recursive: true });
+      await fs.writeFile(this.fixturePath(hash), JSON.stringify(fixture, null, 2) + '\n');
+      console.log(`Recorded mock fixture ${hash}.json from ${response.provider}`);
+    } catch (error) {
+      // Recording is best effort; the caller still gets the real response
+      console.error(`Failed to record mock fixture ${hash}.json:`, error);
+    }
+  }
+
+  private fixturePath(hash: string): string {
+    return path.join(this.fixturesDir, `${hash}.json`);
+  }
+
+  private toResponse(fixture: MockFixture): AIResponse {
+    return {
+      ...fixture.response,
+      provider: this.provider,
+      model: this.config.model,
+    };
+  }
+}
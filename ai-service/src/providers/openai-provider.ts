@@ -1,11 +1,12 @@
 import OpenAI from 'openai';
-import { BaseAIProvider, AIProvider, AIRequest, AIResponse, AIProviderConfig } from '../types/ai-providers';
+import { BaseAIProvider, AIProvider, AIRequest, AIResponse, AIProviderConfig, AIStreamChunk } from '../types/ai-providers';
+import { parseToolArguments } from '../utils/tool-calls';
 
 export class OpenAIProvider extends BaseAIProvider {
   private client: OpenAI;
 
-  constructor(config: AIProviderConfig) {
-    super(config, AIProvider.OPENAI);
+  constructor(config: AIProviderConfig, provider: AIProvider = AIProvider.OPENAI) {
+    super(config, provider);
     
     this.client = new OpenAI({
       apiKey: config.apiKey,
@@ -17,27 +18,8 @@ export class OpenAIProvider extends BaseAIProvider {
 
   async chat(request: AIRequest): Promise<AIResponse> {
     try {
-      const messages: OpenAI.Chat.Completions.ChatCompletionMessageParam[] = request.messages.map(msg => ({
-        role: msg.role,
-        content: msg.content,
-      }));
-
-      const tools: OpenAI.Chat.Completions.ChatCompletionTool[] | undefined = request.tools?.map(tool => ({
-        type: 'function',
-        function: {
-          name: tool.name,
-          description: tool.description,
-          parameters: tool.parameters,
-        },
-      }));
-
       const completion = await this.client.chat.completions.create({
-        model: this.config.model,
-        messages,
-        tools: tools?.length ? tools : undefined,
-        tool_choice: tools?.length ? 'auto' : undefined,
-        max_tokens: request.maxTokens || 4000,
-        temperature: request.temperature || 0.1,
+        ...this.buildParams(request),
         stream: false,
       });
 
@@ -47,8 +29,9 @@ export class OpenAIProvider extends BaseAIProvider {
       }
 
       const toolCalls = choice.message.tool_calls?.map(toolCall => ({
+        id: toolCall.id,
         name: toolCall.function.name,
-        parameters: JSON.parse(toolCall.function.arguments),
+        parameters: parseToolArguments(toolCall.function.arguments),
       }));
 
       return {
@@ -64,11 +47,120 @@ export class OpenAIProvider extends BaseAIProvider {
         model: this.config.model,
       };
     } catch (error) {
-      console.error('OpenAI API error:', error);
-      throw new Error(`OpenAI API error: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      console.error(`${this.label} API error:`, error);
+      throw new Error(`${this.label} API error: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
 
+  async *chatStream(request: AIRequest): AsyncGenerator<AIStreamChunk> {
+    try {
+      const stream = await this.client.chat.completions.create({
+        ...this.buildParams(request),
+        stream: true,
+        stream_options: { include_usage: true },
+      });
+
+      let content = '';
+      let finishReason: string | undefined;
+      let usage: AIResponse['usage'];
+      // Tool call names and arguments arrive in fragments keyed by index
+      const toolCallParts = new Map<number, { id: string; name: string; arguments: string }>();
+
+      for await (const chunk of stream) {
+        if (chunk.usage) {
+          usage = {
+            promptTokens: chunk.usage.prompt_tokens,
+            completionTokens: chunk.usage.completion_tokens,
+            totalTokens: chunk.usage.total_tokens,
+          };
+        }
+
+        const choice = chunk.choices[0];
+        if (!choice) continue;
+
+        if (choice.delta.content) {
+          content += choice.delta.content;
+          yield { type: 'delta', content: choice.delta.content };
+        }
+
+        for (const toolCall of choice.delta.tool_calls || []) {
+          const part = toolCallParts.get(toolCall.index) || { id: '', name: '', arguments: '' };
+          part.id ||= toolCall.id || '';
+          part.name += toolCall.function?.name || '';
+          part.arguments += toolCall.function?.arguments || '';
+          toolCallParts.set(toolCall.index, part);
+        }
+
+        finishReason = choice.finish_reason || finishReason;
+      }
+
+      const toolCalls = Array.from(toolCallParts.values()).map(part => ({
+        id: part.id || undefined,
+        name: part.name,
+        parameters: parseToolArguments(part.arguments),
+      }));
+
+      yield {
+        type: 'done',
+        response: {
+          content,
+          toolCalls: toolCalls.length > 0 ? toolCalls : undefined,
+          usage,
+          finishReason,
+          provider: this.provider,
+          model: this.config.model,
+        },
+      };
+    } catch (error) {
+      console.error(`${this.label} API error:`, error);
+      throw new Error(`${this.label} API error: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  // Name used in logs and error messages
+  protected get label(): string {
+    return 'OpenAI';
+  }
+
+  protected buildParams(request: AIRequest): Omit<OpenAI.Chat.Completions.ChatCompletionCreateParamsNonStreaming, 'stream'> {
+    const messages = request.messages.map((msg): OpenAI.Chat.Completions.ChatCompletionMessageParam => {
+      if (msg.role === 'tool') {
+        return { role: 'tool', tool_call_id: msg.toolCallId || '', content: msg.content };
+      }
+      if (msg.role === 'assistant' && msg.toolCalls?.length) {
+        return {
+          role: 'assistant',
+          content: msg.content || null,
+          tool_calls: msg.toolCalls.map(toolCall => ({
+            id: toolCall.id || '',
+            type: 'function',
+            function: { name: toolCall.name, arguments: JSON.stringify(toolCall.parameters || {}) },
+          })),
+        };
+      }
+      return { role: msg.role, content: msg.content };
+    });
+
+    const tools: OpenAI.Chat.Completions.ChatCompletionTool[] | undefined = request.tools?.map(tool => ({
+      type: 'function',
+      function: {
+        name: tool.name,
+        description: tool.description,
+        parameters: tool.parameters,
+      },
+    }));
+
+    return {
+      model: this.config.model,
+      messages,
+      tools: tools?.length ? tools : undefined,
+      tool_choice: tools?.length ? 'auto' as const : undefined,
+      max_tokens: request.maxTokens || 4000,
+      temperature: request.temperature || 0.1,
+      response_format: request.responseFormat === 'json' ? { type: 'json_object' as const } : undefined,
+    };
+  }
+
   async isHealthy(): Promise<boolean> {
     try {
       const response = await this.client.chat.completions.create({
@@ -78,7 +170,7 @@ export class OpenAIProvider extends BaseAIProvider {
       });
       return !!response.choices[0];
     } catch (error) {
-      console.error('OpenAI health check error:', error instanceof Error ? error.message : error);
+      console.error(`${this.label} health check error:`, error instanceof Error ? error.message : error);
       return false;
     }
   }
@@ -1,12 +1,16 @@
-import { Router } from 'express';
+import { Router, Request, Response } from 'express';
 import { AIManager } from '../services/ai-manager';
 import { StartSitAnalyzer } from '../agents/start-sit-analyzer';
 import { TradeAnalyzer } from '../agents/trade-analyzer';
 import { WaiverWireAnalyzer } from '../agents/waiver-wire-analyzer';
 import { LineupOptimizer } from '../agents/lineup-optimizer';
+import { WeeklyRecapWriter } from '../agents/weekly-recap-writer';
+import { MatchupPreviewAnalyzer } from '../agents/matchup-preview-analyzer';
+import { DraftGrader } from '../agents/draft-grader';
+import { SeasonOutlookAnalyzer } from '../agents/season-outlook-analyzer';
 import { validateSchema } from '../utils/validation';
 import { z } from 'zod';
-import { AIProvider } from '../types/ai-providers';
+import { AIProvider, AnalysisStreamEvent } from '../types/ai-providers';
 
 const router = Router();
 
@@ -17,6 +21,7 @@ const StartSitRequestSchema = z.object({
   week: z.number().int().min(1).max(18),
   playerIds: z.array(z.string()).min(1),
   rosterSlots: z.array(z.string()).min(1),
+  scoringSettings: z.record(z.string(), z.number()).optional(),
   userPreferences: z.object({
     riskTolerance: z.enum(['conservative', 'moderate', 'aggressive']).optional(),
     prioritizeUpside: z.boolean().optional(),
@@ -63,6 +68,7 @@ const LineupOptimizerRequestSchema = z.object({
   week: z.number().int().min(1).max(18),
   availablePlayers: z.array(z.string()).min(1),
   rosterSlots: z.array(z.string()).min(1),
+  scoringSettings: z.record(z.string(), z.number()).optional(),
   userPreferences: z.object({
     riskTolerance: z.enum(['conservative', 'moderate', 'aggressive']).optional(),
     prioritizeFloor: z.boolean().optional(),
@@ -79,6 +85,159 @@ const LineupOptimizerRequestSchema = z.object({
   preferredProvider: z.nativeEnum(AIProvider).optional(),
 });
 
+const RecapTeamScoreSchema = z.object({
+  teamName: z.string().min(1),
+  points: z.number(),
+});
+
+const WeeklyRecapRequestSchema = z.object({
+  leagueName: z.string().min(1),
+  week: z.number().int().min(1).max(18),
+  matchups: z.array(z.object({
+    winner: RecapTeamScoreSchema,
+    loser: RecapTeamScoreSchema,
+    margin: z.number().min(0),
+    tie: z.boolean(),
+  })),
+  topPerformers: z.array(z.object({
+    playerName: z.string(),
+    position: z.string(),
+    nflTeam: z.string().nullable(),
+    teamName: z.string(),
+    points: z.number(),
+  })),
+  benchReports: z.array(z.object({
+    teamName: z.string(),
+    benchPoints: z.number(),
+    pointsLeftOnBench: z.number().min(0),
+    bestBenchPlayer: z.object({
+      playerName: z.string(),
+      position: z.string(),
+      points: z.number(),
+    }).nullable(),
+  })),
+  biggestUpset: z.object({
+    winner: RecapTeamScoreSchema.extend({ recordBefore: z.string() }),
+    loser: RecapTeamScoreSchema.extend({ recordBefore: z.string() }),
+    margin: z.number().min(0),
+  }).nullable(),
+  standings: z.array(z.object({
+    teamName: z.string(),
+    rank: z.number().int().min(1),
+    previousRank: z.number().int().min(1).nullable(),
+    record: z.string(),
+    pointsFor: z.number(),
+  })).min(1),
+  tone: z.enum(['professional', 'playful', 'roast']).optional(),
+  preferredProvider: z.nativeEnum(AIProvider).optional(),
+});
+
+const MatchupPreviewTeamSchema = z.object({
+  rosterId: z.number().int(),
+  teamName: z.string().min(1),
+  ownerName: z.string(),
+  starters: z.array(z.object({
+    playerId: z.string(),
+    name: z.string(),
+    position: z.string().nullable(),
+    nflTeam: z.string().nullable(),
+    slot: z.string().min(1),
+    projectedPoints: z.number(),
+    injuryStatus: z.string().nullable().optional(),
+  })),
+});
+
+const MatchupPreviewRequestSchema = z.object({
+  leagueName: z.string().min(1),
+  week: z.number().int().min(1).max(18),
+  teams: z.tuple([MatchupPreviewTeamSchema, MatchupPreviewTeamSchema]),
+  preferredProvider: z.nativeEnum(AIProvider).optional(),
+});
+
+const DraftGradePickSchema = z.object({
+  round: z.number().int().min(1),
+  pickNo: z.number().int().min(1),
+  playerName: z.string(),
+  position: z.string().nullable(),
+  expectedPick: z.number().int().min(1),
+  value: z.number(),
+  points: z.number().nullable(),
+});
+
+const DraftGradeRequestSchema = z.object({
+  leagueName: z.string().min(1),
+  season: z.string().min(1),
+  basis: z.enum(['adp', 'points']),
+  weeksPlayed: z.number().int().min(0),
+  teams: z.array(z.object({
+    rosterId: z.number().int(),
+    teamName: z.string().min(1),
+    grade: z.enum(['A+', 'A', 'A-', 'B+', 'B', 'B-', 'C+', 'C', 'C-', 'D+', 'D', 'F']),
+    score: z.number(),
+    steals: z.array(DraftGradePickSchema),
+    reaches: z.array(DraftGradePickSchema),
+    bestPick: DraftGradePickSchema.nullable(),
+    worstPick: DraftGradePickSchema.nullable(),
+  })).min(1),
+  preferredProvider: z.nativeEnum(AIProvider).optional(),
+});
+
+const SeasonOutlookActionSchema = z.object({
+  type: z.enum(['trade', 'waiver']),
+  position: z.string().min(1),
+  detail: z.string().min(1),
+});
+
+const SeasonOutlookRequestSchema = z.object({
+  leagueName: z.string().min(1),
+  teamName: z.string().min(1),
+  week: z.number().int().min(1).max(18),
+  teamCount: z.number().int().min(2),
+  playoffs: z.object({
+    record: z.object({
+      wins: z.number().int().min(0),
+      losses: z.number().int().min(0),
+      ties: z.number().int().min(0),
+    }),
+    projectedWins: z.number(),
+    playoffOdds: z.number().min(0).max(1),
+    byeOdds: z.number().min(0).max(1),
+    champOdds: z.number().min(0).max(1),
+    clinched: z.boolean(),
+    eliminated: z.boolean(),
+  }),
+  positions: z.array(z.object({
+    position: z.string().min(1),
+    starterSlots: z.number().int().min(1),
+    starterPoints: z.number(),
+    leagueRank: z.number().int().min(1),
+    players: z.array(z.object({
+      name: z.string(),
+      points: z.number(),
+      starter: z.boolean(),
+    })),
+  })),
+  schedule: z.object({
+    remainingGames: z.number().int().min(0),
+    averageOpponentScore: z.number(),
+    leagueAverageScore: z.number(),
+    difficultyRank: z.number().int().min(1),
+    games: z.array(z.object({
+      week: z.number().int().min(1),
+      opponent: z.string(),
+      opponentAverage: z.number(),
+    })),
+  }),
+  byeWeeks: z.array(z.object({
+    week: z.number().int().min(1),
+    starters: z.array(z.object({ name: z.string(), position: z.string() })),
+  })),
+  strengths: z.array(z.string()),
+  weaknesses: z.array(z.string()),
+  candidateActions: z.array(SeasonOutlookActionSchema),
+  preferredProvider: z.nativeEnum(AIProvider).optional(),
+});
+
 const QuickAnalysisSchema = z.object({
   playerId: z.string().min(1),
   leagueId: z.string().min(1),
@@ -87,11 +246,109 @@ const QuickAnalysisSchema = z.object({
   preferredProvider: z.nativeEnum(AIProvider).optional(),
 });
 
+function writeEvent(res: Response, event: string, data: unknown): void {
+  res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+}
+
+/**
+ * Serve an agent stream as Server-Sent Events: `delta` events carry model text
+ * as it is written, then one `result` or `error` event with the usual response
+ * envelope closes the stream. Validation failures still get a 400 JSON reply
+ * because `start` throws before any event is written.
+ */
+async function sendAnalysisStream<T>(
+  req: Request,
+  res: Response,
+  label: string,
+  start: () => AsyncIterable<AnalysisStreamEvent<T>>
+): Promise<void> {
+  const metadata = () => ({
+    timestamp: new Date().toISOString(),
+    requestId: req.headers['x-request-id'] || 'unknown',
+    version: '1.0.0',
+  });
+
+  let events: AsyncIterable<AnalysisStreamEvent<T>>;
+  try {
+    events = start();
+  } catch (error) {
+    console.error(`${label} error:`, error);
+    res.status(400).json({
+      success: false,
+      error: {
+        code: 'AI_SERVICE_ERROR',
+        message: error instanceof Error ? error.message : `${label} failed`,
+      },
+      metadata: metadata(),
+    });
+    return;
+  }
+
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    // no-transform keeps the compression middleware from buffering the stream
+    'Cache-Control': 'no-cache, no-transform',
+    Connection: 'keep-alive',
+  });
+
+  let disconnected = false;
+  res.on('close', () => {
+    disconnected = !res.writableEnded;
+  });
+
+  try {
+    for await (const event of events) {
+      // Leaving the loop ends the agent generator, which stops the provider stream
+      if (disconnected) break;
+
+      if (event.type === 'delta') {
+        writeEvent(res, 'delta', { content: event.content });
+      } else {
+        writeEvent(res, 'result', {
+          success: true,
+          data: event.data,
+          metadata: {
+            ...metadata(),
+            processingTime: Date.now() - parseInt(req.headers['x-start-time'] as string || '0'),
+          },
+        });
+      }
+    }
+  } catch (error) {
+    console.error(`${label} error:`, error);
+    writeEvent(res, 'error', {
+      success: false,
+      error: {
+        code: 'AI_SERVICE_ERROR',
+        message: error instanceof Error ? error.message : `${label} failed`,
+      },
+      metadata: metadata(),
+    });
+  }
+
+  res.end();
+}
+
+function toTradeRequest(request: z.infer<typeof TradeRequestSchema>) {
+  // Convert deadline string to Date if provided
+  return {
+    ...request,
+    tradeContext: request.tradeContext ? {
+      ...request.tradeContext,
+      deadline: request.tradeContext.deadline ? new Date(request.tradeContext.deadline) : undefined,
+    } : undefined,
+  };
+}
+
 export function createAIRoutes(aiManager: AIManager): Router {
   const startSitAnalyzer = new StartSitAnalyzer(aiManager);
   const tradeAnalyzer = new TradeAnalyzer(aiManager);
   const waiverWireAnalyzer = new WaiverWireAnalyzer(aiManager);
   const lineupOptimizer = new LineupOptimizer(aiManager);
+  const weeklyRecapWriter = new WeeklyRecapWriter(aiManager);
+  const matchupPreviewAnalyzer = new MatchupPreviewAnalyzer(aiManager);
+  const draftGrader = new DraftGrader(aiManager);
+  const seasonOutlookAnalyzer = new SeasonOutlookAnalyzer(aiManager);
 
   /**
    * POST /ai/start-sit
@@ -132,6 +389,18 @@ export function createAIRoutes(aiManager: AIManager): Router {
     }
   });
 
+  /**
+   * POST /ai/start-sit/stream
+   * Start/sit analysis streamed over Server-Sent Events
+   */
+  router.post('/start-sit/stream', async (req, res) => {
+    await sendAnalysisStream(req, res, 'Start/Sit analysis', () => {
+      const request = validateSchema(StartSitRequestSchema, req.body);
+      console.log(`Streaming start/sit analysis requested for user ${request.userId}`);
+      return startSitAnalyzer.streamStartSit(request, request.preferredProvider);
+    });
+  });
+
   /**
    * POST /ai/trade-analysis
    * Analyze a proposed trade between two teams
@@ -142,16 +411,7 @@ export function createAIRoutes(aiManager: AIManager): Router {
       
       console.log(`Trade analysis requested between ${request.team1UserId} and ${request.team2UserId}`);
       
-      // Convert deadline string to Date if provided
-      const processedRequest = {
-        ...request,
-        tradeContext: request.tradeContext ? {
-          ...request.tradeContext,
-          deadline: request.tradeContext.deadline ? new Date(request.tradeContext.deadline) : undefined,
-        } : undefined,
-      };
-      
-      const analysis = await tradeAnalyzer.analyzeTrade(processedRequest, request.preferredProvider);
+      const analysis = await tradeAnalyzer.analyzeTrade(toTradeRequest(request), request.preferredProvider);
       
       res.json({
         success: true,
@@ -180,6 +440,18 @@ export function createAIRoutes(aiManager: AIManager): Router {
     }
   });
 
+  /**
+   * POST /ai/trade-analysis/stream
+   * Trade analysis streamed over Server-Sent Events
+   */
+  router.post('/trade-analysis/stream', async (req, res) => {
+    await sendAnalysisStream(req, res, 'Trade analysis', () => {
+      const request = validateSchema(TradeRequestSchema, req.body);
+      console.log(`Streaming trade analysis requested between ${request.team1UserId} and ${request.team2UserId}`);
+      return tradeAnalyzer.streamTrade(toTradeRequest(request), request.preferredProvider);
+    });
+  });
+
   /**
    * POST /ai/waiver-wire
    * Analyze waiver wire opportunities for a user
@@ -258,6 +530,174 @@ export function createAIRoutes(aiManager: AIManager): Router {
     }
   });
 
+  /**
+   * POST /ai/lineup-optimizer/stream
+   * Lineup optimization streamed over Server-Sent Events
+   */
+  router.post('/lineup-optimizer/stream', async (req, res) => {
+    await sendAnalysisStream(req, res, 'Lineup optimization', () => {
+      const request = validateSchema(LineupOptimizerRequestSchema, req.body);
+      console.log(`Streaming lineup optimization requested for user ${request.userId}`);
+      return lineupOptimizer.streamLineup(request, request.preferredProvider);
+    });
+  });
+
+  /**
+   * POST /ai/weekly-recap
+   * Write the league newsletter for a completed week from its computed results
+   */
+  router.post('/weekly-recap', async (req, res) => {
+    try {
+      const request = validateSchema(WeeklyRecapRequestSchema, req.body);
+
+      console.log(`Weekly recap requested for ${request.leagueName}, week ${request.week}`);
+
+      const recap = await weeklyRecapWriter.writeRecap(request, request.preferredProvider);
+
+      res.json({
+        success: true,
+        data: recap,
+        metadata: {
+          timestamp: new Date().toISOString(),
+          requestId: req.headers['x-request-id'] || 'unknown',
+          version: '1.0.0',
+          processingTime: Date.now() - parseInt(req.headers['x-start-time'] as string || '0'),
+        },
+      });
+    } catch (error) {
+      console.error('Weekly recap error:', error);
+      res.status(400).json({
+        success: false,
+        error: {
+          code: 'AI_SERVICE_ERROR',
+          message: error instanceof Error ? error.message : 'Weekly recap failed',
+        },
+        metadata: {
+          timestamp: new Date().toISOString(),
+          requestId: req.headers['x-request-id'] || 'unknown',
+          version: '1.0.0',
+        },
+      });
+    }
+  });
+
+  /**
+   * POST /ai/matchup-preview
+   * Preview a head-to-head matchup from both starting lineups
+   */
+  router.post('/matchup-preview', async (req, res) => {
+    try {
+      const request = validateSchema(MatchupPreviewRequestSchema, req.body);
+
+      console.log(`Matchup preview requested for ${request.leagueName}, week ${request.week}`);
+
+      const preview = await matchupPreviewAnalyzer.previewMatchup(request, request.preferredProvider);
+
+      res.json({
+        success: true,
+        data: preview,
+        metadata: {
+          timestamp: new Date().toISOString(),
+          requestId: req.headers['x-request-id'] || 'unknown',
+          version: '1.0.0',
+          processingTime: Date.now() - parseInt(req.headers['x-start-time'] as string || '0'),
+        },
+      });
+    } catch (error) {
+      console.error('Matchup preview error:', error);
+      res.status(400).json({
+        success: false,
+        error: {
+          code: 'AI_SERVICE_ERROR',
+          message: error instanceof Error ? error.message : 'Matchup preview failed',
+        },
+        metadata: {
+          timestamp: new Date().toISOString(),
+          requestId: req.headers['x-request-id'] || 'unknown',
+          version: '1.0.0',
+        },
+      });
+    }
+  });
+
+  /**
+   * POST /ai/draft-grades
+   * Write the draft report card for grades computed by the caller
+   */
+  router.post('/draft-grades', async (req, res) => {
+    try {
+      const request = validateSchema(DraftGradeRequestSchema, req.body);
+
+      console.log(`Draft grades requested for ${request.leagueName}, ${request.season}`);
+
+      const narrative = await draftGrader.writeDraftGrades(request, request.preferredProvider);
+
+      res.json({
+        success: true,
+        data: narrative,
+        metadata: {
+          timestamp: new Date().toISOString(),
+          requestId: req.headers['x-request-id'] || 'unknown',
+          version: '1.0.0',
+          processingTime: Date.now() - parseInt(req.headers['x-start-time'] as string || '0'),
+        },
+      });
+    } catch (error) {
+      console.error('Draft grades error:', error);
+      res.status(400).json({
+        success: false,
+        error: {
+          code: 'AI_SERVICE_ERROR',
+          message: error instanceof Error ? error.message : 'Draft grading failed',
+        },
+        metadata: {
+          timestamp: new Date().toISOString(),
+          requestId: req.headers['x-request-id'] || 'unknown',
+          version: '1.0.0',
+        },
+      });
+    }
+  });
+
+  /**
+   * POST /ai/season-outlook
+   * Write a team's rest-of-season outlook from its depth, schedule, byes and playoff odds
+   */
+  router.post('/season-outlook', async (req, res) => {
+    try {
+      const request = validateSchema(SeasonOutlookRequestSchema, req.body);
+
+      console.log(`Season outlook requested for ${request.teamName} in ${request.leagueName}, week ${request.week}`);
+
+      const outlook = await seasonOutlookAnalyzer.writeOutlook(request, request.preferredProvider);
+
+      res.json({
+        success: true,
+        data: outlook,
+        metadata: {
+          timestamp: new Date().toISOString(),
+          requestId: req.headers['x-request-id'] || 'unknown',
+          version: '1.0.0',
+          processingTime: Date.now() - parseInt(req.headers['x-start-time'] as string || '0'),
+        },
+      });
+    } catch (error) {
+      console.error('Season outlook error:', error);
+      res.status(400).json({
+        success: false,
+        error: {
+          code: 'AI_SERVICE_ERROR',
+          message: error instanceof Error ? error.message : 'Season outlook failed',
+        },
+        metadata: {
+          timestamp: new Date().toISOString(),
+          requestId: req.headers['x-request-id'] || 'unknown',
+          version: '1.0.0',
+        },
+      });
+    }
+  });
+
   /**
    * POST /ai/quick-analysis
    * Get a quick analysis for a single player
@@ -394,7 +834,7 @@ export function createAIRoutes(aiManager: AIManager): Router {
         });
       }
       
-      const recommendations = await waiverWireAnalyzer.getStreamingRecommendations(
+      const streaming = await waiverWireAnalyzer.getStreamingRecommendations(
         position,
         leagueId,
         week,
@@ -406,7 +846,7 @@ export function createAIRoutes(aiManager: AIManager): Router {
         data: {
           position,
           week,
-          recommendations,
+          ...streaming,
         },
         metadata: {
           timestamp: new Date().toISOString(),
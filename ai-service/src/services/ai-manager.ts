@@ -1,9 +1,25 @@
 import { Redis } from 'ioredis';
-import { BaseAIProvider, AIProvider, AIRequest, AIResponse, ProviderConfigs, AITool } from '../types/ai-providers';
+import {
+  BaseAIProvider,
+  AIProvider,
+  AIRequest,
+  AIResponse,
+  AIStreamChunk,
+  AIMessage,
+  AIToolCall,
+  AIToolCallTrace,
+  AIToolLoopTrace,
+  ProviderConfigs,
+  AITool,
+  MCPResponse,
+} from '../types/ai-providers';
 import { OpenAIProvider } from '../providers/openai-provider';
 import { ClaudeProvider } from '../providers/claude-provider';
 import { GeminiProvider } from '../providers/gemini-provider';
+import { LocalProvider } from '../providers/local-provider';
+import { MockProvider } from '../providers/mock-provider';
 import { MCPClient } from './mcp-client';
+import { flattenToolMessages } from '../utils/tool-calls';
 
 export interface AIManagerConfig {
   providers: ProviderConfigs;
@@ -13,6 +29,12 @@ export interface AIManagerConfig {
     baseURL: string;
     timeout?: number;
     retries?: number;
+    sleeperBaseURL?: string;
+  };
+  // Bounds on the tool-calling loop: model turns (including the final answer) and tokens summed across turns
+  toolLoop?: {
+    maxIterations: number;
+    maxTokens: number;
   };
   redis?: {
     host: string;
@@ -25,6 +47,9 @@ export interface AIManagerConfig {
   };
 }
 
+// Tool results beyond this are cut so one large payload can't crowd out the rest of the conversation
+const MAX_TOOL_RESULT_CHARS = 12000;
+
 export class AIManager {
   private providers: Map<AIProvider, BaseAIProvider> = new Map();
   private mcpClient: MCPClient;
@@ -85,6 +110,23 @@ export class AIManager {
         new GeminiProvider(this.config.providers[AIProvider.GEMINI])
       );
     }
+
+    // Initialize local OpenAI-compatible provider
+    if (this.config.providers[AIProvider.LOCAL]) {
+      this.providers.set(
+        AIProvider.LOCAL,
+        new LocalProvider(this.config.providers[AIProvider.LOCAL])
+      );
+    }
+
+    // Initialize mock provider last, since record mode wraps one of the real providers
+    const mockConfig = this.config.providers[AIProvider.MOCK];
+    if (mockConfig) {
+      const recorder = mockConfig.mode === 'record' && mockConfig.recordProvider
+        ? this.providers.get(mockConfig.recordProvider)
+        : undefined;
+      this.providers.set(AIProvider.MOCK, new MockProvider(mockConfig, recorder));
+    }
   }
 
   async initialize(): Promise<void> {
@@ -129,7 +171,25 @@ export class AIManager {
     }
   }
 
-  async chat(
+  /**
+   * Send a chat request through the preferred provider, falling back in order.
+   * With `stream: true` the response comes back as an async iterator of text
+   * deltas ending in a `done` chunk with the assembled response.
+   */
+  chat(request: AIRequest & { stream: true }, preferredProvider?: AIProvider, enableMCP?: boolean): AsyncIterable<AIStreamChunk>;
+  chat(request: AIRequest, preferredProvider?: AIProvider, enableMCP?: boolean): Promise<AIResponse>;
+  chat(
+    request: AIRequest,
+    preferredProvider?: AIProvider,
+    enableMCP: boolean = true
+  ): Promise<AIResponse> | AsyncIterable<AIStreamChunk> {
+    if (request.stream) {
+      return this.streamChat(request, preferredProvider, enableMCP);
+    }
+    return this.completeChat(request, preferredProvider, enableMCP);
+  }
+
+  private async completeChat(
     request: AIRequest,
     preferredProvider?: AIProvider,
     enableMCP: boolean = true
@@ -151,14 +211,7 @@ export class AIManager {
 
     // Add MCP tools if enabled
     if (enableMCP) {
-      const mcpTools = this.mcpClient.getAvailableTools();
-      const aiTools: AITool[] = mcpTools.map(tool => ({
-        name: tool.name,
-        description: tool.description,
-        parameters: tool.inputSchema,
-      }));
-      
-      request.tools = [...(request.tools || []), ...aiTools];
+      this.addMCPTools(request);
     }
 
     const providersToTry = this.getProvidersInOrder(preferredProvider);
@@ -170,25 +223,15 @@ export class AIManager {
 
       try {
         console.log(`Attempting AI request with ${providerType} provider`);
-        let response = await provider.chat(request);
-
-        // Handle tool calls if present
-        if (response.toolCalls && response.toolCalls.length > 0 && enableMCP) {
-          response = await this.handleToolCalls(response, request, provider);
+        const loop = this.runToolLoop(provider, request, false, enableMCP);
+        let next = await loop.next();
+        while (!next.done) {
+          next = await loop.next();
         }
+        const response = next.value;
 
         // Cache successful response
-        if (this.redis && this.config.caching?.enabled) {
-          try {
-            await this.redis.setex(
-              cacheKey,
-              this.config.caching.defaultTTL,
-              JSON.stringify(response)
-            );
-          } catch (error) {
-            console.warn('Cache write failed:', error);
-          }
-        }
+        await this.cacheResponse(cacheKey, request, response);
 
         console.log(`AI request successful with ${providerType} provider`);
         return response;
@@ -202,53 +245,242 @@ export class AIManager {
     throw lastError || new Error('All AI providers failed');
   }
 
-  private async handleToolCalls(
-    response: AIResponse,
-    originalRequest: AIRequest,
-    provider: BaseAIProvider
-  ): Promise<AIResponse> {
-    if (!response.toolCalls || response.toolCalls.length === 0) {
-      return response;
+  private async *streamChat(
+    request: AIRequest,
+    preferredProvider?: AIProvider,
+    enableMCP: boolean = true
+  ): AsyncGenerator<AIStreamChunk> {
+    const cacheKey = this.generateCacheKey(request, preferredProvider);
+
+    // A cached response is replayed as a single delta
+    if (this.redis && this.config.caching?.enabled) {
+      try {
+        const cached = await this.redis.get(cacheKey);
+        if (cached) {
+          console.log('Returning cached AI response');
+          const response: AIResponse = JSON.parse(cached);
+          yield { type: 'delta', content: response.content };
+          yield { type: 'done', response };
+          return;
+        }
+      } catch (error) {
+        console.warn('Cache read failed:', error);
+      }
     }
 
-    console.log(`Executing ${response.toolCalls.length} tool calls`);
-    
-    // Execute MCP tool calls
-    const toolResults = await this.mcpClient.callMultipleTools(
-      response.toolCalls.map(tc => ({ name: tc.name, arguments: tc.parameters }))
-    );
+    if (enableMCP) {
+      this.addMCPTools(request);
+    }
 
-    // Create follow-up request with tool results
-    const toolResultsMessage = {
-      role: 'user' as const,
-      content: `Tool execution results:\n${toolResults.map((result, i) => {
-        const toolCall = response.toolCalls![i];
-        if (result.isError) {
-          return `${toolCall.name}: Error - ${result.errorMessage}`;
+    const providersToTry = this.getProvidersInOrder(preferredProvider);
+    let lastError: Error | null = null;
+
+    for (const providerType of providersToTry) {
+      const provider = this.providers.get(providerType);
+      if (!provider) continue;
+
+      // Once text has reached the caller, switching providers would garble the stream
+      let streamed = false;
+
+      try {
+        console.log(`Attempting streaming AI request with ${providerType} provider`);
+        const loop = this.runToolLoop(provider, request, true, enableMCP);
+        let next = await loop.next();
+        while (!next.done) {
+          streamed = true;
+          yield next.value;
+          next = await loop.next();
         }
-        return `${toolCall.name}: ${JSON.stringify(result.content, null, 2)}`;
-      }).join('\n\n')}\n\nPlease analyze these results and provide insights.`,
-    };
+        const response = next.value;
 
-    const followUpRequest: AIRequest = {
-      messages: [...originalRequest.messages, 
-        { role: 'assistant', content: response.content },
-        toolResultsMessage
-      ],
-      maxTokens: originalRequest.maxTokens,
-      temperature: originalRequest.temperature,
-    };
+        await this.cacheResponse(cacheKey, request, response);
+
+        console.log(`Streaming AI request successful with ${providerType} provider`);
+        yield { type: 'done', response };
+        return;
+      } catch (error) {
+        lastError = error instanceof Error ? error : new Error(String(error));
+        console.error(`${providerType} provider failed:`, lastError.message);
+        if (streamed) {
+          throw lastError;
+        }
+      }
+    }
 
-    // Get final response with tool results analyzed
-    const finalResponse = await provider.chat(followUpRequest);
+    throw lastError || new Error('All AI providers failed');
+  }
+
+  private addMCPTools(request: AIRequest): void {
+    const mcpTools = this.mcpClient.getAvailableTools();
+    const aiTools: AITool[] = mcpTools.map(tool => ({
+      name: tool.name,
+      description: tool.description,
+      parameters: tool.inputSchema,
+    }));
     
-    return {
-      ...finalResponse,
-      toolCalls: response.toolCalls, // Keep original tool calls for reference
-    };
+    request.tools = [...(request.tools || []), ...aiTools];
+  }
+
+  private async cacheResponse(cacheKey: string, request: AIRequest, response: AIResponse): Promise<void> {
+    if (request.cacheIf && !request.cacheIf(response)) {
+      return;
+    }
+    if (this.redis && this.config.caching?.enabled) {
+      try {
+        await this.redis.setex(
+          cacheKey,
+          this.config.caching.defaultTTL,
+          JSON.stringify(response)
+        );
+      } catch (error) {
+        console.warn('Cache write failed:', error);
+      }
+    }
+  }
+
+  /**
+   * Let the model fetch what it needs: each turn's tool calls are run through
+   * the MCP client (or the Sleeper API when MCP is down) and the results go
+   * back as tool messages, until the model answers without tools or the
+   * iteration/token budget runs out and it is told to answer with what it has.
+   * That last turn offers no tools, so the tool turns are sent as plain text.
+   * Text deltas of every turn are yielded when streaming.
+   */
+  private async *runToolLoop(
+    provider: BaseAIProvider,
+    request: AIRequest,
+    streaming: boolean,
+    enableMCP: boolean
+  ): AsyncGenerator<AIStreamChunk, AIResponse> {
+    if (!enableMCP || !request.tools || request.tools.length === 0) {
+      return yield* this.providerTurn(provider, request, streaming);
+    }
+
+    const maxIterations = Math.max(2, this.config.toolLoop?.maxIterations ?? 5);
+    const maxTokens = this.config.toolLoop?.maxTokens ?? 20000;
+    const toolNames = new Set(request.tools.map(tool => tool.name));
+    const messages: AIMessage[] = [...request.messages];
+    const calls: AIToolCallTrace[] = [];
+    const executed: AIToolCall[] = [];
+    const usage = { promptTokens: 0, completionTokens: 0, totalTokens: 0 };
+    let stopReason: AIToolLoopTrace['stopReason'] = 'completed';
+
+    for (let iteration = 1; ; iteration++) {
+      const offerTools = stopReason === 'completed';
+      const response = yield* this.providerTurn(provider, {
+        ...request,
+        messages: offerTools ? [...messages] : flattenToolMessages(messages),
+        tools: offerTools ? request.tools : undefined,
+      }, streaming);
+
+      usage.promptTokens += response.usage?.promptTokens || 0;
+      usage.completionTokens += response.usage?.completionTokens || 0;
+      usage.totalTokens += response.usage?.totalTokens || 0;
+
+      // Gemini doesn't number its calls; results are matched to calls by id
+      const toolCalls: AIToolCall[] = (offerTools ? response.toolCalls || [] : []).map((toolCall, i) => ({
+        ...toolCall,
+        id: toolCall.id || `call_${iteration}_${i + 1}`,
+      }));
+      if (toolCalls.length === 0) {
+        if (calls.length === 0) {
+          return response;
+        }
+        return {
+          ...response,
+          usage,
+          toolCalls: executed,
+          toolTrace: { iterations: iteration, totalTokens: usage.totalTokens, stopReason, calls },
+        };
+      }
+
+      console.log(`Executing ${toolCalls.length} tool calls (iteration ${iteration})`);
+      const results = await Promise.all(toolCalls.map(async toolCall => {
+        const started = Date.now();
+        const result: MCPResponse = toolNames.has(toolCall.name)
+          ? await this.mcpClient.callTool({ name: toolCall.name, arguments: toolCall.parameters || {} })
+          : { content: null, isError: true, errorMessage: `Unknown tool: ${toolCall.name}` };
+        return { ...result, durationMs: Date.now() - started };
+      }));
+
+      results.forEach((result, i) => calls.push({
+        iteration,
+        name: toolCalls[i].name,
+        parameters: toolCalls[i].parameters || {},
+        source: result.source || 'mcp',
+        isError: !!result.isError,
+        errorMessage: result.errorMessage,
+        durationMs: result.durationMs,
+      }));
+      executed.push(...toolCalls);
+
+      if (iteration + 1 >= maxIterations) {
+        stopReason = 'max_iterations';
+      } else if (usage.totalTokens >= maxTokens) {
+        stopReason = 'max_tokens';
+      }
+
+      messages.push(
+        { role: 'assistant', content: response.content, toolCalls },
+        ...results.map((result, i): AIMessage => ({
+          role: 'tool',
+          content: this.formatToolResult(result),
+          toolCallId: toolCalls[i].id,
+          toolName: toolCalls[i].name,
+          isError: !!result.isError,
+        }))
+      );
+      if (stopReason !== 'completed') {
+        messages.push({
+          role: 'user',
+          content: 'The tool budget for this request is used up. Give your final answer now in the requested format, using the data above.',
+        });
+      }
+    }
+  }
+
+  private async *providerTurn(
+    provider: BaseAIProvider,
+    request: AIRequest,
+    streaming: boolean
+  ): AsyncGenerator<AIStreamChunk, AIResponse> {
+    if (!streaming) {
+      return provider.chat(request);
+    }
+
+    let response: AIResponse | undefined;
+    for await (const chunk of provider.chatStream(request)) {
+      if (chunk.type === 'delta') {
+        yield chunk;
+      } else {
+        response = chunk.response;
+      }
+    }
+
+    if (!response) {
+      throw new Error(`${provider.provider} stream ended without a response`);
+    }
+    return response;
+  }
+
+  private formatToolResult(result: MCPResponse): string {
+    if (result.isError) {
+      return `Error - ${result.errorMessage}`;
+    }
+
+    const content = JSON.stringify(result.content) ?? 'null';
+    if (content.length <= MAX_TOOL_RESULT_CHARS) {
+      return content;
+    }
+    return `${content.slice(0, MAX_TOOL_RESULT_CHARS)}... [truncated; narrow the call, e.g. with player_ids]`;
   }
 
   private getProvidersInOrder(preferredProvider?: AIProvider): AIProvider[] {
+    // In mock mode the mock answers everything, even when a caller prefers the provider it records from
+    if (this.providers.has(AIProvider.MOCK)) {
+      return [AIProvider.MOCK];
+    }
+
     const providers: AIProvider[] = [];
     
     // Add preferred provider first if specified and available
@@ -277,6 +509,7 @@ export class AIManager {
       messages: request.messages,
       maxTokens: request.maxTokens,
       temperature: request.temperature,
+      responseFormat: request.responseFormat || 'text',
       provider: preferredProvider || this.config.defaultProvider,
     };
     
@@ -314,6 +547,10 @@ export class AIManager {
     return this.mcpClient.getAvailableTools().map(tool => tool.name);
   }
 
+  async callTool(name: string, args: Record<string, any> = {}): Promise<MCPResponse> {
+    return this.mcpClient.callTool({ name, arguments: args });
+  }
+
   async destroy(): Promise<void> {
     if (this.redis) {
       await this.redis.disconnect();
@@ -1,19 +1,25 @@
 import axios, { AxiosInstance } from 'axios';
 import { MCPTool, MCPToolCall, MCPResponse } from '../types/ai-providers';
+import { SleeperToolAdapter } from './sleeper-tool-adapter';
 
 export interface MCPClientConfig {
   baseURL: string;
   timeout?: number;
   retries?: number;
+  sleeperBaseURL?: string;
 }
 
 export class MCPClient {
   private client: AxiosInstance;
   private config: MCPClientConfig;
   private availableTools: MCPTool[] = [];
+  // False until the MCP server has answered; until then the Sleeper API serves the default tools
+  private connected = false;
+  private sleeperAdapter: SleeperToolAdapter;
 
-  constructor(config: MCPClientConfig) {
+  constructor(config: MCPClientConfig, sleeperAdapter?: SleeperToolAdapter) {
     this.config = config;
+    this.sleeperAdapter = sleeperAdapter || new SleeperToolAdapter(config.sleeperBaseURL, config.timeout);
     this.client = axios.create({
       baseURL: config.baseURL,
       timeout: config.timeout || 30000,
@@ -95,11 +101,12 @@ export class MCPClient {
           required: method.params?.filter((p: any) => p.required).map((p: any) => p.name) || [],
         },
       })) || [];
+      this.connected = true;
 
       console.log('Available MCP tools:', this.availableTools.map(t => t.name));
     } catch (error) {
       console.error('Failed to load MCP tools:', error);
-      // Fallback to hardcoded tools based on your MCP server
+      // Fallback to hardcoded tools based on your MCP server, served by the Sleeper API
       this.availableTools = this.getDefaultSleeperTools();
     }
   }
@@ -186,10 +193,12 @@ export class MCPClient {
       },
       {
         name: 'get_players_nfl',
-        description: 'Get all NFL players data',
+        description: 'Get NFL player data (name, position, team, status). Pass player_ids to limit the result',
         inputSchema: {
           type: 'object',
-          properties: {},
+          properties: {
+            player_ids: { type: 'array', description: 'Sleeper player IDs to return (optional)' },
+          },
           required: [],
         },
       },
@@ -204,6 +213,7 @@ export class MCPClient {
             season_type: { type: 'string', description: 'regular or post', enum: ['regular', 'post'] },
             week: { type: 'number', description: 'Week number (optional for season stats)' },
             position: { type: 'string', description: 'Player position filter (optional)' },
+            player_ids: { type: 'array', description: 'Sleeper player IDs to return (optional)' },
           },
           required: ['sport', 'season', 'season_type'],
         },
@@ -217,6 +227,7 @@ export class MCPClient {
             sport: { type: 'string', description: 'Sport (nfl)', enum: ['nfl'] },
             season: { type: 'string', description: 'Season year' },
             week: { type: 'number', description: 'Week number' },
+            player_ids: { type: 'array', description: 'Sleeper player IDs to return (optional)' },
           },
           required: ['sport', 'season', 'week'],
         },
@@ -225,6 +236,10 @@ export class MCPClient {
   }
 
   async callTool(toolCall: MCPToolCall): Promise<MCPResponse> {
+    if (!this.connected && this.sleeperAdapter.supports(toolCall.name)) {
+      return this.sleeperAdapter.callTool(toolCall);
+    }
+
     try {
       console.log(`Calling MCP tool: ${toolCall.name} with args:`, toolCall.arguments);
       
@@ -240,12 +255,14 @@ export class MCPClient {
           content: null,
           isError: true,
           errorMessage: response.data.error.message || 'Unknown MCP error',
+          source: 'mcp',
         };
       }
 
       return {
         content: response.data.result,
         isError: false,
+        source: 'mcp',
       };
     } catch (error) {
       console.error(`MCP tool call failed for ${toolCall.name}:`, error);
@@ -253,6 +270,7 @@ export class MCPClient {
         content: null,
         isError: true,
         errorMessage: error instanceof Error ? error.message : 'Unknown error',
+        source: 'mcp',
       };
     }
   }
@@ -0,0 +1,89 @@
+import axios, { AxiosInstance } from 'axios';
+import { MCPToolCall, MCPResponse } from '../types/ai-providers';
+
+type ToolHandler = (args: Record<string, any>) => Promise<any>;
+
+/**
+ * Runs the default Sleeper tools straight against the public Sleeper API, so
+ * agents can still fetch league data when the MCP server is not reachable.
+ * Player-keyed results can be narrowed with `player_ids` to keep tool results
+ * small enough to hand back to the model.
+ */
+export class SleeperToolAdapter {
+  private client: AxiosInstance;
+  private handlers: Record<string, ToolHandler>;
+
+  constructor(baseURL: string = 'https://api.sleeper.app/v1', timeout: number = 30000) {
+    this.client = axios.create({ baseURL, timeout });
+
+    this.handlers = {
+      get_nfl_state: () => this.get('/state/nfl'),
+      get_user: (args) => this.get(`/user/${args.username}`),
+      get_user_leagues: (args) => this.get(`/user/${args.user_id}/leagues/${args.sport || 'nfl'}/${args.season}`),
+      get_league: (args) => this.get(`/league/${args.league_id}`),
+      get_league_rosters: (args) => this.get(`/league/${args.league_id}/rosters`),
+      get_league_users: (args) => this.get(`/league/${args.league_id}/users`),
+      get_league_matchups: (args) => this.get(`/league/${args.league_id}/matchups/${args.week}`),
+      get_players_nfl: async (args) => this.pickPlayers(await this.get('/players/nfl'), args.player_ids),
+      get_player_stats: async (args) => this.pickPlayers(
+        await this.get(this.seasonPath('/stats', args)),
+        args.player_ids
+      ),
+      get_projections: async (args) => this.pickPlayers(
+        await this.get(this.seasonPath('/projections', args)),
+        args.player_ids
+      ),
+    };
+  }
+
+  supports(toolName: string): boolean {
+    return toolName in this.handlers;
+  }
+
+  async callTool(toolCall: MCPToolCall): Promise<MCPResponse> {
+    const handler = this.handlers[toolCall.name];
+    if (!handler) {
+      return {
+        content: null,
+        isError: true,
+        errorMessage: `Unknown Sleeper tool: ${toolCall.name}`,
+        source: 'sleeper',
+      };
+    }
+
+    try {
+      console.log(`Calling Sleeper API for tool: ${toolCall.name} with args:`, toolCall.arguments);
+      return { content: await handler(toolCall.arguments || {}), isError: false, source: 'sleeper' };
+    } catch (error) {
+      console.error(`Sleeper tool call failed for ${toolCall.name}:`, error instanceof Error ? error.message : error);
+      return {
+        content: null,
+        isError: true,
+        errorMessage: error instanceof Error ? error.message : 'Unknown error',
+        source: 'sleeper',
+      };
+    }
+  }
+
+  private async get(path: string): Promise<any> {
+    const response = await this.client.get(path);
+    return response.data;
+  }
+
+  private seasonPath(prefix: string, args: Record<string, any>): string {
+    let path = `${prefix}/${args.sport || 'nfl'}/${args.season}`;
+    if (args.season_type) path += `/${args.season_type}`;
+    if (args.week) path += `/${args.week}`;
+    return path;
+  }
+
+  private pickPlayers(data: Record<string, any>, playerIds?: string[] | string): Record<string, any> {
+    if (!playerIds || !data) return data;
+
+    const ids = Array.isArray(playerIds) ? playerIds : String(playerIds).split(',').map(id => id.trim());
+    return ids.reduce((picked, id) => {
+      if (data[id] !== undefined) picked[id] = data[id];
+      return picked;
+    }, {} as Record<string, any>);
+  }
+}
@@ -3,24 +3,52 @@ import { z } from 'zod';
 export enum AIProvider {
   OPENAI = 'openai',
   CLAUDE = 'claude',
-  GEMINI = 'gemini'
+  GEMINI = 'gemini',
+  LOCAL = 'local',
+  MOCK = 'mock'
 }
 
 export const AIProviderSchema = z.nativeEnum(AIProvider);
 
+// Tool turns of an agent loop: an assistant message carries the calls it made,
+// and each result goes back as a 'tool' message answering one of them
 export interface AIMessage {
-  role: 'system' | 'user' | 'assistant';
+  role: 'system' | 'user' | 'assistant' | 'tool';
   content: string;
+  toolCalls?: AIToolCall[];
+  toolCallId?: string;
+  toolName?: string;
+  isError?: boolean;
 }
 
 export interface AIToolCall {
+  id?: string; // The provider's id for the call, which its result must refer back to
+  name: string;
+  parameters: Record<string, any>;
+}
+
+// One tool the model asked for during an agent loop, as it was executed
+export interface AIToolCallTrace {
+  iteration: number;
   name: string;
   parameters: Record<string, any>;
+  source: 'mcp' | 'sleeper';
+  isError: boolean;
+  errorMessage?: string;
+  durationMs: number;
+}
+
+export interface AIToolLoopTrace {
+  iterations: number; // model turns, including the final answer
+  totalTokens: number;
+  stopReason: 'completed' | 'max_iterations' | 'max_tokens';
+  calls: AIToolCallTrace[];
 }
 
 export interface AIResponse {
   content: string;
   toolCalls?: AIToolCall[];
+  toolTrace?: AIToolLoopTrace;
   usage?: {
     promptTokens: number;
     completionTokens: number;
@@ -51,8 +79,20 @@ export interface AIRequest {
   maxTokens?: number;
   temperature?: number;
   stream?: boolean;
+  responseFormat?: 'text' | 'json'; // 'json' asks providers with a JSON mode to use it
+  cacheIf?: (response: AIResponse) => boolean; // Replies that fail this check are returned but never cached
 }
 
+// Streamed text arrives as deltas; the final chunk carries the assembled response
+export type AIStreamChunk =
+  | { type: 'delta'; content: string }
+  | { type: 'done'; response: AIResponse };
+
+// What the agents stream to the routes: model text as it arrives, then the parsed result
+export type AnalysisStreamEvent<T> =
+  | { type: 'delta'; content: string }
+  | { type: 'result'; data: T };
+
 export interface AIProviderConfig {
   apiKey: string;
   model: string;
@@ -61,10 +101,27 @@ export interface AIProviderConfig {
   timeout?: number;
 }
 
+// A self-hosted server speaking the OpenAI /v1/chat/completions API (llama.cpp, vLLM, Ollama)
+export interface LocalProviderConfig extends AIProviderConfig {
+  baseURL: string;
+  contextWindow: number; // tokens the served model accepts, prompt and completion together
+  supportsJsonMode: boolean; // honors response_format: { type: 'json_object' }
+  supportsTools: boolean; // accepts the tools parameter
+}
+
+// Replays responses from fixture files; in record mode it captures them from a real provider
+export interface MockProviderConfig extends AIProviderConfig {
+  fixturesDir: string;
+  mode: 'replay' | 'record';
+  recordProvider?: AIProvider;
+}
+
 export interface ProviderConfigs {
   [AIProvider.OPENAI]: AIProviderConfig;
   [AIProvider.CLAUDE]: AIProviderConfig;
   [AIProvider.GEMINI]: AIProviderConfig;
+  [AIProvider.LOCAL]?: LocalProviderConfig;
+  [AIProvider.MOCK]?: MockProviderConfig;
 }
 
 export abstract class BaseAIProvider {
@@ -77,6 +134,7 @@ export abstract class BaseAIProvider {
   }
 
   abstract chat(request: AIRequest): Promise<AIResponse>;
+  abstract chatStream(request: AIRequest): AsyncIterable<AIStreamChunk>;
   abstract isHealthy(): Promise<boolean>;
 }
 
@@ -99,4 +157,5 @@ export interface MCPResponse {
   content: any;
   isError?: boolean;
   errorMessage?: string;
+  source?: 'mcp' | 'sleeper';
 }
\ No newline at end of file
@@ -0,0 +1,18 @@
+import { AIResponse, AIStreamChunk, AnalysisStreamEvent } from '../types/ai-providers';
+
+/**
+ * Relay a chat stream's text deltas to an agent's caller and hand back the
+ * assembled response, for use as `const response = yield* relayDeltas(stream)`.
+ */
+export async function* relayDeltas(
+  stream: AsyncIterable<AIStreamChunk>
+): AsyncGenerator<AnalysisStreamEvent<never>, AIResponse> {
+  for await (const chunk of stream) {
+    if (chunk.type === 'done') {
+      return chunk.response;
+    }
+    yield chunk;
+  }
+
+  throw new Error('AI stream ended without a response');
+}
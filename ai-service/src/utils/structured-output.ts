@@ -0,0 +1,162 @@
+import { z } from 'zod';
+import { AIManager } from '../services/ai-manager';
+import { AIMessage, AIProvider, AIRequest, AIResponse, AnalysisStreamEvent } from '../types/ai-providers';
+import { relayDeltas } from './streaming';
+
+export class StructuredOutputError extends Error {
+  constructor(
+    message: string,
+    public issues: string[]
+  ) {
+    super(message);
+    this.name = 'StructuredOutputError';
+  }
+}
+
+export interface StructuredChatOptions {
+  preferredProvider?: AIProvider;
+  enableMCP?: boolean;
+  repairAttempts?: number; // re-prompts after the first reply fails validation
+}
+
+export interface StructuredChatResult<T> {
+  data: T;
+  response: AIResponse; // the reply that validated; keeps the first reply's tool trace
+  repairs: number;
+}
+
+const MAX_REPORTED_ISSUES = 20;
+
+/**
+ * Pull the JSON object out of a model reply: a ```json fenced block if there
+ * is one, otherwise everything from the first `{` to the last `}`.
+ */
+export function extractJson(text: string): unknown {
+  const fenced = text.match(/```(?:json)?\s*([\s\S]*?)```/);
+  const candidate = fenced && fenced[1].trim().startsWith('{') ? fenced[1] : text;
+
+  const start = candidate.indexOf('{');
+  const end = candidate.lastIndexOf('}');
+  if (start === -1 || end <= start) {
+    throw new Error('No JSON object found in the reply');
+  }
+  return JSON.parse(candidate.slice(start, end + 1));
+}
+
+export function validateOutput<T>(
+  text: string,
+  schema: z.ZodType<T, z.ZodTypeDef, unknown>
+): { success: true; data: T } | { success: false; issues: string[] } {
+  let json: unknown;
+  try {
+    json = extractJson(text);
+  } catch (error) {
+    return { success: false, issues: [error instanceof Error ? error.message : 'Reply is not valid JSON'] };
+  }
+
+  const result = schema.safeParse(json);
+  if (result.success) {
+    return { success: true, data: result.data };
+  }
+  return {
+    success: false,
+    issues: result.error.errors
+      .slice(0, MAX_REPORTED_ISSUES)
+      .map(issue => `${issue.path.join('.') || '(root)'}: ${issue.message}`),
+  };
+}
+
+// Only replies that validate are cached, so a bad reply is not replayed on the next request
+function isValid<T>(schema: z.ZodType<T, z.ZodTypeDef, unknown>): (response: AIResponse) => boolean {
+  return response => validateOutput(response.content, schema).success;
+}
+
+/**
+ * Chat in JSON mode and validate the reply against `schema`. A reply that
+ * fails is sent back with the validation errors for a corrected version; when
+ * the repairs run out a StructuredOutputError is thrown, so the agent can
+ * return its flagged fallback.
+ */
+export async function chatStructured<T>(
+  aiManager: AIManager,
+  request: AIRequest,
+  schema: z.ZodType<T, z.ZodTypeDef, unknown>,
+  options: StructuredChatOptions = {}
+): Promise<StructuredChatResult<T>> {
+  const response = await aiManager.chat(
+    { ...request, responseFormat: 'json', cacheIf: isValid(schema) },
+    options.preferredProvider,
+    options.enableMCP ?? true
+  );
+  return repairUntilValid(aiManager, request, response, schema, options);
+}
+
+/**
+ * Streaming counterpart of chatStructured: the first reply is streamed,
+ * repair turns are not (their text would restart the stream mid-way).
+ */
+export async function* streamStructured<T>(
+  aiManager: AIManager,
+  request: AIRequest,
+  schema: z.ZodType<T, z.ZodTypeDef, unknown>,
+  options: StructuredChatOptions = {}
+): AsyncGenerator<AnalysisStreamEvent<never>, StructuredChatResult<T>> {
+  const response = yield* relayDeltas(aiManager.chat(
+    { ...request, responseFormat: 'json', stream: true, cacheIf: isValid(schema) },
+    options.preferredProvider,
+    options.enableMCP ?? true
+  ));
+  return repairUntilValid(aiManager, request, response, schema, options);
+}
+
+async function repairUntilValid<T>(
+  aiManager: AIManager,
+  request: AIRequest,
+  firstResponse: AIResponse,
+  schema: z.ZodType<T, z.ZodTypeDef, unknown>,
+  options: StructuredChatOptions
+): Promise<StructuredChatResult<T>> {
+  const maxRepairs = options.repairAttempts ?? 1;
+  let response = firstResponse;
+
+  for (let repairs = 0; ; repairs++) {
+    const result = validateOutput(response.content, schema);
+    if (result.success) {
+      return { data: result.data, response: { ...response, toolTrace: firstResponse.toolTrace }, repairs };
+    }
+
+    if (repairs >= maxRepairs) {
+      throw new StructuredOutputError(
+        `AI reply failed validation after ${repairs} repair attempt(s): ${result.issues.slice(0, 3).join('; ')}`,
+        result.issues
+      );
+    }
+
+    console.warn(`AI reply failed validation, asking for a repair (${result.issues.length} issues)`);
+    response = await aiManager.chat(
+      {
+        messages: buildRepairMessages(request.messages, response.content, result.issues),
+        maxTokens: request.maxTokens,
+        temperature: request.temperature,
+        responseFormat: 'json',
+        cacheIf: isValid(schema),
+      },
+      options.preferredProvider,
+      false // The data was gathered in the first reply; a repair only fixes its shape
+    );
+  }
+}
+
+function buildRepairMessages(messages: AIMessage[], reply: string, issues: string[]): AIMessage[] {
+  return [
+    ...messages,
+    { role: 'assistant', content: reply || '(empty reply)' },
+    {
+      role: 'user',
+      content: `Your reply could not be used because it does not match the required JSON format:
+${issues.map(issue => `- ${issue}`).join('\n')}
+
+Reply again with only the corrected JSON object. Keep everything that was already valid.`,
+    },
+  ];
+}
@@ -0,0 +1,57 @@
+import { AIMessage } from '../types/ai-providers';
+
+/**
+ * Parse a tool call's JSON arguments string. Models occasionally emit empty or
+ * malformed arguments; those become `{}` so the tool reports what's missing
+ * instead of the whole turn failing.
+ */
+export function parseToolArguments(raw: string | undefined): Record<string, any> {
+  if (!raw) return {};
+  try {
+    const parsed = JSON.parse(raw);
+    return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed : {};
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Rewrite native tool turns as plain text, for a request that offers no tools:
+ * providers reject tool calls and tool results in the history unless tools are
+ * declared. An assistant turn lists the calls it made, and a turn's results,
+ * together with any user message right after them, become one user message.
+ */
+export function flattenToolMessages(messages: AIMessage[]): AIMessage[] {
+  const flattened: AIMessage[] = [];
+  let results: AIMessage | undefined;
+
+  for (const message of messages) {
+    if (message.role === 'tool') {
+      const result = `${message.toolName}: ${message.content}`;
+      if (results) {
+        results.content += `\n\n${result}`;
+      } else {
+        results = { role: 'user', content: `Tool execution results:\n${result}` };
+        flattened.push(results);
+      }
+      continue;
+    }
+
+    if (message.role === 'user' && results) {
+      results.content += `\n\n${message.content}`;
+    } else if (message.role === 'assistant' && message.toolCalls?.length) {
+      const callList = message.toolCalls
+        .map(toolCall => `${toolCall.name}(${JSON.stringify(toolCall.parameters || {})})`)
+        .join(', ');
+      flattened.push({
+        role: 'assistant',
+        content: `${message.content ? `${message.content}\n\n` : ''}Calling tools: ${callList}`,
+      });
+    } else {
+      flattened.push(message);
+    }
+    results = undefined;
+  }
+
+  return flattened;
+}
@@ -0,0 +1,28 @@
+-- One row per email sent or attempted, kept after the user is deleted
+CREATE TABLE IF NOT EXISTS "email_deliveries" (
+    "id" TEXT NOT NULL,
+    "user_id" TEXT,
+    "to_address" TEXT NOT NULL,
+    "template" TEXT NOT NULL,
+    "subject" TEXT NOT NULL,
+    "status" TEXT NOT NULL,
+    "transport" TEXT NOT NULL,
+    "message_id" TEXT,
+    "error" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "email_deliveries_pkey" PRIMARY KEY ("id")
+);
+
+CREATE INDEX IF NOT EXISTS "email_deliveries_user_id_created_at_idx" ON "email_deliveries"("user_id", "created_at");
+
+-- Add foreign key constraint if it doesn't exist
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM information_schema.table_constraints
+        WHERE constraint_name = 'email_deliveries_user_id_fkey'
+    ) THEN
+        ALTER TABLE "email_deliveries" ADD CONSTRAINT "email_deliveries_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+    END IF;
+END $$;
@@ -0,0 +1,7 @@
+-- System messages (trades, waiver claims) have no author and carry structured details
+ALTER TABLE "league_chat" ALTER COLUMN "user_id" DROP NOT NULL;
+ALTER TABLE "league_chat" ADD COLUMN IF NOT EXISTS "metadata" JSONB;
+ALTER TABLE "league_chat" ADD COLUMN IF NOT EXISTS "source_id" TEXT;
+
+CREATE UNIQUE INDEX IF NOT EXISTS "league_chat_league_id_source_id_key" ON "league_chat"("league_id", "source_id");
+CREATE INDEX IF NOT EXISTS "league_chat_league_id_created_at_idx" ON "league_chat"("league_id", "created_at");
@@ -0,0 +1,2 @@
+-- The notification center lists a user's notifications newest first
+CREATE INDEX IF NOT EXISTS "notifications_user_id_created_at_idx" ON "notifications"("user_id", "created_at");
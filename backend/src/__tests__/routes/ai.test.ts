@@ -2,18 +2,30 @@ import request from 'supertest';
 import express from 'express';
 import { aiRoutes } from '../../routes/ai';
 import { aiService, AIProvider } from '../../services/ai-service';
+import { aiAgentClient } from '../../services/ai-agent-client';
 import { createToken } from '../../middleware/auth';
 
 // Mock the AI service
 jest.mock('../../services/ai-service', () => ({
+  AIProvider: jest.requireActual('../../services/ai-service').AIProvider,
   aiService: {
     analyzeStartSit: jest.fn(),
     chat: jest.fn(),
     healthCheck: jest.fn(),
+    getAnalysis: jest.fn(),
+    getAnalysisHistory: jest.fn(),
+    storeAgentAnalysis: jest.fn(),
+  },
+}));
+
+jest.mock('../../services/ai-agent-client', () => ({
+  aiAgentClient: {
+    openStream: jest.fn(),
   },
 }));
 
 const mockedAIService = aiService as jest.Mocked<typeof aiService>;
+const mockedAIAgentClient = aiAgentClient as jest.Mocked<typeof aiAgentClient>;
 
 // Create test app
 const app = express();
@@ -180,6 +192,61 @@ describe('AI Routes', () => {
     });
   });
 
+  describe('POST /api/ai/start-sit/stream', () => {
+    const streamRequest = {
+      leagueId: 'league123',
+      week: 14,
+      playerIds: ['player1', 'player2'],
+      rosterSlots: ['QB', 'RB'],
+    };
+
+    const sseResponse = (text: string) => new Response(new ReadableStream({
+      start(controller) {
+        controller.enqueue(new TextEncoder().encode(text));
+        controller.close();
+      },
+    }), { status: 200, headers: { 'Content-Type': 'text/event-stream' } });
+
+    it('should relay the stream and store the result', async () => {
+      mockedAIAgentClient.openStream.mockResolvedValue(sseResponse(
+        'event: progress\ndata: {"stage":"context"}\n\nevent: result\ndata: {"data":{"confidenceScore":0.8}}\n\n'
+      ));
+
+      const response = await request(app)
+        .post('/api/ai/start-sit/stream')
+        .set('Authorization', `Bearer ${validToken}`)
+        .send(streamRequest);
+
+      expect(response.status).toBe(200);
+      expect(response.text).toContain('event: result');
+      expect(mockedAIService.storeAgentAnalysis).toHaveBeenCalledWith(
+        testUser.id,
+        'league123',
+        'start_sit',
+        expect.objectContaining({ week: 14 }),
+        { confidenceScore: 0.8 },
+        expect.objectContaining({ confidence: 0.8, playerCount: 2 })
+      );
+    });
+
+    it('should not write to the finished stream when storing the result fails', async () => {
+      jest.spyOn(console, 'error').mockImplementation(() => {});
+      mockedAIAgentClient.openStream.mockResolvedValue(sseResponse('event: result\ndata: {"data":{"confidenceScore":0.8}}\n\n'));
+      mockedAIService.storeAgentAnalysis.mockRejectedValue(new Error('Database unavailable'));
+
+      const response = await request(app)
+        .post('/api/ai/start-sit/stream')
+        .set('Authorization', `Bearer ${validToken}`)
+        .send(streamRequest);
+
+      expect(response.status).toBe(200);
+      expect(response.text).not.toContain('event: error');
+      // Storing starts once the stream has ended, after the client has its response
+      await new Promise(resolve => setImmediate(resolve));
+      expect(console.error).toHaveBeenCalledWith('Failed to store the /ai/start-sit/stream result:', expect.any(Error));
+    });
+  });
+
   describe('POST /api/ai/chat', () => {
     const validChatRequest = {
       messages: [
@@ -382,25 +449,111 @@ describe('AI Routes', () => {
       expect(response.body.success).toBe(false);
       expect(response.body.error.code).toBe('NOT_IMPLEMENTED');
     });
+  });
+
+  describe('GET /api/ai/analysis/:analysisId', () => {
+    const storedAnalysis = {
+      id: 'analysis123',
+      userId: testUser.id,
+      leagueId: 'league123',
+      analysisType: 'start_sit',
+      input: { week: 14, playerIds: ['player1'] },
+      output: { recommendations: [], confidenceScore: 0.8 },
+      metadata: { provider: 'claude', week: 14 },
+      createdAt: new Date('2024-12-01T12:00:00Z'),
+    };
+
+    it('should return the analysis owned by the caller', async () => {
+      mockedAIService.getAnalysis.mockResolvedValue(storedAnalysis);
+
+      const response = await request(app)
+        .get('/api/ai/analysis/analysis123')
+        .set('Authorization', `Bearer ${validToken}`);
+
+      expect(response.status).toBe(200);
+      expect(response.body.success).toBe(true);
+      expect(response.body.data.output.confidenceScore).toBe(0.8);
+      expect(mockedAIService.getAnalysis).toHaveBeenCalledWith(testUser.id, 'analysis123');
+    });
+
+    it('should return 404 when the analysis is missing or owned by someone else', async () => {
+      mockedAIService.getAnalysis.mockResolvedValue(null);
+
+      const response = await request(app)
+        .get('/api/ai/analysis/other-users-analysis')
+        .set('Authorization', `Bearer ${validToken}`);
+
+      expect(response.status).toBe(404);
+      expect(response.body.error.code).toBe('ANALYSIS_NOT_FOUND');
+    });
+
+    it('should require authentication', async () => {
+      const response = await request(app).get('/api/ai/analysis/analysis123');
+
+      expect(response.status).toBe(401);
+      expect(mockedAIService.getAnalysis).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('GET /api/ai/history', () => {
+    it('should return a page of the caller\'s history with filters applied', async () => {
+      mockedAIService.getAnalysisHistory.mockResolvedValue({
+        items: [
+          {
+            id: 'analysis123',
+            leagueId: 'league123',
+            analysisType: 'trade_analysis',
+            metadata: { week: 5 },
+            createdAt: new Date('2024-10-01T12:00:00Z'),
+          },
+        ],
+        nextCursor: 'analysis123',
+        hasMore: true,
+      });
 
-    it('should return 501 for analysis history endpoint', async () => {
       const response = await request(app)
         .get('/api/ai/history')
+        .query({
+          analysisType: 'trade_analysis',
+          leagueId: 'league123',
+          week: '5',
+          from: '2024-09-01',
+          limit: '1',
+        })
         .set('Authorization', `Bearer ${validToken}`);
 
-      expect(response.status).toBe(501);
-      expect(response.body.success).toBe(false);
-      expect(response.body.error.code).toBe('NOT_IMPLEMENTED');
+      expect(response.status).toBe(200);
+      expect(response.body.data.nextCursor).toBe('analysis123');
+      expect(response.body.data.items).toHaveLength(1);
+      expect(mockedAIService.getAnalysisHistory).toHaveBeenCalledWith(testUser.id, {
+        analysisType: 'trade_analysis',
+        leagueId: 'league123',
+        week: 5,
+        from: new Date('2024-09-01'),
+        limit: 1,
+      });
     });
 
-    it('should return 501 for specific analysis retrieval', async () => {
+    it('should pass the cursor through for the next page', async () => {
+      mockedAIService.getAnalysisHistory.mockResolvedValue({ items: [], nextCursor: null, hasMore: false });
+
       const response = await request(app)
-        .get('/api/ai/analysis/test123')
+        .get('/api/ai/history?cursor=analysis123')
         .set('Authorization', `Bearer ${validToken}`);
 
-      expect(response.status).toBe(501);
-      expect(response.body.success).toBe(false);
-      expect(response.body.error.code).toBe('NOT_IMPLEMENTED');
+      expect(response.status).toBe(200);
+      expect(response.body.data.hasMore).toBe(false);
+      expect(mockedAIService.getAnalysisHistory).toHaveBeenCalledWith(testUser.id, { cursor: 'analysis123' });
+    });
+
+    it('should return 400 for invalid filters', async () => {
+      const response = await request(app)
+        .get('/api/ai/history?week=25&limit=500')
+        .set('Authorization', `Bearer ${validToken}`);
+
+      expect(response.status).toBe(400);
+      expect(response.body.error.code).toBe('INVALID_QUERY');
+      expect(mockedAIService.getAnalysisHistory).not.toHaveBeenCalled();
     });
   });
-});
\ No newline at end of file
+});
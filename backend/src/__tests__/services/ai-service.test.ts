@@ -1,14 +1,23 @@
 import { AIService, AIProvider, AIRequest, StartSitRequest } from '../../services/ai-service';
 import { SleeperAPIService } from '../../services/sleeper-api-service';
+import { PlayerService } from '../../services/player-service';
+import { StatsService } from '../../services/stats-service';
 import { PrismaClient } from '@prisma/client';
 
 // Mock dependencies
 const mockSleeperAPI = {
   getLeagueDetailsBatch: jest.fn(),
-  getAllPlayers: jest.fn(),
   healthCheck: jest.fn(),
 } as unknown as SleeperAPIService;
 
+const mockPlayerService = {
+  getAllPlayers: jest.fn(),
+} as unknown as PlayerService;
+
+const mockStatsService = {
+  getRecentProduction: jest.fn().mockResolvedValue({}),
+} as unknown as StatsService;
+
 const mockPrisma = {
   aIAnalysis: {
     create: jest.fn(),
@@ -31,7 +40,7 @@ describe('AIService', () => {
     };
     
     // Create service with mocked dependencies
-    aiService = new AIService(mockSleeperAPI, mockPrisma);
+    aiService = new AIService(mockSleeperAPI, mockPrisma, mockPlayerService, mockStatsService);
   });
 
   afterEach(() => {
@@ -163,7 +172,7 @@ describe('AIService', () => {
 
     beforeEach(() => {
       (mockSleeperAPI.getLeagueDetailsBatch as jest.Mock).mockResolvedValue(mockLeagueData);
-      (mockSleeperAPI.getAllPlayers as jest.Mock).mockResolvedValue(mockPlayersData);
+      (mockPlayerService.getAllPlayers as jest.Mock).mockResolvedValue(mockPlayersData);
       (mockPrisma.aIAnalysis.create as jest.Mock).mockResolvedValue({ id: 'analysis123' });
       
       // Mock successful AI response (Claude format)
@@ -199,7 +208,7 @@ describe('AIService', () => {
       });
     });
 
-    it('should use direct Sleeper API for data gathering', async () => {
+    it('should use Sleeper and the player database for data gathering', async () => {
       const request: StartSitRequest = {
         userId: 'user123',
         leagueId: 'league123',
@@ -214,7 +223,7 @@ describe('AIService', () => {
       await aiService.analyzeStartSit(request);
 
       expect(mockSleeperAPI.getLeagueDetailsBatch).toHaveBeenCalledWith('league123');
-      expect(mockSleeperAPI.getAllPlayers).toHaveBeenCalled();
+      expect(mockPlayerService.getAllPlayers).toHaveBeenCalled();
     });
 
     it('should call AI provider with proper prompts', async () => {
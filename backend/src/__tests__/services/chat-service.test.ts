@@ -0,0 +1,231 @@
+import { ChatService } from '../../services/chat-service';
+import { SleeperAPIService } from '../../services/sleeper-api-service';
+import { PlayerService } from '../../services/player-service';
+import { RealtimeGateway } from '../../services/realtime-gateway';
+import { PrismaClient } from '@prisma/client';
+
+// Mock dependencies
+jest.mock('@prisma/client');
+jest.mock('../../services/sleeper-api-service');
+jest.mock('../../services/player-service');
+jest.mock('../../services/realtime-gateway');
+
+describe('ChatService', () => {
+  let chatService: ChatService;
+  let mockSleeperAPI: jest.Mocked<SleeperAPIService>;
+  let mockPlayerService: jest.Mocked<PlayerService>;
+  let mockRealtime: jest.Mocked<RealtimeGateway>;
+  let mockPrisma: any;
+
+  const chatRow = (id: string, minutes: number, overrides: any = {}) => ({
+    id,
+    leagueId: 'league-1',
+    userId: 'user-1',
+    message: `Message ${id}`,
+    messageType: 'chat',
+    metadata: null,
+    sourceId: null,
+    createdAt: new Date(Date.UTC(2024, 9, 1, 12, minutes)),
+    user: { id: 'user-1', displayName: 'One', avatarUrl: null },
+    ...overrides,
+  });
+
+  const trade = {
+    transaction_id: 'tx-trade',
+    type: 'trade',
+    status: 'complete',
+    leg: 5,
+    creator: 'sleeper-user1',
+    created: 1728000000000,
+    status_updated: 1728000600000,
+    roster_ids: [1, 2],
+    adds: { '4984': 2, '2449': 1 },
+    drops: { '4984': 1, '2449': 2 },
+    draft_picks: [{ season: '2025', round: 1, roster_id: 2, previous_owner_id: 2, owner_id: 1 }],
+    waiver_budget: [{ sender: 1, receiver: 2, amount: 10 }],
+    settings: null,
+  };
+
+  const waiverClaim = {
+    ...trade,
+    transaction_id: 'tx-waiver',
+    type: 'waiver',
+    roster_ids: [2],
+    adds: { '1466': 2 },
+    drops: null,
+    draft_picks: [],
+    waiver_budget: [],
+    settings: { waiver_bid: 23 },
+  };
+
+  beforeEach(() => {
+    mockSleeperAPI = {
+      getLeagueTransactions: jest.fn().mockResolvedValue([]),
+      getLeagueRosters: jest.fn().mockResolvedValue([
+        { roster_id: 1, owner_id: 'sleeper-user1' },
+        { roster_id: 2, owner_id: 'sleeper-user2' },
+      ]),
+      getLeagueUsers: jest.fn().mockResolvedValue([
+        { user_id: 'sleeper-user1', display_name: 'One', metadata: { team_name: 'Bills Mafia' } },
+        { user_id: 'sleeper-user2', display_name: 'Two', metadata: {} },
+      ]),
+    } as any;
+
+    mockPlayerService = {
+      getPlayers: jest.fn().mockResolvedValue({
+        '4984': { player_id: '4984', full_name: 'Josh Allen', position: 'QB', team: 'BUF' },
+        '2449': { player_id: '2449', full_name: 'Stefon Diggs', position: 'WR', team: 'HOU' },
+        '1466': { player_id: '1466', full_name: 'Travis Kelce', position: 'TE', team: 'KC' },
+      }),
+    } as any;
+
+    mockPrisma = {
+      leagueChat: {
+        findMany: jest.fn().mockResolvedValue([]),
+        findUnique: jest.fn().mockResolvedValue(null),
+        count: jest.fn().mockResolvedValue(0),
+        create: jest.fn((args: any) => Promise.resolve(chatRow('new', 30, args.data))),
+        createMany: jest.fn((args: any) => Promise.resolve({ count: args.data.length })),
+      },
+    };
+
+    mockRealtime = {
+      publishToLeague: jest.fn().mockResolvedValue(undefined),
+    } as any;
+
+    chatService = new ChatService(mockSleeperAPI, mockPrisma as PrismaClient, mockPlayerService, mockRealtime);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('getMessages', () => {
+    it('should return the newest page in chronological order', async () => {
+      mockPrisma.leagueChat.findMany.mockResolvedValue([chatRow('b', 2), chatRow('a', 1)]);
+      mockPrisma.leagueChat.count.mockResolvedValue(5);
+
+      const result = await chatService.getMessages('league-1', { page: 2, limit: 2 });
+
+      expect(mockPrisma.leagueChat.findMany).toHaveBeenCalledWith(expect.objectContaining({
+        where: { leagueId: 'league-1' },
+        orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+        skip: 2,
+        take: 2,
+      }));
+      expect(result.items.map(item => item.id)).toEqual(['a', 'b']);
+      expect(result.items[0].createdAt).toBe('2024-10-01T12:01:00.000Z');
+      expect(result.pagination).toEqual({ page: 2, limit: 2, total: 5, totalPages: 3, hasNext: true, hasPrev: true });
+    });
+
+    it('should cap the page size', async () => {
+      await chatService.getMessages('league-1', { limit: 1000 });
+
+      expect(mockPrisma.leagueChat.findMany).toHaveBeenCalledWith(expect.objectContaining({ skip: 0, take: 100 }));
+    });
+  });
+
+  describe('postMessage', () => {
+    it('should store a trimmed message with its author', async () => {
+      const message = await chatService.postMessage('league-1', 'user-1', '  Good luck this week  ', 'trash_talk');
+
+      expect(mockPrisma.leagueChat.create).toHaveBeenCalledWith(expect.objectContaining({
+        data: { leagueId: 'league-1', userId: 'user-1', message: 'Good luck this week', messageType: 'trash_talk' },
+      }));
+      expect(message.author).toEqual({ id: 'user-1', displayName: 'One', avatarUrl: null });
+      expect(mockRealtime.publishToLeague).toHaveBeenCalledWith('league-1', 'chat_message', message);
+    });
+  });
+
+  describe('postSystemMessage', () => {
+    it('should post once per source', async () => {
+      const message = await chatService.postSystemMessage('league-1', 'Week 2 recap', 'weekly_recap', 'weekly-recap:2024:2');
+
+      expect(mockPrisma.leagueChat.create).toHaveBeenCalledWith(expect.objectContaining({
+        data: { leagueId: 'league-1', userId: null, message: 'Week 2 recap', messageType: 'weekly_recap', sourceId: 'weekly-recap:2024:2' },
+      }));
+      expect(mockRealtime.publishToLeague).toHaveBeenCalledWith('league-1', 'chat_message', message);
+
+      mockPrisma.leagueChat.findUnique.mockResolvedValue(chatRow('new', 30));
+      await expect(chatService.postSystemMessage('league-1', 'Week 2 recap', 'weekly_recap', 'weekly-recap:2024:2')).resolves.toBeNull();
+      expect(mockPrisma.leagueChat.create).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('postTransactionMessages', () => {
+    it('should post trades and waiver claims once each', async () => {
+      mockSleeperAPI.getLeagueTransactions.mockImplementation((_leagueId: string, week: number) =>
+        Promise.resolve(week === 5
+          ? [trade, waiverClaim, { ...waiverClaim, transaction_id: 'tx-failed', status: 'failed' }]
+          : [{ ...waiverClaim, transaction_id: 'tx-free-agent', type: 'free_agent' }]) as any
+      );
+
+      const result = await chatService.postTransactionMessages('league-1', 'sleeper-1', [4, 5]);
+
+      expect(result).toEqual({ posted: 2 });
+      const { data, skipDuplicates } = mockPrisma.leagueChat.createMany.mock.calls[0][0];
+      expect(skipDuplicates).toBe(true);
+
+      expect(data[0]).toMatchObject({
+        leagueId: 'league-1',
+        userId: null,
+        messageType: 'trade',
+        sourceId: 'sleeper-transaction:tx-trade',
+        createdAt: new Date(1728000600000),
+        message: 'Trade completed: Bills Mafia receives Stefon Diggs (WR), 2025 round 1 pick; Two receives Josh Allen (QB), $10 FAAB',
+      });
+      expect(data[0].metadata.teams[0]).toEqual({
+        rosterId: 1,
+        sleeperUserId: 'sleeper-user1',
+        teamName: 'Bills Mafia',
+        adds: [{ playerId: '2449', name: 'Stefon Diggs', position: 'WR', team: 'HOU' }],
+        drops: [{ playerId: '4984', name: 'Josh Allen', position: 'QB', team: 'BUF' }],
+        picks: [{ season: '2025', round: 1, originalRosterId: 2 }],
+        faab: 0,
+      });
+
+      expect(data[1]).toMatchObject({
+        messageType: 'waiver_claim',
+        message: 'Waiver claim: Two claimed Travis Kelce (TE) for $23',
+      });
+    });
+
+    it('should publish new messages and skip transactions already posted', async () => {
+      mockSleeperAPI.getLeagueTransactions.mockResolvedValue([trade, waiverClaim] as any);
+      mockPrisma.leagueChat.findMany.mockImplementation((args: any) => Promise.resolve(args.select
+        ? [{ sourceId: 'sleeper-transaction:tx-trade' }]
+        : [chatRow('waiver', 5, { userId: null, user: null, messageType: 'waiver_claim', metadata: { transactionId: 'tx-waiver' } })]
+      ));
+
+      const result = await chatService.postTransactionMessages('league-1', 'sleeper-1', [5]);
+
+      expect(result).toEqual({ posted: 1 });
+      const { data } = mockPrisma.leagueChat.createMany.mock.calls[0][0];
+      expect(data.map((message: any) => message.sourceId)).toEqual(['sleeper-transaction:tx-waiver']);
+      expect(mockPlayerService.getPlayers).toHaveBeenCalledWith(['1466']);
+
+      expect(mockRealtime.publishToLeague).toHaveBeenCalledWith('league-1', 'chat_message', expect.objectContaining({
+        id: 'waiver',
+        author: null,
+      }));
+      expect(mockRealtime.publishToLeague).toHaveBeenCalledWith('league-1', 'waiver_claim', { transactionId: 'tx-waiver' });
+    });
+
+    it('should skip Sleeper lookups when there is nothing to post', async () => {
+      const result = await chatService.postTransactionMessages('league-1', 'sleeper-1', [5]);
+
+      expect(result).toEqual({ posted: 0 });
+      expect(mockSleeperAPI.getLeagueRosters).not.toHaveBeenCalled();
+      expect(mockPrisma.leagueChat.createMany).not.toHaveBeenCalled();
+    });
+
+    it('should wrap failures', async () => {
+      jest.spyOn(console, 'error').mockImplementation();
+      mockSleeperAPI.getLeagueTransactions.mockResolvedValue([trade] as any);
+      mockSleeperAPI.getLeagueRosters.mockRejectedValue(new Error('Service unavailable'));
+
+      await expect(chatService.postTransactionMessages('league-1', 'sleeper-1', [5]))
+        .rejects.toThrow('Posting transaction messages failed: Service unavailable');
+    });
+  });
+});
@@ -0,0 +1,232 @@
+import { DraftGradeService, gradeForScore } from '../../services/draft-grade-service';
+import { SleeperAPIService } from '../../services/sleeper-api-service';
+import { PlayerService } from '../../services/player-service';
+import { AIAgentClient } from '../../services/ai-agent-client';
+import { PrismaClient } from '@prisma/client';
+
+// Mock dependencies
+jest.mock('@prisma/client');
+jest.mock('../../services/player-service');
+
+describe('DraftGradeService', () => {
+  let draftGradeService: DraftGradeService;
+  let mockSleeperAPI: jest.Mocked<SleeperAPIService>;
+  let mockPlayerService: jest.Mocked<PlayerService>;
+  let mockAIAgents: jest.Mocked<AIAgentClient>;
+  let mockPrisma: any;
+
+  const pick = (pickNo: number, rosterId: number, playerId: string, isKeeper = false) => ({
+    pick_no: pickNo,
+    round: Math.ceil(pickNo / 2),
+    roster_id: rosterId,
+    player_id: playerId,
+    picked_by: `sleeper-${rosterId}`,
+    draft_slot: rosterId,
+    is_keeper: isKeeper,
+    draft_id: 'draft-1',
+    metadata: {},
+  });
+
+  const player = (playerId: string, name: string, searchRank: number) => ({
+    player_id: playerId,
+    full_name: name,
+    position: 'WR',
+    team: 'MIN',
+    search_rank: searchRank,
+  });
+
+  beforeEach(() => {
+    mockSleeperAPI = {
+      getNFLState: jest.fn().mockResolvedValue({ week: 1, season: '2024', season_type: 'regular' }),
+      getLeague: jest.fn().mockResolvedValue({ name: 'Dynasty Bros', scoring_settings: { rec: 1 } }),
+      getLeagueRosters: jest.fn().mockResolvedValue([
+        { roster_id: 1, owner_id: 'sleeper-1' },
+        { roster_id: 2, owner_id: 'sleeper-2' },
+      ]),
+      getLeagueUsers: jest.fn().mockResolvedValue([
+        { user_id: 'sleeper-1', display_name: 'owner1', metadata: { team_name: 'Team A' } },
+        { user_id: 'sleeper-2', display_name: 'owner2', metadata: { team_name: 'Team B' } },
+      ]),
+      getLeagueDrafts: jest.fn().mockResolvedValue([
+        { draft_id: 'draft-0', status: 'complete', type: 'snake', season: '2023', start_time: 1, settings: { teams: 2, rounds: 3 } },
+        { draft_id: 'draft-1', status: 'complete', type: 'snake', season: '2024', start_time: 2, settings: { teams: 2, rounds: 3 } },
+      ]),
+      getDraftPicks: jest.fn().mockResolvedValue([
+        pick(1, 1, 'p1'),
+        pick(2, 2, 'p2'),
+        pick(3, 2, 'p3'),
+        pick(4, 1, 'p4'),
+        pick(5, 1, 'p5'),
+        pick(6, 2, 'p6', true),
+      ]),
+      getPlayerStats: jest.fn().mockResolvedValue({
+        p1: { rec: 10 },
+        p2: { rec: 100 },
+        p3: { rec: 50 },
+        p4: { rec: 5 },
+        p5: { rec: 80 },
+      }),
+    } as any;
+
+    mockPlayerService = {
+      getPlayers: jest.fn().mockResolvedValue({
+        p1: player('p1', 'Justin Jefferson', 1),
+        p2: player('p2', 'Jordan Addison', 50),
+        p3: player('p3', 'Puka Nacua', 2),
+        p4: player('p4', 'CeeDee Lamb', 3),
+        p5: player('p5', 'Amon-Ra St. Brown', 4),
+        p6: player('p6', 'Malik Nabers', 5),
+      }),
+    } as any;
+
+    mockAIAgents = {
+      post: jest.fn().mockResolvedValue({
+        overview: 'Team A nailed it.',
+        teams: [{ rosterId: 1, summary: 'Patient and rewarded.' }],
+        provider: 'claude',
+        model: 'claude-3-5-sonnet',
+      }),
+    } as any;
+
+    mockPrisma = {
+      league: {
+        findUnique: jest.fn().mockResolvedValue({ id: 'league-1', name: 'Dynasty Bros', season: 2024, sleeperLeagueId: 'sleeper-league-1' }),
+      },
+      aIAnalysis: {
+        findFirst: jest.fn().mockResolvedValue(null),
+        create: jest.fn((args: any) => Promise.resolve({
+          id: 'grades-1',
+          ...args.data,
+          createdAt: new Date('2024-09-10T12:00:00Z'),
+        })),
+      },
+    };
+
+    draftGradeService = new DraftGradeService(mockSleeperAPI, mockPrisma as PrismaClient, mockPlayerService, mockAIAgents);
+  });
+
+  describe('gradeForScore', () => {
+    it('should map average rounds of value onto the trade grade scale', () => {
+      expect(gradeForScore(1.2)).toBe('A+');
+      expect(gradeForScore(0)).toBe('B-');
+      expect(gradeForScore(-0.5)).toBe('C-');
+      expect(gradeForScore(-2)).toBe('F');
+    });
+  });
+
+  describe('getDraftGrades', () => {
+    it('should grade the latest draft against consensus rankings before the season', async () => {
+      const grades = await draftGradeService.getDraftGrades('league-1', { requestedBy: 'user-1' });
+
+      expect(mockSleeperAPI.getDraftPicks).toHaveBeenCalledWith('draft-1');
+      expect(mockSleeperAPI.getPlayerStats).not.toHaveBeenCalled();
+      expect(grades).toMatchObject({ id: 'grades-1', draftId: 'draft-1', basis: 'adp', weeksPlayed: 0 });
+
+      const [teamA, teamB] = grades!.teams;
+      expect([teamA.teamName, teamA.grade, teamA.score]).toEqual(['Team A', 'B+', 0.33]);
+      expect([teamB.teamName, teamB.grade, teamB.score]).toEqual(['Team B', 'C-', -0.5]);
+
+      // Ranked 50th but taken second
+      expect(teamB.picks[0]).toMatchObject({ playerName: 'Jordan Addison', expectedPick: 5, value: -1.5, label: 'reach' });
+      expect(teamB.keepers).toEqual(['Malik Nabers']);
+      expect(grades!.biggestReaches).toEqual([expect.objectContaining({ playerId: 'p2', teamName: 'Team B' })]);
+
+      expect(teamA.summary).toBe('Patient and rewarded.');
+      expect(teamB.summary).toBe('0 steals and 1 reach. Best value: Puka Nacua in round 2. Biggest miss: Jordan Addison in round 1.');
+      expect(grades!.overview).toBe('Team A nailed it.');
+      expect(grades!.isFallback).toBe(false);
+    });
+
+    it('should re-grade on points scored once enough weeks have been played', async () => {
+      mockSleeperAPI.getNFLState.mockResolvedValue({ week: 6, season: '2024', season_type: 'regular' });
+
+      const grades = await draftGradeService.getDraftGrades('league-1', { requestedBy: 'user-1' });
+
+      expect(mockSleeperAPI.getPlayerStats).toHaveBeenCalledWith('nfl', '2024', 'regular');
+      expect(grades).toMatchObject({ basis: 'points', weeksPlayed: 5 });
+      expect(grades!.teams.map(team => [team.teamName, team.grade])).toEqual([['Team B', 'B+'], ['Team A', 'C+']]);
+      expect(grades!.biggestSteals).toEqual([
+        expect.objectContaining({ playerName: 'Amon-Ra St. Brown', points: 80, expectedPick: 2, value: 1.5 }),
+      ]);
+      expect(mockPrisma.aIAnalysis.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          analysisType: 'draft_grade',
+          metadata: expect.objectContaining({ draftId: 'draft-1', basis: 'points', weeksPlayed: 5 }),
+        }),
+      });
+    });
+
+    it('should re-grade on points over positional replacement rather than raw points', async () => {
+      mockSleeperAPI.getNFLState.mockResolvedValue({ week: 6, season: '2024', season_type: 'regular' });
+      mockSleeperAPI.getLeague.mockResolvedValue({
+        name: 'Dynasty Bros',
+        scoring_settings: { rec: 1, pass_td: 4 },
+        roster_positions: ['QB', 'WR', 'BN'],
+      } as any);
+      mockSleeperAPI.getPlayerStats.mockResolvedValue({
+        p1: { pass_td: 50 },
+        p2: { rec: 100 },
+        p3: { pass_td: 45 },
+        p4: { pass_td: 40 },
+        p5: { rec: 80 },
+      });
+      mockPlayerService.getPlayers.mockResolvedValue({
+        p1: { ...player('p1', 'Josh Allen', 1), position: 'QB' },
+        p2: player('p2', 'Jordan Addison', 50),
+        p3: { ...player('p3', 'Lamar Jackson', 2), position: 'QB' },
+        p4: { ...player('p4', 'Jalen Hurts', 3), position: 'QB' },
+        p5: player('p5', 'Amon-Ra St. Brown', 4),
+        p6: player('p6', 'Malik Nabers', 5),
+      } as any);
+
+      const grades = await draftGradeService.getDraftGrades('league-1', { requestedBy: 'user-1' });
+
+      // 20 points over the second-best WR is worth as much as 20 over the third QB
+      const addison = grades!.teams.flatMap(team => team.picks).find(entry => entry.playerId === 'p2');
+      expect(addison).toMatchObject({ points: 100, expectedPick: 2, value: 0, label: null });
+      expect(grades!.biggestReaches).toEqual([]);
+    });
+
+    it('should reuse stored grades until another week is played', async () => {
+      mockPrisma.aIAnalysis.findFirst.mockResolvedValue({
+        id: 'grades-0',
+        leagueId: 'league-1',
+        output: { draftId: 'draft-1', basis: 'adp', teams: [] },
+        createdAt: new Date('2024-09-01T12:00:00Z'),
+      });
+
+      const grades = await draftGradeService.getDraftGrades('league-1', { requestedBy: 'user-1' });
+
+      expect(grades?.id).toBe('grades-0');
+      expect(mockPrisma.aIAnalysis.findFirst).toHaveBeenCalledWith(expect.objectContaining({
+        where: expect.objectContaining({
+          AND: [
+            { metadata: { path: ['draftId'], equals: 'draft-1' } },
+            { metadata: { path: ['basis'], equals: 'adp' } },
+            { metadata: { path: ['weeksPlayed'], equals: 0 } },
+          ],
+        }),
+      }));
+      expect(mockSleeperAPI.getDraftPicks).not.toHaveBeenCalled();
+    });
+
+    it('should keep the generated summaries when the AI agent fails', async () => {
+      mockAIAgents.post.mockRejectedValue(new Error('All AI providers failed'));
+      jest.spyOn(console, 'warn').mockImplementation(() => {});
+
+      const grades = await draftGradeService.getDraftGrades('league-1', { requestedBy: 'user-1' });
+
+      expect(grades!.provider).toBeNull();
+      expect(grades!).toMatchObject({ isFallback: true, fallbackReason: 'All AI providers failed' });
+      expect(grades!.teams[0].summary).toBe('0 steals and 0 reaches. Best value: CeeDee Lamb in round 2.');
+    });
+
+    it('should return null before the league has drafted', async () => {
+      mockSleeperAPI.getLeagueDrafts.mockResolvedValue([{ draft_id: 'draft-1', status: 'pre_draft' }] as any);
+
+      const grades = await draftGradeService.getDraftGrades('league-1', { requestedBy: 'user-1' });
+
+      expect(grades).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,169 @@
+import jwt from 'jsonwebtoken';
+import { EmailService, InvalidUnsubscribeTokenError, shouldEmail } from '../../services/email-service';
+import { MailTransport } from '../../services/mail-transport';
+import { UserNotification } from '../../services/notification-service';
+import { PrismaClient } from '@prisma/client';
+
+// Mock dependencies
+jest.mock('@prisma/client');
+jest.mock('../../services/notification-service');
+
+describe('EmailService', () => {
+  let emailService: EmailService;
+  let mockTransport: jest.Mocked<MailTransport>;
+  let mockPrisma: any;
+
+  const user = { id: 'user-1', email: 'one@example.com', displayName: 'Team <One>' };
+
+  const notification = (overrides: Partial<UserNotification> = {}): UserNotification => ({
+    id: 'note-1',
+    type: 'player_news',
+    title: 'Saquon Barkley ruled Out',
+    message: 'Saquon Barkley (RB, PHI) is now Out (Ankle).',
+    actionUrl: '/league/league-1',
+    read: false,
+    priority: 'high',
+    createdAt: '2024-10-06T12:00:00.000Z',
+    expiresAt: null,
+    ...overrides,
+  });
+
+  beforeEach(() => {
+    process.env.JWT_SECRET = 'test-secret';
+    process.env.FRONTEND_URL = 'https://app.example.com';
+    process.env.BACKEND_URL = 'https://api.example.com';
+
+    mockTransport = {
+      name: 'file',
+      send: jest.fn().mockResolvedValue({ messageId: 'msg-1' }),
+    };
+
+    mockPrisma = {
+      emailDelivery: {
+        create: jest.fn((args: any) => Promise.resolve({ id: 'delivery-1', ...args.data })),
+      },
+      user: {
+        findUnique: jest.fn().mockResolvedValue({ preferences: { theme: 'dark', notificationSettings: { push: false } } }),
+        update: jest.fn().mockResolvedValue({}),
+      },
+    };
+
+    emailService = new EmailService(mockPrisma as PrismaClient, mockTransport);
+  });
+
+  afterEach(() => {
+    delete process.env.JWT_SECRET;
+    delete process.env.FRONTEND_URL;
+    delete process.env.BACKEND_URL;
+    delete process.env.CORS_ORIGIN;
+    jest.restoreAllMocks();
+  });
+
+  describe('sendNotificationEmail', () => {
+    it('should render the template, send it with unsubscribe headers and log the delivery', async () => {
+      const result = await emailService.sendNotificationEmail(user, notification());
+
+      const message = mockTransport.send.mock.calls[0][0];
+      expect(message.to).toBe('one@example.com');
+      expect(message.subject).toBe('Injury Alert: Saquon Barkley ruled Out');
+      expect(message.html).toContain('Hi Team &lt;One&gt;');
+      expect(message.html).toContain('href="https://app.example.com/league/league-1"');
+      expect(message.text).toContain('Check your lineup: https://app.example.com/league/league-1');
+      expect(message.headers!['List-Unsubscribe']).toMatch(/^<https:\/\/api\.example\.com\/api\/notifications\/unsubscribe\?token=.+>$/);
+      expect(message.headers!['List-Unsubscribe-Post']).toBe('List-Unsubscribe=One-Click');
+
+      expect(mockPrisma.emailDelivery.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          userId: 'user-1',
+          template: 'injury_alert',
+          status: 'sent',
+          transport: 'file',
+          messageId: 'msg-1',
+          error: null,
+        }),
+      });
+      expect(result).toEqual({ id: 'delivery-1', status: 'sent', messageId: 'msg-1', error: null });
+    });
+
+    it('should log failed sends instead of throwing', async () => {
+      mockTransport.send.mockRejectedValue(new Error('Connection refused'));
+      jest.spyOn(console, 'error').mockImplementation(() => {});
+
+      const result = await emailService.sendNotificationEmail(user, notification({ type: 'trade_offer', title: 'Trade offer' }));
+
+      expect(result).toMatchObject({ status: 'failed', error: 'Connection refused' });
+      expect(mockPrisma.emailDelivery.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ template: 'trade_alert', status: 'failed' }),
+      });
+    });
+
+    it('should link to the first CORS origin when FRONTEND_URL is not set', async () => {
+      delete process.env.FRONTEND_URL;
+      process.env.CORS_ORIGIN = 'https://app.example.com/, https://admin.example.com';
+
+      await emailService.sendNotificationEmail(user, notification());
+
+      expect(mockTransport.send.mock.calls[0][0].text).toContain('Check your lineup: https://app.example.com/league/league-1');
+    });
+
+    it('should skip notification types without a template', async () => {
+      const result = await emailService.sendNotificationEmail(user, notification({ type: 'achievement_unlocked' }));
+
+      expect(result).toBeNull();
+      expect(mockTransport.send).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('unsubscribe', () => {
+    it('should turn off the token\'s setting and keep other preferences', async () => {
+      const token = emailService.createUnsubscribeToken('user-1', 'weeklyReportEmail');
+
+      const result = await emailService.unsubscribe(token);
+
+      expect(result).toEqual({ userId: 'user-1', category: 'weeklyReportEmail' });
+      expect(mockPrisma.user.update).toHaveBeenCalledWith({
+        where: { id: 'user-1' },
+        data: { preferences: { theme: 'dark', notificationSettings: { push: false, weeklyReportEmail: false } } },
+      });
+    });
+
+    it('should map links naming an in-app setting to its email-only setting', async () => {
+      const legacyToken = jwt.sign({ userId: 'user-1', category: 'tradeAlerts' }, 'test-secret:unsubscribe');
+
+      const result = await emailService.unsubscribe(legacyToken);
+
+      expect(result.category).toBe('tradeAlertEmail');
+      expect(mockPrisma.user.update).toHaveBeenCalledWith({
+        where: { id: 'user-1' },
+        data: { preferences: { theme: 'dark', notificationSettings: { push: false, tradeAlertEmail: false } } },
+      });
+    });
+
+    it('should reject session tokens and tampered links', async () => {
+      const sessionToken = jwt.sign({ userId: 'user-1', category: 'email' }, 'test-secret');
+
+      await expect(emailService.unsubscribe(sessionToken)).rejects.toThrow(InvalidUnsubscribeTokenError);
+      await expect(emailService.unsubscribe('not-a-token')).rejects.toThrow(InvalidUnsubscribeTokenError);
+      expect(mockPrisma.user.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('shouldEmail', () => {
+    const settings = {
+      email: true,
+      push: true,
+      weeklyReport: true,
+      tradeAlerts: true,
+      weeklyReportEmail: true,
+      tradeAlertEmail: true,
+    };
+
+    it('should email templated types unless email or the type\'s email setting is off', () => {
+      expect(shouldEmail('weekly_report', settings)).toBe(true);
+      expect(shouldEmail('weekly_report', { ...settings, weeklyReportEmail: false })).toBe(false);
+      expect(shouldEmail('weekly_report', { ...settings, weeklyReport: false })).toBe(true);
+      expect(shouldEmail('trade_offer', { ...settings, email: false })).toBe(false);
+      expect(shouldEmail('achievement_unlocked', settings)).toBe(false);
+    });
+  });
+});
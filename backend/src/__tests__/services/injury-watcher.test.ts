@@ -0,0 +1,140 @@
+import { InjuryWatcher } from '../../services/injury-watcher';
+import { SleeperAPIService } from '../../services/sleeper-api-service';
+import { PlayerService, PlayerChange } from '../../services/player-service';
+import { StatsService } from '../../services/stats-service';
+import { NotificationService } from '../../services/notification-service';
+import { PrismaClient } from '@prisma/client';
+
+// Mock dependencies
+jest.mock('@prisma/client');
+jest.mock('../../services/sleeper-api-service');
+jest.mock('../../services/player-service');
+jest.mock('../../services/stats-service');
+jest.mock('../../services/notification-service');
+
+describe('InjuryWatcher', () => {
+  let injuryWatcher: InjuryWatcher;
+  let mockSleeperAPI: jest.Mocked<SleeperAPIService>;
+  let mockPlayerService: jest.Mocked<PlayerService>;
+  let mockStatsService: jest.Mocked<StatsService>;
+  let mockNotifications: jest.Mocked<NotificationService>;
+  let mockPrisma: any;
+
+  const injuryChange = (sleeperPlayerId: string, previous: string | null, current: string | null): PlayerChange => ({
+    sleeperPlayerId,
+    fullName: sleeperPlayerId,
+    position: 'RB',
+    field: 'injury',
+    previous,
+    current,
+  });
+
+  beforeEach(() => {
+    mockSleeperAPI = {
+      getNFLState: jest.fn().mockResolvedValue({ week: 6, season: '2024', season_type: 'regular' }),
+      getLeague: jest.fn().mockResolvedValue({ roster_positions: ['QB', 'RB', 'FLEX', 'BN', 'BN', 'BN'] }),
+      getLeagueRosters: jest.fn().mockResolvedValue([
+        { roster_id: 1, players: ['4984', '4866', '6794', '8146', '9509', '7543'], starters: ['4984', '4866', '6794'], reserve: ['7543'], taxi: [] },
+        { roster_id: 2, players: ['1466', '4866'], starters: ['1466'], reserve: [], taxi: [] },
+      ]),
+    } as any;
+
+    mockPlayerService = {
+      getAllPlayers: jest.fn().mockResolvedValue({
+        '4984': { player_id: '4984', full_name: 'Josh Allen', position: 'QB', team: 'BUF', status: 'Active' },
+        '4866': { player_id: '4866', full_name: 'Saquon Barkley', position: 'RB', team: 'PHI', status: 'Active', injury_status: 'Out', injury_body_part: 'Ankle' },
+        '6794': { player_id: '6794', full_name: 'Justin Jefferson', position: 'WR', team: 'MIN', status: 'Active' },
+        '8146': { player_id: '8146', full_name: 'Rachaad White', position: 'RB', team: 'TB', status: 'Active', search_rank: 80 },
+        '9509': { player_id: '9509', full_name: 'Bijan Robinson', position: 'RB', team: 'ATL', status: 'Active', search_rank: 10 },
+        '7543': { player_id: '7543', full_name: 'Breece Hall', position: 'RB', team: 'NYJ', status: 'Active' },
+        '1466': { player_id: '1466', full_name: 'Travis Kelce', position: 'TE', team: 'KC', status: 'Active' },
+      }),
+    } as any;
+
+    mockStatsService = {
+      getRecentProduction: jest.fn().mockResolvedValue({
+        '8146': [{ week: 5, points: 18 }],
+        '9509': [{ week: 5, points: 12 }],
+      }),
+    } as any;
+
+    mockNotifications = {
+      notify: jest.fn().mockResolvedValue({ id: 'note-1' }),
+    } as any;
+
+    mockPrisma = {
+      league: {
+        findMany: jest.fn().mockResolvedValue([{
+          id: 'league-1',
+          name: 'Dynasty Bros',
+          sleeperLeagueId: 'sleeper-1',
+          userLeagues: [
+            { userId: 'user-1', sleeperRosterId: '1' },
+            { userId: 'user-2', sleeperRosterId: '2' },
+          ],
+        }]),
+      },
+    };
+
+    injuryWatcher = new InjuryWatcher(mockSleeperAPI, mockPrisma as PrismaClient, mockPlayerService, mockStatsService, mockNotifications);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should alert every roster with the player and suggest a bench replacement for starters', async () => {
+    const result = await injuryWatcher.notifyChanges([injuryChange('4866', 'Questionable', 'Out')]);
+
+    expect(result).toEqual({ playersChanged: 1, leagues: 1, notified: 2, suppressed: 0, failed: [] });
+    expect(mockStatsService.getRecentProduction).toHaveBeenCalledWith(['8146', '9509'], 2024, 6, { leagueId: 'league-1' });
+
+    expect(mockNotifications.notify).toHaveBeenCalledWith('user-1', expect.objectContaining({
+      type: 'player_news',
+      title: 'Saquon Barkley ruled Out',
+      priority: 'high',
+      actionUrl: '/league/league-1',
+      message: 'Saquon Barkley (RB, PHI) is now Out (Ankle) and is in your starting lineup at RB in Dynasty Bros.'
+        + ' Suggested replacement from your bench: Rachaad White (RB, TB).',
+    }));
+
+    // Bench players get a quieter alert without a replacement
+    expect(mockNotifications.notify).toHaveBeenCalledWith('user-2', expect.objectContaining({
+      priority: 'low',
+      message: 'Saquon Barkley (RB, PHI) is now Out (Ankle) and is on your bench in Dynasty Bros.',
+    }));
+  });
+
+  it('should ignore changes that do not change availability', async () => {
+    const result = await injuryWatcher.notifyChanges([
+      injuryChange('4866', 'Out', 'IR'),
+      { ...injuryChange('6794', 'MIN', 'DET'), field: 'team' },
+    ]);
+
+    expect(result.playersChanged).toBe(0);
+    expect(mockSleeperAPI.getNFLState).not.toHaveBeenCalled();
+    expect(mockNotifications.notify).not.toHaveBeenCalled();
+  });
+
+  it('should report cleared players and count suppressed alerts', async () => {
+    mockNotifications.notify.mockResolvedValueOnce(null);
+
+    const result = await injuryWatcher.notifyChanges([injuryChange('4866', 'Doubtful', null)]);
+
+    expect(result).toMatchObject({ notified: 1, suppressed: 1 });
+    expect(mockStatsService.getRecentProduction).not.toHaveBeenCalled();
+    expect(mockNotifications.notify).toHaveBeenCalledWith('user-1', expect.objectContaining({
+      title: 'Saquon Barkley is cleared to play',
+      priority: 'low',
+    }));
+  });
+
+  it('should skip alerts in the offseason', async () => {
+    mockSleeperAPI.getNFLState.mockResolvedValue({ week: 0, season: '2025', season_type: 'off' });
+
+    const result = await injuryWatcher.notifyChanges([injuryChange('4866', null, 'Out')]);
+
+    expect(result).toEqual({ playersChanged: 1, leagues: 0, notified: 0, suppressed: 0, failed: [] });
+    expect(mockPrisma.league.findMany).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,166 @@
+import cron from 'node-cron';
+import { JobScheduler, JobNotFoundError } from '../../services/job-scheduler';
+
+jest.mock('node-cron', () => ({
+  validate: jest.fn(() => true),
+  schedule: jest.fn(() => ({ stop: jest.fn() })),
+}));
+
+// Minimal in-memory stand-in for the commands the scheduler uses
+const createMockRedis = () => {
+  const values = new Map<string, string>();
+  const lists = new Map<string, string[]>();
+
+  return {
+    values,
+    set: jest.fn(async (key: string, value: string, options?: { NX?: boolean }) => {
+      if (options?.NX && values.has(key)) return null;
+      values.set(key, value);
+      return 'OK';
+    }),
+    get: jest.fn(async (key: string) => values.get(key) ?? null),
+    exists: jest.fn(async (key: string) => (values.has(key) ? 1 : 0)),
+    eval: jest.fn(async (_script: string, { keys, arguments: args }: { keys: string[]; arguments: string[] }) => {
+      if (values.get(keys[0]) === args[0]) {
+        values.delete(keys[0]);
+        return 1;
+      }
+      return 0;
+    }),
+    lPush: jest.fn(async (key: string, value: string) => {
+      lists.set(key, [value, ...(lists.get(key) || [])]);
+      return lists.get(key)!.length;
+    }),
+    lTrim: jest.fn(async (key: string, start: number, stop: number) => {
+      lists.set(key, (lists.get(key) || []).slice(start, stop + 1));
+      return 'OK';
+    }),
+    lRange: jest.fn(async (key: string, start: number, stop: number) =>
+      (lists.get(key) || []).slice(start, stop + 1)
+    ),
+  };
+};
+
+describe('JobScheduler', () => {
+  let scheduler: JobScheduler;
+  let mockRedis: ReturnType<typeof createMockRedis>;
+
+  beforeEach(() => {
+    scheduler = new JobScheduler();
+    mockRedis = createMockRedis();
+  });
+
+  const start = () => scheduler.start(mockRedis as any);
+
+  it('should schedule every registered job', () => {
+    scheduler.register({ name: 'a', description: 'A', schedule: '0 * * * *', handler: jest.fn() });
+    scheduler.register({ name: 'b', description: 'B', schedule: '0 0 * * *', handler: jest.fn() });
+
+    start();
+
+    expect(cron.schedule).toHaveBeenCalledTimes(2);
+    expect(cron.schedule).toHaveBeenCalledWith('0 * * * *', expect.any(Function), { timezone: 'UTC' });
+    expect(scheduler.isStarted()).toBe(true);
+  });
+
+  it('should schedule a job in its own timezone when it has one', () => {
+    scheduler.register({ name: 'kickoff', description: 'Kickoff', schedule: '5 12 * * 0', timezone: 'America/New_York', handler: jest.fn() });
+
+    start();
+
+    expect(cron.schedule).toHaveBeenCalledWith('5 12 * * 0', expect.any(Function), { timezone: 'America/New_York' });
+  });
+
+  it('should reject invalid cron schedules', () => {
+    (cron.validate as jest.Mock).mockReturnValueOnce(false);
+
+    expect(() => scheduler.register({ name: 'bad', description: 'Bad', schedule: 'never', handler: jest.fn() }))
+      .toThrow('Invalid cron schedule for job bad: never');
+  });
+
+  it('should record a successful run and release the lock', async () => {
+    const handler = jest.fn().mockResolvedValue({ processed: 3 });
+    scheduler.register({ name: 'sync', description: 'Sync', schedule: '0 * * * *', handler });
+    start();
+
+    const run = await scheduler.runJob('sync', 'manual');
+
+    expect(run.status).toBe('succeeded');
+    expect(run.attempts).toBe(1);
+    expect(run.result).toEqual({ processed: 3 });
+    expect(handler).toHaveBeenCalledWith(expect.objectContaining({ attempt: 1, trigger: 'manual' }));
+    expect(mockRedis.values.has('jobs:sync:lock')).toBe(false);
+
+    const status = await scheduler.getStatus('sync');
+    expect(status.running).toBe(false);
+    expect(status.lastRun?.runId).toBe(run.runId);
+  });
+
+  it('should retry failed attempts with backoff before giving up', async () => {
+    const handler = jest.fn()
+      .mockRejectedValueOnce(new Error('Sleeper timeout'))
+      .mockResolvedValueOnce({ ok: true });
+    scheduler.register({ name: 'flaky', description: 'Flaky', schedule: '0 * * * *', backoffMs: 1, handler });
+    start();
+
+    const run = await scheduler.runJob('flaky', 'schedule');
+
+    expect(run.status).toBe('succeeded');
+    expect(run.attempts).toBe(2);
+    expect(handler).toHaveBeenCalledTimes(2);
+  });
+
+  it('should fail after the maximum number of attempts', async () => {
+    const handler = jest.fn().mockRejectedValue(new Error('Database unavailable'));
+    scheduler.register({
+      name: 'broken',
+      description: 'Broken',
+      schedule: '0 * * * *',
+      maxAttempts: 2,
+      backoffMs: 1,
+      handler,
+    });
+    start();
+
+    const run = await scheduler.runJob('broken', 'schedule');
+
+    expect(run.status).toBe('failed');
+    expect(run.attempts).toBe(2);
+    expect(run.error).toBe('Database unavailable');
+    expect(mockRedis.values.has('jobs:broken:lock')).toBe(false);
+  });
+
+  it('should skip a run while another instance holds the lock', async () => {
+    const handler = jest.fn();
+    scheduler.register({ name: 'locked', description: 'Locked', schedule: '0 * * * *', handler });
+    start();
+    mockRedis.values.set('jobs:locked:lock', 'other-instance');
+
+    const run = await scheduler.runJob('locked', 'schedule');
+
+    expect(run.status).toBe('skipped');
+    expect(handler).not.toHaveBeenCalled();
+    expect(mockRedis.values.get('jobs:locked:lock')).toBe('other-instance');
+    expect((await scheduler.getStatus('locked')).running).toBe(true);
+  });
+
+  it('should keep the most recent runs in the history', async () => {
+    scheduler.register({ name: 'history', description: 'History', schedule: '0 * * * *', handler: jest.fn() });
+    start();
+
+    for (let i = 0; i < 25; i++) {
+      await scheduler.runJob('history', 'schedule');
+    }
+
+    const history = await scheduler.getHistory('history');
+    expect(history).toHaveLength(20);
+    expect(history[0].status).toBe('succeeded');
+  });
+
+  it('should throw for unknown jobs', async () => {
+    start();
+
+    expect(() => scheduler.trigger('missing')).toThrow(JobNotFoundError);
+    await expect(scheduler.getStatus('missing')).rejects.toThrow('Job missing is not registered');
+  });
+});
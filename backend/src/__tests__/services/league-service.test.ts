@@ -1,5 +1,6 @@
 import { LeagueService } from '../../services/league-service';
 import { SleeperAPIService } from '../../services/sleeper-api-service';
+import { PlayerService } from '../../services/player-service';
 import { PrismaClient } from '@prisma/client';
 
 // Mock dependencies
@@ -13,6 +14,7 @@ describe('LeagueService', () => {
   let leagueService: LeagueService;
   let mockSleeperAPI: jest.Mocked<SleeperAPIService>;
   let mockPrisma: jest.Mocked<PrismaClient>;
+  let mockPlayerService: jest.Mocked<PlayerService>;
   const mockFetch = global.fetch as jest.MockedFunction<typeof fetch>;
 
   beforeEach(() => {
@@ -34,8 +36,12 @@ describe('LeagueService', () => {
       },
     } as any;
 
+    mockPlayerService = {
+      getAllPlayers: jest.fn(),
+    } as any;
+
     // Create service with mocked dependencies
-    leagueService = new LeagueService(mockSleeperAPI, mockPrisma);
+    leagueService = new LeagueService(mockSleeperAPI, mockPrisma, mockPlayerService);
     
     // Clear all mocks
     jest.clearAllMocks();
@@ -105,9 +111,30 @@ describe('LeagueService', () => {
         rosters: mockLeagueData.rosters,
         users: mockLeagueData.users,
         currentWeek: 14,
+        scoring: {
+          format: 'standard',
+          summary: 'Standard (league scoring unavailable)',
+          settings: {},
+        },
       });
     });
 
+    it('should interpret the league scoring settings', async () => {
+      mockSleeperAPI.getLeagueDetailsBatch.mockResolvedValue({
+        ...mockLeagueData,
+        league: {
+          ...mockLeagueData.league,
+          scoring_settings: { pass_td: 6, pass_yd: 0.04, pass_int: -2, rec: 1, bonus_rec_te: 0.5 },
+        },
+      });
+      mockSleeperAPI.getNFLState.mockResolvedValue(mockNFLState);
+
+      const result = await leagueService.getLeagueDetails(mockLeagueId);
+
+      expect(result.scoring.format).toBe('ppr');
+      expect(result.scoring.summary).toBe('PPR, 6-pt passing TDs, TE premium (+0.5 per reception)');
+    });
+
     it('should fallback to MCP when direct API fails', async () => {
       // Direct API fails
       mockSleeperAPI.getLeagueDetailsBatch.mockRejectedValue(new Error('Direct API failed'));
@@ -504,12 +531,12 @@ describe('LeagueService', () => {
       jest.spyOn(leagueService, 'getUserRoster').mockResolvedValue(mockRoster);
     });
 
-    it('should get formatted roster players using direct API', async () => {
-      mockSleeperAPI.getAllPlayers.mockResolvedValue(mockPlayers);
+    it('should get formatted roster players from the player database', async () => {
+      mockPlayerService.getAllPlayers.mockResolvedValue(mockPlayers);
 
       const result = await leagueService.getUserRosterPlayers(mockLeagueId, mockUserId);
 
-      expect(mockSleeperAPI.getAllPlayers).toHaveBeenCalled();
+      expect(mockPlayerService.getAllPlayers).toHaveBeenCalled();
       expect(result).toEqual([
         {
           id: 'player1',
@@ -535,8 +562,8 @@ describe('LeagueService', () => {
       ]);
     });
 
-    it('should fallback to MCP when direct API fails for players', async () => {
-      mockSleeperAPI.getAllPlayers.mockRejectedValue(new Error('Direct API failed'));
+    it('should fallback to MCP when the player database fails', async () => {
+      mockPlayerService.getAllPlayers.mockRejectedValue(new Error('Database unavailable'));
 
       // Mock MCP success
       mockFetch.mockResolvedValueOnce({
@@ -546,7 +573,7 @@ describe('LeagueService', () => {
 
       const result = await leagueService.getUserRosterPlayers(mockLeagueId, mockUserId);
 
-      expect(mockSleeperAPI.getAllPlayers).toHaveBeenCalled();
+      expect(mockPlayerService.getAllPlayers).toHaveBeenCalled();
       expect(mockFetch).toHaveBeenCalled();
       expect(result).toHaveLength(3);
       expect(result[0].name).toBe('Josh Allen');
@@ -561,7 +588,7 @@ describe('LeagueService', () => {
     });
 
     it('should return empty array when no players found', async () => {
-      mockSleeperAPI.getAllPlayers.mockResolvedValue({});
+      mockPlayerService.getAllPlayers.mockResolvedValue({});
 
       const result = await leagueService.getUserRosterPlayers(mockLeagueId, mockUserId);
 
@@ -574,7 +601,7 @@ describe('LeagueService', () => {
         // player2 and player3 missing
       };
 
-      mockSleeperAPI.getAllPlayers.mockResolvedValue(incompletePlayersData as any);
+      mockPlayerService.getAllPlayers.mockResolvedValue(incompletePlayersData as any);
 
       const result = await leagueService.getUserRosterPlayers(mockLeagueId, mockUserId);
 
@@ -0,0 +1,165 @@
+import { LiveScoreboardService, isNFLGameWindow, LIVE_POLL_SECONDS, IDLE_POLL_SECONDS } from '../../services/live-scoreboard-service';
+import { SleeperAPIService } from '../../services/sleeper-api-service';
+import { PlayerService } from '../../services/player-service';
+
+// Mock dependencies
+jest.mock('@prisma/client');
+jest.mock('../../services/sleeper-api-service');
+jest.mock('../../services/player-service');
+
+describe('LiveScoreboardService', () => {
+  let scoreboardService: LiveScoreboardService;
+  let mockSleeperAPI: jest.Mocked<SleeperAPIService>;
+  let mockPlayerService: jest.Mocked<PlayerService>;
+
+  // Sunday 2pm Eastern and Wednesday noon Eastern
+  const sundayAfternoon = new Date('2024-10-06T18:00:00Z');
+  const wednesday = new Date('2024-10-09T16:00:00Z');
+
+  beforeEach(() => {
+    mockSleeperAPI = {
+      getLeague: jest.fn().mockResolvedValue({
+        league_id: 'sleeper-1',
+        season: '2024',
+        scoring_settings: { pass_yd: 0.04, pass_td: 4, rec: 1, rec_yd: 0.1 },
+        roster_positions: ['QB', 'WR', 'FLEX', 'BN', 'BN'],
+      }),
+      getLeagueRosters: jest.fn().mockResolvedValue([
+        { roster_id: 1, owner_id: 'sleeper-user1' },
+        { roster_id: 2, owner_id: 'sleeper-user2' },
+      ]),
+      getLeagueUsers: jest.fn().mockResolvedValue([
+        { user_id: 'sleeper-user1', display_name: 'One', metadata: { team_name: 'Bills Mafia' } },
+        { user_id: 'sleeper-user2', display_name: 'Two', metadata: {} },
+      ]),
+      getLeagueMatchups: jest.fn().mockResolvedValue([
+        {
+          roster_id: 1,
+          matchup_id: 1,
+          points: 30.4,
+          starters: ['4984', '2449', '0'],
+          players_points: { '4984': 22.4, '2449': 8 },
+        },
+        {
+          roster_id: 2,
+          matchup_id: 1,
+          points: 0,
+          starters: ['1466', '6794', '5859'],
+          players_points: {},
+        },
+      ]),
+      getNFLState: jest.fn().mockResolvedValue({ week: 5, season: '2024', season_type: 'regular' }),
+      getPlayerStats: jest.fn().mockResolvedValue({
+        '4984': { pass_yd: 260, pass_td: 3 },
+        '2449': { rec: 4, rec_yd: 40 },
+      }),
+      getPlayerProjections: jest.fn().mockResolvedValue({
+        '4984': { pass_yd: 250, pass_td: 2 },
+        '1466': { rec: 6, rec_yd: 70 },
+        '6794': { rec: 7, rec_yd: 90 },
+      }),
+    } as any;
+
+    mockPlayerService = {
+      getPlayers: jest.fn().mockResolvedValue({
+        '4984': { player_id: '4984', full_name: 'Josh Allen', position: 'QB', team: 'BUF' },
+        '2449': { player_id: '2449', full_name: 'Stefon Diggs', position: 'WR', team: 'HOU' },
+        '1466': { player_id: '1466', full_name: 'Travis Kelce', position: 'TE', team: 'KC' },
+        '6794': { player_id: '6794', full_name: 'Justin Jefferson', position: 'WR', team: 'MIN' },
+        '5859': { player_id: '5859', full_name: 'A.J. Brown', position: 'WR', team: 'PHI' },
+      }),
+    } as any;
+
+    scoreboardService = new LiveScoreboardService(mockSleeperAPI, mockPlayerService);
+    jest.spyOn(console, 'log').mockImplementation();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('getScoreboard', () => {
+    it('should project finals from the starters yet to play', async () => {
+      const scoreboard = await scoreboardService.getScoreboard('sleeper-1', 5, sundayAfternoon);
+
+      expect(mockSleeperAPI.getPlayerProjections).toHaveBeenCalledWith('nfl', '2024', 'regular', 5);
+      // Only the starters and the players with stats are looked up
+      expect(mockPlayerService.getPlayers).toHaveBeenCalledWith(['4984', '2449', '1466', '6794', '5859']);
+      expect(scoreboard.matchups).toHaveLength(1);
+      const [home, away] = scoreboard.matchups[0].teams;
+
+      expect(home).toMatchObject({ teamName: 'Bills Mafia', points: 30.4, pointsRemaining: 0, projectedFinal: 30.4, playersYetToPlay: 0 });
+      expect(home.starters.map(starter => [starter.slot, starter.status])).toEqual([
+        ['QB', 'started'],
+        ['WR', 'started'],
+        ['FLEX', 'not_playing'],
+      ]);
+      expect(home.starters[0]).toMatchObject({ name: 'Josh Allen', points: 22.4, projectedPoints: 18 });
+
+      // A.J. Brown has no projection, so he is treated as out
+      expect(away).toMatchObject({ teamName: 'Two', points: 0, pointsRemaining: 29, projectedFinal: 29, playersYetToPlay: 2 });
+      expect(away.starters.map(starter => starter.status)).toEqual(['yet_to_play', 'yet_to_play', 'not_playing']);
+    });
+
+    it('should poll quickly during games and slowly between them', async () => {
+      const live = await scoreboardService.getScoreboard('sleeper-1', 5, sundayAfternoon);
+      expect(live).toMatchObject({ isCurrentWeek: true, gamesInProgress: true, pollIntervalSeconds: LIVE_POLL_SECONDS });
+
+      const idle = await scoreboardService.getScoreboard('sleeper-1', 5, wednesday);
+      expect(idle).toMatchObject({ gamesInProgress: false, pollIntervalSeconds: IDLE_POLL_SECONDS });
+    });
+
+    it('should stop polling finished weeks', async () => {
+      mockSleeperAPI.getNFLState.mockResolvedValue({ week: 6, season: '2024', season_type: 'regular' });
+
+      const scoreboard = await scoreboardService.getScoreboard('sleeper-1', 5, sundayAfternoon);
+
+      expect(scoreboard).toMatchObject({ isCurrentWeek: false, gamesInProgress: false, pollIntervalSeconds: null });
+      expect(scoreboard.matchups[0].teams[1].starters.every(starter => starter.status === 'not_playing')).toBe(true);
+    });
+
+    it('should share one build per league and week for a short while', async () => {
+      const fewSecondsLater = new Date(sundayAfternoon.getTime() + 5 * 1000);
+      const minuteLater = new Date(sundayAfternoon.getTime() + 60 * 1000);
+
+      const [first, second] = await Promise.all([
+        scoreboardService.getScoreboard('sleeper-1', 5, sundayAfternoon),
+        scoreboardService.getScoreboard('sleeper-1', 5, fewSecondsLater),
+      ]);
+      expect(second).toBe(first);
+      expect(mockSleeperAPI.getLeagueMatchups).toHaveBeenCalledTimes(1);
+
+      await scoreboardService.getScoreboard('sleeper-1', 4, fewSecondsLater);
+      await scoreboardService.getScoreboard('sleeper-1', 5, minuteLater);
+      expect(mockSleeperAPI.getLeagueMatchups).toHaveBeenCalledTimes(3);
+    });
+
+    it('should not keep serving a failed build', async () => {
+      jest.spyOn(console, 'error').mockImplementation();
+      mockSleeperAPI.getLeagueMatchups.mockRejectedValueOnce(new Error('Service unavailable'));
+
+      await expect(scoreboardService.getScoreboard('sleeper-1', 5, sundayAfternoon)).rejects.toThrow();
+      const scoreboard = await scoreboardService.getScoreboard('sleeper-1', 5, sundayAfternoon);
+
+      expect(scoreboard.matchups).toHaveLength(1);
+    });
+
+    it('should wrap failures', async () => {
+      jest.spyOn(console, 'error').mockImplementation();
+      mockSleeperAPI.getLeagueMatchups.mockRejectedValue(new Error('Service unavailable'));
+
+      await expect(scoreboardService.getScoreboard('sleeper-1', 5))
+        .rejects.toThrow('Live scoreboard failed: Service unavailable');
+    });
+  });
+
+  describe('isNFLGameWindow', () => {
+    it('should follow Eastern kickoff windows', () => {
+      expect(isNFLGameWindow(new Date('2024-10-07T01:00:00Z'), 5)).toBe(true); // Sunday 9pm
+      expect(isNFLGameWindow(new Date('2024-10-06T12:00:00Z'), 5)).toBe(false); // Sunday 8am
+      expect(isNFLGameWindow(new Date('2024-10-08T00:30:00Z'), 5)).toBe(true); // Monday 8:30pm
+      expect(isNFLGameWindow(new Date('2024-12-21T19:00:00Z'), 15)).toBe(true); // Saturday in December
+      expect(isNFLGameWindow(new Date('2024-10-05T19:00:00Z'), 5)).toBe(false); // Saturday in October
+    });
+  });
+});
@@ -0,0 +1,186 @@
+import { MatchupPreviewService } from '../../services/matchup-preview-service';
+import { SleeperAPIService } from '../../services/sleeper-api-service';
+import { PlayerService } from '../../services/player-service';
+import { AIAgentClient } from '../../services/ai-agent-client';
+import { PrismaClient } from '@prisma/client';
+
+// Mock dependencies
+jest.mock('@prisma/client');
+jest.mock('../../services/player-service');
+
+describe('MatchupPreviewService', () => {
+  let matchupPreviewService: MatchupPreviewService;
+  let mockSleeperAPI: jest.Mocked<SleeperAPIService>;
+  let mockPlayerService: jest.Mocked<PlayerService>;
+  let mockAIAgents: jest.Mocked<AIAgentClient>;
+  let mockPrisma: any;
+
+  const analysis = {
+    teams: [
+      { rosterId: 1, teamName: 'Team A', projectedTotal: 38, stdDev: 9.5, winProbability: 0.62 },
+      { rosterId: 2, teamName: 'Team B', projectedTotal: 33, stdDev: 8.1, winProbability: 0.38 },
+    ],
+    favorite: 'Team A',
+    projectedMargin: 5,
+    positionBattles: [],
+    narrative: 'Team A is a slight favorite.',
+    keyFactors: [],
+    provider: 'claude',
+    model: 'claude-3-5-sonnet',
+  };
+
+  beforeEach(() => {
+    mockSleeperAPI = {
+      getNFLState: jest.fn().mockResolvedValue({ week: 5, season: '2024', season_type: 'regular' }),
+      getLeague: jest.fn().mockResolvedValue({
+        name: 'Dynasty Bros',
+        season: '2024',
+        roster_positions: ['QB', 'RB', 'BN'],
+        scoring_settings: { pass_td: 4, rush_yd: 0.1 },
+      }),
+      getLeagueRosters: jest.fn().mockResolvedValue([
+        { roster_id: 1, owner_id: 'sleeper-1' },
+        { roster_id: 2, owner_id: 'sleeper-2', co_owners: ['sleeper-4'] },
+        { roster_id: 3, owner_id: 'sleeper-3' },
+      ]),
+      getLeagueUsers: jest.fn().mockResolvedValue([
+        { user_id: 'sleeper-1', display_name: 'owner1', metadata: { team_name: 'Team A' } },
+        { user_id: 'sleeper-2', display_name: 'owner2', metadata: {} },
+      ]),
+      getLeagueMatchups: jest.fn().mockResolvedValue([
+        { roster_id: 2, matchup_id: 1, starters: ['qb2', '0'] },
+        { roster_id: 1, matchup_id: 1, starters: ['qb1', 'rb1'] },
+        { roster_id: 3, matchup_id: null, starters: [] },
+      ]),
+      getPlayerProjections: jest.fn().mockResolvedValue({
+        qb1: { pass_td: 2, rush_yd: 10 },
+        rb1: { rush_yd: 80 },
+        qb2: { pass_td: 3 },
+      }),
+    } as any;
+
+    mockPlayerService = {
+      getPlayers: jest.fn().mockResolvedValue({
+        qb1: { player_id: 'qb1', full_name: 'Josh Allen', position: 'QB', team: 'BUF' },
+        rb1: { player_id: 'rb1', full_name: 'Bijan Robinson', position: 'RB', team: 'ATL', injury_status: 'Questionable' },
+        qb2: { player_id: 'qb2', full_name: 'Lamar Jackson', position: 'QB', team: 'BAL' },
+      }),
+    } as any;
+
+    mockAIAgents = {
+      post: jest.fn().mockResolvedValue(analysis),
+    } as any;
+
+    mockPrisma = {
+      league: {
+        findUnique: jest.fn().mockResolvedValue({ id: 'league-1', season: 2024, sleeperLeagueId: 'sleeper-league-1' }),
+      },
+      user: {
+        findUnique: jest.fn().mockResolvedValue({ sleeperUserId: 'sleeper-2' }),
+      },
+      aIAnalysis: {
+        findFirst: jest.fn().mockResolvedValue(null),
+        create: jest.fn((args: any) => Promise.resolve({
+          id: 'preview-1',
+          ...args.data,
+          createdAt: new Date(),
+        })),
+      },
+    };
+
+    matchupPreviewService = new MatchupPreviewService(mockSleeperAPI, mockPrisma as PrismaClient, mockPlayerService, mockAIAgents);
+  });
+
+  describe('getPreview', () => {
+    it('should send both projected lineups to the preview agent and store the result', async () => {
+      const preview = await matchupPreviewService.getPreview('league-1', 'user-2');
+
+      expect(mockSleeperAPI.getLeagueMatchups).toHaveBeenCalledWith('sleeper-league-1', 5);
+      expect(mockAIAgents.post).toHaveBeenCalledWith('/ai/matchup-preview', {
+        leagueName: 'Dynasty Bros',
+        week: 5,
+        teams: [
+          {
+            rosterId: 1,
+            teamName: 'Team A',
+            ownerName: 'owner1',
+            starters: [
+              { playerId: 'qb1', name: 'Josh Allen', position: 'QB', nflTeam: 'BUF', slot: 'QB', projectedPoints: 9, injuryStatus: null },
+              { playerId: 'rb1', name: 'Bijan Robinson', position: 'RB', nflTeam: 'ATL', slot: 'RB', projectedPoints: 8, injuryStatus: 'Questionable' },
+            ],
+          },
+          {
+            rosterId: 2,
+            teamName: 'owner2',
+            ownerName: 'owner2',
+            starters: [
+              { playerId: 'qb2', name: 'Lamar Jackson', position: 'QB', nflTeam: 'BAL', slot: 'QB', projectedPoints: 12, injuryStatus: null },
+              { playerId: '0', name: 'Empty', position: null, nflTeam: null, slot: 'RB', projectedPoints: 0, injuryStatus: null },
+            ],
+          },
+        ],
+      });
+      expect(mockPrisma.aIAnalysis.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          userId: 'user-2',
+          leagueId: 'league-1',
+          analysisType: 'matchup_preview',
+          metadata: expect.objectContaining({ week: 5, matchupId: 1, lineupKey: 'qb1,rb1|qb2,0' }),
+        }),
+      });
+      expect(preview).toMatchObject({ id: 'preview-1', week: 5, matchupId: 1, viewerRosterId: 2, analysis });
+    });
+
+    it('should reuse a fresh preview when neither lineup has changed', async () => {
+      mockPrisma.aIAnalysis.findFirst.mockResolvedValue({
+        id: 'preview-0',
+        leagueId: 'league-1',
+        output: analysis,
+        metadata: { week: 5, matchupId: 1, lineupKey: 'qb1,rb1|qb2,0' },
+        createdAt: new Date(),
+      });
+
+      const preview = await matchupPreviewService.getPreview('league-1', 'user-2');
+
+      expect(preview?.id).toBe('preview-0');
+      expect(mockAIAgents.post).not.toHaveBeenCalled();
+      expect(mockPrisma.aIAnalysis.findFirst).toHaveBeenCalledWith(expect.objectContaining({
+        where: expect.objectContaining({
+          AND: expect.arrayContaining([{ output: { path: ['isFallback'], equals: false } }]),
+        }),
+      }));
+    });
+
+    it('should write a new preview after a lineup change', async () => {
+      mockPrisma.aIAnalysis.findFirst.mockResolvedValue({
+        id: 'preview-0',
+        leagueId: 'league-1',
+        output: analysis,
+        metadata: { week: 5, matchupId: 1, lineupKey: 'qb1,rb9|qb2,0' },
+        createdAt: new Date(),
+      });
+
+      const preview = await matchupPreviewService.getPreview('league-1', 'user-2');
+
+      expect(preview?.id).toBe('preview-1');
+      expect(mockAIAgents.post).toHaveBeenCalled();
+    });
+
+    it('should preview the matchup of a roster the user co-owns', async () => {
+      mockPrisma.user.findUnique.mockResolvedValue({ sleeperUserId: 'sleeper-4' });
+
+      const preview = await matchupPreviewService.getPreview('league-1', 'user-4');
+
+      expect(preview).toMatchObject({ matchupId: 1, viewerRosterId: 2 });
+    });
+
+    it('should return null for a team without an opponent', async () => {
+      mockPrisma.user.findUnique.mockResolvedValue({ sleeperUserId: 'sleeper-3' });
+
+      const preview = await matchupPreviewService.getPreview('league-1', 'user-3');
+
+      expect(preview).toBeNull();
+      expect(mockAIAgents.post).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,215 @@
+import { NotificationService, NotificationNotFoundError } from '../../services/notification-service';
+import { RealtimeGateway } from '../../services/realtime-gateway';
+import { EmailService, shouldEmail } from '../../services/email-service';
+import { PrismaClient } from '@prisma/client';
+
+// Mock dependencies
+jest.mock('@prisma/client');
+jest.mock('../../services/realtime-gateway');
+jest.mock('../../services/email-service');
+
+describe('NotificationService', () => {
+  let notificationService: NotificationService;
+  let mockRealtime: jest.Mocked<RealtimeGateway>;
+  let mockEmail: jest.Mocked<EmailService>;
+  let mockPrisma: any;
+
+  const notificationRow = (id: string, overrides: any = {}) => ({
+    id,
+    userId: 'user-1',
+    type: 'player_news',
+    title: 'Injury update',
+    message: 'Josh Allen is questionable',
+    actionUrl: null,
+    read: false,
+    priority: 'medium',
+    createdAt: new Date('2024-10-06T12:00:00Z'),
+    expiresAt: null,
+    ...overrides,
+  });
+
+  beforeEach(() => {
+    mockPrisma = {
+      user: {
+        findUnique: jest.fn().mockResolvedValue({ preferences: null }),
+        update: jest.fn().mockResolvedValue({}),
+      },
+      notification: {
+        create: jest.fn((args: any) => Promise.resolve(notificationRow('new', args.data))),
+        findMany: jest.fn().mockResolvedValue([]),
+        findFirst: jest.fn().mockResolvedValue(null),
+        count: jest.fn().mockResolvedValue(0),
+        update: jest.fn((args: any) => Promise.resolve(notificationRow(args.where.id, args.data))),
+        updateMany: jest.fn().mockResolvedValue({ count: 3 }),
+        delete: jest.fn().mockResolvedValue({}),
+        deleteMany: jest.fn().mockResolvedValue({ count: 2 }),
+      },
+    };
+
+    mockRealtime = {
+      publishToUser: jest.fn().mockResolvedValue(undefined),
+    } as any;
+
+    mockEmail = {
+      sendNotificationEmail: jest.fn().mockResolvedValue({ id: 'delivery-1', status: 'sent' }),
+    } as any;
+    (shouldEmail as jest.Mock).mockImplementation((type: string, settings: any) =>
+      settings.email && type !== 'achievement_unlocked' && (type !== 'trade_offer' || settings.tradeAlertEmail));
+
+    notificationService = new NotificationService(mockPrisma as PrismaClient, mockRealtime, mockEmail);
+  });
+
+  describe('notify', () => {
+    it('should store and push notifications with default settings', async () => {
+      const notification = await notificationService.notify('user-1', {
+        type: 'player_news',
+        title: 'Injury update',
+        message: 'Josh Allen is questionable',
+        priority: 'high',
+      });
+
+      expect(mockPrisma.notification.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ userId: 'user-1', type: 'player_news', priority: 'high' }),
+      });
+      expect(notification).toMatchObject({ id: 'new', priority: 'high', createdAt: '2024-10-06T12:00:00.000Z' });
+      expect(mockRealtime.publishToUser).toHaveBeenCalledWith('user-1', 'notification', notification);
+    });
+
+    it('should skip types the user switched off', async () => {
+      mockPrisma.user.findUnique.mockResolvedValue({
+        preferences: { notificationSettings: { weeklyReport: false } },
+      });
+
+      const notification = await notificationService.notify('user-1', {
+        type: 'weekly_report',
+        title: 'Week 5 recap',
+        message: 'You won by 12',
+      });
+
+      expect(notification).toBeNull();
+      expect(mockPrisma.notification.create).not.toHaveBeenCalled();
+    });
+
+    it('should store but not push when push is off', async () => {
+      mockPrisma.user.findUnique.mockResolvedValue({
+        preferences: { notificationSettings: { push: false } },
+      });
+
+      const notification = await notificationService.notify('user-1', {
+        type: 'trade_offer',
+        title: 'Trade offer',
+        message: 'Two sent you a trade',
+      });
+
+      expect(notification).not.toBeNull();
+      expect(mockRealtime.publishToUser).not.toHaveBeenCalled();
+    });
+
+    it('should email notifications that have a template when email is on', async () => {
+      const user = { id: 'user-1', email: 'one@example.com', displayName: 'One' };
+      mockPrisma.user.findUnique.mockResolvedValueOnce({ preferences: null }).mockResolvedValueOnce(user);
+
+      const notification = await notificationService.notify('user-1', {
+        type: 'trade_offer',
+        title: 'Trade offer',
+        message: 'Two sent you a trade',
+      });
+
+      expect(mockEmail.sendNotificationEmail).toHaveBeenCalledWith(user, notification);
+    });
+
+    it('should keep the notification but skip the email when only its email setting is off', async () => {
+      mockPrisma.user.findUnique.mockResolvedValueOnce({ preferences: { notificationSettings: { tradeAlertEmail: false } } });
+
+      const notification = await notificationService.notify('user-1', {
+        type: 'trade_offer',
+        title: 'Trade offer',
+        message: 'Two sent you a trade',
+      });
+
+      expect(notification).not.toBeNull();
+      expect(mockEmail.sendNotificationEmail).not.toHaveBeenCalled();
+    });
+
+    it('should not email when email is off, nor fail when sending throws', async () => {
+      mockPrisma.user.findUnique.mockResolvedValueOnce({ preferences: { notificationSettings: { email: false } } });
+      await notificationService.notify('user-1', { type: 'player_news', title: 'Injury update', message: 'Out' });
+      expect(mockEmail.sendNotificationEmail).not.toHaveBeenCalled();
+
+      await notificationService.notify('user-1', { type: 'achievement_unlocked', title: 'Trophy', message: 'Won the week' });
+      expect(mockEmail.sendNotificationEmail).not.toHaveBeenCalled();
+
+      mockPrisma.user.findUnique.mockResolvedValueOnce({ preferences: null }).mockResolvedValueOnce({ id: 'user-1' });
+      mockEmail.sendNotificationEmail.mockRejectedValueOnce(new Error('Database down'));
+      await expect(notificationService.notify('user-1', {
+        type: 'player_news',
+        title: 'Injury update',
+        message: 'Out',
+      })).resolves.not.toBeNull();
+    });
+  });
+
+  describe('updateNotificationSettings', () => {
+    it('should merge changes into the saved settings and keep other preferences', async () => {
+      mockPrisma.user.findUnique.mockResolvedValue({
+        preferences: { theme: 'dark', notificationSettings: { push: false } },
+      });
+
+      const settings = await notificationService.updateNotificationSettings('user-1', { email: false });
+
+      expect(settings).toEqual({
+        email: false,
+        push: false,
+        weeklyReport: true,
+        tradeAlerts: true,
+        weeklyReportEmail: true,
+        tradeAlertEmail: true,
+      });
+      expect(mockPrisma.user.update).toHaveBeenCalledWith({
+        where: { id: 'user-1' },
+        data: { preferences: { theme: 'dark', notificationSettings: settings } },
+      });
+    });
+  });
+
+  describe('getNotifications', () => {
+    it('should hide expired notifications and count unread ones', async () => {
+      mockPrisma.notification.findMany.mockResolvedValue([notificationRow('b'), notificationRow('a', { read: true })]);
+      mockPrisma.notification.count.mockResolvedValueOnce(2).mockResolvedValueOnce(1);
+
+      const result = await notificationService.getNotifications('user-1', { limit: 500 });
+
+      const { where, take } = mockPrisma.notification.findMany.mock.calls[0][0];
+      expect(where).toEqual({ userId: 'user-1', OR: [{ expiresAt: null }, { expiresAt: { gt: expect.any(Date) } }] });
+      expect(take).toBe(50);
+      expect(result.items.map(item => item.id)).toEqual(['b', 'a']);
+      expect(result.unreadCount).toBe(1);
+      expect(result.pagination).toMatchObject({ page: 1, total: 2, hasNext: false });
+    });
+  });
+
+  describe('markRead and deleteNotification', () => {
+    it('should only change the user\'s own notifications', async () => {
+      await expect(notificationService.markRead('user-2', 'note-1')).rejects.toThrow(NotificationNotFoundError);
+      expect(mockPrisma.notification.findFirst).toHaveBeenCalledWith({ where: { id: 'note-1', userId: 'user-2' } });
+      expect(mockPrisma.notification.update).not.toHaveBeenCalled();
+
+      mockPrisma.notification.findFirst.mockResolvedValue(notificationRow('note-1'));
+      const notification = await notificationService.markRead('user-1', 'note-1');
+      expect(notification.read).toBe(true);
+
+      await notificationService.deleteNotification('user-1', 'note-1');
+      expect(mockPrisma.notification.delete).toHaveBeenCalledWith({ where: { id: 'note-1' } });
+    });
+
+    it('should mark everything read at once', async () => {
+      const result = await notificationService.markAllRead('user-1');
+
+      expect(mockPrisma.notification.updateMany).toHaveBeenCalledWith({
+        where: { userId: 'user-1', read: false },
+        data: { read: true },
+      });
+      expect(result).toEqual({ updated: 3 });
+    });
+  });
+});
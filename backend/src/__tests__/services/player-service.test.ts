@@ -0,0 +1,202 @@
+import { PlayerService } from '../../services/player-service';
+import { SleeperAPIService } from '../../services/sleeper-api-service';
+import { PrismaClient } from '@prisma/client';
+
+// Mock dependencies
+jest.mock('@prisma/client');
+jest.mock('../../services/sleeper-api-service');
+
+const sleeperPlayer = (overrides: Record<string, any> = {}) => ({
+  player_id: '4046',
+  first_name: 'Patrick',
+  last_name: 'Mahomes',
+  full_name: 'Patrick Mahomes',
+  position: 'QB',
+  team: 'KC',
+  age: 29,
+  years_exp: 7,
+  status: 'Active',
+  fantasy_positions: ['QB'],
+  injury_status: null,
+  search_rank: 12,
+  ...overrides,
+});
+
+const storedPlayer = (overrides: Record<string, any> = {}) => ({
+  id: 'db-4046',
+  sleeperPlayerId: '4046',
+  firstName: 'Patrick',
+  lastName: 'Mahomes',
+  fullName: 'Patrick Mahomes',
+  position: 'QB',
+  team: 'KC',
+  age: 29,
+  experience: 7,
+  status: 'Active',
+  fantasyPositions: ['QB'],
+  metadata: { search_rank: 12 },
+  ...overrides,
+});
+
+describe('PlayerService', () => {
+  let playerService: PlayerService;
+  let mockSleeperAPI: jest.Mocked<SleeperAPIService>;
+  let mockPrisma: any;
+
+  beforeEach(() => {
+    mockSleeperAPI = {
+      getAllPlayers: jest.fn(),
+    } as any;
+
+    mockPrisma = {
+      player: {
+        findMany: jest.fn(),
+        createMany: jest.fn().mockResolvedValue({ count: 0 }),
+        update: jest.fn((args: any) => args),
+      },
+      $transaction: jest.fn().mockResolvedValue([]),
+    };
+
+    playerService = new PlayerService(mockSleeperAPI, mockPrisma as PrismaClient);
+    jest.spyOn(console, 'log').mockImplementation();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('syncPlayers', () => {
+    it('should create players that are not stored yet', async () => {
+      mockSleeperAPI.getAllPlayers.mockResolvedValue({ '4046': sleeperPlayer() } as any);
+      mockPrisma.player.findMany.mockResolvedValue([]);
+
+      const result = await playerService.syncPlayers();
+
+      expect(result).toMatchObject({ total: 1, created: 1, updated: 0, unchanged: 0, changes: [] });
+      expect(mockPrisma.player.createMany).toHaveBeenCalledWith({
+        data: [expect.objectContaining({
+          sleeperPlayerId: '4046',
+          fullName: 'Patrick Mahomes',
+          team: 'KC',
+          experience: 7,
+          metadata: { search_rank: 12 },
+        })],
+        skipDuplicates: true,
+      });
+      expect(mockPrisma.$transaction).not.toHaveBeenCalled();
+    });
+
+    it('should leave unchanged players alone', async () => {
+      mockSleeperAPI.getAllPlayers.mockResolvedValue({ '4046': sleeperPlayer() } as any);
+      mockPrisma.player.findMany.mockResolvedValue([storedPlayer()]);
+
+      const result = await playerService.syncPlayers();
+
+      expect(result).toMatchObject({ created: 0, updated: 0, unchanged: 1 });
+      expect(mockPrisma.player.createMany).not.toHaveBeenCalled();
+      expect(mockPrisma.$transaction).not.toHaveBeenCalled();
+    });
+
+    it('should update players and report team, status and injury changes', async () => {
+      mockSleeperAPI.getAllPlayers.mockResolvedValue({
+        '4046': sleeperPlayer({ team: 'LV', status: 'Injured Reserve', injury_status: 'IR' }),
+      } as any);
+      mockPrisma.player.findMany.mockResolvedValue([storedPlayer()]);
+
+      const result = await playerService.syncPlayers();
+
+      expect(result).toMatchObject({ created: 0, updated: 1, unchanged: 0 });
+      expect(result.changes).toEqual([
+        expect.objectContaining({ sleeperPlayerId: '4046', field: 'team', previous: 'KC', current: 'LV' }),
+        expect.objectContaining({ field: 'status', previous: 'Active', current: 'Injured Reserve' }),
+        expect.objectContaining({ field: 'injury', previous: null, current: 'IR' }),
+      ]);
+      expect(mockPrisma.player.update).toHaveBeenCalledWith({
+        where: { sleeperPlayerId: '4046' },
+        data: expect.objectContaining({ team: 'LV', metadata: { search_rank: 12, injury_status: 'IR' } }),
+      });
+      expect(mockPrisma.$transaction).toHaveBeenCalledTimes(1);
+    });
+
+    it('should update changed metadata without reporting a change', async () => {
+      mockSleeperAPI.getAllPlayers.mockResolvedValue({ '4046': sleeperPlayer({ search_rank: 3 }) } as any);
+      mockPrisma.player.findMany.mockResolvedValue([storedPlayer()]);
+
+      const result = await playerService.syncPlayers();
+
+      expect(result.updated).toBe(1);
+      expect(result.changes).toEqual([]);
+    });
+
+    it('should fail when Sleeper returns no players', async () => {
+      jest.spyOn(console, 'error').mockImplementation();
+      mockSleeperAPI.getAllPlayers.mockResolvedValue({});
+
+      await expect(playerService.syncPlayers()).rejects.toThrow('Player sync failed: Sleeper returned no players');
+      expect(mockPrisma.player.findMany).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getAllPlayers', () => {
+    it('should return stored players in Sleeper format', async () => {
+      mockPrisma.player.findMany.mockResolvedValue([storedPlayer({ metadata: { injury_status: 'Questionable' } })]);
+
+      const players = await playerService.getAllPlayers();
+
+      expect(players['4046']).toMatchObject({
+        player_id: '4046',
+        full_name: 'Patrick Mahomes',
+        team: 'KC',
+        years_exp: 7,
+        fantasy_positions: ['QB'],
+        injury_status: 'Questionable',
+      });
+      expect(mockSleeperAPI.getAllPlayers).not.toHaveBeenCalled();
+    });
+
+    it('should serve repeat and concurrent calls from memory', async () => {
+      mockPrisma.player.findMany.mockResolvedValue([storedPlayer()]);
+
+      await Promise.all([playerService.getAllPlayers(), playerService.getAllPlayers()]);
+      await playerService.getAllPlayers();
+
+      expect(mockPrisma.player.findMany).toHaveBeenCalledTimes(1);
+    });
+
+    it('should seed an empty table from Sleeper', async () => {
+      mockPrisma.player.findMany
+        .mockResolvedValueOnce([]) // initial load
+        .mockResolvedValueOnce([]) // sync diff
+        .mockResolvedValueOnce([storedPlayer()]); // reload after seeding
+      mockSleeperAPI.getAllPlayers.mockResolvedValue({ '4046': sleeperPlayer() } as any);
+
+      const players = await playerService.getAllPlayers();
+
+      expect(mockSleeperAPI.getAllPlayers).toHaveBeenCalledTimes(1);
+      expect(mockPrisma.player.createMany).toHaveBeenCalled();
+      expect(Object.keys(players)).toEqual(['4046']);
+    });
+
+    it('should reload from the database after a sync', async () => {
+      mockPrisma.player.findMany.mockResolvedValue([storedPlayer()]);
+      mockSleeperAPI.getAllPlayers.mockResolvedValue({ '4046': sleeperPlayer() } as any);
+
+      await playerService.getAllPlayers();
+      await playerService.syncPlayers();
+      await playerService.getAllPlayers();
+
+      // Load, sync diff, reload
+      expect(mockPrisma.player.findMany).toHaveBeenCalledTimes(3);
+    });
+  });
+
+  describe('getPlayers', () => {
+    it('should return only the requested players that exist', async () => {
+      mockPrisma.player.findMany.mockResolvedValue([storedPlayer()]);
+
+      const players = await playerService.getPlayers(['4046', 'missing']);
+
+      expect(Object.keys(players)).toEqual(['4046']);
+    });
+  });
+});
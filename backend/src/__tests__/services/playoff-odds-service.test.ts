@@ -0,0 +1,209 @@
+import { PlayoffOddsService } from '../../services/playoff-odds-service';
+import { SleeperAPIService } from '../../services/sleeper-api-service';
+import { PrismaClient } from '@prisma/client';
+
+// Mock dependencies
+jest.mock('@prisma/client');
+jest.mock('../../services/sleeper-api-service');
+
+describe('PlayoffOddsService', () => {
+  let playoffOddsService: PlayoffOddsService;
+  let mockSleeperAPI: jest.Mocked<SleeperAPIService>;
+  let mockPrisma: any;
+
+  const sleeperLeagueId = 'sleeper-league-1';
+
+  const createRoster = (rosterId: number, wins: number, losses: number, fpts: number) => ({
+    roster_id: rosterId,
+    owner_id: `user${rosterId}`,
+    user_id: `user${rosterId}`,
+    league_id: sleeperLeagueId,
+    players: [],
+    starters: [],
+    reserve: [],
+    taxi: [],
+    settings: {
+      wins,
+      losses,
+      ties: 0,
+      fpts,
+      fpts_against: 0,
+      fpts_decimal: 0,
+      fpts_against_decimal: 0,
+    },
+    metadata: {},
+  });
+
+  // 4 teams, 6 week regular season, 4 weeks played, top 2 make the playoffs
+  const mockLeagueDetails = {
+    league: {
+      league_id: sleeperLeagueId,
+      name: 'Test League',
+      season: '2024',
+      status: 'in_season',
+      sport: 'nfl',
+      settings: { playoff_teams: 2, playoff_week_start: 7 },
+      scoring_settings: {},
+      roster_positions: ['QB', 'RB', 'WR'],
+      total_rosters: 4,
+    },
+    rosters: [
+      createRoster(1, 4, 0, 520),
+      createRoster(2, 3, 1, 440),
+      createRoster(3, 1, 3, 430),
+      createRoster(4, 0, 4, 360),
+    ],
+    users: [1, 2, 3, 4].map(id => ({
+      user_id: `user${id}`,
+      username: `user${id}`,
+      display_name: `Owner ${id}`,
+      avatar: '',
+      metadata: { team_name: `Team ${id}` },
+    })),
+  };
+
+  const scheduleForWeek = (week: number) => {
+    // Weeks alternate opponents; completed weeks carry points
+    const pairs = week % 2 === 0 ? [[1, 2], [3, 4]] : [[1, 3], [2, 4]];
+    const basePoints: Record<number, number> = { 1: 130, 2: 110, 3: 108, 4: 90 };
+    return pairs.flatMap(([home, away], index) => [home, away].map(rosterId => ({
+      roster_id: rosterId,
+      matchup_id: index + 1,
+      points: week <= 4 ? basePoints[rosterId] : 0,
+      players: [],
+      starters: [],
+      players_points: {},
+      starters_points: {},
+    })));
+  };
+
+  beforeEach(() => {
+    mockSleeperAPI = {
+      getLeague: jest.fn().mockResolvedValue(mockLeagueDetails.league),
+      getLeagueDetailsBatch: jest.fn().mockResolvedValue(mockLeagueDetails),
+      getNFLState: jest.fn().mockResolvedValue({ week: 5, season: '2024', season_type: 'regular' }),
+      getLeagueMatchups: jest.fn().mockImplementation((_leagueId: string, week: number) =>
+        Promise.resolve(scheduleForWeek(week))
+      ),
+    } as any;
+
+    mockPrisma = {
+      playoffScenario: {
+        findUnique: jest.fn().mockResolvedValue(null),
+        upsert: jest.fn().mockImplementation(({ create }: any) =>
+          Promise.resolve({ ...create, id: 'scenario1', createdAt: new Date('2024-10-01T00:00:00Z') })
+        ),
+      },
+    };
+
+    playoffOddsService = new PlayoffOddsService(mockSleeperAPI, mockPrisma as PrismaClient);
+  });
+
+  describe('getPlayoffOdds', () => {
+    it('should simulate at least 10k seasons and persist the scenario', async () => {
+      const result = await playoffOddsService.getPlayoffOdds('league1', sleeperLeagueId, { seed: 42 });
+
+      expect(result.simulationRuns).toBeGreaterThanOrEqual(10000);
+      expect(result.week).toBe(5);
+      expect(result.playoffTeams).toBe(2);
+      expect(result.teams).toHaveLength(4);
+
+      const totalPlayoffOdds = result.teams.reduce((sum, team) => sum + team.playoffOdds, 0);
+      const totalChampOdds = result.teams.reduce((sum, team) => sum + team.champOdds, 0);
+      expect(totalPlayoffOdds).toBeCloseTo(2, 2);
+      expect(totalChampOdds).toBeCloseTo(1, 2);
+
+      expect(mockPrisma.playoffScenario.upsert).toHaveBeenCalledWith(expect.objectContaining({
+        where: { leagueId_week: { leagueId: 'league1', week: 5 } },
+      }));
+      // Remaining weeks 5 and 6 are read from the schedule
+      expect(mockSleeperAPI.getLeagueMatchups).toHaveBeenCalledWith(sleeperLeagueId, 6);
+    });
+
+    it('should mark clinched and eliminated teams with readable scenarios', async () => {
+      const result = await playoffOddsService.getPlayoffOdds('league1', sleeperLeagueId, { seed: 7 });
+      const leader = result.teams.find(team => team.rosterId === 1)!;
+      const last = result.teams.find(team => team.rosterId === 4)!;
+
+      expect(leader.clinched).toBe(true);
+      expect(leader.playoffOdds).toBe(1);
+      expect(leader.scenarios).toContain('Clinched a playoff spot');
+
+      expect(last.eliminated).toBe(true);
+      expect(last.playoffOdds).toBe(0);
+      expect(last.scenarios).toContain('Eliminated from playoff contention');
+    });
+
+    it('should describe next-week swings for teams on the bubble', async () => {
+      const result = await playoffOddsService.getPlayoffOdds('league1', sleeperLeagueId, { seed: 7 });
+      const bubble = result.teams.find(team => team.rosterId === 3)!;
+
+      expect(bubble.clinched).toBe(false);
+      expect(bubble.eliminated).toBe(false);
+      expect(bubble.scenarios.some(text => text.startsWith('With a win over Team 1 in week 5'))).toBe(true);
+      expect(bubble.mustWin).toContain('Beat Team 1 in week 5');
+      expect(bubble.help.some(text => text.includes('Team 4 beating Team 2'))).toBe(true);
+    });
+
+    it('should return the stored simulation unless a refresh is requested', async () => {
+      const storedTeams = [{ userId: 'user1', playoffOdds: 1, champOdds: 0.6 }];
+      mockPrisma.playoffScenario.findUnique.mockResolvedValue({
+        id: 'scenario1',
+        leagueId: 'league1',
+        week: 5,
+        scenarios: storedTeams,
+        simulationRuns: 10000,
+        createdAt: new Date('2024-10-01T00:00:00Z'),
+      });
+
+      const cached = await playoffOddsService.getPlayoffOdds('league1', sleeperLeagueId);
+      expect(cached.teams).toEqual(storedTeams);
+      expect(mockPrisma.playoffScenario.upsert).not.toHaveBeenCalled();
+
+      await playoffOddsService.getPlayoffOdds('league1', sleeperLeagueId, { refresh: true, seed: 1 });
+      expect(mockPrisma.playoffScenario.upsert).toHaveBeenCalled();
+    });
+
+    it('should wrap Sleeper API failures', async () => {
+      mockSleeperAPI.getLeagueDetailsBatch.mockRejectedValue(new Error('Sleeper down'));
+
+      await expect(playoffOddsService.getPlayoffOdds('league1', sleeperLeagueId))
+        .rejects.toThrow('Playoff odds simulation failed: Sleeper down');
+    });
+  });
+
+  describe('getStoredPlayoffOdds', () => {
+    it('should return the stored simulation without running one', async () => {
+      const storedTeams = [{ userId: 'user1', playoffOdds: 1, champOdds: 0.6 }];
+      mockPrisma.playoffScenario.findUnique.mockResolvedValue({
+        id: 'scenario1',
+        leagueId: 'league1',
+        week: 5,
+        scenarios: storedTeams,
+        simulationRuns: 50000,
+        createdAt: new Date('2024-10-01T00:00:00Z'),
+      });
+
+      const stored = await playoffOddsService.getStoredPlayoffOdds('league1', sleeperLeagueId);
+
+      expect(stored).toEqual(expect.objectContaining({
+        week: 5,
+        simulationRuns: 50000,
+        playoffTeams: 2,
+        regularSeasonWeeks: 6,
+        teams: storedTeams,
+      }));
+      expect(mockPrisma.playoffScenario.findUnique).toHaveBeenCalledWith({
+        where: { leagueId_week: { leagueId: 'league1', week: 5 } },
+      });
+      expect(mockPrisma.playoffScenario.upsert).not.toHaveBeenCalled();
+      expect(mockSleeperAPI.getLeagueDetailsBatch).not.toHaveBeenCalled();
+      expect(mockSleeperAPI.getLeagueMatchups).not.toHaveBeenCalled();
+    });
+
+    it('should return null when nothing has been simulated yet', async () => {
+      await expect(playoffOddsService.getStoredPlayoffOdds('league1', sleeperLeagueId)).resolves.toBeNull();
+      expect(mockPrisma.playoffScenario.upsert).not.toHaveBeenCalled();
+    });
+  });
+});
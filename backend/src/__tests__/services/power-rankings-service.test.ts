@@ -0,0 +1,258 @@
+import { PowerRankingsService } from '../../services/power-rankings-service';
+import { SleeperAPIService } from '../../services/sleeper-api-service';
+import { AIService } from '../../services/ai-service';
+import { PlayerService } from '../../services/player-service';
+import { PrismaClient } from '@prisma/client';
+
+// Mock dependencies
+jest.mock('@prisma/client');
+jest.mock('../../services/sleeper-api-service');
+jest.mock('../../services/ai-service');
+jest.mock('../../services/player-service');
+
+describe('PowerRankingsService', () => {
+  let powerRankingsService: PowerRankingsService;
+  let mockSleeperAPI: jest.Mocked<SleeperAPIService>;
+  let mockAIService: jest.Mocked<AIService>;
+  let mockPlayerService: jest.Mocked<PlayerService>;
+  let mockPrisma: any;
+
+  const sleeperLeagueId = 'sleeper-league-1';
+
+  const mockLeague = {
+    league_id: sleeperLeagueId,
+    name: 'Test League',
+    season: '2024',
+    status: 'in_season',
+    sport: 'nfl',
+    settings: { playoff_week_start: 15 },
+    scoring_settings: {},
+    roster_positions: ['QB', 'RB', 'BN'],
+    total_rosters: 4,
+  };
+
+  const mockRosters = [1, 2, 3, 4].map(rosterId => ({
+    roster_id: rosterId,
+    owner_id: `user${rosterId}`,
+    league_id: sleeperLeagueId,
+    players: [],
+    starters: [],
+    settings: {},
+  }));
+
+  const mockUsers = [1, 2, 3, 4].map(id => ({
+    user_id: `user${id}`,
+    username: `user${id}`,
+    display_name: `Owner ${id}`,
+    avatar: '',
+    metadata: { team_name: `Team ${id}` },
+  }));
+
+  // Weekly team scores. Team 2 is the second best scorer but keeps drawing
+  // Team 1, while Team 3 wins with low scores against Team 4.
+  const weeklyScores: Record<number, Record<number, number>> = {
+    1: { 1: 100, 2: 140, 3: 90, 4: 80 },
+    2: { 1: 150, 2: 130, 3: 95, 4: 90 },
+    3: { 1: 160, 2: 115, 3: 100, 4: 95 },
+  };
+
+  const matchupsForWeek = (week: number) => {
+    const scores = weeklyScores[week] || {};
+    return [[1, 2], [3, 4]].flatMap(([home, away], index) => [home, away].map(rosterId => ({
+      roster_id: rosterId,
+      matchup_id: index + 1,
+      points: scores[rosterId] || 0,
+      players: [`p${rosterId}a`, `p${rosterId}b`, `p${rosterId}c`],
+      starters: [`p${rosterId}a`, `p${rosterId}b`],
+      players_points: {
+        [`p${rosterId}a`]: (scores[rosterId] || 0) * 0.6,
+        [`p${rosterId}b`]: (scores[rosterId] || 0) * 0.4,
+        [`p${rosterId}c`]: 5,
+      },
+      starters_points: {},
+    })));
+  };
+
+  beforeEach(() => {
+    mockSleeperAPI = {
+      getLeague: jest.fn().mockResolvedValue(mockLeague),
+      getLeagueRosters: jest.fn().mockResolvedValue(mockRosters),
+      getLeagueUsers: jest.fn().mockResolvedValue(mockUsers),
+      getNFLState: jest.fn().mockResolvedValue({ week: 4, season: '2024', season_type: 'regular' }),
+      getLeagueMatchups: jest.fn().mockImplementation((_leagueId: string, week: number) =>
+        Promise.resolve(matchupsForWeek(week))
+      ),
+    } as any;
+
+    mockAIService = {
+      chat: jest.fn(),
+    } as any;
+
+    mockPrisma = {
+      powerRanking: {
+        findUnique: jest.fn().mockResolvedValue(null),
+        findMany: jest.fn().mockResolvedValue([]),
+        upsert: jest.fn().mockImplementation(({ create }: any) =>
+          Promise.resolve({ ...create, id: `ranking${create.week}`, createdAt: new Date('2024-10-01T00:00:00Z') })
+        ),
+      },
+      userLeague: {
+        findMany: jest.fn().mockResolvedValue([
+          { userId: 'db-user-1', sleeperRosterId: '1' },
+          { userId: 'db-user-2', sleeperRosterId: '2' },
+        ]),
+      },
+      weeklyAnalytics: {
+        upsert: jest.fn().mockResolvedValue({}),
+      },
+    };
+
+    // Every team's "a" player is a QB and the rest are RBs
+    mockPlayerService = {
+      getPlayers: jest.fn().mockImplementation((playerIds: string[]) => Promise.resolve(Object.fromEntries(
+        playerIds.map(playerId => [playerId, { player_id: playerId, position: playerId.endsWith('a') ? 'QB' : 'RB' }])
+      ))),
+    } as any;
+
+    powerRankingsService = new PowerRankingsService(
+      mockSleeperAPI,
+      mockPrisma as PrismaClient,
+      mockAIService,
+      mockPlayerService
+    );
+  });
+
+  describe('getPowerRankings', () => {
+    it('should rank teams through the last completed week and store weekly analytics', async () => {
+      const result = await powerRankingsService.getPowerRankings('league1', sleeperLeagueId);
+
+      expect(result).not.toBeNull();
+      expect(result!.week).toBe(3);
+      expect(result!.rankings.map(entry => entry.rosterId)).toEqual([1, 2, 3, 4]);
+
+      const team2 = result!.rankings.find(entry => entry.rosterId === 2)!;
+      expect(team2.metrics.record).toEqual({ wins: 1, losses: 2, ties: 0 });
+      expect(team2.metrics.allPlay).toEqual({ wins: 7, losses: 2, ties: 0, winPct: 0.778 });
+      expect(team2.metrics.scheduleLuck).toBeCloseTo(-1.33, 2);
+      expect(team2.components.scheduleLuck).toBe(100);
+
+      const team3 = result!.rankings.find(entry => entry.rosterId === 3)!;
+      expect(team3.metrics.record.wins).toBe(3);
+      expect(team3.metrics.scheduleLuck).toBeGreaterThan(0);
+
+      expect(mockPrisma.powerRanking.upsert).toHaveBeenCalledWith(expect.objectContaining({
+        where: { leagueId_week: { leagueId: 'league1', week: 3 } },
+      }));
+      // Only members with an account get weekly analytics rows
+      expect(mockPrisma.weeklyAnalytics.upsert).toHaveBeenCalledTimes(2);
+      expect(mockPrisma.weeklyAnalytics.upsert).toHaveBeenCalledWith(expect.objectContaining({
+        where: { leagueId_userId_week: { leagueId: 'league1', userId: 'db-user-2', week: 3 } },
+        create: expect.objectContaining({ powerRanking: 2 }),
+      }));
+    });
+
+    it('should measure roster strength with one eligible player per starting slot', async () => {
+      mockPlayerService.getPlayers.mockImplementation((playerIds: string[]) => Promise.resolve(Object.fromEntries(
+        playerIds.map(playerId => [playerId, { player_id: playerId, position: playerId.endsWith('a') || playerId === 'p1b' ? 'QB' : 'RB' }])
+      )) as any);
+
+      const result = await powerRankingsService.getPowerRankings('league1', sleeperLeagueId);
+
+      // Team 1's two best players are both QBs, so its RB slot goes to p1c
+      const team1 = result!.rankings.find(entry => entry.rosterId === 1)!;
+      expect(team1.metrics.rosterStrength).toBe(87);
+      const team2 = result!.rankings.find(entry => entry.rosterId === 2)!;
+      expect(team2.metrics.rosterStrength).toBeCloseTo(128.33, 2);
+    });
+
+    it('should compare against the previous week for trends', async () => {
+      const result = await powerRankingsService.getPowerRankings('league1', sleeperLeagueId, { week: 3 });
+
+      // Team 2 led through week 2 and Team 1 overtook them in week 3
+      const team1 = result!.rankings.find(entry => entry.rosterId === 1)!;
+      const team2 = result!.rankings.find(entry => entry.rosterId === 2)!;
+      expect(team1.previousRank).toBe(2);
+      expect(team1.trend).toBe('up');
+      expect(team2.previousRank).toBe(1);
+      expect(team2.trend).toBe('down');
+    });
+
+    it('should return the stored rankings unless a refresh is requested', async () => {
+      const storedRankings = [{ userId: 'user1', rank: 1, score: 90, trend: 'stable', analysis: 'Stored' }];
+      mockPrisma.powerRanking.findUnique.mockResolvedValue({
+        id: 'ranking3',
+        leagueId: 'league1',
+        week: 3,
+        rankings: storedRankings,
+        methodology: 'Stored methodology',
+        createdAt: new Date('2024-10-01T00:00:00Z'),
+      });
+
+      const cached = await powerRankingsService.getPowerRankings('league1', sleeperLeagueId);
+      expect(cached!.rankings).toEqual(storedRankings);
+      expect(mockSleeperAPI.getLeagueMatchups).not.toHaveBeenCalled();
+
+      await powerRankingsService.getPowerRankings('league1', sleeperLeagueId, { refresh: true });
+      expect(mockPrisma.powerRanking.upsert).toHaveBeenCalled();
+    });
+
+    it('should return null before any week has been completed', async () => {
+      mockSleeperAPI.getNFLState.mockResolvedValue({ week: 1, season: '2024', season_type: 'regular' });
+
+      const result = await powerRankingsService.getPowerRankings('league1', sleeperLeagueId);
+
+      expect(result).toBeNull();
+      expect(mockPrisma.powerRanking.upsert).not.toHaveBeenCalled();
+    });
+
+    it('should use AI blurbs when requested and keep generated analysis otherwise', async () => {
+      mockAIService.chat.mockResolvedValue({
+        content: '{"blurbs": {"user1": "Team 1 is rolling."}}',
+        provider: 'claude' as any,
+      });
+
+      const result = await powerRankingsService.getPowerRankings('league1', sleeperLeagueId, { includeBlurbs: true });
+
+      expect(result!.rankings.find(entry => entry.userId === 'user1')!.analysis).toBe('Team 1 is rolling.');
+      expect(result!.rankings.find(entry => entry.userId === 'user2')!.analysis).toContain('all-play');
+    });
+
+    it('should keep generated analysis when the AI blurb request fails', async () => {
+      mockAIService.chat.mockRejectedValue(new Error('AI request failed'));
+
+      const result = await powerRankingsService.getPowerRankings('league1', sleeperLeagueId, { includeBlurbs: true });
+
+      expect(result!.rankings.every(entry => entry.analysis.includes('all-play'))).toBe(true);
+    });
+
+    it('should wrap Sleeper API failures', async () => {
+      mockSleeperAPI.getLeague.mockRejectedValue(new Error('Sleeper down'));
+
+      await expect(powerRankingsService.getPowerRankings('league1', sleeperLeagueId))
+        .rejects.toThrow('Power rankings failed: Sleeper down');
+    });
+  });
+
+  describe('getRankingHistory', () => {
+    it('should backfill weeks that were never stored', async () => {
+      mockPrisma.powerRanking.findMany.mockResolvedValue([
+        {
+          week: 1,
+          rankings: [1, 2, 3, 4].map(rosterId => ({
+            userId: `user${rosterId}`,
+            rosterId,
+            teamName: `Team ${rosterId}`,
+            rank: rosterId,
+          })),
+        },
+      ]);
+
+      const history = await powerRankingsService.getRankingHistory('league1', sleeperLeagueId);
+
+      expect(history.weeks.map(entry => entry.week)).toEqual([1, 2, 3]);
+      expect(history.weeks[0].ranks).toEqual({ user1: 1, user2: 2, user3: 3, user4: 4 });
+      expect(history.teams).toHaveLength(4);
+      expect(mockPrisma.powerRanking.upsert).toHaveBeenCalledTimes(2);
+    });
+  });
+});
@@ -0,0 +1,194 @@
+import { RealtimeGateway, REALTIME_CHANNEL } from '../../services/realtime-gateway';
+import { verifyToken } from '../../middleware/auth';
+import { PrismaClient } from '@prisma/client';
+import { Server } from 'socket.io';
+
+// Mock dependencies
+jest.mock('@prisma/client');
+jest.mock('../../middleware/auth');
+
+const mockEmit = jest.fn();
+const mockTo = jest.fn(() => ({ emit: mockEmit }));
+const mockUse = jest.fn();
+const mockOn = jest.fn();
+
+jest.mock('socket.io', () => ({
+  Server: jest.fn().mockImplementation(() => ({
+    use: mockUse,
+    on: mockOn,
+    to: mockTo,
+    disconnectSockets: jest.fn(),
+  })),
+}));
+
+const mockVerifyToken = verifyToken as jest.MockedFunction<typeof verifyToken>;
+
+describe('RealtimeGateway', () => {
+  let gateway: RealtimeGateway;
+  let mockPrisma: any;
+  let mockRedis: any;
+  let mockSubscriber: any;
+
+  const attach = () => gateway.attach({} as any, mockRedis);
+  const authMiddleware = () => mockUse.mock.calls[0][0];
+  const connectionHandler = () => mockOn.mock.calls.find(([event]) => event === 'connection')![1];
+  const delivered = () => mockSubscriber.subscribe.mock.calls[0][1];
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+
+    mockPrisma = {
+      userLeague: {
+        findMany: jest.fn().mockResolvedValue([{ leagueId: 'league-1' }, { leagueId: 'league-2' }]),
+        findFirst: jest.fn().mockResolvedValue(null),
+      },
+    };
+
+    mockSubscriber = {
+      connect: jest.fn().mockResolvedValue(undefined),
+      subscribe: jest.fn().mockResolvedValue(undefined),
+      unsubscribe: jest.fn().mockResolvedValue(undefined),
+      quit: jest.fn().mockResolvedValue(undefined),
+    };
+
+    mockRedis = {
+      duplicate: jest.fn(() => mockSubscriber),
+      publish: jest.fn().mockResolvedValue(1),
+    };
+
+    gateway = new RealtimeGateway(mockPrisma as PrismaClient);
+    jest.spyOn(console, 'log').mockImplementation();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('cors', () => {
+    const env = { ...process.env };
+
+    afterEach(() => {
+      process.env = { ...env };
+    });
+
+    it('should allow the WebSocket origins ahead of the REST API ones', async () => {
+      process.env.WEBSOCKET_CORS_ORIGIN = 'https://app.example.com, https://admin.example.com';
+      process.env.CORS_ORIGIN = 'https://api.example.com';
+      await attach();
+
+      expect(Server).toHaveBeenCalledWith({}, expect.objectContaining({
+        cors: { origin: ['https://app.example.com', 'https://admin.example.com'], credentials: true },
+      }));
+    });
+
+    it('should fall back to the REST API origins', async () => {
+      delete process.env.WEBSOCKET_CORS_ORIGIN;
+      process.env.CORS_ORIGIN = 'https://api.example.com';
+      await attach();
+
+      expect(Server).toHaveBeenCalledWith({}, expect.objectContaining({
+        cors: { origin: ['https://api.example.com'], credentials: true },
+      }));
+    });
+  });
+
+  describe('authentication', () => {
+    it('should accept the REST API token from the handshake', async () => {
+      await attach();
+      mockVerifyToken.mockReturnValue({ userId: 'user-1', email: 'one@example.com', iat: 0, exp: 0 });
+      const socket: any = { handshake: { auth: { token: 'jwt' }, headers: {} }, data: {} };
+      const next = jest.fn();
+
+      authMiddleware()(socket, next);
+
+      expect(mockVerifyToken).toHaveBeenCalledWith('jwt');
+      expect(socket.data.userId).toBe('user-1');
+      expect(next).toHaveBeenCalledWith();
+    });
+
+    it('should reject sockets without a valid token', async () => {
+      await attach();
+      const next = jest.fn();
+
+      authMiddleware()({ handshake: { auth: {}, headers: {} }, data: {} }, next);
+      expect(next).toHaveBeenCalledWith(new Error('No token provided'));
+
+      mockVerifyToken.mockImplementation(() => { throw new Error('Token has expired'); });
+      authMiddleware()({ handshake: { auth: {}, headers: { authorization: 'Bearer old' } }, data: {} }, next);
+      expect(next).toHaveBeenLastCalledWith(new Error('Token has expired'));
+    });
+  });
+
+  describe('rooms', () => {
+    it('should join the user room and every league room on connect', async () => {
+      await attach();
+      const socket: any = { data: { userId: 'user-1' }, join: jest.fn(), on: jest.fn(), emit: jest.fn() };
+
+      connectionHandler()(socket);
+      await new Promise(resolve => setImmediate(resolve));
+
+      expect(socket.join).toHaveBeenCalledWith(['user:user-1', 'league:league-1', 'league:league-2']);
+      expect(socket.emit).toHaveBeenCalledWith('connection_status', expect.objectContaining({
+        payload: { connected: true, leagues: ['league-1', 'league-2'] },
+      }));
+    });
+
+    it('should only join leagues the user belongs to on request', async () => {
+      await attach();
+      const socket: any = { data: { userId: 'user-1' }, join: jest.fn(), on: jest.fn(), emit: jest.fn() };
+      connectionHandler()(socket);
+      await new Promise(resolve => setImmediate(resolve));
+      const joinLeague = socket.on.mock.calls.find(([event]: [string]) => event === 'join_league')[1];
+      const ack = jest.fn();
+
+      await joinLeague('league-9', ack);
+      expect(ack).toHaveBeenCalledWith({ joined: false });
+
+      mockPrisma.userLeague.findFirst.mockResolvedValue({ leagueId: 'league-3' });
+      await joinLeague('league-3', ack);
+      expect(socket.join).toHaveBeenLastCalledWith('league:league-3');
+      expect(ack).toHaveBeenLastCalledWith({ joined: true });
+    });
+  });
+
+  describe('publishing', () => {
+    it('should publish through Redis and emit what the channel delivers', async () => {
+      await attach();
+
+      await gateway.publishToLeague('league-1', 'chat_message', { id: 'message-1' });
+
+      const [channel, raw] = mockRedis.publish.mock.calls[0];
+      expect(channel).toBe(REALTIME_CHANNEL);
+      expect(JSON.parse(raw)).toEqual({
+        room: 'league:league-1',
+        message: { type: 'chat_message', payload: { id: 'message-1' }, timestamp: expect.any(String), leagueId: 'league-1' },
+      });
+
+      delivered()(raw);
+      expect(mockTo).toHaveBeenCalledWith('league:league-1');
+      expect(mockEmit).toHaveBeenCalledWith('chat_message', expect.objectContaining({ payload: { id: 'message-1' } }));
+    });
+
+    it('should address user events to the user room', async () => {
+      await attach();
+
+      await gateway.publishToUser('user-1', 'notification', { title: 'Trade accepted' });
+
+      expect(JSON.parse(mockRedis.publish.mock.calls[0][1])).toMatchObject({ room: 'user:user-1', message: { userId: 'user-1' } });
+    });
+
+    it('should never throw when publishing fails', async () => {
+      jest.spyOn(console, 'warn').mockImplementation();
+      await attach();
+      mockRedis.publish.mockRejectedValue(new Error('Redis down'));
+
+      await expect(gateway.publishToLeague('league-1', 'score_update', {})).resolves.toBeUndefined();
+    });
+
+    it('should do nothing before it is attached', async () => {
+      await gateway.publishToLeague('league-1', 'score_update', {});
+
+      expect(mockRedis.publish).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,217 @@
+import {
+  RivalryService,
+  RivalryAccessError,
+  RivalryConflictError,
+  RivalryNotFoundError,
+} from '../../services/rivalry-service';
+import { SleeperAPIService } from '../../services/sleeper-api-service';
+import { ValidationError } from '../../utils/validation';
+import { PrismaClient } from '@prisma/client';
+
+// Mock dependencies
+jest.mock('@prisma/client');
+jest.mock('../../services/sleeper-api-service');
+
+describe('RivalryService', () => {
+  let rivalryService: RivalryService;
+  let mockSleeperAPI: jest.Mocked<SleeperAPIService>;
+  let mockPrisma: any;
+
+  // Two renewed seasons with a two-week regular season each
+  const leagues: Record<string, any> = {
+    'sleeper-2024': { league_id: 'sleeper-2024', season: '2024', status: 'in_season', settings: { playoff_week_start: 3 }, previous_league_id: 'sleeper-2023' },
+    'sleeper-2023': { league_id: 'sleeper-2023', season: '2023', status: 'complete', settings: { playoff_week_start: 3 }, previous_league_id: null },
+  };
+
+  const mockRosters = [1, 2, 3, 4].map(rosterId => ({ roster_id: rosterId, owner_id: `sleeper-user${rosterId}` }));
+
+  // Roster 1 and 2 split four games; roster 3 always beats roster 4
+  const weeklyScores: Record<string, Record<number, number>> = {
+    'sleeper-2023:1': { 1: 100, 2: 90, 3: 120, 4: 80 },
+    'sleeper-2023:2': { 1: 140, 2: 100, 3: 110, 4: 105 },
+    'sleeper-2024:1': { 1: 100, 2: 110, 3: 130, 4: 70 },
+    'sleeper-2024:2': { 1: 90, 2: 120, 3: 115, 4: 100 },
+  };
+
+  const matchupsFor = (leagueId: string, week: number) => {
+    const scores = weeklyScores[`${leagueId}:${week}`] || {};
+    return [[1, 2], [3, 4]].flatMap(([home, away], index) => [home, away].map(rosterId => ({
+      roster_id: rosterId,
+      matchup_id: index + 1,
+      points: scores[rosterId] || 0,
+    })));
+  };
+
+  const members = [1, 2, 3, 4].map(id => ({
+    userId: `user-${id}`,
+    user: { id: `user-${id}`, sleeperUserId: `sleeper-user${id}` },
+  }));
+
+  const rivalryRow = (overrides: any = {}) => ({
+    id: 'rivalry-1',
+    leagueId: 'league-1',
+    user1Id: 'user-1',
+    user2Id: 'user-2',
+    rivalryName: null,
+    isActive: true,
+    headToHeadRecord: { origin: 'detected' },
+    createdAt: new Date('2024-09-01T00:00:00Z'),
+    user1: { id: 'user-1', displayName: 'One', sleeperUserId: 'sleeper-user1' },
+    user2: { id: 'user-2', displayName: 'Two', sleeperUserId: 'sleeper-user2' },
+    ...overrides,
+  });
+
+  beforeEach(() => {
+    mockSleeperAPI = {
+      getLeague: jest.fn().mockImplementation((leagueId: string) => Promise.resolve(leagues[leagueId])),
+      getLeagueRosters: jest.fn().mockResolvedValue(mockRosters),
+      getNFLState: jest.fn().mockResolvedValue({ week: 3, season: '2024', season_type: 'regular' }),
+      getLeagueMatchups: jest.fn().mockImplementation((leagueId: string, week: number) =>
+        Promise.resolve(matchupsFor(leagueId, week))
+      ),
+    } as any;
+
+    mockPrisma = {
+      userLeague: {
+        findMany: jest.fn().mockResolvedValue(members),
+        findFirst: jest.fn().mockResolvedValue(members[1]),
+      },
+      user: {
+        findMany: jest.fn().mockResolvedValue(members.slice(0, 2).map(member => member.user)),
+      },
+      leagueRivalry: {
+        findMany: jest.fn().mockResolvedValue([]),
+        findUnique: jest.fn().mockResolvedValue(null),
+        findFirst: jest.fn().mockResolvedValue(rivalryRow()),
+        create: jest.fn((args: any) => Promise.resolve(rivalryRow({ ...args.data }))),
+        update: jest.fn((args: any) => Promise.resolve(rivalryRow({ ...args.data }))),
+        delete: jest.fn().mockResolvedValue({}),
+      },
+    };
+
+    rivalryService = new RivalryService(mockSleeperAPI, mockPrisma as PrismaClient);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('refreshRivalries', () => {
+    it('should detect close series across seasons through previous_league_id', async () => {
+      const result = await rivalryService.refreshRivalries('league-1', 'sleeper-2024');
+
+      expect(mockSleeperAPI.getLeague).toHaveBeenCalledWith('sleeper-2023');
+      expect(result).toEqual({ leagueId: 'league-1', seasons: 2, games: 8, detected: 1, updated: 0 });
+
+      expect(mockPrisma.leagueRivalry.create).toHaveBeenCalledTimes(1);
+      const { data } = mockPrisma.leagueRivalry.create.mock.calls[0][0];
+      expect(data).toMatchObject({ leagueId: 'league-1', user1Id: 'user-1', user2Id: 'user-2' });
+      expect(data.headToHeadRecord).toMatchObject({
+        user1Wins: 2,
+        user2Wins: 2,
+        ties: 0,
+        biggestBlowout: { season: 2023, week: 2, winnerId: 'user-1', margin: 40, winnerPoints: 140, loserPoints: 100 },
+        currentStreak: { userId: 'user-2', count: 2 },
+        origin: 'detected',
+        updatedThrough: { season: 2024, week: 2 },
+      });
+      expect(data.headToHeadRecord.games).toHaveLength(4);
+    });
+
+    it('should update existing records without reactivating or re-detecting them', async () => {
+      mockPrisma.leagueRivalry.findMany.mockResolvedValue([
+        { id: 'rivalry-1', user1Id: 'user-1', user2Id: 'user-2', isActive: false, headToHeadRecord: { origin: 'detected' } },
+        { id: 'rivalry-2', user1Id: 'user-3', user2Id: 'user-4', isActive: true, headToHeadRecord: { origin: 'declared', declaredBy: 'user-4' } },
+      ]);
+
+      const result = await rivalryService.refreshRivalries('league-1', 'sleeper-2024');
+
+      expect(result).toMatchObject({ detected: 0, updated: 2 });
+      expect(mockPrisma.leagueRivalry.create).not.toHaveBeenCalled();
+
+      const [first, second] = mockPrisma.leagueRivalry.update.mock.calls.map((call: any) => call[0]);
+      expect(first.data).toEqual({ headToHeadRecord: expect.objectContaining({ user1Wins: 2, origin: 'detected' }) });
+      expect(second.data.headToHeadRecord).toMatchObject({
+        user1Wins: 4,
+        user2Wins: 0,
+        currentStreak: { userId: 'user-3', count: 4 },
+        origin: 'declared',
+        declaredBy: 'user-4',
+      });
+    });
+
+    it('should wrap Sleeper failures', async () => {
+      jest.spyOn(console, 'error').mockImplementation();
+      mockSleeperAPI.getNFLState.mockRejectedValue(new Error('Service unavailable'));
+
+      await expect(rivalryService.refreshRivalries('league-1', 'sleeper-2024'))
+        .rejects.toThrow('Rivalry refresh failed: Service unavailable');
+    });
+  });
+
+  describe('declareRivalry', () => {
+    it('should store a declared rivalry with the pair\'s history', async () => {
+      const rivalry = await rivalryService.declareRivalry('league-1', 'sleeper-2024', 'user-2', 'user-1', ' Grudge Match ');
+
+      const { data } = mockPrisma.leagueRivalry.create.mock.calls[0][0];
+      expect(data).toMatchObject({ user1Id: 'user-1', user2Id: 'user-2', rivalryName: 'Grudge Match', isActive: true });
+      expect(data.headToHeadRecord).toMatchObject({ user1Wins: 2, user2Wins: 2, origin: 'declared', declaredBy: 'user-2' });
+      expect(rivalry.record.origin).toBe('declared');
+    });
+
+    it('should reactivate a deactivated rivalry', async () => {
+      mockPrisma.leagueRivalry.findUnique.mockResolvedValue({ id: 'rivalry-1', isActive: false });
+
+      await rivalryService.declareRivalry('league-1', 'sleeper-2024', 'user-1', 'user-2');
+
+      expect(mockPrisma.leagueRivalry.create).not.toHaveBeenCalled();
+      expect(mockPrisma.leagueRivalry.update).toHaveBeenCalledWith(expect.objectContaining({
+        where: { id: 'rivalry-1' },
+        data: expect.objectContaining({ isActive: true }),
+      }));
+    });
+
+    it('should reject invalid opponents and active duplicates', async () => {
+      await expect(rivalryService.declareRivalry('league-1', 'sleeper-2024', 'user-1', 'user-1'))
+        .rejects.toThrow(ValidationError);
+
+      mockPrisma.userLeague.findFirst.mockResolvedValueOnce(null);
+      await expect(rivalryService.declareRivalry('league-1', 'sleeper-2024', 'user-1', 'user-9'))
+        .rejects.toThrow('Opponent is not a member of this league');
+
+      mockPrisma.leagueRivalry.findUnique.mockResolvedValue({ id: 'rivalry-1', isActive: true });
+      await expect(rivalryService.declareRivalry('league-1', 'sleeper-2024', 'user-1', 'user-2'))
+        .rejects.toThrow(RivalryConflictError);
+    });
+  });
+
+  describe('updateRivalry and deleteRivalry', () => {
+    it('should only let the two users change a rivalry', async () => {
+      await expect(rivalryService.updateRivalry('league-1', 'rivalry-1', 'user-3', { isActive: false }))
+        .rejects.toThrow(RivalryAccessError);
+
+      mockPrisma.leagueRivalry.findFirst.mockResolvedValue(null);
+      await expect(rivalryService.deleteRivalry('league-1', 'missing', 'user-1'))
+        .rejects.toThrow(RivalryNotFoundError);
+    });
+
+    it('should rename a rivalry', async () => {
+      const rivalry = await rivalryService.updateRivalry('league-1', 'rivalry-1', 'user-1', { rivalryName: 'The Bowl' });
+
+      expect(mockPrisma.leagueRivalry.update).toHaveBeenCalledWith(expect.objectContaining({
+        data: { rivalryName: 'The Bowl' },
+      }));
+      expect(rivalry.rivalryName).toBe('The Bowl');
+    });
+
+    it('should delete declared rivalries and deactivate detected ones', async () => {
+      await rivalryService.deleteRivalry('league-1', 'rivalry-1', 'user-2');
+      expect(mockPrisma.leagueRivalry.update).toHaveBeenCalledWith({ where: { id: 'rivalry-1' }, data: { isActive: false } });
+      expect(mockPrisma.leagueRivalry.delete).not.toHaveBeenCalled();
+
+      mockPrisma.leagueRivalry.findFirst.mockResolvedValue(rivalryRow({ headToHeadRecord: { origin: 'declared' } }));
+      await rivalryService.deleteRivalry('league-1', 'rivalry-1', 'user-2');
+      expect(mockPrisma.leagueRivalry.delete).toHaveBeenCalledWith({ where: { id: 'rivalry-1' } });
+    });
+  });
+});
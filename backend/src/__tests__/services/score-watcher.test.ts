@@ -0,0 +1,82 @@
+import { ScoreWatcher } from '../../services/score-watcher';
+import { SleeperAPIService } from '../../services/sleeper-api-service';
+import { RealtimeGateway } from '../../services/realtime-gateway';
+
+// Mock dependencies
+jest.mock('@prisma/client');
+jest.mock('../../services/sleeper-api-service');
+jest.mock('../../services/realtime-gateway');
+
+describe('ScoreWatcher', () => {
+  let scoreWatcher: ScoreWatcher;
+  let mockSleeperAPI: jest.Mocked<SleeperAPIService>;
+  let mockRealtime: jest.Mocked<RealtimeGateway>;
+  let mockRedis: any;
+
+  const matchups = (points: [number, number], starters: string[] = ['4984', '2449']) => [
+    { roster_id: 1, matchup_id: 1, points: points[0], starters },
+    { roster_id: 2, matchup_id: 1, points: points[1], starters: ['1466'] },
+  ];
+
+  const snapshot = (week: number, points: [number, number], starters: string[] = ['4984', '2449']) => JSON.stringify({
+    week,
+    rosters: {
+      1: { points: points[0], starters },
+      2: { points: points[1], starters: ['1466'] },
+    },
+  });
+
+  beforeEach(() => {
+    mockSleeperAPI = {
+      getLeagueMatchups: jest.fn().mockResolvedValue(matchups([50.5, 40])),
+    } as any;
+
+    mockRealtime = {
+      publishToLeague: jest.fn().mockResolvedValue(undefined),
+    } as any;
+
+    mockRedis = {
+      get: jest.fn().mockResolvedValue(null),
+      set: jest.fn().mockResolvedValue('OK'),
+    };
+
+    scoreWatcher = new ScoreWatcher(mockSleeperAPI, mockRealtime);
+  });
+
+  it('should only record a baseline the first time a week is seen', async () => {
+    mockRedis.get.mockResolvedValue(snapshot(4, [120, 110]));
+
+    const result = await scoreWatcher.checkLeague(mockRedis, 'league-1', 'sleeper-1', 5);
+
+    expect(mockSleeperAPI.getLeagueMatchups).toHaveBeenCalledWith('sleeper-1', 5);
+    expect(result).toEqual({ scoreUpdates: 0, lineupChanges: 0 });
+    expect(mockRealtime.publishToLeague).not.toHaveBeenCalled();
+    expect(mockRedis.set).toHaveBeenCalledWith('realtime:scores:league-1', snapshot(5, [50.5, 40]), { EX: 604800 });
+  });
+
+  it('should publish changed scores in one event', async () => {
+    mockRedis.get.mockResolvedValue(snapshot(5, [42, 40]));
+
+    const result = await scoreWatcher.checkLeague(mockRedis, 'league-1', 'sleeper-1', 5);
+
+    expect(result).toEqual({ scoreUpdates: 1, lineupChanges: 0 });
+    expect(mockRealtime.publishToLeague).toHaveBeenCalledWith('league-1', 'score_update', {
+      week: 5,
+      scores: [{ rosterId: 1, matchupId: 1, points: 50.5, previousPoints: 42 }],
+    });
+  });
+
+  it('should publish lineup changes per roster', async () => {
+    mockRedis.get.mockResolvedValue(snapshot(5, [50.5, 40], ['4984', '4034']));
+
+    const result = await scoreWatcher.checkLeague(mockRedis, 'league-1', 'sleeper-1', 5);
+
+    expect(result).toEqual({ scoreUpdates: 0, lineupChanges: 1 });
+    expect(mockRealtime.publishToLeague).toHaveBeenCalledWith('league-1', 'lineup_change', {
+      week: 5,
+      rosterId: 1,
+      starters: ['4984', '2449'],
+      previousStarters: ['4984', '4034'],
+    });
+  });
+});
@@ -0,0 +1,236 @@
+import { SeasonOutlookService } from '../../services/season-outlook-service';
+import { SleeperAPIService } from '../../services/sleeper-api-service';
+import { PlayerService } from '../../services/player-service';
+import { PlayoffOddsService } from '../../services/playoff-odds-service';
+import { AIAgentClient } from '../../services/ai-agent-client';
+import { PrismaClient } from '@prisma/client';
+
+// Mock dependencies
+jest.mock('@prisma/client');
+jest.mock('../../services/player-service');
+
+describe('SeasonOutlookService', () => {
+  let seasonOutlookService: SeasonOutlookService;
+  let mockSleeperAPI: jest.Mocked<SleeperAPIService>;
+  let mockPlayerService: jest.Mocked<PlayerService>;
+  let mockPlayoffOdds: jest.Mocked<PlayoffOddsService>;
+  let mockAIAgents: jest.Mocked<AIAgentClient>;
+  let mockPrisma: any;
+
+  const player = (playerId: string, name: string, position: string, team: string) => ({
+    player_id: playerId,
+    full_name: name,
+    position,
+    team,
+  });
+
+  const team = (rosterId: number, teamName: string, scoreMean: number) => ({
+    rosterId,
+    userId: `user-${rosterId}`,
+    teamName,
+    division: 0,
+    wins: 0,
+    losses: 0,
+    ties: 0,
+    pointsFor: 0,
+    scoreMean,
+    scoreSd: 20,
+  });
+
+  // Kansas City is on bye in week 5
+  const week5 = { r2: { rec: 10 }, r3: { rec: 4 }, q2: { rec: 20 }, r4: { rec: 15 }, w2: { rec: 8 }, q3: { rec: 12 }, w3: { rec: 9 }, w4: { rec: 7 } };
+  const week6 = { ...week5, q1: { rec: 25 }, r1: { rec: 12 }, w1: { rec: 11 } };
+
+  beforeEach(() => {
+    mockSleeperAPI = {
+      getLeagueRosters: jest.fn().mockResolvedValue([
+        { roster_id: 1, owner_id: 'sleeper-1', co_owners: ['sleeper-4'], players: ['q1', 'r1', 'r2', 'r3', 'w1'] },
+        { roster_id: 2, owner_id: 'sleeper-2', players: ['q2', 'r4', 'w2'] },
+        { roster_id: 3, owner_id: 'sleeper-3', players: ['q3', 'w3', 'w4'] },
+      ]),
+      getPlayerProjections: jest.fn((_sport: string, _season: string, _type: string, week: number) =>
+        Promise.resolve(week === 5 ? week5 : week6)
+      ),
+    } as any;
+
+    mockPlayerService = {
+      getPlayers: jest.fn().mockResolvedValue({
+        q1: player('q1', 'Patrick Mahomes', 'QB', 'KC'),
+        r1: player('r1', 'Isiah Pacheco', 'RB', 'KC'),
+        r2: player('r2', 'Aaron Jones', 'RB', 'MIN'),
+        r3: player('r3', 'Rico Dowdle', 'RB', 'DAL'),
+        w1: player('w1', 'Rashee Rice', 'WR', 'KC'),
+        q2: player('q2', 'Josh Allen', 'QB', 'BUF'),
+        r4: player('r4', 'James Cook', 'RB', 'BUF'),
+        w2: player('w2', 'Justin Jefferson', 'WR', 'MIN'),
+        q3: player('q3', 'Dak Prescott', 'QB', 'DAL'),
+        w3: player('w3', 'CeeDee Lamb', 'WR', 'DAL'),
+        w4: player('w4', 'Khalil Shakir', 'WR', 'BUF'),
+      }),
+    } as any;
+
+    mockPlayoffOdds = {
+      loadSeasonContext: jest.fn().mockResolvedValue({
+        league: {
+          name: 'Dynasty Bros',
+          season: '2024',
+          scoring_settings: { rec: 1 },
+          roster_positions: ['QB', 'RB', 'RB', 'WR', 'FLEX', 'BN', 'BN'],
+        },
+        teams: [team(1, 'Team A', 100), team(2, 'Team B', 120), team(3, 'Team C', 90)],
+        remainingGames: [
+          { week: 5, home: 0, away: 1 },
+          { week: 6, home: 0, away: 2 },
+        ],
+        remainingWeeks: [5, 6],
+      }),
+      getPlayoffOdds: jest.fn().mockResolvedValue({
+        week: 5,
+        teams: [{
+          rosterId: 1,
+          record: { wins: 3, losses: 1, ties: 0, pointsFor: 420 },
+          projectedWins: 4.6,
+          playoffOdds: 0.8,
+          byeOdds: 0.3,
+          champOdds: 0.2,
+          clinched: false,
+          eliminated: false,
+        }],
+      }),
+    } as any;
+
+    mockAIAgents = {
+      post: jest.fn().mockResolvedValue({
+        summary: 'A contender with a hole at receiver.',
+        strengths: ['Deep backfield'],
+        weaknesses: ['Thin at WR'],
+        actions: [{ type: 'trade', position: 'WR', detail: 'Sell Rico Dowdle for a receiver.' }],
+        provider: 'claude',
+        model: 'claude-3-5-sonnet',
+      }),
+    } as any;
+
+    mockPrisma = {
+      league: {
+        findUnique: jest.fn().mockResolvedValue({ id: 'league-1', name: 'Dynasty Bros', season: 2024, sleeperLeagueId: 'sleeper-league-1' }),
+      },
+      user: {
+        findUnique: jest.fn().mockResolvedValue({ sleeperUserId: 'sleeper-1' }),
+      },
+      aIAnalysis: {
+        findFirst: jest.fn().mockResolvedValue(null),
+        create: jest.fn((args: any) => Promise.resolve({
+          id: 'outlook-1',
+          ...args.data,
+          createdAt: new Date('2024-10-01T12:00:00Z'),
+        })),
+      },
+    };
+
+    seasonOutlookService = new SeasonOutlookService(
+      mockSleeperAPI,
+      mockPrisma as PrismaClient,
+      mockPlayerService,
+      mockPlayoffOdds,
+      mockAIAgents
+    );
+  });
+
+  describe('getOutlook', () => {
+    it('should combine depth, schedule, byes and playoff odds into the report', async () => {
+      const outlook = await seasonOutlookService.getOutlook('league-1', 'user-1');
+
+      const facts = mockAIAgents.post.mock.calls[0][1] as any;
+      expect(mockAIAgents.post).toHaveBeenCalledWith('/ai/season-outlook', expect.any(Object));
+
+      expect(facts.positions.map((position: any) => [position.position, position.starterPoints, position.leagueRank]))
+        .toEqual([['QB', 25, 2], ['RB', 32, 1], ['WR', 11, 3]]);
+      expect(facts.schedule).toMatchObject({ remainingGames: 2, averageOpponentScore: 105, leagueAverageScore: 103.33, difficultyRank: 1 });
+      expect(facts.byeWeeks).toEqual([{
+        week: 5,
+        starters: [
+          { name: 'Patrick Mahomes', position: 'QB' },
+          { name: 'Isiah Pacheco', position: 'RB' },
+          { name: 'Rashee Rice', position: 'WR' },
+        ],
+      }]);
+
+      expect(facts.strengths).toEqual(['80% playoff odds', 'RB starters rank 1 of 3 (32 projected points rest of season)']);
+      expect(facts.weaknesses).toEqual([
+        'WR starters rank 3 of 3 (11 projected points rest of season)',
+        'One of the hardest remaining schedules: opponents average 105 against a league average of 103.33',
+        'Week 5: 3 starters on bye (Patrick Mahomes, Isiah Pacheco, Rashee Rice)',
+      ]);
+      expect(facts.candidateActions.map((action: any) => `${action.type}:${action.position}`))
+        .toEqual(['trade:WR', 'waiver:QB', 'waiver:WR', 'waiver:RB']);
+      expect(facts.candidateActions[0].detail).toContain('Rico Dowdle');
+
+      expect(mockPrisma.aIAnalysis.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          analysisType: 'season_outlook',
+          metadata: expect.objectContaining({ week: 5, rosterId: 1, provider: 'claude' }),
+        }),
+      });
+      expect(outlook).toMatchObject({
+        id: 'outlook-1',
+        rosterId: 1,
+        week: 5,
+        teamName: 'Team A',
+        summary: 'A contender with a hole at receiver.',
+        actions: [{ type: 'trade', position: 'WR', detail: 'Sell Rico Dowdle for a receiver.' }],
+      });
+    });
+
+    it('should reuse the stored outlook for the team and week', async () => {
+      mockPrisma.aIAnalysis.findFirst.mockResolvedValue({
+        id: 'outlook-0',
+        leagueId: 'league-1',
+        input: { teamName: 'Team A', week: 5, positions: [] },
+        output: { summary: 'Stored.', strengths: [], weaknesses: [], actions: [] },
+        metadata: { week: 5, rosterId: 1 },
+        createdAt: new Date('2024-09-30T12:00:00Z'),
+      });
+
+      const outlook = await seasonOutlookService.getOutlook('league-1', 'user-1');
+
+      expect(outlook).toMatchObject({ id: 'outlook-0', summary: 'Stored.' });
+      expect(mockPrisma.aIAnalysis.findFirst).toHaveBeenCalledWith(expect.objectContaining({
+        where: expect.objectContaining({
+          AND: [
+            { metadata: { path: ['rosterId'], equals: 1 } },
+            { metadata: { path: ['week'], equals: 5 } },
+            { output: { path: ['isFallback'], equals: false } },
+          ],
+        }),
+      }));
+      expect(mockPlayoffOdds.getPlayoffOdds).not.toHaveBeenCalled();
+      expect(mockAIAgents.post).not.toHaveBeenCalled();
+    });
+
+    it('should find the roster of a co-owner', async () => {
+      mockPrisma.user.findUnique.mockResolvedValue({ sleeperUserId: 'sleeper-4' });
+
+      const outlook = await seasonOutlookService.getOutlook('league-1', 'user-4');
+
+      expect(outlook).toMatchObject({ rosterId: 1, teamName: 'Team A' });
+    });
+
+    it('should return null once the regular season is over', async () => {
+      mockPlayoffOdds.loadSeasonContext.mockResolvedValue({ remainingWeeks: [] } as any);
+
+      const outlook = await seasonOutlookService.getOutlook('league-1', 'user-1');
+
+      expect(outlook).toBeNull();
+      expect(mockAIAgents.post).not.toHaveBeenCalled();
+    });
+
+    it('should return null when the user has no roster in the league', async () => {
+      mockPrisma.user.findUnique.mockResolvedValue({ sleeperUserId: 'sleeper-9' });
+
+      const outlook = await seasonOutlookService.getOutlook('league-1', 'user-1');
+
+      expect(outlook).toBeNull();
+      expect(mockPlayoffOdds.loadSeasonContext).not.toHaveBeenCalled();
+    });
+  });
+});
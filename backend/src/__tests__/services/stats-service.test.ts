@@ -0,0 +1,180 @@
+import { SCORING_PRESETS } from '@fantasy-app/shared';
+import { StatsService } from '../../services/stats-service';
+import { SleeperAPIService } from '../../services/sleeper-api-service';
+import { PrismaClient } from '@prisma/client';
+
+// Mock dependencies
+jest.mock('@prisma/client');
+jest.mock('../../services/sleeper-api-service');
+
+const allenWeek = {
+  pass_yd: 300,
+  pass_td: 2,
+  pass_int: 1,
+  rush_yd: 40,
+  rush_td: 1,
+  pts_ppr: 30,
+};
+
+const diggsWeek = {
+  rec: 8,
+  rec_yd: 100,
+  rec_td: 1,
+};
+
+describe('StatsService', () => {
+  let statsService: StatsService;
+  let mockSleeperAPI: jest.Mocked<SleeperAPIService>;
+  let mockPrisma: any;
+
+  beforeEach(() => {
+    mockSleeperAPI = {
+      getPlayerStats: jest.fn(),
+      getLeague: jest.fn(),
+    } as any;
+
+    mockPrisma = {
+      player: {
+        findMany: jest.fn().mockResolvedValue([
+          { id: 'db-allen', sleeperPlayerId: '4984', position: 'QB' },
+          { id: 'db-diggs', sleeperPlayerId: '2449', position: 'WR' },
+          { id: 'db-kelce', sleeperPlayerId: '1466', position: 'TE' },
+        ]),
+      },
+      league: {
+        findMany: jest.fn().mockResolvedValue([{ id: 'league-1', sleeperLeagueId: 'sleeper-1', settings: {} }]),
+      },
+      playerStats: {
+        findMany: jest.fn().mockResolvedValue([]),
+        createMany: jest.fn().mockResolvedValue({ count: 0 }),
+        update: jest.fn((args: any) => args),
+      },
+      $transaction: jest.fn().mockResolvedValue([]),
+    };
+
+    mockSleeperAPI.getLeague.mockResolvedValue({
+      scoring_settings: { ...SCORING_PRESETS.standard, rec: 1, pass_td: 6 },
+    } as any);
+
+    statsService = new StatsService(mockSleeperAPI, mockPrisma as PrismaClient);
+    jest.spyOn(console, 'log').mockImplementation();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('ingestWeek', () => {
+    it('should store stat lines with preset and league points', async () => {
+      mockSleeperAPI.getPlayerStats.mockResolvedValue({ '4984': allenWeek, '2449': diggsWeek });
+
+      const result = await statsService.ingestWeek(2024, 5);
+
+      expect(mockSleeperAPI.getPlayerStats).toHaveBeenCalledWith('nfl', '2024', 'regular', 5);
+      expect(result).toEqual({ season: 2024, week: 5, total: 2, created: 2, updated: 0, skipped: 0, leagues: 1 });
+
+      const { data } = mockPrisma.playerStats.createMany.mock.calls[0][0];
+      expect(data.find((line: any) => line.playerId === 'db-allen')).toEqual({
+        playerId: 'db-allen',
+        season: 2024,
+        week: 5,
+        stats: { pass_yd: 300, pass_td: 2, pass_int: 1, rush_yd: 40, rush_td: 1 },
+        fantasyPoints: { standard: 28, ppr: 28, halfPpr: 28, leagues: { 'league-1': 32 } },
+      });
+      expect(data.find((line: any) => line.playerId === 'db-diggs').fantasyPoints).toEqual({
+        standard: 16,
+        ppr: 24,
+        halfPpr: 20,
+        leagues: { 'league-1': 24 },
+      });
+    });
+
+    it('should use stored league scoring with position premiums', async () => {
+      mockPrisma.league.findMany.mockResolvedValue([{
+        id: 'league-te',
+        sleeperLeagueId: 'sleeper-te',
+        settings: { playoff_teams: 6, scoring: { ...SCORING_PRESETS.ppr, bonus_rec_te: 0.5 } },
+      }]);
+      mockSleeperAPI.getPlayerStats.mockResolvedValue({ '1466': diggsWeek, '2449': diggsWeek });
+
+      await statsService.ingestWeek(2024, 5);
+
+      expect(mockSleeperAPI.getLeague).not.toHaveBeenCalled();
+      const { data } = mockPrisma.playerStats.createMany.mock.calls[0][0];
+      expect(data.find((line: any) => line.playerId === 'db-kelce').fantasyPoints.leagues).toEqual({ 'league-te': 28 });
+      expect(data.find((line: any) => line.playerId === 'db-diggs').fantasyPoints.leagues).toEqual({ 'league-te': 24 });
+    });
+
+    it('should update existing lines and skip unknown players', async () => {
+      mockSleeperAPI.getPlayerStats.mockResolvedValue({ '4984': allenWeek, '9999': diggsWeek, '2449': {} });
+      mockPrisma.playerStats.findMany.mockResolvedValue([{ id: 'stats-1', playerId: 'db-allen' }]);
+
+      const result = await statsService.ingestWeek(2024, 5);
+
+      expect(result).toMatchObject({ total: 1, created: 0, updated: 1, skipped: 1 });
+      expect(mockPrisma.playerStats.createMany).not.toHaveBeenCalled();
+      expect(mockPrisma.playerStats.update).toHaveBeenCalledWith({
+        where: { id: 'stats-1' },
+        data: expect.objectContaining({ stats: expect.objectContaining({ pass_td: 2 }) }),
+      });
+    });
+
+    it('should still store preset points when a league cannot be loaded', async () => {
+      jest.spyOn(console, 'warn').mockImplementation();
+      mockSleeperAPI.getLeague.mockRejectedValue(new Error('Sleeper timeout'));
+      mockSleeperAPI.getPlayerStats.mockResolvedValue({ '2449': diggsWeek });
+
+      const result = await statsService.ingestWeek(2024, 5);
+
+      expect(result.leagues).toBe(0);
+      const { data } = mockPrisma.playerStats.createMany.mock.calls[0][0];
+      expect(data[0].fantasyPoints).toEqual({ standard: 16, ppr: 24, halfPpr: 20, leagues: {} });
+    });
+
+    it('should reject weeks outside the regular season', async () => {
+      await expect(statsService.ingestWeek(2024, 19)).rejects.toThrow('Invalid week 19');
+    });
+  });
+
+  describe('ingestSeason', () => {
+    it('should store season totals with a null week', async () => {
+      mockSleeperAPI.getPlayerStats.mockResolvedValue({ '2449': diggsWeek });
+
+      const result = await statsService.ingestSeason(2024);
+
+      expect(mockSleeperAPI.getPlayerStats).toHaveBeenCalledWith('nfl', '2024', 'regular', undefined);
+      expect(mockPrisma.playerStats.findMany).toHaveBeenCalledWith(expect.objectContaining({
+        where: { season: 2024, week: null },
+      }));
+      expect(result.week).toBeNull();
+    });
+
+    it('should wrap Sleeper failures', async () => {
+      jest.spyOn(console, 'error').mockImplementation();
+      mockSleeperAPI.getPlayerStats.mockRejectedValue(new Error('Service unavailable'));
+
+      await expect(statsService.ingestSeason(2024)).rejects.toThrow('Stats ingestion failed: Service unavailable');
+    });
+  });
+
+  describe('getRecentProduction', () => {
+    it('should prefer league points and fall back to PPR', async () => {
+      mockPrisma.playerStats.findMany.mockResolvedValue([
+        { week: 4, player: { sleeperPlayerId: '2449' }, fantasyPoints: { ppr: 24, leagues: { 'league-1': 26 } } },
+        { week: 3, player: { sleeperPlayerId: '2449' }, fantasyPoints: { ppr: 11.5, leagues: {} } },
+      ]);
+
+      const production = await statsService.getRecentProduction(['2449'], 2024, 5, { leagueId: 'league-1' });
+
+      expect(mockPrisma.playerStats.findMany).toHaveBeenCalledWith(expect.objectContaining({
+        where: expect.objectContaining({ season: 2024, week: { gte: 2, lt: 5 } }),
+      }));
+      expect(production).toEqual({ '2449': [{ week: 4, points: 26 }, { week: 3, points: 11.5 }] });
+    });
+
+    it('should return nothing before week 2', async () => {
+      expect(await statsService.getRecentProduction(['2449'], 2024, 1)).toEqual({});
+      expect(mockPrisma.playerStats.findMany).not.toHaveBeenCalled();
+    });
+  });
+});
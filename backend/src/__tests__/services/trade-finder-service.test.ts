@@ -0,0 +1,205 @@
+import { TradeFinderService, bestLineup } from '../../services/trade-finder-service';
+import { SleeperAPIService } from '../../services/sleeper-api-service';
+import { PlayerService } from '../../services/player-service';
+import { AIAgentClient } from '../../services/ai-agent-client';
+import { PrismaClient } from '@prisma/client';
+
+// Mock dependencies
+jest.mock('@prisma/client');
+jest.mock('../../services/player-service');
+
+describe('TradeFinderService', () => {
+  let tradeFinderService: TradeFinderService;
+  let mockSleeperAPI: jest.Mocked<SleeperAPIService>;
+  let mockPlayerService: jest.Mocked<PlayerService>;
+  let mockAIAgents: jest.Mocked<AIAgentClient>;
+  let mockPrisma: any;
+
+  const player = (playerId: string, name: string, position: string) => ({
+    player_id: playerId,
+    full_name: name,
+    position,
+    fantasy_positions: [position],
+    team: 'KC',
+  });
+
+  // Season receptions, 17 of them per projected point per week
+  const perWeek = (points: number) => ({ rec: points * 17 });
+
+  beforeEach(() => {
+    mockSleeperAPI = {
+      getLeague: jest.fn().mockResolvedValue({
+        name: 'Dynasty Bros',
+        season: '2024',
+        scoring_settings: { rec: 1 },
+        roster_positions: ['QB', 'RB', 'WR', 'FLEX', 'BN', 'BN'],
+      }),
+      getLeagueRosters: jest.fn().mockResolvedValue([
+        { roster_id: 1, owner_id: 'sleeper-1', co_owners: ['sleeper-4'], players: ['qb1', 'r1', 'r2', 'r3', 'w1'] },
+        { roster_id: 2, owner_id: 'sleeper-2', players: ['qb2', 'r4', 'w2', 'w3', 'w4'] },
+        { roster_id: 3, owner_id: 'sleeper-3', players: ['qb3', 'r5'] },
+      ]),
+      getLeagueUsers: jest.fn().mockResolvedValue([
+        { user_id: 'sleeper-1', display_name: 'owner1', metadata: { team_name: 'Team A' } },
+        { user_id: 'sleeper-2', display_name: 'owner2', metadata: { team_name: 'Team B' } },
+        { user_id: 'sleeper-3', display_name: 'owner3', metadata: {} },
+      ]),
+      getPlayerProjections: jest.fn().mockResolvedValue({
+        qb1: perWeek(20), r1: perWeek(15), r2: perWeek(14), r3: perWeek(12), w1: perWeek(5),
+        qb2: perWeek(18), r4: perWeek(6), w2: perWeek(16), w3: perWeek(13), w4: perWeek(11),
+        qb3: perWeek(10), r5: perWeek(1),
+      }),
+    } as any;
+
+    mockPlayerService = {
+      getPlayers: jest.fn().mockResolvedValue({
+        qb1: player('qb1', 'Patrick Mahomes', 'QB'),
+        r1: player('r1', 'Isiah Pacheco', 'RB'),
+        r2: player('r2', 'Aaron Jones', 'RB'),
+        r3: player('r3', 'Rico Dowdle', 'RB'),
+        w1: player('w1', 'Rashee Rice', 'WR'),
+        qb2: player('qb2', 'Josh Allen', 'QB'),
+        r4: player('r4', 'James Cook', 'RB'),
+        w2: player('w2', 'Justin Jefferson', 'WR'),
+        w3: player('w3', 'CeeDee Lamb', 'WR'),
+        w4: player('w4', 'Khalil Shakir', 'WR'),
+        qb3: player('qb3', 'Dak Prescott', 'QB'),
+        r5: player('r5', 'Zack Moss', 'RB'),
+      }),
+    } as any;
+
+    mockAIAgents = {
+      post: jest.fn().mockResolvedValue({
+        fairnessScore: 5.5,
+        team1Analysis: { grade: 'B+', recommendation: { decision: 'accept', reasoning: 'Fills WR.' } },
+        team2Analysis: { grade: 'B', recommendation: { decision: 'accept', reasoning: 'Fills RB.' } },
+        summary: 'Depth for need, both ways.',
+        keyInsights: ['Both lineups improve'],
+        marketValue: { team1Total: 10, team2Total: 10 },
+      }),
+    } as any;
+
+    mockPrisma = {
+      league: {
+        findUnique: jest.fn().mockResolvedValue({ id: 'league-1', name: 'Dynasty Bros', season: 2024, sleeperLeagueId: 'sleeper-league-1' }),
+      },
+      user: {
+        findUnique: jest.fn().mockResolvedValue({ sleeperUserId: 'sleeper-1' }),
+      },
+      aIAnalysis: {
+        findFirst: jest.fn().mockResolvedValue(null),
+        create: jest.fn((args: any) => Promise.resolve({
+          id: 'finder-1',
+          ...args.data,
+          createdAt: new Date(),
+        })),
+      },
+    };
+
+    tradeFinderService = new TradeFinderService(mockSleeperAPI, mockPrisma as PrismaClient, mockPlayerService, mockAIAgents);
+  });
+
+  describe('bestLineup', () => {
+    const rated = (playerId: string, position: string, projectedPoints: number) =>
+      ({ playerId, name: playerId, position, nflTeam: null, projectedPoints, eligible: [position] });
+
+    it('should fill overlapping flex slots so both are used', () => {
+      const lineup = bestLineup([rated('wr1', 'WR', 10), rated('rb1', 'RB', 5)], ['WRRB_FLEX', 'REC_FLEX']);
+
+      expect(lineup.points).toBe(15);
+      expect(lineup.starters.map(player => player.playerId)).toEqual(['wr1', 'rb1']);
+    });
+  });
+
+  describe('findTrades', () => {
+    it('should propose trades that improve both lineups, fairest first', async () => {
+      const result = await tradeFinderService.findTrades('league-1', 'user-1');
+
+      expect(result!.needs).toEqual([
+        { position: 'QB', need: 0, surplus: 0 },
+        { position: 'RB', need: 0, surplus: 12 },
+        { position: 'WR', need: 1.5, surplus: 0 },
+      ]);
+
+      // Team C has nothing that helps Team A, and Team B is capped at two suggestions
+      expect(result!.suggestions).toHaveLength(2);
+      // Both swaps move RB depth for a WR and add 6 points to each lineup
+      expect(result!.suggestions[1]).toMatchObject({ give: [{ playerId: 'r3' }], receive: [{ playerId: 'w4' }], fairness: 1 });
+      expect(result!.suggestions[0]).toMatchObject({
+        partner: { rosterId: 2, teamName: 'Team B' },
+        shape: '1-for-1',
+        give: [{ playerId: 'r2', name: 'Aaron Jones', projectedPoints: 14 }],
+        receive: [{ playerId: 'w3', name: 'CeeDee Lamb', projectedPoints: 13 }],
+        lineupGain: { mine: 6, theirs: 6 },
+        fairness: 1,
+        addresses: { mine: ['WR'], theirs: ['RB'] },
+        analysis: { fairnessScore: 5.5, summary: 'Depth for need, both ways.' },
+      });
+      result!.suggestions.forEach(suggestion => {
+        expect(suggestion.lineupGain.mine).toBeGreaterThanOrEqual(1);
+        expect(suggestion.lineupGain.theirs).toBeGreaterThanOrEqual(1);
+      });
+    });
+
+    it('should find trades for a co-owner of the roster', async () => {
+      mockPrisma.user.findUnique.mockResolvedValue({ sleeperUserId: 'sleeper-4' });
+
+      const result = await tradeFinderService.findTrades('league-1', 'user-4');
+
+      expect(result!.rosterId).toBe(1);
+      expect(result!.suggestions).toHaveLength(2);
+    });
+
+    it('should send each suggestion through the trade analyzer', async () => {
+      await tradeFinderService.findTrades('league-1', 'user-1');
+
+      expect(mockAIAgents.post).toHaveBeenCalledTimes(2);
+      expect(mockAIAgents.post).toHaveBeenCalledWith('/ai/trade-analysis', expect.objectContaining({
+        leagueId: 'sleeper-league-1',
+        team1UserId: 'sleeper-1',
+        team2UserId: 'sleeper-2',
+        team1Players: ['r3'],
+        team2Players: ['w4'],
+        requestingUserId: 'sleeper-1',
+        tradeContext: {
+          needAnalysis: expect.stringContaining('Team A needs WR and has bench depth at RB'),
+        },
+      }));
+      expect(mockPrisma.aIAnalysis.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          analysisType: 'trade_finder',
+          metadata: expect.objectContaining({ rosterId: 1, analyzed: 2 }),
+        }),
+      });
+    });
+
+    it('should keep the suggestions when the trade analyzer fails', async () => {
+      mockAIAgents.post.mockRejectedValue(new Error('All AI providers failed'));
+      jest.spyOn(console, 'warn').mockImplementation(() => {});
+
+      const result = await tradeFinderService.findTrades('league-1', 'user-1');
+
+      expect(result!.suggestions).toHaveLength(2);
+      expect(result!.suggestions.every(suggestion => suggestion.analysis === null)).toBe(true);
+    });
+
+    it('should reuse stored suggestions until a roster changes', async () => {
+      await tradeFinderService.findTrades('league-1', 'user-1');
+      const stored = mockPrisma.aIAnalysis.create.mock.calls[0][0].data;
+      mockPrisma.aIAnalysis.findFirst.mockResolvedValue({ ...stored, id: 'finder-0', createdAt: new Date() });
+
+      const cached = await tradeFinderService.findTrades('league-1', 'user-1');
+      expect(cached!.id).toBe('finder-0');
+      expect(mockSleeperAPI.getPlayerProjections).toHaveBeenCalledTimes(1);
+
+      mockSleeperAPI.getLeagueRosters.mockResolvedValue([
+        { roster_id: 1, owner_id: 'sleeper-1', players: ['qb1', 'r1', 'r2', 'r3', 'w1', 'w4'] },
+        { roster_id: 2, owner_id: 'sleeper-2', players: ['qb2', 'r4', 'w2', 'w3'] },
+      ] as any);
+
+      const refreshed = await tradeFinderService.findTrades('league-1', 'user-1');
+      expect(refreshed!.id).toBe('finder-1');
+      expect(mockSleeperAPI.getPlayerProjections).toHaveBeenCalledTimes(2);
+    });
+  });
+});
@@ -0,0 +1,281 @@
+import { WeeklyRecapService } from '../../services/weekly-recap-service';
+import { SleeperAPIService } from '../../services/sleeper-api-service';
+import { PlayerService } from '../../services/player-service';
+import { ChatService } from '../../services/chat-service';
+import { NotificationService } from '../../services/notification-service';
+import { PrismaClient } from '@prisma/client';
+
+// Mock dependencies
+jest.mock('@prisma/client');
+jest.mock('../../services/player-service');
+jest.mock('../../services/chat-service');
+jest.mock('../../services/notification-service');
+
+describe('WeeklyRecapService', () => {
+  let weeklyRecapService: WeeklyRecapService;
+  let mockSleeperAPI: jest.Mocked<SleeperAPIService>;
+  let mockPlayerService: jest.Mocked<PlayerService>;
+  let mockChat: jest.Mocked<ChatService>;
+  let mockNotifications: jest.Mocked<NotificationService>;
+  let mockPrisma: any;
+  let fetchSpy: jest.SpyInstance;
+
+  const matchup = (rosterId: number, matchupId: number, points: number, overrides: any = {}) => ({
+    roster_id: rosterId,
+    matchup_id: matchupId,
+    points,
+    players: [],
+    starters: [],
+    players_points: {},
+    starters_points: {},
+    ...overrides,
+  });
+
+  const newsletter = {
+    headline: 'Taco Tuesday comes early',
+    intro: 'Four teams, two games, one upset.',
+    sections: [{ title: 'Matchup Results', body: 'Chaos.' }],
+    awards: [],
+    provider: 'claude',
+    model: 'claude-3-5-sonnet',
+  };
+
+  beforeEach(() => {
+    mockSleeperAPI = {
+      getNFLState: jest.fn().mockResolvedValue({ week: 3, season: '2024', season_type: 'regular' }),
+      getLeague: jest.fn().mockResolvedValue({ name: 'Dynasty Bros', roster_positions: ['QB', 'RB', 'FLEX', 'BN', 'BN'] }),
+      getLeagueRosters: jest.fn().mockResolvedValue([1, 2, 3, 4].map(rosterId => ({ roster_id: rosterId, owner_id: `sleeper-${rosterId}` }))),
+      getLeagueUsers: jest.fn().mockResolvedValue([1, 2, 3, 4].map(rosterId => ({
+        user_id: `sleeper-${rosterId}`,
+        display_name: `owner${rosterId}`,
+        metadata: { team_name: `Team ${'ABCD'[rosterId - 1]}` },
+      }))),
+      getLeagueMatchups: jest.fn((leagueId: string, week: number) => Promise.resolve(week === 1
+        ? [matchup(1, 1, 100), matchup(2, 1, 80), matchup(3, 2, 90), matchup(4, 2, 70)]
+        : [
+          matchup(1, 1, 95, {
+            players: ['qb1', 'rb1', 'rb2', 'wr1'],
+            starters: ['qb1', 'rb1', 'wr1'],
+            players_points: { qb1: 30, rb1: 20, rb2: 25, wr1: 45 },
+          }),
+          matchup(4, 1, 110),
+          matchup(2, 2, 85),
+          matchup(3, 2, 85.5),
+        ])),
+    } as any;
+
+    mockPlayerService = {
+      getPlayers: jest.fn().mockResolvedValue({
+        qb1: { player_id: 'qb1', full_name: 'Josh Allen', position: 'QB', team: 'BUF', fantasy_positions: ['QB'] },
+        rb1: { player_id: 'rb1', full_name: 'Rachaad White', position: 'RB', team: 'TB', fantasy_positions: ['RB'] },
+        rb2: { player_id: 'rb2', full_name: 'Bijan Robinson', position: 'RB', team: 'ATL', fantasy_positions: ['RB'] },
+        wr1: { player_id: 'wr1', full_name: 'Justin Jefferson', position: 'WR', team: 'MIN', fantasy_positions: ['WR'] },
+      }),
+    } as any;
+
+    mockChat = {
+      postSystemMessage: jest.fn().mockResolvedValue({ id: 'message-1' }),
+    } as any;
+
+    mockNotifications = {
+      notify: jest.fn().mockResolvedValue({ id: 'note-1' }),
+    } as any;
+
+    mockPrisma = {
+      league: {
+        findUnique: jest.fn().mockResolvedValue({
+          id: 'league-1',
+          name: 'Dynasty Bros',
+          season: 2024,
+          sleeperLeagueId: 'sleeper-league-1',
+          userLeagues: [{ userId: 'user-1' }, { userId: 'user-2' }],
+        }),
+      },
+      aIAnalysis: {
+        findFirst: jest.fn().mockResolvedValue(null),
+        create: jest.fn((args: any) => Promise.resolve({
+          id: 'recap-1',
+          ...args.data,
+          createdAt: new Date('2024-09-17T11:00:00Z'),
+        })),
+      },
+    };
+
+    fetchSpy = jest.spyOn(global, 'fetch').mockResolvedValue({
+      ok: true,
+      json: () => Promise.resolve({ success: true, data: { ...newsletter, lastUpdated: '2024-09-17T11:00:00Z' } }),
+    } as any);
+
+    weeklyRecapService = new WeeklyRecapService(mockSleeperAPI, mockPrisma as PrismaClient, mockPlayerService, mockChat, mockNotifications);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('buildFacts', () => {
+    it('should compute results, bench points, the biggest upset and standings movement', async () => {
+      const facts = await weeklyRecapService.buildFacts('sleeper-league-1', 2);
+
+      expect(facts.matchups).toEqual([
+        { winner: { teamName: 'Team D', points: 110 }, loser: { teamName: 'Team A', points: 95 }, margin: 15, tie: false },
+        { winner: { teamName: 'Team C', points: 85.5 }, loser: { teamName: 'Team B', points: 85 }, margin: 0.5, tie: false },
+      ]);
+      expect(facts.topPerformers[0]).toEqual({
+        playerName: 'Justin Jefferson',
+        position: 'WR',
+        nflTeam: 'MIN',
+        teamName: 'Team A',
+        points: 45,
+      });
+
+      // Bijan Robinson should have started at RB over Rachaad White
+      expect(facts.benchReports[0]).toEqual({
+        teamName: 'Team A',
+        benchPoints: 25,
+        pointsLeftOnBench: 5,
+        bestBenchPlayer: { playerName: 'Bijan Robinson', position: 'RB', points: 25 },
+      });
+
+      expect(facts.biggestUpset).toEqual({
+        winner: { teamName: 'Team D', points: 110, recordBefore: '0-1' },
+        loser: { teamName: 'Team A', points: 95, recordBefore: '1-0' },
+        margin: 15,
+      });
+
+      expect(facts.standings.map(team => [team.teamName, team.rank, team.previousRank, team.record])).toEqual([
+        ['Team C', 1, 2, '2-0'],
+        ['Team A', 2, 1, '1-1'],
+        ['Team D', 3, 4, '1-1'],
+        ['Team B', 4, 3, '0-2'],
+      ]);
+    });
+
+    it('should find the best lineup when flex slots overlap', async () => {
+      mockSleeperAPI.getLeague.mockResolvedValue({ name: 'Dynasty Bros', roster_positions: ['WRRB_FLEX', 'REC_FLEX', 'BN'] } as any);
+      mockSleeperAPI.getLeagueMatchups.mockResolvedValue([
+        matchup(1, 1, 25, {
+          players: ['rb1', 'wr1', 'te1'],
+          starters: ['wr1', 'te1'],
+          players_points: { rb1: 10, wr1: 20, te1: 5 },
+        }),
+        matchup(2, 1, 20),
+      ]);
+      mockPlayerService.getPlayers.mockResolvedValue({
+        rb1: { player_id: 'rb1', full_name: 'Rachaad White', position: 'RB', fantasy_positions: ['RB'] },
+        wr1: { player_id: 'wr1', full_name: 'Justin Jefferson', position: 'WR', fantasy_positions: ['WR'] },
+        te1: { player_id: 'te1', full_name: 'Sam LaPorta', position: 'TE', fantasy_positions: ['TE'] },
+      } as any);
+
+      const facts = await weeklyRecapService.buildFacts('sleeper-league-1', 2);
+
+      // Jefferson belongs at REC_FLEX so White can take WRRB_FLEX
+      expect(facts.benchReports[0]).toMatchObject({ teamName: 'Team A', pointsLeftOnBench: 5 });
+    });
+
+    it('should name team defenses after their team', async () => {
+      mockSleeperAPI.getLeagueMatchups.mockResolvedValue([
+        matchup(1, 1, 30, { players: ['SF'], starters: ['SF'], players_points: { SF: 30 } }),
+        matchup(2, 1, 20),
+      ]);
+      mockPlayerService.getPlayers.mockResolvedValue({
+        SF: { player_id: 'SF', first_name: '', last_name: '', position: 'DEF', team: 'SF', fantasy_positions: ['DEF'] },
+      } as any);
+
+      const facts = await weeklyRecapService.buildFacts('sleeper-league-1', 2);
+
+      expect(facts.topPerformers[0]).toMatchObject({ playerName: 'SF', position: 'DEF', points: 30 });
+    });
+  });
+
+  describe('generateRecap', () => {
+    it('should store the newsletter, post it to chat and notify members', async () => {
+      const recap = await weeklyRecapService.generateRecap('league-1', { postToChat: true, notify: true });
+
+      expect(mockSleeperAPI.getLeagueMatchups).toHaveBeenCalledWith('sleeper-league-1', 2);
+      expect(fetchSpy).toHaveBeenCalledWith('http://localhost:5000/ai/weekly-recap', expect.objectContaining({ method: 'POST' }));
+      expect(JSON.parse(fetchSpy.mock.calls[0][1].body)).toMatchObject({ leagueName: 'Dynasty Bros', week: 2 });
+
+      expect(mockChat.postSystemMessage).toHaveBeenCalledWith(
+        'league-1',
+        expect.stringContaining('Week 2 recap: Taco Tuesday comes early'),
+        'weekly_recap',
+        'weekly-recap:2024:2'
+      );
+      expect(mockPrisma.aIAnalysis.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          userId: 'user-1',
+          leagueId: 'league-1',
+          analysisType: 'weekly_recap',
+          metadata: expect.objectContaining({ week: 2, provider: 'claude', postedToChat: true }),
+        }),
+      });
+      expect(mockNotifications.notify).toHaveBeenCalledTimes(2);
+      expect(mockNotifications.notify).toHaveBeenCalledWith('user-2', expect.objectContaining({
+        type: 'weekly_report',
+        title: 'Dynasty Bros week 2 recap: Taco Tuesday comes early',
+        actionUrl: '/league/league-1',
+      }));
+
+      expect(recap).toMatchObject({ id: 'recap-1', week: 2, postedToChat: true, newsletter });
+    });
+
+    it('should return an existing recap without writing a new one', async () => {
+      mockPrisma.aIAnalysis.findFirst.mockResolvedValue({
+        id: 'recap-0',
+        leagueId: 'league-1',
+        input: {},
+        output: newsletter,
+        metadata: { week: 2, postedToChat: false },
+        createdAt: new Date('2024-09-17T11:00:00Z'),
+      });
+
+      const recap = await weeklyRecapService.generateRecap('league-1', { notify: true });
+
+      expect(recap?.id).toBe('recap-0');
+      expect(mockPrisma.aIAnalysis.findFirst).toHaveBeenCalledWith(expect.objectContaining({
+        where: { leagueId: 'league-1', analysisType: 'weekly_recap', metadata: { path: ['week'], equals: 2 } },
+      }));
+      expect(fetchSpy).not.toHaveBeenCalled();
+      expect(mockNotifications.notify).not.toHaveBeenCalled();
+    });
+
+    it('should rewrite an existing recap on refresh without notifying members again', async () => {
+      mockPrisma.aIAnalysis.findFirst.mockResolvedValue({
+        id: 'recap-0',
+        leagueId: 'league-1',
+        input: {},
+        output: newsletter,
+        metadata: { week: 2, postedToChat: true },
+        createdAt: new Date('2024-09-17T11:00:00Z'),
+      });
+
+      const recap = await weeklyRecapService.generateRecap('league-1', { refresh: true, notify: true });
+
+      expect(recap?.id).toBe('recap-1');
+      expect(mockPrisma.aIAnalysis.create).toHaveBeenCalled();
+      expect(mockNotifications.notify).not.toHaveBeenCalled();
+    });
+
+    it('should not recap weeks that are still being played', async () => {
+      const recap = await weeklyRecapService.generateRecap('league-1', { week: 3 });
+
+      expect(recap).toBeNull();
+      expect(mockSleeperAPI.getLeagueMatchups).not.toHaveBeenCalled();
+    });
+
+    it('should fail without storing anything when the AI service errors', async () => {
+      fetchSpy.mockResolvedValue({
+        ok: false,
+        status: 400,
+        json: () => Promise.resolve({ success: false, error: { message: 'All AI providers failed' } }),
+      } as any);
+      jest.spyOn(console, 'error').mockImplementation(() => {});
+
+      await expect(weeklyRecapService.generateRecap('league-1', { postToChat: true }))
+        .rejects.toThrow('Weekly recap failed: All AI providers failed');
+      expect(mockChat.postSystemMessage).not.toHaveBeenCalled();
+      expect(mockPrisma.aIAnalysis.create).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -13,6 +13,12 @@ import { sleeperRoutes } from './routes/sleeper';
 import { leagueRoutes } from './routes/leagues';
 import { playerRoutes } from './routes/players';
 import { aiRoutes } from './routes/ai';
+import { analyticsRoutes } from './routes/analytics';
+import { jobRoutes } from './routes/jobs';
+import { notificationRoutes } from './routes/notifications';
+import { jobScheduler } from './services/job-scheduler';
+import { registerScheduledJobs } from './services/scheduled-jobs';
+import { realtimeGateway } from './services/realtime-gateway';
 
 // Load environment variables
 config();
@@ -146,6 +152,12 @@ async function startServer() {
     await prisma.$connect();
     console.log('📊 Connected to PostgreSQL');
     
+    // Start background jobs
+    registerScheduledJobs(jobScheduler, { redis, prisma });
+    if (process.env.JOBS_ENABLED !== 'false') {
+      jobScheduler.start(redis);
+    }
+    
     // Setup API routes
     app.use('/api/auth', authRoutes);
     app.use('/api/users', userRoutes);
@@ -153,6 +165,9 @@ async function startServer() {
     app.use('/api/leagues', leagueRoutes);
     app.use('/api/players', playerRoutes);
     app.use('/api/ai', aiRoutes);
+    app.use('/api/analytics', analyticsRoutes);
+    app.use('/api/jobs', jobRoutes);
+    app.use('/api/notifications', notificationRoutes);
     
     // Global error handler
     app.use((error: Error, req: express.Request, res: express.Response, next: express.NextFunction) => {
@@ -196,11 +211,17 @@ async function startServer() {
       console.log(`📊 Health check: http://localhost:${PORT}/health`);
       console.log(`🔑 Auth endpoints: http://localhost:${PORT}/api/auth`);
     });
+
+    // WebSocket events share the HTTP port
+    await realtimeGateway.attach(server, redis);
     
     // Graceful shutdown
     const gracefulShutdown = async (signal: string) => {
       console.log(`\n📴 Received ${signal}, shutting down gracefully...`);
       
+      jobScheduler.stop();
+      await realtimeGateway.close();
+      
       server.close(async () => {
         console.log('📴 HTTP server closed');
         
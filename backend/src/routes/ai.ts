@@ -6,7 +6,10 @@ import {
   WaiverWireRequest,
   LineupOptimizerRequest
 } from '../services/ai-service';
+import { aiAgentClient } from '../services/ai-agent-client';
 import { authenticateToken, AuthenticatedRequest } from '../middleware/auth';
+import { Readable } from 'stream';
+import { ReadableStream } from 'stream/web';
 
 // Development middleware for testing (bypasses auth)
 const devAuth = (req: AuthenticatedRequest, res: express.Response, next: express.NextFunction) => {
@@ -102,6 +105,48 @@ const LineupOptimizerRequestSchema = z.object({
   }).optional(),
 });
 
+// The streamed analyses go to the ai-service agents, so they take the agents' request shapes
+const StartSitStreamRequestSchema = StartSitRequestSchema.extend({
+  preferredProvider: z.nativeEnum(AIProvider).optional(),
+});
+
+const TradeAnalysisStreamRequestSchema = TradeAnalysisRequestSchema.extend({
+  team1UserId: z.string().min(1, 'Team 1 user ID is required'),
+  team2UserId: z.string().min(1, 'Team 2 user ID is required'),
+  preferredProvider: z.nativeEnum(AIProvider).optional(),
+});
+
+const LineupOptimizerStreamRequestSchema = z.object({
+  leagueId: z.string().min(1, 'League ID is required'),
+  week: z.number().int().min(1).max(18, 'Week must be between 1 and 18'),
+  availablePlayers: z.array(z.string()).min(1, 'At least one player ID is required'),
+  rosterSlots: z.array(z.string()).min(1, 'At least one roster slot is required'),
+  userPreferences: z.object({
+    riskTolerance: z.enum(['conservative', 'moderate', 'aggressive']).optional(),
+    prioritizeFloor: z.boolean().optional(),
+    stackPreference: z.enum(['qb_wr', 'qb_te', 'none']).optional(),
+    avoidOpponents: z.boolean().optional(),
+    weatherConcerns: z.boolean().optional(),
+  }).optional(),
+  constraints: z.object({
+    mustStart: z.array(z.string()).optional(),
+    cannotStart: z.array(z.string()).optional(),
+    maxPlayersPerTeam: z.number().int().min(1).optional(),
+    minProjectedPoints: z.number().min(0).optional(),
+  }).optional(),
+  preferredProvider: z.nativeEnum(AIProvider).optional(),
+});
+
+const HistoryQuerySchema = z.object({
+  analysisType: z.string().min(1).optional(),
+  leagueId: z.string().min(1).optional(),
+  week: z.coerce.number().int().min(1).max(18, 'Week must be between 1 and 18').optional(),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  cursor: z.string().min(1).optional(),
+  limit: z.coerce.number().int().min(1).max(50, 'Limit must be between 1 and 50').optional(),
+});
+
 // Helper function to validate request body
 function validateSchema<T>(schema: z.ZodSchema<T>, data: any): T {
   try {
@@ -115,6 +160,125 @@ function validateSchema<T>(schema: z.ZodSchema<T>, data: any): T {
   }
 }
 
+function sendStreamError(
+  req: AuthenticatedRequest,
+  res: express.Response,
+  status: number,
+  code: string,
+  message: string,
+  details: string
+) {
+  res.status(status).json({
+    success: false,
+    error: { code, message, details },
+    metadata: {
+      timestamp: new Date().toISOString(),
+      requestId: req.headers['x-request-id'] || 'unknown',
+    },
+  });
+}
+
+// How a streamed analysis is saved to the history once its result event arrives
+interface StreamStorage<TBody> {
+  analysisType: string;
+  metadata: (body: TBody, result: any) => Record<string, any>;
+}
+
+// Relays an agent's Server-Sent Events stream to the client. Validation and
+// upstream failures before the first event are answered with the usual JSON
+// error; a failure mid-stream becomes a final `error` event.
+async function relayAnalysisStream<TBody extends { leagueId: string }>(
+  req: AuthenticatedRequest,
+  res: express.Response,
+  path: string,
+  buildBody: () => TBody,
+  error: { code: string; message: string },
+  storage: StreamStorage<TBody>
+) {
+  let body: TBody;
+  try {
+    body = buildBody();
+  } catch (validationError) {
+    return sendStreamError(req, res, 400, 'VALIDATION_ERROR', error.message,
+      validationError instanceof Error ? validationError.message : 'Unknown error');
+  }
+
+  // Stop the agent when the client goes away
+  const upstream = new AbortController();
+  res.on('close', () => {
+    if (!res.writableEnded) upstream.abort();
+  });
+
+  let result: any = null;
+  try {
+    const response = await aiAgentClient.openStream(path, body, upstream.signal);
+    if (!response.ok || !response.body) {
+      const data: any = await response.json().catch(() => null);
+      return sendStreamError(req, res, response.ok ? 502 : response.status, error.code, error.message,
+        data?.error?.message || `AI service responded with ${response.status}`);
+    }
+
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+    });
+
+    // Events are passed through untouched; the result event is also kept for storage
+    const decoder = new TextDecoder();
+    let buffer = '';
+
+    for await (const chunk of Readable.fromWeb(response.body as ReadableStream<Uint8Array>)) {
+      res.write(chunk);
+
+      buffer += decoder.decode(chunk, { stream: true });
+      const events = buffer.split('\n\n');
+      buffer = events.pop() || '';
+      for (const event of events) {
+        const data = event.match(/^data: (.*)$/m)?.[1];
+        if (data && /^event: result$/m.test(event)) {
+          try {
+            result = JSON.parse(data).data;
+          } catch {
+            console.warn(`${path} sent an unreadable result event; not storing it`);
+          }
+        }
+      }
+    }
+    res.end();
+  } catch (streamError) {
+    if (upstream.signal.aborted) return;
+
+    console.error(`${path} stream error:`, streamError);
+    const details = streamError instanceof Error ? streamError.message : 'Unknown error';
+    if (!res.headersSent) {
+      return sendStreamError(req, res, 500, error.code, error.message, details);
+    }
+    // Writing to an ended response would throw outside any handler
+    if (!res.writableEnded) {
+      res.write(`event: error\ndata: ${JSON.stringify({ success: false, error: { ...error, details } })}\n\n`);
+      res.end();
+    }
+    return;
+  }
+
+  // The client already has the result, so storing it can only be logged if it fails
+  if (result) {
+    try {
+      await aiService.storeAgentAnalysis(
+        req.userId!,
+        body.leagueId,
+        storage.analysisType,
+        body,
+        result,
+        storage.metadata(body, result)
+      );
+    } catch (storeError) {
+      console.error(`Failed to store the ${path} result:`, storeError);
+    }
+  }
+}
+
 // POST /api/ai/start-sit
 // Start/Sit analysis with authentication
 router.post('/start-sit', authenticateToken, async (req: AuthenticatedRequest, res) => {
@@ -161,6 +325,28 @@ router.post('/start-sit', authenticateToken, async (req: AuthenticatedRequest, r
   }
 });
 
+// POST /api/ai/start-sit/stream
+// Start/Sit analysis streamed from the ai-service over Server-Sent Events
+router.post('/start-sit/stream', authenticateToken, async (req: AuthenticatedRequest, res) => {
+  console.log(`Streaming start/sit analysis request from user ${req.userId}`);
+
+  await relayAnalysisStream(req, res, '/ai/start-sit/stream', () => ({
+    ...validateSchema(StartSitStreamRequestSchema, req.body),
+    userId: req.userId!,
+  }), {
+    code: 'START_SIT_ANALYSIS_FAILED',
+    message: 'Failed to perform start/sit analysis',
+  }, {
+    analysisType: 'start_sit',
+    metadata: (body, analysis) => ({
+      confidence: analysis.confidenceScore,
+      week: body.week,
+      playerCount: body.playerIds.length,
+      riskTolerance: body.userPreferences?.riskTolerance || 'moderate',
+    }),
+  });
+});
+
 // POST /api/ai/chat
 // General AI chat endpoint with authentication
 router.post('/chat', devAuth, async (req: AuthenticatedRequest, res) => {
@@ -285,6 +471,35 @@ router.post('/trade-analysis', devAuth, async (req: AuthenticatedRequest, res) =
   }
 });
 
+// POST /api/ai/trade-analysis/stream
+// Trade analysis streamed from the ai-service over Server-Sent Events
+router.post('/trade-analysis/stream', devAuth, async (req: AuthenticatedRequest, res) => {
+  console.log(`Streaming trade analysis request from user ${req.userId}`);
+
+  await relayAnalysisStream(req, res, '/ai/trade-analysis/stream', () => {
+    const validatedData = validateSchema(TradeAnalysisStreamRequestSchema, req.body);
+    return {
+      leagueId: validatedData.leagueId,
+      team1UserId: validatedData.team1UserId,
+      team2UserId: validatedData.team2UserId,
+      team1Players: validatedData.team1Players.give,
+      team2Players: validatedData.team2Players.give,
+      requestingUserId: req.userId!,
+      preferredProvider: validatedData.preferredProvider,
+    };
+  }, {
+    code: 'TRADE_ANALYSIS_FAILED',
+    message: 'Failed to perform trade analysis',
+  }, {
+    analysisType: 'trade_analysis',
+    metadata: (body, analysis) => ({
+      team1Grade: analysis.team1Analysis?.grade,
+      team2Grade: analysis.team2Analysis?.grade,
+      fairnessScore: analysis.fairnessScore,
+    }),
+  });
+});
+
 // POST /api/ai/waiver-wire
 // Waiver wire analysis endpoint with authentication
 router.post('/waiver-wire', authenticateToken, async (req: AuthenticatedRequest, res) => {
@@ -379,22 +594,55 @@ router.post('/lineup-optimizer', authenticateToken, async (req: AuthenticatedReq
   }
 });
 
+// POST /api/ai/lineup-optimizer/stream
+// Lineup optimization streamed from the ai-service over Server-Sent Events
+router.post('/lineup-optimizer/stream', authenticateToken, async (req: AuthenticatedRequest, res) => {
+  console.log(`Streaming lineup optimizer request from user ${req.userId}`);
+
+  await relayAnalysisStream(req, res, '/ai/lineup-optimizer/stream', () => ({
+    ...validateSchema(LineupOptimizerStreamRequestSchema, req.body),
+    userId: req.userId!,
+  }), {
+    code: 'LINEUP_OPTIMIZER_FAILED',
+    message: 'Failed to perform lineup optimization',
+  }, {
+    analysisType: 'lineup_optimizer',
+    metadata: (body, optimization) => ({
+      projectedTotal: optimization.optimalLineup?.projectedPoints,
+      week: body.week,
+    }),
+  });
+});
+
 // GET /api/ai/analysis/:analysisId
 // Get historical analysis by ID
 router.get('/analysis/:analysisId', authenticateToken, async (req: AuthenticatedRequest, res) => {
   try {
     const { analysisId } = req.params;
-    
-    // Query database for analysis (placeholder - would need Prisma query)
-    res.status(501).json({
-      success: false,
-      error: {
-        code: 'NOT_IMPLEMENTED',
-        message: 'Historical analysis retrieval not yet implemented',
-      },
+
+    const analysis = await aiService.getAnalysis(req.userId!, analysisId);
+
+    if (!analysis) {
+      return res.status(404).json({
+        success: false,
+        error: {
+          code: 'ANALYSIS_NOT_FOUND',
+          message: 'Analysis not found',
+        },
+        metadata: {
+          timestamp: new Date().toISOString(),
+          requestId: req.headers['x-request-id'] || 'unknown',
+        },
+      });
+    }
+
+    res.json({
+      success: true,
+      data: analysis,
       metadata: {
         timestamp: new Date().toISOString(),
         requestId: req.headers['x-request-id'] || 'unknown',
+        analysisType: analysis.analysisType,
       },
     });
   } catch (error) {
@@ -415,21 +663,35 @@ router.get('/analysis/:analysisId', authenticateToken, async (req: Authenticated
 });
 
 // GET /api/ai/history
-// Get user's analysis history
+// Get user's analysis history (cursor paginated, newest first)
 router.get('/history', authenticateToken, async (req: AuthenticatedRequest, res) => {
   try {
-    const { limit = '10', analysisType, leagueId } = req.query;
-    
-    // Query database for user's analysis history (placeholder - would need Prisma query)
-    res.status(501).json({
-      success: false,
-      error: {
-        code: 'NOT_IMPLEMENTED',
-        message: 'Analysis history retrieval not yet implemented',
-      },
+    const parsed = HistoryQuerySchema.safeParse(req.query);
+
+    if (!parsed.success) {
+      return res.status(400).json({
+        success: false,
+        error: {
+          code: 'INVALID_QUERY',
+          message: 'Invalid history query',
+          details: parsed.error.errors.map(e => `${e.path.join('.')}: ${e.message}`).join(', '),
+        },
+        metadata: {
+          timestamp: new Date().toISOString(),
+          requestId: req.headers['x-request-id'] || 'unknown',
+        },
+      });
+    }
+
+    const history = await aiService.getAnalysisHistory(req.userId!, parsed.data);
+
+    res.json({
+      success: true,
+      data: history,
       metadata: {
         timestamp: new Date().toISOString(),
         requestId: req.headers['x-request-id'] || 'unknown',
+        count: history.items.length,
       },
     });
   } catch (error) {
@@ -0,0 +1,222 @@
+import express from 'express';
+import { PrismaClient } from '@prisma/client';
+import { powerRankingsService } from '../services/power-rankings-service';
+import { matchupPreviewService } from '../services/matchup-preview-service';
+import { authenticateToken, AuthenticatedRequest } from '../middleware/auth';
+
+const router = express.Router();
+const prisma = new PrismaClient();
+
+const parseWeek = (value: unknown): number | undefined | null => {
+  if (value === undefined) return undefined;
+  const week = parseInt(value as string);
+  return isNaN(week) || week < 1 || week > 18 ? null : week;
+};
+
+const invalidWeek = (res: express.Response) => res.status(400).json({
+  success: false,
+  error: {
+    code: 'INVALID_WEEK',
+    message: 'Week must be a number between 1 and 18',
+  },
+});
+
+const leagueNotFound = (res: express.Response) => res.status(404).json({
+  success: false,
+  error: {
+    code: 'LEAGUE_NOT_FOUND',
+    message: 'League not found',
+  },
+});
+
+const rankingsNotAvailable = (res: express.Response) => res.status(404).json({
+  success: false,
+  error: {
+    code: 'RANKINGS_NOT_AVAILABLE',
+    message: 'Power rankings are available once a week has been completed',
+  },
+});
+
+// GET /api/analytics/power-rankings/methodology
+// Returns how power ranking scores are calculated
+router.get('/power-rankings/methodology', (req, res) => {
+  res.json({
+    success: true,
+    data: powerRankingsService.getMethodology(),
+  });
+});
+
+// GET /api/analytics/power-rankings/:leagueId?week=N
+// Returns the power rankings after a week (defaults to the last completed week).
+// Public, so it never recomputes stored rankings; members use the POST for that
+router.get('/power-rankings/:leagueId', async (req, res) => {
+  try {
+    const { leagueId } = req.params;
+    const week = parseWeek(req.query.week);
+
+    if (week === null) {
+      return invalidWeek(res);
+    }
+
+    const league = await prisma.league.findUnique({
+      where: { id: leagueId },
+    });
+
+    if (!league) {
+      return leagueNotFound(res);
+    }
+
+    const rankings = await powerRankingsService.getPowerRankings(league.id, league.sleeperLeagueId, { week });
+
+    if (!rankings) {
+      return rankingsNotAvailable(res);
+    }
+
+    res.json({
+      success: true,
+      data: rankings,
+    });
+  } catch (error) {
+    console.error('Error getting power rankings:', error);
+    res.status(500).json({
+      success: false,
+      error: {
+        code: 'INTERNAL_SERVER_ERROR',
+        message: 'Failed to get power rankings',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      },
+    });
+  }
+});
+
+// GET /api/analytics/power-rankings/:leagueId/history
+// Returns every team's rank after each completed week
+router.get('/power-rankings/:leagueId/history', async (req, res) => {
+  try {
+    const { leagueId } = req.params;
+
+    const league = await prisma.league.findUnique({
+      where: { id: leagueId },
+    });
+
+    if (!league) {
+      return leagueNotFound(res);
+    }
+
+    const history = await powerRankingsService.getRankingHistory(league.id, league.sleeperLeagueId);
+
+    res.json({
+      success: true,
+      data: history,
+    });
+  } catch (error) {
+    console.error('Error getting power ranking history:', error);
+    res.status(500).json({
+      success: false,
+      error: {
+        code: 'INTERNAL_SERVER_ERROR',
+        message: 'Failed to get power ranking history',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      },
+    });
+  }
+});
+
+// POST /api/analytics/power-rankings/:leagueId
+// Recomputes a week's rankings, optionally with an AI-written blurb per team
+router.post('/power-rankings/:leagueId', authenticateToken, async (req: AuthenticatedRequest, res) => {
+  try {
+    const { leagueId } = req.params;
+    const week = parseWeek(req.body.week);
+    const includeBlurbs = req.body.includeBlurbs === true;
+
+    if (week === null) {
+      return invalidWeek(res);
+    }
+
+    const membership = await prisma.userLeague.findFirst({
+      where: { leagueId, userId: req.userId },
+      include: { league: true },
+    });
+
+    if (!membership) {
+      return leagueNotFound(res);
+    }
+
+    const rankings = await powerRankingsService.getPowerRankings(leagueId, membership.league.sleeperLeagueId, {
+      week,
+      refresh: true,
+      includeBlurbs,
+    });
+
+    if (!rankings) {
+      return rankingsNotAvailable(res);
+    }
+
+    res.json({
+      success: true,
+      data: rankings,
+    });
+  } catch (error) {
+    console.error('Error computing power rankings:', error);
+    res.status(500).json({
+      success: false,
+      error: {
+        code: 'INTERNAL_SERVER_ERROR',
+        message: 'Failed to compute power rankings',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      },
+    });
+  }
+});
+
+// GET /api/analytics/matchup-preview/:leagueId?week=N&refresh=true
+// Returns the preview of the current user's matchup (defaults to the week being played)
+router.get('/matchup-preview/:leagueId', authenticateToken, async (req: AuthenticatedRequest, res) => {
+  try {
+    const { leagueId } = req.params;
+    const week = parseWeek(req.query.week);
+    const refresh = req.query.refresh === 'true';
+
+    if (week === null) {
+      return invalidWeek(res);
+    }
+
+    const membership = await prisma.userLeague.findFirst({
+      where: { leagueId, userId: req.userId },
+    });
+
+    if (!membership) {
+      return leagueNotFound(res);
+    }
+
+    const preview = await matchupPreviewService.getPreview(leagueId, req.userId!, { week, refresh });
+
+    if (!preview) {
+      return res.status(404).json({
+        success: false,
+        error: {
+          code: 'MATCHUP_NOT_AVAILABLE',
+          message: 'You have no matchup to preview for this week',
+        },
+      });
+    }
+
+    res.json({
+      success: true,
+      data: preview,
+    });
+  } catch (error) {
+    console.error('Error getting matchup preview:', error);
+    res.status(500).json({
+      success: false,
+      error: {
+        code: 'INTERNAL_SERVER_ERROR',
+        message: 'Failed to get matchup preview',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      },
+    });
+  }
+});
+
+export { router as analyticsRoutes };
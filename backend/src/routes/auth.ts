@@ -24,6 +24,8 @@ const PreferencesUpdateSchema = z.object({
     push: z.boolean().optional(),
     weeklyReport: z.boolean().optional(),
     tradeAlerts: z.boolean().optional(),
+    weeklyReportEmail: z.boolean().optional(),
+    tradeAlertEmail: z.boolean().optional(),
   }).optional(),
   theme: z.enum(['light', 'dark', 'system']).optional(),
 });
@@ -0,0 +1,145 @@
+import express from 'express';
+import { jobScheduler, JobNotFoundError } from '../services/job-scheduler';
+import { authenticateToken, AuthenticatedRequest } from '../middleware/auth';
+
+const router = express.Router();
+
+// Only emails listed in JOB_ADMIN_EMAILS may start jobs by hand
+const requireJobAdmin = (req: AuthenticatedRequest, res: express.Response, next: express.NextFunction) => {
+  const admins = (process.env.JOB_ADMIN_EMAILS || '')
+    .split(',')
+    .map(email => email.trim().toLowerCase())
+    .filter(Boolean);
+
+  if (!req.user || !admins.includes(req.user.email.toLowerCase())) {
+    return res.status(403).json({
+      success: false,
+      error: {
+        code: 'AUTHORIZATION_ERROR',
+        message: 'Only job administrators can run jobs',
+      },
+    });
+  }
+
+  next();
+};
+
+const requireScheduler = (req: express.Request, res: express.Response, next: express.NextFunction) => {
+  if (!jobScheduler.isStarted()) {
+    return res.status(503).json({
+      success: false,
+      error: {
+        code: 'SCHEDULER_UNAVAILABLE',
+        message: 'The job scheduler is not running',
+      },
+    });
+  }
+
+  next();
+};
+
+const jobNotFound = (res: express.Response, error: JobNotFoundError) => res.status(404).json({
+  success: false,
+  error: {
+    code: 'JOB_NOT_FOUND',
+    message: error.message,
+  },
+});
+
+// GET /api/jobs
+// Returns the schedule and last run of every job
+router.get('/', authenticateToken, requireScheduler, async (req: AuthenticatedRequest, res) => {
+  try {
+    const jobs = await jobScheduler.getAllStatuses();
+
+    res.json({
+      success: true,
+      data: jobs,
+      metadata: {
+        timestamp: new Date().toISOString(),
+        requestId: req.headers['x-request-id'] || 'unknown',
+      },
+    });
+  } catch (error) {
+    console.error('Error getting job statuses:', error);
+    res.status(500).json({
+      success: false,
+      error: {
+        code: 'INTERNAL_SERVER_ERROR',
+        message: 'Failed to get job statuses',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      },
+    });
+  }
+});
+
+// GET /api/jobs/:name
+// Returns a job's status along with its recent runs
+router.get('/:name', authenticateToken, requireScheduler, async (req: AuthenticatedRequest, res) => {
+  try {
+    const { name } = req.params;
+    const [status, history] = await Promise.all([
+      jobScheduler.getStatus(name),
+      jobScheduler.getHistory(name),
+    ]);
+
+    res.json({
+      success: true,
+      data: { ...status, history },
+      metadata: {
+        timestamp: new Date().toISOString(),
+        requestId: req.headers['x-request-id'] || 'unknown',
+      },
+    });
+  } catch (error) {
+    if (error instanceof JobNotFoundError) {
+      return jobNotFound(res, error);
+    }
+
+    console.error('Error getting job status:', error);
+    res.status(500).json({
+      success: false,
+      error: {
+        code: 'INTERNAL_SERVER_ERROR',
+        message: 'Failed to get job status',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      },
+    });
+  }
+});
+
+// POST /api/jobs/:name/run
+// Starts a job immediately; poll GET /api/jobs/:name for the outcome
+router.post('/:name/run', authenticateToken, requireJobAdmin, requireScheduler, async (req: AuthenticatedRequest, res) => {
+  try {
+    const { name } = req.params;
+    console.log(`Job ${name} triggered manually by user ${req.userId}`);
+
+    const runId = jobScheduler.trigger(name);
+
+    res.status(202).json({
+      success: true,
+      data: { job: name, runId },
+      metadata: {
+        timestamp: new Date().toISOString(),
+        requestId: req.headers['x-request-id'] || 'unknown',
+      },
+    });
+  } catch (error) {
+    if (error instanceof JobNotFoundError) {
+      return jobNotFound(res, error);
+    }
+
+    console.error('Error running job:', error);
+    res.status(500).json({
+      success: false,
+      error: {
+        code: 'INTERNAL_SERVER_ERROR',
+        message: 'Failed to run job',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      },
+    });
+  }
+});
+
+export { router as jobRoutes };
@@ -1,7 +1,23 @@
 import express from 'express';
 import { PrismaClient } from '@prisma/client';
+import { z } from 'zod';
+import { LeagueChatSchema, USER_CHAT_MESSAGE_TYPES } from '@fantasy-app/shared';
 import { leagueService } from '../services/league-service';
-import { authenticateToken, AuthenticatedRequest } from '../middleware/auth';
+import { liveScoreboardService } from '../services/live-scoreboard-service';
+import { chatService, MAX_CHAT_PAGE_SIZE } from '../services/chat-service';
+import { playoffOddsService, MIN_SIMULATIONS, MAX_SIMULATIONS } from '../services/playoff-odds-service';
+import { weeklyRecapService } from '../services/weekly-recap-service';
+import { draftGradeService } from '../services/draft-grade-service';
+import { seasonOutlookService } from '../services/season-outlook-service';
+import { tradeFinderService } from '../services/trade-finder-service';
+import {
+  rivalryService,
+  RivalryAccessError,
+  RivalryConflictError,
+  RivalryNotFoundError,
+} from '../services/rivalry-service';
+import { authenticateToken, optionalAuth, AuthenticatedRequest } from '../middleware/auth';
+import { ValidationError } from '../utils/validation';
 
 const router = express.Router();
 const prisma = new PrismaClient();
@@ -100,6 +116,57 @@ router.get('/:leagueId/matchups/:week', async (req, res) => {
   }
 });
 
+// GET /api/leagues/:leagueId/scoreboard/:week
+// Returns live matchup scores with per-starter points, players yet to play and projected finals
+router.get('/:leagueId/scoreboard/:week', async (req, res) => {
+  try {
+    const { leagueId, week } = req.params;
+    const weekNumber = parseInt(week);
+
+    if (isNaN(weekNumber) || weekNumber < 1 || weekNumber > 18) {
+      return res.status(400).json({
+        success: false,
+        error: {
+          code: 'INVALID_WEEK',
+          message: 'Week must be a number between 1 and 18',
+        },
+      });
+    }
+
+    // Find the league in our database
+    const league = await prisma.league.findUnique({
+      where: { id: leagueId },
+    });
+
+    if (!league) {
+      return res.status(404).json({
+        success: false,
+        error: {
+          code: 'LEAGUE_NOT_FOUND',
+          message: 'League not found',
+        },
+      });
+    }
+
+    const scoreboard = await liveScoreboardService.getScoreboard(league.sleeperLeagueId, weekNumber);
+
+    res.json({
+      success: true,
+      data: scoreboard,
+    });
+  } catch (error) {
+    console.error('Error getting live scoreboard:', error);
+    res.status(500).json({
+      success: false,
+      error: {
+        code: 'INTERNAL_SERVER_ERROR',
+        message: 'Failed to get live scoreboard',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      },
+    });
+  }
+});
+
 // GET /api/leagues/:leagueId/standings
 // Returns calculated standings with wins/losses/points
 router.get('/:leagueId/standings', async (req, res) => {
@@ -140,6 +207,77 @@ router.get('/:leagueId/standings', async (req, res) => {
   }
 });
 
+// GET /api/leagues/:leagueId/playoff-odds?simulations=50000&refresh=true
+// Returns Monte Carlo playoff and championship odds with clinch/elimination scenarios.
+// Only members may set simulations or refresh; anyone else gets the stored odds (null until simulated)
+router.get('/:leagueId/playoff-odds', optionalAuth, async (req: AuthenticatedRequest, res) => {
+  try {
+    const { leagueId } = req.params;
+    const simulations = req.query.simulations ? parseInt(req.query.simulations as string) : MIN_SIMULATIONS;
+    const refresh = req.query.refresh === 'true';
+    const customRun = refresh || req.query.simulations !== undefined;
+
+    if (isNaN(simulations) || simulations < MIN_SIMULATIONS || simulations > MAX_SIMULATIONS) {
+      return res.status(400).json({
+        success: false,
+        error: {
+          code: 'INVALID_SIMULATIONS',
+          message: `Simulations must be a number between ${MIN_SIMULATIONS} and ${MAX_SIMULATIONS}`,
+        },
+      });
+    }
+
+    // Find the league in our database
+    const league = await prisma.league.findUnique({
+      where: { id: leagueId },
+    });
+
+    if (!league) {
+      return res.status(404).json({
+        success: false,
+        error: {
+          code: 'LEAGUE_NOT_FOUND',
+          message: 'League not found',
+        },
+      });
+    }
+
+    if (customRun && !req.userId) {
+      return res.status(401).json({
+        success: false,
+        error: {
+          code: 'AUTHENTICATION_ERROR',
+          message: 'Sign in to run a new simulation',
+        },
+      });
+    }
+
+    const membership = req.userId ? await findMembership(league.id, req.userId) : null;
+    if (customRun && !membership) {
+      return leagueNotFound(res);
+    }
+
+    const playoffOdds = membership
+      ? await playoffOddsService.getPlayoffOdds(league.id, league.sleeperLeagueId, { simulations, refresh })
+      : await playoffOddsService.getStoredPlayoffOdds(league.id, league.sleeperLeagueId);
+
+    res.json({
+      success: true,
+      data: playoffOdds,
+    });
+  } catch (error) {
+    console.error('Error getting playoff odds:', error);
+    res.status(500).json({
+      success: false,
+      error: {
+        code: 'INTERNAL_SERVER_ERROR',
+        message: 'Failed to get playoff odds',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      },
+    });
+  }
+});
+
 // GET /api/leagues/:leagueId/roster/:userId
 // Returns user's specific roster for the league
 router.get('/:leagueId/roster/:userId', authenticateToken, async (req: AuthenticatedRequest, res) => {
@@ -278,4 +416,573 @@ router.get('/:leagueId/players/:userId', authenticateToken, async (req: Authenti
   }
 });
 
+// Maps rivalry service errors to responses; returns false for anything unexpected
+const sendRivalryError = (res: express.Response, error: unknown): boolean => {
+  const mapping: [new (...args: any[]) => Error, number, string][] = [
+    [ValidationError, 400, 'VALIDATION_ERROR'],
+    [RivalryAccessError, 403, 'ACCESS_DENIED'],
+    [RivalryNotFoundError, 404, 'RIVALRY_NOT_FOUND'],
+    [RivalryConflictError, 409, 'CONFLICT'],
+  ];
+
+  const match = mapping.find(([errorClass]) => error instanceof errorClass);
+  if (!match) {
+    return false;
+  }
+
+  res.status(match[1]).json({
+    success: false,
+    error: {
+      code: match[2],
+      message: (error as Error).message,
+    },
+  });
+  return true;
+};
+
+const findMembership = (leagueId: string, userId?: string) => prisma.userLeague.findFirst({
+  where: { leagueId, userId },
+  include: { league: true },
+});
+
+const leagueNotFound = (res: express.Response) => res.status(404).json({
+  success: false,
+  error: {
+    code: 'LEAGUE_NOT_FOUND',
+    message: 'League not found',
+  },
+});
+
+// GET /api/leagues/:leagueId/rivalries
+// Returns detected and declared rivalries with their all-time head-to-head records
+router.get('/:leagueId/rivalries', async (req, res) => {
+  try {
+    const { leagueId } = req.params;
+
+    const league = await prisma.league.findUnique({
+      where: { id: leagueId },
+    });
+
+    if (!league) {
+      return leagueNotFound(res);
+    }
+
+    const rivalries = await rivalryService.getRivalries(league.id);
+
+    res.json({
+      success: true,
+      data: rivalries,
+    });
+  } catch (error) {
+    console.error('Error getting rivalries:', error);
+    res.status(500).json({
+      success: false,
+      error: {
+        code: 'INTERNAL_SERVER_ERROR',
+        message: 'Failed to get rivalries',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      },
+    });
+  }
+});
+
+// POST /api/leagues/:leagueId/rivalries
+// Declares a rivalry between the authenticated user and another league member
+router.post('/:leagueId/rivalries', authenticateToken, async (req: AuthenticatedRequest, res) => {
+  try {
+    const { leagueId } = req.params;
+    const { opponentSleeperUserId, rivalryName } = req.body;
+    let { opponentUserId } = req.body;
+
+    // The league page only knows Sleeper user IDs, so either ID is accepted
+    if (!opponentUserId && typeof opponentSleeperUserId === 'string' && opponentSleeperUserId) {
+      const opponent = await prisma.user.findUnique({
+        where: { sleeperUserId: opponentSleeperUserId },
+      });
+      opponentUserId = opponent?.id;
+    }
+
+    if (typeof opponentUserId !== 'string' || !opponentUserId) {
+      return res.status(400).json({
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: 'opponentUserId or the Sleeper user ID of a registered league member is required',
+        },
+      });
+    }
+
+    if (rivalryName !== undefined && (typeof rivalryName !== 'string' || rivalryName.length > 100)) {
+      return res.status(400).json({
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: 'rivalryName must be a string of at most 100 characters',
+        },
+      });
+    }
+
+    const membership = await findMembership(leagueId, req.userId);
+    if (!membership) {
+      return leagueNotFound(res);
+    }
+
+    const rivalry = await rivalryService.declareRivalry(
+      leagueId,
+      membership.league.sleeperLeagueId,
+      req.userId!,
+      opponentUserId,
+      rivalryName
+    );
+
+    res.status(201).json({
+      success: true,
+      data: rivalry,
+    });
+  } catch (error) {
+    if (sendRivalryError(res, error)) return;
+
+    console.error('Error declaring rivalry:', error);
+    res.status(500).json({
+      success: false,
+      error: {
+        code: 'INTERNAL_SERVER_ERROR',
+        message: 'Failed to declare rivalry',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      },
+    });
+  }
+});
+
+// POST /api/leagues/:leagueId/rivalries/refresh
+// Rebuilds head-to-head records from Sleeper history and detects new rivalries
+router.post('/:leagueId/rivalries/refresh', authenticateToken, async (req: AuthenticatedRequest, res) => {
+  try {
+    const { leagueId } = req.params;
+
+    const membership = await findMembership(leagueId, req.userId);
+    if (!membership) {
+      return leagueNotFound(res);
+    }
+
+    const result = await rivalryService.refreshRivalries(leagueId, membership.league.sleeperLeagueId);
+
+    res.json({
+      success: true,
+      data: result,
+    });
+  } catch (error) {
+    console.error('Error refreshing rivalries:', error);
+    res.status(500).json({
+      success: false,
+      error: {
+        code: 'INTERNAL_SERVER_ERROR',
+        message: 'Failed to refresh rivalries',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      },
+    });
+  }
+});
+
+// PATCH /api/leagues/:leagueId/rivalries/:rivalryId
+// Renames or (de)activates a rivalry; only its two users can change it
+router.patch('/:leagueId/rivalries/:rivalryId', authenticateToken, async (req: AuthenticatedRequest, res) => {
+  try {
+    const { leagueId, rivalryId } = req.params;
+    const { rivalryName, isActive } = req.body;
+
+    if (
+      (rivalryName !== undefined && rivalryName !== null && (typeof rivalryName !== 'string' || rivalryName.length > 100)) ||
+      (isActive !== undefined && typeof isActive !== 'boolean')
+    ) {
+      return res.status(400).json({
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: 'rivalryName must be a string of at most 100 characters and isActive a boolean',
+        },
+      });
+    }
+
+    const rivalry = await rivalryService.updateRivalry(leagueId, rivalryId, req.userId!, { rivalryName, isActive });
+
+    res.json({
+      success: true,
+      data: rivalry,
+    });
+  } catch (error) {
+    if (sendRivalryError(res, error)) return;
+
+    console.error('Error updating rivalry:', error);
+    res.status(500).json({
+      success: false,
+      error: {
+        code: 'INTERNAL_SERVER_ERROR',
+        message: 'Failed to update rivalry',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      },
+    });
+  }
+});
+
+// DELETE /api/leagues/:leagueId/rivalries/:rivalryId
+// Removes a declared rivalry or deactivates a detected one; only its two users can delete it
+router.delete('/:leagueId/rivalries/:rivalryId', authenticateToken, async (req: AuthenticatedRequest, res) => {
+  try {
+    const { leagueId, rivalryId } = req.params;
+
+    await rivalryService.deleteRivalry(leagueId, rivalryId, req.userId!);
+
+    res.json({
+      success: true,
+      data: { id: rivalryId },
+    });
+  } catch (error) {
+    if (sendRivalryError(res, error)) return;
+
+    console.error('Error deleting rivalry:', error);
+    res.status(500).json({
+      success: false,
+      error: {
+        code: 'INTERNAL_SERVER_ERROR',
+        message: 'Failed to delete rivalry',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      },
+    });
+  }
+});
+
+const generateRecapSchema = z.object({
+  week: z.number().int().min(1).max(18).optional(),
+  tone: z.enum(['professional', 'playful', 'roast']).optional(),
+  postToChat: z.boolean().default(false),
+  refresh: z.boolean().default(false),
+});
+
+// GET /api/leagues/:leagueId/recap?week=5
+// Returns the stored weekly recap for the week, or the latest one; null when none was written
+router.get('/:leagueId/recap', async (req, res) => {
+  try {
+    const { leagueId } = req.params;
+    const week = req.query.week ? parseInt(req.query.week as string) : undefined;
+
+    if (week !== undefined && (isNaN(week) || week < 1 || week > 18)) {
+      return res.status(400).json({
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: 'week must be a number between 1 and 18',
+        },
+      });
+    }
+
+    const league = await prisma.league.findUnique({
+      where: { id: leagueId },
+    });
+
+    if (!league) {
+      return leagueNotFound(res);
+    }
+
+    const recap = await weeklyRecapService.getRecap(league.id, week);
+
+    res.json({
+      success: true,
+      data: recap,
+    });
+  } catch (error) {
+    console.error('Error getting weekly recap:', error);
+    res.status(500).json({
+      success: false,
+      error: {
+        code: 'INTERNAL_SERVER_ERROR',
+        message: 'Failed to get weekly recap',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      },
+    });
+  }
+});
+
+// POST /api/leagues/:leagueId/recap
+// Writes the recap for a completed week (the last one by default); members only
+router.post('/:leagueId/recap', authenticateToken, async (req: AuthenticatedRequest, res) => {
+  try {
+    const { leagueId } = req.params;
+
+    const parsed = generateRecapSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: 'Invalid recap request',
+          details: parsed.error.errors,
+        },
+      });
+    }
+
+    const membership = await findMembership(leagueId, req.userId);
+    if (!membership) {
+      return leagueNotFound(res);
+    }
+
+    const recap = await weeklyRecapService.generateRecap(leagueId, {
+      ...parsed.data,
+      requestedBy: req.userId,
+    });
+
+    if (!recap) {
+      return res.status(409).json({
+        success: false,
+        error: {
+          code: 'WEEK_NOT_COMPLETE',
+          message: 'There are no completed matchups to recap for that week yet',
+        },
+      });
+    }
+
+    res.json({
+      success: true,
+      data: recap,
+    });
+  } catch (error) {
+    console.error('Error writing weekly recap:', error);
+    res.status(500).json({
+      success: false,
+      error: {
+        code: 'INTERNAL_SERVER_ERROR',
+        message: 'Failed to write weekly recap',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      },
+    });
+  }
+});
+
+// GET /api/leagues/:leagueId/draft-grades?basis=points&refresh=true
+// Grades the league's draft; re-graded on points scored once the season is under way. Members only
+router.get('/:leagueId/draft-grades', authenticateToken, async (req: AuthenticatedRequest, res) => {
+  try {
+    const { leagueId } = req.params;
+    const basis = req.query.basis as string | undefined;
+    const refresh = req.query.refresh === 'true';
+
+    if (basis !== undefined && basis !== 'adp' && basis !== 'points') {
+      return res.status(400).json({
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: 'basis must be adp or points',
+        },
+      });
+    }
+
+    const membership = await findMembership(leagueId, req.userId);
+    if (!membership) {
+      return leagueNotFound(res);
+    }
+
+    const grades = await draftGradeService.getDraftGrades(leagueId, {
+      basis,
+      refresh,
+      requestedBy: req.userId!,
+    });
+
+    if (!grades) {
+      return res.status(409).json({
+        success: false,
+        error: {
+          code: 'DRAFT_NOT_COMPLETE',
+          message: 'The league has not completed a draft yet',
+        },
+      });
+    }
+
+    res.json({
+      success: true,
+      data: grades,
+    });
+  } catch (error) {
+    console.error('Error grading draft:', error);
+    res.status(500).json({
+      success: false,
+      error: {
+        code: 'INTERNAL_SERVER_ERROR',
+        message: 'Failed to grade draft',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      },
+    });
+  }
+});
+
+// GET /api/leagues/:leagueId/season-outlook?refresh=true
+// Returns the caller's rest-of-season outlook: depth, schedule, byes, playoff odds and top actions
+router.get('/:leagueId/season-outlook', authenticateToken, async (req: AuthenticatedRequest, res) => {
+  try {
+    const { leagueId } = req.params;
+    const refresh = req.query.refresh === 'true';
+
+    const membership = await findMembership(leagueId, req.userId);
+    if (!membership) {
+      return leagueNotFound(res);
+    }
+
+    const outlook = await seasonOutlookService.getOutlook(leagueId, req.userId!, { refresh });
+
+    if (!outlook) {
+      return res.status(404).json({
+        success: false,
+        error: {
+          code: 'OUTLOOK_NOT_AVAILABLE',
+          message: 'No season outlook: you have no roster in this league or the regular season is over',
+        },
+      });
+    }
+
+    res.json({
+      success: true,
+      data: outlook,
+    });
+  } catch (error) {
+    console.error('Error building season outlook:', error);
+    res.status(500).json({
+      success: false,
+      error: {
+        code: 'INTERNAL_SERVER_ERROR',
+        message: 'Failed to build season outlook',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      },
+    });
+  }
+});
+
+// GET /api/leagues/:leagueId/trade-finder?refresh=true
+// Proposes 1-for-1 and 2-for-1 trades with every other roster that improve both lineups; members only
+router.get('/:leagueId/trade-finder', authenticateToken, async (req: AuthenticatedRequest, res) => {
+  try {
+    const { leagueId } = req.params;
+    const refresh = req.query.refresh === 'true';
+
+    const membership = await findMembership(leagueId, req.userId);
+    if (!membership) {
+      return leagueNotFound(res);
+    }
+
+    const trades = await tradeFinderService.findTrades(leagueId, req.userId!, { refresh });
+
+    if (!trades) {
+      return res.status(404).json({
+        success: false,
+        error: {
+          code: 'ROSTER_NOT_FOUND',
+          message: 'You have no roster in this league',
+        },
+      });
+    }
+
+    res.json({
+      success: true,
+      data: trades,
+    });
+  } catch (error) {
+    console.error('Error finding trades:', error);
+    res.status(500).json({
+      success: false,
+      error: {
+        code: 'INTERNAL_SERVER_ERROR',
+        message: 'Failed to find trades',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      },
+    });
+  }
+});
+
+// Members post plain messages; trades and waiver claims are posted by the system
+const postChatMessageSchema = LeagueChatSchema.pick({ message: true }).extend({
+  messageType: z.enum(USER_CHAT_MESSAGE_TYPES).default('chat'),
+});
+
+// GET /api/leagues/:leagueId/chat?page=1&limit=50
+// Returns a page of league chat, newest page first; members only
+router.get('/:leagueId/chat', authenticateToken, async (req: AuthenticatedRequest, res) => {
+  try {
+    const { leagueId } = req.params;
+    const page = req.query.page ? parseInt(req.query.page as string) : 1;
+    const limit = req.query.limit ? parseInt(req.query.limit as string) : undefined;
+
+    if (isNaN(page) || page < 1 || (limit !== undefined && (isNaN(limit) || limit < 1 || limit > MAX_CHAT_PAGE_SIZE))) {
+      return res.status(400).json({
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: `page must be a positive number and limit between 1 and ${MAX_CHAT_PAGE_SIZE}`,
+        },
+      });
+    }
+
+    const membership = await findMembership(leagueId, req.userId);
+    if (!membership) {
+      return leagueNotFound(res);
+    }
+
+    const messages = await chatService.getMessages(leagueId, { page, limit });
+
+    res.json({
+      success: true,
+      data: messages,
+    });
+  } catch (error) {
+    console.error('Error getting league chat:', error);
+    res.status(500).json({
+      success: false,
+      error: {
+        code: 'INTERNAL_SERVER_ERROR',
+        message: 'Failed to get league chat',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      },
+    });
+  }
+});
+
+// POST /api/leagues/:leagueId/chat
+// Posts a message to the league chat; members only
+router.post('/:leagueId/chat', authenticateToken, async (req: AuthenticatedRequest, res) => {
+  try {
+    const { leagueId } = req.params;
+
+    const parsed = postChatMessageSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: 'Messages must be between 1 and 500 characters',
+          details: parsed.error.errors,
+        },
+      });
+    }
+
+    const membership = await findMembership(leagueId, req.userId);
+    if (!membership) {
+      return leagueNotFound(res);
+    }
+
+    const message = await chatService.postMessage(leagueId, req.userId!, parsed.data.message, parsed.data.messageType);
+
+    res.status(201).json({
+      success: true,
+      data: message,
+    });
+  } catch (error) {
+    console.error('Error posting chat message:', error);
+    res.status(500).json({
+      success: false,
+      error: {
+        code: 'INTERNAL_SERVER_ERROR',
+        message: 'Failed to post chat message',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      },
+    });
+  }
+});
+
 export { router as leagueRoutes };
\ No newline at end of file
@@ -0,0 +1,246 @@
+import express from 'express';
+import type { NotificationSettings } from '@fantasy-app/shared';
+import {
+  notificationService,
+  NotificationNotFoundError,
+  MAX_NOTIFICATION_PAGE_SIZE,
+  DEFAULT_NOTIFICATION_SETTINGS,
+} from '../services/notification-service';
+import { emailService, InvalidUnsubscribeTokenError } from '../services/email-service';
+import { authenticateToken, AuthenticatedRequest } from '../middleware/auth';
+
+const router = express.Router();
+
+const notificationNotFound = (res: express.Response, error: NotificationNotFoundError) => res.status(404).json({
+  success: false,
+  error: {
+    code: 'NOTIFICATION_NOT_FOUND',
+    message: error.message,
+  },
+});
+
+// GET /api/notifications?page=1&limit=20&unread=true
+// Returns the signed-in user's unexpired notifications, newest first, with the unread count
+router.get('/', authenticateToken, async (req: AuthenticatedRequest, res) => {
+  try {
+    const page = req.query.page ? parseInt(req.query.page as string) : 1;
+    const limit = req.query.limit ? parseInt(req.query.limit as string) : undefined;
+
+    if (isNaN(page) || page < 1 || (limit !== undefined && (isNaN(limit) || limit < 1 || limit > MAX_NOTIFICATION_PAGE_SIZE))) {
+      return res.status(400).json({
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: `page must be a positive number and limit between 1 and ${MAX_NOTIFICATION_PAGE_SIZE}`,
+        },
+      });
+    }
+
+    const notifications = await notificationService.getNotifications(req.userId!, {
+      page,
+      limit,
+      unreadOnly: req.query.unread === 'true',
+    });
+
+    res.json({
+      success: true,
+      data: notifications,
+    });
+  } catch (error) {
+    console.error('Error getting notifications:', error);
+    res.status(500).json({
+      success: false,
+      error: {
+        code: 'INTERNAL_SERVER_ERROR',
+        message: 'Failed to get notifications',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      },
+    });
+  }
+});
+
+// GET /api/notifications/settings
+// Returns the signed-in user's notification switches, with defaults filled in
+router.get('/settings', authenticateToken, async (req: AuthenticatedRequest, res) => {
+  try {
+    const settings = await notificationService.getNotificationSettings(req.userId!);
+
+    res.json({
+      success: true,
+      data: settings,
+    });
+  } catch (error) {
+    console.error('Error getting notification settings:', error);
+    res.status(500).json({
+      success: false,
+      error: {
+        code: 'INTERNAL_SERVER_ERROR',
+        message: 'Failed to get notification settings',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      },
+    });
+  }
+});
+
+// PUT /api/notifications/settings
+// Updates any of email, push, weeklyReport and tradeAlerts for the signed-in user
+router.put('/settings', authenticateToken, async (req: AuthenticatedRequest, res) => {
+  try {
+    const changes: Partial<NotificationSettings> = {};
+    for (const key of Object.keys(DEFAULT_NOTIFICATION_SETTINGS) as (keyof NotificationSettings)[]) {
+      if (req.body?.[key] === undefined) continue;
+      if (typeof req.body[key] !== 'boolean') {
+        return res.status(400).json({
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: `${key} must be a boolean`,
+          },
+        });
+      }
+      changes[key] = req.body[key];
+    }
+
+    const settings = await notificationService.updateNotificationSettings(req.userId!, changes);
+
+    res.json({
+      success: true,
+      data: settings,
+    });
+  } catch (error) {
+    console.error('Error updating notification settings:', error);
+    res.status(500).json({
+      success: false,
+      error: {
+        code: 'INTERNAL_SERVER_ERROR',
+        message: 'Failed to update notification settings',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      },
+    });
+  }
+});
+
+// POST /api/notifications/read-all
+// Marks every notification of the signed-in user as read
+router.post('/read-all', authenticateToken, async (req: AuthenticatedRequest, res) => {
+  try {
+    const result = await notificationService.markAllRead(req.userId!);
+
+    res.json({
+      success: true,
+      data: result,
+    });
+  } catch (error) {
+    console.error('Error marking notifications read:', error);
+    res.status(500).json({
+      success: false,
+      error: {
+        code: 'INTERNAL_SERVER_ERROR',
+        message: 'Failed to mark notifications read',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      },
+    });
+  }
+});
+
+// POST /api/notifications/unsubscribe?token=...
+// Turns off the setting named in an email unsubscribe link. Public, since mail
+// clients post one-click unsubscribes without a session; the token is the proof.
+router.post('/unsubscribe', async (req, res) => {
+  try {
+    const token = (req.query.token || req.body?.token) as string | undefined;
+    if (!token) {
+      return res.status(400).json({
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: 'token is required',
+        },
+      });
+    }
+
+    const result = await emailService.unsubscribe(token);
+
+    res.json({
+      success: true,
+      data: { category: result.category },
+    });
+  } catch (error) {
+    if (error instanceof InvalidUnsubscribeTokenError) {
+      return res.status(400).json({
+        success: false,
+        error: {
+          code: 'INVALID_UNSUBSCRIBE_TOKEN',
+          message: error.message,
+        },
+      });
+    }
+    console.error('Error unsubscribing:', error);
+    res.status(500).json({
+      success: false,
+      error: {
+        code: 'INTERNAL_SERVER_ERROR',
+        message: 'Failed to unsubscribe',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      },
+    });
+  }
+});
+
+// PATCH /api/notifications/:notificationId/read
+// Marks one notification as read
+router.patch('/:notificationId/read', authenticateToken, async (req: AuthenticatedRequest, res) => {
+  try {
+    const notification = await notificationService.markRead(req.userId!, req.params.notificationId);
+
+    res.json({
+      success: true,
+      data: notification,
+    });
+  } catch (error) {
+    if (error instanceof NotificationNotFoundError) {
+      return notificationNotFound(res, error);
+    }
+
+    console.error('Error marking notification read:', error);
+    res.status(500).json({
+      success: false,
+      error: {
+        code: 'INTERNAL_SERVER_ERROR',
+        message: 'Failed to mark notification read',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      },
+    });
+  }
+});
+
+// DELETE /api/notifications/:notificationId
+// Deletes one notification
+router.delete('/:notificationId', authenticateToken, async (req: AuthenticatedRequest, res) => {
+  try {
+    const { notificationId } = req.params;
+
+    await notificationService.deleteNotification(req.userId!, notificationId);
+
+    res.json({
+      success: true,
+      data: { id: notificationId },
+    });
+  } catch (error) {
+    if (error instanceof NotificationNotFoundError) {
+      return notificationNotFound(res, error);
+    }
+
+    console.error('Error deleting notification:', error);
+    res.status(500).json({
+      success: false,
+      error: {
+        code: 'INTERNAL_SERVER_ERROR',
+        message: 'Failed to delete notification',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      },
+    });
+  }
+});
+
+export { router as notificationRoutes };
@@ -1,5 +1,6 @@
 import express from 'express';
 import { leagueService } from '../services/league-service';
+import { statsService, REGULAR_SEASON_WEEKS } from '../services/stats-service';
 
 const router = express.Router();
 
@@ -28,4 +29,42 @@ router.get('/all', async (req, res) => {
   }
 });
 
+// GET /api/players/:playerId/stats?season=2024&week=5
+// Returns a player's stored stat lines and fantasy points; omit week for every
+// week plus the season total
+router.get('/:playerId/stats', async (req, res) => {
+  try {
+    const { playerId } = req.params;
+    const season = parseInt(req.query.season as string);
+    const week = req.query.week !== undefined ? parseInt(req.query.week as string) : undefined;
+
+    if (isNaN(season) || (week !== undefined && (isNaN(week) || week < 1 || week > REGULAR_SEASON_WEEKS))) {
+      return res.status(400).json({
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: `season is required and week must be between 1 and ${REGULAR_SEASON_WEEKS}`,
+        },
+      });
+    }
+
+    const stats = await statsService.getPlayerStats(playerId, season, week);
+
+    res.json({
+      success: true,
+      data: stats,
+    });
+  } catch (error) {
+    console.error('Error getting player stats:', error);
+    res.status(500).json({
+      success: false,
+      error: {
+        code: 'INTERNAL_SERVER_ERROR',
+        message: 'Failed to get player stats',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      },
+    });
+  }
+});
+
 export { router as playerRoutes };
\ No newline at end of file
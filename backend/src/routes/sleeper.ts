@@ -1,6 +1,7 @@
 import express from 'express';
 import { PrismaClient } from '@prisma/client';
 import { cleanupDemoData } from '../scripts/cleanup-demo-data';
+import { getScoringFormat } from '@fantasy-app/shared';
 
 const router = express.Router();
 const prisma = new PrismaClient();
@@ -140,16 +141,16 @@ router.post('/sync', async (req, res) => {
             name: league.name,
             season: parseInt(league.season) || 2024,
             totalRosters: league.total_rosters,
-            scoringFormat: league.scoring_settings?.rec ? 'ppr' : 'standard',
-            settings: league.settings || {},
+            scoringFormat: getScoringFormat(league.scoring_settings),
+            settings: { ...league.settings, scoring: league.scoring_settings || {} },
           },
           create: {
             sleeperLeagueId: league.league_id,
             name: league.name,
             season: parseInt(league.season) || 2024,
             totalRosters: league.total_rosters,
-            scoringFormat: league.scoring_settings?.rec ? 'ppr' : 'standard',
-            settings: league.settings || {},
+            scoringFormat: getScoringFormat(league.scoring_settings),
+            settings: { ...league.settings, scoring: league.scoring_settings || {} },
           },
         });
       } catch (leagueError) {
@@ -164,16 +165,16 @@ router.post('/sync', async (req, res) => {
               name: league.name,
               season: parseInt(league.season) || 2024,
               totalRosters: league.total_rosters,
-            scoringFormat: league.scoring_settings?.rec ? 'ppr' : 'standard',
-            settings: league.settings || {},
+            scoringFormat: getScoringFormat(league.scoring_settings),
+            settings: { ...league.settings, scoring: league.scoring_settings || {} },
             },
             create: {
               sleeperLeagueId: league.league_id,
               name: league.name,
               season: parseInt(league.season) || 2024,
               totalRosters: league.total_rosters,
-            scoringFormat: league.scoring_settings?.rec ? 'ppr' : 'standard',
-            settings: league.settings || {},
+            scoringFormat: getScoringFormat(league.scoring_settings),
+            settings: { ...league.settings, scoring: league.scoring_settings || {} },
             },
           });
           console.log(`League ${league.league_id} saved without status field (fallback)`);
@@ -190,7 +191,7 @@ router.post('/sync', async (req, res) => {
                 season: parseInt(league.season) || 2024,
                 totalRosters: league.total_rosters,
                 scoringFormat: 'standard', // Default fallback value
-                settings: league.settings || {},
+                settings: { ...league.settings, scoring: league.scoring_settings || {} },
               },
               create: {
                 sleeperLeagueId: league.league_id,
@@ -198,7 +199,7 @@ router.post('/sync', async (req, res) => {
                 season: parseInt(league.season) || 2024,
                 totalRosters: league.total_rosters,
                 scoringFormat: 'standard', // Default fallback value
-                settings: league.settings || {},
+                settings: { ...league.settings, scoring: league.scoring_settings || {} },
               },
             });
             console.log(`League ${league.league_id} saved without scoring_format field (final fallback)`);
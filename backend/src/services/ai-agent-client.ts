@@ -0,0 +1,51 @@
+const DEFAULT_TIMEOUT_MS = 90 * 1000;
+
+/**
+ * Calls the ai-service agents. The backend computes the numbers and the
+ * agents narrate them, so every request is a JSON POST with a `{success, data}`
+ * response, or a Server-Sent Events stream for the streamed analyses.
+ */
+export class AIAgentClient {
+  private baseUrl: string;
+
+  constructor(baseUrl?: string) {
+    this.baseUrl = (baseUrl || process.env.AI_SERVICE_URL || 'http://localhost:5000').replace(/\/$/, '');
+  }
+
+  async post<T>(path: string, body: unknown, timeoutMs = DEFAULT_TIMEOUT_MS): Promise<T> {
+    const response = await fetch(`${this.baseUrl}${path}`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(body),
+      signal: AbortSignal.timeout(timeoutMs),
+    });
+
+    const data: any = await response.json().catch(() => null);
+    if (!response.ok || !data?.success) {
+      throw new Error(data?.error?.message || `AI service responded with ${response.status}`);
+    }
+
+    return data.data as T;
+  }
+
+  /**
+   * Opens one of the agents' Server-Sent Events streams. The response is
+   * returned as-is so callers can relay the events; a non-2xx status carries
+   * the usual JSON error envelope instead of a stream.
+   */
+  async openStream(path: string, body: unknown, signal?: AbortSignal): Promise<Response> {
+    return fetch(`${this.baseUrl}${path}`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Accept: 'text/event-stream',
+      },
+      body: JSON.stringify(body),
+      signal,
+    });
+  }
+}
+
+export const aiAgentClient = new AIAgentClient();
@@ -1,5 +1,8 @@
-import { PrismaClient } from '@prisma/client';
+import { PrismaClient, Prisma } from '@prisma/client';
+import { describeScoringSettings } from '@fantasy-app/shared';
 import { sleeperAPIService as defaultSleeperAPI, SleeperAPIService } from './sleeper-api-service';
+import { playerService as defaultPlayerService, PlayerService } from './player-service';
+import { statsService as defaultStatsService, StatsService, RecentProduction } from './stats-service';
 
 const prisma = new PrismaClient();
 
@@ -268,15 +271,59 @@ export interface LineupOptimizerResult {
   lastUpdated: Date;
 }
 
+export interface AnalysisHistoryQuery {
+  analysisType?: string;
+  leagueId?: string;
+  week?: number;
+  from?: Date;
+  to?: Date;
+  cursor?: string;
+  limit?: number;
+}
+
+export interface StoredAnalysis {
+  id: string;
+  userId: string;
+  leagueId: string | null;
+  analysisType: string;
+  input: any;
+  output: any;
+  metadata: any;
+  createdAt: Date;
+}
+
+export interface AnalysisHistoryItem {
+  id: string;
+  leagueId: string | null;
+  analysisType: string;
+  metadata: any;
+  createdAt: Date;
+}
+
+export interface AnalysisHistoryPage {
+  items: AnalysisHistoryItem[];
+  nextCursor: string | null;
+  hasMore: boolean;
+}
+
 export class AIService {
   private mcpServerUrl: string;
   private sleeperAPI: SleeperAPIService;
   private prisma: PrismaClient;
-
-  constructor(sleeperAPIService?: SleeperAPIService, prismaClient?: PrismaClient) {
+  private playerService: PlayerService;
+  private statsService: StatsService;
+
+  constructor(
+    sleeperAPIService?: SleeperAPIService,
+    prismaClient?: PrismaClient,
+    playerServiceInstance?: PlayerService,
+    statsServiceInstance?: StatsService
+  ) {
     this.mcpServerUrl = process.env.MCP_SERVER_URL || 'https://sleepermcp-production.up.railway.app';
     this.sleeperAPI = sleeperAPIService || defaultSleeperAPI;
     this.prisma = prismaClient || prisma;
+    this.playerService = playerServiceInstance || defaultPlayerService;
+    this.statsService = statsServiceInstance || defaultStatsService;
   }
 
   // Direct AI Provider Calls (Primary Method)
@@ -470,15 +517,13 @@ export class AIService {
 
       console.log(`Found league: ${league.name} (Sleeper ID: ${league.sleeperLeagueId})`);
 
-      // Get fantasy data using direct Sleeper API (following Phase 1 pattern)
+      // League from Sleeper, players from the Player table
       let leagueData, playersData, userRoster;
       
       try {
-        // Direct Sleeper API calls (Primary)
-        console.log('Using direct Sleeper API for start/sit data');
         const [leagueDetails, allPlayers] = await Promise.all([
           this.sleeperAPI.getLeagueDetailsBatch(league.sleeperLeagueId),
-          this.sleeperAPI.getAllPlayers(),
+          this.playerService.getAllPlayers(),
         ]);
         
         leagueData = leagueDetails;
@@ -491,14 +536,27 @@ export class AIService {
         userRoster = userRosterData;
         
       } catch (directAPIError) {
-        console.warn('Direct Sleeper API failed for start/sit, using MCP fallback:', directAPIError);
+        console.warn('Loading league and player data failed for start/sit, using MCP fallback:', directAPIError);
         // MCP fallback would go here - for now, throw error
         throw directAPIError;
       }
 
+      // Recent production is optional context; stats may not be ingested yet
+      let recentProduction: { [playerId: string]: RecentProduction[] } = {};
+      try {
+        recentProduction = await this.statsService.getRecentProduction(
+          request.playerIds,
+          parseInt(leagueData.league.season),
+          request.week,
+          { leagueId: league.id }
+        );
+      } catch (statsError) {
+        console.warn('Recent production unavailable for start/sit:', statsError);
+      }
+
       // Build AI prompt with gathered data
       const systemPrompt = this.buildStartSitSystemPrompt(request);
-      const userPrompt = this.buildStartSitUserPrompt(request, leagueData, playersData, userRoster);
+      const userPrompt = this.buildStartSitUserPrompt(request, leagueData, playersData, userRoster, recentProduction);
 
       const aiRequest: AIRequest = {
         messages: [
@@ -550,7 +608,7 @@ export class AIService {
         console.log(`Found league: ${league.name} (Sleeper ID: ${league.sleeperLeagueId})`);
       }
 
-      // Get fantasy data using direct Sleeper API + Enhanced Analytics
+      // League from Sleeper, players from the Player table, plus enhanced analytics
       let leagueData, playersData, userRoster, playerAnalytics, playerComparisons, playerProjections;
       
       if (process.env.NODE_ENV === 'development' && process.env.BYPASS_AUTH === 'true') {
@@ -571,11 +629,9 @@ export class AIService {
         userRoster = { players: [], starters: [] };
       } else {
         try {
-          // Direct Sleeper API calls (Primary)
-          console.log('Using direct Sleeper API for trade analysis data');
           const [leagueDetails, allPlayers] = await Promise.all([
             this.sleeperAPI.getLeagueDetailsBatch(league.sleeperLeagueId),
-            this.sleeperAPI.getAllPlayers(),
+            this.playerService.getAllPlayers(),
           ]);
           
           leagueData = leagueDetails;
@@ -588,7 +644,7 @@ export class AIService {
           userRoster = userRosterData;
 
         } catch (directAPIError) {
-          console.warn('Direct Sleeper API failed for trade analysis, using MCP fallback:', directAPIError);
+          console.warn('Loading league and player data failed for trade analysis, using MCP fallback:', directAPIError);
           // MCP fallback would go here - for now, throw error
           throw directAPIError;
         }
@@ -694,14 +750,13 @@ export class AIService {
 
       console.log(`Found league: ${league.name} (Sleeper ID: ${league.sleeperLeagueId})`);
 
-      // Get fantasy data using direct Sleeper API
+      // League from Sleeper, players from the Player table
       let leagueData, playersData, userRoster;
       
       try {
-        console.log('Using direct Sleeper API for waiver wire data');
         const [leagueDetails, allPlayers] = await Promise.all([
           this.sleeperAPI.getLeagueDetailsBatch(league.sleeperLeagueId),
-          this.sleeperAPI.getAllPlayers(),
+          this.playerService.getAllPlayers(),
         ]);
         
         leagueData = leagueDetails;
@@ -712,7 +767,7 @@ export class AIService {
         );
         
       } catch (directAPIError) {
-        console.warn('Direct Sleeper API failed for waiver wire, using MCP fallback:', directAPIError);
+        console.warn('Loading league and player data failed for waiver wire, using MCP fallback:', directAPIError);
         throw directAPIError;
       }
 
@@ -759,14 +814,13 @@ export class AIService {
 
       console.log(`Found league: ${league.name} (Sleeper ID: ${league.sleeperLeagueId})`);
 
-      // Get fantasy data using direct Sleeper API
+      // League from Sleeper, players from the Player table
       let leagueData, playersData, userRoster;
       
       try {
-        console.log('Using direct Sleeper API for lineup optimization');
         const [leagueDetails, allPlayers] = await Promise.all([
           this.sleeperAPI.getLeagueDetailsBatch(league.sleeperLeagueId),
-          this.sleeperAPI.getAllPlayers(),
+          this.playerService.getAllPlayers(),
         ]);
         
         leagueData = leagueDetails;
@@ -777,7 +831,7 @@ export class AIService {
         );
         
       } catch (directAPIError) {
-        console.warn('Direct Sleeper API failed for lineup optimization, using MCP fallback:', directAPIError);
+        console.warn('Loading league and player data failed for lineup optimization, using MCP fallback:', directAPIError);
         throw directAPIError;
       }
 
@@ -873,7 +927,8 @@ Be thorough but concise in your reasoning. Focus on actionable insights.`;
     request: StartSitRequest, 
     leagueData: any, 
     playersData: any, 
-    userRoster: any
+    userRoster: any,
+    recentProduction: { [playerId: string]: RecentProduction[] } = {}
   ): string {
     const preferences = request.userPreferences;
     const preferencesText = preferences ? `
@@ -888,12 +943,17 @@ User Preferences:
       const player = playersData[playerId];
       if (!player) return `Player ${playerId}: Data not available`;
       
-      return `Player ${playerId} (${player.full_name}): ${player.position} - ${player.team || 'FA'} - Status: ${player.status || 'Active'}`;
+      const recent = recentProduction[playerId] || [];
+      const recentText = recent.length > 0
+        ? ` - Recent points: ${recent.map(line => `Wk${line.week} ${line.points}`).join(', ')}`
+        : '';
+
+      return `Player ${playerId} (${player.full_name}): ${player.position} - ${player.team || 'FA'} - Status: ${player.status || 'Active'}${recentText}`;
     }).join('\n');
 
     const leagueInfo = `
 League: ${leagueData.league.name} (${leagueData.league.season})
-Scoring: ${leagueData.league.scoring_settings ? 'PPR' : 'Standard'}
+Scoring: ${describeScoringSettings(leagueData.league.scoring_settings)}
 Total Teams: ${leagueData.league.total_rosters}
 `;
 
@@ -1183,6 +1243,7 @@ ${playerComparisons.comparisons.map((comp: any) =>
 
 LEAGUE DETAILS:
 League: ${leagueData.league.name} (${leagueData.league.season})
+Scoring: ${describeScoringSettings(leagueData.league.scoring_settings)}
 Week: ${request.week}
 
 TRADE PROPOSAL:
@@ -1423,6 +1484,7 @@ User Preferences:
 
 LEAGUE DETAILS:
 League: ${leagueData.league.name} (${leagueData.league.season})
+Scoring: ${describeScoringSettings(leagueData.league.scoring_settings)}
 Week: ${request.week}
 ${budgetText}
 ${priorityText}
@@ -1581,6 +1643,7 @@ User Preferences:
 
 LEAGUE DETAILS:
 League: ${leagueData.league.name} (${leagueData.league.season})
+Scoring: ${describeScoringSettings(leagueData.league.scoring_settings)}
 Week: ${request.week}
 Optimization Target: ${request.optimization || 'balanced'}
 
@@ -1720,6 +1783,127 @@ Focus on maximizing expected points while considering the specified optimization
     }
   }
 
+  /**
+   * Store an analysis produced by the ai-service agents (the streamed routes).
+   * The agent's tool-call trace is moved from the result into the metadata.
+   */
+  async storeAgentAnalysis(
+    userId: string,
+    leagueId: string,
+    analysisType: string,
+    request: unknown,
+    result: Record<string, any>,
+    metadata: Record<string, any>
+  ): Promise<void> {
+    const { toolTrace, ...output } = result;
+
+    try {
+      await this.prisma.aIAnalysis.create({
+        data: {
+          userId,
+          leagueId,
+          analysisType,
+          input: JSON.stringify(request),
+          output: JSON.stringify(output),
+          metadata: {
+            ...metadata,
+            source: 'ai_service',
+            ...(toolTrace ? { toolTrace } : {}),
+          },
+        },
+      });
+      console.log(`${analysisType} analysis from the ai-service stored in database`);
+    } catch (error) {
+      console.error(`Failed to store ${analysisType} analysis:`, error);
+      // Non-critical error - the client already has the result
+    }
+  }
+
+  // Analysis History Methods
+  async getAnalysis(userId: string, analysisId: string): Promise<StoredAnalysis | null> {
+    try {
+      // Scope by owner so one user can never read another user's analysis
+      const analysis = await this.prisma.aIAnalysis.findFirst({
+        where: { id: analysisId, userId },
+      });
+
+      if (!analysis) {
+        return null;
+      }
+
+      return {
+        ...analysis,
+        input: this.parseStoredJson(analysis.input),
+        output: this.parseStoredJson(analysis.output),
+      };
+    } catch (error) {
+      console.error('Failed to retrieve analysis:', error);
+      throw new Error(`Analysis retrieval failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  async getAnalysisHistory(userId: string, query: AnalysisHistoryQuery = {}): Promise<AnalysisHistoryPage> {
+    try {
+      const limit = Math.min(Math.max(query.limit || 10, 1), 50);
+
+      const where: Prisma.AIAnalysisWhereInput = { userId };
+      if (query.analysisType) {
+        where.analysisType = query.analysisType;
+      }
+      if (query.leagueId) {
+        where.leagueId = query.leagueId;
+      }
+      if (query.week !== undefined) {
+        where.metadata = { path: ['week'], equals: query.week };
+      }
+      if (query.from || query.to) {
+        where.createdAt = {
+          ...(query.from && { gte: query.from }),
+          ...(query.to && { lte: query.to }),
+        };
+      }
+
+      // Fetch one extra row to know whether another page exists
+      const rows = await this.prisma.aIAnalysis.findMany({
+        where,
+        orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+        take: limit + 1,
+        ...(query.cursor && { cursor: { id: query.cursor }, skip: 1 }),
+        select: {
+          id: true,
+          leagueId: true,
+          analysisType: true,
+          metadata: true,
+          createdAt: true,
+        },
+      });
+
+      const hasMore = rows.length > limit;
+      const items = hasMore ? rows.slice(0, limit) : rows;
+
+      return {
+        items,
+        nextCursor: hasMore ? items[items.length - 1].id : null,
+        hasMore,
+      };
+    } catch (error) {
+      console.error('Failed to retrieve analysis history:', error);
+      throw new Error(`Analysis history retrieval failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  // Store methods serialize input/output with JSON.stringify, so they come back as strings
+  private parseStoredJson(value: Prisma.JsonValue): any {
+    if (typeof value !== 'string') {
+      return value;
+    }
+    try {
+      return JSON.parse(value);
+    } catch {
+      return value;
+    }
+  }
+
   // Direct AI Provider Implementations
   private async callClaudeDirect(request: AIRequest): Promise<AIResponse> {
     const apiKey = process.env.ANTHROPIC_API_KEY;
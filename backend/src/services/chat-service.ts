@@ -0,0 +1,315 @@
+import { PrismaClient, Prisma } from '@prisma/client';
+import type { MessageType, Pagination } from '@fantasy-app/shared';
+import {
+  sleeperAPIService as defaultSleeperAPI,
+  SleeperAPIService,
+  SleeperPlayer,
+  SleeperTransaction,
+} from './sleeper-api-service';
+import { playerService as defaultPlayerService, PlayerService } from './player-service';
+import { realtimeGateway as defaultRealtimeGateway, RealtimeGateway } from './realtime-gateway';
+
+const prisma = new PrismaClient();
+
+export const DEFAULT_CHAT_PAGE_SIZE = 50;
+export const MAX_CHAT_PAGE_SIZE = 100;
+
+export interface ChatMessage {
+  id: string;
+  leagueId: string;
+  userId: string | null;
+  author: { id: string; displayName: string; avatarUrl: string | null } | null; // null for system messages
+  message: string;
+  messageType: MessageType;
+  metadata: TransactionMessageMetadata | null;
+  createdAt: string;
+}
+
+export interface ChatMessagePage {
+  items: ChatMessage[]; // Oldest first within the page
+  pagination: Pagination;
+}
+
+export interface TransactionPlayer {
+  playerId: string;
+  name: string;
+  position: string | null;
+  team: string | null;
+}
+
+export interface TransactionTeam {
+  rosterId: number;
+  sleeperUserId: string | null;
+  teamName: string;
+  adds: TransactionPlayer[];
+  drops: TransactionPlayer[];
+  picks: { season: string; round: number; originalRosterId: number }[];
+  faab: number; // FAAB received in a trade, or the winning bid of a waiver claim
+}
+
+export interface TransactionMessageMetadata {
+  transactionId: string;
+  transactionType: 'trade' | 'waiver';
+  week: number;
+  teams: TransactionTeam[];
+}
+
+const authorSelect = { select: { id: true, displayName: true, avatarUrl: true } } as const;
+
+type ChatRow = Prisma.LeagueChatGetPayload<{ include: { user: typeof authorSelect } }>;
+
+export class ChatService {
+  private sleeperAPI: SleeperAPIService;
+  private prisma: PrismaClient;
+  private players: PlayerService;
+  private realtime: RealtimeGateway;
+
+  constructor(
+    sleeperAPIService?: SleeperAPIService,
+    prismaClient?: PrismaClient,
+    playerServiceInstance?: PlayerService,
+    realtimeGatewayInstance?: RealtimeGateway
+  ) {
+    this.sleeperAPI = sleeperAPIService || defaultSleeperAPI;
+    this.prisma = prismaClient || prisma;
+    this.players = playerServiceInstance || defaultPlayerService;
+    this.realtime = realtimeGatewayInstance || defaultRealtimeGateway;
+  }
+
+  /**
+   * One page of league chat. Page 1 holds the newest messages so the chat
+   * opens at the bottom; later pages go back in time.
+   */
+  async getMessages(leagueId: string, options: { page?: number; limit?: number } = {}): Promise<ChatMessagePage> {
+    const page = Math.max(options.page || 1, 1);
+    const limit = Math.min(Math.max(options.limit || DEFAULT_CHAT_PAGE_SIZE, 1), MAX_CHAT_PAGE_SIZE);
+
+    const [rows, total] = await Promise.all([
+      this.prisma.leagueChat.findMany({
+        where: { leagueId },
+        include: { user: authorSelect },
+        orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+        skip: (page - 1) * limit,
+        take: limit,
+      }),
+      this.prisma.leagueChat.count({ where: { leagueId } }),
+    ]);
+
+    const totalPages = Math.ceil(total / limit);
+
+    return {
+      items: rows.reverse().map(row => this.toChatMessage(row)),
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages,
+        hasNext: page < totalPages,
+        hasPrev: page > 1,
+      },
+    };
+  }
+
+  async postMessage(leagueId: string, userId: string, message: string, messageType: MessageType = 'chat'): Promise<ChatMessage> {
+    const row = await this.prisma.leagueChat.create({
+      data: { leagueId, userId, message: message.trim(), messageType },
+      include: { user: authorSelect },
+    });
+
+    const chatMessage = this.toChatMessage(row);
+    await this.realtime.publishToLeague(leagueId, 'chat_message', chatMessage);
+    return chatMessage;
+  }
+
+  /**
+   * Posts a system message once per sourceId. Returns null when a message
+   * for the source was already posted.
+   */
+  async postSystemMessage(leagueId: string, message: string, messageType: MessageType, sourceId: string): Promise<ChatMessage | null> {
+    const existing = await this.prisma.leagueChat.findUnique({
+      where: { leagueId_sourceId: { leagueId, sourceId } },
+    });
+    if (existing) {
+      return null;
+    }
+
+    const row = await this.prisma.leagueChat.create({
+      data: { leagueId, userId: null, message, messageType, sourceId },
+      include: { user: authorSelect },
+    });
+
+    const chatMessage = this.toChatMessage(row);
+    await this.realtime.publishToLeague(leagueId, 'chat_message', chatMessage);
+    return chatMessage;
+  }
+
+  /**
+   * Posts a system message for every completed trade and waiver claim in the
+   * given weeks. Each transaction is posted once, however often this runs.
+   */
+  async postTransactionMessages(leagueId: string, sleeperLeagueId: string, weeks: number[]): Promise<{ posted: number }> {
+    try {
+      const transactions = (await Promise.all(
+        weeks.map(week => this.sleeperAPI.getLeagueTransactions(sleeperLeagueId, week).catch(() => [] as SleeperTransaction[]))
+      ))
+        .flat()
+        .filter(transaction => transaction.status === 'complete' && (transaction.type === 'trade' || transaction.type === 'waiver'));
+
+      if (transactions.length === 0) {
+        return { posted: 0 };
+      }
+
+      const sourceIds = transactions.map(transaction => this.transactionSourceId(transaction));
+      const alreadyPosted = await this.prisma.leagueChat.findMany({
+        where: { leagueId, sourceId: { in: sourceIds } },
+        select: { sourceId: true },
+      });
+      const postedIds = new Set(alreadyPosted.map(row => row.sourceId));
+      const newTransactions = transactions.filter(transaction => !postedIds.has(this.transactionSourceId(transaction)));
+
+      if (newTransactions.length === 0) {
+        return { posted: 0 };
+      }
+
+      const [rosters, users] = await Promise.all([
+        this.sleeperAPI.getLeagueRosters(sleeperLeagueId),
+        this.sleeperAPI.getLeagueUsers(sleeperLeagueId),
+      ]);
+      const userLookup = new Map(users.map(user => [user.user_id, user]));
+      const teams = new Map(rosters.map(roster => {
+        const owner = userLookup.get(roster.owner_id);
+        return [roster.roster_id, {
+          sleeperUserId: roster.owner_id || null,
+          teamName: owner?.metadata?.team_name || owner?.display_name || `Team ${roster.roster_id}`,
+        }];
+      }));
+
+      const playerIds = newTransactions.flatMap(transaction => [
+        ...Object.keys(transaction.adds || {}),
+        ...Object.keys(transaction.drops || {}),
+      ]);
+      const players = await this.players.getPlayers(Array.from(new Set(playerIds)));
+
+      const data = newTransactions.map(transaction => {
+        const metadata = this.buildMetadata(transaction, teams, players);
+        return {
+          leagueId,
+          userId: null,
+          message: this.describeTransaction(metadata),
+          messageType: transaction.type === 'trade' ? 'trade' : 'waiver_claim',
+          metadata: metadata as unknown as Prisma.InputJsonValue,
+          sourceId: this.transactionSourceId(transaction),
+          createdAt: new Date(transaction.status_updated || transaction.created),
+        };
+      });
+
+      // skipDuplicates covers another instance posting the same transaction meanwhile
+      const { count } = await this.prisma.leagueChat.createMany({ data, skipDuplicates: true });
+
+      const posted = await this.prisma.leagueChat.findMany({
+        where: { leagueId, sourceId: { in: data.map(message => message.sourceId) } },
+        include: { user: authorSelect },
+        orderBy: { createdAt: 'asc' },
+      });
+      for (const row of posted) {
+        const chatMessage = this.toChatMessage(row);
+        await this.realtime.publishToLeague(leagueId, 'chat_message', chatMessage);
+        // Sleeper only exposes trades once they are processed
+        await this.realtime.publishToLeague(
+          leagueId,
+          row.messageType === 'trade' ? 'trade_proposal' : 'waiver_claim',
+          chatMessage.metadata
+        );
+      }
+
+      return { posted: count };
+    } catch (error) {
+      console.error('Posting transaction messages failed:', error);
+      throw new Error(`Posting transaction messages failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  private transactionSourceId(transaction: SleeperTransaction): string {
+    return `sleeper-transaction:${transaction.transaction_id}`;
+  }
+
+  private buildMetadata(
+    transaction: SleeperTransaction,
+    teams: Map<number, { sleeperUserId: string | null; teamName: string }>,
+    players: { [playerId: string]: SleeperPlayer }
+  ): TransactionMessageMetadata {
+    const toPlayer = (playerId: string): TransactionPlayer => {
+      const player = players[playerId];
+      return {
+        playerId,
+        name: player?.full_name || [player?.first_name, player?.last_name].filter(Boolean).join(' ') || playerId,
+        position: player?.position || null,
+        team: player?.team || null,
+      };
+    };
+
+    const playersFor = (moves: { [playerId: string]: number } | null, rosterId: number) =>
+      Object.entries(moves || {})
+        .filter(([, movedRosterId]) => movedRosterId === rosterId)
+        .map(([playerId]) => toPlayer(playerId));
+
+    return {
+      transactionId: transaction.transaction_id,
+      transactionType: transaction.type as 'trade' | 'waiver',
+      week: transaction.leg,
+      teams: transaction.roster_ids.map(rosterId => ({
+        rosterId,
+        sleeperUserId: teams.get(rosterId)?.sleeperUserId || null,
+        teamName: teams.get(rosterId)?.teamName || `Team ${rosterId}`,
+        adds: playersFor(transaction.adds, rosterId),
+        drops: playersFor(transaction.drops, rosterId),
+        picks: (transaction.draft_picks || [])
+          .filter(pick => pick.owner_id === rosterId)
+          .map(pick => ({ season: pick.season, round: pick.round, originalRosterId: pick.roster_id })),
+        faab: transaction.type === 'waiver'
+          ? transaction.settings?.waiver_bid || 0
+          : (transaction.waiver_budget || [])
+            .filter(budget => budget.receiver === rosterId)
+            .reduce((sum, budget) => sum + budget.amount, 0),
+      })),
+    };
+  }
+
+  private describeTransaction(metadata: TransactionMessageMetadata): string {
+    const playerList = (players: TransactionPlayer[]) =>
+      players.map(player => player.position ? `${player.name} (${player.position})` : player.name).join(', ');
+
+    if (metadata.transactionType === 'waiver') {
+      const [team] = metadata.teams;
+      const bid = team.faab > 0 ? ` for $${team.faab}` : '';
+      const dropped = team.drops.length > 0 ? ` and dropped ${playerList(team.drops)}` : '';
+      return `Waiver claim: ${team.teamName} claimed ${playerList(team.adds)}${bid}${dropped}`;
+    }
+
+    const received = metadata.teams.map(team => {
+      const assets = [
+        ...team.adds.map(player => player.position ? `${player.name} (${player.position})` : player.name),
+        ...team.picks.map(pick => `${pick.season} round ${pick.round} pick`),
+        ...(team.faab > 0 ? [`$${team.faab} FAAB`] : []),
+      ];
+      return `${team.teamName} receives ${assets.length > 0 ? assets.join(', ') : 'nothing'}`;
+    });
+
+    return `Trade completed: ${received.join('; ')}`;
+  }
+
+  private toChatMessage(row: ChatRow): ChatMessage {
+    return {
+      id: row.id,
+      leagueId: row.leagueId,
+      userId: row.userId,
+      author: row.user,
+      message: row.message,
+      messageType: row.messageType as MessageType,
+      metadata: row.metadata as unknown as TransactionMessageMetadata | null,
+      createdAt: row.createdAt.toISOString(),
+    };
+  }
+}
+
+export const chatService = new ChatService();
@@ -0,0 +1,448 @@
+import { PrismaClient, Prisma } from '@prisma/client';
+import { calculateFantasyPoints, getEligiblePositions, ScoringSettings, StatLine, TradeGrade } from '@fantasy-app/shared';
+import {
+  sleeperAPIService as defaultSleeperAPI,
+  SleeperAPIService,
+  SleeperDraft,
+  SleeperDraftPick,
+  SleeperPlayer,
+} from './sleeper-api-service';
+import { playerService as defaultPlayerService, PlayerService } from './player-service';
+import { aiAgentClient as defaultAIAgentClient, AIAgentClient } from './ai-agent-client';
+import { REGULAR_SEASON_WEEKS } from './stats-service';
+
+const prisma = new PrismaClient();
+
+// Weeks of results needed before points say more about a pick than its draft value
+export const MIN_REGRADE_WEEKS = 3;
+// One pick can't swing a grade by more than this many rounds
+const MAX_PICK_VALUE_ROUNDS = 3;
+// A pick a full round away from its value is a steal or a reach
+const STEAL_REACH_ROUNDS = 1;
+const HIGHLIGHT_COUNT = 5;
+
+// Minimum average rounds of value per pick for each grade, best first
+const GRADE_THRESHOLDS: [TradeGrade, number][] = [
+  ['A+', 1],
+  ['A', 0.7],
+  ['A-', 0.45],
+  ['B+', 0.25],
+  ['B', 0.1],
+  ['B-', -0.1],
+  ['C+', -0.25],
+  ['C', -0.45],
+  ['C-', -0.7],
+  ['D+', -1],
+  ['D', -1.3],
+];
+
+// adp grades against Sleeper's consensus rank, points against points over replacement so far
+export type DraftGradeBasis = 'adp' | 'points';
+
+export interface DraftGradePick {
+  pickNo: number;
+  round: number;
+  playerId: string;
+  playerName: string;
+  position: string | null;
+  nflTeam: string | null;
+  expectedPick: number; // Where the player's value says they should have gone
+  value: number; // Rounds of value gained (positive) or given up (negative)
+  label: 'steal' | 'reach' | null;
+  points: number | null; // Season points so far, on the points basis
+}
+
+export interface TeamDraftGrade {
+  rosterId: number;
+  teamName: string;
+  grade: TradeGrade;
+  score: number; // Average rounds of value per pick
+  picks: DraftGradePick[];
+  keepers: string[]; // Player names; keepers are not graded
+  steals: number;
+  reaches: number;
+  bestPick: DraftGradePick | null;
+  worstPick: DraftGradePick | null;
+  summary: string;
+}
+
+export interface DraftGradeHighlight extends DraftGradePick {
+  teamName: string;
+}
+
+export interface DraftGrades {
+  id: string;
+  leagueId: string;
+  draftId: string;
+  season: string;
+  draftType: string;
+  basis: DraftGradeBasis;
+  weeksPlayed: number;
+  teams: TeamDraftGrade[]; // Best grade first
+  biggestSteals: DraftGradeHighlight[];
+  biggestReaches: DraftGradeHighlight[];
+  overview: string;
+  provider: string | null; // null when the summaries were generated without the AI agent
+  model: string | null;
+  isFallback: boolean; // True when the AI agent failed and the generated summaries were kept
+  fallbackReason?: string;
+  createdAt: string;
+}
+
+export interface DraftGradeOptions {
+  basis?: DraftGradeBasis; // Defaults to points once MIN_REGRADE_WEEKS have been played
+  refresh?: boolean;
+  requestedBy: string; // Owner of the stored analysis
+}
+
+// Written by the ai-service draft grader agent
+interface DraftGradeNarrative {
+  overview: string;
+  teams: { rosterId: number; summary: string }[];
+  provider: string | null;
+  model: string | null;
+}
+
+type AnalysisRow = Prisma.AIAnalysisGetPayload<{}>;
+type ComputedDraftGrades = Omit<DraftGrades, 'id' | 'leagueId' | 'createdAt'>;
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+const NON_STARTING_SLOTS = new Set(['BN', 'IR', 'TAXI']);
+
+export function gradeForScore(score: number): TradeGrade {
+  return GRADE_THRESHOLDS.find(([, minimum]) => score >= minimum)?.[0] ?? 'F';
+}
+
+/**
+ * Grades a league's completed draft. Each pick is compared with where the
+ * player's value says they should have gone: Sleeper's consensus rank before
+ * and early in the season, and points over positional replacement once
+ * enough weeks have been played to re-grade the draft on results.
+ *
+ * Sleeper doesn't publish historical ADP, so the adp basis stands in with the
+ * player's current search_rank. That is today's ranking rather than the one
+ * on draft day, so those grades drift with injuries and breakouts.
+ */
+export class DraftGradeService {
+  private sleeperAPI: SleeperAPIService;
+  private prisma: PrismaClient;
+  private players: PlayerService;
+  private aiAgents: AIAgentClient;
+
+  constructor(
+    sleeperAPIService?: SleeperAPIService,
+    prismaClient?: PrismaClient,
+    playerServiceInstance?: PlayerService,
+    aiAgentClientInstance?: AIAgentClient
+  ) {
+    this.sleeperAPI = sleeperAPIService || defaultSleeperAPI;
+    this.prisma = prismaClient || prisma;
+    this.players = playerServiceInstance || defaultPlayerService;
+    this.aiAgents = aiAgentClientInstance || defaultAIAgentClient;
+  }
+
+  /**
+   * Grades for the league's most recent completed draft, or null when it has
+   * not been drafted yet. Stored grades are reused until another week has
+   * been played.
+   */
+  async getDraftGrades(leagueId: string, options: DraftGradeOptions): Promise<DraftGrades | null> {
+    try {
+      const league = await this.prisma.league.findUnique({ where: { id: leagueId } });
+      if (!league) {
+        throw new Error(`League not found for ID: ${leagueId}`);
+      }
+
+      const drafts = await this.sleeperAPI.getLeagueDrafts(league.sleeperLeagueId);
+      const draft = (drafts || [])
+        .filter(entry => entry.status === 'complete')
+        .sort((a, b) => (b.start_time || 0) - (a.start_time || 0))[0];
+      if (!draft) {
+        return null;
+      }
+
+      const weeksPlayed = await this.getWeeksPlayed(league.season);
+      const basis = options.basis ?? (weeksPlayed >= MIN_REGRADE_WEEKS ? 'points' : 'adp');
+      // ADP grades don't change as weeks are played, points grades do
+      const gradedWeeks = basis === 'points' ? weeksPlayed : 0;
+
+      if (!options.refresh) {
+        const existing = await this.findGrades(leagueId, draft.draft_id, basis, gradedWeeks);
+        if (existing) return this.toDraftGrades(existing);
+      }
+
+      const startTime = Date.now();
+      const grades = await this.gradeDraft(league.sleeperLeagueId, draft, basis, gradedWeeks);
+      await this.addSummaries(league.name, grades);
+
+      const row = await this.prisma.aIAnalysis.create({
+        data: {
+          userId: options.requestedBy,
+          leagueId,
+          analysisType: 'draft_grade',
+          input: { draftId: draft.draft_id, basis, weeksPlayed: gradedWeeks },
+          output: grades as unknown as Prisma.InputJsonValue,
+          metadata: {
+            draftId: draft.draft_id,
+            basis,
+            weeksPlayed: gradedWeeks,
+            provider: grades.provider,
+            model: grades.model,
+            processingTime: Date.now() - startTime,
+          },
+        },
+      });
+
+      return this.toDraftGrades(row);
+    } catch (error) {
+      console.error('Draft grading failed:', error);
+      throw new Error(`Draft grading failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  async gradeDraft(
+    sleeperLeagueId: string,
+    draft: SleeperDraft,
+    basis: DraftGradeBasis,
+    weeksPlayed: number
+  ): Promise<ComputedDraftGrades> {
+    const [league, rosters, users, picks] = await Promise.all([
+      this.sleeperAPI.getLeague(sleeperLeagueId),
+      this.sleeperAPI.getLeagueRosters(sleeperLeagueId),
+      this.sleeperAPI.getLeagueUsers(sleeperLeagueId),
+      this.sleeperAPI.getDraftPicks(draft.draft_id),
+    ]);
+
+    const playerIds = picks.map(pick => pick.player_id);
+    const [players, stats] = await Promise.all([
+      playerIds.length > 0 ? this.players.getPlayers(playerIds) : Promise.resolve({}),
+      basis === 'points'
+        ? this.sleeperAPI.getPlayerStats('nfl', draft.season, 'regular').then(data => data || {})
+        : Promise.resolve({}),
+    ]) as [{ [playerId: string]: SleeperPlayer }, { [playerId: string]: StatLine }];
+
+    const scoring: ScoringSettings = league.scoring_settings || {};
+    const teamCount = draft.settings?.teams || rosters.length || 1;
+    const userLookup = new Map(users.map(user => [user.user_id, user]));
+    const teamName = (rosterId: number) => {
+      const owner = userLookup.get(rosters.find(roster => roster.roster_id === rosterId)?.owner_id || '');
+      return owner?.metadata?.team_name || owner?.display_name || `Team ${rosterId}`;
+    };
+
+    const describe = (pick: SleeperDraftPick) => {
+      const player = players[pick.player_id];
+      const position = player?.position || pick.metadata?.position || null;
+      return {
+        playerName: player?.full_name || `${pick.metadata?.first_name || ''} ${pick.metadata?.last_name || ''}`.trim() || pick.player_id,
+        position,
+        nflTeam: player?.team || pick.metadata?.team || null,
+        points: basis === 'points' && stats[pick.player_id]
+          ? round(calculateFantasyPoints(stats[pick.player_id], scoring, position || undefined))
+          : basis === 'points' ? 0 : null,
+        searchRank: player?.search_rank ?? Number.MAX_SAFE_INTEGER,
+      };
+    };
+
+    // Keepers weren't a draft-day decision, so only the rest are graded
+    const graded = picks.filter(pick => !pick.is_keeper);
+    const actualOrder = draft.type === 'auction'
+      ? [...graded].sort((a, b) => parseFloat(b.metadata?.amount || '0') - parseFloat(a.metadata?.amount || '0') || a.pick_no - b.pick_no)
+      : [...graded].sort((a, b) => a.pick_no - b.pick_no);
+    const details = new Map(graded.map(pick => [pick.player_id, describe(pick)]));
+    const overReplacement = basis === 'points'
+      ? this.pointsOverReplacement(Array.from(details.values()), league.roster_positions || [], teamCount)
+      : () => 0;
+    const valueOrder = [...actualOrder].sort((a, b) => {
+      const [first, second] = [details.get(a.player_id)!, details.get(b.player_id)!];
+      return basis === 'points' ? overReplacement(second) - overReplacement(first) : first.searchRank - second.searchRank;
+    });
+
+    const actualPick = new Map(actualOrder.map((pick, index) => [pick.player_id, index + 1]));
+    const expectedPick = new Map(valueOrder.map((pick, index) => [pick.player_id, index + 1]));
+
+    const gradedPicks = new Map<number, DraftGradePick[]>();
+    actualOrder.forEach(pick => {
+      const { searchRank, ...detail } = details.get(pick.player_id)!;
+      const roundsGained = (actualPick.get(pick.player_id)! - expectedPick.get(pick.player_id)!) / teamCount;
+      const value = round(Math.max(-MAX_PICK_VALUE_ROUNDS, Math.min(MAX_PICK_VALUE_ROUNDS, roundsGained)));
+
+      const entry: DraftGradePick = {
+        pickNo: pick.pick_no,
+        round: pick.round,
+        playerId: pick.player_id,
+        ...detail,
+        expectedPick: expectedPick.get(pick.player_id)!,
+        value,
+        label: value >= STEAL_REACH_ROUNDS ? 'steal' : value <= -STEAL_REACH_ROUNDS ? 'reach' : null,
+      };
+      gradedPicks.set(pick.roster_id, [...(gradedPicks.get(pick.roster_id) || []), entry]);
+    });
+
+    const teams: TeamDraftGrade[] = rosters.map(roster => {
+      const teamPicks = (gradedPicks.get(roster.roster_id) || []).sort((a, b) => a.pickNo - b.pickNo);
+      const score = teamPicks.length > 0
+        ? round(teamPicks.reduce((total, pick) => total + pick.value, 0) / teamPicks.length)
+        : 0;
+      const byValue = [...teamPicks].sort((a, b) => b.value - a.value);
+
+      const team: TeamDraftGrade = {
+        rosterId: roster.roster_id,
+        teamName: teamName(roster.roster_id),
+        grade: gradeForScore(score),
+        score,
+        picks: teamPicks,
+        keepers: picks
+          .filter(pick => pick.is_keeper && pick.roster_id === roster.roster_id)
+          .map(pick => describe(pick).playerName),
+        steals: teamPicks.filter(pick => pick.label === 'steal').length,
+        reaches: teamPicks.filter(pick => pick.label === 'reach').length,
+        bestPick: byValue[0] || null,
+        worstPick: byValue[byValue.length - 1] || null,
+        summary: '',
+      };
+      team.summary = this.describeTeam(team, basis);
+      return team;
+    }).sort((a, b) => b.score - a.score);
+
+    const highlights = teams.flatMap(team => team.picks.map(pick => ({ ...pick, teamName: team.teamName })));
+
+    return {
+      draftId: draft.draft_id,
+      season: draft.season,
+      draftType: draft.type,
+      basis,
+      weeksPlayed,
+      teams,
+      biggestSteals: highlights.filter(pick => pick.label === 'steal').sort((a, b) => b.value - a.value).slice(0, HIGHLIGHT_COUNT),
+      biggestReaches: highlights.filter(pick => pick.label === 'reach').sort((a, b) => a.value - b.value).slice(0, HIGHLIGHT_COUNT),
+      overview: basis === 'points'
+        ? `Draft re-graded on points over positional replacement through week ${weeksPlayed}.`
+        : 'Draft graded against Sleeper consensus rankings.',
+      provider: null,
+      model: null,
+      isFallback: false,
+    };
+  }
+
+  /**
+   * Raw points favour positions that score more, so points picks are valued
+   * over the first player at their position who wouldn't start in a league
+   * this size. Flex slots count towards each position they take, split evenly.
+   */
+  private pointsOverReplacement(
+    drafted: { position: string | null; points: number | null }[],
+    rosterPositions: string[],
+    teamCount: number
+  ): (player: { position: string | null; points: number | null }) => number {
+    const starters = new Map<string, number>();
+    rosterPositions
+      .filter(slot => !NON_STARTING_SLOTS.has(slot))
+      .forEach(slot => {
+        const eligible = getEligiblePositions(slot);
+        eligible.forEach(position => starters.set(position, (starters.get(position) || 0) + 1 / eligible.length));
+      });
+
+    const replacement = new Map<string, number>();
+    new Set(drafted.map(player => player.position || '')).forEach(position => {
+      const points = drafted
+        .filter(player => (player.position || '') === position)
+        .map(player => player.points ?? 0)
+        .sort((a, b) => b - a);
+      const startable = Math.round((starters.get(position) || 0) * teamCount);
+      replacement.set(position, points[Math.min(startable, points.length - 1)]);
+    });
+
+    return player => (player.points ?? 0) - (replacement.get(player.position || '') ?? 0);
+  }
+
+  private describeTeam(team: TeamDraftGrade, basis: DraftGradeBasis): string {
+    const measure = basis === 'points' ? 'scoring' : 'value';
+    const best = team.bestPick && team.bestPick.value > 0
+      ? ` Best ${measure}: ${team.bestPick.playerName} in round ${team.bestPick.round}.`
+      : '';
+    const worst = team.worstPick && team.worstPick.value < 0
+      ? ` Biggest miss: ${team.worstPick.playerName} in round ${team.worstPick.round}.`
+      : '';
+    return `${team.steals} steal${team.steals === 1 ? '' : 's'} and ${team.reaches} reach${team.reaches === 1 ? '' : 'es'}.${best}${worst}`;
+  }
+
+  /**
+   * Replaces the generated overview and team summaries with ones written by
+   * the ai-service draft grader. The generated text is kept if it fails.
+   */
+  private async addSummaries(leagueName: string, grades: ComputedDraftGrades): Promise<void> {
+    try {
+      const narrative = await this.aiAgents.post<DraftGradeNarrative>('/ai/draft-grades', {
+        leagueName,
+        season: grades.season,
+        basis: grades.basis,
+        weeksPlayed: grades.weeksPlayed,
+        teams: grades.teams.map(team => ({
+          rosterId: team.rosterId,
+          teamName: team.teamName,
+          grade: team.grade,
+          score: team.score,
+          steals: team.picks.filter(pick => pick.label === 'steal'),
+          reaches: team.picks.filter(pick => pick.label === 'reach'),
+          bestPick: team.bestPick,
+          worstPick: team.worstPick,
+        })),
+      });
+
+      const summaries = new Map(narrative.teams.map(team => [team.rosterId, team.summary]));
+      grades.teams.forEach(team => {
+        const summary = summaries.get(team.rosterId);
+        if (summary && summary.trim()) {
+          team.summary = summary.trim();
+        }
+      });
+      if (narrative.overview) {
+        grades.overview = narrative.overview;
+      }
+      grades.provider = narrative.provider;
+      grades.model = narrative.model;
+    } catch (error) {
+      console.warn('Draft grade summaries failed, keeping generated summaries:', error);
+      grades.isFallback = true;
+      grades.fallbackReason = error instanceof Error ? error.message : 'Unknown error';
+    }
+  }
+
+  private async getWeeksPlayed(season: number): Promise<number> {
+    const nflState = await this.sleeperAPI.getNFLState();
+    if (season < parseInt(nflState.season) || nflState.season_type === 'post') {
+      return REGULAR_SEASON_WEEKS;
+    }
+    if (season > parseInt(nflState.season) || nflState.season_type !== 'regular') {
+      return 0;
+    }
+    return Math.max(nflState.week - 1, 0);
+  }
+
+  private findGrades(leagueId: string, draftId: string, basis: DraftGradeBasis, weeksPlayed: number): Promise<AnalysisRow | null> {
+    return this.prisma.aIAnalysis.findFirst({
+      where: {
+        leagueId,
+        analysisType: 'draft_grade',
+        AND: [
+          { metadata: { path: ['draftId'], equals: draftId } },
+          { metadata: { path: ['basis'], equals: basis } },
+          { metadata: { path: ['weeksPlayed'], equals: weeksPlayed } },
+        ],
+      },
+      orderBy: { createdAt: 'desc' },
+    });
+  }
+
+  private toDraftGrades(row: AnalysisRow): DraftGrades {
+    return {
+      id: row.id,
+      leagueId: row.leagueId as string,
+      ...(row.output as unknown as ComputedDraftGrades),
+      createdAt: row.createdAt.toISOString(),
+    };
+  }
+}
+
+export const draftGradeService = new DraftGradeService();
@@ -0,0 +1,187 @@
+import { PrismaClient, Prisma } from '@prisma/client';
+import jwt from 'jsonwebtoken';
+import type { NotificationSettings } from '@fantasy-app/shared';
+import type { NotificationType, UserNotification } from './notification-service';
+import { createMailTransport, MailTransport } from './mail-transport';
+import { renderEmail, EmailTemplate } from './email-templates';
+
+const prisma = new PrismaClient();
+
+export type UnsubscribeCategory = Extract<keyof NotificationSettings, 'email' | 'weeklyReportEmail' | 'tradeAlertEmail'>;
+
+// Notification types that are also emailed, and the email-only setting their unsubscribe link turns off
+const EMAIL_TEMPLATES: Partial<Record<NotificationType, { template: EmailTemplate; category: UnsubscribeCategory }>> = {
+  weekly_report: { template: 'weekly_report', category: 'weeklyReportEmail' },
+  trade_offer: { template: 'trade_alert', category: 'tradeAlertEmail' },
+  player_news: { template: 'injury_alert', category: 'email' },
+};
+
+const UNSUBSCRIBE_CATEGORIES: UnsubscribeCategory[] = ['email', 'weeklyReportEmail', 'tradeAlertEmail'];
+
+// Links mailed before the email-only settings existed name the in-app setting instead
+const LEGACY_CATEGORIES: Record<string, UnsubscribeCategory> = {
+  weeklyReport: 'weeklyReportEmail',
+  tradeAlerts: 'tradeAlertEmail',
+};
+
+export interface EmailRecipient {
+  id: string;
+  email: string;
+  displayName: string;
+}
+
+export interface EmailDeliveryResult {
+  id: string;
+  status: 'sent' | 'failed';
+  messageId: string | null;
+  error: string | null;
+}
+
+export class InvalidUnsubscribeTokenError extends Error {
+  constructor() {
+    super('Unsubscribe link is invalid');
+    this.name = 'InvalidUnsubscribeTokenError';
+  }
+}
+
+// A notification is emailed if it has a template and neither email nor its own email setting is off
+export const shouldEmail = (type: NotificationType, settings: NotificationSettings) => {
+  const mapping = EMAIL_TEMPLATES[type];
+  return !!mapping && settings.email && settings[mapping.category] !== false;
+};
+
+// Signed separately from session tokens so an unsubscribe link can never authenticate
+const unsubscribeSecret = () => {
+  const secret = process.env.JWT_SECRET;
+  if (!secret) {
+    throw new Error('JWT_SECRET environment variable is not set');
+  }
+  return `${secret}:unsubscribe`;
+};
+
+// CORS_ORIGIN may list several origins; the first is taken to be the frontend
+const appUrl = (pathname: string | null) => {
+  const corsOrigin = process.env.CORS_ORIGIN?.split(',')[0].trim();
+  const base = (process.env.FRONTEND_URL || corsOrigin || 'http://localhost:3000').replace(/\/$/, '');
+  return `${base}${pathname || '/dashboard'}`;
+};
+
+const backendUrl = () => (process.env.BACKEND_URL || `http://localhost:${process.env.PORT || 4000}`).replace(/\/$/, '');
+
+/**
+ * Renders notifications as emails, sends them through the configured mail
+ * transport and records every attempt in the delivery log.
+ */
+export class EmailService {
+  private prisma: PrismaClient;
+  private transport: MailTransport;
+
+  constructor(prismaClient?: PrismaClient, mailTransport?: MailTransport) {
+    this.prisma = prismaClient || prisma;
+    this.transport = mailTransport || createMailTransport();
+  }
+
+  /**
+   * Emails a stored notification. Returns null for types without a template;
+   * transport failures are logged as failed deliveries rather than thrown.
+   */
+  async sendNotificationEmail(user: EmailRecipient, notification: UserNotification): Promise<EmailDeliveryResult | null> {
+    const mapping = EMAIL_TEMPLATES[notification.type];
+    if (!mapping) {
+      return null;
+    }
+
+    const token = this.createUnsubscribeToken(user.id, mapping.category);
+    const { subject, html, text } = renderEmail(mapping.template, {
+      title: notification.title,
+      message: notification.message,
+      actionUrl: appUrl(notification.actionUrl),
+      unsubscribeUrl: appUrl(`/unsubscribe?token=${encodeURIComponent(token)}`),
+      recipientName: user.displayName,
+    });
+
+    let messageId: string | null = null;
+    let error: string | null = null;
+    try {
+      ({ messageId } = await this.transport.send({
+        to: user.email,
+        subject,
+        html,
+        text,
+        headers: {
+          'List-Unsubscribe': `<${backendUrl()}/api/notifications/unsubscribe?token=${encodeURIComponent(token)}>`,
+          'List-Unsubscribe-Post': 'List-Unsubscribe=One-Click',
+        },
+      }));
+    } catch (sendError) {
+      error = sendError instanceof Error ? sendError.message : 'Unknown error';
+      console.error(`Email to user ${user.id} failed:`, sendError);
+    }
+
+    const delivery = await this.prisma.emailDelivery.create({
+      data: {
+        userId: user.id,
+        toAddress: user.email,
+        template: mapping.template,
+        subject,
+        status: error ? 'failed' : 'sent',
+        transport: this.transport.name,
+        messageId,
+        error,
+      },
+    });
+
+    return {
+      id: delivery.id,
+      status: delivery.status as EmailDeliveryResult['status'],
+      messageId: delivery.messageId,
+      error: delivery.error,
+    };
+  }
+
+  createUnsubscribeToken(userId: string, category: UnsubscribeCategory): string {
+    return jwt.sign({ userId, category }, unsubscribeSecret());
+  }
+
+  /**
+   * Turns off the setting named in an unsubscribe token. Safe to repeat, so
+   * mail clients that follow the link more than once are harmless.
+   */
+  async unsubscribe(token: string): Promise<{ userId: string; category: UnsubscribeCategory }> {
+    let payload: { userId?: string; category?: string };
+    try {
+      payload = jwt.verify(token, unsubscribeSecret()) as typeof payload;
+    } catch {
+      throw new InvalidUnsubscribeTokenError();
+    }
+
+    const { userId } = payload;
+    const category = (payload.category && LEGACY_CATEGORIES[payload.category]) || payload.category as UnsubscribeCategory;
+    if (!userId || !category || !UNSUBSCRIBE_CATEGORIES.includes(category)) {
+      throw new InvalidUnsubscribeTokenError();
+    }
+
+    const user = await this.prisma.user.findUnique({
+      where: { id: userId },
+      select: { preferences: true },
+    });
+    if (!user) {
+      throw new InvalidUnsubscribeTokenError();
+    }
+
+    const preferences = (user.preferences || {}) as { notificationSettings?: Partial<NotificationSettings> };
+    await this.prisma.user.update({
+      where: { id: userId },
+      data: {
+        preferences: {
+          ...preferences,
+          notificationSettings: { ...(preferences.notificationSettings || {}), [category]: false },
+        } as Prisma.InputJsonValue,
+      },
+    });
+
+    return { userId, category };
+  }
+}
+
+export const emailService = new EmailService();
@@ -0,0 +1,105 @@
+export type EmailTemplate = 'weekly_report' | 'trade_alert' | 'injury_alert';
+
+export interface EmailContent {
+  title: string;
+  message: string;
+  actionUrl: string; // Absolute link into the app
+  unsubscribeUrl: string;
+  recipientName: string;
+}
+
+export interface RenderedEmail {
+  subject: string;
+  html: string;
+  text: string;
+}
+
+interface TemplateStyle {
+  label: string;
+  accent: string;
+  actionLabel: string;
+  unsubscribeLabel: string;
+}
+
+const TEMPLATE_STYLES: Record<EmailTemplate, TemplateStyle> = {
+  weekly_report: {
+    label: 'Weekly Report',
+    accent: '#2563eb',
+    actionLabel: 'Read the full report',
+    unsubscribeLabel: 'Turn off weekly reports',
+  },
+  trade_alert: {
+    label: 'Trade Alert',
+    accent: '#16a34a',
+    actionLabel: 'Review the trade',
+    unsubscribeLabel: 'Turn off trade alerts',
+  },
+  injury_alert: {
+    label: 'Injury Alert',
+    accent: '#dc2626',
+    actionLabel: 'Check your lineup',
+    unsubscribeLabel: 'Unsubscribe from all emails',
+  },
+};
+
+const HTML_ESCAPES: Record<string, string> = {
+  '&': '&amp;',
+  '<': '&lt;',
+  '>': '&gt;',
+  '"': '&quot;',
+  "'": '&#39;',
+};
+
+export const escapeHtml = (value: string) => value.replace(/[&<>"']/g, char => HTML_ESCAPES[char]);
+
+// Blank lines in the message become paragraphs, single newlines line breaks
+const toParagraphs = (message: string) => message
+  .split(/\n{2,}/)
+  .map(paragraph => `<p style="margin:0 0 12px;line-height:1.5;">${escapeHtml(paragraph.trim()).replace(/\n/g, '<br>')}</p>`)
+  .join('\n');
+
+export function renderEmail(template: EmailTemplate, content: EmailContent): RenderedEmail {
+  const style = TEMPLATE_STYLES[template];
+  const subject = `${style.label}: ${content.title}`;
+
+  const html = `<!DOCTYPE html>
+<html>
+<body style="margin:0;padding:24px;background:#f3f4f6;font-family:Arial,Helvetica,sans-serif;color:#111827;">
+  <table role="presentation" width="100%" cellpadding="0" cellspacing="0" style="max-width:560px;margin:0 auto;background:#ffffff;border-radius:8px;overflow:hidden;">
+    <tr>
+      <td style="background:${style.accent};color:#ffffff;padding:16px 24px;font-size:14px;font-weight:bold;text-transform:uppercase;letter-spacing:0.05em;">${style.label}</td>
+    </tr>
+    <tr>
+      <td style="padding:24px;">
+        <p style="margin:0 0 12px;">Hi ${escapeHtml(content.recipientName)},</p>
+        <h1 style="margin:0 0 16px;font-size:20px;">${escapeHtml(content.title)}</h1>
+        ${toParagraphs(content.message)}
+        <a href="${escapeHtml(content.actionUrl)}" style="display:inline-block;margin-top:8px;padding:10px 16px;background:${style.accent};color:#ffffff;text-decoration:none;border-radius:6px;">${style.actionLabel}</a>
+      </td>
+    </tr>
+    <tr>
+      <td style="padding:16px 24px;border-top:1px solid #e5e7eb;font-size:12px;color:#6b7280;">
+        You're receiving this because email notifications are on in your settings.
+        <a href="${escapeHtml(content.unsubscribeUrl)}" style="color:#6b7280;">${style.unsubscribeLabel}</a>
+      </td>
+    </tr>
+  </table>
+</body>
+</html>
+`;
+
+  const text = [
+    `Hi ${content.recipientName},`,
+    '',
+    content.title,
+    '',
+    content.message,
+    '',
+    `${style.actionLabel}: ${content.actionUrl}`,
+    '',
+    '--',
+    `${style.unsubscribeLabel}: ${content.unsubscribeUrl}`,
+  ].join('\n');
+
+  return { subject, html, text };
+}
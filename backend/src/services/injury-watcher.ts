@@ -0,0 +1,253 @@
+import { PrismaClient } from '@prisma/client';
+import { getEligiblePositions } from '@fantasy-app/shared';
+import {
+  sleeperAPIService as defaultSleeperAPI,
+  SleeperAPIService,
+  SleeperPlayer,
+  SleeperRoster,
+} from './sleeper-api-service';
+import { playerService as defaultPlayerService, PlayerService, PlayerChange } from './player-service';
+import { statsService as defaultStatsService, StatsService } from './stats-service';
+import { notificationService as defaultNotificationService, NotificationService, NotificationPriority } from './notification-service';
+
+const prisma = new PrismaClient();
+
+const ALERT_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+const EMPTY_SLOT = '0';
+
+// Higher is worse; anything not listed counts as healthy
+const INJURY_SEVERITY: Record<string, number> = {
+  Questionable: 1,
+  Doubtful: 2,
+  Out: 3,
+  IR: 3,
+  PUP: 3,
+  NFI: 3,
+  Sus: 3,
+  NA: 3,
+  COV: 3,
+};
+const OUT_SEVERITY = 3;
+// Doubtful or worse is not worth suggesting as a replacement
+const UNAVAILABLE_SEVERITY = 2;
+
+export interface StatusUpdate {
+  sleeperPlayerId: string;
+  previousSeverity: number;
+  currentSeverity: number;
+  label: string; // Current injury or roster status, e.g. "Out" or "Injured Reserve"
+}
+
+export interface InjuryAlertResult {
+  playersChanged: number;
+  leagues: number;
+  notified: number;
+  suppressed: number; // Turned off in the user's notification settings
+  failed: string[];
+}
+
+const severityOf = (change: PlayerChange, value: string | null) => {
+  if (!value) return 0;
+  if (change.field === 'status') return value === 'Active' ? 0 : OUT_SEVERITY;
+  return INJURY_SEVERITY[value] ?? 0;
+};
+
+/**
+ * Turns the injury and status changes found by a player refresh into
+ * player_news notifications for everyone rostering the player, with a bench
+ * replacement when a starter is affected.
+ */
+export class InjuryWatcher {
+  private sleeperAPI: SleeperAPIService;
+  private prisma: PrismaClient;
+  private players: PlayerService;
+  private stats: StatsService;
+  private notifications: NotificationService;
+
+  constructor(
+    sleeperAPIService?: SleeperAPIService,
+    prismaClient?: PrismaClient,
+    playerServiceInstance?: PlayerService,
+    statsServiceInstance?: StatsService,
+    notificationServiceInstance?: NotificationService
+  ) {
+    this.sleeperAPI = sleeperAPIService || defaultSleeperAPI;
+    this.prisma = prismaClient || prisma;
+    this.players = playerServiceInstance || defaultPlayerService;
+    this.stats = statsServiceInstance || defaultStatsService;
+    this.notifications = notificationServiceInstance || defaultNotificationService;
+  }
+
+  async notifyChanges(changes: PlayerChange[]): Promise<InjuryAlertResult> {
+    const result: InjuryAlertResult = { playersChanged: 0, leagues: 0, notified: 0, suppressed: 0, failed: [] };
+
+    const updates = this.getStatusUpdates(changes);
+    result.playersChanged = updates.size;
+    if (updates.size === 0) {
+      return result;
+    }
+
+    const nflState = await this.sleeperAPI.getNFLState();
+    if (nflState.season_type !== 'regular' && nflState.season_type !== 'post') {
+      return result;
+    }
+
+    const season = parseInt(nflState.season);
+    const [leagues, players] = await Promise.all([
+      this.prisma.league.findMany({
+        where: { season },
+        include: { userLeagues: { select: { userId: true, sleeperRosterId: true } } },
+      }),
+      this.players.getAllPlayers(),
+    ]);
+    result.leagues = leagues.length;
+
+    for (const league of leagues) {
+      try {
+        const [sleeperLeague, rosters] = await Promise.all([
+          this.sleeperAPI.getLeague(league.sleeperLeagueId),
+          this.sleeperAPI.getLeagueRosters(league.sleeperLeagueId),
+        ]);
+        const slots = (sleeperLeague.roster_positions || []).filter(position => position !== 'BN');
+
+        for (const userLeague of league.userLeagues) {
+          const roster = rosters.find(candidate => candidate.roster_id.toString() === userLeague.sleeperRosterId);
+          if (!roster) continue;
+
+          for (const playerId of roster.players || []) {
+            const update = updates.get(playerId);
+            const player = players[playerId];
+            if (!update || !player) continue;
+
+            const starterIndex = (roster.starters || []).indexOf(playerId);
+            const slot = starterIndex >= 0 ? slots[starterIndex] || player.position : null;
+            const replacement = slot && update.currentSeverity > update.previousSeverity
+              ? await this.findReplacement(roster, slot, players, season, nflState.week, league.id)
+              : null;
+
+            const notification = await this.notifications.notify(userLeague.userId, {
+              type: 'player_news',
+              ...this.describe(update, player, league.name, slot, replacement),
+              actionUrl: `/league/${league.id}`,
+              expiresAt: new Date(Date.now() + ALERT_TTL_MS),
+            });
+            if (notification) {
+              result.notified++;
+            } else {
+              result.suppressed++;
+            }
+          }
+        }
+      } catch (error) {
+        console.error(`Injury alerts failed for ${league.sleeperLeagueId}:`, error);
+        result.failed.push(league.sleeperLeagueId);
+      }
+    }
+
+    return result;
+  }
+
+  // Players whose availability got worse, or who were cleared to play
+  private getStatusUpdates(changes: PlayerChange[]): Map<string, StatusUpdate> {
+    const byPlayer = new Map<string, PlayerChange[]>();
+    changes
+      .filter(change => change.field === 'injury' || change.field === 'status')
+      .forEach(change => byPlayer.set(change.sleeperPlayerId, [...(byPlayer.get(change.sleeperPlayerId) || []), change]));
+
+    const updates = new Map<string, StatusUpdate>();
+    byPlayer.forEach((playerChanges, sleeperPlayerId) => {
+      const previousSeverity = Math.max(...playerChanges.map(change => severityOf(change, change.previous)));
+      const currentSeverity = Math.max(...playerChanges.map(change => severityOf(change, change.current)));
+      if (previousSeverity === currentSeverity) return;
+
+      const worst = playerChanges.reduce((a, b) => severityOf(b, b.current) > severityOf(a, a.current) ? b : a);
+      updates.set(sleeperPlayerId, {
+        sleeperPlayerId,
+        previousSeverity,
+        currentSeverity,
+        label: currentSeverity === 0 ? 'Active' : worst.current as string,
+      });
+    });
+
+    return updates;
+  }
+
+  /**
+   * The healthy bench player eligible for the slot with the best recent
+   * production in this league, falling back to Sleeper's search rank.
+   */
+  private async findReplacement(
+    roster: SleeperRoster,
+    slot: string,
+    players: { [playerId: string]: SleeperPlayer },
+    season: number,
+    week: number,
+    leagueId: string
+  ): Promise<SleeperPlayer | null> {
+    const eligible = getEligiblePositions(slot);
+    const unavailable = new Set([...(roster.starters || []), ...(roster.reserve || []), ...(roster.taxi || [])]);
+
+    const candidates = (roster.players || [])
+      .filter(playerId => playerId !== EMPTY_SLOT && !unavailable.has(playerId))
+      .map(playerId => players[playerId])
+      .filter(player =>
+        player &&
+        eligible.includes(player.position) &&
+        player.status === 'Active' &&
+        (INJURY_SEVERITY[player.injury_status || ''] ?? 0) < UNAVAILABLE_SEVERITY
+      );
+    if (candidates.length === 0) {
+      return null;
+    }
+
+    const production = await this.stats.getRecentProduction(
+      candidates.map(player => player.player_id),
+      season,
+      week,
+      { leagueId }
+    );
+    const average = (player: SleeperPlayer) => {
+      const weeks = production[player.player_id] || [];
+      return weeks.length > 0 ? weeks.reduce((total, entry) => total + entry.points, 0) / weeks.length : 0;
+    };
+    const searchRank = (player: SleeperPlayer) => player.search_rank ?? Number.MAX_SAFE_INTEGER;
+
+    return [...candidates].sort((a, b) => average(b) - average(a) || searchRank(a) - searchRank(b))[0];
+  }
+
+  private describe(
+    update: StatusUpdate,
+    player: SleeperPlayer,
+    leagueName: string,
+    slot: string | null,
+    replacement: SleeperPlayer | null
+  ): { title: string; message: string; priority: NotificationPriority } {
+    const name = player.full_name || `${player.first_name} ${player.last_name}`.trim();
+    const details = [player.position, player.team].filter(Boolean).join(', ');
+    const role = slot ? `in your starting lineup at ${slot}` : 'on your bench';
+
+    if (update.currentSeverity === 0) {
+      return {
+        title: `${name} is cleared to play`,
+        message: `${name} (${details}) no longer has an injury designation and is ${role} in ${leagueName}.`,
+        priority: 'low',
+      };
+    }
+
+    const bodyPart = player.injury_body_part ? ` (${player.injury_body_part})` : '';
+    let message = `${name} (${details}) is now ${update.label}${bodyPart} and is ${role} in ${leagueName}.`;
+    if (slot) {
+      message += replacement
+        ? ` Suggested replacement from your bench: ${replacement.full_name} (${replacement.position}, ${replacement.team || 'FA'}).`
+        : ` No healthy ${slot} on your bench; check the waiver wire.`;
+    }
+
+    return {
+      title: update.label === 'Out' ? `${name} ruled Out` : `${name} listed as ${update.label}`,
+      message,
+      priority: slot && update.currentSeverity >= UNAVAILABLE_SEVERITY ? 'high' : slot ? 'medium' : 'low',
+    };
+  }
+}
+
+export const injuryWatcher = new InjuryWatcher();
@@ -0,0 +1,283 @@
+import cron from 'node-cron';
+import { createClient } from 'redis';
+
+type RedisClient = ReturnType<typeof createClient>;
+
+const KEY_PREFIX = 'jobs';
+const HISTORY_LENGTH = 20;
+const DEFAULT_MAX_ATTEMPTS = 3;
+const DEFAULT_BACKOFF_MS = 30 * 1000;
+const DEFAULT_LOCK_TTL_MS = 30 * 60 * 1000;
+
+// Deletes the lock only if this process still owns it
+const RELEASE_LOCK_SCRIPT = `
+if redis.call("get", KEYS[1]) == ARGV[1] then
+  return redis.call("del", KEYS[1])
+else
+  return 0
+end`;
+
+export type JobTrigger = 'schedule' | 'manual';
+export type JobRunStatus = 'running' | 'succeeded' | 'failed' | 'skipped';
+
+export interface JobContext {
+  runId: string;
+  attempt: number;
+  trigger: JobTrigger;
+}
+
+export interface JobDefinition {
+  name: string;
+  description: string;
+  schedule: string; // Cron expression, evaluated in `timezone`
+  timezone?: string; // Defaults to JOBS_TIMEZONE; for jobs tied to local times such as NFL kickoffs
+  maxAttempts?: number;
+  backoffMs?: number; // Doubles after every failed attempt
+  lockTtlMs?: number; // Should cover every attempt plus backoff
+  handler: (context: JobContext) => Promise<Record<string, any> | void>;
+}
+
+export interface JobRun {
+  runId: string;
+  job: string;
+  trigger: JobTrigger;
+  status: JobRunStatus;
+  attempts: number;
+  startedAt: string;
+  finishedAt?: string;
+  durationMs?: number;
+  result?: Record<string, any>;
+  error?: string;
+}
+
+export interface JobStatus {
+  name: string;
+  description: string;
+  schedule: string;
+  maxAttempts: number;
+  scheduled: boolean;
+  running: boolean;
+  lastRun: JobRun | null;
+}
+
+export class JobNotFoundError extends Error {
+  constructor(name: string) {
+    super(`Job ${name} is not registered`);
+    this.name = 'JobNotFoundError';
+  }
+}
+
+export class JobScheduler {
+  private redis: RedisClient | null = null;
+  private definitions = new Map<string, JobDefinition>();
+  private tasks = new Map<string, cron.ScheduledTask>();
+  private running = new Set<string>();
+  private instanceId = `${process.pid}_${Math.random().toString(36).substring(2, 8)}`;
+
+  register(definition: JobDefinition): void {
+    if (!cron.validate(definition.schedule)) {
+      throw new Error(`Invalid cron schedule for job ${definition.name}: ${definition.schedule}`);
+    }
+    this.definitions.set(definition.name, definition);
+  }
+
+  /**
+   * Schedules every registered job. Locks are held in Redis so that only one
+   * backend instance runs a given job at a time.
+   */
+  start(redis: RedisClient): void {
+    this.redis = redis;
+    const timezone = process.env.JOBS_TIMEZONE || 'UTC';
+
+    this.definitions.forEach(definition => {
+      if (this.tasks.has(definition.name)) return;
+
+      const task = cron.schedule(definition.schedule, () => {
+        this.runJob(definition.name, 'schedule').catch(error => {
+          console.error(`Scheduled job ${definition.name} crashed:`, error);
+        });
+      }, { timezone: definition.timezone || timezone });
+
+      this.tasks.set(definition.name, task);
+    });
+
+    console.log(`⏰ Job scheduler started with ${this.tasks.size} jobs`);
+  }
+
+  stop(): void {
+    this.tasks.forEach(task => task.stop());
+    this.tasks.clear();
+  }
+
+  isStarted(): boolean {
+    return this.redis !== null;
+  }
+
+  getJobNames(): string[] {
+    return Array.from(this.definitions.keys());
+  }
+
+  /**
+   * Starts a run without waiting for it to finish and returns its ID, so the
+   * caller can poll the job status.
+   */
+  trigger(name: string): string {
+    const definition = this.getDefinition(name);
+    const runId = this.createRunId(definition.name);
+
+    this.runJob(definition.name, 'manual', runId).catch(error => {
+      console.error(`Manual run of job ${definition.name} crashed:`, error);
+    });
+
+    return runId;
+  }
+
+  async runJob(name: string, trigger: JobTrigger, runId = this.createRunId(name)): Promise<JobRun> {
+    const definition = this.getDefinition(name);
+    const redis = this.requireRedis();
+    const maxAttempts = definition.maxAttempts || DEFAULT_MAX_ATTEMPTS;
+    const backoffMs = definition.backoffMs ?? DEFAULT_BACKOFF_MS;
+    const lockKey = `${KEY_PREFIX}:${name}:lock`;
+    const lockToken = `${this.instanceId}:${runId}`;
+    const startedAt = new Date();
+
+    const run: JobRun = {
+      runId,
+      job: name,
+      trigger,
+      status: 'running',
+      attempts: 0,
+      startedAt: startedAt.toISOString(),
+    };
+
+    const acquired = await redis.set(lockKey, lockToken, {
+      NX: true,
+      PX: definition.lockTtlMs || DEFAULT_LOCK_TTL_MS,
+    });
+
+    if (acquired !== 'OK') {
+      console.log(`Skipping job ${name}: already running elsewhere`);
+      return this.finishRun(run, startedAt, { status: 'skipped', error: 'Job is already running' });
+    }
+
+    this.running.add(name);
+    await this.saveStatus(run);
+
+    try {
+      let lastError: unknown;
+
+      for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+        run.attempts = attempt;
+
+        try {
+          console.log(`Running job ${name} (attempt ${attempt}/${maxAttempts})`);
+          const result = await definition.handler({ runId, attempt, trigger });
+          return await this.finishRun(run, startedAt, { status: 'succeeded', result: result || undefined });
+        } catch (error) {
+          lastError = error;
+          console.error(`Job ${name} attempt ${attempt} failed:`, error);
+
+          if (attempt < maxAttempts) {
+            await delay(backoffMs * Math.pow(2, attempt - 1));
+          }
+        }
+      }
+
+      return await this.finishRun(run, startedAt, {
+        status: 'failed',
+        error: lastError instanceof Error ? lastError.message : 'Unknown error',
+      });
+    } finally {
+      this.running.delete(name);
+      await redis.eval(RELEASE_LOCK_SCRIPT, { keys: [lockKey], arguments: [lockToken] }).catch(error => {
+        console.error(`Failed to release lock for job ${name}:`, error);
+      });
+    }
+  }
+
+  async getStatus(name: string): Promise<JobStatus> {
+    const definition = this.getDefinition(name);
+    const redis = this.requireRedis();
+    const [lastRun, locked] = await Promise.all([
+      redis.get(`${KEY_PREFIX}:${name}:last`),
+      redis.exists(`${KEY_PREFIX}:${name}:lock`),
+    ]);
+
+    return {
+      name,
+      description: definition.description,
+      schedule: definition.schedule,
+      maxAttempts: definition.maxAttempts || DEFAULT_MAX_ATTEMPTS,
+      scheduled: this.tasks.has(name),
+      // The lock also covers runs started by other backend instances
+      running: this.running.has(name) || locked === 1,
+      lastRun: lastRun ? JSON.parse(lastRun) : null,
+    };
+  }
+
+  async getAllStatuses(): Promise<JobStatus[]> {
+    return Promise.all(this.getJobNames().map(name => this.getStatus(name)));
+  }
+
+  async getHistory(name: string, limit = HISTORY_LENGTH): Promise<JobRun[]> {
+    this.getDefinition(name);
+    const entries = await this.requireRedis().lRange(`${KEY_PREFIX}:${name}:history`, 0, limit - 1);
+    return entries.map(entry => JSON.parse(entry));
+  }
+
+  private async finishRun(
+    run: JobRun,
+    startedAt: Date,
+    outcome: Pick<JobRun, 'status' | 'result' | 'error'>
+  ): Promise<JobRun> {
+    const finishedAt = new Date();
+    const finished: JobRun = {
+      ...run,
+      ...outcome,
+      finishedAt: finishedAt.toISOString(),
+      durationMs: finishedAt.getTime() - startedAt.getTime(),
+    };
+
+    const redis = this.requireRedis();
+    const historyKey = `${KEY_PREFIX}:${run.job}:history`;
+    await redis.lPush(historyKey, JSON.stringify(finished));
+    await redis.lTrim(historyKey, 0, HISTORY_LENGTH - 1);
+
+    // A skipped run should not hide the status of the run that holds the lock
+    if (finished.status !== 'skipped') {
+      await this.saveStatus(finished);
+    }
+
+    console.log(`Job ${run.job} ${finished.status} after ${finished.attempts} attempt(s) in ${finished.durationMs}ms`);
+    return finished;
+  }
+
+  private async saveStatus(run: JobRun): Promise<void> {
+    await this.requireRedis().set(`${KEY_PREFIX}:${run.job}:last`, JSON.stringify(run));
+  }
+
+  private getDefinition(name: string): JobDefinition {
+    const definition = this.definitions.get(name);
+    if (!definition) {
+      throw new JobNotFoundError(name);
+    }
+    return definition;
+  }
+
+  private requireRedis(): RedisClient {
+    if (!this.redis) {
+      throw new Error('Job scheduler has not been started');
+    }
+    return this.redis;
+  }
+
+  private createRunId(name: string): string {
+    return `${name}_${Date.now()}_${Math.random().toString(36).substring(2, 8)}`;
+  }
+}
+
+function delay(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+export const jobScheduler = new JobScheduler();
@@ -1,13 +1,22 @@
 import { PrismaClient } from '@prisma/client';
+import { describeScoringSettings, getScoringFormat, ScoringSettings } from '@fantasy-app/shared';
 import { sleeperAPIService as defaultSleeperAPI, SleeperAPIService } from './sleeper-api-service';
+import { playerService as defaultPlayerService, PlayerService } from './player-service';
 
 const prisma = new PrismaClient();
 
+export interface LeagueScoring {
+  format: ReturnType<typeof getScoringFormat>;
+  summary: string;
+  settings: ScoringSettings;
+}
+
 export interface LeagueDetails {
   league: any;
   rosters: any[];
   users: any[];
   currentWeek: number;
+  scoring: LeagueScoring;
 }
 
 export interface StandingsData {
@@ -43,11 +52,13 @@ export class LeagueService {
   private mcpServerUrl: string;
   private sleeperAPI: SleeperAPIService;
   private prisma: PrismaClient;
+  private playerService: PlayerService;
 
-  constructor(sleeperAPIService?: SleeperAPIService, prismaClient?: PrismaClient) {
+  constructor(sleeperAPIService?: SleeperAPIService, prismaClient?: PrismaClient, playerServiceInstance?: PlayerService) {
     this.mcpServerUrl = process.env.MCP_SERVER_URL || 'http://localhost:3001';
     this.sleeperAPI = sleeperAPIService || defaultSleeperAPI;
     this.prisma = prismaClient || prisma;
+    this.playerService = playerServiceInstance || defaultPlayerService;
   }
 
   private async callMCPTool(toolName: string, params: any): Promise<any> {
@@ -137,6 +148,7 @@ export class LeagueService {
         rosters: rosters || [],
         users: users || [],
         currentWeek: (nflState as any)?.week || 14,
+        scoring: this.getLeagueScoring(league),
       };
     } catch (error) {
       console.error('MCP league details failed:', error);
@@ -159,6 +171,7 @@ export class LeagueService {
         rosters: rosters || [],
         users: users || [],
         currentWeek: nflState?.week || 14,
+        scoring: this.getLeagueScoring(league),
       };
     } catch (error) {
       console.error('Direct Sleeper API service failed:', error);
@@ -166,6 +179,20 @@ export class LeagueService {
     }
   }
 
+  /**
+   * Interprets a Sleeper league's scoring_settings so callers can show and
+   * score it without collapsing it to a preset.
+   */
+  getLeagueScoring(league: { scoring_settings?: ScoringSettings | null } | null | undefined): LeagueScoring {
+    const settings = league?.scoring_settings || {};
+
+    return {
+      format: getScoringFormat(settings),
+      summary: describeScoringSettings(settings),
+      settings,
+    };
+  }
+
   async getLeagueMatchups(sleeperLeagueId: string, week: number): Promise<MatchupData[]> {
     try {
       try {
@@ -418,13 +445,12 @@ export class LeagueService {
     try {
       console.log('Getting all NFL players');
       
-      // Try direct API first
+      // Try the player database first
       try {
-        console.log('Using direct Sleeper API service for all players');
-        const players = await this.sleeperAPI.getAllPlayers();
+        const players = await this.playerService.getAllPlayers();
         return players || {};
-      } catch (directAPIError) {
-        console.error('Direct Sleeper API service failed for all players:', directAPIError);
+      } catch (playerStoreError) {
+        console.error('Player database failed for all players:', playerStoreError);
         console.log('Falling back to MCP for all players');
         
         // Fallback to MCP
@@ -448,12 +474,12 @@ export class LeagueService {
         return [];
       }
 
-      // Get all NFL players using direct API first
+      // Get all NFL players from the player database first
       let allPlayers;
       try {
-        allPlayers = await this.sleeperAPI.getAllPlayers();
-      } catch (directAPIError) {
-        console.warn('Direct API failed for players, trying MCP:', directAPIError);
+        allPlayers = await this.playerService.getAllPlayers();
+      } catch (playerStoreError) {
+        console.warn('Player database failed for players, trying MCP:', playerStoreError);
         allPlayers = await this.callMCPTool('get_players_nfl', {});
       }
 
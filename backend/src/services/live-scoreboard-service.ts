@@ -0,0 +1,231 @@
+import { calculateFantasyPoints, ScoringSettings, StatLine } from '@fantasy-app/shared';
+import { sleeperAPIService as defaultSleeperAPI, SleeperAPIService, SleeperPlayer } from './sleeper-api-service';
+import { playerService as defaultPlayerService, PlayerService } from './player-service';
+
+// Poll quickly while games are on and slowly between game windows
+export const LIVE_POLL_SECONDS = 30;
+export const IDLE_POLL_SECONDS = 600;
+// Every member of a league polls the same scoreboard, so they share one Sleeper fetch per league and week
+const CACHE_TTL_MS = 15 * 1000;
+
+const EMPTY_SLOT = '0';
+const PLAYOFF_SATURDAY_WEEK = 15;
+
+// Kickoff windows in US Eastern hours, [start, end)
+const GAME_WINDOWS: { [weekday: string]: [number, number] } = {
+  Thu: [20, 24],
+  Sun: [9, 24], // Early international kickoffs through Sunday night
+  Mon: [19, 24],
+};
+
+// not_playing covers empty slots, byes and players without a projection
+export type StarterStatus = 'yet_to_play' | 'started' | 'not_playing';
+
+export interface LiveStarter {
+  playerId: string;
+  name: string;
+  position: string | null;
+  team: string | null;
+  slot: string;
+  points: number;
+  projectedPoints: number;
+  status: StarterStatus;
+}
+
+export interface LiveTeam {
+  rosterId: number;
+  teamName: string;
+  ownerName: string;
+  points: number;
+  pointsRemaining: number; // Projected points of starters yet to play
+  projectedFinal: number;
+  playersYetToPlay: number;
+  starters: LiveStarter[];
+}
+
+export interface LiveMatchup {
+  matchupId: number;
+  teams: LiveTeam[];
+}
+
+export interface LiveScoreboard {
+  week: number;
+  season: string;
+  isCurrentWeek: boolean;
+  gamesInProgress: boolean;
+  pollIntervalSeconds: number | null; // null once there is nothing left to poll for
+  matchups: LiveMatchup[];
+  updatedAt: string;
+}
+
+/**
+ * Whether NFL games can be on at the given time. Saturday slates are only
+ * played late in the season.
+ */
+export function isNFLGameWindow(date: Date, week: number): boolean {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone: 'America/New_York',
+    weekday: 'short',
+    hour: 'numeric',
+    hourCycle: 'h23',
+  }).formatToParts(date);
+  const weekday = parts.find(part => part.type === 'weekday')?.value || '';
+  const hour = parseInt(parts.find(part => part.type === 'hour')?.value || '0');
+
+  const window = weekday === 'Sat' && week >= PLAYOFF_SATURDAY_WEEK ? [13, 24] : GAME_WINDOWS[weekday];
+  return !!window && hour >= window[0] && hour < window[1];
+}
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+export class LiveScoreboardService {
+  private sleeperAPI: SleeperAPIService;
+  private playerService: PlayerService;
+  private cache = new Map<string, { scoreboard: Promise<LiveScoreboard>; loadedAt: number }>();
+
+  constructor(sleeperAPIService?: SleeperAPIService, playerServiceInstance?: PlayerService) {
+    this.sleeperAPI = sleeperAPIService || defaultSleeperAPI;
+    this.playerService = playerServiceInstance || defaultPlayerService;
+  }
+
+  /**
+   * The league's scoreboard for the week, built at most once per CACHE_TTL_MS.
+   * Concurrent requests share a single build.
+   */
+  getScoreboard(sleeperLeagueId: string, week: number, now = new Date()): Promise<LiveScoreboard> {
+    const key = `${sleeperLeagueId}:${week}`;
+    const cached = this.cache.get(key);
+    if (cached && now.getTime() - cached.loadedAt < CACHE_TTL_MS) {
+      return cached.scoreboard;
+    }
+
+    // Drop expired entries so leagues that stop polling don't accumulate
+    this.cache.forEach((entry, entryKey) => {
+      if (now.getTime() - entry.loadedAt >= CACHE_TTL_MS) this.cache.delete(entryKey);
+    });
+
+    const scoreboard = this.buildScoreboard(sleeperLeagueId, week, now);
+    this.cache.set(key, { scoreboard, loadedAt: now.getTime() });
+    // A failed build shouldn't be served to the next poll
+    scoreboard.catch(() => {
+      if (this.cache.get(key)?.scoreboard === scoreboard) this.cache.delete(key);
+    });
+    return scoreboard;
+  }
+
+  private async buildScoreboard(sleeperLeagueId: string, week: number, now: Date): Promise<LiveScoreboard> {
+    try {
+      const [league, rosters, users, matchups, nflState] = await Promise.all([
+        this.sleeperAPI.getLeague(sleeperLeagueId),
+        this.sleeperAPI.getLeagueRosters(sleeperLeagueId),
+        this.sleeperAPI.getLeagueUsers(sleeperLeagueId),
+        this.sleeperAPI.getLeagueMatchups(sleeperLeagueId, week),
+        this.sleeperAPI.getNFLState(),
+      ]);
+
+      const [stats, projections] = await Promise.all([
+        this.sleeperAPI.getPlayerStats('nfl', league.season, 'regular', week).then(data => data || {}),
+        this.sleeperAPI.getPlayerProjections('nfl', league.season, 'regular', week).then(data => data || {}),
+      ]) as [{ [playerId: string]: StatLine }, { [playerId: string]: StatLine }];
+
+      // Starters for the lineups, plus everyone with stats to tell which NFL teams have kicked off
+      const playerIds = new Set([
+        ...(matchups || []).flatMap(matchup => matchup.starters || []),
+        ...Object.keys(stats),
+      ]);
+      playerIds.delete(EMPTY_SLOT);
+      const players: { [playerId: string]: SleeperPlayer } = await this.playerService.getPlayers(Array.from(playerIds));
+
+      const isCurrentWeek = nflState.season === league.season && nflState.week === week;
+      const gamesInProgress = isCurrentWeek && isNFLGameWindow(now, week);
+      const startedTeams = this.getStartedTeams(stats, players);
+      const scoring: ScoringSettings = league.scoring_settings || {};
+      const slots = (league.roster_positions || []).filter(position => position !== 'BN');
+
+      const userLookup = new Map(users.map(user => [user.user_id, user]));
+      const ownerByRoster = new Map(rosters.map(roster => [roster.roster_id, userLookup.get(roster.owner_id)]));
+
+      const byMatchupId = new Map<number, LiveTeam[]>();
+      (matchups || []).forEach(matchup => {
+        // Rosters without a matchup_id have no opponent this week
+        if (!matchup.matchup_id) return;
+
+        const starters: LiveStarter[] = (matchup.starters || []).map((playerId, index) => {
+          const player = players[playerId];
+          const slot = slots[index] || 'FLEX';
+          if (playerId === EMPTY_SLOT || !player) {
+            return { playerId, name: 'Empty', position: null, team: null, slot, points: 0, projectedPoints: 0, status: 'not_playing' };
+          }
+
+          const projection = projections[playerId];
+          const projectedPoints = projection ? round(calculateFantasyPoints(projection, scoring, player.position)) : 0;
+          const hasStarted = !!player.team && startedTeams.has(player.team);
+          // Past weeks are final, so anyone who did not play never will
+          const status: StarterStatus = hasStarted
+            ? 'started'
+            : isCurrentWeek && projection && player.team ? 'yet_to_play' : 'not_playing';
+
+          return {
+            playerId,
+            name: player.full_name || `${player.first_name} ${player.last_name}`.trim(),
+            position: player.position || null,
+            team: player.team || null,
+            slot,
+            points: round(matchup.players_points?.[playerId] ?? 0),
+            projectedPoints,
+            status,
+          };
+        });
+
+        const owner = ownerByRoster.get(matchup.roster_id);
+        const points = round(matchup.custom_points ?? matchup.points ?? 0);
+        const yetToPlay = starters.filter(starter => starter.status === 'yet_to_play');
+        const pointsRemaining = round(yetToPlay.reduce((total, starter) => total + starter.projectedPoints, 0));
+
+        const team: LiveTeam = {
+          rosterId: matchup.roster_id,
+          teamName: owner?.metadata?.team_name || owner?.display_name || `Team ${matchup.roster_id}`,
+          ownerName: owner?.display_name || 'Unknown',
+          points,
+          pointsRemaining,
+          projectedFinal: round(points + pointsRemaining),
+          playersYetToPlay: yetToPlay.length,
+          starters,
+        };
+        byMatchupId.set(matchup.matchup_id, [...(byMatchupId.get(matchup.matchup_id) || []), team]);
+      });
+
+      const liveMatchups = [...byMatchupId.entries()]
+        .sort(([a], [b]) => a - b)
+        .map(([matchupId, teams]) => ({ matchupId, teams }));
+      const anyYetToPlay = liveMatchups.some(matchup => matchup.teams.some(team => team.playersYetToPlay > 0));
+
+      return {
+        week,
+        season: league.season,
+        isCurrentWeek,
+        gamesInProgress,
+        pollIntervalSeconds: gamesInProgress ? LIVE_POLL_SECONDS : anyYetToPlay ? IDLE_POLL_SECONDS : null,
+        matchups: liveMatchups,
+        updatedAt: now.toISOString(),
+      };
+    } catch (error) {
+      console.error(`Error building live scoreboard for ${sleeperLeagueId} week ${week}:`, error);
+      throw new Error(`Live scoreboard failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  // Sleeper only has stat lines for games that have kicked off, so any line marks its team as started
+  private getStartedTeams(stats: { [playerId: string]: StatLine }, players: { [playerId: string]: SleeperPlayer }): Set<string> {
+    const teams = new Set<string>();
+    Object.entries(stats).forEach(([playerId, line]) => {
+      const team = players[playerId]?.team;
+      if (team && line && Object.keys(line).length > 0) {
+        teams.add(team);
+      }
+    });
+    return teams;
+  }
+}
+
+export const liveScoreboardService = new LiveScoreboardService();
@@ -0,0 +1,96 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import nodemailer, { Transporter } from 'nodemailer';
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  html: string;
+  text: string;
+  headers?: Record<string, string>;
+}
+
+export interface MailTransport {
+  name: string;
+  send(message: MailMessage): Promise<{ messageId: string }>;
+}
+
+const DEFAULT_FROM = 'Fantasy Football <no-reply@localhost>';
+
+export class SmtpTransport implements MailTransport {
+  name = 'smtp';
+  private transporter: Transporter;
+
+  constructor(private from: string, transporter?: Transporter) {
+    const port = parseInt(process.env.SMTP_PORT || '587');
+    this.transporter = transporter || nodemailer.createTransport({
+      host: process.env.SMTP_HOST,
+      port,
+      secure: process.env.SMTP_SECURE ? process.env.SMTP_SECURE === 'true' : port === 465,
+      auth: process.env.SMTP_USER
+        ? { user: process.env.SMTP_USER, pass: process.env.SMTP_PASSWORD }
+        : undefined,
+    });
+  }
+
+  async send(message: MailMessage): Promise<{ messageId: string }> {
+    const info = await this.transporter.sendMail({ from: this.from, ...message });
+    return { messageId: info.messageId };
+  }
+}
+
+/**
+ * Writes each message as an .eml-style file plus its HTML body, so templates
+ * can be checked in a browser without a mail server.
+ */
+export class FileTransport implements MailTransport {
+  name = 'file';
+
+  constructor(private from: string, private outputDir: string) {}
+
+  async send(message: MailMessage): Promise<{ messageId: string }> {
+    const messageId = `${Date.now()}-${Math.random().toString(36).slice(2, 10)}`;
+    const headers = Object.entries({ From: this.from, To: message.to, Subject: message.subject, ...message.headers })
+      .map(([name, value]) => `${name}: ${value}`)
+      .join('\n');
+
+    await fs.mkdir(this.outputDir, { recursive: true });
+    await Promise.all([
+      fs.writeFile(path.join(this.outputDir, `${messageId}.eml`), `${headers}\n\n${message.text}\n`),
+      fs.writeFile(path.join(this.outputDir, `${messageId}.html`), message.html),
+    ]);
+    return { messageId };
+  }
+}
+
+export class ConsoleTransport implements MailTransport {
+  name = 'console';
+
+  constructor(private from: string) {}
+
+  async send(message: MailMessage): Promise<{ messageId: string }> {
+    const messageId = `console-${Date.now()}`;
+    console.log(`📧 Email from ${this.from} to ${message.to}: ${message.subject}\n${message.text}`);
+    return { messageId };
+  }
+}
+
+/**
+ * Picks the transport from MAIL_TRANSPORT (smtp, file or console). Without
+ * it, SMTP is used when SMTP_HOST is set and the console otherwise.
+ */
+export function createMailTransport(): MailTransport {
+  const from = process.env.MAIL_FROM || DEFAULT_FROM;
+  const kind = process.env.MAIL_TRANSPORT || (process.env.SMTP_HOST ? 'smtp' : 'console');
+
+  switch (kind) {
+    case 'smtp':
+      return new SmtpTransport(from);
+    case 'file':
+      return new FileTransport(from, process.env.MAIL_OUTPUT_DIR || path.join(process.cwd(), 'tmp', 'mail'));
+    case 'console':
+      return new ConsoleTransport(from);
+    default:
+      throw new Error(`Unknown MAIL_TRANSPORT: ${kind}`);
+  }
+}
@@ -0,0 +1,279 @@
+import { PrismaClient, Prisma } from '@prisma/client';
+import { calculateFantasyPoints, ScoringSettings, StatLine } from '@fantasy-app/shared';
+import { sleeperAPIService as defaultSleeperAPI, SleeperAPIService, SleeperMatchup, SleeperPlayer } from './sleeper-api-service';
+import { playerService as defaultPlayerService, PlayerService } from './player-service';
+import { aiAgentClient as defaultAIAgentClient, AIAgentClient } from './ai-agent-client';
+
+const prisma = new PrismaClient();
+
+// Projections and lineups move during the week, so previews go stale
+const PREVIEW_TTL_MS = 6 * 60 * 60 * 1000;
+const NON_STARTING_SLOTS = new Set(['BN', 'IR', 'TAXI']);
+const EMPTY_SLOT = '0';
+
+export interface MatchupPreviewStarter {
+  playerId: string;
+  name: string;
+  position: string | null;
+  nflTeam: string | null;
+  slot: string;
+  projectedPoints: number;
+  injuryStatus: string | null;
+}
+
+export interface MatchupPreviewTeam {
+  rosterId: number;
+  teamName: string;
+  ownerName: string;
+  starters: MatchupPreviewStarter[];
+}
+
+export interface MatchupPreviewLineups {
+  leagueName: string;
+  week: number;
+  teams: [MatchupPreviewTeam, MatchupPreviewTeam];
+}
+
+// Written by the ai-service matchup preview agent
+export interface MatchupPreviewAnalysis {
+  teams: {
+    rosterId: number;
+    teamName: string;
+    projectedTotal: number;
+    stdDev: number;
+    winProbability: number;
+  }[];
+  favorite: string | null;
+  projectedMargin: number;
+  positionBattles: {
+    slot: string;
+    players: { name: string; position: string | null; projectedPoints: number }[][];
+    projectedPoints: [number, number];
+    edge: string | null;
+    margin: number;
+    stdDev: number;
+    decisive: boolean;
+  }[];
+  narrative: string;
+  keyFactors: string[];
+  provider: string | null; // null when the agent fell back to a narrative built from the numbers
+  model: string | null;
+  isFallback: boolean;
+  fallbackReason?: string;
+}
+
+export interface MatchupPreview {
+  id: string;
+  leagueId: string;
+  week: number;
+  matchupId: number;
+  viewerRosterId: number | null;
+  analysis: MatchupPreviewAnalysis;
+  createdAt: string;
+}
+
+export interface MatchupPreviewOptions {
+  week?: number; // Defaults to the week being played
+  refresh?: boolean;
+}
+
+type AnalysisRow = Prisma.AIAnalysisGetPayload<{}>;
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Builds both projected lineups for a manager's matchup and has the
+ * ai-service matchup preview agent analyze them. Previews are stored per
+ * matchup, so both managers see the same one.
+ */
+export class MatchupPreviewService {
+  private sleeperAPI: SleeperAPIService;
+  private prisma: PrismaClient;
+  private players: PlayerService;
+  private aiAgents: AIAgentClient;
+
+  constructor(
+    sleeperAPIService?: SleeperAPIService,
+    prismaClient?: PrismaClient,
+    playerServiceInstance?: PlayerService,
+    aiAgentClientInstance?: AIAgentClient
+  ) {
+    this.sleeperAPI = sleeperAPIService || defaultSleeperAPI;
+    this.prisma = prismaClient || prisma;
+    this.players = playerServiceInstance || defaultPlayerService;
+    this.aiAgents = aiAgentClientInstance || defaultAIAgentClient;
+  }
+
+  /**
+   * The preview of `userId`'s matchup, or null when they have no opponent
+   * that week. A stored preview is reused while it is fresh and neither
+   * lineup has changed.
+   */
+  async getPreview(leagueId: string, userId: string, options: MatchupPreviewOptions = {}): Promise<MatchupPreview | null> {
+    try {
+      const [league, user] = await Promise.all([
+        this.prisma.league.findUnique({ where: { id: leagueId } }),
+        this.prisma.user.findUnique({ where: { id: userId }, select: { sleeperUserId: true } }),
+      ]);
+      if (!league) {
+        throw new Error(`League not found for ID: ${leagueId}`);
+      }
+
+      const week = options.week ?? await this.getUpcomingWeek(league.season);
+      if (!week || !user?.sleeperUserId) {
+        return null;
+      }
+
+      const [rosters, matchups] = await Promise.all([
+        this.sleeperAPI.getLeagueRosters(league.sleeperLeagueId),
+        this.sleeperAPI.getLeagueMatchups(league.sleeperLeagueId, week),
+      ]);
+
+      const sleeperUserId = user.sleeperUserId;
+      const roster = rosters.find(entry =>
+        entry.owner_id === sleeperUserId ||
+        entry.co_owners?.includes(sleeperUserId)
+      );
+      const own = roster && (matchups || []).find(matchup => matchup.roster_id === roster.roster_id);
+      const opponent = own?.matchup_id
+        ? matchups.find(matchup => matchup.matchup_id === own.matchup_id && matchup.roster_id !== own.roster_id)
+        : undefined;
+      if (!own || !opponent) {
+        return null;
+      }
+
+      // Ordered by roster so both managers share one stored preview
+      const pair = [own, opponent].sort((a, b) => a.roster_id - b.roster_id) as [SleeperMatchup, SleeperMatchup];
+      const lineupKey = pair.map(matchup => (matchup.starters || []).join(',')).join('|');
+
+      if (!options.refresh) {
+        const existing = await this.findPreview(leagueId, week, own.matchup_id);
+        const metadata = existing?.metadata as { lineupKey?: string } | null;
+        if (existing && metadata?.lineupKey === lineupKey && Date.now() - existing.createdAt.getTime() < PREVIEW_TTL_MS) {
+          return this.toMatchupPreview(existing, roster.roster_id);
+        }
+      }
+
+      const lineups = await this.buildLineups(league.sleeperLeagueId, week, pair);
+      const startTime = Date.now();
+      const analysis = await this.aiAgents.post<MatchupPreviewAnalysis>('/ai/matchup-preview', lineups);
+
+      const row = await this.prisma.aIAnalysis.create({
+        data: {
+          userId,
+          leagueId,
+          analysisType: 'matchup_preview',
+          input: lineups as unknown as Prisma.InputJsonValue,
+          output: analysis as unknown as Prisma.InputJsonValue,
+          metadata: {
+            week,
+            matchupId: own.matchup_id,
+            lineupKey,
+            provider: analysis.provider,
+            model: analysis.model,
+            processingTime: Date.now() - startTime,
+          },
+        },
+      });
+
+      return this.toMatchupPreview(row, roster.roster_id);
+    } catch (error) {
+      console.error('Matchup preview failed:', error);
+      throw new Error(`Matchup preview failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  async buildLineups(sleeperLeagueId: string, week: number, pair: [SleeperMatchup, SleeperMatchup]): Promise<MatchupPreviewLineups> {
+    const [league, rosters, users] = await Promise.all([
+      this.sleeperAPI.getLeague(sleeperLeagueId),
+      this.sleeperAPI.getLeagueRosters(sleeperLeagueId),
+      this.sleeperAPI.getLeagueUsers(sleeperLeagueId),
+    ]);
+
+    const starterIds = pair.flatMap(matchup => (matchup.starters || []).filter(playerId => playerId !== EMPTY_SLOT));
+    const [projections, players] = await Promise.all([
+      this.sleeperAPI.getPlayerProjections('nfl', league.season, 'regular', week).then(data => data || {}),
+      starterIds.length > 0 ? this.players.getPlayers(starterIds) : Promise.resolve({}),
+    ]) as [{ [playerId: string]: StatLine }, { [playerId: string]: SleeperPlayer }];
+
+    const scoring: ScoringSettings = league.scoring_settings || {};
+    const slots = (league.roster_positions || []).filter(position => !NON_STARTING_SLOTS.has(position));
+    const userLookup = new Map(users.map(user => [user.user_id, user]));
+    const ownerByRoster = new Map(rosters.map(roster => [roster.roster_id, userLookup.get(roster.owner_id)]));
+
+    const teams = pair.map(matchup => {
+      const owner = ownerByRoster.get(matchup.roster_id);
+
+      const starters: MatchupPreviewStarter[] = (matchup.starters || []).map((playerId, index) => {
+        const player = players[playerId];
+        const slot = slots[index] || 'FLEX';
+        if (playerId === EMPTY_SLOT || !player) {
+          return { playerId, name: 'Empty', position: null, nflTeam: null, slot, projectedPoints: 0, injuryStatus: null };
+        }
+
+        const projection = projections[playerId];
+        return {
+          playerId,
+          name: player.full_name || `${player.first_name} ${player.last_name}`.trim(),
+          position: player.position || null,
+          nflTeam: player.team || null,
+          slot,
+          // No team means no game this week
+          projectedPoints: projection && player.team ? round(calculateFantasyPoints(projection, scoring, player.position)) : 0,
+          injuryStatus: player.injury_status || null,
+        };
+      });
+
+      return {
+        rosterId: matchup.roster_id,
+        teamName: owner?.metadata?.team_name || owner?.display_name || `Team ${matchup.roster_id}`,
+        ownerName: owner?.display_name || 'Unknown',
+        starters,
+      };
+    });
+
+    return { leagueName: league.name, week, teams: [teams[0], teams[1]] };
+  }
+
+  private async getUpcomingWeek(season: number): Promise<number | null> {
+    const nflState = await this.sleeperAPI.getNFLState();
+    if (season !== parseInt(nflState.season)) {
+      return null;
+    }
+    if (nflState.season_type === 'pre') {
+      return 1;
+    }
+    return nflState.season_type === 'regular' ? nflState.week : null;
+  }
+
+  // Fallback previews are never reused, so a failed run is retried on the next request
+  private findPreview(leagueId: string, week: number, matchupId: number): Promise<AnalysisRow | null> {
+    return this.prisma.aIAnalysis.findFirst({
+      where: {
+        leagueId,
+        analysisType: 'matchup_preview',
+        AND: [
+          { metadata: { path: ['week'], equals: week } },
+          { metadata: { path: ['matchupId'], equals: matchupId } },
+          { output: { path: ['isFallback'], equals: false } },
+        ],
+      },
+      orderBy: { createdAt: 'desc' },
+    });
+  }
+
+  private toMatchupPreview(row: AnalysisRow, viewerRosterId: number | null): MatchupPreview {
+    const metadata = row.metadata as { week: number; matchupId: number };
+    return {
+      id: row.id,
+      leagueId: row.leagueId as string,
+      week: metadata.week,
+      matchupId: metadata.matchupId,
+      viewerRosterId,
+      analysis: row.output as unknown as MatchupPreviewAnalysis,
+      createdAt: row.createdAt.toISOString(),
+    };
+  }
+}
+
+export const matchupPreviewService = new MatchupPreviewService();
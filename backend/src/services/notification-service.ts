@@ -0,0 +1,252 @@
+import { PrismaClient, Prisma } from '@prisma/client';
+import type { Notification, NotificationSettings, Pagination } from '@fantasy-app/shared';
+import { realtimeGateway as defaultRealtimeGateway, RealtimeGateway } from './realtime-gateway';
+import { emailService as defaultEmailService, EmailService, shouldEmail } from './email-service';
+
+const prisma = new PrismaClient();
+
+export const DEFAULT_NOTIFICATION_PAGE_SIZE = 20;
+export const MAX_NOTIFICATION_PAGE_SIZE = 50;
+
+export type NotificationType = Notification['type'];
+export type NotificationPriority = Notification['priority'];
+
+// Matches the defaults in UserSchema, for users who never saved preferences
+export const DEFAULT_NOTIFICATION_SETTINGS: NotificationSettings = {
+  email: true,
+  push: true,
+  weeklyReport: true,
+  tradeAlerts: true,
+  weeklyReportEmail: true,
+  tradeAlertEmail: true,
+};
+
+// Types the user can switch off entirely; everything else is always stored
+const TYPE_SETTINGS: Partial<Record<NotificationType, keyof NotificationSettings>> = {
+  weekly_report: 'weeklyReport',
+  trade_offer: 'tradeAlerts',
+};
+
+export interface NotificationInput {
+  type: NotificationType;
+  title: string;
+  message: string;
+  actionUrl?: string;
+  priority?: NotificationPriority;
+  expiresAt?: Date;
+}
+
+export interface UserNotification {
+  id: string;
+  type: NotificationType;
+  title: string;
+  message: string;
+  actionUrl: string | null;
+  read: boolean;
+  priority: NotificationPriority;
+  createdAt: string;
+  expiresAt: string | null;
+}
+
+export interface NotificationPage {
+  items: UserNotification[]; // Newest first
+  pagination: Pagination;
+  unreadCount: number;
+}
+
+export class NotificationNotFoundError extends Error {
+  constructor(id: string) {
+    super(`Notification ${id} not found`);
+    this.name = 'NotificationNotFoundError';
+  }
+}
+
+type NotificationRow = Prisma.NotificationGetPayload<{}>;
+
+export class NotificationService {
+  private prisma: PrismaClient;
+  private realtime: RealtimeGateway;
+  private email: EmailService;
+
+  constructor(prismaClient?: PrismaClient, realtimeGatewayInstance?: RealtimeGateway, emailServiceInstance?: EmailService) {
+    this.prisma = prismaClient || prisma;
+    this.realtime = realtimeGatewayInstance || defaultRealtimeGateway;
+    this.email = emailServiceInstance || defaultEmailService;
+  }
+
+  async getNotificationSettings(userId: string): Promise<NotificationSettings> {
+    const user = await this.prisma.user.findUnique({
+      where: { id: userId },
+      select: { preferences: true },
+    });
+    const preferences = user?.preferences as { notificationSettings?: Partial<NotificationSettings> } | null;
+
+    return { ...DEFAULT_NOTIFICATION_SETTINGS, ...(preferences?.notificationSettings || {}) };
+  }
+
+  /**
+   * Saves the given notification switches, leaving the user's other
+   * preferences untouched, and returns the full resulting settings.
+   */
+  async updateNotificationSettings(userId: string, changes: Partial<NotificationSettings>): Promise<NotificationSettings> {
+    const user = await this.prisma.user.findUnique({
+      where: { id: userId },
+      select: { preferences: true },
+    });
+    const preferences = (user?.preferences || {}) as { notificationSettings?: Partial<NotificationSettings> };
+    const notificationSettings = { ...DEFAULT_NOTIFICATION_SETTINGS, ...(preferences.notificationSettings || {}), ...changes };
+
+    await this.prisma.user.update({
+      where: { id: userId },
+      data: { preferences: { ...preferences, notificationSettings } as Prisma.InputJsonValue },
+    });
+    return notificationSettings;
+  }
+
+  /**
+   * Stores a notification unless the user has switched its type off, pushes
+   * it to their open sessions when push is on and emails it when email is on
+   * and the type has a template. Returns null when the user's settings
+   * suppressed it.
+   */
+  async notify(userId: string, input: NotificationInput): Promise<UserNotification | null> {
+    const settings = await this.getNotificationSettings(userId);
+    const requiredSetting = TYPE_SETTINGS[input.type];
+    if (requiredSetting && !settings[requiredSetting]) {
+      return null;
+    }
+
+    const row = await this.prisma.notification.create({
+      data: {
+        userId,
+        type: input.type,
+        title: input.title,
+        message: input.message,
+        actionUrl: input.actionUrl,
+        priority: input.priority || 'medium',
+        expiresAt: input.expiresAt,
+      },
+    });
+
+    const notification = this.toUserNotification(row);
+    if (settings.push) {
+      await this.realtime.publishToUser(userId, 'notification', notification);
+    }
+    if (shouldEmail(input.type, settings)) {
+      await this.sendEmail(userId, notification);
+    }
+    return notification;
+  }
+
+  async getNotifications(
+    userId: string,
+    options: { page?: number; limit?: number; unreadOnly?: boolean } = {}
+  ): Promise<NotificationPage> {
+    const page = Math.max(options.page || 1, 1);
+    const limit = Math.min(Math.max(options.limit || DEFAULT_NOTIFICATION_PAGE_SIZE, 1), MAX_NOTIFICATION_PAGE_SIZE);
+    const visible = this.visibleWhere(userId);
+    const where = options.unreadOnly ? { ...visible, read: false } : visible;
+
+    const [rows, total, unreadCount] = await Promise.all([
+      this.prisma.notification.findMany({
+        where,
+        orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+        skip: (page - 1) * limit,
+        take: limit,
+      }),
+      this.prisma.notification.count({ where }),
+      this.prisma.notification.count({ where: { ...visible, read: false } }),
+    ]);
+
+    const totalPages = Math.ceil(total / limit);
+
+    return {
+      items: rows.map(row => this.toUserNotification(row)),
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages,
+        hasNext: page < totalPages,
+        hasPrev: page > 1,
+      },
+      unreadCount,
+    };
+  }
+
+  async markRead(userId: string, id: string): Promise<UserNotification> {
+    await this.findOwned(userId, id);
+    const row = await this.prisma.notification.update({
+      where: { id },
+      data: { read: true },
+    });
+    return this.toUserNotification(row);
+  }
+
+  async markAllRead(userId: string): Promise<{ updated: number }> {
+    const { count } = await this.prisma.notification.updateMany({
+      where: { userId, read: false },
+      data: { read: true },
+    });
+    return { updated: count };
+  }
+
+  async deleteNotification(userId: string, id: string): Promise<void> {
+    await this.findOwned(userId, id);
+    await this.prisma.notification.delete({ where: { id } });
+  }
+
+  async deleteExpired(now = new Date()): Promise<{ deleted: number }> {
+    const { count } = await this.prisma.notification.deleteMany({
+      where: { expiresAt: { lt: now } },
+    });
+    return { deleted: count };
+  }
+
+  // The notification is already stored, so a failed email never fails notify
+  private async sendEmail(userId: string, notification: UserNotification): Promise<void> {
+    try {
+      const user = await this.prisma.user.findUnique({
+        where: { id: userId },
+        select: { id: true, email: true, displayName: true },
+      });
+      if (user) {
+        await this.email.sendNotificationEmail(user, notification);
+      }
+    } catch (error) {
+      console.error(`Notification email for ${userId} failed:`, error);
+    }
+  }
+
+  // Other users' notifications look the same as missing ones
+  private async findOwned(userId: string, id: string): Promise<NotificationRow> {
+    const row = await this.prisma.notification.findFirst({ where: { id, userId } });
+    if (!row) {
+      throw new NotificationNotFoundError(id);
+    }
+    return row;
+  }
+
+  private visibleWhere(userId: string): Prisma.NotificationWhereInput {
+    return {
+      userId,
+      OR: [{ expiresAt: null }, { expiresAt: { gt: new Date() } }],
+    };
+  }
+
+  private toUserNotification(row: NotificationRow): UserNotification {
+    return {
+      id: row.id,
+      type: row.type as NotificationType,
+      title: row.title,
+      message: row.message,
+      actionUrl: row.actionUrl,
+      read: row.read,
+      priority: row.priority as NotificationPriority,
+      createdAt: row.createdAt.toISOString(),
+      expiresAt: row.expiresAt?.toISOString() || null,
+    };
+  }
+}
+
+export const notificationService = new NotificationService();
@@ -0,0 +1,293 @@
+import { PrismaClient, Prisma, Player } from '@prisma/client';
+import { sleeperAPIService as defaultSleeperAPI, SleeperAPIService, SleeperPlayer } from './sleeper-api-service';
+
+const prisma = new PrismaClient();
+
+// Other instances pick up the nightly sync once their copy expires
+const CACHE_TTL_MS = 60 * 60 * 1000;
+const CREATE_BATCH_SIZE = 1000;
+const UPDATE_BATCH_SIZE = 200;
+
+// Sleeper fields kept in Player.metadata; everything else maps to a column
+const METADATA_FIELDS = [
+  'sport',
+  'active',
+  'number',
+  'injury_status',
+  'injury_body_part',
+  'injury_notes',
+  'injury_start_date',
+  'practice_participation',
+  'depth_chart_position',
+  'depth_chart_order',
+  'search_rank',
+  'college',
+  'height',
+  'weight',
+  'birth_date',
+  'news_updated',
+  'espn_id',
+  'yahoo_id',
+  'rotowire_id',
+] as const;
+
+export type PlayerChangeField = 'team' | 'status' | 'injury';
+
+export interface PlayerChange {
+  sleeperPlayerId: string;
+  fullName: string;
+  position: string;
+  field: PlayerChangeField;
+  previous: string | null;
+  current: string | null;
+}
+
+export interface PlayerSyncResult {
+  total: number;
+  created: number;
+  updated: number;
+  unchanged: number;
+  changes: PlayerChange[];
+  syncedAt: string;
+}
+
+type PlayerRow = Omit<Player, 'id'>;
+
+export class PlayerService {
+  private sleeperAPI: SleeperAPIService;
+  private prisma: PrismaClient;
+  private cache: { players: { [playerId: string]: SleeperPlayer }; loadedAt: number } | null = null;
+  private loading: Promise<{ [playerId: string]: SleeperPlayer }> | null = null;
+
+  constructor(sleeperAPIService?: SleeperAPIService, prismaClient?: PrismaClient) {
+    this.sleeperAPI = sleeperAPIService || defaultSleeperAPI;
+    this.prisma = prismaClient || prisma;
+  }
+
+  /**
+   * Every player keyed by Sleeper player ID, in the same shape as Sleeper's
+   * /players/nfl response. Served from memory, then the Player table; Sleeper
+   * is only contacted to seed an empty table.
+   */
+  async getAllPlayers(): Promise<{ [playerId: string]: SleeperPlayer }> {
+    if (this.cache && Date.now() - this.cache.loadedAt < CACHE_TTL_MS) {
+      return this.cache.players;
+    }
+
+    // Concurrent requests share a single load
+    if (!this.loading) {
+      this.loading = this.loadPlayers().finally(() => {
+        this.loading = null;
+      });
+    }
+
+    return this.loading;
+  }
+
+  async getPlayers(playerIds: string[]): Promise<{ [playerId: string]: SleeperPlayer }> {
+    const allPlayers = await this.getAllPlayers();
+    const players: { [playerId: string]: SleeperPlayer } = {};
+
+    playerIds.forEach(playerId => {
+      if (allPlayers[playerId]) {
+        players[playerId] = allPlayers[playerId];
+      }
+    });
+
+    return players;
+  }
+
+  /**
+   * Downloads the Sleeper player universe, writes new and changed players and
+   * reports team, status and injury changes against what was stored.
+   */
+  async syncPlayers(): Promise<PlayerSyncResult> {
+    try {
+      console.log('Syncing NFL players from Sleeper');
+      const sleeperPlayers = await this.sleeperAPI.getAllPlayers();
+      const incoming = Object.values(sleeperPlayers || {}).filter(player => player && player.player_id);
+
+      if (incoming.length === 0) {
+        throw new Error('Sleeper returned no players');
+      }
+
+      const existingRows = await this.prisma.player.findMany();
+      const existing = new Map(existingRows.map(row => [row.sleeperPlayerId, row]));
+
+      const creates: PlayerRow[] = [];
+      const updates: PlayerRow[] = [];
+      const changes: PlayerChange[] = [];
+
+      incoming.forEach(sleeperPlayer => {
+        const row = this.toPlayerRow(sleeperPlayer);
+        const stored = existing.get(row.sleeperPlayerId);
+
+        if (!stored) {
+          creates.push(row);
+          return;
+        }
+
+        if (!this.rowsEqual(stored, row)) {
+          updates.push(row);
+          changes.push(...this.diffPlayer(stored, row));
+        }
+      });
+
+      for (let i = 0; i < creates.length; i += CREATE_BATCH_SIZE) {
+        await this.prisma.player.createMany({
+          data: creates.slice(i, i + CREATE_BATCH_SIZE).map(row => this.toPrismaData(row)),
+          skipDuplicates: true,
+        });
+      }
+
+      for (let i = 0; i < updates.length; i += UPDATE_BATCH_SIZE) {
+        await this.prisma.$transaction(
+          updates.slice(i, i + UPDATE_BATCH_SIZE).map(row =>
+            this.prisma.player.update({
+              where: { sleeperPlayerId: row.sleeperPlayerId },
+              data: this.toPrismaData(row),
+            })
+          )
+        );
+      }
+
+      this.invalidateCache();
+
+      const result: PlayerSyncResult = {
+        total: incoming.length,
+        created: creates.length,
+        updated: updates.length,
+        unchanged: incoming.length - creates.length - updates.length,
+        changes,
+        syncedAt: new Date().toISOString(),
+      };
+
+      console.log(`Player sync complete: ${result.created} created, ${result.updated} updated, ${changes.length} changes`);
+      return result;
+    } catch (error) {
+      console.error('Player sync failed:', error);
+      throw new Error(`Player sync failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  invalidateCache(): void {
+    this.cache = null;
+  }
+
+  private async loadPlayers(): Promise<{ [playerId: string]: SleeperPlayer }> {
+    let rows = await this.prisma.player.findMany();
+
+    if (rows.length === 0) {
+      console.log('Player table is empty, seeding from Sleeper');
+      await this.syncPlayers();
+      rows = await this.prisma.player.findMany();
+    }
+
+    const players: { [playerId: string]: SleeperPlayer } = {};
+    rows.forEach(row => {
+      players[row.sleeperPlayerId] = this.toSleeperPlayer(row);
+    });
+
+    this.cache = { players, loadedAt: Date.now() };
+    return players;
+  }
+
+  private toPlayerRow(player: SleeperPlayer): PlayerRow {
+    const source = player as SleeperPlayer & { [field: string]: any };
+    const metadata: { [field: string]: any } = {};
+
+    METADATA_FIELDS.forEach(field => {
+      if (source[field] !== undefined && source[field] !== null) {
+        metadata[field] = source[field];
+      }
+    });
+
+    const firstName = player.first_name || '';
+    const lastName = player.last_name || '';
+
+    return {
+      sleeperPlayerId: player.player_id,
+      firstName,
+      lastName,
+      fullName: player.full_name || `${firstName} ${lastName}`.trim(),
+      position: player.position || '',
+      team: player.team || null,
+      age: player.age ?? null,
+      experience: player.years_exp ?? null,
+      status: player.status || 'Inactive',
+      fantasyPositions: player.fantasy_positions || [],
+      metadata,
+    };
+  }
+
+  private toSleeperPlayer(row: Player): SleeperPlayer {
+    return {
+      ...((row.metadata as Prisma.JsonObject) || {}),
+      player_id: row.sleeperPlayerId,
+      first_name: row.firstName,
+      last_name: row.lastName,
+      full_name: row.fullName,
+      position: row.position,
+      team: row.team as string,
+      age: row.age as number,
+      years_exp: row.experience as number,
+      status: row.status,
+      fantasy_positions: (row.fantasyPositions as string[]) || [],
+    } as SleeperPlayer;
+  }
+
+  private toPrismaData(row: PlayerRow) {
+    return {
+      ...row,
+      fantasyPositions: row.fantasyPositions as Prisma.InputJsonValue,
+      metadata: (row.metadata || {}) as Prisma.InputJsonValue,
+    };
+  }
+
+  private rowsEqual(stored: Player, incoming: PlayerRow): boolean {
+    const { id, ...storedRow } = stored;
+    return JSON.stringify(normalize(storedRow)) === JSON.stringify(normalize(incoming));
+  }
+
+  private diffPlayer(stored: Player, incoming: PlayerRow): PlayerChange[] {
+    const changes: PlayerChange[] = [];
+    const change = (field: PlayerChangeField, previous: string | null, current: string | null) => {
+      if (previous !== current) {
+        changes.push({
+          sleeperPlayerId: incoming.sleeperPlayerId,
+          fullName: incoming.fullName,
+          position: incoming.position,
+          field,
+          previous,
+          current,
+        });
+      }
+    };
+
+    change('team', stored.team, incoming.team);
+    change('status', stored.status, incoming.status);
+    change(
+      'injury',
+      ((stored.metadata as Prisma.JsonObject | null)?.injury_status as string) || null,
+      ((incoming.metadata as Prisma.JsonObject | null)?.injury_status as string) || null
+    );
+
+    return changes;
+  }
+}
+
+// Sorts object keys so JSON comparisons ignore key order
+function normalize(value: any): any {
+  if (Array.isArray(value)) {
+    return value.map(normalize);
+  }
+  if (value && typeof value === 'object') {
+    return Object.keys(value).sort().reduce((sorted: { [key: string]: any }, key) => {
+      sorted[key] = normalize(value[key]);
+      return sorted;
+    }, {});
+  }
+  return value;
+}
+
+export const playerService = new PlayerService();
@@ -0,0 +1,723 @@
+import { Prisma, PrismaClient } from '@prisma/client';
+import {
+  sleeperAPIService as defaultSleeperAPI,
+  SleeperAPIService,
+  SleeperLeague,
+  SleeperMatchup,
+  SleeperRoster,
+  SleeperUser,
+} from './sleeper-api-service';
+
+const prisma = new PrismaClient();
+
+export const MIN_SIMULATIONS = 10000;
+export const MAX_SIMULATIONS = 100000;
+
+const DEFAULT_PLAYOFF_TEAMS = 6;
+const DEFAULT_PLAYOFF_WEEK_START = 15;
+// Used before any games have been played
+const DEFAULT_SCORE_MEAN = 100;
+const DEFAULT_SCORE_SD = 20;
+// Weeks of league-average scoring blended into each team's distribution
+const SHRINKAGE_WEEKS = 2;
+
+export interface PlayoffOddsOptions {
+  simulations?: number;
+  refresh?: boolean;
+  seed?: number;
+}
+
+export interface TeamPlayoffOdds {
+  userId: string;
+  rosterId: number;
+  teamName: string;
+  record: {
+    wins: number;
+    losses: number;
+    ties: number;
+    pointsFor: number;
+  };
+  projectedWins: number;
+  averageSeed: number;
+  playoffOdds: number; // 0-1
+  byeOdds: number; // 0-1
+  champOdds: number; // 0-1
+  clinched: boolean;
+  eliminated: boolean;
+  scenarios: string[];
+  mustWin: string[];
+  help: string[];
+}
+
+export interface PlayoffOddsResult {
+  leagueId: string;
+  week: number; // First unplayed regular season week the odds are computed from
+  simulationRuns: number;
+  playoffTeams: number;
+  regularSeasonWeeks: number;
+  teams: TeamPlayoffOdds[];
+  generatedAt: string;
+}
+
+interface SimulationTeam {
+  rosterId: number;
+  userId: string;
+  teamName: string;
+  division: number;
+  wins: number; // Ties count as half a win
+  losses: number;
+  ties: number;
+  pointsFor: number;
+  scoreMean: number;
+  scoreSd: number;
+}
+
+interface ScheduledGame {
+  week: number;
+  home: number; // Index into teams
+  away: number;
+}
+
+export interface SeasonContext {
+  league: SleeperLeague;
+  teams: SimulationTeam[];
+  remainingGames: ScheduledGame[];
+  remainingWeeks: number[];
+  playoffTeams: number;
+  regularSeasonWeeks: number;
+  medianGame: boolean;
+  twoWeekChampionship: boolean;
+  twoWeekRounds: boolean;
+  divisions: number;
+}
+
+export class PlayoffOddsService {
+  private sleeperAPI: SleeperAPIService;
+  private prisma: PrismaClient;
+
+  constructor(sleeperAPIService?: SleeperAPIService, prismaClient?: PrismaClient) {
+    this.sleeperAPI = sleeperAPIService || defaultSleeperAPI;
+    this.prisma = prismaClient || prisma;
+  }
+
+  async getPlayoffOdds(
+    leagueId: string,
+    sleeperLeagueId: string,
+    options: PlayoffOddsOptions = {}
+  ): Promise<PlayoffOddsResult> {
+    try {
+      const simulations = Math.min(Math.max(options.simulations || MIN_SIMULATIONS, MIN_SIMULATIONS), MAX_SIMULATIONS);
+      const context = await this.loadSeasonContext(sleeperLeagueId);
+      const week = this.getAsOfWeek(context);
+
+      if (!options.refresh) {
+        const stored = await this.findStored(leagueId, week, context);
+        if (stored && stored.simulationRuns >= simulations) {
+          return stored;
+        }
+      }
+
+      console.log(`Simulating ${simulations} seasons for league ${sleeperLeagueId} from week ${week}`);
+      const teams = this.simulate(context, simulations, options.seed);
+
+      const stored = await this.prisma.playoffScenario.upsert({
+        where: { leagueId_week: { leagueId, week } },
+        create: {
+          leagueId,
+          week,
+          scenarios: teams as unknown as Prisma.InputJsonValue,
+          simulationRuns: simulations,
+        },
+        update: {
+          scenarios: teams as unknown as Prisma.InputJsonValue,
+          simulationRuns: simulations,
+          createdAt: new Date(),
+        },
+      });
+
+      return {
+        leagueId,
+        week,
+        simulationRuns: simulations,
+        playoffTeams: context.playoffTeams,
+        regularSeasonWeeks: context.regularSeasonWeeks,
+        teams,
+        generatedAt: stored.createdAt.toISOString(),
+      };
+    } catch (error) {
+      console.error('Playoff odds simulation failed:', error);
+      throw new Error(`Playoff odds simulation failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * The odds last stored for the current week, or null if none have been
+   * simulated yet. Never runs a simulation, so it is safe for anonymous callers,
+   * and only reads the league settings and NFL week rather than the full season.
+   */
+  async getStoredPlayoffOdds(leagueId: string, sleeperLeagueId: string): Promise<PlayoffOddsResult | null> {
+    try {
+      const [league, nflState] = await Promise.all([
+        this.sleeperAPI.getLeague(sleeperLeagueId),
+        this.sleeperAPI.getNFLState(),
+      ]);
+      const regularSeasonWeeks = this.getRegularSeasonWeeks(league);
+      const week = this.getCompletedWeeks(league, nflState, regularSeasonWeeks) + 1;
+
+      return await this.findStored(leagueId, week, {
+        playoffTeams: this.getPlayoffTeams(league, league.total_rosters),
+        regularSeasonWeeks,
+      });
+    } catch (error) {
+      console.error('Loading stored playoff odds failed:', error);
+      throw new Error(`Loading stored playoff odds failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  private async findStored(
+    leagueId: string,
+    week: number,
+    season: Pick<SeasonContext, 'playoffTeams' | 'regularSeasonWeeks'>
+  ): Promise<PlayoffOddsResult | null> {
+    const stored = await this.prisma.playoffScenario.findUnique({
+      where: { leagueId_week: { leagueId, week } },
+    });
+    if (!stored) {
+      return null;
+    }
+
+    return {
+      leagueId,
+      week,
+      simulationRuns: stored.simulationRuns,
+      playoffTeams: season.playoffTeams,
+      regularSeasonWeeks: season.regularSeasonWeeks,
+      teams: stored.scenarios as unknown as TeamPlayoffOdds[],
+      generatedAt: stored.createdAt.toISOString(),
+    };
+  }
+
+  async loadSeasonContext(sleeperLeagueId: string): Promise<SeasonContext> {
+    const [{ league, rosters, users }, nflState] = await Promise.all([
+      this.sleeperAPI.getLeagueDetailsBatch(sleeperLeagueId),
+      this.sleeperAPI.getNFLState(),
+    ]);
+
+    const settings = league.settings || {};
+    const regularSeasonWeeks = this.getRegularSeasonWeeks(league);
+    const completedWeeks = this.getCompletedWeeks(league, nflState, regularSeasonWeeks);
+
+    const weeks = Array.from({ length: regularSeasonWeeks }, (_, i) => i + 1);
+    const weeklyMatchups = await Promise.all(
+      weeks.map(week => this.sleeperAPI.getLeagueMatchups(sleeperLeagueId, week).catch(() => [] as SleeperMatchup[]))
+    );
+
+    const teams = this.buildTeams(rosters, users);
+    const indexByRoster = new Map(teams.map((team, index) => [team.rosterId, index]));
+
+    // Score samples from completed weeks drive each team's scoring distribution
+    const samples: number[][] = teams.map(() => []);
+    const remainingGames: ScheduledGame[] = [];
+
+    weeklyMatchups.forEach((matchups, weekIndex) => {
+      const week = weekIndex + 1;
+
+      if (week <= completedWeeks) {
+        matchups.forEach(matchup => {
+          const index = indexByRoster.get(matchup.roster_id);
+          const points = matchup.custom_points ?? matchup.points;
+          if (index !== undefined && points > 0) {
+            samples[index].push(points);
+          }
+        });
+        return;
+      }
+
+      const byMatchupId = new Map<number, number[]>();
+      matchups.forEach(matchup => {
+        const index = indexByRoster.get(matchup.roster_id);
+        if (index === undefined || !matchup.matchup_id) return;
+        byMatchupId.set(matchup.matchup_id, [...(byMatchupId.get(matchup.matchup_id) || []), index]);
+      });
+
+      Array.from(byMatchupId.keys()).sort((a, b) => a - b).forEach(matchupId => {
+        const pair = byMatchupId.get(matchupId)!;
+        if (pair.length === 2) {
+          remainingGames.push({ week, home: pair[0], away: pair[1] });
+        }
+      });
+    });
+
+    this.applyScoringDistributions(teams, samples);
+
+    return {
+      league,
+      teams,
+      remainingGames,
+      remainingWeeks: weeks.filter(week => week > completedWeeks),
+      playoffTeams: this.getPlayoffTeams(league, teams.length),
+      regularSeasonWeeks,
+      medianGame: settings.league_average_match === 1,
+      twoWeekChampionship: settings.playoff_round_type === 1,
+      twoWeekRounds: settings.playoff_round_type === 2,
+      divisions: settings.divisions || 0,
+    };
+  }
+
+  /**
+   * Runs the remaining regular season and the playoff bracket `simulations`
+   * times and summarizes each team's odds along with readable scenarios.
+   */
+  simulate(context: SeasonContext, simulations: number, seed?: number): TeamPlayoffOdds[] {
+    const { teams, remainingGames, playoffTeams } = context;
+    const random = createRandom(seed ?? Date.now());
+    const teamCount = teams.length;
+    const byeCount = nextPowerOfTwo(playoffTeams) - playoffTeams;
+
+    const nextWeek = context.remainingWeeks[0];
+    const nextWeekGames = remainingGames.filter(game => game.week === nextWeek);
+    const opponentNextWeek = new Map<number, number>();
+    nextWeekGames.forEach(game => {
+      opponentNextWeek.set(game.home, game.away);
+      opponentNextWeek.set(game.away, game.home);
+    });
+
+    const madePlayoffs = new Array(teamCount).fill(0);
+    const gotBye = new Array(teamCount).fill(0);
+    const wonTitle = new Array(teamCount).fill(0);
+    const totalWins = new Array(teamCount).fill(0);
+    const totalSeed = new Array(teamCount).fill(0);
+    // [team] -> made playoffs / runs, split by the team's own next-week result
+    const ifWin = teams.map(() => ({ made: 0, runs: 0 }));
+    const ifLoss = teams.map(() => ({ made: 0, runs: 0 }));
+    // [team][game][winner side] -> made playoffs / runs
+    const byGameResult = teams.map(() => nextWeekGames.map(() => [{ made: 0, runs: 0 }, { made: 0, runs: 0 }]));
+
+    const wins = new Float64Array(teamCount);
+    const pointsFor = new Float64Array(teamCount);
+    const scores = new Float64Array(teamCount);
+    const nextWeekWinners: number[] = new Array(nextWeekGames.length);
+    const gamesByWeek = new Map(context.remainingWeeks.map(week => [
+      week,
+      remainingGames.filter(game => game.week === week),
+    ]));
+
+    for (let run = 0; run < simulations; run++) {
+      teams.forEach((team, index) => {
+        wins[index] = team.wins;
+        pointsFor[index] = team.pointsFor;
+      });
+
+      for (const week of context.remainingWeeks) {
+        for (let index = 0; index < teamCount; index++) {
+          scores[index] = sampleScore(random, teams[index]);
+        }
+
+        const playing = new Set<number>();
+        gamesByWeek.get(week)!.forEach((game, gameIndex) => {
+          const homeWins = scores[game.home] >= scores[game.away];
+          wins[homeWins ? game.home : game.away] += 1;
+          pointsFor[game.home] += scores[game.home];
+          pointsFor[game.away] += scores[game.away];
+          playing.add(game.home);
+          playing.add(game.away);
+
+          if (week === nextWeek) {
+            nextWeekWinners[gameIndex] = homeWins ? 0 : 1;
+          }
+        });
+
+        // Leagues with a median game award an extra win to the top half each week
+        if (context.medianGame && playing.size > 0) {
+          const ordered = Array.from(playing).sort((a, b) => scores[b] - scores[a]);
+          ordered.slice(0, Math.floor(ordered.length / 2)).forEach(index => {
+            wins[index] += 1;
+          });
+        }
+      }
+
+      const seeds = this.seedTeams(context, wins, pointsFor);
+      const playoffField = seeds.slice(0, playoffTeams);
+
+      playoffField.forEach((teamIndex, seedIndex) => {
+        madePlayoffs[teamIndex]++;
+        if (seedIndex < byeCount) gotBye[teamIndex]++;
+      });
+      seeds.forEach((teamIndex, seedIndex) => {
+        totalSeed[teamIndex] += seedIndex + 1;
+        totalWins[teamIndex] += wins[teamIndex];
+      });
+
+      wonTitle[this.simulateBracket(context, playoffField, random)]++;
+
+      if (nextWeekGames.length > 0) {
+        const inPlayoffs = new Set(playoffField);
+        nextWeekGames.forEach((game, gameIndex) => {
+          const winner = nextWeekWinners[gameIndex] === 0 ? game.home : game.away;
+          const loser = winner === game.home ? game.away : game.home;
+          ifWin[winner].runs++;
+          ifLoss[loser].runs++;
+          if (inPlayoffs.has(winner)) ifWin[winner].made++;
+          if (inPlayoffs.has(loser)) ifLoss[loser].made++;
+
+          for (let index = 0; index < teamCount; index++) {
+            const bucket = byGameResult[index][gameIndex][nextWeekWinners[gameIndex]];
+            bucket.runs++;
+            if (inPlayoffs.has(index)) bucket.made++;
+          }
+        });
+      }
+    }
+
+    const certainty = this.getMathematicalCertainty(context);
+
+    return teams
+      .map((team, index) => {
+        const playoffOdds = madePlayoffs[index] / simulations;
+        const odds: TeamPlayoffOdds = {
+          userId: team.userId,
+          rosterId: team.rosterId,
+          teamName: team.teamName,
+          record: {
+            wins: Math.round(team.wins - team.ties * 0.5),
+            losses: team.losses,
+            ties: team.ties,
+            pointsFor: round(team.pointsFor, 2),
+          },
+          projectedWins: round(totalWins[index] / simulations, 1),
+          averageSeed: round(totalSeed[index] / simulations, 1),
+          playoffOdds: round(playoffOdds, 4),
+          byeOdds: round(gotBye[index] / simulations, 4),
+          champOdds: round(wonTitle[index] / simulations, 4),
+          clinched: certainty.clinched[index] || (context.remainingGames.length === 0 && playoffOdds === 1),
+          eliminated: certainty.eliminated[index] || (context.remainingGames.length === 0 && playoffOdds === 0),
+          scenarios: [],
+          mustWin: [],
+          help: [],
+        };
+
+        this.describeScenarios(odds, {
+          context,
+          index,
+          nextWeek,
+          opponent: opponentNextWeek.get(index),
+          ifWin: ifWin[index],
+          ifLoss: ifLoss[index],
+          nextWeekGames,
+          byGameResult: byGameResult[index],
+        });
+
+        return odds;
+      })
+      .sort((a, b) => b.playoffOdds - a.playoffOdds || b.champOdds - a.champOdds || a.averageSeed - b.averageSeed);
+  }
+
+  // Orders teams by record then points for (Sleeper's tiebreaker); division
+  // winners are seeded ahead of wild cards when the league has divisions.
+  private seedTeams(context: SeasonContext, wins: Float64Array, pointsFor: Float64Array): number[] {
+    const ordered = context.teams
+      .map((_, index) => index)
+      .sort((a, b) =>
+        wins[b] - wins[a] ||
+        pointsFor[b] - pointsFor[a] ||
+        context.teams[a].rosterId - context.teams[b].rosterId
+      );
+
+    if (context.divisions <= 1) {
+      return ordered;
+    }
+
+    const divisionWinners: number[] = [];
+    const seen = new Set<number>();
+    ordered.forEach(index => {
+      const division = context.teams[index].division;
+      if (division && !seen.has(division)) {
+        seen.add(division);
+        divisionWinners.push(index);
+      }
+    });
+
+    return [...divisionWinners, ...ordered.filter(index => !divisionWinners.includes(index))];
+  }
+
+  private simulateBracket(context: SeasonContext, playoffField: number[], random: () => number): number {
+    const size = nextPowerOfTwo(playoffField.length);
+    let round: Array<number | null> = bracketOrder(size).map(seed => playoffField[seed - 1] ?? null);
+
+    while (round.length > 1) {
+      const isFinal = round.length === 2;
+      const weeks = context.twoWeekRounds || (isFinal && context.twoWeekChampionship) ? 2 : 1;
+      const next: Array<number | null> = [];
+
+      for (let i = 0; i < round.length; i += 2) {
+        const a = round[i];
+        const b = round[i + 1];
+        if (a === null || b === null) {
+          next.push(a ?? b);
+          continue;
+        }
+
+        let scoreA = 0;
+        let scoreB = 0;
+        for (let week = 0; week < weeks; week++) {
+          scoreA += sampleScore(random, context.teams[a]);
+          scoreB += sampleScore(random, context.teams[b]);
+        }
+        next.push(scoreA >= scoreB ? a : b);
+      }
+
+      round = next;
+    }
+
+    return round[0] as number;
+  }
+
+  /**
+   * Exact clinch/elimination checks based on wins alone. Points-for
+   * tiebreakers are never assumed, so a team is only marked clinched or
+   * eliminated when no combination of results can change it. Divisions make
+   * this check unreliable, so it is skipped for divisional leagues.
+   */
+  private getMathematicalCertainty(context: SeasonContext): { clinched: boolean[]; eliminated: boolean[] } {
+    const { teams, remainingGames, playoffTeams } = context;
+    const clinched = teams.map(() => false);
+    const eliminated = teams.map(() => false);
+
+    if (context.divisions > 1 || playoffTeams >= teams.length) {
+      return { clinched: teams.map(() => playoffTeams >= teams.length), eliminated };
+    }
+
+    const gamesLeft = teams.map(() => 0);
+    remainingGames.forEach(game => {
+      gamesLeft[game.home]++;
+      gamesLeft[game.away]++;
+    });
+    if (context.medianGame) {
+      teams.forEach((_, index) => {
+        gamesLeft[index] += context.remainingWeeks.length;
+      });
+    }
+
+    teams.forEach((team, index) => {
+      const maxWins = team.wins + gamesLeft[index];
+      const guaranteedAhead = teams.filter((other, otherIndex) => otherIndex !== index && other.wins > maxWins).length;
+      const couldFinishAhead = teams.filter((other, otherIndex) =>
+        otherIndex !== index && other.wins + gamesLeft[otherIndex] >= team.wins
+      ).length;
+
+      eliminated[index] = guaranteedAhead >= playoffTeams;
+      clinched[index] = couldFinishAhead < playoffTeams;
+    });
+
+    return { clinched, eliminated };
+  }
+
+  private describeScenarios(
+    odds: TeamPlayoffOdds,
+    details: {
+      context: SeasonContext;
+      index: number;
+      nextWeek?: number;
+      opponent?: number;
+      ifWin: { made: number; runs: number };
+      ifLoss: { made: number; runs: number };
+      nextWeekGames: ScheduledGame[];
+      byGameResult: Array<Array<{ made: number; runs: number }>>;
+    }
+  ): void {
+    const { context, index, nextWeek, opponent } = details;
+    const teamName = (teamIndex: number) => context.teams[teamIndex].teamName;
+
+    if (odds.clinched) {
+      odds.scenarios.push('Clinched a playoff spot');
+    } else if (odds.eliminated) {
+      odds.scenarios.push('Eliminated from playoff contention');
+    }
+
+    if (context.remainingGames.length > 0) {
+      odds.scenarios.push(
+        `Projected to finish with ${odds.projectedWins} wins and an average seed of ${odds.averageSeed}`
+      );
+    }
+
+    if (odds.clinched || odds.eliminated || nextWeek === undefined || opponent === undefined) {
+      return;
+    }
+
+    const oddsWithWin = rate(details.ifWin);
+    const oddsWithLoss = rate(details.ifLoss);
+    const opponentName = teamName(opponent);
+
+    odds.scenarios.push(
+      `With a win over ${opponentName} in week ${nextWeek}: ${formatPercent(oddsWithWin)} playoff odds; with a loss: ${formatPercent(oddsWithLoss)}`
+    );
+
+    if (details.ifWin.runs > 0 && oddsWithWin === 1) {
+      odds.scenarios.push(`Clinches a playoff spot with a win over ${opponentName} in week ${nextWeek} in every simulation`);
+    }
+    if (details.ifLoss.runs > 0 && oddsWithLoss === 0 && oddsWithWin > 0) {
+      odds.scenarios.push(`A loss to ${opponentName} in week ${nextWeek} ends their playoff hopes in every simulation`);
+      odds.mustWin.push(`Beat ${opponentName} in week ${nextWeek}`);
+    }
+
+    // Other games next week whose result moves this team's odds the most
+    details.nextWeekGames
+      .map((game, gameIndex) => {
+        if (game.home === index || game.away === index) return null;
+        const [homeWins, awayWins] = details.byGameResult[gameIndex];
+        if (homeWins.runs === 0 || awayWins.runs === 0) return null;
+        const swing = rate(homeWins) - rate(awayWins);
+        return {
+          favored: swing >= 0 ? game.home : game.away,
+          against: swing >= 0 ? game.away : game.home,
+          swing: Math.abs(swing),
+        };
+      })
+      .filter((outcome): outcome is { favored: number; against: number; swing: number } =>
+        outcome !== null && outcome.swing >= 0.02
+      )
+      .sort((a, b) => b.swing - a.swing)
+      .slice(0, 3)
+      .forEach(outcome => {
+        odds.help.push(
+          `${teamName(outcome.favored)} beating ${teamName(outcome.against)} in week ${nextWeek} (${formatPercent(outcome.swing)} swing)`
+        );
+      });
+  }
+
+  private buildTeams(rosters: SleeperRoster[], users: SleeperUser[]): SimulationTeam[] {
+    const userLookup = new Map(users.map(user => [user.user_id, user]));
+
+    return rosters
+      .slice()
+      .sort((a, b) => a.roster_id - b.roster_id)
+      .map(roster => {
+        const owner = userLookup.get(roster.owner_id);
+        const settings: any = roster.settings || {};
+        const ties = settings.ties || 0;
+
+        return {
+          rosterId: roster.roster_id,
+          userId: roster.owner_id,
+          teamName: owner?.metadata?.team_name || owner?.display_name || `Team ${roster.roster_id}`,
+          division: settings.division || 0,
+          wins: (settings.wins || 0) + ties * 0.5,
+          losses: settings.losses || 0,
+          ties,
+          pointsFor: (settings.fpts || 0) + (settings.fpts_decimal || 0) / 100,
+          scoreMean: DEFAULT_SCORE_MEAN,
+          scoreSd: DEFAULT_SCORE_SD,
+        };
+      });
+  }
+
+  private applyScoringDistributions(teams: SimulationTeam[], samples: number[][]): void {
+    const allScores = samples.flat();
+    if (allScores.length === 0) {
+      return;
+    }
+
+    const leagueMean = mean(allScores);
+    const leagueVariance = variance(allScores, leagueMean) || DEFAULT_SCORE_SD ** 2;
+
+    teams.forEach((team, index) => {
+      const teamScores = samples[index];
+      const n = teamScores.length;
+      const teamMean = n > 0 ? mean(teamScores) : leagueMean;
+      const teamVariance = n > 1 ? variance(teamScores, teamMean) : leagueVariance;
+
+      // Shrink small samples toward the league so two hot weeks don't dominate
+      team.scoreMean = (n * teamMean + SHRINKAGE_WEEKS * leagueMean) / (n + SHRINKAGE_WEEKS);
+      team.scoreSd = Math.sqrt((n * teamVariance + SHRINKAGE_WEEKS * leagueVariance) / (n + SHRINKAGE_WEEKS));
+    });
+  }
+
+  private getRegularSeasonWeeks(league: SleeperLeague): number {
+    return Math.max((league.settings?.playoff_week_start || DEFAULT_PLAYOFF_WEEK_START) - 1, 1);
+  }
+
+  private getPlayoffTeams(league: SleeperLeague, teamCount: number): number {
+    return Math.min(league.settings?.playoff_teams || DEFAULT_PLAYOFF_TEAMS, teamCount);
+  }
+
+  private getCompletedWeeks(
+    league: SleeperLeague,
+    nflState: { week: number; season: string; season_type: string },
+    regularSeasonWeeks: number
+  ): number {
+    if (league.status === 'complete' || parseInt(league.season) < parseInt(nflState.season)) {
+      return regularSeasonWeeks;
+    }
+    if (league.status === 'pre_draft' || league.status === 'drafting' || nflState.season_type === 'pre') {
+      return 0;
+    }
+    if (nflState.season_type === 'post') {
+      return regularSeasonWeeks;
+    }
+    return Math.min(Math.max(nflState.week - 1, 0), regularSeasonWeeks);
+  }
+
+  private getAsOfWeek(context: SeasonContext): number {
+    return context.remainingWeeks[0] ?? context.regularSeasonWeeks + 1;
+  }
+}
+
+// Seeded PRNG (mulberry32) so simulations can be reproduced
+function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function sampleScore(random: () => number, team: SimulationTeam): number {
+  // Box-Muller transform
+  const u = 1 - random();
+  const v = random();
+  const z = Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
+  return Math.max(0, team.scoreMean + z * team.scoreSd);
+}
+
+// Standard bracket slot order, e.g. 8 -> [1, 8, 4, 5, 2, 7, 3, 6]
+function bracketOrder(size: number): number[] {
+  let order = [1];
+  while (order.length < size) {
+    const total = order.length * 2 + 1;
+    order = order.flatMap(seed => [seed, total - seed]);
+  }
+  return order;
+}
+
+function nextPowerOfTwo(value: number): number {
+  let power = 1;
+  while (power < value) power *= 2;
+  return power;
+}
+
+function mean(values: number[]): number {
+  return values.reduce((sum, value) => sum + value, 0) / values.length;
+}
+
+function variance(values: number[], average: number): number {
+  if (values.length < 2) return 0;
+  return values.reduce((sum, value) => sum + (value - average) ** 2, 0) / (values.length - 1);
+}
+
+function rate(bucket: { made: number; runs: number }): number {
+  return bucket.runs > 0 ? bucket.made / bucket.runs : 0;
+}
+
+function round(value: number, decimals: number): number {
+  const factor = 10 ** decimals;
+  return Math.round(value * factor) / factor;
+}
+
+function formatPercent(value: number): string {
+  return `${round(value * 100, 1)}%`;
+}
+
+export const playoffOddsService = new PlayoffOddsService();
@@ -0,0 +1,613 @@
+import { Prisma, PrismaClient } from '@prisma/client';
+import { solveLineup } from '@fantasy-app/shared';
+import {
+  sleeperAPIService as defaultSleeperAPI,
+  SleeperAPIService,
+  SleeperLeague,
+  SleeperMatchup,
+  SleeperRoster,
+  SleeperUser,
+} from './sleeper-api-service';
+import { aiService as defaultAIService, AIService } from './ai-service';
+import { playerService as defaultPlayerService, PlayerService } from './player-service';
+
+const prisma = new PrismaClient();
+
+const DEFAULT_PLAYOFF_WEEK_START = 15;
+// Number of most recent weeks that make up "recent form"
+const RECENT_FORM_WEEKS = 3;
+
+export const POWER_RANKING_WEIGHTS = {
+  allPlay: 0.35,
+  pointsFor: 0.2,
+  recentForm: 0.2,
+  rosterStrength: 0.15,
+  scheduleLuck: 0.1,
+} as const;
+
+export type PowerRankingComponent = keyof typeof POWER_RANKING_WEIGHTS;
+
+export const POWER_RANKING_METHODOLOGY =
+  'Each team receives a 0-100 score per component, scaled between the lowest and highest team in the league, ' +
+  'and the final score is a weighted blend: all-play record 35%, points for per game 20%, ' +
+  `last ${RECENT_FORM_WEEKS} weeks scoring 20%, roster strength 15% and schedule luck 10%. ` +
+  'Roster strength sums the season averages of the best players on the roster that week, one per starting slot. ' +
+  'Schedule luck rewards teams whose actual wins trail their all-play expected wins.';
+
+export interface PowerRankingOptions {
+  week?: number;
+  refresh?: boolean;
+  includeBlurbs?: boolean;
+}
+
+export interface PowerRankingMetrics {
+  record: {
+    wins: number;
+    losses: number;
+    ties: number;
+  };
+  allPlay: {
+    wins: number;
+    losses: number;
+    ties: number;
+    winPct: number;
+  };
+  pointsForPerGame: number;
+  recentAverage: number;
+  rosterStrength: number;
+  expectedWins: number;
+  scheduleLuck: number; // Actual wins minus all-play expected wins
+}
+
+export interface TeamPowerRanking {
+  userId: string;
+  rosterId: number;
+  teamName: string;
+  rank: number;
+  previousRank: number | null;
+  score: number;
+  trend: 'up' | 'down' | 'stable';
+  analysis: string;
+  components: Record<PowerRankingComponent, number>;
+  metrics: PowerRankingMetrics;
+}
+
+export interface PowerRankingResult {
+  leagueId: string;
+  week: number;
+  rankings: TeamPowerRanking[];
+  methodology: string;
+  generatedAt: string;
+}
+
+export interface PowerRankingHistory {
+  leagueId: string;
+  teams: { userId: string; rosterId: number; teamName: string }[];
+  weeks: { week: number; ranks: Record<string, number> }[];
+}
+
+interface RankingTeam {
+  rosterId: number;
+  userId: string;
+  teamName: string;
+}
+
+export interface RankingContext {
+  league: SleeperLeague;
+  teams: RankingTeam[];
+  completedWeeks: number;
+  weeklyMatchups: SleeperMatchup[][]; // Index 0 is week 1
+  playerPositions: Map<string, string[]>; // Fantasy positions of every player in those matchups
+}
+
+export class PowerRankingsService {
+  private sleeperAPI: SleeperAPIService;
+  private prisma: PrismaClient;
+  private aiService: AIService;
+  private players: PlayerService;
+
+  constructor(
+    sleeperAPIService?: SleeperAPIService,
+    prismaClient?: PrismaClient,
+    aiServiceInstance?: AIService,
+    playerServiceInstance?: PlayerService
+  ) {
+    this.sleeperAPI = sleeperAPIService || defaultSleeperAPI;
+    this.prisma = prismaClient || prisma;
+    this.aiService = aiServiceInstance || defaultAIService;
+    this.players = playerServiceInstance || defaultPlayerService;
+  }
+
+  getMethodology() {
+    return {
+      description: POWER_RANKING_METHODOLOGY,
+      weights: POWER_RANKING_WEIGHTS,
+      recentFormWeeks: RECENT_FORM_WEEKS,
+      components: {
+        allPlay: 'Record if the team had played every other team every week',
+        pointsFor: 'Average points scored per week',
+        recentForm: `Average points scored over the last ${RECENT_FORM_WEEKS} weeks`,
+        rosterStrength: 'Sum of the best player season averages on the roster, one per starting slot',
+        scheduleLuck: 'All-play expected wins minus actual wins; unlucky teams score higher',
+      },
+    };
+  }
+
+  /**
+   * Returns the power rankings after `week` (defaults to the last completed
+   * week), computing and storing them when missing. Returns null before any
+   * week has been completed or when the requested week has not been played.
+   */
+  async getPowerRankings(
+    leagueId: string,
+    sleeperLeagueId: string,
+    options: PowerRankingOptions = {}
+  ): Promise<PowerRankingResult | null> {
+    try {
+      const { league, completedWeeks } = await this.getSeasonProgress(sleeperLeagueId);
+      const week = options.week ?? completedWeeks;
+
+      if (week < 1 || week > completedWeeks) {
+        return null;
+      }
+
+      if (!options.refresh && !options.includeBlurbs) {
+        const stored = await this.prisma.powerRanking.findUnique({
+          where: { leagueId_week: { leagueId, week } },
+        });
+
+        if (stored) {
+          return {
+            leagueId,
+            week,
+            rankings: stored.rankings as unknown as TeamPowerRanking[],
+            methodology: stored.methodology,
+            generatedAt: stored.createdAt.toISOString(),
+          };
+        }
+      }
+
+      const context = await this.loadRankingContext(sleeperLeagueId, league, completedWeeks);
+      const rankings = this.computeRankings(context, week);
+
+      if (options.includeBlurbs) {
+        await this.addBlurbs(context.league, week, rankings);
+      }
+
+      return await this.storeRankings(leagueId, week, rankings);
+    } catch (error) {
+      console.error('Power rankings failed:', error);
+      throw new Error(`Power rankings failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Rank of every team after each completed week. Weeks that were never
+   * stored are computed and saved so the history only has to be built once.
+   */
+  async getRankingHistory(leagueId: string, sleeperLeagueId: string): Promise<PowerRankingHistory> {
+    try {
+      const { league, completedWeeks } = await this.getSeasonProgress(sleeperLeagueId);
+
+      const stored = await this.prisma.powerRanking.findMany({
+        where: { leagueId, week: { lte: completedWeeks } },
+        orderBy: { week: 'asc' },
+      });
+
+      const rankingsByWeek = new Map<number, TeamPowerRanking[]>(
+        stored.map(row => [row.week, row.rankings as unknown as TeamPowerRanking[]])
+      );
+
+      const missingWeeks = Array.from({ length: completedWeeks }, (_, i) => i + 1)
+        .filter(week => !rankingsByWeek.has(week));
+
+      let teams: RankingTeam[] = [];
+      if (missingWeeks.length > 0) {
+        const context = await this.loadRankingContext(sleeperLeagueId, league, completedWeeks);
+        teams = context.teams;
+
+        for (const week of missingWeeks) {
+          const result = await this.storeRankings(leagueId, week, this.computeRankings(context, week));
+          rankingsByWeek.set(week, result.rankings);
+        }
+      }
+
+      const weeks = Array.from(rankingsByWeek.keys()).sort((a, b) => a - b);
+      if (teams.length === 0 && weeks.length > 0) {
+        teams = rankingsByWeek.get(weeks[weeks.length - 1])!
+          .map(({ userId, rosterId, teamName }) => ({ userId, rosterId, teamName }))
+          .sort((a, b) => a.rosterId - b.rosterId);
+      }
+
+      return {
+        leagueId,
+        teams,
+        weeks: weeks.map(week => ({
+          week,
+          ranks: Object.fromEntries(rankingsByWeek.get(week)!.map(entry => [entry.userId, entry.rank])),
+        })),
+      };
+    } catch (error) {
+      console.error('Power ranking history failed:', error);
+      throw new Error(`Power ranking history failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Ranks every team using only games played through `week`, so past weeks can
+   * be recomputed without hindsight.
+   */
+  computeRankings(context: RankingContext, week: number): TeamPowerRanking[] {
+    const current = this.rankThroughWeek(context, week);
+    const previous = week > 1 ? this.rankThroughWeek(context, week - 1) : [];
+    const previousRanks = new Map(previous.map(entry => [entry.rosterId, entry.rank]));
+
+    return current.map(entry => {
+      const previousRank = previousRanks.get(entry.rosterId) ?? null;
+      const trend: TeamPowerRanking['trend'] = previousRank === null || previousRank === entry.rank
+        ? 'stable'
+        : previousRank > entry.rank ? 'up' : 'down';
+
+      return {
+        ...entry,
+        previousRank,
+        trend,
+        analysis: this.describeRanking(entry),
+      };
+    });
+  }
+
+  private rankThroughWeek(
+    context: RankingContext,
+    week: number
+  ): Omit<TeamPowerRanking, 'previousRank' | 'trend' | 'analysis'>[] {
+    const weeks = context.weeklyMatchups.slice(0, week);
+    const playerAverages = this.getPlayerAverages(weeks);
+
+    const metrics = context.teams.map(team => {
+      const record = { wins: 0, losses: 0, ties: 0 };
+      const allPlay = { wins: 0, losses: 0, ties: 0, winPct: 0 };
+      const scores: number[] = [];
+      let expectedWins = 0;
+      let latestPlayers: string[] = [];
+
+      weeks.forEach(matchups => {
+        const own = matchups.find(matchup => matchup.roster_id === team.rosterId);
+        if (!own) return;
+
+        const points = getPoints(own);
+        scores.push(points);
+        latestPlayers = own.players || latestPlayers;
+
+        const others = matchups.filter(matchup => matchup.roster_id !== team.rosterId).map(getPoints);
+        let weekWins = 0;
+        others.forEach(otherPoints => {
+          if (points > otherPoints) {
+            allPlay.wins++;
+            weekWins++;
+          } else if (points < otherPoints) {
+            allPlay.losses++;
+          } else {
+            allPlay.ties++;
+            weekWins += 0.5;
+          }
+        });
+        if (others.length > 0) {
+          expectedWins += weekWins / others.length;
+        }
+
+        const opponent = own.matchup_id
+          ? matchups.find(matchup => matchup.matchup_id === own.matchup_id && matchup.roster_id !== team.rosterId)
+          : undefined;
+        if (opponent) {
+          const opponentPoints = getPoints(opponent);
+          if (points > opponentPoints) record.wins++;
+          else if (points < opponentPoints) record.losses++;
+          else record.ties++;
+        }
+      });
+
+      const allPlayGames = allPlay.wins + allPlay.losses + allPlay.ties;
+      allPlay.winPct = allPlayGames > 0 ? round((allPlay.wins + allPlay.ties * 0.5) / allPlayGames, 3) : 0;
+
+      const rosterStrength = this.getRosterStrength(context, latestPlayers, playerAverages);
+
+      const teamMetrics: PowerRankingMetrics = {
+        record,
+        allPlay,
+        pointsForPerGame: round(average(scores)),
+        recentAverage: round(average(scores.slice(-RECENT_FORM_WEEKS))),
+        rosterStrength: round(rosterStrength),
+        expectedWins: round(expectedWins),
+        scheduleLuck: round(record.wins + record.ties * 0.5 - expectedWins),
+      };
+
+      return { team, metrics: teamMetrics };
+    });
+
+    const components = {
+      allPlay: scale(metrics.map(entry => entry.metrics.allPlay.winPct)),
+      pointsFor: scale(metrics.map(entry => entry.metrics.pointsForPerGame)),
+      recentForm: scale(metrics.map(entry => entry.metrics.recentAverage)),
+      rosterStrength: scale(metrics.map(entry => entry.metrics.rosterStrength)),
+      // Unlucky teams are better than their record suggests
+      scheduleLuck: scale(metrics.map(entry => -entry.metrics.scheduleLuck)),
+    };
+
+    return metrics
+      .map(({ team, metrics: teamMetrics }, index) => {
+        const teamComponents = {
+          allPlay: components.allPlay[index],
+          pointsFor: components.pointsFor[index],
+          recentForm: components.recentForm[index],
+          rosterStrength: components.rosterStrength[index],
+          scheduleLuck: components.scheduleLuck[index],
+        };
+        const score = (Object.keys(POWER_RANKING_WEIGHTS) as PowerRankingComponent[])
+          .reduce((sum, key) => sum + teamComponents[key] * POWER_RANKING_WEIGHTS[key], 0);
+
+        return {
+          userId: team.userId,
+          rosterId: team.rosterId,
+          teamName: team.teamName,
+          rank: 0,
+          score: round(score),
+          components: teamComponents,
+          metrics: teamMetrics,
+        };
+      })
+      .sort((a, b) =>
+        b.score - a.score ||
+        b.metrics.pointsForPerGame - a.metrics.pointsForPerGame ||
+        a.rosterId - b.rosterId
+      )
+      .map((entry, index) => ({ ...entry, rank: index + 1 }));
+  }
+
+  private describeRanking(entry: Omit<TeamPowerRanking, 'previousRank' | 'trend' | 'analysis'>): string {
+    const { record, allPlay, pointsForPerGame, recentAverage, scheduleLuck } = entry.metrics;
+    const strongest = strongestComponent(entry.components);
+    const luck = Math.abs(scheduleLuck) < 0.5
+      ? 'Record matches their scoring.'
+      : scheduleLuck > 0
+        ? `Has won ${scheduleLuck.toFixed(1)} more games than their scoring deserves.`
+        : `Has lost ${Math.abs(scheduleLuck).toFixed(1)} more games than their scoring deserves.`;
+
+    return `${record.wins}-${record.losses}${record.ties ? `-${record.ties}` : ''} ` +
+      `(${allPlay.wins}-${allPlay.losses} all-play), ${pointsForPerGame.toFixed(1)} points per week and ` +
+      `${recentAverage.toFixed(1)} over the last ${RECENT_FORM_WEEKS}. ` +
+      `Best area: ${COMPONENT_LABELS[strongest]}. ${luck}`;
+  }
+
+  /**
+   * Replaces the generated analysis with a short LLM-written blurb per team.
+   * The computed text is kept for any team the model does not cover.
+   */
+  private async addBlurbs(league: SleeperLeague, week: number, rankings: TeamPowerRanking[]): Promise<void> {
+    try {
+      const response = await this.aiService.chat({
+        messages: [
+          {
+            role: 'system',
+            content: `You are a witty fantasy football analyst writing weekly power rankings for the league "${league.name}".
+Write one or two sentences per team (max 40 words) grounded only in the provided numbers.
+Respond with JSON only: {"blurbs": {"<userId>": "<blurb>"}}`,
+          },
+          {
+            role: 'user',
+            content: `Week ${week} power rankings:\n${rankings.map(entry =>
+              `${entry.rank}. ${entry.teamName} (userId ${entry.userId}, previous rank ${entry.previousRank ?? 'n/a'}): ${entry.analysis}`
+            ).join('\n')}`,
+          },
+        ],
+        maxTokens: 1500,
+        temperature: 0.7,
+      });
+
+      const jsonMatch = response.content.match(/\{[\s\S]*\}/);
+      if (!jsonMatch) return;
+
+      const blurbs = JSON.parse(jsonMatch[0]).blurbs || {};
+      rankings.forEach(entry => {
+        if (typeof blurbs[entry.userId] === 'string' && blurbs[entry.userId].trim()) {
+          entry.analysis = blurbs[entry.userId].trim();
+        }
+      });
+    } catch (error) {
+      console.warn('Power ranking blurbs failed, keeping generated analysis:', error);
+    }
+  }
+
+  private async storeRankings(
+    leagueId: string,
+    week: number,
+    rankings: TeamPowerRanking[]
+  ): Promise<PowerRankingResult> {
+    const stored = await this.prisma.powerRanking.upsert({
+      where: { leagueId_week: { leagueId, week } },
+      create: {
+        leagueId,
+        week,
+        rankings: rankings as unknown as Prisma.InputJsonValue,
+        methodology: POWER_RANKING_METHODOLOGY,
+      },
+      update: {
+        rankings: rankings as unknown as Prisma.InputJsonValue,
+        methodology: POWER_RANKING_METHODOLOGY,
+        createdAt: new Date(),
+      },
+    });
+
+    // Weekly analytics can only be kept for league members with an account
+    const members = await this.prisma.userLeague.findMany({
+      where: { leagueId },
+      select: { userId: true, sleeperRosterId: true },
+    });
+    const userByRoster = new Map(members.map(member => [member.sleeperRosterId, member.userId]));
+
+    for (const entry of rankings) {
+      const userId = userByRoster.get(entry.rosterId.toString());
+      if (!userId) continue;
+
+      const performanceMetrics = {
+        ...entry.metrics,
+        score: entry.score,
+        components: entry.components,
+        trend: entry.trend,
+      };
+
+      await this.prisma.weeklyAnalytics.upsert({
+        where: { leagueId_userId_week: { leagueId, userId, week } },
+        create: { leagueId, userId, week, performanceMetrics, powerRanking: entry.rank },
+        update: { performanceMetrics, powerRanking: entry.rank },
+      });
+    }
+
+    return {
+      leagueId,
+      week,
+      rankings,
+      methodology: POWER_RANKING_METHODOLOGY,
+      generatedAt: stored.createdAt.toISOString(),
+    };
+  }
+
+  private async getSeasonProgress(sleeperLeagueId: string): Promise<{ league: SleeperLeague; completedWeeks: number }> {
+    const [league, nflState] = await Promise.all([
+      this.sleeperAPI.getLeague(sleeperLeagueId),
+      this.sleeperAPI.getNFLState(),
+    ]);
+
+    const regularSeasonWeeks = Math.max((league.settings?.playoff_week_start || DEFAULT_PLAYOFF_WEEK_START) - 1, 1);
+    let completedWeeks: number;
+
+    if (league.status === 'complete' || parseInt(league.season) < parseInt(nflState.season) || nflState.season_type === 'post') {
+      completedWeeks = regularSeasonWeeks;
+    } else if (league.status === 'pre_draft' || league.status === 'drafting' || nflState.season_type === 'pre') {
+      completedWeeks = 0;
+    } else {
+      completedWeeks = Math.min(Math.max(nflState.week - 1, 0), regularSeasonWeeks);
+    }
+
+    return { league, completedWeeks };
+  }
+
+  private async loadRankingContext(
+    sleeperLeagueId: string,
+    league: SleeperLeague,
+    completedWeeks: number
+  ): Promise<RankingContext> {
+    const [rosters, users, weeklyMatchups] = await Promise.all([
+      this.sleeperAPI.getLeagueRosters(sleeperLeagueId),
+      this.sleeperAPI.getLeagueUsers(sleeperLeagueId),
+      Promise.all(
+        Array.from({ length: completedWeeks }, (_, i) =>
+          this.sleeperAPI.getLeagueMatchups(sleeperLeagueId, i + 1).catch(() => [] as SleeperMatchup[])
+        )
+      ),
+    ]);
+
+    const playerIds = new Set(weeklyMatchups.flat().flatMap(matchup => matchup.players || []));
+    const players = playerIds.size > 0 ? await this.players.getPlayers(Array.from(playerIds)) : {};
+    const playerPositions = new Map(Object.entries(players).map(([playerId, player]) => [
+      playerId,
+      player.fantasy_positions?.length ? player.fantasy_positions : [player.position],
+    ]));
+
+    return {
+      league,
+      teams: this.buildTeams(rosters, users),
+      completedWeeks,
+      weeklyMatchups,
+      playerPositions,
+    };
+  }
+
+  private buildTeams(rosters: SleeperRoster[], users: SleeperUser[]): RankingTeam[] {
+    const userLookup = new Map(users.map(user => [user.user_id, user]));
+
+    return rosters
+      .slice()
+      .sort((a, b) => a.roster_id - b.roster_id)
+      .map(roster => {
+        const owner = userLookup.get(roster.owner_id);
+        return {
+          rosterId: roster.roster_id,
+          userId: roster.owner_id,
+          teamName: owner?.metadata?.team_name || owner?.display_name || `Team ${roster.roster_id}`,
+        };
+      });
+  }
+
+  // Average weekly points for every player that appeared on a roster in these weeks
+  private getPlayerAverages(weeks: SleeperMatchup[][]): Map<string, number> {
+    const totals = new Map<string, { points: number; games: number }>();
+
+    weeks.forEach(matchups => {
+      matchups.forEach(matchup => {
+        Object.entries(matchup.players_points || {}).forEach(([playerId, points]) => {
+          const total = totals.get(playerId) || { points: 0, games: 0 };
+          total.points += points || 0;
+          total.games++;
+          totals.set(playerId, total);
+        });
+      });
+    });
+
+    return new Map(Array.from(totals.entries()).map(([playerId, total]) => [playerId, total.points / total.games]));
+  }
+
+  // Season averages of the best lineup the roster can field, one eligible player per starting slot
+  private getRosterStrength(context: RankingContext, playerIds: string[], playerAverages: Map<string, number>): number {
+    const solution = solveLineup(
+      playerIds.map(playerId => {
+        const points = playerAverages.get(playerId) || 0;
+        return {
+          playerId,
+          playerName: playerId,
+          fantasyPositions: context.playerPositions.get(playerId) || [],
+          team: '', // No per-team limit
+          projectedPoints: { floor: points, expected: points, ceiling: points },
+        };
+      }),
+      context.league.roster_positions || [],
+      { objective: 'expected' }
+    );
+    return solution.objectiveValue;
+  }
+}
+
+const COMPONENT_LABELS: Record<PowerRankingComponent, string> = {
+  allPlay: 'all-play record',
+  pointsFor: 'total scoring',
+  recentForm: 'recent form',
+  rosterStrength: 'roster strength',
+  scheduleLuck: 'schedule luck',
+};
+
+function getPoints(matchup: SleeperMatchup): number {
+  return matchup.custom_points ?? matchup.points ?? 0;
+}
+
+function average(values: number[]): number {
+  return values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : 0;
+}
+
+// Min-max scales values to 0-100; identical values all score 50
+function scale(values: number[]): number[] {
+  const min = Math.min(...values);
+  const max = Math.max(...values);
+  return values.map(value => (max === min ? 50 : round(((value - min) / (max - min)) * 100)));
+}
+
+function strongestComponent(components: Record<PowerRankingComponent, number>): PowerRankingComponent {
+  return (Object.keys(components) as PowerRankingComponent[])
+    .reduce((best, key) => (components[key] > components[best] ? key : best), 'allPlay');
+}
+
+function round(value: number, decimals = 2): number {
+  const factor = Math.pow(10, decimals);
+  return Math.round(value * factor) / factor;
+}
+
+export const powerRankingsService = new PowerRankingsService();
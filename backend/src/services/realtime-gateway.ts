@@ -0,0 +1,162 @@
+import type { Server as HttpServer } from 'http';
+import { Server, Socket } from 'socket.io';
+import { PrismaClient } from '@prisma/client';
+import { createClient } from 'redis';
+import { WEBSOCKET_EVENTS, WebSocketMessage } from '@fantasy-app/shared';
+import { verifyToken } from '../middleware/auth';
+
+type RedisClient = ReturnType<typeof createClient>;
+
+export type RealtimeEvent = typeof WEBSOCKET_EVENTS[keyof typeof WEBSOCKET_EVENTS];
+
+// Every instance subscribes to this channel and emits what it receives to its
+// own sockets, so an event published on one instance reaches all clients
+export const REALTIME_CHANNEL = 'realtime:events';
+
+const prisma = new PrismaClient();
+
+interface RealtimeEnvelope {
+  room: string;
+  message: WebSocketMessage;
+}
+
+export const leagueRoom = (leagueId: string) => `league:${leagueId}`;
+export const userRoom = (userId: string) => `user:${userId}`;
+
+export class RealtimeGateway {
+  private io: Server | null = null;
+  private publisher: RedisClient | null = null;
+  private subscriber: RedisClient | null = null;
+  private prisma: PrismaClient;
+
+  constructor(prismaClient?: PrismaClient) {
+    this.prisma = prismaClient || prisma;
+  }
+
+  /**
+   * Starts the socket server on the HTTP server. Clients authenticate with
+   * the same JWT as the REST API and join their user room and a room per
+   * league they belong to.
+   */
+  async attach(server: HttpServer, redis: RedisClient): Promise<void> {
+    this.io = new Server(server, {
+      cors: {
+        origin: (process.env.WEBSOCKET_CORS_ORIGIN || process.env.CORS_ORIGIN)?.split(',').map(origin => origin.trim()) || ['http://localhost:3000'],
+        credentials: true,
+      },
+    });
+
+    this.io.use((socket, next) => {
+      const header = socket.handshake.headers.authorization;
+      const token = socket.handshake.auth?.token || (header?.startsWith('Bearer ') ? header.substring(7) : null);
+
+      if (!token) {
+        return next(new Error('No token provided'));
+      }
+
+      try {
+        socket.data.userId = verifyToken(token).userId;
+        next();
+      } catch (error) {
+        next(error instanceof Error ? error : new Error('Token verification failed'));
+      }
+    });
+
+    this.io.on('connection', socket => {
+      this.handleConnection(socket).catch(error => {
+        console.error('Realtime connection setup failed:', error);
+        socket.disconnect(true);
+      });
+    });
+
+    this.publisher = redis;
+    this.subscriber = redis.duplicate();
+    await this.subscriber.connect();
+    await this.subscriber.subscribe(REALTIME_CHANNEL, raw => this.deliver(raw));
+
+    console.log('🔌 Realtime gateway attached');
+  }
+
+  async close(): Promise<void> {
+    if (this.subscriber) {
+      await this.subscriber.unsubscribe(REALTIME_CHANNEL);
+      await this.subscriber.quit();
+      this.subscriber = null;
+    }
+    this.publisher = null;
+
+    // The HTTP server is closed by its owner; only the sockets are dropped here
+    if (this.io) {
+      this.io.disconnectSockets(true);
+      this.io = null;
+    }
+  }
+
+  async publishToLeague(leagueId: string, event: RealtimeEvent, payload: unknown): Promise<void> {
+    await this.publish(leagueRoom(leagueId), { type: event, payload, timestamp: new Date().toISOString(), leagueId });
+  }
+
+  async publishToUser(userId: string, event: RealtimeEvent, payload: unknown): Promise<void> {
+    await this.publish(userRoom(userId), { type: event, payload, timestamp: new Date().toISOString(), userId });
+  }
+
+  /**
+   * Events are best effort: a publish failure is logged and never fails the
+   * request or job that produced the event.
+   */
+  private async publish(room: string, message: WebSocketMessage): Promise<void> {
+    const envelope: RealtimeEnvelope = { room, message };
+
+    try {
+      if (this.publisher) {
+        await this.publisher.publish(REALTIME_CHANNEL, JSON.stringify(envelope));
+      } else if (this.io) {
+        this.io.to(room).emit(message.type, message);
+      }
+    } catch (error) {
+      console.warn(`Failed to publish ${message.type} to ${room}:`, error);
+    }
+  }
+
+  private deliver(raw: string): void {
+    if (!this.io) return;
+
+    try {
+      const { room, message } = JSON.parse(raw) as RealtimeEnvelope;
+      this.io.to(room).emit(message.type, message);
+    } catch (error) {
+      console.warn('Ignoring malformed realtime message:', error);
+    }
+  }
+
+  private async handleConnection(socket: Socket): Promise<void> {
+    const userId: string = socket.data.userId;
+    const memberships = await this.prisma.userLeague.findMany({
+      where: { userId },
+      select: { leagueId: true },
+    });
+
+    await socket.join([userRoom(userId), ...memberships.map(membership => leagueRoom(membership.leagueId))]);
+
+    // Leagues synced after the socket connected are joined on request
+    socket.on('join_league', async (leagueId: unknown, ack?: (result: { joined: boolean }) => void) => {
+      const membership = typeof leagueId === 'string'
+        ? await this.prisma.userLeague.findFirst({ where: { userId, leagueId } }).catch(() => null)
+        : null;
+
+      if (membership) {
+        await socket.join(leagueRoom(membership.leagueId));
+      }
+      ack?.({ joined: !!membership });
+    });
+
+    socket.emit(WEBSOCKET_EVENTS.connection_status, {
+      type: WEBSOCKET_EVENTS.connection_status,
+      payload: { connected: true, leagues: memberships.map(membership => membership.leagueId) },
+      timestamp: new Date().toISOString(),
+      userId,
+    });
+  }
+}
+
+export const realtimeGateway = new RealtimeGateway();
@@ -0,0 +1,477 @@
+import { PrismaClient, Prisma } from '@prisma/client';
+import { sleeperAPIService as defaultSleeperAPI, SleeperAPIService, SleeperLeague } from './sleeper-api-service';
+import { ValidationError } from '../utils/validation';
+
+const prisma = new PrismaClient();
+
+const DEFAULT_PLAYOFF_WEEK_START = 15;
+
+// How far back the previous_league_id chain is followed
+const MAX_HISTORY_SEASONS = 10;
+
+// A pair is detected as a rivalry when they have met often, across seasons,
+// and neither side has run away with the series
+export const RIVALRY_MIN_GAMES = 4;
+export const RIVALRY_MIN_SEASONS = 2;
+export const RIVALRY_MAX_WIN_SHARE = 0.65;
+
+export interface RivalryGame {
+  season: number;
+  week: number;
+  user1Points: number;
+  user2Points: number;
+}
+
+export interface HeadToHeadRecord {
+  user1Wins: number;
+  user2Wins: number;
+  ties: number;
+  games: RivalryGame[]; // Oldest first
+  biggestBlowout: {
+    season: number;
+    week: number;
+    winnerId: string;
+    margin: number;
+    winnerPoints: number;
+    loserPoints: number;
+  } | null;
+  currentStreak: { userId: string | null; count: number }; // userId is null after a tie or before any game
+  origin: 'detected' | 'declared';
+  declaredBy?: string;
+  updatedThrough: { season: number; week: number } | null;
+}
+
+export interface RivalryUser {
+  id: string;
+  displayName: string;
+  sleeperUserId: string | null;
+}
+
+export interface Rivalry {
+  id: string;
+  leagueId: string;
+  rivalryName: string | null;
+  isActive: boolean;
+  user1: RivalryUser;
+  user2: RivalryUser;
+  record: HeadToHeadRecord;
+  createdAt: string;
+}
+
+export interface RivalryRefreshResult {
+  leagueId: string;
+  seasons: number;
+  games: number;
+  detected: number;
+  updated: number;
+}
+
+// One regular-season meeting between two Sleeper owners
+interface HistoricalGame {
+  season: number;
+  week: number;
+  owners: [string, string];
+  points: [number, number];
+}
+
+export class RivalryNotFoundError extends Error {
+  constructor(id: string) {
+    super(`Rivalry ${id} not found`);
+    this.name = 'RivalryNotFoundError';
+  }
+}
+
+export class RivalryConflictError extends Error {
+  constructor() {
+    super('A rivalry between these users already exists in this league');
+    this.name = 'RivalryConflictError';
+  }
+}
+
+export class RivalryAccessError extends Error {
+  constructor() {
+    super('Only the users in a rivalry can change it');
+    this.name = 'RivalryAccessError';
+  }
+}
+
+const rivalryInclude = {
+  user1: { select: { id: true, displayName: true, sleeperUserId: true } },
+  user2: { select: { id: true, displayName: true, sleeperUserId: true } },
+} as const;
+
+type RivalryRow = Prisma.LeagueRivalryGetPayload<{ include: typeof rivalryInclude }>;
+
+export class RivalryService {
+  private sleeperAPI: SleeperAPIService;
+  private prisma: PrismaClient;
+
+  constructor(sleeperAPIService?: SleeperAPIService, prismaClient?: PrismaClient) {
+    this.sleeperAPI = sleeperAPIService || defaultSleeperAPI;
+    this.prisma = prismaClient || prisma;
+  }
+
+  /**
+   * Active rivalries first, each with its all-time head-to-head record as of
+   * the last refresh.
+   */
+  async getRivalries(leagueId: string): Promise<Rivalry[]> {
+    const rows = await this.prisma.leagueRivalry.findMany({
+      where: { leagueId },
+      include: rivalryInclude,
+      orderBy: [{ isActive: 'desc' }, { createdAt: 'asc' }],
+    });
+
+    return rows.map(row => this.toRivalry(row));
+  }
+
+  /**
+   * Declares a rivalry with another league member. A previously deactivated
+   * rivalry between the pair is reactivated rather than duplicated.
+   */
+  async declareRivalry(
+    leagueId: string,
+    sleeperLeagueId: string,
+    userId: string,
+    opponentUserId: string,
+    rivalryName?: string
+  ): Promise<Rivalry> {
+    if (userId === opponentUserId) {
+      throw new ValidationError('You cannot declare a rivalry with yourself', 'opponentUserId');
+    }
+
+    const opponent = await this.prisma.userLeague.findFirst({
+      where: { leagueId, userId: opponentUserId },
+    });
+    if (!opponent) {
+      throw new ValidationError('Opponent is not a member of this league', 'opponentUserId');
+    }
+
+    const [user1Id, user2Id] = this.orderPair(userId, opponentUserId);
+    const existing = await this.prisma.leagueRivalry.findUnique({
+      where: { leagueId_user1Id_user2Id: { leagueId, user1Id, user2Id } },
+    });
+
+    if (existing?.isActive) {
+      throw new RivalryConflictError();
+    }
+
+    const record = await this.buildDeclaredRecord(sleeperLeagueId, user1Id, user2Id, userId);
+    const data = {
+      rivalryName: rivalryName?.trim() || null,
+      isActive: true,
+      headToHeadRecord: record as unknown as Prisma.InputJsonValue,
+    };
+
+    const row = existing
+      ? await this.prisma.leagueRivalry.update({ where: { id: existing.id }, data, include: rivalryInclude })
+      : await this.prisma.leagueRivalry.create({ data: { leagueId, user1Id, user2Id, ...data }, include: rivalryInclude });
+
+    return this.toRivalry(row);
+  }
+
+  async updateRivalry(
+    leagueId: string,
+    rivalryId: string,
+    userId: string,
+    changes: { rivalryName?: string | null; isActive?: boolean }
+  ): Promise<Rivalry> {
+    await this.getOwnRivalry(leagueId, rivalryId, userId);
+
+    const row = await this.prisma.leagueRivalry.update({
+      where: { id: rivalryId },
+      data: {
+        ...(changes.rivalryName !== undefined && { rivalryName: changes.rivalryName?.trim() || null }),
+        ...(changes.isActive !== undefined && { isActive: changes.isActive }),
+      },
+      include: rivalryInclude,
+    });
+
+    return this.toRivalry(row);
+  }
+
+  /**
+   * Deletes a declared rivalry. Detected rivalries are deactivated instead so
+   * the next refresh does not detect them again.
+   */
+  async deleteRivalry(leagueId: string, rivalryId: string, userId: string): Promise<void> {
+    const rivalry = await this.getOwnRivalry(leagueId, rivalryId, userId);
+    const record = rivalry.headToHeadRecord as unknown as HeadToHeadRecord;
+
+    if (record?.origin === 'declared') {
+      await this.prisma.leagueRivalry.delete({ where: { id: rivalryId } });
+    } else {
+      await this.prisma.leagueRivalry.update({ where: { id: rivalryId }, data: { isActive: false } });
+    }
+  }
+
+  /**
+   * Rebuilds every head-to-head record in the league from Sleeper history and
+   * stores newly detected rivalries. Rivalries a user deactivated stay inactive.
+   */
+  async refreshRivalries(leagueId: string, sleeperLeagueId: string): Promise<RivalryRefreshResult> {
+    try {
+      const [history, members, existing] = await Promise.all([
+        this.loadHistory(sleeperLeagueId),
+        this.prisma.userLeague.findMany({
+          where: { leagueId },
+          include: { user: { select: { id: true, sleeperUserId: true } } },
+        }),
+        this.prisma.leagueRivalry.findMany({ where: { leagueId } }),
+      ]);
+
+      const usersBySleeperId = new Map<string, string>();
+      members.forEach(member => {
+        if (member.user.sleeperUserId) {
+          usersBySleeperId.set(member.user.sleeperUserId, member.user.id);
+        }
+      });
+
+      const records = this.buildRecords(history.games, usersBySleeperId);
+      const existingByPair = new Map(existing.map(rivalry => [`${rivalry.user1Id}:${rivalry.user2Id}`, rivalry]));
+
+      let detected = 0;
+      let updated = 0;
+
+      for (const rivalry of existing) {
+        const stored = rivalry.headToHeadRecord as unknown as HeadToHeadRecord;
+        const record = records.get(`${rivalry.user1Id}:${rivalry.user2Id}`) || this.emptyRecord();
+
+        await this.prisma.leagueRivalry.update({
+          where: { id: rivalry.id },
+          data: {
+            headToHeadRecord: {
+              ...record,
+              origin: stored?.origin || 'detected',
+              ...(stored?.declaredBy && { declaredBy: stored.declaredBy }),
+            } as unknown as Prisma.InputJsonValue,
+          },
+        });
+        updated++;
+      }
+
+      for (const [pair, record] of records) {
+        if (existingByPair.has(pair) || !this.isRivalry(record)) continue;
+
+        const [user1Id, user2Id] = pair.split(':');
+        await this.prisma.leagueRivalry.create({
+          data: {
+            leagueId,
+            user1Id,
+            user2Id,
+            headToHeadRecord: record as unknown as Prisma.InputJsonValue,
+          },
+        });
+        detected++;
+      }
+
+      return {
+        leagueId,
+        seasons: history.seasons,
+        games: history.games.length,
+        detected,
+        updated,
+      };
+    } catch (error) {
+      console.error('Rivalry refresh failed:', error);
+      throw new Error(`Rivalry refresh failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  private async getOwnRivalry(leagueId: string, rivalryId: string, userId: string) {
+    const rivalry = await this.prisma.leagueRivalry.findFirst({ where: { id: rivalryId, leagueId } });
+    if (!rivalry) {
+      throw new RivalryNotFoundError(rivalryId);
+    }
+    if (rivalry.user1Id !== userId && rivalry.user2Id !== userId) {
+      throw new RivalryAccessError();
+    }
+    return rivalry;
+  }
+
+  private async buildDeclaredRecord(
+    sleeperLeagueId: string,
+    user1Id: string,
+    user2Id: string,
+    declaredBy: string
+  ): Promise<HeadToHeadRecord> {
+    const users = await this.prisma.user.findMany({
+      where: { id: { in: [user1Id, user2Id] } },
+      select: { id: true, sleeperUserId: true },
+    });
+
+    const usersBySleeperId = new Map<string, string>();
+    users.forEach(user => {
+      if (user.sleeperUserId) usersBySleeperId.set(user.sleeperUserId, user.id);
+    });
+
+    let record = this.emptyRecord();
+    try {
+      const history = await this.loadHistory(sleeperLeagueId);
+      record = this.buildRecords(history.games, usersBySleeperId).get(`${user1Id}:${user2Id}`) || record;
+    } catch (error) {
+      // The rivalry is still saved; the weekly refresh fills in the record
+      console.warn(`Could not load rivalry history for ${sleeperLeagueId}:`, error);
+    }
+
+    return { ...record, origin: 'declared', declaredBy };
+  }
+
+  /**
+   * Regular-season meetings in this league and every earlier season reachable
+   * through previous_league_id, oldest first.
+   */
+  private async loadHistory(sleeperLeagueId: string): Promise<{ seasons: number; games: HistoricalGame[] }> {
+    const nflState = await this.sleeperAPI.getNFLState();
+    const games: HistoricalGame[] = [];
+    const visited = new Set<string>();
+    let currentId: string | null | undefined = sleeperLeagueId;
+
+    while (currentId && visited.size < MAX_HISTORY_SEASONS && !visited.has(currentId)) {
+      visited.add(currentId);
+
+      const league: SleeperLeague = await this.sleeperAPI.getLeague(currentId);
+      const completedWeeks = this.getCompletedWeeks(league, nflState);
+      const season = parseInt(league.season);
+
+      if (completedWeeks > 0) {
+        const [rosters, weeklyMatchups] = await Promise.all([
+          this.sleeperAPI.getLeagueRosters(currentId),
+          Promise.all(
+            Array.from({ length: completedWeeks }, (_, i) =>
+              this.sleeperAPI.getLeagueMatchups(currentId as string, i + 1).catch(() => [])
+            )
+          ),
+        ]);
+        const ownerByRoster = new Map(rosters.map(roster => [roster.roster_id, roster.owner_id]));
+
+        weeklyMatchups.forEach((matchups, index) => {
+          const byMatchup = new Map<number, typeof matchups>();
+          matchups.forEach(matchup => {
+            if (matchup.matchup_id == null) return;
+            byMatchup.set(matchup.matchup_id, [...(byMatchup.get(matchup.matchup_id) || []), matchup]);
+          });
+
+          byMatchup.forEach(pair => {
+            if (pair.length !== 2) return;
+            const [a, b] = pair;
+            const ownerA = ownerByRoster.get(a.roster_id);
+            const ownerB = ownerByRoster.get(b.roster_id);
+            if (!ownerA || !ownerB || (!a.points && !b.points)) return;
+
+            games.push({
+              season,
+              week: index + 1,
+              owners: [ownerA, ownerB],
+              points: [a.points || 0, b.points || 0],
+            });
+          });
+        });
+      }
+
+      currentId = league.previous_league_id && league.previous_league_id !== '0' ? league.previous_league_id : null;
+    }
+
+    games.sort((a, b) => a.season - b.season || a.week - b.week);
+    return { seasons: visited.size, games };
+  }
+
+  private getCompletedWeeks(league: SleeperLeague, nflState: { week: number; season: string; season_type: string }): number {
+    const regularSeasonWeeks = Math.max((league.settings?.playoff_week_start || DEFAULT_PLAYOFF_WEEK_START) - 1, 1);
+
+    if (league.status === 'complete' || parseInt(league.season) < parseInt(nflState.season) || nflState.season_type === 'post') {
+      return regularSeasonWeeks;
+    }
+    if (league.status === 'pre_draft' || league.status === 'drafting' || nflState.season_type === 'pre') {
+      return 0;
+    }
+    return Math.min(Math.max(nflState.week - 1, 0), regularSeasonWeeks);
+  }
+
+  // Head-to-head records keyed by "user1Id:user2Id", for pairs of app users only
+  private buildRecords(games: HistoricalGame[], usersBySleeperId: Map<string, string>): Map<string, HeadToHeadRecord> {
+    const records = new Map<string, HeadToHeadRecord>();
+
+    games.forEach(game => {
+      const userA = usersBySleeperId.get(game.owners[0]);
+      const userB = usersBySleeperId.get(game.owners[1]);
+      if (!userA || !userB || userA === userB) return;
+
+      const [user1Id, user2Id] = this.orderPair(userA, userB);
+      const [user1Points, user2Points] = user1Id === userA ? game.points : [game.points[1], game.points[0]];
+      const key = `${user1Id}:${user2Id}`;
+      const record = records.get(key) || this.emptyRecord();
+
+      record.games.push({ season: game.season, week: game.week, user1Points, user2Points });
+      record.updatedThrough = { season: game.season, week: game.week };
+
+      if (user1Points === user2Points) {
+        record.ties++;
+        record.currentStreak = { userId: null, count: 0 };
+      } else {
+        const winnerId = user1Points > user2Points ? user1Id : user2Id;
+        const winnerPoints = Math.max(user1Points, user2Points);
+        const loserPoints = Math.min(user1Points, user2Points);
+        const margin = Math.round((winnerPoints - loserPoints) * 100) / 100;
+
+        if (winnerId === user1Id) record.user1Wins++;
+        else record.user2Wins++;
+
+        record.currentStreak = record.currentStreak.userId === winnerId
+          ? { userId: winnerId, count: record.currentStreak.count + 1 }
+          : { userId: winnerId, count: 1 };
+
+        if (!record.biggestBlowout || margin > record.biggestBlowout.margin) {
+          record.biggestBlowout = { season: game.season, week: game.week, winnerId, margin, winnerPoints, loserPoints };
+        }
+      }
+
+      records.set(key, record);
+    });
+
+    return records;
+  }
+
+  private isRivalry(record: HeadToHeadRecord): boolean {
+    const seasons = new Set(record.games.map(game => game.season)).size;
+    const decided = record.user1Wins + record.user2Wins;
+    const winShare = decided > 0 ? Math.max(record.user1Wins, record.user2Wins) / decided : 0;
+
+    return record.games.length >= RIVALRY_MIN_GAMES &&
+      seasons >= RIVALRY_MIN_SEASONS &&
+      winShare <= RIVALRY_MAX_WIN_SHARE;
+  }
+
+  private emptyRecord(): HeadToHeadRecord {
+    return {
+      user1Wins: 0,
+      user2Wins: 0,
+      ties: 0,
+      games: [],
+      biggestBlowout: null,
+      currentStreak: { userId: null, count: 0 },
+      origin: 'detected',
+      updatedThrough: null,
+    };
+  }
+
+  // The unique key is ordered so each pair is stored once
+  private orderPair(a: string, b: string): [string, string] {
+    return a < b ? [a, b] : [b, a];
+  }
+
+  private toRivalry(row: RivalryRow): Rivalry {
+    return {
+      id: row.id,
+      leagueId: row.leagueId,
+      rivalryName: row.rivalryName,
+      isActive: row.isActive,
+      user1: row.user1,
+      user2: row.user2,
+      record: row.headToHeadRecord as unknown as HeadToHeadRecord,
+      createdAt: row.createdAt.toISOString(),
+    };
+  }
+}
+
+export const rivalryService = new RivalryService();
@@ -0,0 +1,411 @@
+import { PrismaClient } from '@prisma/client';
+import { createClient } from 'redis';
+import { getScoringFormat } from '@fantasy-app/shared';
+import { sleeperAPIService as defaultSleeperAPI, SleeperAPIService } from './sleeper-api-service';
+import { powerRankingsService as defaultPowerRankings, PowerRankingsService } from './power-rankings-service';
+import { playoffOddsService as defaultPlayoffOdds, PlayoffOddsService } from './playoff-odds-service';
+import { playerService as defaultPlayerService, PlayerService } from './player-service';
+import { chatService as defaultChatService, ChatService } from './chat-service';
+import { realtimeGateway as defaultRealtimeGateway, RealtimeGateway } from './realtime-gateway';
+import { scoreWatcher as defaultScoreWatcher, ScoreWatcher } from './score-watcher';
+import { rivalryService as defaultRivalryService, RivalryService } from './rivalry-service';
+import { notificationService as defaultNotificationService, NotificationService } from './notification-service';
+import { injuryWatcher as defaultInjuryWatcher, InjuryWatcher, InjuryAlertResult } from './injury-watcher';
+import { weeklyRecapService as defaultWeeklyRecapService, WeeklyRecapService } from './weekly-recap-service';
+import { statsService as defaultStatsService, StatsService, REGULAR_SEASON_WEEKS } from './stats-service';
+import { JobDefinition, JobScheduler } from './job-scheduler';
+
+type RedisClient = ReturnType<typeof createClient>;
+
+// Keeps job history entries small; the full list is in the sync result
+const MAX_REPORTED_PLAYER_CHANGES = 50;
+
+export interface ScheduledJobDependencies {
+  redis: RedisClient;
+  prisma?: PrismaClient;
+  sleeperAPI?: SleeperAPIService;
+  powerRankings?: PowerRankingsService;
+  playoffOdds?: PlayoffOddsService;
+  players?: PlayerService;
+  stats?: StatsService;
+  rivalries?: RivalryService;
+  chat?: ChatService;
+  realtime?: RealtimeGateway;
+  scores?: ScoreWatcher;
+  notifications?: NotificationService;
+  injuries?: InjuryWatcher;
+  recaps?: WeeklyRecapService;
+}
+
+/**
+ * Background jobs that keep Sleeper data and weekly analytics precomputed.
+ * Schedules are cron expressions evaluated in JOBS_TIMEZONE (UTC by default).
+ */
+export function createScheduledJobs(dependencies: ScheduledJobDependencies): JobDefinition[] {
+  const prisma = dependencies.prisma || new PrismaClient();
+  const sleeperAPI = dependencies.sleeperAPI || defaultSleeperAPI;
+  const powerRankings = dependencies.powerRankings || defaultPowerRankings;
+  const playoffOdds = dependencies.playoffOdds || defaultPlayoffOdds;
+  const players = dependencies.players || defaultPlayerService;
+  const stats = dependencies.stats || defaultStatsService;
+  const rivalries = dependencies.rivalries || defaultRivalryService;
+  const chat = dependencies.chat || defaultChatService;
+  const realtime = dependencies.realtime || defaultRealtimeGateway;
+  const scores = dependencies.scores || defaultScoreWatcher;
+  const notifications = dependencies.notifications || defaultNotificationService;
+  const injuries = dependencies.injuries || defaultInjuryWatcher;
+  const recaps = dependencies.recaps || defaultWeeklyRecapService;
+
+  // Leagues for the current NFL season, or null outside of it
+  const getInSeasonLeagues = async () => {
+    const nflState = await sleeperAPI.getNFLState();
+    if (nflState.season_type !== 'regular' && nflState.season_type !== 'post') {
+      return null;
+    }
+
+    return prisma.league.findMany({
+      where: { season: parseInt(nflState.season) },
+      include: {
+        userLeagues: {
+          include: { user: { select: { sleeperUserId: true } } },
+        },
+      },
+    });
+  };
+
+  // Stores the latest players and alerts rosters to injury and status changes.
+  // The changes are already saved once alerting starts, so an alerting failure
+  // is reported in the result: failing the job would retry a sync that finds
+  // no changes, and the alerts would never go out
+  const refreshPlayers = async () => {
+    const result = await players.syncPlayers();
+
+    let alerts: InjuryAlertResult | null = null;
+    let alertsError: string | null = null;
+    try {
+      alerts = await injuries.notifyChanges(result.changes);
+    } catch (error) {
+      console.error(`Injury alerts failed for ${result.changes.length} player changes:`, error);
+      alertsError = error instanceof Error ? error.message : 'Unknown error';
+    }
+
+    return {
+      ...result,
+      changeCount: result.changes.length,
+      changes: result.changes.slice(0, MAX_REPORTED_PLAYER_CHANGES),
+      alerts,
+      alertsError,
+    };
+  };
+
+  return [
+    {
+      name: 'player-refresh',
+      description: 'Refreshes the NFL player database from Sleeper',
+      schedule: '0 9 * * *',
+      lockTtlMs: 20 * 60 * 1000,
+      handler: refreshPlayers,
+    },
+    {
+      name: 'injury-watch',
+      description: 'Refreshes players before kickoff so starters ruled out are flagged in time',
+      // Inactives are announced 90 minutes before kickoff, so every kickoff time
+      // has a run in the hour before it: 9:30 international games (8:05), 12:30
+      // and 1:00 (12:05), 3:00 (2:05), 4:05 to 4:30 (3:05), 7:00 and 7:15 (6:05)
+      // and 8:00 to 8:20 (7:05). Holiday and late-season Saturday games fall on
+      // any day of the week.
+      schedule: '5 8,12,14,15,18,19 * * *',
+      timezone: 'America/New_York',
+      lockTtlMs: 20 * 60 * 1000,
+      handler: async () => {
+        const nflState = await sleeperAPI.getNFLState();
+        if (nflState.season_type !== 'regular' && nflState.season_type !== 'post') {
+          return { skipped: 'offseason' };
+        }
+        return refreshPlayers();
+      },
+    },
+    {
+      name: 'stats-ingest',
+      description: 'Stores weekly and season stat lines with fantasy points for every league',
+      // After the player refresh so rookies and signings have a Player row
+      schedule: '30 9 * * *',
+      lockTtlMs: 30 * 60 * 1000,
+      handler: async () => {
+        const nflState = await sleeperAPI.getNFLState();
+        if (nflState.season_type !== 'regular' && nflState.season_type !== 'post') {
+          return { skipped: 'offseason' };
+        }
+
+        const season = parseInt(nflState.season);
+        // Re-ingest the previous week too, since stat corrections land days later
+        const weeks = nflState.season_type === 'post'
+          ? [REGULAR_SEASON_WEEKS]
+          : [nflState.week - 1, nflState.week].filter(week => week >= 1 && week <= REGULAR_SEASON_WEEKS);
+
+        const weekly = [];
+        for (const week of weeks) {
+          weekly.push(await stats.ingestWeek(season, week));
+        }
+        const seasonTotals = await stats.ingestSeason(season);
+
+        return { season, weekly, seasonTotals };
+      },
+    },
+    {
+      name: 'league-resync',
+      description: 'Resyncs league settings and roster ownership for in-season leagues',
+      schedule: '0 */6 * * *',
+      handler: async () => {
+        const leagues = await getInSeasonLeagues();
+        if (!leagues) {
+          return { skipped: 'offseason' };
+        }
+
+        let synced = 0;
+        let rostersUpdated = 0;
+        const failed: string[] = [];
+
+        for (const league of leagues) {
+          try {
+            const { league: sleeperLeague, rosters } = await sleeperAPI.getLeagueDetailsBatch(league.sleeperLeagueId);
+
+            await prisma.league.update({
+              where: { id: league.id },
+              data: {
+                name: sleeperLeague.name,
+                totalRosters: sleeperLeague.total_rosters,
+                scoringFormat: getScoringFormat(sleeperLeague.scoring_settings),
+                settings: { ...sleeperLeague.settings, scoring: sleeperLeague.scoring_settings || {} },
+              },
+            });
+
+            // Keep each member pointed at the roster they currently own
+            for (const userLeague of league.userLeagues) {
+              const sleeperUserId = userLeague.user.sleeperUserId;
+              if (!sleeperUserId) continue;
+
+              const roster = rosters.find(candidate =>
+                candidate.owner_id === sleeperUserId ||
+                candidate.co_owners?.includes(sleeperUserId)
+              );
+              if (roster && roster.roster_id.toString() !== userLeague.sleeperRosterId) {
+                await prisma.userLeague.update({
+                  where: { id: userLeague.id },
+                  data: { sleeperRosterId: roster.roster_id.toString() },
+                });
+                rostersUpdated++;
+              }
+            }
+
+            synced++;
+          } catch (error) {
+            console.error(`League resync failed for ${league.sleeperLeagueId}:`, error);
+            failed.push(league.sleeperLeagueId);
+          }
+        }
+
+        // Retry the job when Sleeper is down rather than for a single bad league
+        if (leagues.length > 0 && synced === 0) {
+          throw new Error(`All ${leagues.length} league resyncs failed`);
+        }
+
+        return { leagues: leagues.length, synced, rostersUpdated, failed };
+      },
+    },
+    {
+      name: 'live-scores',
+      description: 'Publishes live score and lineup changes to connected clients',
+      schedule: '*/2 * * * *',
+      maxAttempts: 1, // The next run is only minutes away
+      lockTtlMs: 5 * 60 * 1000,
+      handler: async () => {
+        const nflState = await sleeperAPI.getNFLState();
+        const leagues = await getInSeasonLeagues();
+        if (!leagues) {
+          return { skipped: 'offseason' };
+        }
+
+        let scoreUpdates = 0;
+        let lineupChanges = 0;
+        const failed: string[] = [];
+
+        for (const league of leagues) {
+          try {
+            const result = await scores.checkLeague(dependencies.redis, league.id, league.sleeperLeagueId, nflState.week);
+            scoreUpdates += result.scoreUpdates;
+            lineupChanges += result.lineupChanges;
+          } catch (error) {
+            console.error(`Live scores failed for ${league.sleeperLeagueId}:`, error);
+            failed.push(league.sleeperLeagueId);
+          }
+        }
+
+        return { leagues: leagues.length, week: nflState.week, scoreUpdates, lineupChanges, failed };
+      },
+    },
+    {
+      name: 'transaction-feed',
+      description: 'Posts completed trades and waiver claims to league chat',
+      schedule: '*/15 * * * *',
+      lockTtlMs: 10 * 60 * 1000,
+      handler: async () => {
+        const nflState = await sleeperAPI.getNFLState();
+        const leagues = await getInSeasonLeagues();
+        if (!leagues) {
+          return { skipped: 'offseason' };
+        }
+
+        // Sleeper files transactions under the week they were made in; the
+        // previous week catches claims processed after the week rolled over
+        const weeks = [nflState.week - 1, nflState.week].filter(week => week >= 1);
+        let posted = 0;
+        const failed: string[] = [];
+
+        for (const league of leagues) {
+          try {
+            const result = await chat.postTransactionMessages(league.id, league.sleeperLeagueId, weeks);
+            posted += result.posted;
+          } catch (error) {
+            console.error(`Transaction feed failed for ${league.sleeperLeagueId}:`, error);
+            failed.push(league.sleeperLeagueId);
+          }
+        }
+
+        if (leagues.length > 0 && failed.length === leagues.length) {
+          throw new Error(`Transaction feed failed for all ${leagues.length} leagues`);
+        }
+
+        return { leagues: leagues.length, weeks, posted, failed };
+      },
+    },
+    {
+      name: 'weekly-analytics',
+      description: 'Computes power rankings and playoff odds once the week\'s games are final',
+      // Tuesday morning, after Monday Night Football
+      schedule: '0 10 * * 2',
+      lockTtlMs: 60 * 60 * 1000,
+      handler: async () => {
+        const leagues = await getInSeasonLeagues();
+        if (!leagues) {
+          return { skipped: 'offseason' };
+        }
+
+        let rankingsComputed = 0;
+        let oddsComputed = 0;
+        const failed: string[] = [];
+
+        for (const league of leagues) {
+          try {
+            const rankings = await powerRankings.getPowerRankings(league.id, league.sleeperLeagueId, { refresh: true });
+            if (rankings) rankingsComputed++;
+
+            await playoffOdds.getPlayoffOdds(league.id, league.sleeperLeagueId, { refresh: true });
+            oddsComputed++;
+          } catch (error) {
+            console.error(`Weekly analytics failed for ${league.sleeperLeagueId}:`, error);
+            failed.push(league.sleeperLeagueId);
+          }
+        }
+
+        if (leagues.length > 0 && failed.length === leagues.length) {
+          throw new Error(`Weekly analytics failed for all ${leagues.length} leagues`);
+        }
+
+        return { leagues: leagues.length, rankingsComputed, oddsComputed, failed };
+      },
+    },
+    {
+      name: 'rivalry-update',
+      description: 'Updates head-to-head rivalry records and detects new rivalries',
+      // After the weekly analytics, once the week's matchups are final
+      schedule: '30 10 * * 2',
+      lockTtlMs: 60 * 60 * 1000,
+      handler: async () => {
+        const leagues = await getInSeasonLeagues();
+        if (!leagues) {
+          return { skipped: 'offseason' };
+        }
+
+        let detected = 0;
+        let updated = 0;
+        const failed: string[] = [];
+
+        for (const league of leagues) {
+          try {
+            const result = await rivalries.refreshRivalries(league.id, league.sleeperLeagueId);
+            detected += result.detected;
+            updated += result.updated;
+
+            if (result.detected > 0 || result.updated > 0) {
+              await realtime.publishToLeague(league.id, 'rivalry_update', result);
+            }
+          } catch (error) {
+            console.error(`Rivalry update failed for ${league.sleeperLeagueId}:`, error);
+            failed.push(league.sleeperLeagueId);
+          }
+        }
+
+        if (leagues.length > 0 && failed.length === leagues.length) {
+          throw new Error(`Rivalry update failed for all ${leagues.length} leagues`);
+        }
+
+        return { leagues: leagues.length, detected, updated, failed };
+      },
+    },
+    {
+      name: 'weekly-recap',
+      description: 'Writes each league\'s newsletter for the completed week and sends it to members',
+      // After the rivalry update, so the recap goes out with the week's other analytics
+      schedule: '0 11 * * 2',
+      lockTtlMs: 60 * 60 * 1000,
+      handler: async () => {
+        const leagues = await getInSeasonLeagues();
+        if (!leagues) {
+          return { skipped: 'offseason' };
+        }
+
+        const postToChat = process.env.WEEKLY_RECAP_CHAT !== 'false';
+        let written = 0;
+        const failed: string[] = [];
+
+        for (const league of leagues) {
+          try {
+            const recap = await recaps.generateRecap(league.id, { postToChat, notify: true });
+            if (recap) written++;
+          } catch (error) {
+            console.error(`Weekly recap failed for ${league.sleeperLeagueId}:`, error);
+            failed.push(league.sleeperLeagueId);
+          }
+        }
+
+        if (leagues.length > 0 && failed.length === leagues.length) {
+          throw new Error(`Weekly recap failed for all ${leagues.length} leagues`);
+        }
+
+        return { leagues: leagues.length, written, postedToChat: postToChat, failed };
+      },
+    },
+    {
+      name: 'recommendation-cleanup',
+      description: 'Deletes expired player recommendations',
+      schedule: '30 8 * * *',
+      handler: async () => {
+        const { count } = await prisma.playerRecommendation.deleteMany({
+          where: { expiresAt: { lt: new Date() } },
+        });
+        return { deleted: count };
+      },
+    },
+    {
+      name: 'notification-cleanup',
+      description: 'Deletes expired notifications',
+      schedule: '45 8 * * *',
+      handler: async () => notifications.deleteExpired(),
+    },
+  ];
+}
+
+export function registerScheduledJobs(scheduler: JobScheduler, dependencies: ScheduledJobDependencies): void {
+  createScheduledJobs(dependencies).forEach(definition => scheduler.register(definition));
+}
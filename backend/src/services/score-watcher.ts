@@ -0,0 +1,86 @@
+import { createClient } from 'redis';
+import { sleeperAPIService as defaultSleeperAPI, SleeperAPIService } from './sleeper-api-service';
+import { realtimeGateway as defaultRealtimeGateway, RealtimeGateway } from './realtime-gateway';
+
+type RedisClient = ReturnType<typeof createClient>;
+
+const SNAPSHOT_PREFIX = 'realtime:scores';
+const SNAPSHOT_TTL_SECONDS = 7 * 24 * 60 * 60;
+
+export interface RosterScore {
+  rosterId: number;
+  matchupId: number | null;
+  points: number;
+  previousPoints: number;
+}
+
+interface ScoreSnapshot {
+  week: number;
+  rosters: { [rosterId: string]: { points: number; starters: string[] } };
+}
+
+export interface ScoreCheckResult {
+  scoreUpdates: number;
+  lineupChanges: number;
+}
+
+/**
+ * Compares a league's current matchups with the last snapshot in Redis and
+ * publishes score_update and lineup_change events for what moved.
+ */
+export class ScoreWatcher {
+  private sleeperAPI: SleeperAPIService;
+  private realtime: RealtimeGateway;
+
+  constructor(sleeperAPIService?: SleeperAPIService, realtimeGatewayInstance?: RealtimeGateway) {
+    this.sleeperAPI = sleeperAPIService || defaultSleeperAPI;
+    this.realtime = realtimeGatewayInstance || defaultRealtimeGateway;
+  }
+
+  async checkLeague(redis: RedisClient, leagueId: string, sleeperLeagueId: string, week: number): Promise<ScoreCheckResult> {
+    const key = `${SNAPSHOT_PREFIX}:${leagueId}`;
+    const [matchups, stored] = await Promise.all([
+      this.sleeperAPI.getLeagueMatchups(sleeperLeagueId, week),
+      redis.get(key),
+    ]);
+
+    const previous: ScoreSnapshot | null = stored ? JSON.parse(stored) : null;
+    const snapshot: ScoreSnapshot = { week, rosters: {} };
+    const scores: RosterScore[] = [];
+    let lineupChanges = 0;
+
+    for (const matchup of matchups || []) {
+      const points = matchup.custom_points ?? matchup.points ?? 0;
+      const starters = matchup.starters || [];
+      snapshot.rosters[matchup.roster_id] = { points, starters };
+
+      // The first look at a week only records the baseline
+      const before = previous?.week === week ? previous.rosters[matchup.roster_id] : undefined;
+      if (!before) continue;
+
+      if (before.points !== points) {
+        scores.push({ rosterId: matchup.roster_id, matchupId: matchup.matchup_id ?? null, points, previousPoints: before.points });
+      }
+
+      if (before.starters.join(',') !== starters.join(',')) {
+        lineupChanges++;
+        await this.realtime.publishToLeague(leagueId, 'lineup_change', {
+          week,
+          rosterId: matchup.roster_id,
+          starters,
+          previousStarters: before.starters,
+        });
+      }
+    }
+
+    if (scores.length > 0) {
+      await this.realtime.publishToLeague(leagueId, 'score_update', { week, scores });
+    }
+
+    await redis.set(key, JSON.stringify(snapshot), { EX: SNAPSHOT_TTL_SECONDS });
+
+    return { scoreUpdates: scores.length, lineupChanges };
+  }
+}
+
+export const scoreWatcher = new ScoreWatcher();
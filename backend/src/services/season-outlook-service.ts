@@ -0,0 +1,564 @@
+import { PrismaClient, Prisma } from '@prisma/client';
+import { calculateFantasyPoints, ScoringSettings, StatLine } from '@fantasy-app/shared';
+import { sleeperAPIService as defaultSleeperAPI, SleeperAPIService, SleeperPlayer, SleeperRoster } from './sleeper-api-service';
+import { playerService as defaultPlayerService, PlayerService } from './player-service';
+import {
+  playoffOddsService as defaultPlayoffOddsService,
+  PlayoffOddsResult,
+  PlayoffOddsService,
+  SeasonContext,
+} from './playoff-odds-service';
+import { aiAgentClient as defaultAIAgentClient, AIAgentClient } from './ai-agent-client';
+
+const prisma = new PrismaClient();
+
+// Positions rated on their own starting slots; flex slots are covered by depth
+const OUTLOOK_POSITIONS = ['QB', 'RB', 'WR', 'TE', 'K', 'DEF'];
+// Starters on bye in the same week before it counts as a cluster
+const BYE_CLUSTER_SIZE = 2;
+const STRONG_PLAYOFF_ODDS = 0.75;
+const WEAK_PLAYOFF_ODDS = 0.25;
+// Candidates handed to the agent, which picks the top three
+const MAX_CANDIDATE_ACTIONS = 6;
+
+export type SeasonOutlookActionType = 'trade' | 'waiver';
+
+export interface SeasonOutlookPosition {
+  position: string;
+  starterSlots: number;
+  starterPoints: number; // Rest-of-season projection of the best `starterSlots` players
+  leagueRank: number; // 1 = best starters at the position
+  players: { playerId: string; name: string; points: number; starter: boolean; byeWeek: number | null }[];
+}
+
+export interface SeasonOutlookSchedule {
+  remainingGames: number;
+  averageOpponentScore: number;
+  leagueAverageScore: number;
+  difficultyRank: number; // 1 = hardest remaining schedule
+  games: { week: number; opponent: string; opponentAverage: number }[];
+}
+
+export interface SeasonOutlookByeWeek {
+  week: number;
+  starters: { name: string; position: string }[];
+}
+
+export interface SeasonOutlookAction {
+  type: SeasonOutlookActionType;
+  position: string;
+  detail: string;
+}
+
+// Sent to the ai-service season outlook agent and stored as the analysis input
+export interface SeasonOutlookFacts {
+  leagueName: string;
+  teamName: string;
+  week: number;
+  teamCount: number;
+  playoffs: {
+    record: { wins: number; losses: number; ties: number };
+    projectedWins: number;
+    playoffOdds: number;
+    byeOdds: number;
+    champOdds: number;
+    clinched: boolean;
+    eliminated: boolean;
+  };
+  positions: SeasonOutlookPosition[];
+  schedule: SeasonOutlookSchedule;
+  byeWeeks: SeasonOutlookByeWeek[];
+  strengths: string[];
+  weaknesses: string[];
+  candidateActions: SeasonOutlookAction[];
+}
+
+// Written by the ai-service season outlook agent
+export interface SeasonOutlookReport {
+  summary: string;
+  strengths: string[];
+  weaknesses: string[];
+  actions: SeasonOutlookAction[];
+  provider: string | null; // null when the agent fell back to a report built from the numbers
+  model: string | null;
+  isFallback: boolean;
+  fallbackReason?: string;
+}
+
+export interface SeasonOutlook extends Omit<SeasonOutlookFacts, 'strengths' | 'weaknesses' | 'candidateActions'>, SeasonOutlookReport {
+  id: string;
+  leagueId: string;
+  rosterId: number;
+  createdAt: string;
+}
+
+export interface SeasonOutlookOptions {
+  refresh?: boolean;
+}
+
+type AnalysisRow = Prisma.AIAnalysisGetPayload<{}>;
+
+interface RatedPlayer {
+  playerId: string;
+  name: string;
+  position: string;
+  nflTeam: string | null;
+  points: number;
+}
+
+const round = (value: number) => Math.round(value * 100) / 100;
+const mean = (values: number[]) => values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : 0;
+
+/**
+ * Builds a team's rest-of-season outlook from its positional depth,
+ * remaining strength of schedule, bye week clustering and simulated
+ * playoff odds, and has the ai-service season outlook agent turn it into
+ * strengths, weaknesses and the top three actions. Outlooks are stored per
+ * team per week.
+ */
+export class SeasonOutlookService {
+  private sleeperAPI: SleeperAPIService;
+  private prisma: PrismaClient;
+  private players: PlayerService;
+  private playoffOdds: PlayoffOddsService;
+  private aiAgents: AIAgentClient;
+
+  constructor(
+    sleeperAPIService?: SleeperAPIService,
+    prismaClient?: PrismaClient,
+    playerServiceInstance?: PlayerService,
+    playoffOddsServiceInstance?: PlayoffOddsService,
+    aiAgentClientInstance?: AIAgentClient
+  ) {
+    this.sleeperAPI = sleeperAPIService || defaultSleeperAPI;
+    this.prisma = prismaClient || prisma;
+    this.players = playerServiceInstance || defaultPlayerService;
+    this.playoffOdds = playoffOddsServiceInstance || defaultPlayoffOddsService;
+    this.aiAgents = aiAgentClientInstance || defaultAIAgentClient;
+  }
+
+  /**
+   * The outlook for `userId`'s team as of the next unplayed week, or null
+   * when they have no roster in the league or the regular season is over.
+   */
+  async getOutlook(leagueId: string, userId: string, options: SeasonOutlookOptions = {}): Promise<SeasonOutlook | null> {
+    try {
+      const [league, user] = await Promise.all([
+        this.prisma.league.findUnique({ where: { id: leagueId } }),
+        this.prisma.user.findUnique({ where: { id: userId }, select: { sleeperUserId: true } }),
+      ]);
+      if (!league) {
+        throw new Error(`League not found for ID: ${leagueId}`);
+      }
+      if (!user?.sleeperUserId) {
+        return null;
+      }
+
+      const rosters = await this.sleeperAPI.getLeagueRosters(league.sleeperLeagueId);
+      const sleeperUserId = user.sleeperUserId;
+      const roster = rosters.find(entry =>
+        entry.owner_id === sleeperUserId ||
+        entry.co_owners?.includes(sleeperUserId)
+      );
+      if (!roster) {
+        return null;
+      }
+
+      const context = await this.playoffOdds.loadSeasonContext(league.sleeperLeagueId);
+      const week = context.remainingWeeks[0];
+      if (!week) {
+        return null;
+      }
+
+      if (!options.refresh) {
+        const existing = await this.findOutlook(leagueId, roster.roster_id, week);
+        if (existing) {
+          return this.toSeasonOutlook(existing);
+        }
+      }
+
+      const facts = await this.buildFacts(leagueId, league.sleeperLeagueId, context, rosters, roster.roster_id);
+      const startTime = Date.now();
+      const report = await this.aiAgents.post<SeasonOutlookReport>('/ai/season-outlook', facts);
+
+      const row = await this.prisma.aIAnalysis.create({
+        data: {
+          userId,
+          leagueId,
+          analysisType: 'season_outlook',
+          input: facts as unknown as Prisma.InputJsonValue,
+          output: report as unknown as Prisma.InputJsonValue,
+          metadata: {
+            week,
+            rosterId: roster.roster_id,
+            provider: report.provider,
+            model: report.model,
+            processingTime: Date.now() - startTime,
+          },
+        },
+      });
+
+      return this.toSeasonOutlook(row);
+    } catch (error) {
+      console.error('Season outlook failed:', error);
+      throw new Error(`Season outlook failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  async buildFacts(
+    leagueId: string,
+    sleeperLeagueId: string,
+    context: SeasonContext,
+    rosters: SleeperRoster[],
+    rosterId: number
+  ): Promise<SeasonOutlookFacts> {
+    const { league, teams, remainingWeeks } = context;
+    const team = teams.find(entry => entry.rosterId === rosterId);
+    if (!team) {
+      throw new Error(`Roster ${rosterId} not found in league ${sleeperLeagueId}`);
+    }
+
+    const rosteredIds = Array.from(new Set(rosters.flatMap(entry => entry.players || [])));
+    const rostered = new Set(rosteredIds);
+
+    // Only rostered players are kept from each week's projections
+    const [players, weeklyProjections, odds] = await Promise.all([
+      rosteredIds.length > 0 ? this.players.getPlayers(rosteredIds) : Promise.resolve({}),
+      Promise.all(remainingWeeks.map(week =>
+        this.sleeperAPI.getPlayerProjections('nfl', league.season, 'regular', week)
+          .then((data: { [playerId: string]: StatLine } | null) => Object.fromEntries(
+            Object.entries(data || {}).filter(([playerId]) => rostered.has(playerId))
+          ) as { [playerId: string]: StatLine })
+          .catch(() => ({} as { [playerId: string]: StatLine }))
+      )),
+      this.playoffOdds.getPlayoffOdds(leagueId, sleeperLeagueId),
+    ]) as [{ [playerId: string]: SleeperPlayer }, { [playerId: string]: StatLine }[], PlayoffOddsResult];
+
+    const teamOdds = odds.teams.find(entry => entry.rosterId === rosterId);
+    if (!teamOdds) {
+      throw new Error(`No playoff odds for roster ${rosterId}`);
+    }
+
+    const scoring: ScoringSettings = league.scoring_settings || {};
+    const rated = new Map<string, RatedPlayer>();
+    rosteredIds.forEach(playerId => {
+      const player = players[playerId];
+      if (!player?.position) return;
+
+      const points = weeklyProjections.reduce((total, projections) => projections[playerId]
+        ? total + calculateFantasyPoints(projections[playerId], scoring, player.position)
+        : total, 0);
+
+      rated.set(playerId, {
+        playerId,
+        name: player.full_name || `${player.first_name} ${player.last_name}`.trim(),
+        position: player.position,
+        nflTeam: player.team || null,
+        points: round(points),
+      });
+    });
+
+    const byeWeeks = this.findTeamByes(Array.from(rated.values()), remainingWeeks, weeklyProjections);
+    const positions = this.rateDepth(rosters, rosterId, league.roster_positions || [], rated, byeWeeks);
+    const schedule = this.rateSchedule(context, rosterId);
+
+    const starterByes = remainingWeeks
+      .map(week => ({
+        week,
+        starters: positions.flatMap(position => position.players
+          .filter(player => player.starter && player.byeWeek === week)
+          .map(player => ({ name: player.name, position: position.position }))),
+      }))
+      .filter(bye => bye.starters.length > 0);
+
+    const facts = {
+      leagueName: league.name,
+      teamName: team.teamName,
+      week: remainingWeeks[0],
+      teamCount: teams.length,
+      playoffs: {
+        record: { wins: teamOdds.record.wins, losses: teamOdds.record.losses, ties: teamOdds.record.ties },
+        projectedWins: teamOdds.projectedWins,
+        playoffOdds: teamOdds.playoffOdds,
+        byeOdds: teamOdds.byeOdds,
+        champOdds: teamOdds.champOdds,
+        clinched: teamOdds.clinched,
+        eliminated: teamOdds.eliminated,
+      },
+      positions,
+      schedule,
+      byeWeeks: starterByes,
+    };
+
+    return {
+      ...facts,
+      ...this.describe(facts),
+      candidateActions: this.suggestActions(facts),
+    };
+  }
+
+  /**
+   * Bye week per NFL team: the one remaining week none of its rostered
+   * players is projected. Teams missing more than one week are left out,
+   * since injuries can empty a week just as well.
+   */
+  private findTeamByes(
+    players: RatedPlayer[],
+    remainingWeeks: number[],
+    weeklyProjections: { [playerId: string]: StatLine }[]
+  ): Map<string, number> {
+    const projectedWeeks = new Map<string, Set<number>>();
+    players.forEach(player => {
+      if (!player.nflTeam) return;
+
+      const weeks = projectedWeeks.get(player.nflTeam) || new Set<number>();
+      weeklyProjections.forEach((projections, index) => {
+        if (projections[player.playerId]) {
+          weeks.add(remainingWeeks[index]);
+        }
+      });
+      projectedWeeks.set(player.nflTeam, weeks);
+    });
+
+    const byes = new Map<string, number>();
+    projectedWeeks.forEach((weeks, nflTeam) => {
+      const missing = remainingWeeks.filter(week => !weeks.has(week));
+      if (weeks.size > 0 && missing.length === 1) {
+        byes.set(nflTeam, missing[0]);
+      }
+    });
+    return byes;
+  }
+
+  /**
+   * Rates each position by the rest-of-season projection of its best
+   * starters and ranks that against every other roster in the league.
+   */
+  private rateDepth(
+    rosters: SleeperRoster[],
+    rosterId: number,
+    rosterPositions: string[],
+    rated: Map<string, RatedPlayer>,
+    byes: Map<string, number>
+  ): SeasonOutlookPosition[] {
+    const slots = OUTLOOK_POSITIONS
+      .map(position => ({ position, count: rosterPositions.filter(slot => slot === position).length }))
+      .filter(slot => slot.count > 0);
+
+    const depthByRoster = new Map(rosters.map(roster => {
+      const players = (roster.players || [])
+        .map(playerId => rated.get(playerId))
+        .filter((player): player is RatedPlayer => !!player)
+        .sort((a, b) => b.points - a.points);
+
+      return [roster.roster_id, slots.map(({ position, count }) => {
+        const atPosition = players.filter(player => player.position === position);
+        return {
+          players: atPosition,
+          starterPoints: round(atPosition.slice(0, count).reduce((total, player) => total + player.points, 0)),
+        };
+      })];
+    }));
+
+    const own = depthByRoster.get(rosterId) || [];
+    return slots.map(({ position, count }, index) => {
+      const { players, starterPoints } = own[index] || { players: [], starterPoints: 0 };
+      const better = Array.from(depthByRoster.entries())
+        .filter(([otherId, depth]) => otherId !== rosterId && depth[index].starterPoints > starterPoints)
+        .length;
+
+      return {
+        position,
+        starterSlots: count,
+        starterPoints,
+        leagueRank: better + 1,
+        players: players.map((player, playerIndex) => ({
+          playerId: player.playerId,
+          name: player.name,
+          points: player.points,
+          starter: playerIndex < count,
+          byeWeek: player.nflTeam ? byes.get(player.nflTeam) ?? null : null,
+        })),
+      };
+    });
+  }
+
+  /**
+   * Strength of the remaining schedule from each opponent's scoring mean;
+   * ranked across the league, 1 being the hardest.
+   */
+  private rateSchedule(context: SeasonContext, rosterId: number): SeasonOutlookSchedule {
+    const { teams, remainingGames } = context;
+    const gamesByTeam = teams.map(() => [] as { week: number; opponent: number }[]);
+    remainingGames.forEach(game => {
+      gamesByTeam[game.home].push({ week: game.week, opponent: game.away });
+      gamesByTeam[game.away].push({ week: game.week, opponent: game.home });
+    });
+
+    const averages = gamesByTeam.map(games => mean(games.map(game => teams[game.opponent].scoreMean)));
+    const index = teams.findIndex(team => team.rosterId === rosterId);
+    const harder = averages.filter((average, other) =>
+      other !== index && gamesByTeam[other].length > 0 && average > averages[index]
+    ).length;
+
+    return {
+      remainingGames: gamesByTeam[index].length,
+      averageOpponentScore: round(averages[index]),
+      leagueAverageScore: round(mean(teams.map(team => team.scoreMean))),
+      difficultyRank: harder + 1,
+      games: gamesByTeam[index].map(game => ({
+        week: game.week,
+        opponent: teams[game.opponent].teamName,
+        opponentAverage: round(teams[game.opponent].scoreMean),
+      })),
+    };
+  }
+
+  // Top and bottom third of the league count as strengths and weaknesses
+  private describe(facts: Omit<SeasonOutlookFacts, 'strengths' | 'weaknesses' | 'candidateActions'>): Pick<SeasonOutlookFacts, 'strengths' | 'weaknesses'> {
+    const { teamCount, playoffs, schedule } = facts;
+    const third = Math.max(1, Math.floor(teamCount / 3));
+    const strengths: string[] = [];
+    const weaknesses: string[] = [];
+
+    if (playoffs.clinched) {
+      strengths.push('Playoff spot clinched');
+    } else if (playoffs.eliminated) {
+      weaknesses.push('Eliminated from playoff contention');
+    } else if (playoffs.playoffOdds >= STRONG_PLAYOFF_ODDS) {
+      strengths.push(`${Math.round(playoffs.playoffOdds * 100)}% playoff odds`);
+    } else if (playoffs.playoffOdds <= WEAK_PLAYOFF_ODDS) {
+      weaknesses.push(`Only ${Math.round(playoffs.playoffOdds * 100)}% playoff odds`);
+    }
+
+    facts.positions.forEach(position => {
+      const rating = `${position.position} starters rank ${position.leagueRank} of ${teamCount} (${position.starterPoints} projected points rest of season)`;
+      if (position.leagueRank <= third) {
+        strengths.push(rating);
+      } else if (position.leagueRank > teamCount - third) {
+        weaknesses.push(rating);
+      }
+    });
+
+    if (schedule.remainingGames > 0) {
+      const opponents = `opponents average ${schedule.averageOpponentScore} against a league average of ${schedule.leagueAverageScore}`;
+      if (schedule.difficultyRank > teamCount - third) {
+        strengths.push(`One of the easiest remaining schedules: ${opponents}`);
+      } else if (schedule.difficultyRank <= third) {
+        weaknesses.push(`One of the hardest remaining schedules: ${opponents}`);
+      }
+    }
+
+    facts.byeWeeks
+      .filter(bye => bye.starters.length >= BYE_CLUSTER_SIZE)
+      .forEach(bye => weaknesses.push(
+        `Week ${bye.week}: ${bye.starters.length} starters on bye (${bye.starters.map(starter => starter.name).join(', ')})`
+      ));
+
+    return { strengths, weaknesses };
+  }
+
+  /**
+   * Candidate actions, most urgent first: upgrade weak positions (by trade
+   * when a strong position has bench depth to deal), cover bye clusters on
+   * waivers, then add depth where the starters rank lowest.
+   */
+  private suggestActions(facts: Omit<SeasonOutlookFacts, 'strengths' | 'weaknesses' | 'candidateActions'>): SeasonOutlookAction[] {
+    const { teamCount, positions } = facts;
+    const third = Math.max(1, Math.floor(teamCount / 3));
+    const byRank = [...positions].sort((a, b) => b.leagueRank - a.leagueRank);
+    const actions = new Map<string, SeasonOutlookAction>();
+    const add = (action: SeasonOutlookAction) => {
+      const key = `${action.type}:${action.position}`;
+      if (!actions.has(key)) actions.set(key, action);
+    };
+
+    const surplus = positions
+      .filter(position => position.leagueRank <= third)
+      .map(position => ({ position, bench: position.players.find(player => !player.starter && player.points > 0) }))
+      .find(entry => entry.bench);
+
+    byRank
+      .filter(position => position.leagueRank > teamCount - third)
+      .forEach(position => add(surplus
+        ? {
+          type: 'trade',
+          position: position.position,
+          detail: `Trade ${surplus.position.position} depth such as ${surplus.bench!.name} for a ${position.position} upgrade; ` +
+            `your starters rank ${position.leagueRank} of ${teamCount}`,
+        }
+        : {
+          type: 'waiver',
+          position: position.position,
+          detail: `Make ${position.position} your top waiver priority; your starters rank ${position.leagueRank} of ${teamCount}`,
+        }));
+
+    facts.byeWeeks
+      .filter(bye => bye.starters.length >= BYE_CLUSTER_SIZE)
+      .forEach(bye => {
+        const counts = new Map<string, number>();
+        bye.starters.forEach(starter => counts.set(starter.position, (counts.get(starter.position) || 0) + 1));
+        const position = Array.from(counts.entries()).sort((a, b) => b[1] - a[1])[0][0];
+        add({
+          type: 'waiver',
+          position,
+          detail: `Add a ${position} to cover week ${bye.week}, when ${bye.starters.length} starters are on bye`,
+        });
+      });
+
+    byRank.forEach(position => add({
+      type: 'waiver',
+      position: position.position,
+      detail: `Add ${position.position} depth; your starters rank ${position.leagueRank} of ${teamCount}`,
+    }));
+
+    return Array.from(actions.values()).slice(0, MAX_CANDIDATE_ACTIONS);
+  }
+
+  // Fallback reports are never reused, so a failed run is retried on the next request
+  private findOutlook(leagueId: string, rosterId: number, week: number): Promise<AnalysisRow | null> {
+    return this.prisma.aIAnalysis.findFirst({
+      where: {
+        leagueId,
+        analysisType: 'season_outlook',
+        AND: [
+          { metadata: { path: ['rosterId'], equals: rosterId } },
+          { metadata: { path: ['week'], equals: week } },
+          { output: { path: ['isFallback'], equals: false } },
+        ],
+      },
+      orderBy: { createdAt: 'desc' },
+    });
+  }
+
+  private toSeasonOutlook(row: AnalysisRow): SeasonOutlook {
+    const facts = row.input as unknown as SeasonOutlookFacts;
+    const report = row.output as unknown as SeasonOutlookReport;
+    const metadata = row.metadata as { rosterId: number };
+
+    return {
+      id: row.id,
+      leagueId: row.leagueId as string,
+      rosterId: metadata.rosterId,
+      leagueName: facts.leagueName,
+      teamName: facts.teamName,
+      week: facts.week,
+      teamCount: facts.teamCount,
+      playoffs: facts.playoffs,
+      positions: facts.positions,
+      schedule: facts.schedule,
+      byeWeeks: facts.byeWeeks,
+      summary: report.summary,
+      strengths: report.strengths,
+      weaknesses: report.weaknesses,
+      actions: report.actions,
+      provider: report.provider,
+      model: report.model,
+      isFallback: report.isFallback,
+      fallbackReason: report.fallbackReason,
+      createdAt: row.createdAt.toISOString(),
+    };
+  }
+}
+
+export const seasonOutlookService = new SeasonOutlookService();
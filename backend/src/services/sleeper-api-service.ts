@@ -12,11 +12,13 @@ export interface SleeperLeague {
   scoring_settings: any;
   roster_positions: string[];
   total_rosters: number;
+  previous_league_id?: string | null; // Same league in the prior season, when it was renewed
 }
 
 export interface SleeperRoster {
   roster_id: number;
   owner_id: string;
+  co_owners?: string[]; // Sleeper user ids sharing the roster with the owner
   user_id: string;
   league_id: string;
   players: string[];
@@ -57,6 +59,60 @@ export interface SleeperMatchup {
   custom_points?: number;
 }
 
+export interface SleeperTransaction {
+  transaction_id: string;
+  type: 'trade' | 'waiver' | 'free_agent' | 'commissioner';
+  status: 'complete' | 'failed' | 'pending' | string;
+  leg: number; // Week the transaction was made in
+  creator: string;
+  created: number;
+  status_updated: number;
+  roster_ids: number[];
+  adds: { [playerId: string]: number } | null; // Player -> receiving roster
+  drops: { [playerId: string]: number } | null; // Player -> releasing roster
+  draft_picks: {
+    season: string;
+    round: number;
+    roster_id: number; // Original owner of the pick
+    previous_owner_id: number;
+    owner_id: number;
+  }[];
+  waiver_budget: { sender: number; receiver: number; amount: number }[];
+  settings: { waiver_bid?: number; [key: string]: any } | null;
+}
+
+export interface SleeperDraft {
+  draft_id: string;
+  league_id: string;
+  season: string;
+  type: 'snake' | 'linear' | 'auction' | string;
+  status: 'pre_draft' | 'drafting' | 'paused' | 'complete' | string;
+  start_time: number | null;
+  settings: { teams: number; rounds: number; [key: string]: any };
+  draft_order: { [userId: string]: number } | null; // User -> draft slot
+  slot_to_roster_id: { [slot: string]: number } | null;
+  metadata: any;
+}
+
+export interface SleeperDraftPick {
+  player_id: string;
+  picked_by: string; // User who made the pick
+  roster_id: number;
+  round: number;
+  draft_slot: number;
+  pick_no: number;
+  is_keeper: boolean | null;
+  draft_id: string;
+  metadata: {
+    first_name?: string;
+    last_name?: string;
+    position?: string;
+    team?: string;
+    amount?: string; // Auction price
+    [key: string]: any;
+  };
+}
+
 export interface SleeperPlayer {
   player_id: string;
   first_name: string;
@@ -73,6 +129,7 @@ export interface SleeperPlayer {
   injury_body_part?: string;
   injury_start_date?: string;
   news_updated?: number;
+  search_rank?: number; // Sleeper's current overall ranking; lower is better
 }
 
 export class SleeperAPIService {
@@ -155,6 +212,23 @@ export class SleeperAPIService {
     return this.makeRequest<SleeperMatchup[]>(`/league/${leagueId}/matchups/${week}`);
   }
 
+  async getLeagueTransactions(leagueId: string, week: number): Promise<SleeperTransaction[]> {
+    return this.makeRequest<SleeperTransaction[]>(`/league/${leagueId}/transactions/${week}`);
+  }
+
+  // Draft endpoints
+  async getLeagueDrafts(leagueId: string): Promise<SleeperDraft[]> {
+    return this.makeRequest<SleeperDraft[]>(`/league/${leagueId}/drafts`);
+  }
+
+  async getDraft(draftId: string): Promise<SleeperDraft> {
+    return this.makeRequest<SleeperDraft>(`/draft/${draftId}`);
+  }
+
+  async getDraftPicks(draftId: string): Promise<SleeperDraftPick[]> {
+    return this.makeRequest<SleeperDraftPick[]>(`/draft/${draftId}/picks`);
+  }
+
   // User endpoints
   async getUserByUsername(username: string): Promise<SleeperUser> {
     return this.makeRequest<SleeperUser>(`/user/${username}`);
@@ -177,6 +251,14 @@ export class SleeperAPIService {
     return this.makeRequest<any>(endpoint);
   }
 
+  async getPlayerProjections(sport: string, season: string, seasonType = 'regular', week?: number): Promise<any> {
+    let endpoint = `/projections/${sport}/${season}`;
+    if (seasonType) endpoint += `/${seasonType}`;
+    if (week) endpoint += `/${week}`;
+
+    return this.makeRequest<any>(endpoint);
+  }
+
   // NFL state
   async getNFLState(): Promise<{ week: number; season: string; season_type: string; [key: string]: any }> {
     return this.makeRequest<{ week: number; season: string; season_type: string; [key: string]: any }>('/state/nfl');
@@ -0,0 +1,274 @@
+import { PrismaClient, Prisma } from '@prisma/client';
+import { calculateFantasyPoints, SCORING_PRESETS, ScoringSettings, StatLine } from '@fantasy-app/shared';
+import { sleeperAPIService as defaultSleeperAPI, SleeperAPIService } from './sleeper-api-service';
+
+const prisma = new PrismaClient();
+
+const UPDATE_BATCH_SIZE = 200;
+export const REGULAR_SEASON_WEEKS = 18;
+
+export interface StoredFantasyPoints {
+  standard: number;
+  ppr: number;
+  halfPpr: number;
+  leagues: { [leagueId: string]: number }; // Keyed by League.id, using each league's scoring_settings
+}
+
+export interface StatsIngestionResult {
+  season: number;
+  week: number | null; // null for season totals
+  total: number;
+  created: number;
+  updated: number;
+  skipped: number; // Stat lines for players missing from the Player table
+  leagues: number;
+}
+
+export interface PlayerStatLine {
+  season: number;
+  week: number | null;
+  stats: StatLine;
+  fantasyPoints: StoredFantasyPoints;
+  updatedAt: Date;
+}
+
+export interface RecentProduction {
+  week: number;
+  points: number;
+}
+
+export class StatsService {
+  private sleeperAPI: SleeperAPIService;
+  private prisma: PrismaClient;
+
+  constructor(sleeperAPIService?: SleeperAPIService, prismaClient?: PrismaClient) {
+    this.sleeperAPI = sleeperAPIService || defaultSleeperAPI;
+    this.prisma = prismaClient || prisma;
+  }
+
+  async ingestWeek(season: number, week: number): Promise<StatsIngestionResult> {
+    if (week < 1 || week > REGULAR_SEASON_WEEKS) {
+      throw new Error(`Invalid week ${week}`);
+    }
+    return this.ingest(season, week);
+  }
+
+  async ingestSeason(season: number): Promise<StatsIngestionResult> {
+    return this.ingest(season, null);
+  }
+
+  /**
+   * Stored stat lines for one player, weekly lines in week order followed by
+   * the season total.
+   */
+  async getPlayerStats(sleeperPlayerId: string, season: number, week?: number): Promise<PlayerStatLine[]> {
+    const rows = await this.prisma.playerStats.findMany({
+      where: {
+        season,
+        player: { sleeperPlayerId },
+        ...(week !== undefined && { week }),
+      },
+    });
+
+    return rows
+      .map(row => ({
+        season: row.season,
+        week: row.week,
+        stats: row.stats as StatLine,
+        fantasyPoints: row.fantasyPoints as unknown as StoredFantasyPoints,
+        updatedAt: row.updatedAt,
+      }))
+      .sort((a, b) => (a.week ?? Infinity) - (b.week ?? Infinity));
+  }
+
+  /**
+   * Fantasy points from each player's most recent weeks before `beforeWeek`,
+   * newest first. Uses the league's own scoring when it has been computed and
+   * PPR otherwise.
+   */
+  async getRecentProduction(
+    sleeperPlayerIds: string[],
+    season: number,
+    beforeWeek: number,
+    options: { weeks?: number; leagueId?: string } = {}
+  ): Promise<{ [sleeperPlayerId: string]: RecentProduction[] }> {
+    const weeks = options.weeks || 3;
+    const production: { [sleeperPlayerId: string]: RecentProduction[] } = {};
+
+    if (sleeperPlayerIds.length === 0 || beforeWeek <= 1) {
+      return production;
+    }
+
+    const rows = await this.prisma.playerStats.findMany({
+      where: {
+        season,
+        week: { gte: Math.max(1, beforeWeek - weeks), lt: beforeWeek },
+        player: { sleeperPlayerId: { in: sleeperPlayerIds } },
+      },
+      include: { player: { select: { sleeperPlayerId: true } } },
+      orderBy: { week: 'desc' },
+    });
+
+    rows.forEach(row => {
+      const points = row.fantasyPoints as unknown as StoredFantasyPoints;
+      const leaguePoints = options.leagueId ? points.leagues?.[options.leagueId] : undefined;
+      const sleeperPlayerId = row.player.sleeperPlayerId;
+
+      (production[sleeperPlayerId] = production[sleeperPlayerId] || []).push({
+        week: row.week as number,
+        points: leaguePoints ?? points.ppr,
+      });
+    });
+
+    return production;
+  }
+
+  private async ingest(season: number, week: number | null): Promise<StatsIngestionResult> {
+    const label = week === null ? `${season} season totals` : `${season} week ${week}`;
+
+    try {
+      console.log(`Ingesting player stats for ${label}`);
+      const sleeperStats: { [sleeperPlayerId: string]: StatLine } =
+        await this.sleeperAPI.getPlayerStats('nfl', season.toString(), 'regular', week ?? undefined) || {};
+
+      const [players, leagueScoring] = await Promise.all([
+        this.prisma.player.findMany({ select: { id: true, sleeperPlayerId: true, position: true } }),
+        this.getLeagueScoring(season),
+      ]);
+      const playersById = new Map(players.map(player => [player.sleeperPlayerId, player]));
+
+      const lines: { playerId: string; stats: StatLine; fantasyPoints: StoredFantasyPoints }[] = [];
+      let skipped = 0;
+
+      Object.entries(sleeperStats).forEach(([sleeperPlayerId, rawStats]) => {
+        const stats = this.cleanStats(rawStats);
+        if (Object.keys(stats).length === 0) return;
+
+        const player = playersById.get(sleeperPlayerId);
+        if (!player) {
+          skipped++;
+          return;
+        }
+
+        lines.push({
+          playerId: player.id,
+          stats,
+          fantasyPoints: this.scoreStats(stats, player.position, leagueScoring),
+        });
+      });
+
+      // week is nullable, so season totals cannot use the compound unique key
+      const existingRows = await this.prisma.playerStats.findMany({
+        where: { season, week },
+        select: { id: true, playerId: true },
+      });
+      const existing = new Map(existingRows.map(row => [row.playerId, row.id]));
+
+      const creates = lines.filter(line => !existing.has(line.playerId));
+      const updates = lines.filter(line => existing.has(line.playerId));
+
+      if (creates.length > 0) {
+        await this.prisma.playerStats.createMany({
+          data: creates.map(line => ({
+            playerId: line.playerId,
+            season,
+            week,
+            stats: line.stats,
+            fantasyPoints: line.fantasyPoints as unknown as Prisma.InputJsonValue,
+          })),
+        });
+      }
+
+      for (let i = 0; i < updates.length; i += UPDATE_BATCH_SIZE) {
+        await this.prisma.$transaction(
+          updates.slice(i, i + UPDATE_BATCH_SIZE).map(line =>
+            this.prisma.playerStats.update({
+              where: { id: existing.get(line.playerId) },
+              data: {
+                stats: line.stats,
+                fantasyPoints: line.fantasyPoints as unknown as Prisma.InputJsonValue,
+              },
+            })
+          )
+        );
+      }
+
+      const result: StatsIngestionResult = {
+        season,
+        week,
+        total: lines.length,
+        created: creates.length,
+        updated: updates.length,
+        skipped,
+        leagues: Object.keys(leagueScoring).length,
+      };
+
+      console.log(`Stats ingestion for ${label} complete: ${result.created} created, ${result.updated} updated`);
+      return result;
+    } catch (error) {
+      console.error(`Stats ingestion failed for ${label}:`, error);
+      throw new Error(`Stats ingestion failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  // Scoring settings of every stored league in the season, keyed by League.id
+  private async getLeagueScoring(season: number): Promise<{ [leagueId: string]: ScoringSettings }> {
+    const leagues = await this.prisma.league.findMany({
+      where: { season },
+      select: { id: true, sleeperLeagueId: true, settings: true },
+    });
+
+    const scoring: { [leagueId: string]: ScoringSettings } = {};
+    for (const league of leagues) {
+      // Synced leagues keep Sleeper's scoring_settings under settings.scoring
+      const stored = (league.settings as Prisma.JsonObject | null)?.scoring as ScoringSettings | undefined;
+      if (stored && Object.keys(stored).length > 0) {
+        scoring[league.id] = stored;
+        continue;
+      }
+
+      try {
+        const sleeperLeague = await this.sleeperAPI.getLeague(league.sleeperLeagueId);
+        if (sleeperLeague?.scoring_settings) {
+          scoring[league.id] = sleeperLeague.scoring_settings;
+        }
+      } catch (error) {
+        // The presets are still stored; league points fill in on the next run
+        console.warn(`Could not load scoring settings for league ${league.sleeperLeagueId}:`, error);
+      }
+    }
+
+    return scoring;
+  }
+
+  private scoreStats(
+    stats: StatLine,
+    position: string,
+    leagueScoring: { [leagueId: string]: ScoringSettings }
+  ): StoredFantasyPoints {
+    const leagues: { [leagueId: string]: number } = {};
+    Object.entries(leagueScoring).forEach(([leagueId, settings]) => {
+      leagues[leagueId] = calculateFantasyPoints(stats, settings, position);
+    });
+
+    return {
+      standard: calculateFantasyPoints(stats, SCORING_PRESETS.standard, position),
+      ppr: calculateFantasyPoints(stats, SCORING_PRESETS.ppr, position),
+      halfPpr: calculateFantasyPoints(stats, SCORING_PRESETS.halfPpr, position),
+      leagues,
+    };
+  }
+
+  // Keeps numeric stats and drops Sleeper's own precomputed point totals
+  private cleanStats(rawStats: any): StatLine {
+    const stats: StatLine = {};
+    Object.entries(rawStats || {}).forEach(([statKey, value]) => {
+      if (typeof value === 'number' && !['pts_std', 'pts_ppr', 'pts_half_ppr'].includes(statKey)) {
+        stats[statKey] = value;
+      }
+    });
+    return stats;
+  }
+}
+
+export const statsService = new StatsService();
@@ -0,0 +1,439 @@
+import { createHash } from 'crypto';
+import { PrismaClient, Prisma } from '@prisma/client';
+import { calculateFantasyPoints, FLEX_ELIGIBILITY, ScoringSettings, solveLineup, StatLine } from '@fantasy-app/shared';
+import {
+  sleeperAPIService as defaultSleeperAPI,
+  SleeperAPIService,
+  SleeperPlayer,
+  SleeperRoster,
+  SleeperUser,
+} from './sleeper-api-service';
+import { playerService as defaultPlayerService, PlayerService } from './player-service';
+import { aiAgentClient as defaultAIAgentClient, AIAgentClient } from './ai-agent-client';
+
+const prisma = new PrismaClient();
+
+const NON_STARTING_SLOTS = new Set(['BN', 'IR', 'TAXI']);
+// Season-long projections are spread over this many games for a weekly figure
+const PROJECTED_GAMES = 17;
+// Projected points per week each lineup has to gain for a trade to count
+const MIN_LINEUP_GAIN = 1;
+// Only each roster's most valuable players are shopped, which bounds the 2-for-1 search
+const MAX_TRADE_CANDIDATES = 15;
+const MAX_SUGGESTIONS = 5;
+const MAX_SUGGESTIONS_PER_PARTNER = 2;
+// Rosters rarely change by the hour, but projections do between games
+const FINDER_TTL_MS = 12 * 60 * 60 * 1000;
+
+export type TradePackageShape = '1-for-1' | '2-for-1' | '1-for-2'; // Players given, then received
+
+export interface TradeFinderPlayer {
+  playerId: string;
+  name: string;
+  position: string;
+  nflTeam: string | null;
+  projectedPoints: number; // Per week
+}
+
+export interface PositionOutlook {
+  position: string;
+  need: number; // Projected points per starter below the league average, 0 when at or above it
+  surplus: number; // Projected points of the best bench player at the position
+}
+
+// The parts of the ai-service TradeAnalyzer's analysis the finder keeps
+export interface TradeFinderAnalysis {
+  fairnessScore: number;
+  team1Analysis: { grade: string; recommendation: { decision: string; reasoning: string } };
+  team2Analysis: { grade: string; recommendation: { decision: string; reasoning: string } };
+  summary: string;
+  keyInsights: string[];
+  isFallback: boolean; // The TradeAnalyzer's reply was unusable and this is placeholder analysis
+  fallbackReason?: string;
+}
+
+export interface TradeSuggestion {
+  partner: { rosterId: number; teamName: string };
+  shape: TradePackageShape;
+  give: TradeFinderPlayer[];
+  receive: TradeFinderPlayer[];
+  lineupGain: { mine: number; theirs: number }; // Projected starting lineup points per week
+  fairness: number; // 0-1, 1 when both lineups improve by the same amount
+  addresses: { mine: string[]; theirs: string[] }; // Positions of need each side fills
+  analysis: TradeFinderAnalysis | null; // null when the TradeAnalyzer was unavailable
+}
+
+export interface TradeFinderResult {
+  id: string;
+  leagueId: string;
+  rosterId: number;
+  needs: PositionOutlook[];
+  suggestions: TradeSuggestion[];
+  createdAt: string;
+}
+
+export interface TradeFinderOptions {
+  refresh?: boolean;
+}
+
+type AnalysisRow = Prisma.AIAnalysisGetPayload<{}>;
+
+interface RatedPlayer extends TradeFinderPlayer {
+  eligible: string[]; // Fantasy positions, for flex slots
+}
+
+interface TeamProfile {
+  roster: SleeperRoster;
+  teamName: string;
+  players: RatedPlayer[]; // Most valuable first
+  lineupPoints: number;
+  outlook: PositionOutlook[];
+}
+
+const round = (value: number) => Math.round(value * 100) / 100;
+const toFinderPlayer = (player: RatedPlayer): TradeFinderPlayer => ({
+  playerId: player.playerId,
+  name: player.name,
+  position: player.position,
+  nflTeam: player.nflTeam,
+  projectedPoints: player.projectedPoints,
+});
+
+/**
+ * Projected points of the best lineup `players` can field, solved exactly so
+ * overlapping flex slots and multi-position players are placed correctly.
+ */
+export function bestLineup(players: RatedPlayer[], slots: string[]): { points: number; starters: RatedPlayer[] } {
+  const solution = solveLineup(
+    players.map(player => ({
+      playerId: player.playerId,
+      playerName: player.name,
+      fantasyPositions: player.eligible,
+      team: '', // No per-team limit
+      projectedPoints: { floor: player.projectedPoints, expected: player.projectedPoints, ceiling: player.projectedPoints },
+    })),
+    slots,
+    { objective: 'expected' }
+  );
+  const starterIds = new Set(Object.values(solution.lineup));
+
+  return { points: solution.objectiveValue, starters: players.filter(player => starterIds.has(player.playerId)) };
+}
+
+/**
+ * Scans every other roster in the league for 1-for-1 and 2-for-1 trades
+ * that improve both teams' projected starting lineups, ranks them by how
+ * evenly the gain is shared and has the ai-service TradeAnalyzer write up
+ * each one.
+ */
+export class TradeFinderService {
+  private sleeperAPI: SleeperAPIService;
+  private prisma: PrismaClient;
+  private players: PlayerService;
+  private aiAgents: AIAgentClient;
+
+  constructor(
+    sleeperAPIService?: SleeperAPIService,
+    prismaClient?: PrismaClient,
+    playerServiceInstance?: PlayerService,
+    aiAgentClientInstance?: AIAgentClient
+  ) {
+    this.sleeperAPI = sleeperAPIService || defaultSleeperAPI;
+    this.prisma = prismaClient || prisma;
+    this.players = playerServiceInstance || defaultPlayerService;
+    this.aiAgents = aiAgentClientInstance || defaultAIAgentClient;
+  }
+
+  /**
+   * Trade suggestions for `userId`'s team, or null when they have no roster
+   * in the league. Stored suggestions are reused while they are fresh and
+   * no roster in the league has changed.
+   */
+  async findTrades(leagueId: string, userId: string, options: TradeFinderOptions = {}): Promise<TradeFinderResult | null> {
+    try {
+      const [league, user] = await Promise.all([
+        this.prisma.league.findUnique({ where: { id: leagueId } }),
+        this.prisma.user.findUnique({ where: { id: userId }, select: { sleeperUserId: true } }),
+      ]);
+      if (!league) {
+        throw new Error(`League not found for ID: ${leagueId}`);
+      }
+      if (!user?.sleeperUserId) {
+        return null;
+      }
+
+      const [sleeperLeague, rosters, users] = await Promise.all([
+        this.sleeperAPI.getLeague(league.sleeperLeagueId),
+        this.sleeperAPI.getLeagueRosters(league.sleeperLeagueId),
+        this.sleeperAPI.getLeagueUsers(league.sleeperLeagueId),
+      ]);
+
+      const sleeperUserId = user.sleeperUserId;
+      const roster = rosters.find(entry =>
+        entry.owner_id === sleeperUserId ||
+        entry.co_owners?.includes(sleeperUserId)
+      );
+      if (!roster) {
+        return null;
+      }
+
+      const rosterKey = createHash('sha1')
+        .update(rosters.map(entry => `${entry.roster_id}:${[...(entry.players || [])].sort().join(',')}`).join('|'))
+        .digest('hex');
+
+      if (!options.refresh) {
+        const existing = await this.findStored(leagueId, roster.roster_id);
+        const metadata = existing?.metadata as { rosterKey?: string } | null;
+        if (existing && metadata?.rosterKey === rosterKey && Date.now() - existing.createdAt.getTime() < FINDER_TTL_MS) {
+          return this.toTradeFinderResult(existing);
+        }
+      }
+
+      const rosteredIds = Array.from(new Set(rosters.flatMap(entry => entry.players || [])));
+      const [players, projections] = await Promise.all([
+        rosteredIds.length > 0 ? this.players.getPlayers(rosteredIds) : Promise.resolve({}),
+        this.sleeperAPI.getPlayerProjections('nfl', sleeperLeague.season, 'regular').then(data => data || {}),
+      ]) as [{ [playerId: string]: SleeperPlayer }, { [playerId: string]: StatLine }];
+
+      const slots = (sleeperLeague.roster_positions || []).filter(position => !NON_STARTING_SLOTS.has(position));
+      const profiles = this.buildProfiles(rosters, users, slots, players, projections, sleeperLeague.scoring_settings || {});
+      const own = profiles.find(profile => profile.roster.roster_id === roster.roster_id)!;
+
+      const suggestions = this.rankSuggestions(
+        profiles
+          .filter(profile => profile !== own)
+          .flatMap(partner => this.findPackages(own, partner, slots))
+      );
+
+      const startTime = Date.now();
+      const partners = new Map(profiles.map(profile => [profile.roster.roster_id, profile]));
+      const analyzed = await Promise.all(suggestions.map(suggestion =>
+        this.analyzeSuggestion(league.sleeperLeagueId, own, partners.get(suggestion.partner.rosterId)!, suggestion)
+      ));
+
+      const output = { needs: own.outlook, suggestions: analyzed };
+      const row = await this.prisma.aIAnalysis.create({
+        data: {
+          userId,
+          leagueId,
+          analysisType: 'trade_finder',
+          input: {
+            rosterId: roster.roster_id,
+            partners: profiles.filter(profile => profile !== own).map(profile => profile.roster.roster_id),
+          },
+          output: output as unknown as Prisma.InputJsonValue,
+          metadata: {
+            rosterId: roster.roster_id,
+            rosterKey,
+            analyzed: analyzed.filter(suggestion => suggestion.analysis).length,
+            processingTime: Date.now() - startTime,
+          },
+        },
+      });
+
+      return this.toTradeFinderResult(row);
+    } catch (error) {
+      console.error('Trade finder failed:', error);
+      throw new Error(`Trade finder failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Values every rostered player, then scores each team's need and surplus
+   * per starting position against the league's average starter.
+   */
+  private buildProfiles(
+    rosters: SleeperRoster[],
+    users: SleeperUser[],
+    slots: string[],
+    players: { [playerId: string]: SleeperPlayer },
+    projections: { [playerId: string]: StatLine },
+    scoring: ScoringSettings
+  ): TeamProfile[] {
+    const userLookup = new Map(users.map(entry => [entry.user_id, entry]));
+
+    const profiles = rosters.map(roster => {
+      const rated = (roster.players || [])
+        .map(playerId => {
+          const player = players[playerId];
+          if (!player?.position) return null;
+          const projection = projections[playerId];
+          return {
+            playerId,
+            name: player.full_name || `${player.first_name} ${player.last_name}`.trim(),
+            position: player.position,
+            nflTeam: player.team || null,
+            projectedPoints: projection && player.team
+              ? round(calculateFantasyPoints(projection, scoring, player.position) / PROJECTED_GAMES)
+              : 0,
+            eligible: player.fantasy_positions?.length ? player.fantasy_positions : [player.position],
+          };
+        })
+        .filter((player): player is RatedPlayer => !!player)
+        .sort((a, b) => b.projectedPoints - a.projectedPoints);
+
+      const owner = userLookup.get(roster.owner_id);
+      const lineup = bestLineup(rated, slots);
+      return {
+        roster,
+        teamName: owner?.metadata?.team_name || owner?.display_name || `Team ${roster.roster_id}`,
+        players: rated,
+        lineupPoints: lineup.points,
+        starters: lineup.starters,
+      };
+    });
+
+    const positions = Array.from(new Set(slots.filter(slot => !FLEX_ELIGIBILITY[slot])));
+    const starterAverage = (starters: RatedPlayer[], position: string) => {
+      const atPosition = starters.filter(player => player.position === position);
+      return atPosition.length > 0 ? atPosition.reduce((total, player) => total + player.projectedPoints, 0) / atPosition.length : 0;
+    };
+    const leagueAverage = new Map(positions.map(position => [
+      position,
+      profiles.reduce((total, profile) => total + starterAverage(profile.starters, position), 0) / Math.max(profiles.length, 1),
+    ]));
+
+    return profiles.map(({ starters, ...profile }) => {
+      const starterIds = new Set(starters.map(player => player.playerId));
+      return {
+        ...profile,
+        outlook: positions.map(position => ({
+          position,
+          need: round(Math.max((leagueAverage.get(position) || 0) - starterAverage(starters, position), 0)),
+          surplus: profile.players.find(player => player.position === position && !starterIds.has(player.playerId))?.projectedPoints || 0,
+        })),
+      };
+    });
+  }
+
+  /**
+   * Every 1-for-1, 2-for-1 and 1-for-2 package between two teams that
+   * improves both starting lineups. The side receiving two players drops
+   * its worst bench player, which never touches the lineup.
+   */
+  private findPackages(own: TeamProfile, partner: TeamProfile, slots: string[]): TradeSuggestion[] {
+    const mine = own.players.filter(player => player.projectedPoints > 0).slice(0, MAX_TRADE_CANDIDATES);
+    const theirs = partner.players.filter(player => player.projectedPoints > 0).slice(0, MAX_TRADE_CANDIDATES);
+    const pairs = (players: RatedPlayer[]) =>
+      players.flatMap((first, index) => players.slice(index + 1).map(second => [first, second]));
+
+    const packages: [RatedPlayer[], RatedPlayer[]][] = [
+      ...mine.flatMap(give => theirs.map(receive => [[give], [receive]] as [RatedPlayer[], RatedPlayer[]])),
+      ...pairs(mine).flatMap(give => theirs.map(receive => [give, [receive]] as [RatedPlayer[], RatedPlayer[]])),
+      ...mine.flatMap(give => pairs(theirs).map(receive => [[give], receive] as [RatedPlayer[], RatedPlayer[]])),
+    ];
+
+    const swap = (profile: TeamProfile, out: RatedPlayer[], incoming: RatedPlayer[]) => {
+      const outIds = new Set(out.map(player => player.playerId));
+      return bestLineup([...profile.players.filter(player => !outIds.has(player.playerId)), ...incoming], slots).points - profile.lineupPoints;
+    };
+
+    return packages.flatMap(([give, receive]) => {
+      const gainMine = swap(own, give, receive);
+      const gainTheirs = swap(partner, receive, give);
+      if (gainMine < MIN_LINEUP_GAIN || gainTheirs < MIN_LINEUP_GAIN) {
+        return [];
+      }
+
+      const needs = (profile: TeamProfile, incoming: RatedPlayer[]) => Array.from(new Set(incoming
+        .filter(player => (profile.outlook.find(entry => entry.position === player.position)?.need || 0) > 0)
+        .map(player => player.position)));
+
+      return [{
+        partner: { rosterId: partner.roster.roster_id, teamName: partner.teamName },
+        shape: `${give.length}-for-${receive.length}` as TradePackageShape,
+        give: give.map(toFinderPlayer),
+        receive: receive.map(toFinderPlayer),
+        lineupGain: { mine: round(gainMine), theirs: round(gainTheirs) },
+        fairness: round(Math.min(gainMine, gainTheirs) / Math.max(gainMine, gainTheirs)),
+        addresses: { mine: needs(own, receive), theirs: needs(partner, give) },
+        analysis: null,
+      }];
+    });
+  }
+
+  // Fairest first, then the larger shared gain; no partner takes more than its share of the list
+  private rankSuggestions(suggestions: TradeSuggestion[]): TradeSuggestion[] {
+    const perPartner = new Map<number, number>();
+    return [...suggestions]
+      .sort((a, b) => b.fairness - a.fairness ||
+        Math.min(b.lineupGain.mine, b.lineupGain.theirs) - Math.min(a.lineupGain.mine, a.lineupGain.theirs))
+      .filter(suggestion => {
+        const count = perPartner.get(suggestion.partner.rosterId) || 0;
+        if (count >= MAX_SUGGESTIONS_PER_PARTNER) return false;
+        perPartner.set(suggestion.partner.rosterId, count + 1);
+        return true;
+      })
+      .slice(0, MAX_SUGGESTIONS);
+  }
+
+  private async analyzeSuggestion(
+    sleeperLeagueId: string,
+    own: TeamProfile,
+    partner: TeamProfile,
+    suggestion: TradeSuggestion
+  ): Promise<TradeSuggestion> {
+    const describe = (profile: TeamProfile, filled: string[]) => {
+      const depth = profile.outlook.filter(entry => entry.surplus > 0).map(entry => entry.position);
+      return `${profile.teamName} needs ${filled.length > 0 ? filled.join('/') : 'depth'}` +
+        (depth.length > 0 ? ` and has bench depth at ${depth.join('/')}` : '');
+    };
+
+    try {
+      const analysis = await this.aiAgents.post<TradeFinderAnalysis>('/ai/trade-analysis', {
+        leagueId: sleeperLeagueId,
+        team1UserId: own.roster.owner_id,
+        team2UserId: partner.roster.owner_id,
+        team1Players: suggestion.give.map(player => player.playerId),
+        team2Players: suggestion.receive.map(player => player.playerId),
+        requestingUserId: own.roster.owner_id,
+        tradeContext: {
+          needAnalysis: `${describe(own, suggestion.addresses.mine)}. ${describe(partner, suggestion.addresses.theirs)}. ` +
+            `Projected starting lineups gain ${suggestion.lineupGain.mine} and ${suggestion.lineupGain.theirs} points per week.`,
+        },
+      });
+
+      return {
+        ...suggestion,
+        analysis: {
+          fairnessScore: analysis.fairnessScore,
+          team1Analysis: analysis.team1Analysis,
+          team2Analysis: analysis.team2Analysis,
+          summary: analysis.summary,
+          keyInsights: analysis.keyInsights || [],
+          isFallback: analysis.isFallback,
+          fallbackReason: analysis.fallbackReason,
+        },
+      };
+    } catch (error) {
+      console.warn(`Trade analysis unavailable for the ${partner.teamName} suggestion:`, error);
+      return suggestion;
+    }
+  }
+
+  private findStored(leagueId: string, rosterId: number): Promise<AnalysisRow | null> {
+    return this.prisma.aIAnalysis.findFirst({
+      where: {
+        leagueId,
+        analysisType: 'trade_finder',
+        metadata: { path: ['rosterId'], equals: rosterId },
+      },
+      orderBy: { createdAt: 'desc' },
+    });
+  }
+
+  private toTradeFinderResult(row: AnalysisRow): TradeFinderResult {
+    const output = row.output as unknown as { needs: PositionOutlook[]; suggestions: TradeSuggestion[] };
+    const metadata = row.metadata as { rosterId: number };
+    return {
+      id: row.id,
+      leagueId: row.leagueId as string,
+      rosterId: metadata.rosterId,
+      needs: output.needs,
+      suggestions: output.suggestions,
+      createdAt: row.createdAt.toISOString(),
+    };
+  }
+}
+
+export const tradeFinderService = new TradeFinderService();
@@ -0,0 +1,496 @@
+import { PrismaClient, Prisma } from '@prisma/client';
+import { solveLineup } from '@fantasy-app/shared';
+import {
+  sleeperAPIService as defaultSleeperAPI,
+  SleeperAPIService,
+  SleeperMatchup,
+  SleeperPlayer,
+} from './sleeper-api-service';
+import { playerService as defaultPlayerService, PlayerService } from './player-service';
+import { chatService as defaultChatService, ChatService } from './chat-service';
+import { notificationService as defaultNotificationService, NotificationService } from './notification-service';
+import { REGULAR_SEASON_WEEKS } from './stats-service';
+import { aiAgentClient as defaultAIAgentClient, AIAgentClient } from './ai-agent-client';
+
+const prisma = new PrismaClient();
+
+const TOP_PERFORMER_COUNT = 5;
+const NON_STARTING_SLOTS = new Set(['BN', 'IR', 'TAXI']);
+const EMPTY_SLOT = '0';
+
+export type RecapTone = 'professional' | 'playful' | 'roast';
+
+export interface RecapTeamScore {
+  teamName: string;
+  points: number;
+}
+
+export interface RecapMatchup {
+  winner: RecapTeamScore;
+  loser: RecapTeamScore;
+  margin: number;
+  tie: boolean; // winner and loser are arbitrary when tied
+}
+
+export interface RecapPerformer {
+  playerName: string;
+  position: string;
+  nflTeam: string | null;
+  teamName: string;
+  points: number;
+}
+
+export interface RecapBenchReport {
+  teamName: string;
+  benchPoints: number;
+  pointsLeftOnBench: number; // Best possible lineup from the week's roster minus the starters' points
+  bestBenchPlayer: { playerName: string; position: string; points: number } | null;
+}
+
+export interface RecapUpset {
+  winner: RecapTeamScore & { recordBefore: string };
+  loser: RecapTeamScore & { recordBefore: string };
+  margin: number;
+}
+
+export interface RecapStanding {
+  teamName: string;
+  rank: number;
+  previousRank: number | null;
+  record: string;
+  pointsFor: number;
+}
+
+export interface WeeklyRecapFacts {
+  leagueName: string;
+  week: number;
+  matchups: RecapMatchup[];
+  topPerformers: RecapPerformer[];
+  benchReports: RecapBenchReport[]; // Most points left on the bench first
+  biggestUpset: RecapUpset | null;
+  standings: RecapStanding[];
+}
+
+// Written by the ai-service weekly recap agent
+export interface WeeklyRecapNewsletter {
+  headline: string;
+  intro: string;
+  sections: { title: string; body: string }[];
+  awards: { title: string; teamName: string; reason: string }[];
+  provider: string | null; // null when the agent fell back to a recap built from the numbers
+  model: string | null;
+  isFallback: boolean;
+  fallbackReason?: string;
+}
+
+export interface WeeklyRecap {
+  id: string;
+  leagueId: string;
+  week: number;
+  newsletter: WeeklyRecapNewsletter;
+  facts: WeeklyRecapFacts;
+  postedToChat: boolean;
+  createdAt: string;
+}
+
+export interface WeeklyRecapOptions {
+  week?: number; // Defaults to the last completed week
+  tone?: RecapTone;
+  postToChat?: boolean;
+  notify?: boolean; // Sends every member a weekly_report notification
+  refresh?: boolean; // Rewrites a recap that already exists for the week
+  requestedBy?: string; // Owner of the stored analysis; defaults to the first league member
+}
+
+interface TeamInfo {
+  teamName: string;
+}
+
+interface TeamRecord {
+  wins: number;
+  losses: number;
+  ties: number;
+  pointsFor: number;
+}
+
+type AnalysisRow = Prisma.AIAnalysisGetPayload<{}>;
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+const getPoints = (matchup: SleeperMatchup) => matchup.custom_points ?? matchup.points ?? 0;
+
+const formatRecord = (record: TeamRecord) =>
+  `${record.wins}-${record.losses}${record.ties ? `-${record.ties}` : ''}`;
+
+const winPct = (record: TeamRecord) => {
+  const games = record.wins + record.losses + record.ties;
+  return games > 0 ? (record.wins + record.ties * 0.5) / games : 0;
+};
+
+// Team defenses have no personal name in Sleeper's player data
+const playerName = (player: SleeperPlayer) =>
+  player.full_name || `${player.first_name || ''} ${player.last_name || ''}`.trim() || player.team || player.player_id;
+
+/**
+ * Computes a completed week's results and has the ai-service recap agent
+ * turn them into a league newsletter, stored as a weekly_recap analysis.
+ */
+export class WeeklyRecapService {
+  private sleeperAPI: SleeperAPIService;
+  private prisma: PrismaClient;
+  private players: PlayerService;
+  private chat: ChatService;
+  private notifications: NotificationService;
+  private aiAgents: AIAgentClient;
+
+  constructor(
+    sleeperAPIService?: SleeperAPIService,
+    prismaClient?: PrismaClient,
+    playerServiceInstance?: PlayerService,
+    chatServiceInstance?: ChatService,
+    notificationServiceInstance?: NotificationService,
+    aiAgentClientInstance?: AIAgentClient
+  ) {
+    this.sleeperAPI = sleeperAPIService || defaultSleeperAPI;
+    this.prisma = prismaClient || prisma;
+    this.players = playerServiceInstance || defaultPlayerService;
+    this.chat = chatServiceInstance || defaultChatService;
+    this.notifications = notificationServiceInstance || defaultNotificationService;
+    this.aiAgents = aiAgentClientInstance || defaultAIAgentClient;
+  }
+
+  /**
+   * The stored recap for `week`, or the latest one when no week is given.
+   */
+  async getRecap(leagueId: string, week?: number): Promise<WeeklyRecap | null> {
+    const row = await this.prisma.aIAnalysis.findFirst({
+      where: {
+        leagueId,
+        analysisType: 'weekly_recap',
+        ...(week !== undefined && { metadata: { path: ['week'], equals: week } }),
+      },
+      orderBy: { createdAt: 'desc' },
+    });
+
+    return row ? this.toWeeklyRecap(row) : null;
+  }
+
+  /**
+   * Writes and stores the recap for a completed week. An existing recap is
+   * returned as is unless `refresh` is set. Members are only notified the
+   * first time a week's recap is written.
+   */
+  async generateRecap(leagueId: string, options: WeeklyRecapOptions = {}): Promise<WeeklyRecap | null> {
+    try {
+      const league = await this.prisma.league.findUnique({
+        where: { id: leagueId },
+        include: { userLeagues: { select: { userId: true }, orderBy: { joinedAt: 'asc' } } },
+      });
+      if (!league) {
+        throw new Error(`League not found for ID: ${leagueId}`);
+      }
+
+      const lastCompletedWeek = await this.getLastCompletedWeek(league.season);
+      const week = options.week ?? lastCompletedWeek;
+      if (week < 1 || week > lastCompletedWeek) {
+        return null;
+      }
+
+      const existing = await this.getRecap(leagueId, week);
+      if (existing && !options.refresh) {
+        return existing;
+      }
+
+      const ownerId = options.requestedBy || league.userLeagues[0]?.userId;
+      if (!ownerId) {
+        throw new Error(`League ${leagueId} has no members`);
+      }
+
+      const facts = await this.buildFacts(league.sleeperLeagueId, week);
+      if (facts.matchups.length === 0) {
+        return null;
+      }
+
+      const startTime = Date.now();
+      const newsletter = await this.writeNewsletter(facts, options.tone);
+
+      let postedToChat = false;
+      if (options.postToChat) {
+        const message = await this.chat.postSystemMessage(
+          leagueId,
+          `Week ${week} recap: ${newsletter.headline} — ${newsletter.intro} Read the full recap on the league page.`,
+          'weekly_recap',
+          `weekly-recap:${league.season}:${week}`
+        );
+        postedToChat = message !== null;
+      }
+
+      const row = await this.prisma.aIAnalysis.create({
+        data: {
+          userId: ownerId,
+          leagueId,
+          analysisType: 'weekly_recap',
+          input: facts as unknown as Prisma.InputJsonValue,
+          output: newsletter as unknown as Prisma.InputJsonValue,
+          metadata: {
+            week,
+            provider: newsletter.provider,
+            model: newsletter.model,
+            tone: options.tone || 'playful',
+            postedToChat,
+            processingTime: Date.now() - startTime,
+          },
+        },
+      });
+
+      // A refresh rewrites the recap members were already told about
+      if (options.notify && !existing) {
+        for (const member of league.userLeagues) {
+          await this.notifications.notify(member.userId, {
+            type: 'weekly_report',
+            title: `${league.name} week ${week} recap: ${newsletter.headline}`,
+            message: newsletter.intro,
+            actionUrl: `/league/${leagueId}`,
+            priority: 'low',
+          });
+        }
+      }
+
+      return this.toWeeklyRecap(row);
+    } catch (error) {
+      console.error('Weekly recap failed:', error);
+      throw new Error(`Weekly recap failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  async buildFacts(sleeperLeagueId: string, week: number): Promise<WeeklyRecapFacts> {
+    const [league, rosters, users, weeklyMatchups] = await Promise.all([
+      this.sleeperAPI.getLeague(sleeperLeagueId),
+      this.sleeperAPI.getLeagueRosters(sleeperLeagueId),
+      this.sleeperAPI.getLeagueUsers(sleeperLeagueId),
+      Promise.all(
+        Array.from({ length: week }, (_, i) =>
+          this.sleeperAPI.getLeagueMatchups(sleeperLeagueId, i + 1).catch(() => [] as SleeperMatchup[])
+        )
+      ),
+    ]);
+
+    const userLookup = new Map(users.map(user => [user.user_id, user]));
+    const teams = new Map<number, TeamInfo>(rosters.map(roster => {
+      const owner = userLookup.get(roster.owner_id);
+      return [roster.roster_id, { teamName: owner?.metadata?.team_name || owner?.display_name || `Team ${roster.roster_id}` }];
+    }));
+    const teamName = (rosterId: number) => teams.get(rosterId)?.teamName || `Team ${rosterId}`;
+
+    const matchups = weeklyMatchups[week - 1];
+    const playerIds = Array.from(new Set(matchups.flatMap(matchup => matchup.players || [])));
+    const players = playerIds.length > 0 ? await this.players.getPlayers(playerIds) : {};
+    const slots = (league.roster_positions || []).filter(position => !NON_STARTING_SLOTS.has(position));
+
+    const recordsBefore = this.computeRecords(rosters.map(roster => roster.roster_id), weeklyMatchups.slice(0, week - 1));
+    const recordsAfter = this.computeRecords(rosters.map(roster => roster.roster_id), weeklyMatchups.slice(0, week));
+
+    const results = this.pairMatchups(matchups);
+    const previousRanks = new Map(this.rankStandings(recordsBefore).map(entry => [entry.rosterId, entry.rank]));
+
+    return {
+      leagueName: league.name,
+      week,
+      matchups: results.map(([a, b]) => {
+        const [winner, loser] = getPoints(a) >= getPoints(b) ? [a, b] : [b, a];
+        return {
+          winner: { teamName: teamName(winner.roster_id), points: round(getPoints(winner)) },
+          loser: { teamName: teamName(loser.roster_id), points: round(getPoints(loser)) },
+          margin: round(getPoints(winner) - getPoints(loser)),
+          tie: getPoints(winner) === getPoints(loser),
+        };
+      }),
+      topPerformers: this.getTopPerformers(matchups, players, teamName),
+      benchReports: matchups
+        .map(matchup => this.getBenchReport(matchup, slots, players, teamName(matchup.roster_id)))
+        .sort((a, b) => b.pointsLeftOnBench - a.pointsLeftOnBench || b.benchPoints - a.benchPoints),
+      biggestUpset: week > 1 ? this.findBiggestUpset(results, recordsBefore, teamName) : null,
+      standings: this.rankStandings(recordsAfter).map(({ rosterId, rank, record }) => ({
+        teamName: teamName(rosterId),
+        rank,
+        previousRank: week > 1 ? previousRanks.get(rosterId) ?? null : null,
+        record: formatRecord(record),
+        pointsFor: round(record.pointsFor),
+      })),
+    };
+  }
+
+  private async getLastCompletedWeek(season: number): Promise<number> {
+    const nflState = await this.sleeperAPI.getNFLState();
+    if (season < parseInt(nflState.season) || nflState.season_type === 'post') {
+      return REGULAR_SEASON_WEEKS;
+    }
+    if (season > parseInt(nflState.season) || nflState.season_type !== 'regular') {
+      return 0;
+    }
+    return Math.max(nflState.week - 1, 0);
+  }
+
+  private async writeNewsletter(facts: WeeklyRecapFacts, tone?: RecapTone): Promise<WeeklyRecapNewsletter> {
+    const { headline, intro, sections, awards, provider, model, isFallback, fallbackReason } =
+      await this.aiAgents.post<WeeklyRecapNewsletter>('/ai/weekly-recap', { ...facts, tone });
+    return {
+      headline,
+      intro,
+      sections,
+      awards: awards || [],
+      provider: provider ?? null,
+      model: model ?? null,
+      isFallback,
+      fallbackReason,
+    };
+  }
+
+  // Matchup pairs for the week; median and bye entries without an opponent are skipped
+  private pairMatchups(matchups: SleeperMatchup[]): [SleeperMatchup, SleeperMatchup][] {
+    const byMatchupId = new Map<number, SleeperMatchup[]>();
+    matchups
+      .filter(matchup => matchup.matchup_id)
+      .forEach(matchup => byMatchupId.set(matchup.matchup_id, [...(byMatchupId.get(matchup.matchup_id) || []), matchup]));
+
+    return Array.from(byMatchupId.values())
+      .filter(pair => pair.length === 2)
+      .map(pair => [pair[0], pair[1]] as [SleeperMatchup, SleeperMatchup]);
+  }
+
+  private computeRecords(rosterIds: number[], weeks: SleeperMatchup[][]): Map<number, TeamRecord> {
+    const records = new Map<number, TeamRecord>(rosterIds.map(rosterId => [rosterId, { wins: 0, losses: 0, ties: 0, pointsFor: 0 }]));
+
+    weeks.forEach(matchups => {
+      matchups.forEach(matchup => {
+        const record = records.get(matchup.roster_id);
+        if (record) record.pointsFor += getPoints(matchup);
+      });
+
+      this.pairMatchups(matchups).forEach(([a, b]) => {
+        const recordA = records.get(a.roster_id);
+        const recordB = records.get(b.roster_id);
+        if (!recordA || !recordB) return;
+
+        if (getPoints(a) > getPoints(b)) {
+          recordA.wins++;
+          recordB.losses++;
+        } else if (getPoints(a) < getPoints(b)) {
+          recordA.losses++;
+          recordB.wins++;
+        } else {
+          recordA.ties++;
+          recordB.ties++;
+        }
+      });
+    });
+
+    return records;
+  }
+
+  // Sleeper's default order: winning percentage, then points for
+  private rankStandings(records: Map<number, TeamRecord>): { rosterId: number; rank: number; record: TeamRecord }[] {
+    return Array.from(records.entries())
+      .sort(([rosterA, a], [rosterB, b]) => winPct(b) - winPct(a) || b.pointsFor - a.pointsFor || rosterA - rosterB)
+      .map(([rosterId, record], index) => ({ rosterId, rank: index + 1, record }));
+  }
+
+  private getTopPerformers(
+    matchups: SleeperMatchup[],
+    players: { [playerId: string]: SleeperPlayer },
+    teamName: (rosterId: number) => string
+  ): RecapPerformer[] {
+    return matchups
+      .flatMap(matchup => (matchup.starters || [])
+        .filter(playerId => playerId !== EMPTY_SLOT && players[playerId])
+        .map(playerId => ({
+          playerName: playerName(players[playerId]),
+          position: players[playerId].position,
+          nflTeam: players[playerId].team || null,
+          teamName: teamName(matchup.roster_id),
+          points: round(matchup.players_points?.[playerId] || 0),
+        })))
+      .sort((a, b) => b.points - a.points)
+      .slice(0, TOP_PERFORMER_COUNT);
+  }
+
+  // Points the best possible lineup would have scored beyond the one that was started
+  private getBenchReport(
+    matchup: SleeperMatchup,
+    slots: string[],
+    players: { [playerId: string]: SleeperPlayer },
+    teamName: string
+  ): RecapBenchReport {
+    const points = (playerId: string) => matchup.players_points?.[playerId] || 0;
+    const starters = new Set((matchup.starters || []).filter(playerId => playerId !== EMPTY_SLOT));
+    const bench = (matchup.players || []).filter(playerId => !starters.has(playerId));
+
+    const optimal = solveLineup(
+      (matchup.players || []).map(playerId => ({
+        playerId,
+        playerName: playerId,
+        fantasyPositions: players[playerId]?.fantasy_positions || [players[playerId]?.position].filter(Boolean),
+        team: '', // No per-team limit
+        projectedPoints: { floor: points(playerId), expected: points(playerId), ceiling: points(playerId) },
+      })),
+      slots,
+      { objective: 'expected' }
+    ).objectiveValue;
+
+    const actual = Array.from(starters).reduce((total, playerId) => total + points(playerId), 0);
+    const bestBench = [...bench].sort((a, b) => points(b) - points(a))[0];
+
+    return {
+      teamName,
+      benchPoints: round(bench.reduce((total, playerId) => total + points(playerId), 0)),
+      pointsLeftOnBench: round(Math.max(optimal - actual, 0)),
+      bestBenchPlayer: bestBench && players[bestBench]
+        ? { playerName: playerName(players[bestBench]), position: players[bestBench].position, points: round(points(bestBench)) }
+        : null,
+    };
+  }
+
+  // The win by the team with the worse record going in, by the widest gap in winning percentage
+  private findBiggestUpset(
+    results: [SleeperMatchup, SleeperMatchup][],
+    recordsBefore: Map<number, TeamRecord>,
+    teamName: (rosterId: number) => string
+  ): RecapUpset | null {
+    const upsets = results
+      .filter(([a, b]) => getPoints(a) !== getPoints(b))
+      .map(([a, b]) => (getPoints(a) > getPoints(b) ? [a, b] : [b, a]))
+      .map(([winner, loser]) => {
+        const winnerRecord = recordsBefore.get(winner.roster_id)!;
+        const loserRecord = recordsBefore.get(loser.roster_id)!;
+        return { winner, loser, winnerRecord, loserRecord, gap: winPct(loserRecord) - winPct(winnerRecord) };
+      })
+      .filter(upset => upset.winnerRecord && upset.loserRecord && upset.gap > 0)
+      .sort((a, b) => b.gap - a.gap);
+
+    if (upsets.length === 0) {
+      return null;
+    }
+
+    const { winner, loser, winnerRecord, loserRecord } = upsets[0];
+    return {
+      winner: { teamName: teamName(winner.roster_id), points: round(getPoints(winner)), recordBefore: formatRecord(winnerRecord) },
+      loser: { teamName: teamName(loser.roster_id), points: round(getPoints(loser)), recordBefore: formatRecord(loserRecord) },
+      margin: round(getPoints(winner) - getPoints(loser)),
+    };
+  }
+
+  private toWeeklyRecap(row: AnalysisRow): WeeklyRecap {
+    const metadata = row.metadata as { week: number; postedToChat?: boolean };
+    return {
+      id: row.id,
+      leagueId: row.leagueId!,
+      week: metadata.week,
+      newsletter: row.output as unknown as WeeklyRecapNewsletter,
+      facts: row.input as unknown as WeeklyRecapFacts,
+      postedToChat: metadata.postedToChat ?? false,
+      createdAt: row.createdAt.toISOString(),
+    };
+  }
+}
+
+export const weeklyRecapService = new WeeklyRecapService();
@@ -15,6 +15,9 @@ export const UserSchema = z.object({
       push: z.boolean().default(true),
       weeklyReport: z.boolean().default(true),
       tradeAlerts: z.boolean().default(true),
+      // Email-only switches, so unsubscribing from an email keeps the in-app notification
+      weeklyReportEmail: z.boolean().default(true),
+      tradeAlertEmail: z.boolean().default(true),
     }).default({}),
     theme: z.enum(['light', 'dark', 'system']).default('system'),
   }).optional(),
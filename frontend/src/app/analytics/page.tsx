@@ -1,12 +1,53 @@
 'use client';
 
+import { useEffect, useState } from 'react';
 import { useAuth } from '@/hooks/useAuth';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { PowerRankings } from '@/components/analytics/power-rankings';
 import { BarChart3, TrendingUp, PieChart, Activity } from 'lucide-react';
 
+interface UserLeague {
+  league: {
+    id: string;
+    name: string;
+    season: number;
+  };
+}
+
 export default function AnalyticsPage() {
   const { user, requireAuth } = useAuth();
+  const [leagues, setLeagues] = useState<UserLeague[]>([]);
+  const [selectedLeague, setSelectedLeague] = useState<string>('');
+
+  useEffect(() => {
+    requireAuth();
+  }, [requireAuth]);
+
+  useEffect(() => {
+    if (!user?.email) return;
+
+    const fetchUserLeagues = async () => {
+      try {
+        const response = await fetch(`${process.env.NEXT_PUBLIC_BACKEND_URL}/api/users/${user.email}`);
+        if (!response.ok) {
+          throw new Error(`Failed to fetch user data: ${response.status}`);
+        }
+
+        const userData = await response.json();
+        const userLeagues: UserLeague[] = userData.data?.user?.userLeagues || [];
+        setLeagues(userLeagues);
+        if (userLeagues.length > 0) {
+          setSelectedLeague(userLeagues[0].league.id);
+        }
+      } catch (err) {
+        console.error('Error fetching user leagues:', err);
+      }
+    };
+
+    fetchUserLeagues();
+  }, [user?.email]);
 
   return (
     <div className="space-y-6">
@@ -18,9 +59,27 @@ export default function AnalyticsPage() {
             Detailed performance insights and league analytics
           </p>
         </div>
-        <Badge variant="secondary">Coming Soon</Badge>
+        {leagues.length > 0 && (
+          <div className="w-64">
+            <Select value={selectedLeague} onValueChange={setSelectedLeague}>
+              <SelectTrigger>
+                <SelectValue placeholder="Select a league" />
+              </SelectTrigger>
+              <SelectContent>
+                {leagues.map((userLeague) => (
+                  <SelectItem key={userLeague.league.id} value={userLeague.league.id}>
+                    {userLeague.league.name} ({userLeague.league.season})
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        )}
       </div>
 
+      {/* Power Rankings */}
+      {selectedLeague && <PowerRankings leagueId={selectedLeague} />}
+
       {/* Analytics Cards */}
       <div className="grid md:grid-cols-2 lg:grid-cols-4 gap-4">
         <Card>
@@ -89,7 +148,7 @@ export default function AnalyticsPage() {
         <CardContent className="pt-6">
           <div className="text-center py-12">
             <BarChart3 className="h-16 w-16 text-gray-400 mx-auto mb-4" />
-            <h3 className="text-xl font-semibold mb-2">Advanced Analytics Coming Soon</h3>
+            <h3 className="text-xl font-semibold mb-2">More Analytics Coming Soon</h3>
             <p className="text-gray-600 max-w-2xl mx-auto">
               We're building comprehensive analytics to help you understand your fantasy performance, 
               identify trends, and make data-driven decisions. Features will include performance tracking, 
@@ -18,12 +18,16 @@ import {
   Star,
   AlertCircle,
   Loader2,
-  RefreshCw
+  RefreshCw,
+  History
 } from 'lucide-react';
 import { StartSitAnalyzer } from '@/components/ai/start-sit-analyzer';
 import { TradeAnalyzer } from '@/components/ai/trade-analyzer';
 import { LineupOptimizer } from '@/components/ai/lineup-optimizer';
+import { AnalysisHistory } from '@/components/ai/analysis-history';
+import { StoredAnalysis } from '@/lib/ai-client';
 import Link from 'next/link';
+import { useRealtime, RealtimeMessage } from '@/hooks/useRealtime';
 
 // Types for real league data
 interface League {
@@ -54,6 +58,8 @@ interface UserData {
 // Default roster slots in case league data is not available
 const defaultRosterSlots = ['QB', 'RB1', 'RB2', 'WR1', 'WR2', 'TE', 'FLEX', 'DST', 'K'];
 
+const MAX_RECENT_ACTIVITY = 10;
+
 export default function DashboardPage() {
   const { user, requireAuth } = useAuth();
   const [userData, setUserData] = useState<UserData | null>(null);
@@ -65,6 +71,8 @@ export default function DashboardPage() {
   const [fetchingRoster, setFetchingRoster] = useState(false);
   const [leagueTeams, setLeagueTeams] = useState<any[]>([]);
   const [fetchingTeams, setFetchingTeams] = useState(false);
+  const [activeTool, setActiveTool] = useState('start-sit');
+  const [reopenedAnalysis, setReopenedAnalysis] = useState<StoredAnalysis | null>(null);
 
   const fetchUserLeagues = async () => {
     if (!user?.email) return;
@@ -210,6 +218,26 @@ export default function DashboardPage() {
     }
   };
 
+  const handleReopenAnalysis = (analysis: StoredAnalysis) => {
+    const toolByType: Record<string, string> = {
+      start_sit: 'start-sit',
+      trade_analysis: 'trade-analyzer',
+      lineup_optimizer: 'lineup-optimizer',
+    };
+
+    if (analysis.leagueId && analysis.leagueId !== selectedLeague) {
+      setSelectedLeague(analysis.leagueId);
+    }
+    if (typeof analysis.metadata?.week === 'number') {
+      setCurrentWeek(analysis.metadata.week);
+    }
+    setReopenedAnalysis(analysis);
+    setActiveTool(toolByType[analysis.analysisType] || 'history');
+  };
+
+  const getReopenedOutput = (analysisType: string) =>
+    reopenedAnalysis?.analysisType === analysisType ? reopenedAnalysis.output : undefined;
+
   useEffect(() => {
     requireAuth();
   }, [requireAuth]);
@@ -227,6 +255,35 @@ export default function DashboardPage() {
     }
   }, [selectedLeague, user]);
 
+  const addActivity = (type: string, description: string, leagueId?: string) => {
+    setUserData((current) => {
+      if (!current) return current;
+      const league = current.leagues.find((userLeague) => userLeague.league.id === leagueId)?.league.name || 'League';
+      const activity = { type, description, league, timestamp: new Date().toLocaleTimeString() };
+      return { ...current, recentActivity: [activity, ...current.recentActivity].slice(0, MAX_RECENT_ACTIVITY) };
+    });
+  };
+
+  const handleRosterEvent = ({ leagueId }: RealtimeMessage) => {
+    if (leagueId === selectedLeague) {
+      fetchRosterPlayers(selectedLeague);
+    }
+  };
+
+  useRealtime({
+    // System chat messages carry the readable trade and waiver summaries
+    chat_message: ({ payload, leagueId }) => {
+      if (payload.messageType === 'trade') addActivity('trade', payload.message, leagueId);
+      if (payload.messageType === 'waiver_claim') addActivity('waiver', payload.message, leagueId);
+    },
+    lineup_change: (message) => {
+      addActivity('lineup', `Week ${message.payload.week} lineup changed for roster ${message.payload.rosterId}`, message.leagueId);
+      handleRosterEvent(message);
+    },
+    trade_proposal: handleRosterEvent,
+    waiver_claim: handleRosterEvent,
+  }, { enabled: !!user });
+
   if (!user) {
     return (
       <div className="min-h-screen flex items-center justify-center">
@@ -364,8 +421,8 @@ export default function DashboardPage() {
           </CardDescription>
         </CardHeader>
         <CardContent>
-          <Tabs defaultValue="start-sit" className="w-full">
-            <TabsList className="grid w-full grid-cols-3">
+          <Tabs value={activeTool} onValueChange={setActiveTool} className="w-full">
+            <TabsList className="grid w-full grid-cols-4">
               <TabsTrigger value="start-sit" className="flex items-center gap-2">
                 <Brain className="h-4 w-4" />
                 Start/Sit
@@ -378,6 +435,10 @@ export default function DashboardPage() {
                 <Zap className="h-4 w-4" />
                 Lineup Optimizer
               </TabsTrigger>
+              <TabsTrigger value="history" className="flex items-center gap-2">
+                <History className="h-4 w-4" />
+                History
+              </TabsTrigger>
             </TabsList>
 
             <TabsContent value="start-sit" className="mt-6">
@@ -393,6 +454,7 @@ export default function DashboardPage() {
                   week={currentWeek}
                   availablePlayers={selectedLeagueRosterPlayers}
                   rosterSlots={defaultRosterSlots}
+                  initialAnalysis={getReopenedOutput('start_sit')}
                 />
               ) : selectedLeague ? (
                 <div className="text-center py-8">
@@ -442,6 +504,7 @@ export default function DashboardPage() {
                   userId={user.id}
                   week={currentWeek}
                   availableTeams={leagueTeams}
+                  initialAnalysis={getReopenedOutput('trade_analysis')}
                 />
               )}
             </TabsContent>
@@ -476,9 +539,17 @@ export default function DashboardPage() {
                   week={currentWeek}
                   availablePlayers={selectedLeagueRosterPlayers}
                   rosterSlots={defaultRosterSlots}
+                  initialAnalysis={getReopenedOutput('lineup_optimizer')}
                 />
               )}
             </TabsContent>
+
+            <TabsContent value="history" className="mt-6">
+              <AnalysisHistory
+                leagueId={selectedLeague || undefined}
+                onOpen={handleReopenAnalysis}
+              />
+            </TabsContent>
           </Tabs>
         </CardContent>
       </Card>
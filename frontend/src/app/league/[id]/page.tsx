@@ -18,10 +18,20 @@ import {
   Loader2,
   AlertCircle,
   RefreshCw,
-  Star
+  Star,
+  MessageSquare
 } from 'lucide-react';
 import Link from 'next/link';
 import { StartSitAnalyzer } from '@/components/ai/start-sit-analyzer';
+import { TradeFinder } from '@/components/ai/trade-finder';
+import { RivalryCard } from '@/components/analytics/rivalry-card';
+import { LiveScoreboard } from '@/components/analytics/live-scoreboard';
+import { WeeklyRecap } from '@/components/analytics/weekly-recap';
+import { MatchupPreview } from '@/components/analytics/matchup-preview';
+import { DraftGrades } from '@/components/analytics/draft-grades';
+import { SeasonOutlook } from '@/components/analytics/season-outlook';
+import { LeagueChat } from '@/components/chat/league-chat';
+import { useRealtime } from '@/hooks/useRealtime';
 
 // Types
 interface LeagueDetails {
@@ -350,14 +360,7 @@ export default function LeagueDetailsPage() {
       setLeagueDetails(detailsData.data);
       setSelectedWeek(detailsData.data.currentWeek || 14);
 
-      // Fetch standings
-      const standingsResponse = await fetch(`${process.env.NEXT_PUBLIC_BACKEND_URL}/api/leagues/${leagueId}/standings`);
-      if (standingsResponse.ok) {
-        const standingsData = await standingsResponse.json();
-        if (standingsData.success) {
-          setStandings(standingsData.data);
-        }
-      }
+      await fetchStandings();
 
       // Fetch user's roster
       try {
@@ -373,13 +376,7 @@ export default function LeagueDetailsPage() {
         }
 
         // Fetch user's roster players for Start/Sit
-        const playersResponse = await apiClient.get(`/api/leagues/${leagueId}/players/${databaseUserId}`);
-        if (playersResponse.ok) {
-          const playersData = await playersResponse.json();
-          if (playersData.success) {
-            setUserRosterPlayers(playersData.data);
-          }
-        }
+        await fetchRosterPlayers();
       } catch (error) {
         console.error('Error fetching authenticated roster data:', error);
       }
@@ -407,6 +404,29 @@ export default function LeagueDetailsPage() {
     }
   };
 
+  const fetchStandings = async () => {
+    const standingsResponse = await fetch(`${process.env.NEXT_PUBLIC_BACKEND_URL}/api/leagues/${leagueId}/standings`);
+    if (standingsResponse.ok) {
+      const standingsData = await standingsResponse.json();
+      if (standingsData.success) {
+        setStandings(standingsData.data);
+      }
+    }
+  };
+
+  const fetchRosterPlayers = async () => {
+    const { apiClient } = await import('../../../lib/api-client');
+    const databaseUserId = await apiClient.getDatabaseUserId();
+
+    const playersResponse = await apiClient.get(`/api/leagues/${leagueId}/players/${databaseUserId}`);
+    if (playersResponse.ok) {
+      const playersData = await playersResponse.json();
+      if (playersData.success) {
+        setUserRosterPlayers(playersData.data);
+      }
+    }
+  };
+
   const fetchMatchups = async (week: number) => {
     try {
       const response = await fetch(`${process.env.NEXT_PUBLIC_BACKEND_URL}/api/leagues/${leagueId}/matchups/${week}`);
@@ -437,6 +457,24 @@ export default function LeagueDetailsPage() {
     }
   }, [leagueId, selectedWeek]);
 
+  const refreshScores = (week?: number) => {
+    if (week === undefined || week === selectedWeek) {
+      fetchMatchups(selectedWeek);
+    }
+    fetchStandings().catch((err) => console.error('Error refreshing standings:', err));
+  };
+
+  const refreshRoster = () => {
+    fetchRosterPlayers().catch((err) => console.error('Error refreshing roster players:', err));
+  };
+
+  useRealtime({
+    score_update: ({ payload }) => refreshScores(payload.week),
+    lineup_change: ({ payload }) => refreshScores(payload.week),
+    trade_proposal: refreshRoster,
+    waiver_claim: refreshRoster,
+  }, { leagueId, enabled: !!user && !!leagueId });
+
   if (!user) {
     return (
       <div className="min-h-screen flex items-center justify-center">
@@ -517,7 +555,7 @@ export default function LeagueDetailsPage() {
 
       {/* Main Content */}
       <Tabs defaultValue="overview" className="w-full">
-        <TabsList className="grid w-full grid-cols-4">
+        <TabsList className="grid w-full grid-cols-5">
           <TabsTrigger value="overview" className="flex items-center gap-2">
             <BarChart3 className="h-4 w-4" />
             Overview
@@ -534,13 +572,24 @@ export default function LeagueDetailsPage() {
             <Brain className="h-4 w-4" />
             AI Tools
           </TabsTrigger>
+          <TabsTrigger value="chat" className="flex items-center gap-2">
+            <MessageSquare className="h-4 w-4" />
+            Chat
+          </TabsTrigger>
         </TabsList>
 
-        <TabsContent value="overview" className="mt-6">
+        <TabsContent value="overview" className="mt-6 space-y-6">
           <LeagueStandings standings={standings} />
+          <WeeklyRecap leagueId={leagueId} />
+          <DraftGrades leagueId={leagueId} />
+          <RivalryCard leagueId={leagueId} users={leagueDetails?.users || []} />
         </TabsContent>
 
-        <TabsContent value="schedule" className="mt-6">
+        <TabsContent value="schedule" className="mt-6 space-y-6">
+          {selectedWeek >= (leagueDetails.currentWeek || selectedWeek) && (
+            <MatchupPreview leagueId={leagueId} week={selectedWeek} />
+          )}
+          <LiveScoreboard leagueId={leagueId} week={selectedWeek} />
           <LeagueSchedule 
             matchups={matchups}
             selectedWeek={selectedWeek}
@@ -550,7 +599,8 @@ export default function LeagueDetailsPage() {
           />
         </TabsContent>
 
-        <TabsContent value="my-team" className="mt-6">
+        <TabsContent value="my-team" className="mt-6 space-y-6">
+          <SeasonOutlook leagueId={leagueId} />
           <UserRoster 
             roster={userRoster}
             users={leagueDetails.users}
@@ -558,7 +608,7 @@ export default function LeagueDetailsPage() {
           />
         </TabsContent>
 
-        <TabsContent value="ai-tools" className="mt-6">
+        <TabsContent value="ai-tools" className="mt-6 space-y-6">
           <StartSitAnalyzer
             userId={user.id}
             leagueId={leagueId}
@@ -566,6 +616,11 @@ export default function LeagueDetailsPage() {
             availablePlayers={userRosterPlayers}
             rosterSlots={['QB', 'RB1', 'RB2', 'WR1', 'WR2', 'TE', 'FLEX', 'DST', 'K']}
           />
+          <TradeFinder leagueId={leagueId} />
+        </TabsContent>
+
+        <TabsContent value="chat" className="mt-6">
+          <LeagueChat leagueId={leagueId} />
         </TabsContent>
       </Tabs>
     </div>
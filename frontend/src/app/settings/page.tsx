@@ -3,6 +3,7 @@
 import { useState, useEffect } from 'react';
 import { useSession } from 'next-auth/react';
 import { useRouter } from 'next/navigation';
+import { NotificationSettings } from '@/components/notification-settings';
 
 export default function Settings() {
   const { data: session, status } = useSession();
@@ -135,6 +136,8 @@ export default function Settings() {
           </div>
         </div>
 
+        <NotificationSettings />
+
         {/* Sleeper Integration Section */}
         <div className="mb-8">
           <h2 className="text-lg font-semibold text-gray-900 mb-4">Sleeper Integration</h2>
@@ -0,0 +1,94 @@
+'use client';
+
+import { useState, Suspense } from 'react';
+import Link from 'next/link';
+import { useSearchParams } from 'next/navigation';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Loader2, MailX } from 'lucide-react';
+
+const CATEGORY_LABELS: Record<string, string> = {
+  email: 'all notification emails',
+  weeklyReportEmail: 'weekly report emails',
+  tradeAlertEmail: 'trade alert emails',
+};
+
+function UnsubscribeForm() {
+  const searchParams = useSearchParams();
+  const token = searchParams.get('token');
+  const [isLoading, setIsLoading] = useState(false);
+  const [category, setCategory] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(token ? null : 'This unsubscribe link is missing its token.');
+
+  // Confirmed with a click so link scanners that open emails can't unsubscribe anyone
+  const handleUnsubscribe = async () => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const response = await fetch(`${process.env.NEXT_PUBLIC_BACKEND_URL}/api/notifications/unsubscribe`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ token }),
+      });
+      const data = await response.json();
+      if (!response.ok || !data.success) {
+        throw new Error(data.error?.message || 'Failed to unsubscribe');
+      }
+      setCategory(data.data.category);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to unsubscribe');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-50 px-4">
+      <Card className="w-full max-w-md">
+        <CardHeader className="text-center space-y-2">
+          <MailX className="h-8 w-8 mx-auto text-gray-500" />
+          <CardTitle className="text-2xl font-bold">Email preferences</CardTitle>
+          <CardDescription>
+            {category
+              ? `You've been unsubscribed from ${CATEGORY_LABELS[category] || 'these emails'}.`
+              : 'Stop receiving these emails from Fantasy Football Analytics.'}
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {error && (
+            <Alert variant="destructive">
+              <AlertDescription>{error}</AlertDescription>
+            </Alert>
+          )}
+
+          {category ? (
+            <p className="text-sm text-gray-600 text-center">
+              You can turn notifications back on any time in <Link href="/settings" className="text-blue-600 hover:underline">Settings</Link>.
+            </p>
+          ) : (
+            <Button className="w-full" onClick={handleUnsubscribe} disabled={!token || isLoading}>
+              {isLoading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Unsubscribe
+            </Button>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
+
+export default function UnsubscribePage() {
+  return (
+    <Suspense fallback={
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+      </div>
+    }>
+      <UnsubscribeForm />
+    </Suspense>
+  );
+}
@@ -0,0 +1,236 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Badge } from '@/components/ui/badge';
+import { Loader2, AlertTriangle, History, RefreshCw } from 'lucide-react';
+import { aiClient, AnalysisHistoryItem, AnalysisType, StoredAnalysis } from '@/lib/ai-client';
+
+interface AnalysisHistoryProps {
+  leagueId?: string;
+  // Analysis types that have a component able to re-open them
+  reopenableTypes?: AnalysisType[];
+  onOpen: (analysis: StoredAnalysis) => void;
+}
+
+const ANALYSIS_TYPE_LABELS: Record<AnalysisType, string> = {
+  start_sit: 'Start/Sit',
+  trade_analysis: 'Trade Analysis',
+  trade_finder: 'Trade Finder',
+  waiver_wire: 'Waiver Wire',
+  lineup_optimizer: 'Lineup Optimizer',
+};
+
+const PAGE_SIZE = 10;
+
+export function AnalysisHistory({
+  leagueId,
+  reopenableTypes = ['start_sit', 'trade_analysis', 'lineup_optimizer'],
+  onOpen,
+}: AnalysisHistoryProps) {
+  const [analysisType, setAnalysisType] = useState<AnalysisType | 'all'>('all');
+  const [week, setWeek] = useState<string>('all');
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+  const [items, setItems] = useState<AnalysisHistoryItem[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [openingId, setOpeningId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadHistory = useCallback(async (cursor?: string) => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const page = await aiClient.getAnalysisHistory({
+        leagueId,
+        analysisType: analysisType === 'all' ? undefined : analysisType,
+        week: week === 'all' ? undefined : parseInt(week),
+        from: from || undefined,
+        // Make the end date inclusive of the whole day
+        to: to ? `${to}T23:59:59.999Z` : undefined,
+        cursor,
+        limit: PAGE_SIZE,
+      });
+
+      setItems(prev => (cursor ? [...prev, ...page.items] : page.items));
+      setNextCursor(page.nextCursor);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load analysis history');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [leagueId, analysisType, week, from, to]);
+
+  useEffect(() => {
+    loadHistory();
+  }, [loadHistory]);
+
+  const handleOpen = async (item: AnalysisHistoryItem) => {
+    setOpeningId(item.id);
+    setError(null);
+
+    try {
+      const analysis = await aiClient.getAnalysis(item.id);
+      onOpen(analysis);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to open analysis');
+    } finally {
+      setOpeningId(null);
+    }
+  };
+
+  const getSummary = (item: AnalysisHistoryItem) => {
+    const metadata = item.metadata || {};
+    switch (item.analysisType) {
+      case 'start_sit':
+        return `${metadata.playerCount ?? '?'} players • ${Math.round((metadata.confidence ?? 0) * 100)}% confidence`;
+      case 'trade_analysis':
+        return `Grades ${metadata.team1Grade ?? '?'} / ${metadata.team2Grade ?? '?'} • fairness ${metadata.fairnessScore ?? '?'}`;
+      case 'trade_finder':
+        return `${metadata.analyzed ?? 0} trades analyzed`;
+      case 'waiver_wire':
+        return `${metadata.recommendationCount ?? 0} recommendations`;
+      case 'lineup_optimizer':
+        return `${metadata.projectedTotal?.toFixed?.(1) ?? '?'} projected pts • ${metadata.optimization ?? 'balanced'}`;
+      default:
+        return '';
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <History className="h-5 w-5" />
+              Analysis History
+            </CardTitle>
+            <CardDescription>
+              Re-open a past analysis in the tool that produced it
+            </CardDescription>
+          </div>
+          <Button variant="outline" size="sm" onClick={() => loadHistory()} disabled={isLoading}>
+            <RefreshCw className={`h-4 w-4 ${isLoading ? 'animate-spin' : ''}`} />
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {/* Filters */}
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+          <div>
+            <label className="text-sm font-medium mb-2 block">Type</label>
+            <Select value={analysisType} onValueChange={(value) => setAnalysisType(value as AnalysisType | 'all')}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All types</SelectItem>
+                {Object.entries(ANALYSIS_TYPE_LABELS).map(([value, label]) => (
+                  <SelectItem key={value} value={value}>{label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div>
+            <label className="text-sm font-medium mb-2 block">Week</label>
+            <Select value={week} onValueChange={setWeek}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All weeks</SelectItem>
+                {Array.from({ length: 18 }, (_, i) => i + 1).map((w) => (
+                  <SelectItem key={w} value={w.toString()}>Week {w}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div>
+            <label className="text-sm font-medium mb-2 block">From</label>
+            <input
+              type="date"
+              value={from}
+              onChange={(e) => setFrom(e.target.value)}
+              className="w-full h-10 rounded-md border px-3 text-sm"
+            />
+          </div>
+
+          <div>
+            <label className="text-sm font-medium mb-2 block">To</label>
+            <input
+              type="date"
+              value={to}
+              onChange={(e) => setTo(e.target.value)}
+              className="w-full h-10 rounded-md border px-3 text-sm"
+            />
+          </div>
+        </div>
+
+        {/* Error Display */}
+        {error && (
+          <div className="p-3 bg-red-50 border border-red-200 rounded-md">
+            <div className="flex items-center">
+              <AlertTriangle className="h-4 w-4 text-red-600 mr-2" />
+              <span className="text-sm text-red-800">{error}</span>
+            </div>
+          </div>
+        )}
+
+        {/* History List */}
+        {items.length === 0 && !isLoading ? (
+          <div className="text-center py-8 text-gray-600 text-sm">
+            No analyses match these filters yet.
+          </div>
+        ) : (
+          <div className="space-y-2">
+            {items.map((item) => (
+              <div key={item.id} className="flex items-center justify-between border rounded-lg p-3">
+                <div>
+                  <div className="flex items-center gap-2">
+                    <Badge variant="outline">{ANALYSIS_TYPE_LABELS[item.analysisType] || item.analysisType}</Badge>
+                    {item.metadata?.week && (
+                      <span className="text-sm text-gray-600">Week {item.metadata.week}</span>
+                    )}
+                  </div>
+                  <div className="text-sm text-gray-700 mt-1">{getSummary(item)}</div>
+                  <div className="text-xs text-gray-500 mt-1">
+                    {new Date(item.createdAt).toLocaleString()}
+                    {item.metadata?.provider && ` • ${item.metadata.provider}`}
+                  </div>
+                </div>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => handleOpen(item)}
+                  disabled={openingId !== null || !reopenableTypes.includes(item.analysisType)}
+                >
+                  {openingId === item.id ? <Loader2 className="h-4 w-4 animate-spin" /> : 'Open'}
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {isLoading && (
+          <div className="flex items-center justify-center py-4">
+            <Loader2 className="h-5 w-5 animate-spin mr-2" />
+            <span className="text-sm">Loading history...</span>
+          </div>
+        )}
+
+        {nextCursor && !isLoading && (
+          <Button variant="outline" className="w-full" onClick={() => loadHistory(nextCursor)}>
+            Load more
+          </Button>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
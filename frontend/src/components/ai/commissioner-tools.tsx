@@ -1,6 +1,6 @@
 'use client';
 
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
@@ -15,8 +15,10 @@ import {
   TrendingUp,
   Calendar,
   DollarSign,
-  Settings
+  Settings,
+  Loader2
 } from 'lucide-react';
+import { apiClient } from '@/lib/api-client';
 
 interface CommissionerToolsProps {
   leagueId: string;
@@ -45,6 +47,29 @@ interface CommissionerToolsProps {
   }[];
 }
 
+interface TeamPlayoffOdds {
+  userId: string;
+  teamName: string;
+  projectedWins: number;
+  playoffOdds: number;
+  byeOdds: number;
+  champOdds: number;
+  clinched: boolean;
+  eliminated: boolean;
+  scenarios: string[];
+  mustWin: string[];
+  help: string[];
+}
+
+interface PlayoffOdds {
+  week: number;
+  simulationRuns: number;
+  playoffTeams: number;
+  teams: TeamPlayoffOdds[];
+}
+
+const formatOdds = (odds: number) => `${(odds * 100).toFixed(odds > 0 && odds < 0.01 ? 1 : 0)}%`;
+
 export function CommissionerTools({ 
   leagueId, 
   isCommissioner, 
@@ -52,16 +77,60 @@ export function CommissionerTools({
   standings 
 }: CommissionerToolsProps) {
   const [selectedTab, setSelectedTab] = useState('playoffs');
+  const [playoffOdds, setPlayoffOdds] = useState<PlayoffOdds | null>(null);
+  const [isLoadingOdds, setIsLoadingOdds] = useState(false);
+
+  useEffect(() => {
+    if (!isCommissioner) return;
+
+    const fetchPlayoffOdds = async () => {
+      setIsLoadingOdds(true);
+      try {
+        const response = await apiClient.get(`/api/leagues/${leagueId}/playoff-odds`);
+        if (response.ok) {
+          const data = await response.json();
+          if (data.success) {
+            setPlayoffOdds(data.data);
+          }
+        }
+      } catch (error) {
+        console.error('Error fetching playoff odds:', error);
+      } finally {
+        setIsLoadingOdds(false);
+      }
+    };
+
+    fetchPlayoffOdds();
+  }, [leagueId, isCommissioner]);
+
+  const oddsByTeam = new Map((playoffOdds?.teams || []).map(team => [team.userId, team]));
+  const playoffTeamCount = playoffOdds?.playoffTeams || 6;
 
   // Calculate playoff scenarios
   const playoffTeams = standings
-    .filter(team => team.playoffSeed && team.playoffSeed <= 6)
+    .filter(team => team.playoffSeed && team.playoffSeed <= playoffTeamCount)
     .sort((a, b) => (a.playoffSeed || 0) - (b.playoffSeed || 0));
 
-  const bubbleTeams = standings
-    .filter(team => !team.playoffSeed)
-    .sort((a, b) => b.pointsFor - a.pointsFor)
-    .slice(0, 4);
+  // Teams still in the race, closest to the cut line first
+  const bubbleTeams = playoffOdds
+    ? standings
+        .filter(team => {
+          const odds = oddsByTeam.get(team.teamId);
+          return odds && !odds.clinched && !odds.eliminated;
+        })
+        .sort((a, b) =>
+          Math.abs((oddsByTeam.get(a.teamId)?.playoffOdds ?? 0) - 0.5) -
+          Math.abs((oddsByTeam.get(b.teamId)?.playoffOdds ?? 0) - 0.5)
+        )
+        .slice(0, 4)
+    : standings
+        .filter(team => !team.playoffSeed)
+        .sort((a, b) => b.pointsFor - a.pointsFor)
+        .slice(0, 4);
+
+  const championshipContenders = playoffOdds
+    ? playoffOdds.teams.slice().sort((a, b) => b.champOdds - a.champOdds).slice(0, 3)
+    : [];
 
   if (!isCommissioner) {
     return (
@@ -178,27 +247,40 @@ export function CommissionerTools({
                 <CardHeader>
                   <CardTitle>Playoff Scenarios</CardTitle>
                   <CardDescription>
-                    What each team needs to make or improve their playoff position
+                    {playoffOdds
+                      ? `Based on ${playoffOdds.simulationRuns.toLocaleString()} simulated seasons from week ${playoffOdds.week}`
+                      : 'What each team needs to make or improve their playoff position'}
                   </CardDescription>
                 </CardHeader>
                 <CardContent>
-                  <div className="space-y-4">
-                    {bubbleTeams.slice(0, 2).map((team) => (
-                      <div key={team.teamId} className="p-4 border rounded-lg">
-                        <div className="flex items-center justify-between mb-2">
-                          <h4 className="font-medium">{team.teamName}</h4>
-                          <Badge variant="outline">
-                            {((team.wins / (team.wins + team.losses)) * 100).toFixed(0)}% to make playoffs
-                          </Badge>
-                        </div>
-                        <div className="text-sm text-gray-600 space-y-1">
-                          <div>• Must win remaining {leagueData.playoffWeek - leagueData.currentWeek} games</div>
-                          <div>• Needs {playoffTeams[5]?.teamName || 'current 6th seed'} to lose at least 1 game</div>
-                          <div>• Would clinch with 120+ points and a win in Week {leagueData.currentWeek + 1}</div>
+                  {isLoadingOdds ? (
+                    <div className="flex items-center justify-center py-4">
+                      <Loader2 className="h-5 w-5 animate-spin mr-2" />
+                      <span className="text-sm">Simulating remaining schedule...</span>
+                    </div>
+                  ) : !playoffOdds ? (
+                    <div className="text-center py-4 text-sm text-gray-600">
+                      Playoff odds are not available for this league yet.
+                    </div>
+                  ) : (
+                    <div className="space-y-4">
+                      {playoffOdds.teams.map((team) => (
+                        <div key={team.userId} className="p-4 border rounded-lg">
+                          <div className="flex items-center justify-between mb-2">
+                            <h4 className="font-medium">{team.teamName}</h4>
+                            <Badge variant={team.clinched ? 'default' : team.eliminated ? 'destructive' : 'outline'}>
+                              {formatOdds(team.playoffOdds)} to make playoffs
+                            </Badge>
+                          </div>
+                          <div className="text-sm text-gray-600 space-y-1">
+                            {[...team.scenarios, ...team.mustWin, ...team.help].map((line) => (
+                              <div key={line}>• {line}</div>
+                            ))}
+                          </div>
                         </div>
-                      </div>
-                    ))}
-                  </div>
+                      ))}
+                    </div>
+                  )}
                 </CardContent>
               </Card>
             </TabsContent>
@@ -333,12 +415,12 @@ export function CommissionerTools({
 
                   <div className="space-y-3">
                     <h4 className="font-medium">Championship Odds</h4>
-                    {playoffTeams.slice(0, 3).map((team, index) => {
-                      const odds = [35, 25, 18][index] || 10; // Mock championship odds
+                    {championshipContenders.map((team, index) => {
+                      const odds = Math.round(team.champOdds * 100);
                       return (
-                        <div key={team.teamId} className="flex items-center justify-between p-3 bg-gray-50 rounded-lg">
+                        <div key={team.userId} className="flex items-center justify-between p-3 bg-gray-50 rounded-lg">
                           <div className="flex items-center space-x-3">
-                            <Badge variant="outline">#{team.playoffSeed}</Badge>
+                            <Badge variant="outline">#{index + 1}</Badge>
                             <span className="font-medium">{team.teamName}</span>
                           </div>
                           <div className="text-right">
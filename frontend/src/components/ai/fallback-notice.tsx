@@ -0,0 +1,26 @@
+'use client';
+
+import { AlertTriangle } from 'lucide-react';
+
+interface FallbackNoticeProps {
+  // The agent's reply failed validation even after a repair attempt
+  reason?: string;
+  message?: string;
+}
+
+export function FallbackNotice({
+  reason,
+  message = 'The AI response could not be used, so this is placeholder output. Try the analysis again.',
+}: FallbackNoticeProps) {
+  return (
+    <div className="p-3 bg-yellow-50 border border-yellow-200 rounded-md">
+      <div className="flex items-start">
+        <AlertTriangle className="h-4 w-4 text-yellow-600 mr-2 mt-0.5" />
+        <div>
+          <p className="text-sm text-yellow-800">{message}</p>
+          {reason && <p className="text-xs text-yellow-700 mt-1">{reason}</p>}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,12 +1,14 @@
 'use client';
 
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Badge } from '@/components/ui/badge';
 import { Loader2, Zap, TrendingUp, TrendingDown, AlertTriangle, Star, Target } from 'lucide-react';
 import { aiClient, LineupOptimizerRequest } from '@/lib/ai-client';
+import { StreamingReasoning } from './streaming-reasoning';
+import { FallbackNotice } from './fallback-notice';
 
 interface LineupOptimizerProps {
   userId: string;
@@ -19,6 +21,7 @@ interface LineupOptimizerProps {
     team: string;
   }[];
   rosterSlots: string[];
+  initialAnalysis?: any;
 }
 
 export function LineupOptimizer({
@@ -27,6 +30,7 @@ export function LineupOptimizer({
   week,
   availablePlayers,
   rosterSlots,
+  initialAnalysis,
 }: LineupOptimizerProps) {
   const [riskTolerance, setRiskTolerance] = useState<'conservative' | 'moderate' | 'aggressive'>('moderate');
   const [prioritizeFloor, setPriorizeFloor] = useState(false);
@@ -37,10 +41,17 @@ export function LineupOptimizer({
   const [cannotStart, setCannotStart] = useState<string[]>([]);
   const [provider, setProvider] = useState<'openai' | 'claude' | 'gemini'>('claude');
   const [isOptimizing, setIsOptimizing] = useState(false);
-  const [optimization, setOptimization] = useState<any>(null);
+  const [optimization, setOptimization] = useState<any>(initialAnalysis ?? null);
+  const [streamedText, setStreamedText] = useState('');
   const [error, setError] = useState<string | null>(null);
   const [selectedScenario, setSelectedScenario] = useState<'optimal' | 'floor' | 'ceiling'>('optimal');
 
+  useEffect(() => {
+    if (initialAnalysis) {
+      setOptimization(initialAnalysis);
+    }
+  }, [initialAnalysis]);
+
   const handleOptimize = async () => {
     if (availablePlayers.length === 0) {
       setError('No players available for lineup optimization');
@@ -49,6 +60,7 @@ export function LineupOptimizer({
 
     setIsOptimizing(true);
     setError(null);
+    setStreamedText('');
 
     try {
       const request: LineupOptimizerRequest = {
@@ -71,7 +83,7 @@ export function LineupOptimizer({
         preferredProvider: provider,
       };
 
-      const result = await aiClient.optimizeLineup(request);
+      const result = await aiClient.streamLineup(request, (text) => setStreamedText((prev) => prev + text));
       setOptimization(result);
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Lineup optimization failed');
@@ -295,6 +307,11 @@ export function LineupOptimizer({
             )}
           </Button>
 
+          {/* Reasoning as it streams in */}
+          {isOptimizing && (
+            <StreamingReasoning text={streamedText} label="Projecting players and explaining the lineup..." />
+          )}
+
           {/* Error Display */}
           {error && (
             <div className="p-3 bg-red-50 border border-red-200 rounded-md">
@@ -310,6 +327,13 @@ export function LineupOptimizer({
       {/* Optimization Results */}
       {optimization && (
         <div className="space-y-4">
+          {optimization.isFallback && (
+            <FallbackNotice
+              reason={optimization.fallbackReason}
+              message="The AI explanation could not be used, so these lineups come from the solver without its reasoning."
+            />
+          )}
+
           {/* Scenario Selection */}
           <Card>
             <CardHeader>
@@ -1,12 +1,14 @@
 'use client';
 
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Badge } from '@/components/ui/badge';
 import { Loader2, TrendingUp, TrendingDown, AlertTriangle } from 'lucide-react';
 import { aiClient, StartSitRequest } from '@/lib/ai-client';
+import { StreamingReasoning } from './streaming-reasoning';
+import { FallbackNotice } from './fallback-notice';
 
 interface StartSitAnalyzerProps {
   userId: string;
@@ -19,6 +21,8 @@ interface StartSitAnalyzerProps {
     team: string;
   }[];
   rosterSlots: string[];
+  // Previously stored result to display, e.g. when re-opened from history
+  initialAnalysis?: any;
 }
 
 export function StartSitAnalyzer({
@@ -27,14 +31,22 @@ export function StartSitAnalyzer({
   week,
   availablePlayers,
   rosterSlots,
+  initialAnalysis,
 }: StartSitAnalyzerProps) {
   const [selectedPlayers, setSelectedPlayers] = useState<string[]>([]);
   const [riskTolerance, setRiskTolerance] = useState<'conservative' | 'moderate' | 'aggressive'>('moderate');
   const [provider, setProvider] = useState<'openai' | 'claude' | 'gemini'>('claude');
   const [isAnalyzing, setIsAnalyzing] = useState(false);
-  const [analysis, setAnalysis] = useState<any>(null);
+  const [analysis, setAnalysis] = useState<any>(initialAnalysis ?? null);
+  const [streamedText, setStreamedText] = useState('');
   const [error, setError] = useState<string | null>(null);
 
+  useEffect(() => {
+    if (initialAnalysis) {
+      setAnalysis(initialAnalysis);
+    }
+  }, [initialAnalysis]);
+
   const handleAnalyze = async () => {
     if (selectedPlayers.length === 0) {
       setError('Please select at least one player to analyze');
@@ -43,6 +55,7 @@ export function StartSitAnalyzer({
 
     setIsAnalyzing(true);
     setError(null);
+    setStreamedText('');
 
     try {
       const request: StartSitRequest = {
@@ -59,7 +72,7 @@ export function StartSitAnalyzer({
         preferredProvider: provider,
       };
 
-      const result = await aiClient.analyzeStartSit(request);
+      const result = await aiClient.streamStartSit(request, (text) => setStreamedText((prev) => prev + text));
       setAnalysis(result);
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Analysis failed');
@@ -176,6 +189,11 @@ export function StartSitAnalyzer({
             )}
           </Button>
 
+          {/* Reasoning as it streams in */}
+          {isAnalyzing && (
+            <StreamingReasoning text={streamedText} label="Weighing your start/sit decisions..." />
+          )}
+
           {/* Error Display */}
           {error && (
             <div className="p-3 bg-red-50 border border-red-200 rounded-md">
@@ -191,6 +209,10 @@ export function StartSitAnalyzer({
       {/* Analysis Results */}
       {analysis && (
         <div className="space-y-4">
+          {analysis.isFallback && (
+            <FallbackNotice reason={analysis.fallbackReason} />
+          )}
+
           {/* Weekly Outlook */}
           <Card>
             <CardHeader>
@@ -0,0 +1,52 @@
+'use client';
+
+import { Loader2 } from 'lucide-react';
+
+interface StreamingReasoningProps {
+  // Model output received so far; the agents answer in JSON
+  text: string;
+  label?: string;
+}
+
+const STRING_TOKEN = /"((?:[^"\\]|\\.)*)(")?(\s*:)?/g;
+
+// Pulls the prose out of partial JSON: string values (not keys) that read like
+// sentences, including the one still being written at the end of the text.
+function extractReasoning(text: string): string[] {
+  const lines: string[] = [];
+
+  for (const match of Array.from(text.matchAll(STRING_TOKEN))) {
+    const [, raw, closed, colon] = match;
+    if (colon || !raw.includes(' ') || (closed && raw.length < 25)) continue;
+
+    try {
+      lines.push(JSON.parse(`"${raw.replace(/\\$/, '')}"`));
+    } catch {
+      lines.push(raw);
+    }
+  }
+
+  return lines;
+}
+
+export function StreamingReasoning({ text, label = 'Analyzing...' }: StreamingReasoningProps) {
+  const lines = extractReasoning(text);
+
+  return (
+    <div className="border rounded-lg p-3 bg-gray-50 space-y-2">
+      <div className="flex items-center text-sm font-medium text-gray-700">
+        <Loader2 className="h-4 w-4 animate-spin mr-2" />
+        {label}
+      </div>
+      {lines.length > 0 ? (
+        <ul className="space-y-1 max-h-64 overflow-y-auto">
+          {lines.map((line, index) => (
+            <li key={index} className="text-sm text-gray-600">{line}</li>
+          ))}
+        </ul>
+      ) : (
+        <p className="text-sm text-gray-500">Waiting for the model&apos;s reasoning...</p>
+      )}
+    </div>
+  );
+}
@@ -1,12 +1,14 @@
 'use client';
 
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Badge } from '@/components/ui/badge';
 import { Loader2, TrendingUp, TrendingDown, AlertTriangle, Scale, Star } from 'lucide-react';
-import { aiClient, TradeRequest } from '@/lib/ai-client';
+import { aiClient, TradeStreamRequest } from '@/lib/ai-client';
+import { StreamingReasoning } from './streaming-reasoning';
+import { FallbackNotice } from './fallback-notice';
 
 interface TradeAnalyzerProps {
   leagueId: string;
@@ -22,18 +24,26 @@ interface TradeAnalyzerProps {
       team: string;
     }[];
   }[];
+  initialAnalysis?: any;
 }
 
-export function TradeAnalyzer({ leagueId, userId, week, availableTeams }: TradeAnalyzerProps) {
+export function TradeAnalyzer({ leagueId, userId, week, availableTeams, initialAnalysis }: TradeAnalyzerProps) {
   const [team1, setTeam1] = useState<string>('');
   const [team2, setTeam2] = useState<string>('');
   const [team1Players, setTeam1Players] = useState<string[]>([]);
   const [team2Players, setTeam2Players] = useState<string[]>([]);
   const [provider, setProvider] = useState<'openai' | 'claude' | 'gemini'>('claude');
   const [isAnalyzing, setIsAnalyzing] = useState(false);
-  const [analysis, setAnalysis] = useState<any>(null);
+  const [analysis, setAnalysis] = useState<any>(initialAnalysis ?? null);
+  const [streamedText, setStreamedText] = useState('');
   const [error, setError] = useState<string | null>(null);
 
+  useEffect(() => {
+    if (initialAnalysis) {
+      setAnalysis(initialAnalysis);
+    }
+  }, [initialAnalysis]);
+
   const team1Data = availableTeams.find(t => t.userId === team1);
   const team2Data = availableTeams.find(t => t.userId === team2);
 
@@ -50,11 +60,14 @@ export function TradeAnalyzer({ leagueId, userId, week, availableTeams }: TradeA
 
     setIsAnalyzing(true);
     setError(null);
+    setStreamedText('');
 
     try {
-      const request: TradeRequest = {
+      const request: TradeStreamRequest = {
         leagueId,
         week,
+        team1UserId: team1,
+        team2UserId: team2,
         team1Players: {
           give: team1Players,
           receive: team2Players,
@@ -66,9 +79,10 @@ export function TradeAnalyzer({ leagueId, userId, week, availableTeams }: TradeA
         userPreferences: {
           riskTolerance: 'moderate',
         },
+        preferredProvider: provider,
       };
 
-      const result = await aiClient.analyzeTrade(request);
+      const result = await aiClient.streamTrade(request, (text) => setStreamedText((prev) => prev + text));
       setAnalysis(result);
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Trade analysis failed');
@@ -236,6 +250,11 @@ export function TradeAnalyzer({ leagueId, userId, week, availableTeams }: TradeA
             )}
           </Button>
 
+          {/* Reasoning as it streams in */}
+          {isAnalyzing && (
+            <StreamingReasoning text={streamedText} label="Evaluating both sides of the trade..." />
+          )}
+
           {/* Error Display */}
           {error && (
             <div className="p-3 bg-red-50 border border-red-200 rounded-md">
@@ -251,6 +270,10 @@ export function TradeAnalyzer({ leagueId, userId, week, availableTeams }: TradeA
       {/* Analysis Results */}
       {analysis && (
         <div className="space-y-4">
+          {analysis.isFallback && (
+            <FallbackNotice reason={analysis.fallbackReason} />
+          )}
+
           {/* Trade Summary */}
           <Card>
             <CardHeader>
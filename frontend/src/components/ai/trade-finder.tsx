@@ -0,0 +1,191 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { AlertTriangle, ArrowLeftRight, Loader2, RefreshCw } from 'lucide-react';
+import { apiClient } from '@/lib/api-client';
+import { FallbackNotice } from './fallback-notice';
+
+interface TradeFinderPlayer {
+  playerId: string;
+  name: string;
+  position: string;
+  nflTeam: string | null;
+  projectedPoints: number;
+}
+
+interface TradeSuggestion {
+  partner: { rosterId: number; teamName: string };
+  shape: '1-for-1' | '2-for-1' | '1-for-2';
+  give: TradeFinderPlayer[];
+  receive: TradeFinderPlayer[];
+  lineupGain: { mine: number; theirs: number };
+  fairness: number;
+  addresses: { mine: string[]; theirs: string[] };
+  analysis: {
+    fairnessScore: number;
+    team1Analysis: { grade: string; recommendation: { decision: string; reasoning: string } };
+    team2Analysis: { grade: string; recommendation: { decision: string; reasoning: string } };
+    summary: string;
+    keyInsights: string[];
+    isFallback: boolean;
+    fallbackReason?: string;
+  } | null;
+}
+
+interface TradeFinderData {
+  needs: { position: string; need: number; surplus: number }[];
+  suggestions: TradeSuggestion[];
+  createdAt: string;
+}
+
+interface TradeFinderProps {
+  leagueId: string;
+}
+
+export function TradeFinder({ leagueId }: TradeFinderProps) {
+  const [trades, setTrades] = useState<TradeFinderData | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadTrades = useCallback(async (refresh = false) => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const response = await apiClient.get(`/api/leagues/${leagueId}/trade-finder${refresh ? '?refresh=true' : ''}`);
+      const data = await response.json();
+      if (!response.ok || !data.success) {
+        throw new Error(data.error?.message || 'Failed to find trades');
+      }
+      setTrades(data.data);
+    } catch (err) {
+      setTrades(null);
+      setError(err instanceof Error ? err.message : 'Failed to find trades');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [leagueId]);
+
+  useEffect(() => {
+    if (leagueId) {
+      loadTrades();
+    }
+  }, [leagueId, loadTrades]);
+
+  const renderPlayers = (players: TradeFinderPlayer[]) => players.map((player) => (
+    <div key={player.playerId}>
+      {player.name} <span className="text-gray-500">{player.position} · {player.projectedPoints.toFixed(1)}/wk</span>
+    </div>
+  ));
+
+  if (isLoading && !trades) {
+    return (
+      <Card>
+        <CardContent className="pt-6">
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="h-5 w-5 animate-spin mr-2" />
+            <span className="text-sm">Scanning the league for trades...</span>
+          </div>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const needs = trades?.needs.filter((entry) => entry.need > 0).map((entry) => entry.position) || [];
+  const depth = trades?.needs.filter((entry) => entry.surplus > 0).map((entry) => entry.position) || [];
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <ArrowLeftRight className="h-5 w-5" />
+              Trade Finder
+            </CardTitle>
+            <CardDescription>
+              {trades
+                ? `You need ${needs.join(', ') || 'nothing urgent'}; you can deal from ${depth.join(', ') || 'no bench depth'}`
+                : 'Trades that improve both projected starting lineups'}
+            </CardDescription>
+          </div>
+          <Button variant="outline" size="sm" onClick={() => loadTrades(true)} disabled={isLoading}>
+            {isLoading ? (
+              <Loader2 className="h-4 w-4 animate-spin mr-2" />
+            ) : (
+              <RefreshCw className="h-4 w-4 mr-2" />
+            )}
+            Refresh
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {error && (
+          <div className="p-3 bg-red-50 border border-red-200 rounded-md">
+            <div className="flex items-center">
+              <AlertTriangle className="h-4 w-4 text-red-600 mr-2" />
+              <span className="text-sm text-red-800">{error}</span>
+            </div>
+          </div>
+        )}
+
+        {trades && trades.suggestions.length === 0 && (
+          <p className="text-sm text-gray-600">No trade improves both lineups right now.</p>
+        )}
+
+        {trades?.suggestions.map((suggestion) => (
+          <div
+            key={`${suggestion.partner.rosterId}-${[...suggestion.give, ...suggestion.receive].map((player) => player.playerId).join('-')}`}
+            className="border rounded-lg p-3 space-y-3"
+          >
+            <div className="flex items-center justify-between">
+              <div className="font-medium flex items-center gap-2">
+                {suggestion.partner.teamName}
+                <Badge variant="outline">{suggestion.shape}</Badge>
+              </div>
+              <span className="text-sm text-gray-600">{Math.round(suggestion.fairness * 100)}% balanced</span>
+            </div>
+
+            <div className="grid grid-cols-2 gap-4 text-sm">
+              <div>
+                <div className="text-xs font-semibold text-gray-500 mb-1">You give</div>
+                {renderPlayers(suggestion.give)}
+              </div>
+              <div>
+                <div className="text-xs font-semibold text-gray-500 mb-1">You get</div>
+                {renderPlayers(suggestion.receive)}
+              </div>
+            </div>
+
+            <div className="text-sm text-gray-700">
+              Your lineup <span className="text-green-600">+{suggestion.lineupGain.mine.toFixed(1)}</span>, theirs{' '}
+              <span className="text-green-600">+{suggestion.lineupGain.theirs.toFixed(1)}</span> projected points per week
+            </div>
+
+            {suggestion.analysis?.isFallback ? (
+              <FallbackNotice
+                reason={suggestion.analysis.fallbackReason}
+                message="The AI trade analysis could not be used for this suggestion. The projected gains above still apply."
+              />
+            ) : suggestion.analysis ? (
+              <div className="space-y-1 text-sm">
+                <div className="flex items-center gap-2">
+                  <Badge>{suggestion.analysis.team1Analysis.grade}</Badge>
+                  <span className="text-gray-500">for you ·</span>
+                  <Badge variant="secondary">{suggestion.analysis.team2Analysis.grade}</Badge>
+                  <span className="text-gray-500">for them</span>
+                </div>
+                <p className="text-gray-700">{suggestion.analysis.summary}</p>
+              </div>
+            ) : (
+              <p className="text-xs text-gray-500">Trade analysis unavailable for this suggestion.</p>
+            )}
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
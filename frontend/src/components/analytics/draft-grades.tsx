@@ -0,0 +1,241 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { AlertTriangle, ClipboardCheck, Loader2, RefreshCw, TrendingDown, TrendingUp } from 'lucide-react';
+import { apiClient } from '@/lib/api-client';
+import { FallbackNotice } from '@/components/ai/fallback-notice';
+
+type DraftGradeBasis = 'adp' | 'points';
+
+interface DraftGradePick {
+  pickNo: number;
+  round: number;
+  playerId: string;
+  playerName: string;
+  position: string | null;
+  expectedPick: number;
+  value: number;
+  label: 'steal' | 'reach' | null;
+  points: number | null;
+}
+
+interface TeamDraftGrade {
+  rosterId: number;
+  teamName: string;
+  grade: string;
+  score: number;
+  picks: DraftGradePick[];
+  steals: number;
+  reaches: number;
+  summary: string;
+}
+
+interface DraftGradesData {
+  basis: DraftGradeBasis;
+  weeksPlayed: number;
+  season: string;
+  teams: TeamDraftGrade[];
+  biggestSteals: (DraftGradePick & { teamName: string })[];
+  biggestReaches: (DraftGradePick & { teamName: string })[];
+  overview: string;
+  isFallback: boolean;
+  fallbackReason?: string;
+}
+
+interface DraftGradesProps {
+  leagueId: string;
+}
+
+const gradeVariant = (grade: string) =>
+  grade.startsWith('A') ? 'default' : grade.startsWith('D') || grade === 'F' ? 'destructive' : 'secondary';
+
+export function DraftGrades({ leagueId }: DraftGradesProps) {
+  const [grades, setGrades] = useState<DraftGradesData | null>(null);
+  const [basis, setBasis] = useState<DraftGradeBasis | null>(null);
+  const [expanded, setExpanded] = useState<number | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadGrades = useCallback(async (refresh = false) => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const params = new URLSearchParams();
+      if (basis) params.set('basis', basis);
+      if (refresh) params.set('refresh', 'true');
+
+      const response = await apiClient.get(`/api/leagues/${leagueId}/draft-grades?${params.toString()}`);
+      const data = await response.json();
+      if (!response.ok || !data.success) {
+        throw new Error(data.error?.message || 'Failed to load draft grades');
+      }
+      setGrades(data.data);
+    } catch (err) {
+      setGrades(null);
+      setError(err instanceof Error ? err.message : 'Failed to load draft grades');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [leagueId, basis]);
+
+  useEffect(() => {
+    if (leagueId) {
+      loadGrades();
+    }
+  }, [leagueId, loadGrades]);
+
+  const renderHighlight = (pick: DraftGradePick & { teamName: string }) => (
+    <div key={pick.playerId} className="text-sm">
+      <span className="font-medium">{pick.playerName}</span>
+      <span className="text-gray-600"> ({pick.teamName}, round {pick.round}, pick {pick.pickNo} vs value {pick.expectedPick})</span>
+    </div>
+  );
+
+  if (isLoading && !grades) {
+    return (
+      <Card>
+        <CardContent className="pt-6">
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="h-5 w-5 animate-spin mr-2" />
+            <span className="text-sm">Grading the draft...</span>
+          </div>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <ClipboardCheck className="h-5 w-5" />
+              Draft Grades
+            </CardTitle>
+            <CardDescription>
+              {grades?.basis === 'points'
+                ? `Re-graded on points over replacement through week ${grades.weeksPlayed}`
+                : 'Graded against Sleeper consensus rankings'}
+            </CardDescription>
+          </div>
+          <div className="flex items-center gap-2">
+            <Button
+              variant={(basis ?? grades?.basis) === 'adp' ? 'default' : 'outline'}
+              size="sm"
+              onClick={() => setBasis('adp')}
+              disabled={isLoading}
+            >
+              Draft value
+            </Button>
+            <Button
+              variant={(basis ?? grades?.basis) === 'points' ? 'default' : 'outline'}
+              size="sm"
+              onClick={() => setBasis('points')}
+              disabled={isLoading}
+            >
+              Points scored
+            </Button>
+            <Button variant="outline" size="sm" onClick={() => loadGrades(true)} disabled={isLoading}>
+              {isLoading ? <Loader2 className="h-4 w-4 animate-spin" /> : <RefreshCw className="h-4 w-4" />}
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {error && (
+          <div className="p-3 bg-red-50 border border-red-200 rounded-md">
+            <div className="flex items-center">
+              <AlertTriangle className="h-4 w-4 text-red-600 mr-2" />
+              <span className="text-sm text-red-800">{error}</span>
+            </div>
+          </div>
+        )}
+
+        {grades && (
+          <>
+            {grades.isFallback && (
+              <FallbackNotice
+                reason={grades.fallbackReason}
+                message="The AI summaries could not be written, so each team shows its generated pick summary."
+              />
+            )}
+
+            {grades.overview && <p className="text-sm text-gray-700">{grades.overview}</p>}
+
+            <div className="space-y-2">
+              {grades.teams.map((team) => (
+                <div key={team.rosterId} className="border rounded-lg p-3">
+                  <button
+                    type="button"
+                    className="w-full flex items-start justify-between text-left"
+                    onClick={() => setExpanded(expanded === team.rosterId ? null : team.rosterId)}
+                  >
+                    <div className="flex items-start gap-3">
+                      <Badge variant={gradeVariant(team.grade)} className="w-10 justify-center">{team.grade}</Badge>
+                      <div>
+                        <div className="font-medium">{team.teamName}</div>
+                        <div className="text-sm text-gray-700">{team.summary}</div>
+                      </div>
+                    </div>
+                    <span className="text-sm text-gray-600 ml-4 whitespace-nowrap">
+                      {team.score >= 0 ? '+' : ''}{team.score.toFixed(2)} rds/pick
+                    </span>
+                  </button>
+
+                  {expanded === team.rosterId && (
+                    <div className="mt-3 space-y-1">
+                      {team.picks.map((pick) => (
+                        <div key={pick.playerId} className="flex items-center justify-between text-sm">
+                          <span>
+                            <span className="text-gray-500 mr-2">{pick.round}.{pick.pickNo}</span>
+                            {pick.playerName}
+                            {pick.position && <span className="text-gray-500"> {pick.position}</span>}
+                            {pick.points !== null && <span className="text-gray-500"> · {pick.points.toFixed(1)} pts</span>}
+                          </span>
+                          <span className="flex items-center gap-2">
+                            {pick.label && (
+                              <Badge variant={pick.label === 'steal' ? 'default' : 'destructive'}>{pick.label}</Badge>
+                            )}
+                            <span className={pick.value > 0 ? 'text-green-600' : pick.value < 0 ? 'text-red-600' : 'text-gray-500'}>
+                              {pick.value > 0 ? '+' : ''}{pick.value.toFixed(1)}
+                            </span>
+                          </span>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              ))}
+            </div>
+
+            <div className="grid md:grid-cols-2 gap-4">
+              <div>
+                <h4 className="font-semibold text-sm mb-2 flex items-center gap-2">
+                  <TrendingUp className="h-4 w-4 text-green-600" />
+                  Biggest Steals
+                </h4>
+                {grades.biggestSteals.length > 0
+                  ? grades.biggestSteals.map(renderHighlight)
+                  : <p className="text-sm text-gray-600">No steals this draft.</p>}
+              </div>
+              <div>
+                <h4 className="font-semibold text-sm mb-2 flex items-center gap-2">
+                  <TrendingDown className="h-4 w-4 text-red-600" />
+                  Biggest Reaches
+                </h4>
+                {grades.biggestReaches.length > 0
+                  ? grades.biggestReaches.map(renderHighlight)
+                  : <p className="text-sm text-gray-600">No reaches this draft.</p>}
+              </div>
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,249 @@
+'use client';
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Activity, AlertTriangle, ChevronDown, ChevronUp, Clock, Loader2 } from 'lucide-react';
+import { apiClient } from '@/lib/api-client';
+import { useRealtime } from '@/hooks/useRealtime';
+
+type StarterStatus = 'yet_to_play' | 'started' | 'not_playing';
+
+interface LiveStarter {
+  playerId: string;
+  name: string;
+  position: string | null;
+  team: string | null;
+  slot: string;
+  points: number;
+  projectedPoints: number;
+  status: StarterStatus;
+}
+
+interface LiveTeam {
+  rosterId: number;
+  teamName: string;
+  ownerName: string;
+  points: number;
+  pointsRemaining: number;
+  projectedFinal: number;
+  playersYetToPlay: number;
+  starters: LiveStarter[];
+}
+
+interface LiveScoreboardData {
+  week: number;
+  isCurrentWeek: boolean;
+  gamesInProgress: boolean;
+  pollIntervalSeconds: number | null;
+  matchups: { matchupId: number; teams: LiveTeam[] }[];
+  updatedAt: string;
+}
+
+interface LiveScoreboardProps {
+  leagueId: string;
+  week: number;
+}
+
+const starterKey = (rosterId: number, playerId: string) => `${rosterId}:${playerId}`;
+
+const STATUS_LABELS: Record<StarterStatus, string> = {
+  yet_to_play: 'Yet to play',
+  started: 'Played',
+  not_playing: 'Out',
+};
+
+export function LiveScoreboard({ leagueId, week }: LiveScoreboardProps) {
+  const [scoreboard, setScoreboard] = useState<LiveScoreboardData | null>(null);
+  const [deltas, setDeltas] = useState<Record<string, number>>({});
+  const [expanded, setExpanded] = useState<number | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  // Starter points from the previous poll of the same week
+  const previousPoints = useRef<{ week: number; points: Record<string, number> } | null>(null);
+
+  const loadScoreboard = useCallback(async () => {
+    setIsLoading(true);
+
+    try {
+      const response = await apiClient.get(`/api/leagues/${leagueId}/scoreboard/${week}`);
+      const data = await response.json();
+      if (!response.ok || !data.success) {
+        throw new Error(data.error?.message || 'Failed to load scoreboard');
+      }
+
+      const next: LiveScoreboardData = data.data;
+      const points: Record<string, number> = {};
+      const changes: Record<string, number> = {};
+      const previous = previousPoints.current?.week === week ? previousPoints.current.points : null;
+
+      next.matchups.forEach((matchup) => matchup.teams.forEach((team) => team.starters.forEach((starter) => {
+        const key = starterKey(team.rosterId, starter.playerId);
+        points[key] = starter.points;
+        if (previous && key in previous && previous[key] !== starter.points) {
+          changes[key] = Math.round((starter.points - previous[key]) * 100) / 100;
+        }
+      })));
+
+      previousPoints.current = { week, points };
+      setDeltas(changes);
+      setScoreboard(next);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load scoreboard');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [leagueId, week]);
+
+  useEffect(() => {
+    if (leagueId && week) {
+      loadScoreboard();
+    }
+  }, [leagueId, week, loadScoreboard]);
+
+  // The backend picks the interval: fast during games, slow between them, none once the week is final
+  useEffect(() => {
+    const interval = scoreboard?.pollIntervalSeconds;
+    if (!interval) return;
+
+    const timer = setTimeout(loadScoreboard, interval * 1000);
+    return () => clearTimeout(timer);
+  }, [scoreboard, loadScoreboard]);
+
+  // Sleeper changes picked up by the backend's score watcher land between polls
+  useRealtime({
+    score_update: ({ payload }) => payload.week === week && loadScoreboard(),
+    lineup_change: ({ payload }) => payload.week === week && loadScoreboard(),
+  }, { leagueId, enabled: !!scoreboard?.isCurrentWeek });
+
+  const renderDelta = (rosterId: number, playerId: string) => {
+    const delta = deltas[starterKey(rosterId, playerId)];
+    if (!delta) return null;
+    return (
+      <span className={`text-xs font-medium ml-1 ${delta > 0 ? 'text-green-600' : 'text-red-600'}`}>
+        {delta > 0 ? '+' : ''}{delta.toFixed(1)}
+      </span>
+    );
+  };
+
+  const renderTeam = (team: LiveTeam, isLeading: boolean) => (
+    <div key={team.rosterId} className="flex-1 text-center">
+      <h4 className="font-medium text-gray-900 truncate">{team.teamName}</h4>
+      <div className={`text-2xl font-bold mt-1 ${isLeading ? 'text-green-600' : 'text-gray-900'}`}>
+        {team.points.toFixed(1)}
+      </div>
+      <div className="text-sm text-gray-600">Proj: {team.projectedFinal.toFixed(1)}</div>
+      <div className="text-xs text-gray-500">
+        {team.playersYetToPlay} yet to play • {team.pointsRemaining.toFixed(1)} pts left
+      </div>
+    </div>
+  );
+
+  const renderStarters = (team: LiveTeam) => (
+    <div key={team.rosterId} className="flex-1 space-y-1">
+      {team.starters.map((starter, index) => (
+        <div key={`${starter.playerId}-${index}`} className="flex items-center justify-between text-sm">
+          <div className="flex items-center gap-2 min-w-0">
+            <span className="text-xs text-gray-500 w-10 shrink-0">{starter.slot}</span>
+            <span className={`truncate ${starter.status === 'not_playing' ? 'text-gray-400' : 'text-gray-900'}`}>
+              {starter.name}
+            </span>
+            {starter.status === 'yet_to_play' && (
+              <Badge variant="outline" className="text-xs">{STATUS_LABELS[starter.status]}</Badge>
+            )}
+          </div>
+          <div className="text-right shrink-0 ml-2">
+            <span className="font-medium">{starter.points.toFixed(1)}</span>
+            {renderDelta(team.rosterId, starter.playerId)}
+            <div className="text-xs text-gray-500">proj {starter.projectedPoints.toFixed(1)}</div>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <Activity className="h-5 w-5" />
+              Live Scoreboard
+            </CardTitle>
+            <CardDescription>
+              Week {week}
+              {scoreboard && ` • Updated ${new Date(scoreboard.updatedAt).toLocaleTimeString()}`}
+            </CardDescription>
+          </div>
+          <div className="flex items-center gap-2">
+            {isLoading && <Loader2 className="h-4 w-4 animate-spin text-gray-500" />}
+            {scoreboard?.gamesInProgress ? (
+              <Badge className="bg-red-600 text-white">Live</Badge>
+            ) : scoreboard?.pollIntervalSeconds ? (
+              <Badge variant="outline" className="flex items-center gap-1">
+                <Clock className="h-3 w-3" />
+                Between games
+              </Badge>
+            ) : scoreboard ? (
+              <Badge variant="secondary">Final</Badge>
+            ) : null}
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {error && (
+          <div className="p-3 mb-4 bg-red-50 border border-red-200 rounded-md">
+            <div className="flex items-center">
+              <AlertTriangle className="h-4 w-4 text-red-600 mr-2" />
+              <span className="text-sm text-red-800">{error}</span>
+            </div>
+          </div>
+        )}
+
+        {!scoreboard ? (
+          isLoading && (
+            <div className="flex items-center justify-center py-8">
+              <Loader2 className="h-5 w-5 animate-spin mr-2" />
+              <span className="text-sm">Loading scoreboard...</span>
+            </div>
+          )
+        ) : scoreboard.matchups.length === 0 ? (
+          <p className="text-sm text-gray-600 text-center py-8">No matchups found for Week {week}</p>
+        ) : (
+          <div className="space-y-4">
+            {scoreboard.matchups.map((matchup) => {
+              const topScore = Math.max(...matchup.teams.map((team) => team.points));
+              const isExpanded = expanded === matchup.matchupId;
+
+              return (
+                <div key={matchup.matchupId} className="border rounded-lg p-4">
+                  <div className="flex items-center gap-4">
+                    {matchup.teams.map((team) => renderTeam(team, topScore > 0 && team.points === topScore))}
+                  </div>
+                  <div className="text-center mt-2">
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => setExpanded(isExpanded ? null : matchup.matchupId)}
+                    >
+                      {isExpanded ? <ChevronUp className="h-4 w-4 mr-1" /> : <ChevronDown className="h-4 w-4 mr-1" />}
+                      Starters
+                    </Button>
+                  </div>
+                  {isExpanded && (
+                    <div className="flex gap-6 mt-2 pt-3 border-t">
+                      {matchup.teams.map(renderStarters)}
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
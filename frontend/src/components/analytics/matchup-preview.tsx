@@ -0,0 +1,197 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { AlertTriangle, Loader2, RefreshCw, Swords } from 'lucide-react';
+import { apiClient } from '@/lib/api-client';
+import { FallbackNotice } from '@/components/ai/fallback-notice';
+
+interface PositionBattle {
+  slot: string;
+  players: { name: string; position: string | null; projectedPoints: number }[][];
+  projectedPoints: [number, number];
+  edge: string | null;
+  margin: number;
+  stdDev: number;
+  decisive: boolean;
+}
+
+interface MatchupPreviewData {
+  week: number;
+  matchupId: number;
+  viewerRosterId: number | null;
+  analysis: {
+    teams: { rosterId: number; teamName: string; projectedTotal: number; stdDev: number; winProbability: number }[];
+    favorite: string | null;
+    projectedMargin: number;
+    positionBattles: PositionBattle[];
+    narrative: string;
+    keyFactors: string[];
+    provider: string | null;
+    isFallback: boolean;
+    fallbackReason?: string;
+  };
+  createdAt: string;
+}
+
+interface MatchupPreviewProps {
+  leagueId: string;
+  week: number;
+}
+
+export function MatchupPreview({ leagueId, week }: MatchupPreviewProps) {
+  const [preview, setPreview] = useState<MatchupPreviewData | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadPreview = useCallback(async (refresh = false) => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const response = await apiClient.get(
+        `/api/analytics/matchup-preview/${leagueId}?week=${week}${refresh ? '&refresh=true' : ''}`
+      );
+      const data = await response.json();
+      if (!response.ok || !data.success) {
+        throw new Error(data.error?.message || 'Failed to load matchup preview');
+      }
+      setPreview(data.data);
+    } catch (err) {
+      setPreview(null);
+      setError(err instanceof Error ? err.message : 'Failed to load matchup preview');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [leagueId, week]);
+
+  useEffect(() => {
+    if (leagueId && week) {
+      loadPreview();
+    }
+  }, [leagueId, week, loadPreview]);
+
+  if (isLoading && !preview) {
+    return (
+      <Card>
+        <CardContent className="pt-6">
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="h-5 w-5 animate-spin mr-2" />
+            <span className="text-sm">Previewing your matchup...</span>
+          </div>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const { analysis } = preview || {};
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <Swords className="h-5 w-5" />
+              Week {week} Matchup Preview
+            </CardTitle>
+            <CardDescription>Projected totals and win probability from this week&apos;s projections</CardDescription>
+          </div>
+          <Button variant="outline" size="sm" onClick={() => loadPreview(true)} disabled={isLoading}>
+            {isLoading ? (
+              <Loader2 className="h-4 w-4 animate-spin mr-2" />
+            ) : (
+              <RefreshCw className="h-4 w-4 mr-2" />
+            )}
+            Refresh
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {error && (
+          <div className="p-3 bg-red-50 border border-red-200 rounded-md">
+            <div className="flex items-center">
+              <AlertTriangle className="h-4 w-4 text-red-600 mr-2" />
+              <span className="text-sm text-red-800">{error}</span>
+            </div>
+          </div>
+        )}
+
+        {preview && analysis && (
+          <>
+            <div className="grid grid-cols-2 gap-4">
+              {analysis.teams.map((team) => (
+                <div
+                  key={team.rosterId}
+                  className={`border rounded-lg p-3 ${team.rosterId === preview.viewerRosterId ? 'border-blue-300 bg-blue-50' : ''}`}
+                >
+                  <div className="font-medium flex items-center gap-2">
+                    {team.teamName}
+                    {team.rosterId === preview.viewerRosterId && <Badge variant="secondary">You</Badge>}
+                  </div>
+                  <div className="text-2xl font-bold">{team.projectedTotal.toFixed(1)}</div>
+                  <div className="text-sm text-gray-600">±{team.stdDev.toFixed(1)} projected</div>
+                  <div className="text-sm font-medium mt-1">{Math.round(team.winProbability * 100)}% to win</div>
+                </div>
+              ))}
+            </div>
+
+            {/* Win probability bar, first team from the left */}
+            <div className="h-2 w-full bg-gray-200 rounded-full overflow-hidden">
+              <div
+                className="h-full bg-blue-600"
+                style={{ width: `${Math.round((analysis.teams[0]?.winProbability || 0) * 100)}%` }}
+              />
+            </div>
+
+            {analysis.isFallback && (
+              <FallbackNotice
+                reason={analysis.fallbackReason}
+                message="The AI preview could not be used, so this summary was written from the projections alone."
+              />
+            )}
+
+            <p className="text-sm text-gray-700">{analysis.narrative}</p>
+
+            {analysis.keyFactors.length > 0 && (
+              <ul className="list-disc list-inside text-sm text-gray-700 space-y-1">
+                {analysis.keyFactors.map((factor) => (
+                  <li key={factor}>{factor}</li>
+                ))}
+              </ul>
+            )}
+
+            <div className="space-y-2">
+              <h4 className="font-semibold text-sm">Position Battles</h4>
+              {analysis.positionBattles.map((battle) => (
+                <div
+                  key={battle.slot}
+                  className={`grid grid-cols-[1fr_auto_1fr] items-center gap-3 border rounded-lg p-2 text-sm ${battle.decisive ? 'border-amber-300 bg-amber-50' : ''}`}
+                >
+                  <div>
+                    {battle.players[0]?.map((player) => (
+                      <div key={player.name}>{player.name} <span className="text-gray-500">{player.projectedPoints.toFixed(1)}</span></div>
+                    ))}
+                  </div>
+                  <div className="text-center">
+                    <Badge variant={battle.decisive ? 'default' : 'outline'}>{battle.slot}</Badge>
+                    <div className="text-xs text-gray-500 mt-1">
+                      {battle.edge ? `${battle.edge} +${battle.margin.toFixed(1)}` : 'Even'}
+                    </div>
+                  </div>
+                  <div className="text-right">
+                    {battle.players[1]?.map((player) => (
+                      <div key={player.name}><span className="text-gray-500">{player.projectedPoints.toFixed(1)}</span> {player.name}</div>
+                    ))}
+                  </div>
+                </div>
+              ))}
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,255 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import {
+  CartesianGrid,
+  Legend,
+  Line,
+  LineChart,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from 'recharts';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { AlertTriangle, ArrowDown, ArrowUp, Loader2, Minus, Sparkles, Trophy } from 'lucide-react';
+import { apiClient } from '@/lib/api-client';
+
+interface TeamPowerRanking {
+  userId: string;
+  rosterId: number;
+  teamName: string;
+  rank: number;
+  previousRank: number | null;
+  score: number;
+  trend: 'up' | 'down' | 'stable';
+  analysis: string;
+  metrics: {
+    record: { wins: number; losses: number; ties: number };
+    allPlay: { wins: number; losses: number; ties: number; winPct: number };
+    pointsForPerGame: number;
+    scheduleLuck: number;
+  };
+}
+
+interface PowerRankingResult {
+  week: number;
+  rankings: TeamPowerRanking[];
+  methodology: string;
+}
+
+interface PowerRankingHistory {
+  teams: { userId: string; teamName: string }[];
+  weeks: { week: number; ranks: Record<string, number> }[];
+}
+
+interface PowerRankingsProps {
+  leagueId: string;
+}
+
+const LINE_COLORS = [
+  '#2563eb', '#dc2626', '#16a34a', '#d97706', '#7c3aed', '#0891b2',
+  '#db2777', '#65a30d', '#ea580c', '#4f46e5', '#0d9488', '#9333ea',
+];
+
+export function PowerRankings({ leagueId }: PowerRankingsProps) {
+  const [rankings, setRankings] = useState<PowerRankingResult | null>(null);
+  const [history, setHistory] = useState<PowerRankingHistory | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isGeneratingBlurbs, setIsGeneratingBlurbs] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadRankings = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const [rankingsResponse, historyResponse] = await Promise.all([
+        apiClient.get(`/api/analytics/power-rankings/${leagueId}`),
+        apiClient.get(`/api/analytics/power-rankings/${leagueId}/history`),
+      ]);
+
+      const rankingsData = await rankingsResponse.json();
+      if (!rankingsResponse.ok || !rankingsData.success) {
+        throw new Error(rankingsData.error?.message || 'Failed to load power rankings');
+      }
+      setRankings(rankingsData.data);
+
+      const historyData = await historyResponse.json();
+      if (historyResponse.ok && historyData.success) {
+        setHistory(historyData.data);
+      }
+    } catch (err) {
+      setRankings(null);
+      setHistory(null);
+      setError(err instanceof Error ? err.message : 'Failed to load power rankings');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [leagueId]);
+
+  useEffect(() => {
+    if (leagueId) {
+      loadRankings();
+    }
+  }, [leagueId, loadRankings]);
+
+  const handleGenerateBlurbs = async () => {
+    if (!rankings) return;
+    setIsGeneratingBlurbs(true);
+    setError(null);
+
+    try {
+      const response = await apiClient.post(`/api/analytics/power-rankings/${leagueId}`, {
+        week: rankings.week,
+        includeBlurbs: true,
+      });
+      const data = await response.json();
+      if (!response.ok || !data.success) {
+        throw new Error(data.error?.message || 'Failed to generate blurbs');
+      }
+      setRankings(data.data);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to generate blurbs');
+    } finally {
+      setIsGeneratingBlurbs(false);
+    }
+  };
+
+  // One row per week with a key per team, the shape recharts expects
+  const chartData = (history?.weeks || []).map(({ week, ranks }) => ({ week, ...ranks }));
+
+  const renderTrend = (entry: TeamPowerRanking) => {
+    const movement = entry.previousRank !== null ? Math.abs(entry.previousRank - entry.rank) : 0;
+    if (entry.trend === 'up') {
+      return (
+        <span className="flex items-center text-green-600 text-sm">
+          <ArrowUp className="h-4 w-4" />{movement}
+        </span>
+      );
+    }
+    if (entry.trend === 'down') {
+      return (
+        <span className="flex items-center text-red-600 text-sm">
+          <ArrowDown className="h-4 w-4" />{movement}
+        </span>
+      );
+    }
+    return <Minus className="h-4 w-4 text-gray-400" />;
+  };
+
+  if (isLoading && !rankings) {
+    return (
+      <Card>
+        <CardContent className="pt-6">
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="h-5 w-5 animate-spin mr-2" />
+            <span className="text-sm">Loading power rankings...</span>
+          </div>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {error && (
+        <div className="p-3 bg-red-50 border border-red-200 rounded-md">
+          <div className="flex items-center">
+            <AlertTriangle className="h-4 w-4 text-red-600 mr-2" />
+            <span className="text-sm text-red-800">{error}</span>
+          </div>
+        </div>
+      )}
+
+      {rankings && (
+        <Card>
+          <CardHeader>
+            <div className="flex items-center justify-between">
+              <div>
+                <CardTitle className="flex items-center gap-2">
+                  <Trophy className="h-5 w-5" />
+                  Week {rankings.week} Power Rankings
+                </CardTitle>
+                <CardDescription>{rankings.methodology}</CardDescription>
+              </div>
+              <Button variant="outline" size="sm" onClick={handleGenerateBlurbs} disabled={isGeneratingBlurbs}>
+                {isGeneratingBlurbs ? (
+                  <Loader2 className="h-4 w-4 animate-spin mr-2" />
+                ) : (
+                  <Sparkles className="h-4 w-4 mr-2" />
+                )}
+                AI Blurbs
+              </Button>
+            </div>
+          </CardHeader>
+          <CardContent>
+            <div className="space-y-3">
+              {rankings.rankings.map((entry) => (
+                <div key={entry.userId} className="flex items-start justify-between border rounded-lg p-3">
+                  <div className="flex items-start space-x-3">
+                    <Badge variant={entry.rank <= 3 ? 'default' : 'outline'}>#{entry.rank}</Badge>
+                    <div>
+                      <div className="font-medium">{entry.teamName}</div>
+                      <div className="text-sm text-gray-600">
+                        {entry.metrics.record.wins}-{entry.metrics.record.losses}
+                        {entry.metrics.record.ties > 0 && `-${entry.metrics.record.ties}`}
+                        {' • '}{entry.metrics.allPlay.wins}-{entry.metrics.allPlay.losses} all-play
+                        {' • '}{entry.metrics.pointsForPerGame.toFixed(1)} ppg
+                      </div>
+                      <div className="text-sm text-gray-700 mt-1">{entry.analysis}</div>
+                    </div>
+                  </div>
+                  <div className="flex items-center gap-3 ml-4">
+                    <span className="text-sm font-medium">{entry.score.toFixed(1)}</span>
+                    {renderTrend(entry)}
+                  </div>
+                </div>
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {history && chartData.length > 1 && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Rank Movement</CardTitle>
+            <CardDescription>Power ranking after each completed week</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="h-80">
+              <ResponsiveContainer width="100%" height="100%">
+                <LineChart data={chartData}>
+                  <CartesianGrid strokeDasharray="3 3" />
+                  <XAxis dataKey="week" tickFormatter={(week) => `W${week}`} />
+                  <YAxis
+                    reversed
+                    allowDecimals={false}
+                    domain={[1, Math.max(history.teams.length, 1)]}
+                    tickCount={history.teams.length}
+                  />
+                  <Tooltip labelFormatter={(week) => `Week ${week}`} />
+                  <Legend />
+                  {history.teams.map((team, index) => (
+                    <Line
+                      key={team.userId}
+                      type="monotone"
+                      dataKey={team.userId}
+                      name={team.teamName}
+                      stroke={LINE_COLORS[index % LINE_COLORS.length]}
+                      strokeWidth={2}
+                      dot={{ r: 3 }}
+                    />
+                  ))}
+                </LineChart>
+              </ResponsiveContainer>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
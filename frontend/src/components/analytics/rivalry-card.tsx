@@ -0,0 +1,274 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { AlertTriangle, Flame, Loader2, RefreshCw, Swords, X } from 'lucide-react';
+import { apiClient } from '@/lib/api-client';
+import { useRealtime } from '@/hooks/useRealtime';
+
+interface RivalryUser {
+  id: string;
+  displayName: string;
+  sleeperUserId: string | null;
+}
+
+interface HeadToHeadRecord {
+  user1Wins: number;
+  user2Wins: number;
+  ties: number;
+  games: { season: number; week: number; user1Points: number; user2Points: number }[];
+  biggestBlowout: {
+    season: number;
+    week: number;
+    winnerId: string;
+    margin: number;
+    winnerPoints: number;
+    loserPoints: number;
+  } | null;
+  currentStreak: { userId: string | null; count: number };
+  origin: 'detected' | 'declared';
+}
+
+interface Rivalry {
+  id: string;
+  rivalryName: string | null;
+  isActive: boolean;
+  user1: RivalryUser;
+  user2: RivalryUser;
+  record: HeadToHeadRecord;
+}
+
+interface RivalryCardProps {
+  leagueId: string;
+  users: any[]; // Sleeper league users, for team names and the declare form
+}
+
+export function RivalryCard({ leagueId, users }: RivalryCardProps) {
+  const [rivalries, setRivalries] = useState<Rivalry[]>([]);
+  const [currentUserId, setCurrentUserId] = useState<string | null>(null);
+  const [opponent, setOpponent] = useState('');
+  const [rivalryName, setRivalryName] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadRivalries = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const response = await apiClient.get(`/api/leagues/${leagueId}/rivalries`);
+      const data = await response.json();
+      if (!response.ok || !data.success) {
+        throw new Error(data.error?.message || 'Failed to load rivalries');
+      }
+      setRivalries(data.data);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load rivalries');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [leagueId]);
+
+  useEffect(() => {
+    if (leagueId) {
+      loadRivalries();
+      apiClient.getDatabaseUserId().then(setCurrentUserId).catch(() => setCurrentUserId(null));
+    }
+  }, [leagueId, loadRivalries]);
+
+  useRealtime({ rivalry_update: () => loadRivalries() }, { leagueId, enabled: !!leagueId });
+
+  // Sleeper team names read better than account names
+  const nameFor = (user: RivalryUser) => {
+    const sleeperUser = users.find((candidate) => candidate.user_id === user.sleeperUserId);
+    return sleeperUser?.metadata?.team_name || sleeperUser?.display_name || user.displayName;
+  };
+
+  const runAction = async (action: () => Promise<Response>, fallbackMessage: string) => {
+    setIsSaving(true);
+    setError(null);
+
+    try {
+      const response = await action();
+      const data = await response.json();
+      if (!response.ok || !data.success) {
+        throw new Error(data.error?.message || fallbackMessage);
+      }
+      await loadRivalries();
+      return true;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : fallbackMessage);
+      return false;
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDeclare = async () => {
+    if (!opponent) return;
+    const declared = await runAction(
+      () => apiClient.post(`/api/leagues/${leagueId}/rivalries`, {
+        opponentSleeperUserId: opponent,
+        rivalryName: rivalryName.trim() || undefined,
+      }),
+      'Failed to declare rivalry'
+    );
+    if (declared) {
+      setOpponent('');
+      setRivalryName('');
+    }
+  };
+
+  const handleRefresh = () => runAction(
+    () => apiClient.post(`/api/leagues/${leagueId}/rivalries/refresh`),
+    'Failed to refresh rivalries'
+  );
+
+  const handleRemove = (rivalry: Rivalry) => runAction(
+    () => apiClient.delete(`/api/leagues/${leagueId}/rivalries/${rivalry.id}`),
+    'Failed to remove rivalry'
+  );
+
+  const renderRecord = (rivalry: Rivalry) => {
+    const { record } = rivalry;
+    const games = record.games.length;
+    const streakHolder = [rivalry.user1, rivalry.user2].find((user) => user.id === record.currentStreak.userId);
+
+    return (
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-3 text-sm mt-3">
+        <div>
+          <div className="text-gray-600">All-time</div>
+          <div className="font-medium">
+            {record.user1Wins}-{record.user2Wins}{record.ties > 0 && `-${record.ties}`}
+            <span className="text-gray-500 font-normal"> in {games} game{games === 1 ? '' : 's'}</span>
+          </div>
+        </div>
+        <div>
+          <div className="text-gray-600">Biggest blowout</div>
+          <div className="font-medium">
+            {record.biggestBlowout ? (
+              <>
+                {nameFor(record.biggestBlowout.winnerId === rivalry.user1.id ? rivalry.user1 : rivalry.user2)} by{' '}
+                {record.biggestBlowout.margin.toFixed(1)}
+                <span className="text-gray-500 font-normal">
+                  {' '}({record.biggestBlowout.season} Wk {record.biggestBlowout.week})
+                </span>
+              </>
+            ) : '—'}
+          </div>
+        </div>
+        <div>
+          <div className="text-gray-600">Current streak</div>
+          <div className="font-medium flex items-center gap-1">
+            {streakHolder ? (
+              <>
+                {record.currentStreak.count > 2 && <Flame className="h-4 w-4 text-orange-500" />}
+                {nameFor(streakHolder)} W{record.currentStreak.count}
+              </>
+            ) : games > 0 ? 'Tied last game' : '—'}
+          </div>
+        </div>
+      </div>
+    );
+  };
+
+  const isParticipant = (rivalry: Rivalry) =>
+    currentUserId === rivalry.user1.id || currentUserId === rivalry.user2.id;
+
+  const activeRivalries = rivalries.filter((rivalry) => rivalry.isActive);
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <Swords className="h-5 w-5" />
+              Rivalries
+            </CardTitle>
+            <CardDescription>Head-to-head history across every season of this league</CardDescription>
+          </div>
+          <Button variant="outline" size="sm" onClick={handleRefresh} disabled={isSaving || isLoading}>
+            <RefreshCw className={`h-4 w-4 mr-2 ${isSaving ? 'animate-spin' : ''}`} />
+            Refresh
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {error && (
+          <div className="p-3 mb-4 bg-red-50 border border-red-200 rounded-md">
+            <div className="flex items-center">
+              <AlertTriangle className="h-4 w-4 text-red-600 mr-2" />
+              <span className="text-sm text-red-800">{error}</span>
+            </div>
+          </div>
+        )}
+
+        {isLoading && rivalries.length === 0 ? (
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="h-5 w-5 animate-spin mr-2" />
+            <span className="text-sm">Loading rivalries...</span>
+          </div>
+        ) : activeRivalries.length === 0 ? (
+          <p className="text-sm text-gray-600">
+            No rivalries yet. They are detected from past seasons, or you can declare one below.
+          </p>
+        ) : (
+          <div className="space-y-3">
+            {activeRivalries.map((rivalry) => (
+              <div key={rivalry.id} className="border rounded-lg p-3">
+                <div className="flex items-start justify-between">
+                  <div>
+                    <div className="font-medium">
+                      {nameFor(rivalry.user1)} vs {nameFor(rivalry.user2)}
+                    </div>
+                    {rivalry.rivalryName && <div className="text-sm text-gray-600">{rivalry.rivalryName}</div>}
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <Badge variant="outline">{rivalry.record.origin === 'declared' ? 'Declared' : 'Detected'}</Badge>
+                    {isParticipant(rivalry) && (
+                      <Button variant="ghost" size="sm" onClick={() => handleRemove(rivalry)} disabled={isSaving}>
+                        <X className="h-4 w-4" />
+                      </Button>
+                    )}
+                  </div>
+                </div>
+                {renderRecord(rivalry)}
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div className="flex flex-col md:flex-row gap-2 mt-4">
+          <Select value={opponent} onValueChange={setOpponent}>
+            <SelectTrigger className="md:w-56">
+              <SelectValue placeholder="Pick a rival" />
+            </SelectTrigger>
+            <SelectContent>
+              {users.map((user) => (
+                <SelectItem key={user.user_id} value={user.user_id}>
+                  {user.metadata?.team_name || user.display_name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <input
+            type="text"
+            value={rivalryName}
+            onChange={(event) => setRivalryName(event.target.value)}
+            placeholder="Rivalry name (optional)"
+            maxLength={100}
+            className="flex-1 px-3 py-2 border border-gray-300 rounded-md text-sm"
+          />
+          <Button onClick={handleDeclare} disabled={!opponent || isSaving}>
+            Declare Rivalry
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,263 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { AlertTriangle, Compass, Loader2, RefreshCw, TrendingDown, TrendingUp } from 'lucide-react';
+import { apiClient } from '@/lib/api-client';
+import { FallbackNotice } from '@/components/ai/fallback-notice';
+
+interface SeasonOutlookPosition {
+  position: string;
+  starterSlots: number;
+  starterPoints: number;
+  leagueRank: number;
+  players: { playerId: string; name: string; points: number; starter: boolean; byeWeek: number | null }[];
+}
+
+interface SeasonOutlookData {
+  week: number;
+  teamName: string;
+  teamCount: number;
+  playoffs: {
+    record: { wins: number; losses: number; ties: number };
+    projectedWins: number;
+    playoffOdds: number;
+    byeOdds: number;
+    champOdds: number;
+    clinched: boolean;
+    eliminated: boolean;
+  };
+  positions: SeasonOutlookPosition[];
+  schedule: {
+    remainingGames: number;
+    averageOpponentScore: number;
+    leagueAverageScore: number;
+    difficultyRank: number;
+    games: { week: number; opponent: string; opponentAverage: number }[];
+  };
+  byeWeeks: { week: number; starters: { name: string; position: string }[] }[];
+  summary: string;
+  strengths: string[];
+  weaknesses: string[];
+  actions: { type: 'trade' | 'waiver'; position: string; detail: string }[];
+  provider: string | null;
+  isFallback: boolean;
+  fallbackReason?: string;
+  createdAt: string;
+}
+
+interface SeasonOutlookProps {
+  leagueId: string;
+}
+
+const percent = (value: number) => `${Math.round(value * 100)}%`;
+
+export function SeasonOutlook({ leagueId }: SeasonOutlookProps) {
+  const [outlook, setOutlook] = useState<SeasonOutlookData | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadOutlook = useCallback(async (refresh = false) => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const response = await apiClient.get(`/api/leagues/${leagueId}/season-outlook${refresh ? '?refresh=true' : ''}`);
+      const data = await response.json();
+      if (!response.ok || !data.success) {
+        throw new Error(data.error?.message || 'Failed to load season outlook');
+      }
+      setOutlook(data.data);
+    } catch (err) {
+      setOutlook(null);
+      setError(err instanceof Error ? err.message : 'Failed to load season outlook');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [leagueId]);
+
+  useEffect(() => {
+    if (leagueId) {
+      loadOutlook();
+    }
+  }, [leagueId, loadOutlook]);
+
+  if (isLoading && !outlook) {
+    return (
+      <Card>
+        <CardContent className="pt-6">
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="h-5 w-5 animate-spin mr-2" />
+            <span className="text-sm">Building your season outlook...</span>
+          </div>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const record = outlook
+    ? `${outlook.playoffs.record.wins}-${outlook.playoffs.record.losses}${outlook.playoffs.record.ties ? `-${outlook.playoffs.record.ties}` : ''}`
+    : '';
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <Compass className="h-5 w-5" />
+              Season Outlook
+            </CardTitle>
+            <CardDescription>
+              {outlook
+                ? `${outlook.teamName} from week ${outlook.week}: depth, schedule, byes and playoff odds`
+                : 'Rest-of-season depth, schedule, byes and playoff odds'}
+            </CardDescription>
+          </div>
+          <Button variant="outline" size="sm" onClick={() => loadOutlook(true)} disabled={isLoading}>
+            {isLoading ? (
+              <Loader2 className="h-4 w-4 animate-spin mr-2" />
+            ) : (
+              <RefreshCw className="h-4 w-4 mr-2" />
+            )}
+            Refresh
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {error && (
+          <div className="p-3 bg-red-50 border border-red-200 rounded-md">
+            <div className="flex items-center">
+              <AlertTriangle className="h-4 w-4 text-red-600 mr-2" />
+              <span className="text-sm text-red-800">{error}</span>
+            </div>
+          </div>
+        )}
+
+        {outlook && (
+          <>
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+              <div className="border rounded-lg p-3">
+                <div className="text-sm text-gray-600">Playoffs</div>
+                <div className="text-2xl font-bold">
+                  {outlook.playoffs.clinched ? 'Clinched' : outlook.playoffs.eliminated ? 'Out' : percent(outlook.playoffs.playoffOdds)}
+                </div>
+              </div>
+              <div className="border rounded-lg p-3">
+                <div className="text-sm text-gray-600">First-round bye</div>
+                <div className="text-2xl font-bold">{percent(outlook.playoffs.byeOdds)}</div>
+              </div>
+              <div className="border rounded-lg p-3">
+                <div className="text-sm text-gray-600">Title</div>
+                <div className="text-2xl font-bold">{percent(outlook.playoffs.champOdds)}</div>
+              </div>
+              <div className="border rounded-lg p-3">
+                <div className="text-sm text-gray-600">Record</div>
+                <div className="text-2xl font-bold">{record}</div>
+                <div className="text-xs text-gray-500">{outlook.playoffs.projectedWins.toFixed(1)} projected wins</div>
+              </div>
+            </div>
+
+            {outlook.isFallback && (
+              <FallbackNotice
+                reason={outlook.fallbackReason}
+                message="The AI outlook could not be used, so this report was built from the numbers alone."
+              />
+            )}
+
+            <p className="text-sm text-gray-700">{outlook.summary}</p>
+
+            <div className="grid md:grid-cols-2 gap-4">
+              <div>
+                <h4 className="font-semibold text-sm mb-2 flex items-center gap-2">
+                  <TrendingUp className="h-4 w-4 text-green-600" />
+                  Strengths
+                </h4>
+                {outlook.strengths.length > 0 ? (
+                  <ul className="list-disc list-inside text-sm text-gray-700 space-y-1">
+                    {outlook.strengths.map((item) => <li key={item}>{item}</li>)}
+                  </ul>
+                ) : <p className="text-sm text-gray-600">Nothing stands out yet.</p>}
+              </div>
+              <div>
+                <h4 className="font-semibold text-sm mb-2 flex items-center gap-2">
+                  <TrendingDown className="h-4 w-4 text-red-600" />
+                  Weaknesses
+                </h4>
+                {outlook.weaknesses.length > 0 ? (
+                  <ul className="list-disc list-inside text-sm text-gray-700 space-y-1">
+                    {outlook.weaknesses.map((item) => <li key={item}>{item}</li>)}
+                  </ul>
+                ) : <p className="text-sm text-gray-600">No glaring holes.</p>}
+              </div>
+            </div>
+
+            {outlook.actions.length > 0 && (
+              <div className="space-y-2">
+                <h4 className="font-semibold text-sm">Top Actions</h4>
+                {outlook.actions.map((action, index) => (
+                  <div key={`${action.type}-${action.position}`} className="flex items-start gap-3 border rounded-lg p-2 text-sm">
+                    <span className="font-bold text-gray-500">{index + 1}</span>
+                    <Badge variant={action.type === 'trade' ? 'default' : 'secondary'}>
+                      {action.type === 'trade' ? 'Trade' : 'Waivers'} · {action.position}
+                    </Badge>
+                    <span className="text-gray-700">{action.detail}</span>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            <div className="grid md:grid-cols-2 gap-4">
+              <div>
+                <h4 className="font-semibold text-sm mb-2">Positional Depth</h4>
+                <div className="space-y-1">
+                  {outlook.positions.map((position) => (
+                    <div key={position.position} className="flex items-center justify-between text-sm">
+                      <span>
+                        <span className="font-medium">{position.position}</span>
+                        <span className="text-gray-500"> · {position.players.filter((player) => !player.starter).length} bench</span>
+                      </span>
+                      <span className="text-gray-600">
+                        {position.starterPoints.toFixed(1)} pts · #{position.leagueRank} of {outlook.teamCount}
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              </div>
+              <div>
+                <h4 className="font-semibold text-sm mb-2">Remaining Schedule</h4>
+                {outlook.schedule.remainingGames > 0 ? (
+                  <>
+                    <p className="text-sm text-gray-700">
+                      #{outlook.schedule.difficultyRank} hardest of {outlook.teamCount}: opponents average{' '}
+                      {outlook.schedule.averageOpponentScore.toFixed(1)} vs {outlook.schedule.leagueAverageScore.toFixed(1)} league-wide
+                    </p>
+                    <div className="text-xs text-gray-500 mt-1">
+                      {outlook.schedule.games.map((game) => `Wk ${game.week} ${game.opponent}`).join(' · ')}
+                    </div>
+                  </>
+                ) : <p className="text-sm text-gray-600">No regular season games left.</p>}
+              </div>
+            </div>
+
+            {outlook.byeWeeks.length > 0 && (
+              <div>
+                <h4 className="font-semibold text-sm mb-2">Starters on Bye</h4>
+                <div className="space-y-1">
+                  {outlook.byeWeeks.map((bye) => (
+                    <div key={bye.week} className={`text-sm ${bye.starters.length > 1 ? 'text-amber-700' : 'text-gray-700'}`}>
+                      <span className="font-medium">Week {bye.week}:</span>{' '}
+                      {bye.starters.map((starter) => `${starter.name} (${starter.position})`).join(', ')}
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,188 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { AlertTriangle, Award, Loader2, Newspaper, RefreshCw } from 'lucide-react';
+import { apiClient } from '@/lib/api-client';
+
+interface WeeklyRecapNewsletter {
+  headline: string;
+  intro: string;
+  sections: { title: string; body: string }[];
+  awards: { title: string; teamName: string; reason: string }[];
+  provider: string | null;
+  model: string | null;
+}
+
+interface WeeklyRecapResult {
+  id: string;
+  leagueId: string;
+  week: number;
+  newsletter: WeeklyRecapNewsletter;
+  postedToChat: boolean;
+  createdAt: string;
+}
+
+interface WeeklyRecapProps {
+  leagueId: string;
+}
+
+export function WeeklyRecap({ leagueId }: WeeklyRecapProps) {
+  const [recap, setRecap] = useState<WeeklyRecapResult | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isGenerating, setIsGenerating] = useState(false);
+  const [postToChat, setPostToChat] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadRecap = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const response = await apiClient.get(`/api/leagues/${leagueId}/recap`);
+      const data = await response.json();
+      if (!response.ok || !data.success) {
+        throw new Error(data.error?.message || 'Failed to load weekly recap');
+      }
+      setRecap(data.data);
+    } catch (err) {
+      setRecap(null);
+      setError(err instanceof Error ? err.message : 'Failed to load weekly recap');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [leagueId]);
+
+  useEffect(() => {
+    if (leagueId) {
+      loadRecap();
+    }
+  }, [leagueId, loadRecap]);
+
+  const handleGenerate = async () => {
+    setIsGenerating(true);
+    setError(null);
+
+    try {
+      const response = await apiClient.post(`/api/leagues/${leagueId}/recap`, {
+        ...(recap && { week: recap.week, refresh: true }),
+        postToChat,
+      });
+      const data = await response.json();
+      if (!response.ok || !data.success) {
+        throw new Error(data.error?.message || 'Failed to generate weekly recap');
+      }
+      setRecap(data.data);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to generate weekly recap');
+    } finally {
+      setIsGenerating(false);
+    }
+  };
+
+  if (isLoading && !recap) {
+    return (
+      <Card>
+        <CardContent className="pt-6">
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="h-5 w-5 animate-spin mr-2" />
+            <span className="text-sm">Loading weekly recap...</span>
+          </div>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <Newspaper className="h-5 w-5" />
+              {recap ? `Week ${recap.week} Recap` : 'Weekly Recap'}
+            </CardTitle>
+            <CardDescription>
+              {recap
+                ? `Written ${new Date(recap.createdAt).toLocaleDateString()}${recap.newsletter.provider ? '' : ' from the box scores'}`
+                : 'The league newsletter for the last completed week'}
+            </CardDescription>
+          </div>
+          <div className="flex items-center gap-3">
+            <label className="flex items-center gap-2 text-sm text-gray-600">
+              <input
+                type="checkbox"
+                checked={postToChat}
+                disabled={isGenerating}
+                onChange={(e) => setPostToChat(e.target.checked)}
+              />
+              Post to chat
+            </label>
+            <Button variant="outline" size="sm" onClick={handleGenerate} disabled={isGenerating}>
+              {isGenerating ? (
+                <Loader2 className="h-4 w-4 animate-spin mr-2" />
+              ) : (
+                <RefreshCw className="h-4 w-4 mr-2" />
+              )}
+              {recap ? 'Regenerate' : 'Generate'}
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {error && (
+          <div className="p-3 bg-red-50 border border-red-200 rounded-md">
+            <div className="flex items-center">
+              <AlertTriangle className="h-4 w-4 text-red-600 mr-2" />
+              <span className="text-sm text-red-800">{error}</span>
+            </div>
+          </div>
+        )}
+
+        {!recap ? (
+          !error && <p className="text-sm text-gray-600">No recap has been written yet.</p>
+        ) : (
+          <>
+            <div>
+              <h3 className="text-xl font-bold">{recap.newsletter.headline}</h3>
+              {recap.newsletter.intro && (
+                <p className="text-gray-700 mt-2">{recap.newsletter.intro}</p>
+              )}
+            </div>
+
+            {recap.newsletter.sections.map((section) => (
+              <div key={section.title}>
+                <h4 className="font-semibold mb-1">{section.title}</h4>
+                {section.body.split(/\n\s*\n/).map((paragraph, index) => (
+                  <p key={index} className="text-sm text-gray-700 whitespace-pre-line mb-2">{paragraph}</p>
+                ))}
+              </div>
+            ))}
+
+            {recap.newsletter.awards.length > 0 && (
+              <div>
+                <h4 className="font-semibold mb-2 flex items-center gap-2">
+                  <Award className="h-4 w-4" />
+                  Awards
+                </h4>
+                <div className="space-y-2">
+                  {recap.newsletter.awards.map((award) => (
+                    <div key={award.title} className="flex items-start gap-3 border rounded-lg p-3">
+                      <Badge variant="outline">{award.title}</Badge>
+                      <div className="text-sm">
+                        <span className="font-medium">{award.teamName}</span>
+                        {award.reason && <span className="text-gray-600"> — {award.reason}</span>}
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
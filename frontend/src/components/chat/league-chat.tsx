@@ -0,0 +1,258 @@
+'use client';
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { AlertTriangle, ArrowLeftRight, ClipboardList, Loader2, MessageSquare, Newspaper, Send } from 'lucide-react';
+import { apiClient } from '@/lib/api-client';
+import { useRealtime } from '@/hooks/useRealtime';
+
+const MAX_MESSAGE_LENGTH = 500;
+
+type UserMessageType = 'chat' | 'trade_proposal' | 'trash_talk';
+
+interface ChatMessage {
+  id: string;
+  userId: string | null;
+  author: { id: string; displayName: string; avatarUrl: string | null } | null;
+  message: string;
+  messageType: string;
+  createdAt: string;
+}
+
+interface ChatPagination {
+  page: number;
+  hasNext: boolean;
+}
+
+interface LeagueChatProps {
+  leagueId: string;
+}
+
+const MESSAGE_TYPE_LABELS: Record<UserMessageType, string> = {
+  chat: 'Chat',
+  trade_proposal: 'Trade Talk',
+  trash_talk: 'Trash Talk',
+};
+
+const formatTime = (timestamp: string) =>
+  new Date(timestamp).toLocaleString(undefined, { weekday: 'short', hour: 'numeric', minute: '2-digit' });
+
+export function LeagueChat({ leagueId }: LeagueChatProps) {
+  const [messages, setMessages] = useState<ChatMessage[]>([]);
+  const [pagination, setPagination] = useState<ChatPagination | null>(null);
+  const [currentUserId, setCurrentUserId] = useState<string | null>(null);
+  const [draft, setDraft] = useState('');
+  const [messageType, setMessageType] = useState<UserMessageType>('chat');
+  const [isLoading, setIsLoading] = useState(false);
+  const [isLoadingOlder, setIsLoadingOlder] = useState(false);
+  const [isSending, setIsSending] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const bottomRef = useRef<HTMLDivElement>(null);
+
+  const fetchPage = useCallback(async (page: number) => {
+    const response = await apiClient.get(`/api/leagues/${leagueId}/chat?page=${page}`);
+    const data = await response.json();
+    if (!response.ok || !data.success) {
+      throw new Error(data.error?.message || 'Failed to load chat');
+    }
+    return data.data as { items: ChatMessage[]; pagination: ChatPagination };
+  }, [leagueId]);
+
+  const loadLatest = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const { items, pagination: latest } = await fetchPage(1);
+      setMessages(items);
+      setPagination(latest);
+      bottomRef.current?.scrollIntoView({ block: 'nearest' });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load chat');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [fetchPage]);
+
+  useEffect(() => {
+    if (leagueId) {
+      loadLatest();
+      apiClient.getDatabaseUserId().then(setCurrentUserId).catch(() => setCurrentUserId(null));
+    }
+  }, [leagueId, loadLatest]);
+
+  const appendMessage = (message: ChatMessage) => {
+    // Our own messages arrive both from the POST response and the socket
+    setMessages((current) => current.some((existing) => existing.id === message.id) ? current : [...current, message]);
+    bottomRef.current?.scrollIntoView({ block: 'nearest' });
+  };
+
+  const { connected } = useRealtime({
+    chat_message: ({ payload }) => appendMessage(payload as ChatMessage),
+    // Catch up on anything missed while disconnected
+    connection_status: () => loadLatest(),
+  }, { leagueId, enabled: !!leagueId });
+
+  const handleLoadOlder = async () => {
+    if (!pagination?.hasNext) return;
+    setIsLoadingOlder(true);
+
+    try {
+      const { items, pagination: older } = await fetchPage(pagination.page + 1);
+      // Messages posted since the first load shift the pages, so drop repeats
+      setMessages((current) => [
+        ...items.filter((item) => !current.some((message) => message.id === item.id)),
+        ...current,
+      ]);
+      setPagination(older);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load older messages');
+    } finally {
+      setIsLoadingOlder(false);
+    }
+  };
+
+  const handleSend = async () => {
+    const message = draft.trim();
+    if (!message || message.length > MAX_MESSAGE_LENGTH) return;
+    setIsSending(true);
+    setError(null);
+
+    try {
+      const response = await apiClient.post(`/api/leagues/${leagueId}/chat`, { message, messageType });
+      const data = await response.json();
+      if (!response.ok || !data.success) {
+        throw new Error(data.error?.message || 'Failed to send message');
+      }
+      appendMessage(data.data);
+      setDraft('');
+      setMessageType('chat');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to send message');
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  const renderMessage = (message: ChatMessage) => {
+    if (!message.author) {
+      const Icon = message.messageType === 'trade'
+        ? ArrowLeftRight
+        : message.messageType === 'weekly_recap' ? Newspaper : ClipboardList;
+      return (
+        <div key={message.id} className="flex items-start gap-2 p-2 bg-blue-50 border border-blue-100 rounded-md text-sm">
+          <Icon className="h-4 w-4 text-blue-600 mt-0.5 shrink-0" />
+          <div className="flex-1">
+            <span className="text-gray-800">{message.message}</span>
+            <span className="text-xs text-gray-500 ml-2">{formatTime(message.createdAt)}</span>
+          </div>
+        </div>
+      );
+    }
+
+    const isOwn = message.userId === currentUserId;
+    const label = MESSAGE_TYPE_LABELS[message.messageType as UserMessageType];
+
+    return (
+      <div key={message.id} className={`flex ${isOwn ? 'justify-end' : 'justify-start'}`}>
+        <div className={`max-w-[80%] rounded-lg p-2 text-sm ${isOwn ? 'bg-blue-600 text-white' : 'bg-gray-100 text-gray-900'}`}>
+          <div className={`flex items-center gap-2 text-xs mb-1 ${isOwn ? 'text-blue-100' : 'text-gray-500'}`}>
+            <span className="font-medium">{isOwn ? 'You' : message.author.displayName}</span>
+            <span>{formatTime(message.createdAt)}</span>
+            {label && message.messageType !== 'chat' && <Badge variant="secondary">{label}</Badge>}
+          </div>
+          <div className="whitespace-pre-wrap break-words">{message.message}</div>
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <MessageSquare className="h-5 w-5" />
+              League Chat
+            </CardTitle>
+            <CardDescription>Trades and waiver claims are posted here automatically</CardDescription>
+          </div>
+          <Badge variant={connected ? 'secondary' : 'outline'}>
+            <span className={`h-2 w-2 rounded-full mr-1.5 ${connected ? 'bg-green-500' : 'bg-gray-400'}`} />
+            {connected ? 'Live' : 'Offline'}
+          </Badge>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {error && (
+          <div className="p-3 mb-4 bg-red-50 border border-red-200 rounded-md">
+            <div className="flex items-center">
+              <AlertTriangle className="h-4 w-4 text-red-600 mr-2" />
+              <span className="text-sm text-red-800">{error}</span>
+            </div>
+          </div>
+        )}
+
+        <div className="h-96 overflow-y-auto space-y-2 border rounded-md p-3">
+          {pagination?.hasNext && (
+            <div className="text-center">
+              <Button variant="ghost" size="sm" onClick={handleLoadOlder} disabled={isLoadingOlder}>
+                {isLoadingOlder && <Loader2 className="h-4 w-4 animate-spin mr-2" />}
+                Load older messages
+              </Button>
+            </div>
+          )}
+          {isLoading && messages.length === 0 ? (
+            <div className="flex items-center justify-center py-8">
+              <Loader2 className="h-5 w-5 animate-spin mr-2" />
+              <span className="text-sm">Loading chat...</span>
+            </div>
+          ) : messages.length === 0 ? (
+            <p className="text-sm text-gray-600 text-center py-8">No messages yet. Start the conversation.</p>
+          ) : (
+            messages.map(renderMessage)
+          )}
+          <div ref={bottomRef} />
+        </div>
+
+        <div className="mt-3 space-y-2">
+          <div className="flex gap-2">
+            {(Object.keys(MESSAGE_TYPE_LABELS) as UserMessageType[]).map((type) => (
+              <Button
+                key={type}
+                variant={messageType === type ? 'default' : 'outline'}
+                size="sm"
+                onClick={() => setMessageType(type)}
+              >
+                {MESSAGE_TYPE_LABELS[type]}
+              </Button>
+            ))}
+          </div>
+          <div className="flex gap-2">
+            <textarea
+              value={draft}
+              onChange={(event) => setDraft(event.target.value)}
+              onKeyDown={(event) => {
+                if (event.key === 'Enter' && !event.shiftKey) {
+                  event.preventDefault();
+                  handleSend();
+                }
+              }}
+              placeholder="Message your league"
+              maxLength={MAX_MESSAGE_LENGTH}
+              rows={2}
+              className="flex-1 px-3 py-2 border border-gray-300 rounded-md text-sm resize-none"
+            />
+            <Button onClick={handleSend} disabled={!draft.trim() || isSending}>
+              {isSending ? <Loader2 className="h-4 w-4 animate-spin" /> : <Send className="h-4 w-4" />}
+            </Button>
+          </div>
+          <div className="text-xs text-gray-500 text-right">{draft.length}/{MAX_MESSAGE_LENGTH}</div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -2,6 +2,7 @@
 
 import Link from 'next/link';
 import { useSession, signOut } from 'next-auth/react';
+import { NotificationBell } from '@/components/notification-bell';
 
 export function Navigation() {
   const { data: session, status } = useSession();
@@ -32,6 +33,8 @@ export function Navigation() {
           Settings
         </Link>
         
+        <NotificationBell />
+
         {/* User Menu */}
         <div className="flex items-center space-x-3 ml-4 pl-4 border-l border-gray-200">
           {session.user?.image && (
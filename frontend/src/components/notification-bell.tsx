@@ -0,0 +1,210 @@
+'use client';
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import Link from 'next/link';
+import { Bell, CheckCheck, Loader2, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { apiClient } from '@/lib/api-client';
+import { useRealtime } from '@/hooks/useRealtime';
+
+interface UserNotification {
+  id: string;
+  type: string;
+  title: string;
+  message: string;
+  actionUrl: string | null;
+  read: boolean;
+  priority: 'low' | 'medium' | 'high';
+  createdAt: string;
+}
+
+const PAGE_SIZE = 20;
+
+const PRIORITY_DOTS: Record<UserNotification['priority'], string> = {
+  low: 'bg-gray-400',
+  medium: 'bg-blue-500',
+  high: 'bg-red-500',
+};
+
+const formatAge = (timestamp: string) => {
+  const minutes = Math.floor((Date.now() - new Date(timestamp).getTime()) / 60000);
+  if (minutes < 1) return 'Just now';
+  if (minutes < 60) return `${minutes}m ago`;
+  if (minutes < 24 * 60) return `${Math.floor(minutes / 60)}h ago`;
+  return new Date(timestamp).toLocaleDateString();
+};
+
+export function NotificationBell() {
+  const [isOpen, setIsOpen] = useState(false);
+  const [notifications, setNotifications] = useState<UserNotification[]>([]);
+  const [unreadCount, setUnreadCount] = useState(0);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  const loadNotifications = useCallback(async () => {
+    setIsLoading(true);
+
+    try {
+      const response = await apiClient.get(`/api/notifications?limit=${PAGE_SIZE}`);
+      const data = await response.json();
+      if (!response.ok || !data.success) {
+        throw new Error(data.error?.message || 'Failed to load notifications');
+      }
+      setNotifications(data.data.items);
+      setUnreadCount(data.data.unreadCount);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load notifications');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadNotifications();
+  }, [loadNotifications]);
+
+  useRealtime({
+    notification: ({ payload }) => {
+      const notification = payload as UserNotification;
+      setNotifications((current) => [notification, ...current.filter((item) => item.id !== notification.id)].slice(0, PAGE_SIZE));
+      setUnreadCount((count) => count + 1);
+    },
+  });
+
+  // Close when clicking anywhere outside the dropdown
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const handleClick = (event: MouseEvent) => {
+      if (containerRef.current && !containerRef.current.contains(event.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+    document.addEventListener('mousedown', handleClick);
+    return () => document.removeEventListener('mousedown', handleClick);
+  }, [isOpen]);
+
+  const markRead = async (notification: UserNotification) => {
+    if (notification.read) return;
+
+    setNotifications((current) => current.map((item) => item.id === notification.id ? { ...item, read: true } : item));
+    setUnreadCount((count) => Math.max(count - 1, 0));
+    try {
+      await apiClient.patch(`/api/notifications/${notification.id}/read`, {});
+    } catch (err) {
+      console.error('Error marking notification read:', err);
+    }
+  };
+
+  const markAllRead = async () => {
+    setNotifications((current) => current.map((item) => ({ ...item, read: true })));
+    setUnreadCount(0);
+    try {
+      await apiClient.post('/api/notifications/read-all', {});
+    } catch (err) {
+      console.error('Error marking notifications read:', err);
+    }
+  };
+
+  const deleteNotification = async (notification: UserNotification) => {
+    setNotifications((current) => current.filter((item) => item.id !== notification.id));
+    if (!notification.read) {
+      setUnreadCount((count) => Math.max(count - 1, 0));
+    }
+    try {
+      await apiClient.delete(`/api/notifications/${notification.id}`);
+    } catch (err) {
+      console.error('Error deleting notification:', err);
+    }
+  };
+
+  const renderNotification = (notification: UserNotification) => {
+    const content = (
+      <>
+        <div className="flex items-center gap-2">
+          {!notification.read && <span className={`h-2 w-2 rounded-full shrink-0 ${PRIORITY_DOTS[notification.priority]}`} />}
+          <span className={`text-sm truncate ${notification.read ? 'text-gray-700' : 'font-medium text-gray-900'}`}>
+            {notification.title}
+          </span>
+        </div>
+        <p className="text-xs text-gray-600 mt-0.5 line-clamp-2">{notification.message}</p>
+        <p className="text-xs text-gray-400 mt-0.5">{formatAge(notification.createdAt)}</p>
+      </>
+    );
+
+    return (
+      <li key={notification.id} className={`flex items-start gap-2 px-3 py-2 hover:bg-gray-50 ${notification.read ? '' : 'bg-blue-50/50'}`}>
+        {notification.actionUrl ? (
+          <Link
+            href={notification.actionUrl}
+            className="flex-1 min-w-0"
+            onClick={() => {
+              markRead(notification);
+              setIsOpen(false);
+            }}
+          >
+            {content}
+          </Link>
+        ) : (
+          <button type="button" className="flex-1 min-w-0 text-left" onClick={() => markRead(notification)}>
+            {content}
+          </button>
+        )}
+        <button
+          type="button"
+          aria-label="Delete notification"
+          className="text-gray-400 hover:text-gray-700 shrink-0"
+          onClick={() => deleteNotification(notification)}
+        >
+          <X className="h-3.5 w-3.5" />
+        </button>
+      </li>
+    );
+  };
+
+  return (
+    <div ref={containerRef} className="relative">
+      <button
+        type="button"
+        aria-label="Notifications"
+        className="relative p-1 text-gray-600 hover:text-gray-900 transition-colors"
+        onClick={() => setIsOpen((open) => !open)}
+      >
+        <Bell className="h-5 w-5" />
+        {unreadCount > 0 && (
+          <span className="absolute -top-1 -right-1 min-w-[1.1rem] h-[1.1rem] px-1 rounded-full bg-red-600 text-white text-[10px] leading-[1.1rem] text-center">
+            {unreadCount > 99 ? '99+' : unreadCount}
+          </span>
+        )}
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 mt-2 w-80 bg-white border border-gray-200 rounded-md shadow-lg z-50">
+          <div className="flex items-center justify-between px-3 py-2 border-b">
+            <span className="text-sm font-medium text-gray-900">Notifications</span>
+            <Button variant="ghost" size="sm" onClick={markAllRead} disabled={unreadCount === 0}>
+              <CheckCheck className="h-4 w-4 mr-1" />
+              Mark all read
+            </Button>
+          </div>
+
+          {error ? (
+            <p className="px-3 py-4 text-sm text-red-600">{error}</p>
+          ) : isLoading && notifications.length === 0 ? (
+            <div className="flex items-center justify-center py-6">
+              <Loader2 className="h-4 w-4 animate-spin" />
+            </div>
+          ) : notifications.length === 0 ? (
+            <p className="px-3 py-6 text-sm text-gray-600 text-center">You&apos;re all caught up.</p>
+          ) : (
+            <ul className="max-h-96 overflow-y-auto divide-y">
+              {notifications.map(renderNotification)}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
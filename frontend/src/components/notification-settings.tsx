@@ -0,0 +1,103 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Loader2 } from 'lucide-react';
+import { apiClient } from '@/lib/api-client';
+
+interface NotificationSettingsValues {
+  email: boolean;
+  push: boolean;
+  weeklyReport: boolean;
+  tradeAlerts: boolean;
+  weeklyReportEmail: boolean;
+  tradeAlertEmail: boolean;
+}
+
+const OPTIONS: { key: keyof NotificationSettingsValues; label: string; description: string }[] = [
+  { key: 'email', label: 'Email', description: 'Send weekly reports, trade alerts and injury alerts to your inbox.' },
+  { key: 'push', label: 'Live alerts', description: 'Show new notifications instantly while the app is open.' },
+  { key: 'weeklyReport', label: 'Weekly reports', description: 'A recap of your leagues after each week.' },
+  { key: 'tradeAlerts', label: 'Trade alerts', description: 'Trade offers and responses from your leaguemates.' },
+  { key: 'weeklyReportEmail', label: 'Weekly report emails', description: 'Also email the weekly recap when email is on.' },
+  { key: 'tradeAlertEmail', label: 'Trade alert emails', description: 'Also email trade offers when email is on.' },
+];
+
+export function NotificationSettings() {
+  const [settings, setSettings] = useState<NotificationSettingsValues | null>(null);
+  const [saving, setSaving] = useState<keyof NotificationSettingsValues | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const loadSettings = async () => {
+      try {
+        const response = await apiClient.get('/api/notifications/settings');
+        const data = await response.json();
+        if (!response.ok || !data.success) {
+          throw new Error(data.error?.message || 'Failed to load notification settings');
+        }
+        setSettings(data.data);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to load notification settings');
+      }
+    };
+
+    loadSettings();
+  }, []);
+
+  const toggle = async (key: keyof NotificationSettingsValues) => {
+    if (!settings) return;
+
+    const previous = settings;
+    setSettings({ ...settings, [key]: !settings[key] });
+    setSaving(key);
+    setError(null);
+
+    try {
+      const response = await apiClient.put('/api/notifications/settings', { [key]: !previous[key] });
+      const data = await response.json();
+      if (!response.ok || !data.success) {
+        throw new Error(data.error?.message || 'Failed to save notification settings');
+      }
+      setSettings(data.data);
+    } catch (err) {
+      setSettings(previous);
+      setError(err instanceof Error ? err.message : 'Failed to save notification settings');
+    } finally {
+      setSaving(null);
+    }
+  };
+
+  return (
+    <div className="mb-8 pb-6 border-b border-gray-200">
+      <h2 className="text-lg font-semibold text-gray-900 mb-4">Notifications</h2>
+
+      {error && (
+        <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-md">
+          <p className="text-sm text-red-800">❌ {error}</p>
+        </div>
+      )}
+
+      {!settings ? (
+        !error && <Loader2 className="h-4 w-4 animate-spin text-gray-500" />
+      ) : (
+        <div className="space-y-3">
+          {OPTIONS.map((option) => (
+            <label key={option.key} className="flex items-start space-x-3">
+              <input
+                type="checkbox"
+                className="mt-1"
+                checked={settings[option.key]}
+                disabled={saving !== null}
+                onChange={() => toggle(option.key)}
+              />
+              <span>
+                <span className="block text-sm font-medium text-gray-900">{option.label}</span>
+                <span className="block text-sm text-gray-600">{option.description}</span>
+              </span>
+            </label>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,112 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import { io, Socket } from 'socket.io-client';
+import { apiClient } from '@/lib/api-client';
+
+// Mirrors WEBSOCKET_EVENTS in the shared package
+export type RealtimeEvent =
+  | 'score_update'
+  | 'lineup_change'
+  | 'trade_proposal'
+  | 'waiver_claim'
+  | 'chat_message'
+  | 'rivalry_update'
+  | 'notification'
+  | 'connection_status';
+
+export interface RealtimeMessage<T = any> {
+  type: RealtimeEvent;
+  payload: T;
+  timestamp: string;
+  userId?: string;
+  leagueId?: string;
+}
+
+export type RealtimeHandlers = Partial<Record<RealtimeEvent, (message: RealtimeMessage) => void>>;
+
+// One connection per tab, shared by every component using the hook
+let sharedSocket: Socket | null = null;
+let socketUsers = 0;
+
+function acquireSocket(): Socket {
+  if (!sharedSocket) {
+    sharedSocket = io(process.env.NEXT_PUBLIC_BACKEND_URL || 'http://localhost:4000', {
+      // Called on every (re)connect, so an expired token is replaced
+      auth: (callback) => {
+        apiClient.getAuthToken()
+          .then((token) => callback({ token }))
+          .catch(() => callback({}));
+      },
+      transports: ['websocket', 'polling'],
+    });
+  }
+  socketUsers++;
+  return sharedSocket;
+}
+
+function releaseSocket() {
+  socketUsers--;
+  if (socketUsers <= 0 && sharedSocket) {
+    sharedSocket.disconnect();
+    sharedSocket = null;
+    socketUsers = 0;
+  }
+}
+
+/**
+ * Subscribes to backend events for the signed-in user and their leagues.
+ * Pass a leagueId to make sure that league's room is joined, e.g. for a
+ * league synced after the connection was opened. Handlers may change on every
+ * render; only the set of events subscribed to matters.
+ */
+export function useRealtime(
+  handlers: RealtimeHandlers,
+  options: { leagueId?: string; enabled?: boolean } = {}
+): { connected: boolean } {
+  const { leagueId, enabled = true } = options;
+  const [connected, setConnected] = useState(false);
+  const handlersRef = useRef(handlers);
+  handlersRef.current = handlers;
+
+  const eventKey = Object.keys(handlers).sort().join(',');
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    const socket = acquireSocket();
+    const events = eventKey ? (eventKey.split(',') as RealtimeEvent[]) : [];
+    const listeners = events.map((event) => {
+      const listener = (message: RealtimeMessage) => {
+        // League events for other leagues reach every page the user has open
+        if (leagueId && message.leagueId && message.leagueId !== leagueId) return;
+        handlersRef.current[event]?.(message);
+      };
+      socket.on(event, listener);
+      return [event, listener] as const;
+    });
+
+    const handleConnect = () => {
+      setConnected(true);
+      if (leagueId) {
+        socket.emit('join_league', leagueId);
+      }
+    };
+    const handleDisconnect = () => setConnected(false);
+
+    socket.on('connect', handleConnect);
+    socket.on('disconnect', handleDisconnect);
+    if (socket.connected) {
+      handleConnect();
+    }
+
+    return () => {
+      listeners.forEach(([event, listener]) => socket.off(event, listener));
+      socket.off('connect', handleConnect);
+      socket.off('disconnect', handleDisconnect);
+      releaseSocket();
+    };
+  }, [enabled, leagueId, eventKey]);
+
+  return { connected };
+}
@@ -33,6 +33,12 @@ export interface TradeRequest {
   };
 }
 
+export interface TradeStreamRequest extends TradeRequest {
+  team1UserId: string;
+  team2UserId: string;
+  preferredProvider?: 'openai' | 'claude' | 'gemini';
+}
+
 export interface WaiverWireRequest {
   userId: string;
   leagueId: string;
@@ -79,6 +85,38 @@ export interface QuickAnalysisRequest {
   preferredProvider?: 'openai' | 'claude' | 'gemini';
 }
 
+export type AnalysisType = 'start_sit' | 'trade_analysis' | 'trade_finder' | 'waiver_wire' | 'lineup_optimizer';
+
+export interface AnalysisHistoryFilters {
+  analysisType?: AnalysisType;
+  leagueId?: string;
+  week?: number;
+  from?: string;
+  to?: string;
+  cursor?: string;
+  limit?: number;
+}
+
+export interface AnalysisHistoryItem {
+  id: string;
+  leagueId: string | null;
+  analysisType: AnalysisType;
+  metadata: Record<string, any>;
+  createdAt: string;
+}
+
+export interface AnalysisHistoryPage {
+  items: AnalysisHistoryItem[];
+  nextCursor: string | null;
+  hasMore: boolean;
+}
+
+export interface StoredAnalysis extends AnalysisHistoryItem {
+  userId: string;
+  input: any;
+  output: any;
+}
+
 export interface ApiResponse<T = any> {
   success: boolean;
   data?: T;
@@ -217,6 +255,84 @@ export class AIClient {
     return response.data.data;
   }
 
+  // Streamed variants: onDelta receives the model's text as it is written,
+  // and the promise resolves with the same analysis as the methods above
+  async streamStartSit(request: StartSitRequest, onDelta: (text: string) => void): Promise<any> {
+    return this.streamAnalysis('/start-sit/stream', request, onDelta, 'Start/Sit analysis failed');
+  }
+
+  async streamTrade(request: TradeStreamRequest, onDelta: (text: string) => void): Promise<any> {
+    return this.streamAnalysis('/trade-analysis/stream', request, onDelta, 'Trade analysis failed');
+  }
+
+  async streamLineup(request: LineupOptimizerRequest, onDelta: (text: string) => void): Promise<any> {
+    return this.streamAnalysis('/lineup-optimizer/stream', request, onDelta, 'Lineup optimization failed');
+  }
+
+  // axios cannot read a response body incrementally in the browser, so the
+  // Server-Sent Events endpoints are read with fetch
+  private async streamAnalysis(
+    path: string,
+    request: unknown,
+    onDelta: (text: string) => void,
+    fallbackMessage: string,
+    retried = false
+  ): Promise<any> {
+    const token = await this.getBackendJWT();
+    const response = await fetch(`${this.baseUrl}/api/ai${path}`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Accept: 'text/event-stream',
+        Authorization: `Bearer ${token}`,
+      },
+      body: JSON.stringify(request),
+    });
+
+    // Same single retry on an expired token as the axios interceptor
+    if (response.status === 401 && this.tokenCache && !retried) {
+      this.tokenCache = null;
+      return this.streamAnalysis(path, request, onDelta, fallbackMessage, true);
+    }
+
+    if (!response.ok || !response.body) {
+      const data = await response.json().catch(() => null);
+      throw new Error(data?.error?.message || fallbackMessage);
+    }
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      buffer += decoder.decode(value, { stream: true });
+      const events = buffer.split('\n\n');
+      buffer = events.pop() || '';
+
+      for (const raw of events) {
+        const event = raw.match(/^event: (.*)$/m)?.[1];
+        const data = raw.match(/^data: (.*)$/m)?.[1];
+        if (!event || !data) continue;
+
+        const payload = JSON.parse(data);
+        if (event === 'delta') {
+          onDelta(payload.content);
+        } else if (event === 'result') {
+          reader.cancel();
+          return payload.data;
+        } else if (event === 'error') {
+          reader.cancel();
+          throw new Error(payload.error?.details || payload.error?.message || fallbackMessage);
+        }
+      }
+    }
+
+    throw new Error(fallbackMessage);
+  }
+
   async analyzeWaiverWire(request: WaiverWireRequest): Promise<any> {
     const response = await this.client.post<ApiResponse>('/waiver-wire', request);
     if (!response.data.success) {
@@ -258,6 +374,22 @@ export class AIClient {
     return response.data.data;
   }
 
+  async getAnalysisHistory(filters: AnalysisHistoryFilters = {}): Promise<AnalysisHistoryPage> {
+    const response = await this.client.get<ApiResponse<AnalysisHistoryPage>>('/history', { params: filters });
+    if (!response.data.success || !response.data.data) {
+      throw new Error(response.data.error?.message || 'Failed to load analysis history');
+    }
+    return response.data.data;
+  }
+
+  async getAnalysis(analysisId: string): Promise<StoredAnalysis> {
+    const response = await this.client.get<ApiResponse<StoredAnalysis>>(`/analysis/${analysisId}`);
+    if (!response.data.success || !response.data.data) {
+      throw new Error(response.data.error?.message || 'Failed to load analysis');
+    }
+    return response.data.data;
+  }
+
   async getServiceStatus(): Promise<any> {
     const response = await this.client.get<ApiResponse>('/status');
     if (!response.data.success) {
@@ -108,11 +108,24 @@ class ApiClient {
     });
   }
 
+  async patch(endpoint: string, data?: any): Promise<Response> {
+    const url = endpoint.startsWith('http') ? endpoint : `${this.baseUrl}${endpoint}`;
+    return this.authenticatedFetch(url, {
+      method: 'PATCH',
+      body: data ? JSON.stringify(data) : undefined,
+    });
+  }
+
   async delete(endpoint: string): Promise<Response> {
     const url = endpoint.startsWith('http') ? endpoint : `${this.baseUrl}${endpoint}`;
     return this.authenticatedFetch(url, { method: 'DELETE' });
   }
 
+  // Backend JWT for connections that cannot use authenticatedFetch, e.g. WebSockets
+  async getAuthToken(): Promise<string> {
+    return this.getBackendJWT();
+  }
+
   // Get the database user ID for API calls
   async getDatabaseUserId(): Promise<string> {
     if (this.tokenCache && this.tokenCache.expires > Date.now()) {
@@ -91,6 +91,8 @@ export const authOptions: NextAuthOptions = {
                   push: true,
                   weeklyReport: true,
                   tradeAlerts: true,
+                  weeklyReportEmail: true,
+                  tradeAlertEmail: true,
                 },
                 theme: 'system',
               },
@@ -0,0 +1,158 @@
+import {
+  buildSlotKeys,
+  getEligiblePositions,
+  LineupInfeasibleError,
+  selectObjective,
+  solveLineup,
+  SolverPlayer,
+} from '../utils/lineup-solver';
+
+const player = (
+  playerId: string,
+  fantasyPositions: string[],
+  expected: number,
+  extra: Partial<Omit<SolverPlayer, 'projectedPoints'>> & { floor?: number; ceiling?: number } = {}
+): SolverPlayer => ({
+  playerId,
+  playerName: extra.playerName || playerId.toUpperCase(),
+  fantasyPositions,
+  team: extra.team || `T${playerId}`,
+  projectedPoints: { floor: extra.floor ?? expected, expected, ceiling: extra.ceiling ?? expected },
+});
+
+describe('lineup solver', () => {
+  describe('getEligiblePositions', () => {
+    it('should map numbered slots to their base position', () => {
+      expect(getEligiblePositions('RB1')).toEqual(['RB']);
+      expect(getEligiblePositions('wr2')).toEqual(['WR']);
+    });
+
+    it('should expand flex slots', () => {
+      expect(getEligiblePositions('FLEX')).toEqual(['RB', 'WR', 'TE']);
+      expect(getEligiblePositions('WRRB_FLEX')).toEqual(['RB', 'WR']);
+      expect(getEligiblePositions('REC_FLEX')).toEqual(['WR', 'TE']);
+      expect(getEligiblePositions('SUPER-FLEX')).toEqual(['QB', 'RB', 'WR', 'TE']);
+      expect(getEligiblePositions('IDP_FLEX')).toEqual(['DL', 'LB', 'DB']);
+    });
+
+    it('should normalize position aliases', () => {
+      expect(getEligiblePositions('DST')).toEqual(['DEF']);
+      expect(getEligiblePositions('PK')).toEqual(['K']);
+    });
+  });
+
+  describe('buildSlotKeys', () => {
+    it('should number repeated slots and drop non-starting ones', () => {
+      expect(buildSlotKeys(['QB', 'RB', 'RB', 'WR', 'FLEX', 'BN', 'BN', 'IR', 'TAXI'])).toEqual(['QB', 'RB1', 'RB2', 'WR', 'FLEX']);
+    });
+  });
+
+  describe('solveLineup', () => {
+    const slots = ['QB', 'RB', 'RB', 'WR', 'TE', 'FLEX', 'BN'];
+    const players = [
+      player('qb1', ['QB'], 20),
+      player('qb2', ['QB'], 18),
+      player('rb1', ['RB'], 15),
+      player('rb2', ['RB'], 12),
+      player('rb3', ['RB'], 9),
+      player('wr1', ['WR'], 14),
+      player('wr2', ['WR'], 11),
+      player('te1', ['TE'], 8),
+      player('k1', ['K'], 7),
+    ];
+
+    it('should start the best eligible player in every slot and the best leftover at flex', () => {
+      const solution = solveLineup(players, slots, { objective: 'expected' });
+
+      expect(solution.lineup).toEqual({ QB: 'qb1', RB1: 'rb1', RB2: 'rb2', WR: 'wr1', TE: 'te1', FLEX: 'wr2' });
+      expect(solution.bench).toEqual(['qb2', 'rb3', 'k1']);
+      expect(solution.unfilledSlots).toEqual([]);
+      expect(solution.objectiveValue).toBe(80);
+    });
+
+    it('should let a multi-position player fill whichever slot helps most', () => {
+      const solution = solveLineup(
+        [player('rb1', ['RB'], 15), player('wr1', ['WR'], 14), player('hybrid', ['RB', 'WR'], 13)],
+        ['RB', 'WR', 'FLEX'],
+        { objective: 'expected' }
+      );
+
+      expect(solution.objectiveValue).toBe(42);
+      expect(Object.values(solution.lineup).sort()).toEqual(['hybrid', 'rb1', 'wr1']);
+    });
+
+    it('should solve overlapping flex slots jointly rather than slot by slot', () => {
+      // Filling REC_FLEX first with the WR would leave only the weak RB for WRRB_FLEX
+      const solution = solveLineup(
+        [player('wr1', ['WR'], 10), player('rb1', ['RB'], 2), player('te1', ['TE'], 9)],
+        ['REC_FLEX', 'WRRB_FLEX'],
+        { objective: 'expected' }
+      );
+
+      expect(solution.lineup).toEqual({ REC_FLEX: 'te1', WRRB_FLEX: 'wr1' });
+      expect(solution.objectiveValue).toBe(19);
+    });
+
+    it('should maximize the chosen objective', () => {
+      const rbs = [
+        player('safe', ['RB'], 12, { floor: 10, ceiling: 14 }),
+        player('steady', ['RB'], 13, { floor: 6, ceiling: 18 }),
+        player('boom', ['RB'], 11, { floor: 2, ceiling: 25 }),
+      ];
+
+      const floor = solveLineup(rbs, ['RB'], { objective: 'floor' });
+      const expected = solveLineup(rbs, ['RB'], { objective: 'expected' });
+      const ceiling = solveLineup(rbs, ['RB'], { objective: 'ceiling' });
+
+      expect(floor.lineup).toEqual({ RB: 'safe' });
+      expect(floor.objectiveValue).toBe(10);
+      expect(expected.lineup).toEqual({ RB: 'steady' });
+      expect(expected.objectiveValue).toBe(13);
+      expect(ceiling.lineup).toEqual({ RB: 'boom' });
+      expect(ceiling.objectiveValue).toBe(25);
+      expect(ceiling.projectedTotal).toEqual({ floor: 2, expected: 11, ceiling: 25 });
+    });
+
+    it('should honor mustStart, cannotStart and maxPlayersPerTeam', () => {
+      const solution = solveLineup(
+        [
+          player('qb1', ['QB'], 20, { team: 'KC' }),
+          player('wr1', ['WR'], 14, { team: 'KC' }),
+          player('wr2', ['WR'], 11, { team: 'MIA' }),
+          player('wr3', ['WR'], 6, { team: 'NE' }),
+        ],
+        ['QB', 'WR', 'WR'],
+        { objective: 'expected', mustStart: ['wr3'], cannotStart: ['wr2'], maxPlayersPerTeam: 1 }
+      );
+
+      expect(solution.lineup).toEqual({ QB: 'qb1', WR1: 'wr3' });
+      expect(solution.unfilledSlots).toEqual(['WR2']);
+    });
+
+    it('should leave a slot unfilled when nobody is eligible', () => {
+      const solution = solveLineup(players, ['QB', 'DEF'], { objective: 'expected' });
+
+      expect(solution.lineup).toEqual({ QB: 'qb1' });
+      expect(solution.unfilledSlots).toEqual(['DEF']);
+    });
+
+    it('should reject impossible constraints', () => {
+      expect(() => solveLineup(players, slots, { objective: 'expected', mustStart: ['qb1'], cannotStart: ['qb1'] }))
+        .toThrow(LineupInfeasibleError);
+      expect(() => solveLineup(players, slots, { objective: 'expected', mustStart: ['k1'] }))
+        .toThrow('Must-start player K1 is not eligible for any lineup slot');
+      expect(() => solveLineup(players, slots, { objective: 'expected', mustStart: ['nobody'] }))
+        .toThrow('Must-start player nobody is not among the available players');
+    });
+  });
+
+  describe('selectObjective', () => {
+    it('should map risk tolerance to an objective, with prioritizeFloor taking precedence', () => {
+      expect(selectObjective()).toBe('expected');
+      expect(selectObjective('moderate')).toBe('expected');
+      expect(selectObjective('conservative')).toBe('floor');
+      expect(selectObjective('aggressive')).toBe('ceiling');
+      expect(selectObjective('aggressive', true)).toBe('floor');
+    });
+  });
+});
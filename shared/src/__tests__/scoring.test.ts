@@ -0,0 +1,145 @@
+import {
+  calculateFantasyPoints,
+  describeScoringSettings,
+  expandStatLine,
+  getScoringFormat,
+  SCORING_PRESETS,
+} from '../utils/scoring';
+
+// scoring_settings as returned by Sleeper's /league/<id> endpoint
+const sleeperDefaultPpr = {
+  pass_yd: 0.04, pass_td: 4.0, pass_int: -1.0, pass_2pt: 2.0,
+  rush_yd: 0.1, rush_td: 6.0, rush_2pt: 2.0,
+  rec: 1.0, rec_yd: 0.1, rec_td: 6.0, rec_2pt: 2.0,
+  fum_lost: -2.0, fum_rec_td: 6.0, st_td: 6.0, st_ff: 1.0, st_fum_rec: 1.0,
+  fgm_0_19: 3.0, fgm_20_29: 3.0, fgm_30_39: 3.0, fgm_40_49: 4.0, fgm_50p: 5.0,
+  fgmiss: -1.0, xpm: 1.0, xpmiss: -1.0,
+  def_td: 6.0, def_st_td: 6.0, def_st_ff: 1.0, def_st_fum_rec: 1.0,
+  sack: 1.0, int: 2.0, fum_rec: 2.0, ff: 1.0, safe: 2.0, blk_kick: 2.0,
+  pts_allow_0: 10.0, pts_allow_1_6: 7.0, pts_allow_7_13: 4.0, pts_allow_14_20: 1.0,
+  pts_allow_21_27: 0.0, pts_allow_28_34: -1.0, pts_allow_35p: -4.0,
+  idp_tkl: 0.0, idp_sack: 0.0,
+};
+
+// Dynasty superflex league: TE premium, 6-point passing TDs, yardage bonuses, first downs
+const tePremiumLeague = {
+  ...sleeperDefaultPpr,
+  pass_td: 6.0,
+  pass_int: -2.0,
+  bonus_rec_te: 0.5,
+  bonus_pass_yd_300: 2.0,
+  bonus_pass_yd_400: 4.0,
+  bonus_rec_yd_100: 3.0,
+  bonus_rush_yd_100: 3.0,
+  rush_fd: 0.5,
+  rec_fd: 0.5,
+};
+
+// Individual defensive player league
+const idpLeague = {
+  ...sleeperDefaultPpr,
+  rec: 0.5,
+  idp_tkl_solo: 1.0,
+  idp_tkl_ast: 0.5,
+  idp_sack: 4.0,
+  idp_int: 3.0,
+  idp_ff: 3.0,
+  idp_pass_def: 1.0,
+};
+
+// Sleeper weekly stat lines
+const qbWeek = { pass_yd: 342, pass_td: 3, pass_int: 1, rush_yd: 28, rush_td: 0, fum_lost: 0, pass_att: 38, pass_cmp: 26 };
+const teWeek = { rec: 9, rec_yd: 112, rec_td: 1, rec_fd: 6, rec_tgt: 11 };
+const rbWeek = { rush_yd: 87, rush_td: 1, rush_fd: 5, rec: 4, rec_yd: 31, fum_lost: 1 };
+const lbWeek = { idp_tkl_solo: 7, idp_tkl_ast: 4, idp_sack: 1, idp_pass_def: 1 };
+const defenseWeek = { sack: 4, int: 1, fum_rec: 1, pts_allow: 10, yds_allow: 287 };
+
+describe('Scoring Utils', () => {
+  describe('calculateFantasyPoints', () => {
+    it('should score the presets', () => {
+      expect(calculateFantasyPoints(teWeek, SCORING_PRESETS.standard)).toBe(17.2);
+      expect(calculateFantasyPoints(teWeek, SCORING_PRESETS.halfPpr)).toBe(21.7);
+      expect(calculateFantasyPoints(teWeek, SCORING_PRESETS.ppr)).toBe(26.2);
+    });
+
+    it('should score Sleeper\'s default PPR settings', () => {
+      // 13.68 + 12 - 1 + 2.8
+      expect(calculateFantasyPoints(qbWeek, sleeperDefaultPpr, 'QB')).toBe(27.48);
+      // 8.7 + 6 + 4 + 3.1 - 2
+      expect(calculateFantasyPoints(rbWeek, sleeperDefaultPpr, 'RB')).toBe(19.8);
+    });
+
+    it('should apply 6-point passing TDs and yardage bonuses', () => {
+      // 13.68 + 18 - 2 + 2.8 + 2 (300-399 bonus)
+      expect(calculateFantasyPoints(qbWeek, tePremiumLeague, 'QB')).toBe(34.48);
+    });
+
+    it('should apply the TE premium only to tight ends', () => {
+      // 9 + 11.2 + 6 + 3 (100 yd bonus) + 3 (first downs) + 4.5 (premium)
+      expect(calculateFantasyPoints(teWeek, tePremiumLeague, 'TE')).toBe(36.7);
+      expect(calculateFantasyPoints(teWeek, tePremiumLeague, 'WR')).toBe(32.2);
+    });
+
+    it('should score individual defensive players', () => {
+      expect(calculateFantasyPoints(lbWeek, idpLeague, 'LB')).toBe(14);
+      expect(calculateFantasyPoints(lbWeek, sleeperDefaultPpr, 'LB')).toBe(0);
+    });
+
+    it('should score team defenses from points allowed', () => {
+      // 4 sacks + 2 INT + 2 fumble + 4 (7-13 allowed)
+      expect(calculateFantasyPoints(defenseWeek, sleeperDefaultPpr, 'DEF')).toBe(12);
+    });
+
+    it('should handle missing scoring settings', () => {
+      expect(calculateFantasyPoints(teWeek, undefined as any)).toBe(0);
+    });
+  });
+
+  describe('expandStatLine', () => {
+    it('should derive bonus and tier flags from totals', () => {
+      const expanded = expandStatLine({ ...defenseWeek, rec: 0 }, 'DEF');
+
+      expect(expanded.pts_allow_7_13).toBe(1);
+      expect(expanded.yds_allow_200_299).toBe(1);
+      expect(expanded.pts_allow_0).toBeUndefined();
+    });
+
+    it('should keep flags already on the stat line', () => {
+      const expanded = expandStatLine({ pass_yd: 405, bonus_pass_yd_300: 1 });
+
+      expect(expanded.bonus_pass_yd_300).toBe(1);
+      expect(expanded.bonus_pass_yd_400).toBeUndefined();
+    });
+
+    it('should count scrimmage yards across rushing and receiving', () => {
+      expect(expandStatLine(rbWeek).bonus_rush_rec_yd_100).toBe(1);
+    });
+  });
+
+  describe('getScoringFormat', () => {
+    it('should map reception scoring to a preset', () => {
+      expect(getScoringFormat(sleeperDefaultPpr)).toBe('ppr');
+      expect(getScoringFormat(idpLeague)).toBe('half_ppr');
+      expect(getScoringFormat(SCORING_PRESETS.standard)).toBe('standard');
+      expect(getScoringFormat(undefined)).toBe('standard');
+    });
+  });
+
+  describe('describeScoringSettings', () => {
+    it('should describe the default settings briefly', () => {
+      expect(describeScoringSettings(sleeperDefaultPpr)).toBe('PPR, -1 per INT');
+    });
+
+    it('should call out non-standard scoring', () => {
+      expect(describeScoringSettings(tePremiumLeague)).toBe(
+        'PPR, 6-pt passing TDs, TE premium (+0.5 per reception), first downs (rush +0.5, rec +0.5), ' +
+        'bonuses: 300-399 pass yds +2, 400+ pass yds +4, 100-199 rush yds +3, 100-199 rec yds +3'
+      );
+      expect(describeScoringSettings(idpLeague)).toBe('Half PPR, -1 per INT, IDP scoring');
+    });
+
+    it('should handle leagues without scoring settings', () => {
+      expect(describeScoringSettings({})).toBe('Standard (league scoring unavailable)');
+    });
+  });
+});
@@ -68,11 +68,13 @@ export const ANALYSIS_TYPES = {
   start_sit: 'Start/Sit Analysis',
   waiver_wire: 'Waiver Wire',
   trade_analysis: 'Trade Analysis',
+  trade_finder: 'Trade Finder',
   draft_grade: 'Draft Grade',
   playoff_odds: 'Playoff Odds',
   power_ranking: 'Power Ranking',
   matchup_preview: 'Matchup Preview',
   season_outlook: 'Season Outlook',
+  weekly_recap: 'Weekly Recap',
 } as const;
 
 export const NOTIFICATION_TYPES = {
@@ -113,6 +115,11 @@ export const API_ENDPOINTS = {
   LEAGUES_MEMBERS: '/api/leagues/:id/members',
   LEAGUES_CHAT: '/api/leagues/:id/chat',
   LEAGUES_RIVALRIES: '/api/leagues/:id/rivalries',
+  LEAGUES_PLAYOFF_ODDS: '/api/leagues/:id/playoff-odds',
+  LEAGUES_RECAP: '/api/leagues/:id/recap',
+  LEAGUES_DRAFT_GRADES: '/api/leagues/:id/draft-grades',
+  LEAGUES_SEASON_OUTLOOK: '/api/leagues/:id/season-outlook',
+  LEAGUES_TRADE_FINDER: '/api/leagues/:id/trade-finder',
   
   // Players
   PLAYERS_BASE: '/api/players',
@@ -130,6 +137,17 @@ export const API_ENDPOINTS = {
   ANALYTICS_POWER_RANKINGS: '/api/analytics/power-rankings',
   ANALYTICS_PLAYOFF_ODDS: '/api/analytics/playoff-odds',
   ANALYTICS_MATCHUP_PREVIEW: '/api/analytics/matchup-preview',
+  
+  // Notifications
+  NOTIFICATIONS_BASE: '/api/notifications',
+  NOTIFICATIONS_READ: '/api/notifications/:id/read',
+  NOTIFICATIONS_READ_ALL: '/api/notifications/read-all',
+  NOTIFICATIONS_SETTINGS: '/api/notifications/settings',
+  NOTIFICATIONS_UNSUBSCRIBE: '/api/notifications/unsubscribe',
+
+  // Background jobs
+  JOBS_BASE: '/api/jobs',
+  JOBS_RUN: '/api/jobs/:name/run',
 } as const;
 
 export const CACHE_KEYS = {
@@ -8,6 +8,8 @@ export * from './types/api';
 // Utils
 export * from './utils/validation';
 export * from './utils/common';
+export * from './utils/scoring';
+export * from './utils/lineup-solver';
 
 // Constants
 export * from './constants';
\ No newline at end of file
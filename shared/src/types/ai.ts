@@ -8,11 +8,13 @@ export const AIAnalysisSchema = z.object({
     'start_sit',
     'waiver_wire',
     'trade_analysis',
+    'trade_finder',
     'draft_grade',
     'playoff_odds',
     'power_ranking',
     'matchup_preview',
-    'season_outlook'
+    'season_outlook',
+    'weekly_recap'
   ]),
   input: z.record(z.string(), z.any()),
   output: z.object({
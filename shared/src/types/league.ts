@@ -44,12 +44,16 @@ export const LeagueRivalrySchema = z.object({
 export const LeagueChatSchema = z.object({
   id: z.string(),
   leagueId: z.string(),
-  userId: z.string(),
-  message: z.string().min(1).max(500),
-  messageType: z.enum(['chat', 'trade_proposal', 'waiver_claim', 'lineup_set', 'trash_talk']).default('chat'),
+  userId: z.string().nullable(), // null for system messages
+  message: z.string().trim().min(1).max(500),
+  messageType: z.enum(['chat', 'trade_proposal', 'trade', 'waiver_claim', 'lineup_set', 'trash_talk', 'weekly_recap']).default('chat'),
+  metadata: z.record(z.any()).nullable().optional(),
   createdAt: z.date(),
 });
 
+// Message types members can post; the rest are posted by the system
+export const USER_CHAT_MESSAGE_TYPES = ['chat', 'trade_proposal', 'trash_talk'] as const;
+
 export type League = z.infer<typeof LeagueSchema>;
 export type UserLeague = z.infer<typeof UserLeagueSchema>;
 export type LeagueRivalry = z.infer<typeof LeagueRivalrySchema>;
@@ -0,0 +1,343 @@
+export type LineupObjective = 'floor' | 'expected' | 'ceiling';
+
+export interface SolverPlayer {
+  playerId: string;
+  playerName: string;
+  fantasyPositions: string[]; // Sleeper fantasy_positions, e.g. ['RB', 'WR']
+  team: string;
+  projectedPoints: {
+    floor: number;
+    expected: number;
+    ceiling: number;
+  };
+}
+
+export interface LineupSolverOptions {
+  objective: LineupObjective;
+  mustStart?: string[];
+  cannotStart?: string[];
+  maxPlayersPerTeam?: number;
+}
+
+export interface LineupSolution {
+  lineup: { [slot: string]: string }; // slot key -> playerId
+  unfilledSlots: string[];
+  bench: string[];
+  projectedTotal: {
+    floor: number;
+    expected: number;
+    ceiling: number;
+  };
+  objective: LineupObjective;
+  objectiveValue: number;
+  nodesExplored: number;
+}
+
+export class LineupInfeasibleError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'LineupInfeasibleError';
+  }
+}
+
+// Slots that never score and are ignored by the solver
+const NON_STARTING_SLOTS = new Set(['BN', 'BENCH', 'IR', 'TAXI']);
+
+// Positions that can fill each Sleeper flex roster slot; other slots take their own position
+export const FLEX_ELIGIBILITY: Record<string, string[]> = {
+  FLEX: ['RB', 'WR', 'TE'],
+  WRRB_FLEX: ['RB', 'WR'],
+  REC_FLEX: ['WR', 'TE'],
+  SUPER_FLEX: ['QB', 'RB', 'WR', 'TE'],
+  IDP_FLEX: ['DL', 'LB', 'DB'],
+};
+
+const POSITION_ALIASES: Record<string, string> = {
+  DST: 'DEF',
+  'D/ST': 'DEF',
+  PK: 'K',
+};
+
+function normalizePosition(position: string): string {
+  const upper = position.trim().toUpperCase();
+  return POSITION_ALIASES[upper] || upper;
+}
+
+/**
+ * Maps a roster slot label to the positions it accepts. Numbered labels such
+ * as "RB1" or "WR2" are treated as their base position.
+ */
+export function getEligiblePositions(slot: string): string[] {
+  const base = slot.trim().toUpperCase().replace(/-/g, '_').replace(/\d+$/, '');
+  return FLEX_ELIGIBILITY[base] || [normalizePosition(base)];
+}
+
+/**
+ * Gives every starting slot a unique key. Sleeper lists repeated slots
+ * (["RB", "RB"]), which would collide as object keys, so duplicates are numbered.
+ */
+export function buildSlotKeys(rosterSlots: string[]): string[] {
+  const starting = rosterSlots.filter(slot => !NON_STARTING_SLOTS.has(slot.trim().toUpperCase()));
+  const totals = new Map<string, number>();
+  starting.forEach(slot => totals.set(slot, (totals.get(slot) || 0) + 1));
+
+  const seen = new Map<string, number>();
+  return starting.map(slot => {
+    if ((totals.get(slot) || 0) === 1) {
+      return slot;
+    }
+    const count = (seen.get(slot) || 0) + 1;
+    seen.set(slot, count);
+    return `${slot}${count}`;
+  });
+}
+
+interface SlotGroup {
+  eligibility: string;
+  candidates: SolverPlayer[];
+}
+
+/**
+ * Branch-and-bound solver that fills every starting slot with an eligible
+ * player, maximizing the chosen projection while honoring mustStart,
+ * cannotStart and maxPlayersPerTeam. Results are deterministic: ties are
+ * broken by player ID.
+ */
+export function solveLineup(
+  players: SolverPlayer[],
+  rosterSlots: string[],
+  options: LineupSolverOptions
+): LineupSolution {
+  const objective = options.objective;
+  const cannotStart = new Set(options.cannotStart || []);
+  const mustStart = Array.from(new Set(options.mustStart || []));
+  const maxPerTeam = options.maxPlayersPerTeam && options.maxPlayersPerTeam > 0
+    ? options.maxPlayersPerTeam
+    : Infinity;
+
+  const playersById = new Map(players.map(player => [player.playerId, player]));
+
+  for (const playerId of mustStart) {
+    if (cannotStart.has(playerId)) {
+      throw new LineupInfeasibleError(`Player ${playerId} is listed in both mustStart and cannotStart`);
+    }
+    if (!playersById.has(playerId)) {
+      throw new LineupInfeasibleError(`Must-start player ${playerId} is not among the available players`);
+    }
+  }
+
+  const score = (player: SolverPlayer) => player.projectedPoints[objective] || 0;
+  const slotKeys = buildSlotKeys(rosterSlots);
+
+  const openings = new Map<string, number>();
+  slotKeys.forEach(key => getEligiblePositions(key).forEach(position => {
+    openings.set(position, (openings.get(position) || 0) + 1);
+  }));
+
+  // A single-position player behind as many single-position players at their
+  // position as there are slots taking it can always be swapped for one who
+  // sits, so they are left out of the search. Team limits break that swap.
+  const kept = new Map<string, number>();
+  const startable = players
+    .filter(player => !cannotStart.has(player.playerId))
+    .sort((a, b) => score(b) - score(a) || a.playerId.localeCompare(b.playerId))
+    .filter(player => {
+      const positions = Array.from(new Set(player.fantasyPositions.map(normalizePosition)));
+      if (maxPerTeam !== Infinity || positions.length !== 1 || mustStart.includes(player.playerId)) {
+        return true;
+      }
+      const count = kept.get(positions[0]) || 0;
+      kept.set(positions[0], count + 1);
+      return count < (openings.get(positions[0]) || 0);
+    });
+
+  // Most restrictive slots first so the search fails fast; identical slots are
+  // kept adjacent so interchangeable assignments can be skipped.
+  const slots = slotKeys
+    .map(key => {
+      const eligible = getEligiblePositions(key);
+      return {
+        key,
+        eligibility: eligible.slice().sort().join('|'),
+        eligible: new Set(eligible),
+      };
+    })
+    .map(slot => ({
+      ...slot,
+      candidates: startable.filter(player =>
+        player.fantasyPositions.some(position => slot.eligible.has(normalizePosition(position)))
+      ),
+    }))
+    .sort((a, b) =>
+      a.candidates.length - b.candidates.length ||
+      a.eligibility.localeCompare(b.eligibility) ||
+      slotKeys.indexOf(a.key) - slotKeys.indexOf(b.key)
+    );
+
+  const groups: SlotGroup[] = slots.map(slot => ({ eligibility: slot.eligibility, candidates: slot.candidates }));
+
+  for (const playerId of mustStart) {
+    const player = playersById.get(playerId)!;
+    if (!groups.some(group => group.candidates.includes(player))) {
+      throw new LineupInfeasibleError(`Must-start player ${player.playerName} is not eligible for any lineup slot`);
+    }
+  }
+
+  const mustStartSet = new Set(mustStart);
+  const used = new Set<string>();
+  const teamCounts = new Map<string, number>();
+  const choice: number[] = new Array(groups.length).fill(-1);
+
+  let bestValue = -Infinity;
+  let bestChoice: number[] | null = null;
+  let nodesExplored = 0;
+
+  // Everyone eligible for a slot from each index on, best first
+  const remainingCandidates: SolverPlayer[][] = new Array(groups.length);
+  const eligibleFrom = new Set<SolverPlayer>();
+  for (let i = groups.length - 1; i >= 0; i--) {
+    groups[i].candidates.forEach(player => eligibleFrom.add(player));
+    remainingCandidates[i] = startable.filter(player => eligibleFrom.has(player));
+  }
+
+  // Optimistic value of the remaining slots, ignoring team limits. The lesser
+  // of each slot's best player (who may repeat across slots) and the best
+  // distinct players, one per slot (who may not fit the slots left).
+  const upperBound = (fromIndex: number): number => {
+    let bySlot = 0;
+    for (let i = fromIndex; i < groups.length; i++) {
+      const best = groups[i].candidates.find(player => !used.has(player.playerId));
+      bySlot += best ? Math.max(0, score(best)) : 0;
+    }
+
+    let distinct = 0;
+    let slotsLeft = groups.length - fromIndex;
+    for (const player of remainingCandidates[fromIndex] || []) {
+      if (slotsLeft === 0 || score(player) <= 0) break;
+      if (used.has(player.playerId)) continue;
+      distinct += score(player);
+      slotsLeft--;
+    }
+
+    return Math.min(bySlot, distinct);
+  };
+
+  const search = (index: number, value: number, mustStartPlaced: number): void => {
+    nodesExplored++;
+
+    if (index === groups.length) {
+      if (mustStartPlaced === mustStart.length && value > bestValue) {
+        bestValue = value;
+        bestChoice = choice.slice();
+      }
+      return;
+    }
+
+    if (mustStart.length - mustStartPlaced > groups.length - index) {
+      return;
+    }
+    if (value + upperBound(index) <= bestValue) {
+      return;
+    }
+
+    const group = groups[index];
+    const emptyIndex = group.candidates.length;
+
+    // Symmetry breaking: an identical previous slot must take an earlier candidate
+    let start = 0;
+    if (index > 0 && groups[index - 1].eligibility === group.eligibility) {
+      const previous = choice[index - 1];
+      if (previous === emptyIndex) {
+        start = emptyIndex;
+      } else {
+        start = previous + 1;
+      }
+    }
+
+    for (let k = start; k < emptyIndex; k++) {
+      const player = group.candidates[k];
+      if (used.has(player.playerId)) continue;
+
+      const teamCount = teamCounts.get(player.team) || 0;
+      if (player.team && teamCount >= maxPerTeam) continue;
+
+      used.add(player.playerId);
+      teamCounts.set(player.team, teamCount + 1);
+      choice[index] = k;
+
+      search(index + 1, value + score(player), mustStartPlaced + (mustStartSet.has(player.playerId) ? 1 : 0));
+
+      used.delete(player.playerId);
+      teamCounts.set(player.team, teamCount);
+    }
+
+    // Leaving the slot empty is legal but scores nothing
+    choice[index] = emptyIndex;
+    search(index + 1, value, mustStartPlaced);
+    choice[index] = -1;
+  };
+
+  search(0, 0, 0);
+
+  if (!bestChoice) {
+    throw new LineupInfeasibleError('No lineup satisfies the mustStart and maxPlayersPerTeam constraints');
+  }
+
+  const finalChoice: number[] = bestChoice;
+  const lineup: { [slot: string]: string } = {};
+  const unfilledSlots: string[] = [];
+  const projectedTotal = { floor: 0, expected: 0, ceiling: 0 };
+
+  slots.forEach((slot, index) => {
+    const player = slot.candidates[finalChoice[index]];
+    if (!player) {
+      unfilledSlots.push(slot.key);
+      return;
+    }
+    lineup[slot.key] = player.playerId;
+    projectedTotal.floor += player.projectedPoints.floor || 0;
+    projectedTotal.expected += player.projectedPoints.expected || 0;
+    projectedTotal.ceiling += player.projectedPoints.ceiling || 0;
+  });
+
+  // Present the lineup in the league's slot order
+  const orderedLineup: { [slot: string]: string } = {};
+  slotKeys.forEach(key => {
+    if (lineup[key]) {
+      orderedLineup[key] = lineup[key];
+    }
+  });
+
+  const starters = new Set(Object.values(orderedLineup));
+
+  return {
+    lineup: orderedLineup,
+    unfilledSlots: slotKeys.filter(key => unfilledSlots.includes(key)),
+    bench: players.map(player => player.playerId).filter(playerId => !starters.has(playerId)),
+    projectedTotal: {
+      floor: round(projectedTotal.floor),
+      expected: round(projectedTotal.expected),
+      ceiling: round(projectedTotal.ceiling),
+    },
+    objective,
+    objectiveValue: round(bestValue),
+    nodesExplored,
+  };
+}
+
+/**
+ * Picks the projection to maximize. prioritizeFloor always wins; otherwise
+ * conservative maps to floor, aggressive to ceiling and moderate to expected.
+ */
+export function selectObjective(
+  riskTolerance?: 'conservative' | 'moderate' | 'aggressive',
+  prioritizeFloor?: boolean
+): LineupObjective {
+  if (prioritizeFloor || riskTolerance === 'conservative') return 'floor';
+  if (riskTolerance === 'aggressive') return 'ceiling';
+  return 'expected';
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
@@ -0,0 +1,232 @@
+import type { ScoringFormat } from '../types/league';
+
+// Sleeper scoring_settings: stat key -> points per unit of that stat
+export type ScoringSettings = Record<string, number>;
+
+// Sleeper stat line: stat key -> value for one week or season
+export type StatLine = Record<string, number>;
+
+// Sleeper's default scoring, keyed by the stat names its stats endpoint returns
+export const STANDARD_SCORING: ScoringSettings = {
+  pass_yd: 0.04,
+  pass_td: 4,
+  pass_int: -2,
+  pass_2pt: 2,
+  rush_yd: 0.1,
+  rush_td: 6,
+  rush_2pt: 2,
+  rec_yd: 0.1,
+  rec_td: 6,
+  rec_2pt: 2,
+  fum_lost: -2,
+  st_td: 6,
+  fgm_0_19: 3,
+  fgm_20_29: 3,
+  fgm_30_39: 3,
+  fgm_40_49: 4,
+  fgm_50p: 5,
+  fgmiss: -1,
+  xpm: 1,
+  xpmiss: -1,
+  def_td: 6,
+  def_st_td: 6,
+  sack: 1,
+  int: 2,
+  fum_rec: 2,
+  ff: 1,
+  safe: 2,
+  blk_kick: 2,
+  pts_allow_0: 10,
+  pts_allow_1_6: 7,
+  pts_allow_7_13: 4,
+  pts_allow_14_20: 1,
+  pts_allow_21_27: 0,
+  pts_allow_28_34: -1,
+  pts_allow_35p: -4,
+};
+
+export const SCORING_PRESETS: { standard: ScoringSettings; ppr: ScoringSettings; halfPpr: ScoringSettings } = {
+  standard: STANDARD_SCORING,
+  ppr: { ...STANDARD_SCORING, rec: 1 },
+  halfPpr: { ...STANDARD_SCORING, rec: 0.5 },
+};
+
+interface RangeFlag {
+  key: string;
+  min: number;
+  max?: number; // Inclusive
+}
+
+// Single-game yardage bonuses, awarded for the range the total falls in
+const YARDAGE_BONUSES: { stats: string[]; ranges: RangeFlag[] }[] = [
+  { stats: ['pass_yd'], ranges: [{ key: 'bonus_pass_yd_300', min: 300, max: 399 }, { key: 'bonus_pass_yd_400', min: 400 }] },
+  { stats: ['rush_yd'], ranges: [{ key: 'bonus_rush_yd_100', min: 100, max: 199 }, { key: 'bonus_rush_yd_200', min: 200 }] },
+  { stats: ['rec_yd'], ranges: [{ key: 'bonus_rec_yd_100', min: 100, max: 199 }, { key: 'bonus_rec_yd_200', min: 200 }] },
+  {
+    stats: ['rush_yd', 'rec_yd'],
+    ranges: [{ key: 'bonus_rush_rec_yd_100', min: 100, max: 199 }, { key: 'bonus_rush_rec_yd_200', min: 200 }],
+  },
+];
+
+// Team defense tiers for points and yards allowed
+const ALLOWED_TIERS: { stat: string; ranges: RangeFlag[] }[] = [
+  {
+    stat: 'pts_allow',
+    ranges: [
+      { key: 'pts_allow_0', min: 0, max: 0 },
+      { key: 'pts_allow_1_6', min: 1, max: 6 },
+      { key: 'pts_allow_7_13', min: 7, max: 13 },
+      { key: 'pts_allow_14_20', min: 14, max: 20 },
+      { key: 'pts_allow_21_27', min: 21, max: 27 },
+      { key: 'pts_allow_28_34', min: 28, max: 34 },
+      { key: 'pts_allow_35p', min: 35 },
+    ],
+  },
+  {
+    stat: 'yds_allow',
+    ranges: [
+      { key: 'yds_allow_0_100', min: 0, max: 99 },
+      { key: 'yds_allow_100_199', min: 100, max: 199 },
+      { key: 'yds_allow_200_299', min: 200, max: 299 },
+      { key: 'yds_allow_300_349', min: 300, max: 349 },
+      { key: 'yds_allow_350_399', min: 350, max: 399 },
+      { key: 'yds_allow_400_449', min: 400, max: 449 },
+      { key: 'yds_allow_450_499', min: 450, max: 499 },
+      { key: 'yds_allow_500_549', min: 500, max: 549 },
+      { key: 'yds_allow_550p', min: 550 },
+    ],
+  },
+];
+
+// Extra points per reception for one position, e.g. TE premium
+const RECEPTION_PREMIUMS: Record<string, string> = {
+  RB: 'bonus_rec_rb',
+  WR: 'bonus_rec_wr',
+  TE: 'bonus_rec_te',
+};
+
+const inRange = (value: number, range: RangeFlag) =>
+  value >= range.min && (range.max === undefined || value <= range.max);
+
+/**
+ * Adds the bonus, premium and tier flags a league can score but a stat line
+ * may not carry, derived from the raw totals. Flags already on the line win.
+ */
+export function expandStatLine(stats: StatLine, position?: string): StatLine {
+  const expanded: StatLine = { ...stats };
+
+  YARDAGE_BONUSES.forEach(bonus => {
+    if (bonus.ranges.some(range => range.key in stats)) return;
+    if (!bonus.stats.some(stat => typeof stats[stat] === 'number')) return;
+
+    const total = bonus.stats.reduce((sum, stat) => sum + (stats[stat] || 0), 0);
+    const range = bonus.ranges.find(candidate => inRange(total, candidate));
+    if (range) expanded[range.key] = 1;
+  });
+
+  ALLOWED_TIERS.forEach(tier => {
+    if (typeof stats[tier.stat] !== 'number' || tier.ranges.some(range => range.key in stats)) return;
+
+    const range = tier.ranges.find(candidate => inRange(stats[tier.stat], candidate));
+    if (range) expanded[range.key] = 1;
+  });
+
+  const premium = position ? RECEPTION_PREMIUMS[position.toUpperCase()] : undefined;
+  if (premium && !(premium in stats) && typeof stats.rec === 'number') {
+    expanded[premium] = stats.rec;
+  }
+
+  return expanded;
+}
+
+/**
+ * Points for a stat line under any Sleeper scoring_settings map. Pass the
+ * player's position so position-based reception premiums apply.
+ */
+export function calculateFantasyPoints(stats: StatLine, scoringSettings: ScoringSettings, position?: string): number {
+  const line = expandStatLine(stats, position);
+  const points = Object.entries(scoringSettings || {}).reduce((total, [statKey, weight]) => {
+    const value = line[statKey];
+    return typeof value === 'number' && typeof weight === 'number' ? total + value * weight : total;
+  }, 0);
+
+  return Math.round(points * 100) / 100;
+}
+
+/**
+ * Closest preset for a league; superflex is a roster format and is never
+ * inferred from scoring.
+ */
+export function getScoringFormat(scoringSettings?: ScoringSettings | null): Exclude<ScoringFormat, 'superflex'> {
+  const reception = scoringSettings?.rec || 0;
+  if (reception >= 1) return 'ppr';
+  if (reception > 0) return 'half_ppr';
+  return 'standard';
+}
+
+const formatNumber = (value: number) => Number(value.toFixed(2)).toString();
+const formatSigned = (value: number) => `${value > 0 ? '+' : ''}${formatNumber(value)}`;
+
+const BONUS_LABELS: Record<string, string> = {
+  bonus_pass_yd_300: '300-399 pass yds',
+  bonus_pass_yd_400: '400+ pass yds',
+  bonus_rush_yd_100: '100-199 rush yds',
+  bonus_rush_yd_200: '200+ rush yds',
+  bonus_rec_yd_100: '100-199 rec yds',
+  bonus_rec_yd_200: '200+ rec yds',
+  bonus_rush_rec_yd_100: '100-199 scrimmage yds',
+  bonus_rush_rec_yd_200: '200+ scrimmage yds',
+};
+
+/**
+ * One-line description of where a league's scoring departs from the presets,
+ * for AI prompts and UI badges.
+ */
+export function describeScoringSettings(scoringSettings?: ScoringSettings | null): string {
+  if (!scoringSettings || Object.keys(scoringSettings).length === 0) {
+    return 'Standard (league scoring unavailable)';
+  }
+
+  const setting = (key: string) => scoringSettings[key] || 0;
+  const reception = setting('rec');
+  const parts: string[] = [
+    reception === 1 ? 'PPR' : reception === 0.5 ? 'Half PPR' : reception === 0 ? 'Standard' : `${formatNumber(reception)} PPR`,
+  ];
+
+  if (setting('pass_td') !== STANDARD_SCORING.pass_td) {
+    parts.push(`${formatNumber(setting('pass_td'))}-pt passing TDs`);
+  }
+  if (setting('pass_yd') !== STANDARD_SCORING.pass_yd && setting('pass_yd') > 0) {
+    parts.push(`1 pt per ${formatNumber(1 / setting('pass_yd'))} pass yds`);
+  }
+  if (setting('pass_int') !== STANDARD_SCORING.pass_int) {
+    parts.push(`${formatSigned(setting('pass_int'))} per INT`);
+  }
+
+  Object.entries(RECEPTION_PREMIUMS).forEach(([position, key]) => {
+    if (setting(key)) {
+      parts.push(`${position} premium (${formatSigned(setting(key))} per reception)`);
+    }
+  });
+
+  if (setting('pass_cmp')) parts.push(`${formatSigned(setting('pass_cmp'))} per completion`);
+  if (setting('rush_att')) parts.push(`${formatSigned(setting('rush_att'))} per carry`);
+
+  const firstDowns = ['pass_fd', 'rush_fd', 'rec_fd'].filter(key => setting(key));
+  if (firstDowns.length > 0) {
+    parts.push(`first downs (${firstDowns.map(key => `${key.split('_')[0]} ${formatSigned(setting(key))}`).join(', ')})`);
+  }
+
+  const bonuses = Object.entries(BONUS_LABELS)
+    .filter(([key]) => setting(key))
+    .map(([key, label]) => `${label} ${formatSigned(setting(key))}`);
+  if (bonuses.length > 0) {
+    parts.push(`bonuses: ${bonuses.join(', ')}`);
+  }
+
+  if (Object.keys(scoringSettings).some(key => key.startsWith('idp_') && scoringSettings[key])) {
+    parts.push('IDP scoring');
+  }
+
+  return parts.join(', ');
+}